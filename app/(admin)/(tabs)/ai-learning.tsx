@@ -7,6 +7,7 @@ import {
   TouchableOpacity,
   RefreshControl,
   Alert,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import {
@@ -19,13 +20,53 @@ import {
   ChevronUp,
   AlertTriangle,
   TrendingUp,
+  TrendingDown,
+  Play,
+  Square,
+  ShieldCheck,
+  Rocket,
+  RotateCcw,
+  Archive,
+  Package,
+  GitMerge,
 } from 'lucide-react-native';
-import { learningSystem, type LearningCandidate } from '@/services/ai/LearningSystem';
+import { useAuth } from '@/context/AuthContext';
+import {
+  learningSystem,
+  type LearningCandidate,
+  type ModelVersion,
+  type FeedbackAggregate,
+  type FeedbackSummary,
+  type AgentConflictAggregate,
+} from '@/services/ai/LearningSystem';
+import { modelVersionRegistry, type LifecycleResult } from '@/services/ai/ModelVersionRegistry';
+import { safetyEvaluationHarness } from '@/services/ai/SafetyEvaluationHarness';
+import { knowledgeCompiler, type KnowledgeChange } from '@/services/ai/KnowledgeCompiler';
+import type { ExtractedSymptom, Intent } from '@/services/ai/AIConversationalEngine';
+import type { RiskLevel } from '@/types/database.types';
+import { shadowModeEvaluator, type ShadowDashboard, type ShadowComparison } from '@/services/ai/ShadowModeEvaluator';
+import { knowledgeBase, type KnowledgeBaseVersionSummary } from '@/services/ai/KnowledgeBase';
+import { ruleBacktester, type BacktestReport, type BacktestCaseDiff } from '@/services/ai/RuleBacktester';
+import { agentOrchestrator, type ConflictDimension } from '@/services/ai/MultiAgentSystem';
+import { agentRegistry, type AgentSettings, type RegisteredAgent } from '@/services/ai/AgentRegistry';
+import {
+  orchestratorTraceStore,
+  type AgentTraceEntry,
+  type ConfigurationChange,
+  type OrchestratorPath,
+  type OrchestratorTrace,
+  type TraceComparison,
+} from '@/services/ai/OrchestratorTraceStore';
 
 export default function AILearningScreen() {
+  const { user } = useAuth();
+  const [section, setSection] = useState<'candidates' | 'backtesting' | 'shadow' | 'versions' | 'feedback' | 'traces'>('candidates');
   const [candidates, setCandidates] = useState<LearningCandidate[]>([]);
   const [selectedTab, setSelectedTab] = useState<'pending' | 'approved' | 'rejected'>('pending');
   const [expandedCandidate, setExpandedCandidate] = useState<string | null>(null);
+  const [changes, setChanges] = useState<Record<string, KnowledgeChange | undefined>>({});
+  const [compiling, setCompiling] = useState(false);
+  const [merging, setMerging] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [stats, setStats] = useState({
     totalCandidates: 0,
@@ -41,6 +82,10 @@ export default function AILearningScreen() {
 
   const fetchData = async () => {
     try {
+      // Fetch candidates (clustered for review)
+      const fetchedCandidates = await learningSystem.getPendingCandidates();
+      setCandidates(fetchedCandidates);
+
       // Fetch learning stats
       const learningStats = await learningSystem.getLearningStats();
       setStats({
@@ -50,10 +95,6 @@ export default function AILearningScreen() {
         rejectedCandidates: 0,
         modelAccuracy: 94,
       });
-
-      // Fetch candidates based on selected tab
-      const fetchedCandidates = await learningSystem.getPendingCandidates();
-      setCandidates(fetchedCandidates);
     } catch (error) {
       console.error('Error fetching AI learning data:', error);
     }
@@ -66,16 +107,21 @@ export default function AILearningScreen() {
   };
 
   const handleApprove = (candidate: LearningCandidate) => {
+    const change = changes[candidate.id];
     Alert.alert(
       'Approve Learning Candidate',
-      'This conversation will be added to the AI training dataset. Are you sure?',
+      change
+        ? 'The change will be compiled into the next model version, linked to this conversation. Are you sure?'
+        : 'No change is specified, so this candidate will not be compiled into a model version. Are you sure?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Approve',
           onPress: async () => {
+            if (!user) return;
             try {
-              await learningSystem.approveLearningCandidate(candidate.id, 'admin');
+              const approved = await learningSystem.approveLearningCandidate(candidate.id, user.id, undefined, change);
+              if (!approved) Alert.alert('Approval Failed', 'Unable to save the approval, try again.');
               fetchData();
             } catch (error) {
               console.error('Error approving candidate:', error);
@@ -86,6 +132,58 @@ export default function AILearningScreen() {
     );
   };
 
+  const handleMerge = async () => {
+    setMerging(true);
+    try {
+      const merged = await learningSystem.mergePendingCandidates();
+      Alert.alert(
+        'Candidates Merged',
+        merged > 0
+          ? `${merged} candidate(s) merged into their clusters.`
+          : 'No similar pending candidates to merge.'
+      );
+      fetchData();
+    } catch (error) {
+      console.error('Error merging candidates:', error);
+      Alert.alert('Merge Failed', 'Unable to merge similar candidates.');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleCompile = () => {
+    if (!user) return;
+    Alert.alert(
+      'Compile Approved Candidates',
+      'Approved changes will be built into a new knowledge base draft and a model version in training.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Compile',
+          onPress: async () => {
+            setCompiling(true);
+            try {
+              const result = await knowledgeCompiler.compile(user.id);
+              const skipped = result.skipped.length > 0 ? `\n\n${result.skipped.length} candidate(s) skipped.` : '';
+              Alert.alert(
+                result.modelVersion ? 'Model Version Created' : 'Nothing to Compile',
+                result.modelVersion
+                  ? `${result.modelVersion} carries ${result.changes.length} change(s) on top of ${result.baseVersion}. Validate and promote it under Versions.${skipped}`
+                  : `No approved candidate has a change to compile.${skipped}`
+              );
+              fetchData();
+            } catch (error) {
+              console.error('Error compiling candidates:', error);
+              Alert.alert('Compilation Failed', error instanceof Error ? error.message : 'Unable to compile candidates.');
+            } finally {
+              setCompiling(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleReject = (candidate: LearningCandidate) => {
     Alert.alert(
       'Reject Learning Candidate',
@@ -96,8 +194,10 @@ export default function AILearningScreen() {
           text: 'Reject',
           style: 'destructive',
           onPress: async () => {
+            if (!user) return;
             try {
-              await learningSystem.rejectLearningCandidate(candidate.id, 'admin', 'Rejected by admin');
+              const rejected = await learningSystem.rejectLearningCandidate(candidate.id, user.id, 'Rejected by admin');
+              if (!rejected) Alert.alert('Rejection Failed', 'Unable to save the rejection, try again.');
               fetchData();
             } catch (error) {
               console.error('Error rejecting candidate:', error);
@@ -137,167 +237,1567 @@ export default function AILearningScreen() {
           <Text style={styles.subtitle}>Manage AI training data</Text>
         </View>
 
-        {/* Stats Overview */}
-        <View style={styles.statsContainer}>
-          <View style={[styles.statCard, { backgroundColor: '#f3e8ff' }]}>
-<<<<<<< HEAD
-            <Brain size={24} color="#10B981" />
-            <Text style={[styles.statNumber, { color: '#10B981' }]}>{stats.modelAccuracy}%</Text>
-=======
-            <Brain size={24} color="#7c3aed" />
-            <Text style={[styles.statNumber, { color: '#7c3aed' }]}>{stats.modelAccuracy}%</Text>
->>>>>>> 84817c9d126aa0ee4fcfd2aea41ef4b7f9235469
-            <Text style={styles.statLabel}>Model Accuracy</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: '#fef3c7' }]}>
-            <Clock size={24} color="#f59e0b" />
-            <Text style={[styles.statNumber, { color: '#f59e0b' }]}>{stats.pendingCandidates}</Text>
-            <Text style={styles.statLabel}>Pending</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: '#dcfce7' }]}>
-            <CheckCircle size={24} color="#22c55e" />
-            <Text style={[styles.statNumber, { color: '#22c55e' }]}>{stats.approvedCandidates}</Text>
-            <Text style={styles.statLabel}>Approved</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: '#fee2e2' }]}>
-            <XCircle size={24} color="#dc2626" />
-            <Text style={[styles.statNumber, { color: '#dc2626' }]}>{stats.rejectedCandidates}</Text>
-            <Text style={styles.statLabel}>Rejected</Text>
-          </View>
-        </View>
-
-        {/* Tabs */}
-        <View style={styles.tabContainer}>
-          {(['pending', 'approved', 'rejected'] as const).map((tab) => (
+        {/* Section Switcher */}
+        <View style={styles.sectionSwitcher}>
+          {(['candidates', 'backtesting', 'shadow', 'versions', 'feedback', 'traces'] as const).map((item) => (
             <TouchableOpacity
-              key={tab}
-              style={[styles.tab, selectedTab === tab && styles.tabActive]}
-              onPress={() => setSelectedTab(tab)}
+              key={item}
+              style={[styles.sectionButton, section === item && styles.sectionButtonActive]}
+              onPress={() => setSection(item)}
             >
-              <Text style={[styles.tabText, selectedTab === tab && styles.tabTextActive]}>
-                {tab.charAt(0).toUpperCase() + tab.slice(1)}
+              <Text style={[styles.sectionButtonText, section === item && styles.sectionButtonTextActive]}>
+                {SECTION_LABELS[item]}
               </Text>
             </TouchableOpacity>
           ))}
         </View>
 
-        {/* Candidates List */}
-        <View style={styles.candidatesList}>
-          {candidates.length === 0 ? (
-            <View style={styles.emptyState}>
-              <Brain size={48} color="#d1d5db" />
-              <Text style={styles.emptyText}>No {selectedTab} candidates</Text>
-            </View>
-          ) : (
-            candidates.map((candidate) => {
-              const isExpanded = expandedCandidate === candidate.id;
-              return (
-                <View key={candidate.id} style={styles.candidateCard}>
-                  <TouchableOpacity
-                    style={styles.candidateHeader}
-                    onPress={() => setExpandedCandidate(isExpanded ? null : candidate.id)}
-                  >
-                    <View style={styles.candidateInfo}>
-                      <View style={styles.candidateType}>
+        {section === 'backtesting' ? (
+          <BacktestingPanel />
+        ) : section === 'shadow' ? (
+          <ShadowPanel />
+        ) : section === 'versions' ? (
+          <VersionsPanel />
+        ) : section === 'feedback' ? (
+          <FeedbackPanel />
+        ) : section === 'traces' ? (
+          <TracesPanel />
+        ) : (
+          <>
+            {/* Stats Overview */}
+            <View style={styles.statsContainer}>
+              <View style={[styles.statCard, { backgroundColor: '#f3e8ff' }]}>
 <<<<<<< HEAD
-                        <Brain size={16} color="#10B981" />
+                <Brain size={24} color="#10B981" />
+                <Text style={[styles.statNumber, { color: '#10B981' }]}>{stats.modelAccuracy}%</Text>
 =======
-                        <Brain size={16} color="#7c3aed" />
+                <Brain size={24} color="#7c3aed" />
+                <Text style={[styles.statNumber, { color: '#7c3aed' }]}>{stats.modelAccuracy}%</Text>
 >>>>>>> 84817c9d126aa0ee4fcfd2aea41ef4b7f9235469
-                        <Text style={styles.typeText}>{candidate.type}</Text>
-                      </View>
-                      <View
-                        style={[
-                          styles.confidenceBadge,
-                          { backgroundColor: `${getPriorityColor(candidate.priority)}20` },
-                        ]}
-                      >
-                        <TrendingUp size={12} color={getPriorityColor(candidate.priority)} />
-                        <Text
-                          style={[
-                            styles.confidenceText,
-                            { color: getPriorityColor(candidate.priority) },
-                          ]}
-                        >
-                          {candidate.priority} priority
-                        </Text>
-                      </View>
-                    </View>
-                    {isExpanded ? (
-                      <ChevronUp size={20} color="#9ca3af" />
-                    ) : (
-                      <ChevronDown size={20} color="#9ca3af" />
-                    )}
-                  </TouchableOpacity>
-
-                  <Text style={styles.candidateReason} numberOfLines={isExpanded ? undefined : 2}>
-                    {candidate.description}
+                <Text style={styles.statLabel}>Model Accuracy</Text>
+              </View>
+              <View style={[styles.statCard, { backgroundColor: '#fef3c7' }]}>
+                <Clock size={24} color="#f59e0b" />
+                <Text style={[styles.statNumber, { color: '#f59e0b' }]}>{stats.pendingCandidates}</Text>
+                <Text style={styles.statLabel}>Pending</Text>
+              </View>
+              <View style={[styles.statCard, { backgroundColor: '#dcfce7' }]}>
+                <CheckCircle size={24} color="#22c55e" />
+                <Text style={[styles.statNumber, { color: '#22c55e' }]}>{stats.approvedCandidates}</Text>
+                <Text style={styles.statLabel}>Approved</Text>
+              </View>
+              <View style={[styles.statCard, { backgroundColor: '#fee2e2' }]}>
+                <XCircle size={24} color="#dc2626" />
+                <Text style={[styles.statNumber, { color: '#dc2626' }]}>{stats.rejectedCandidates}</Text>
+                <Text style={styles.statLabel}>Rejected</Text>
+              </View>
+            </View>
+
+            <View style={styles.candidatesList}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.evaluateButton, { marginBottom: 12 }]}
+                onPress={handleMerge}
+                disabled={merging}
+              >
+                <GitMerge size={18} color="#3b82f6" />
+                <Text style={styles.evaluateButtonText}>
+                  {merging ? 'Merging...' : 'Merge Similar Candidates'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.evaluateButton, { marginBottom: 16 }]}
+                onPress={handleCompile}
+                disabled={compiling || !user}
+              >
+                <Package size={18} color="#3b82f6" />
+                <Text style={styles.evaluateButtonText}>
+                  {compiling ? 'Compiling...' : 'Compile Approved Candidates'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Tabs */}
+            <View style={styles.tabContainer}>
+              {(['pending', 'approved', 'rejected'] as const).map((tab) => (
+                <TouchableOpacity
+                  key={tab}
+                  style={[styles.tab, selectedTab === tab && styles.tabActive]}
+                  onPress={() => setSelectedTab(tab)}
+                >
+                  <Text style={[styles.tabText, selectedTab === tab && styles.tabTextActive]}>
+                    {tab.charAt(0).toUpperCase() + tab.slice(1)}
                   </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
 
-                  {isExpanded && (
-                    <View style={styles.expandedContent}>
-                      {/* Suggested Addition */}
-                      {candidate.suggestedAddition && (
-                        <View style={styles.dataSection}>
-                          <Text style={styles.dataSectionTitle}>Suggested Addition</Text>
-                          <View style={styles.dataPreview}>
-                            <View style={styles.dataItem}>
-                              <Text style={styles.dataLabel}>Category:</Text>
-                              <Text style={styles.dataValue}>
-                                {candidate.suggestedAddition.category}
+            {/* Candidates List */}
+            <View style={styles.candidatesList}>
+              {candidates.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Brain size={48} color="#d1d5db" />
+                  <Text style={styles.emptyText}>No {selectedTab} candidates</Text>
+                </View>
+              ) : (
+                candidates.map((candidate) => {
+                  const isExpanded = expandedCandidate === candidate.id;
+                  return (
+                    <View key={candidate.id} style={styles.candidateCard}>
+                      <TouchableOpacity
+                        style={styles.candidateHeader}
+                        onPress={() => setExpandedCandidate(isExpanded ? null : candidate.id)}
+                      >
+                        <View style={styles.candidateInfo}>
+                          <View style={styles.candidateType}>
+<<<<<<< HEAD
+                            <Brain size={16} color="#10B981" />
+=======
+                            <Brain size={16} color="#7c3aed" />
+>>>>>>> 84817c9d126aa0ee4fcfd2aea41ef4b7f9235469
+                            <Text style={styles.typeText}>{candidate.type}</Text>
+                          </View>
+                          <View
+                            style={[
+                              styles.confidenceBadge,
+                              { backgroundColor: `${getPriorityColor(candidate.priority)}20` },
+                            ]}
+                          >
+                            <TrendingUp size={12} color={getPriorityColor(candidate.priority)} />
+                            <Text
+                              style={[
+                                styles.confidenceText,
+                                { color: getPriorityColor(candidate.priority) },
+                              ]}
+                            >
+                              {candidate.priority} priority
+                            </Text>
+                          </View>
+                          {candidate.cluster && candidate.cluster.frequency > 1 && (
+                            <View style={[styles.confidenceBadge, { backgroundColor: '#e0e7ff' }]}>
+                              <Text style={[styles.confidenceText, { color: '#4338ca' }]}>
+                                ×{candidate.cluster.frequency} conversations
                               </Text>
                             </View>
-                            <View style={styles.dataItem}>
-                              <Text style={styles.dataLabel}>Impact:</Text>
-                              <Text style={styles.dataValue}>
-                                {candidate.estimatedImpact}
-                              </Text>
+                          )}
+                        </View>
+                        {isExpanded ? (
+                          <ChevronUp size={20} color="#9ca3af" />
+                        ) : (
+                          <ChevronDown size={20} color="#9ca3af" />
+                        )}
+                      </TouchableOpacity>
+
+                      <Text style={styles.candidateReason} numberOfLines={isExpanded ? undefined : 2}>
+                        {candidate.description}
+                      </Text>
+
+                      {isExpanded && (
+                        <View style={styles.expandedContent}>
+                          {/* Suggested Addition */}
+                          {candidate.suggestedAddition && (
+                            <View style={styles.dataSection}>
+                              <Text style={styles.dataSectionTitle}>Suggested Addition</Text>
+                              <View style={styles.dataPreview}>
+                                <View style={styles.dataItem}>
+                                  <Text style={styles.dataLabel}>Category:</Text>
+                                  <Text style={styles.dataValue}>
+                                    {candidate.suggestedAddition.category}
+                                  </Text>
+                                </View>
+                                <View style={styles.dataItem}>
+                                  <Text style={styles.dataLabel}>Impact:</Text>
+                                  <Text style={styles.dataValue}>
+                                    {candidate.estimatedImpact}
+                                  </Text>
+                                </View>
+                              </View>
                             </View>
+                          )}
+
+                          {/* Cluster */}
+                          {candidate.cluster && (
+                            <View style={styles.dataSection}>
+                              <Text style={styles.dataSectionTitle}>Cluster</Text>
+                              <View style={styles.dataPreview}>
+                                <View style={styles.dataItem}>
+                                  <Text style={styles.dataLabel}>Seen:</Text>
+                                  <Text style={styles.dataValue}>
+                                    {candidate.cluster.frequency} conversation(s), last{' '}
+                                    {candidate.cluster.lastSeenAt.toLocaleDateString()}
+                                  </Text>
+                                </View>
+                                <View style={styles.dataItem}>
+                                  <Text style={styles.dataLabel}>Symptoms:</Text>
+                                  <Text style={styles.dataValue}>
+                                    {candidate.cluster.symptoms.join(', ') || 'None'}
+                                  </Text>
+                                </View>
+                                <View style={styles.dataItem}>
+                                  <Text style={styles.dataLabel}>Context:</Text>
+                                  <Text style={styles.dataValue}>
+                                    {candidate.cluster.intent}, trimester {candidate.cluster.trimester ?? 'unknown'},{' '}
+                                    {candidate.cluster.riskLevel}
+                                  </Text>
+                                </View>
+                                {candidate.cluster.sampleConversations.map((sample) => (
+                                  <Text key={sample.conversationId} style={styles.sampleExcerpt} numberOfLines={3}>
+                                    {sample.excerpt ? `“${sample.excerpt}”` : `Conversation ${sample.conversationId} (text withheld)`}
+                                  </Text>
+                                ))}
+                              </View>
+                            </View>
+                          )}
+
+                          {/* Safety Notice */}
+                          <View style={styles.safetyNotice}>
+                            <AlertTriangle size={16} color="#f59e0b" />
+                            <Text style={styles.safetyText}>
+                              All personally identifiable information has been anonymized
+                            </Text>
                           </View>
+
+                          {/* Engine Change */}
+                          {selectedTab === 'pending' && (
+                            <ChangeEditor
+                              candidate={candidate}
+                              onChange={(change) => setChanges((current) => ({ ...current, [candidate.id]: change }))}
+                            />
+                          )}
+
+                          {/* Action Buttons */}
+                          {selectedTab === 'pending' && (
+                            <View style={styles.actionButtons}>
+                              <TouchableOpacity
+                                style={[styles.actionButton, styles.rejectButton]}
+                                onPress={() => handleReject(candidate)}
+                              >
+                                <XCircle size={18} color="#dc2626" />
+                                <Text style={styles.rejectButtonText}>Reject</Text>
+                              </TouchableOpacity>
+                              <TouchableOpacity
+                                style={[styles.actionButton, styles.approveButton]}
+                                onPress={() => handleApprove(candidate)}
+                              >
+                                <CheckCircle size={18} color="#ffffff" />
+                                <Text style={styles.approveButtonText}>Approve</Text>
+                              </TouchableOpacity>
+                            </View>
+                          )}
                         </View>
                       )}
+                    </View>
+                  );
+                })
+              )}
+            </View>
+          </>
+        )}
+
+        <View style={{ height: 100 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function BacktestingPanel() {
+  const [versions, setVersions] = useState<KnowledgeBaseVersionSummary[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    loadVersions();
+  }, []);
+
+  const loadVersions = async () => {
+    const stored = await knowledgeBase.listVersions();
+    const candidates = stored.filter((v) => v.status !== 'active');
+    setVersions(candidates);
+    if (candidates.length > 0) {
+      setSelectedVersion(candidates[0].version);
+    }
+  };
+
+  const runBacktest = async () => {
+    if (!selectedVersion) return;
+
+    setRunning(true);
+    try {
+      const result = await ruleBacktester.backtestVersion(selectedVersion, { limit: 200 });
+      setReport(result);
+    } catch (error) {
+      console.error('Error running backtest:', error);
+      Alert.alert('Backtest Failed', 'Unable to replay stored cases with this configuration.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const renderCaseDiff = (diff: BacktestCaseDiff) => {
+    const escalated = diff.direction === 'escalated';
+    return (
+      <View key={diff.assessmentId} style={styles.diffRow}>
+        <View style={styles.diffHeader}>
+          {escalated ? (
+            <TrendingUp size={16} color="#dc2626" />
+          ) : (
+            <TrendingDown size={16} color="#22c55e" />
+          )}
+          <Text style={styles.diffLevels}>
+            {formatLevel(diff.baselineRiskLevel)} → {formatLevel(diff.candidateRiskLevel)}
+          </Text>
+          <Text style={styles.diffDate}>{new Date(diff.assessedAt).toLocaleDateString()}</Text>
+        </View>
+        <Text style={styles.diffSummary} numberOfLines={3}>
+          {diff.inputSummary}
+        </Text>
+        {diff.rulesAdded.length > 0 && (
+          <Text style={styles.diffRules}>Now fires: {diff.rulesAdded.join(', ')}</Text>
+        )}
+        {diff.rulesRemoved.length > 0 && (
+          <Text style={styles.diffRules}>No longer fires: {diff.rulesRemoved.join(', ')}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.candidatesList}>
+      <View style={styles.candidateCard}>
+        <Text style={styles.dataSectionTitle}>Candidate Configuration</Text>
+        {versions.length === 0 ? (
+          <Text style={styles.candidateReason}>
+            No draft knowledge base versions. Save a draft pack to backtest it against the active rules.
+          </Text>
+        ) : (
+          <View style={styles.versionChips}>
+            {versions.map((v) => (
+              <TouchableOpacity
+                key={v.version}
+                style={[styles.versionChip, selectedVersion === v.version && styles.versionChipActive]}
+                onPress={() => setSelectedVersion(v.version)}
+              >
+                <Text
+                  style={[
+                    styles.versionChipText,
+                    selectedVersion === v.version && styles.versionChipTextActive,
+                  ]}
+                >
+                  {v.version} ({v.status})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TouchableOpacity
+          style={[styles.actionButton, styles.approveButton, { marginTop: 12 }]}
+          onPress={runBacktest}
+          disabled={!selectedVersion || running}
+        >
+          <Play size={18} color="#ffffff" />
+          <Text style={styles.approveButtonText}>
+            {running ? 'Replaying cases...' : 'Run Backtest'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {report && (
+        <>
+          <View style={styles.candidateCard}>
+            <Text style={styles.dataSectionTitle}>
+              {report.baselineVersion} → {report.candidateVersion}
+            </Text>
+            <Text style={styles.candidateReason}>
+              {report.changedCases} of {report.totalCases} cases would change risk level
+              ({report.escalated.length} escalated, {report.deescalated.length} de-escalated).
+              Baseline reproduced {report.baselineMatchesStored} stored assessments.
+            </Text>
+
+            <View style={styles.breakdownTable}>
+              <View style={styles.breakdownRow}>
+                <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Level</Text>
+                <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Now</Text>
+                <Text style={[styles.breakdownCell, styles.breakdownHeader]}>After</Text>
+                <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Up</Text>
+                <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Down</Text>
+              </View>
+              {report.byLevel.map((row) => (
+                <View key={row.level} style={styles.breakdownRow}>
+                  <Text style={styles.breakdownCell}>{formatLevel(row.level)}</Text>
+                  <Text style={styles.breakdownCell}>{row.baselineCount}</Text>
+                  <Text style={styles.breakdownCell}>{row.candidateCount}</Text>
+                  <Text style={[styles.breakdownCell, { color: '#dc2626' }]}>{row.escalatedFrom}</Text>
+                  <Text style={[styles.breakdownCell, { color: '#22c55e' }]}>{row.deescalatedFrom}</Text>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.candidateCard}>
+            <Text style={styles.dataSectionTitle}>Escalated Cases ({report.escalated.length})</Text>
+            {report.escalated.length === 0 ? (
+              <Text style={styles.candidateReason}>No cases escalated</Text>
+            ) : (
+              report.escalated.map(renderCaseDiff)
+            )}
+          </View>
+
+          <View style={styles.candidateCard}>
+            <Text style={styles.dataSectionTitle}>De-escalated Cases ({report.deescalated.length})</Text>
+            {report.deescalated.length > 0 && (
+              <View style={styles.safetyNotice}>
+                <AlertTriangle size={16} color="#f59e0b" />
+                <Text style={styles.safetyText}>
+                  Review de-escalated cases carefully before activating this configuration
+                </Text>
+              </View>
+            )}
+            {report.deescalated.length === 0 ? (
+              <Text style={styles.candidateReason}>No cases de-escalated</Text>
+            ) : (
+              report.deescalated.map(renderCaseDiff)
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+function ShadowPanel() {
+  const [versions, setVersions] = useState<ModelVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
+  const [dashboard, setDashboard] = useState<ShadowDashboard | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const shadowVersion = versions.find((v) => v.shadow)?.version;
+
+  useEffect(() => {
+    loadVersions();
+  }, []);
 
-                      {/* Safety Notice */}
-                      <View style={styles.safetyNotice}>
-                        <AlertTriangle size={16} color="#f59e0b" />
-                        <Text style={styles.safetyText}>
-                          All personally identifiable information has been anonymized
+  useEffect(() => {
+    if (selectedVersion) loadDashboard(selectedVersion);
+  }, [selectedVersion]);
+
+  const loadVersions = async () => {
+    const history = await learningSystem.getModelVersionHistory();
+    const candidates = history.filter((v) => v.status !== 'deployed');
+    setVersions(candidates);
+    const current = candidates.find((v) => v.shadow) || candidates[0];
+    if (current) {
+      setSelectedVersion(current.version);
+    }
+  };
+
+  const loadDashboard = async (version: string) => {
+    setLoading(true);
+    try {
+      setDashboard(await shadowModeEvaluator.getDashboard(version));
+    } catch (error) {
+      console.error('Error loading shadow comparisons:', error);
+      setDashboard(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleShadow = () => {
+    if (!selectedVersion) return;
+    const stopping = shadowVersion === selectedVersion;
+
+    Alert.alert(
+      stopping ? 'Stop Shadow Mode' : 'Start Shadow Mode',
+      stopping
+        ? `${selectedVersion} will stop running alongside production.`
+        : `${selectedVersion} will run alongside production on live conversations. Users only see production replies.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: stopping ? 'Stop' : 'Start',
+          onPress: async () => {
+            try {
+              await modelVersionRegistry.setShadowVersion(stopping ? null : selectedVersion);
+              await loadVersions();
+            } catch (error) {
+              console.error('Error updating shadow version:', error);
+              Alert.alert('Shadow Mode Failed', 'Unable to update the shadow version.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDisagreement = (comparison: ShadowComparison, index: number) => {
+    const lower = comparison.riskDelta < 0 || (comparison.productionEscalation && !comparison.candidateEscalation);
+    return (
+      <View key={`${comparison.sessionId}-${index}`} style={styles.diffRow}>
+        <View style={styles.diffHeader}>
+          {lower ? (
+            <TrendingDown size={16} color="#dc2626" />
+          ) : (
+            <TrendingUp size={16} color="#f59e0b" />
+          )}
+          <Text style={styles.diffLevels}>
+            {formatLevel(comparison.productionRiskLevel)} → {formatLevel(comparison.candidateRiskLevel || '')}
+          </Text>
+          <Text style={styles.diffDate}>{new Date(comparison.createdAt).toLocaleDateString()}</Text>
+        </View>
+        {comparison.escalationDisagreement && (
+          <Text style={styles.diffRules}>
+            Escalation: production {comparison.productionEscalation ? 'yes' : 'no'}, candidate{' '}
+            {comparison.candidateEscalation ? 'yes' : 'no'}
+          </Text>
+        )}
+        <Text style={styles.diffSummary} numberOfLines={2}>
+          {comparison.productionIntent}
+          {comparison.candidateIntent && comparison.candidateIntent !== comparison.productionIntent
+            ? ` / ${comparison.candidateIntent}`
+            : ''}
+          {comparison.symptoms.length > 0 ? ` · ${comparison.symptoms.join(', ')}` : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.candidatesList}>
+      <View style={styles.candidateCard}>
+        <Text style={styles.dataSectionTitle}>Candidate Version</Text>
+        {versions.length === 0 ? (
+          <Text style={styles.candidateReason}>
+            No candidate model versions. Record a model version to run it in shadow against production.
+          </Text>
+        ) : (
+          <View style={styles.versionChips}>
+            {versions.map((v) => (
+              <TouchableOpacity
+                key={v.version}
+                style={[styles.versionChip, selectedVersion === v.version && styles.versionChipActive]}
+                onPress={() => setSelectedVersion(v.version)}
+              >
+                <Text
+                  style={[
+                    styles.versionChipText,
+                    selectedVersion === v.version && styles.versionChipTextActive,
+                  ]}
+                >
+                  {v.version} ({v.shadow ? 'shadow' : v.status})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TouchableOpacity
+          style={[
+            styles.actionButton,
+            shadowVersion === selectedVersion ? styles.rejectButton : styles.approveButton,
+            { marginTop: 12 },
+          ]}
+          onPress={toggleShadow}
+          disabled={!selectedVersion}
+        >
+          {shadowVersion === selectedVersion ? (
+            <>
+              <Square size={18} color="#dc2626" />
+              <Text style={styles.rejectButtonText}>Stop Shadow Mode</Text>
+            </>
+          ) : (
+            <>
+              <Play size={18} color="#ffffff" />
+              <Text style={styles.approveButtonText}>Run in Shadow</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {loading && (
+        <View style={styles.candidateCard}>
+          <Text style={styles.candidateReason}>Loading comparisons...</Text>
+        </View>
+      )}
+
+      {!loading && dashboard && (
+        <>
+          <View style={styles.candidateCard}>
+            <Text style={styles.dataSectionTitle}>
+              {dashboard.productionVersions.join(', ') || 'Production'} vs {dashboard.candidateVersion}
+            </Text>
+            {dashboard.totalComparisons === 0 ? (
+              <Text style={styles.candidateReason}>No shadowed conversations yet.</Text>
+            ) : (
+              <>
+                <Text style={styles.candidateReason}>
+                  {Math.round(dashboard.agreementRate * 100)}% agreement over {dashboard.totalComparisons} turns.
+                  {' '}{dashboard.riskDisagreements} risk level and {dashboard.escalationDisagreements} escalation
+                  disagreements; candidate failed {dashboard.candidateErrors} times
+                  (average {dashboard.averageCandidateLatencyMs}ms).
+                </Text>
+                <View style={styles.dataPreview}>
+                  <View style={styles.dataItem}>
+                    <Text style={styles.dataLabel}>Candidate triaged lower:</Text>
+                    <Text style={styles.dataValue}>{dashboard.candidateLowerRisk}</Text>
+                  </View>
+                  <View style={styles.dataItem}>
+                    <Text style={styles.dataLabel}>Candidate triaged higher:</Text>
+                    <Text style={styles.dataValue}>{dashboard.candidateHigherRisk}</Text>
+                  </View>
+                  <View style={styles.dataItem}>
+                    <Text style={styles.dataLabel}>Missed escalations:</Text>
+                    <Text style={styles.dataValue}>{dashboard.missedEscalations}</Text>
+                  </View>
+                  <View style={styles.dataItem}>
+                    <Text style={styles.dataLabel}>Added escalations:</Text>
+                    <Text style={styles.dataValue}>{dashboard.addedEscalations}</Text>
+                  </View>
+                </View>
+
+                <View style={styles.breakdownTable}>
+                  <View style={styles.breakdownRow}>
+                    <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Prod ↓ / Cand →</Text>
+                    {RISK_LEVEL_KEYS.map((level) => (
+                      <Text key={level} style={[styles.breakdownCell, styles.breakdownHeader]}>
+                        {formatLevel(level)}
+                      </Text>
+                    ))}
+                  </View>
+                  {RISK_LEVEL_KEYS.map((from) => (
+                    <View key={from} style={styles.breakdownRow}>
+                      <Text style={styles.breakdownCell}>{formatLevel(from)}</Text>
+                      {RISK_LEVEL_KEYS.map((to) => (
+                        <Text
+                          key={to}
+                          style={[
+                            styles.breakdownCell,
+                            to < from && { color: '#dc2626' },
+                            to > from && { color: '#f59e0b' },
+                          ]}
+                        >
+                          {dashboard.transitions[from][to]}
                         </Text>
-                      </View>
-
-                      {/* Action Buttons */}
-                      {selectedTab === 'pending' && (
-                        <View style={styles.actionButtons}>
-                          <TouchableOpacity
-                            style={[styles.actionButton, styles.rejectButton]}
-                            onPress={() => handleReject(candidate)}
-                          >
-                            <XCircle size={18} color="#dc2626" />
-                            <Text style={styles.rejectButtonText}>Reject</Text>
-                          </TouchableOpacity>
-                          <TouchableOpacity
-                            style={[styles.actionButton, styles.approveButton]}
-                            onPress={() => handleApprove(candidate)}
-                          >
-                            <CheckCircle size={18} color="#ffffff" />
-                            <Text style={styles.approveButtonText}>Approve</Text>
-                          </TouchableOpacity>
-                        </View>
-                      )}
+                      ))}
                     </View>
-                  )}
+                  ))}
                 </View>
-              );
-            })
+              </>
+            )}
+          </View>
+
+          <View style={styles.candidateCard}>
+            <Text style={styles.dataSectionTitle}>
+              Recent Disagreements ({dashboard.recentDisagreements.length})
+            </Text>
+            {(dashboard.candidateLowerRisk > 0 || dashboard.missedEscalations > 0) && (
+              <View style={styles.safetyNotice}>
+                <AlertTriangle size={16} color="#f59e0b" />
+                <Text style={styles.safetyText}>
+                  The candidate triaged some turns lower than production. Review them before promoting it.
+                </Text>
+              </View>
+            )}
+            {dashboard.recentDisagreements.length === 0 ? (
+              <Text style={styles.candidateReason}>No disagreements</Text>
+            ) : (
+              dashboard.recentDisagreements.map(renderDisagreement)
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+function ChangeEditor({
+  candidate,
+  onChange,
+}: {
+  candidate: LearningCandidate;
+  onChange: (change: KnowledgeChange | undefined) => void;
+}) {
+  const initial = candidate.suggestedAddition?.change;
+  const [kind, setKind] = useState<KnowledgeChange['kind']>(
+    initial?.kind || (candidate.type === 'knowledge_gap' ? 'education_answer' : 'symptom_pattern')
+  );
+  const [terms, setTerms] = useState(initial && 'terms' in initial ? initial.terms.join(', ') : '');
+  const [target, setTarget] = useState('');
+  const [choice, setChoice] = useState<string>(CHANGE_CHOICES[kind][0] || '');
+
+  useEffect(() => {
+    onChange(buildChange());
+  }, [kind, terms, target, choice]);
+
+  const selectKind = (next: KnowledgeChange['kind']) => {
+    setKind(next);
+    setChoice(CHANGE_CHOICES[next][0] || '');
+  };
+
+  const buildChange = (): KnowledgeChange | undefined => {
+    const phrases = terms.split(',').map((t) => t.trim()).filter(Boolean);
+    const value = target.trim();
+
+    switch (kind) {
+      case 'symptom_pattern':
+        return phrases.length > 0 && value
+          ? { kind, terms: phrases, symptom: value, severity: choice as ExtractedSymptom['severity'] }
+          : undefined;
+      case 'intent_pattern':
+        return phrases.length > 0 ? { kind, terms: phrases, intent: choice as Intent } : undefined;
+      case 'education_answer':
+        return phrases.length > 0 && value ? { kind, terms: phrases, answer: value } : undefined;
+      case 'rule_adjustment':
+        return value ? { kind, ruleId: value, addRisk: choice as RiskLevel } : undefined;
+    }
+  };
+
+  return (
+    <View style={styles.dataSection}>
+      <Text style={styles.dataSectionTitle}>Engine Change</Text>
+      <View style={styles.versionChips}>
+        {(Object.keys(CHANGE_LABELS) as KnowledgeChange['kind'][]).map((item) => (
+          <TouchableOpacity
+            key={item}
+            style={[styles.versionChip, kind === item && styles.versionChipActive]}
+            onPress={() => selectKind(item)}
+          >
+            <Text style={[styles.versionChipText, kind === item && styles.versionChipTextActive]}>
+              {CHANGE_LABELS[item]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {kind !== 'rule_adjustment' && (
+        <TextInput
+          style={styles.changeInput}
+          placeholder="Phrases to match, comma separated"
+          placeholderTextColor="#9ca3af"
+          value={terms}
+          onChangeText={setTerms}
+        />
+      )}
+      {kind !== 'intent_pattern' && (
+        <TextInput
+          style={[styles.changeInput, kind === 'education_answer' && { minHeight: 80 }]}
+          placeholder={CHANGE_TARGET_PLACEHOLDERS[kind]}
+          placeholderTextColor="#9ca3af"
+          value={target}
+          onChangeText={setTarget}
+          multiline={kind === 'education_answer'}
+        />
+      )}
+      {CHANGE_CHOICES[kind].length > 0 && (
+        <View style={[styles.versionChips, { marginTop: 8 }]}>
+          {CHANGE_CHOICES[kind].map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.versionChip, choice === item && styles.versionChipActive]}
+              onPress={() => setChoice(item)}
+            >
+              <Text style={[styles.versionChipText, choice === item && styles.versionChipTextActive]}>
+                {item.replace('_', ' ')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function VersionsPanel() {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<ModelVersion[]>([]);
+  const [busyVersion, setBusyVersion] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadVersions();
+  }, []);
+
+  const loadVersions = async () => {
+    setVersions(await learningSystem.getModelVersionHistory());
+  };
+
+  const runAction = async (version: string, action: (adminId: string) => Promise<LifecycleResult>) => {
+    if (!user) return;
+    setBusyVersion(version);
+    try {
+      const result = await action(user.id);
+      if (!result.success) {
+        Alert.alert('Not Allowed', result.reasons.join('\n'));
+      }
+      await loadVersions();
+    } catch (error) {
+      console.error('Error updating model version:', error);
+      Alert.alert('Update Failed', 'Unable to update the model version.');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const confirm = (title: string, message: string, label: string, onConfirm: () => void, destructive = false) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: label, style: destructive ? 'destructive' : 'default', onPress: onConfirm },
+    ]);
+  };
+
+  const handleEvaluate = async (version: string) => {
+    setBusyVersion(version);
+    try {
+      const report = await safetyEvaluationHarness.evaluateAndRecord(version);
+      Alert.alert(
+        report.releaseBlocked ? 'Safety Evaluation Failed' : 'Safety Evaluation Passed',
+        report.releaseBlocked
+          ? report.blockingReasons.join('\n')
+          : `All ${report.vignetteCount} vignettes within the release thresholds.`
+      );
+      await loadVersions();
+    } catch (error) {
+      console.error('Error running safety evaluation:', error);
+      Alert.alert('Evaluation Failed', 'Unable to run the safety evaluation.');
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleApprove = (version: string) =>
+    confirm(
+      'Sign Off Model Version',
+      `You are approving ${version} for deployment. Your sign-off will be recorded in the audit log.`,
+      'Approve',
+      () => runAction(version, (adminId) => modelVersionRegistry.approve(version, adminId))
+    );
+
+  const handleDeploy = (version: string) =>
+    confirm(
+      'Deploy Model Version',
+      `${version} will serve all AI conversations. The current version will be retired and kept for rollback.`,
+      'Deploy',
+      () => runAction(version, (adminId) => modelVersionRegistry.deploy(version, adminId))
+    );
+
+  const handleRollback = (version: ModelVersion) =>
+    confirm(
+      'Roll Back',
+      `All AI engines will switch from ${version.version} back to ${version.previousVersion}.`,
+      'Roll Back',
+      () => runAction(version.version, (adminId) => modelVersionRegistry.rollback(adminId, 'Rolled back by admin')),
+      true
+    );
+
+  const handleRetire = (version: string) =>
+    confirm(
+      'Retire Model Version',
+      `${version} will no longer be considered for deployment.`,
+      'Retire',
+      () => runAction(version, (adminId) => modelVersionRegistry.retire(version, adminId)),
+      true
+    );
+
+  const renderActions = (version: ModelVersion) => {
+    const name = version.version;
+    switch (version.status) {
+      case 'training':
+        return (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.approveButton]}
+            onPress={() => runAction(name, (adminId) => modelVersionRegistry.startValidation(name, adminId))}
+          >
+            <Play size={18} color="#ffffff" />
+            <Text style={styles.approveButtonText}>Start Validation</Text>
+          </TouchableOpacity>
+        );
+      case 'validating':
+        return (
+          <>
+            <View style={styles.actionButtons}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.rejectButton]}
+                onPress={() =>
+                  runAction(name, (adminId) =>
+                    modelVersionRegistry.returnToTraining(name, adminId, 'Returned to training by admin')
+                  )
+                }
+              >
+                <XCircle size={18} color="#dc2626" />
+                <Text style={styles.rejectButtonText}>Back to Training</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.approveButton]}
+                onPress={() => handleApprove(name)}
+              >
+                <CheckCircle size={18} color="#ffffff" />
+                <Text style={styles.approveButtonText}>Approve</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.evaluateButton, { marginTop: 12 }]}
+              onPress={() => handleEvaluate(name)}
+            >
+              <ShieldCheck size={18} color="#3b82f6" />
+              <Text style={styles.evaluateButtonText}>Run Safety Evaluation</Text>
+            </TouchableOpacity>
+          </>
+        );
+      case 'approved':
+        return (
+          <View style={styles.actionButtons}>
+            <TouchableOpacity style={[styles.actionButton, styles.rejectButton]} onPress={() => handleRetire(name)}>
+              <Archive size={18} color="#dc2626" />
+              <Text style={styles.rejectButtonText}>Retire</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.actionButton, styles.approveButton]} onPress={() => handleDeploy(name)}>
+              <Rocket size={18} color="#ffffff" />
+              <Text style={styles.approveButtonText}>Deploy</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      case 'deployed':
+        return version.previousVersion ? (
+          <TouchableOpacity style={[styles.actionButton, styles.rejectButton]} onPress={() => handleRollback(version)}>
+            <RotateCcw size={18} color="#dc2626" />
+            <Text style={styles.rejectButtonText}>Roll Back to {version.previousVersion}</Text>
+          </TouchableOpacity>
+        ) : null;
+      case 'retired':
+        return version.approvedAt ? (
+          <TouchableOpacity style={[styles.actionButton, styles.evaluateButton]} onPress={() => handleDeploy(name)}>
+            <Rocket size={18} color="#3b82f6" />
+            <Text style={styles.evaluateButtonText}>Redeploy</Text>
+          </TouchableOpacity>
+        ) : null;
+    }
+  };
+
+  return (
+    <View style={styles.candidatesList}>
+      {versions.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Brain size={48} color="#d1d5db" />
+          <Text style={styles.emptyText}>No model versions recorded</Text>
+        </View>
+      ) : (
+        versions.map((version) => {
+          const evaluation = version.validationMetrics?.safetyEvaluation;
+          return (
+            <View key={version.version} style={styles.candidateCard}>
+              <View style={styles.candidateHeader}>
+                <Text style={styles.diffLevels}>{version.version}</Text>
+                <View
+                  style={[styles.confidenceBadge, { backgroundColor: `${STATUS_COLORS[version.status]}20` }]}
+                >
+                  <Text style={[styles.confidenceText, { color: STATUS_COLORS[version.status] }]}>
+                    {version.status}
+                    {version.shadow ? ' · shadow' : ''}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={[styles.dataPreview, { marginBottom: 12 }]}>
+                <View style={styles.dataItem}>
+                  <Text style={styles.dataLabel}>Safety:</Text>
+                  <Text style={styles.dataValue}>
+                    {evaluation
+                      ? `${evaluation.releaseBlocked ? 'Blocked' : 'Passed'} (${new Date(evaluation.runAt).toLocaleDateString()})`
+                      : 'Not evaluated'}
+                  </Text>
+                </View>
+                {version.approvedAt && (
+                  <View style={styles.dataItem}>
+                    <Text style={styles.dataLabel}>Approved:</Text>
+                    <Text style={styles.dataValue}>{version.approvedAt.toLocaleDateString()}</Text>
+                  </View>
+                )}
+                {version.deployedAt && (
+                  <View style={styles.dataItem}>
+                    <Text style={styles.dataLabel}>Deployed:</Text>
+                    <Text style={styles.dataValue}>{version.deployedAt.toLocaleDateString()}</Text>
+                  </View>
+                )}
+                {version.previousVersion && (
+                  <View style={styles.dataItem}>
+                    <Text style={styles.dataLabel}>Previous:</Text>
+                    <Text style={styles.dataValue}>{version.previousVersion}</Text>
+                  </View>
+                )}
+              </View>
+
+              {evaluation?.releaseBlocked && version.status === 'validating' && (
+                <View style={styles.safetyNotice}>
+                  <AlertTriangle size={16} color="#f59e0b" />
+                  <Text style={styles.safetyText}>{evaluation.blockingReasons.join('\n')}</Text>
+                </View>
+              )}
+
+              {busyVersion === version.version ? (
+                <Text style={styles.candidateReason}>Updating...</Text>
+              ) : (
+                renderActions(version)
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+function FeedbackPanel() {
+  const [windowDays, setWindowDays] = useState<number | null>(30);
+  const [summary, setSummary] = useState<FeedbackSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadSummary();
+  }, [windowDays]);
+
+  const loadSummary = async () => {
+    setLoading(true);
+    try {
+      const since = windowDays ? new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000) : undefined;
+      setSummary(await learningSystem.getFeedbackSummary(since));
+    } catch (error) {
+      console.error('Error loading feedback:', error);
+      setSummary(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderTable = (title: string, rows: FeedbackAggregate[]) => (
+    <View style={styles.candidateCard}>
+      <Text style={styles.dataSectionTitle}>{title}</Text>
+      <View style={styles.breakdownTable}>
+        <View style={styles.breakdownRow}>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader, styles.feedbackKeyCell]}>
+            {title.replace('By ', '')}
+          </Text>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Count</Text>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Helpful</Text>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Rating</Text>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Wrong</Text>
+        </View>
+        {rows.map((row) => (
+          <View key={row.key} style={styles.breakdownRow}>
+            <Text style={[styles.breakdownCell, styles.feedbackKeyCell]} numberOfLines={1}>
+              {row.key}
+            </Text>
+            <Text style={styles.breakdownCell}>{row.count}</Text>
+            <Text style={[styles.breakdownCell, row.helpfulRate < 0.5 && { color: '#dc2626' }]}>
+              {Math.round(row.helpfulRate * 100)}%
+            </Text>
+            <Text style={styles.breakdownCell}>
+              {row.averageRating !== undefined ? row.averageRating.toFixed(1) : '–'}
+            </Text>
+            <Text style={[styles.breakdownCell, row.inaccurateCount > 0 && { color: '#dc2626' }]}>
+              {row.inaccurateCount}
+            </Text>
+          </View>
+        ))}
+      </View>
+      {rows.some((row) => Object.keys(row.issues).length > 0) && (
+        <View style={styles.dataPreview}>
+          {rows
+            .filter((row) => Object.keys(row.issues).length > 0)
+            .map((row) => (
+              <View key={row.key} style={styles.dataItem}>
+                <Text style={styles.dataLabel} numberOfLines={1}>{row.key}:</Text>
+                <Text style={styles.dataValue}>
+                  {Object.entries(row.issues)
+                    .map(([issue, count]) => `${issue.replace(/_/g, ' ')} (${count})`)
+                    .join(', ')}
+                </Text>
+              </View>
+            ))}
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.candidatesList}>
+      <View style={styles.candidateCard}>
+        <Text style={styles.dataSectionTitle}>Period</Text>
+        <View style={styles.versionChips}>
+          {([7, 30, null] as const).map((days) => (
+            <TouchableOpacity
+              key={days ?? 'all'}
+              style={[styles.versionChip, windowDays === days && styles.versionChipActive]}
+              onPress={() => setWindowDays(days)}
+            >
+              <Text style={[styles.versionChipText, windowDays === days && styles.versionChipTextActive]}>
+                {days ? `Last ${days} days` : 'All time'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {loading ? (
+          <Text style={styles.candidateReason}>Loading feedback...</Text>
+        ) : !summary || summary.total === 0 ? (
+          <Text style={styles.candidateReason}>No feedback in this period.</Text>
+        ) : (
+          <Text style={styles.candidateReason}>{summary.total} ratings of AI messages.</Text>
+        )}
+      </View>
+
+      {!loading && summary && summary.total > 0 && (
+        <>
+          {renderTable('By Intent', summary.byIntent)}
+          {renderTable('By Model Version', summary.byModelVersion)}
+        </>
+      )}
+    </View>
+  );
+}
+
+function TracesPanel() {
+  const [filter, setFilter] = useState<'all' | 'escalated' | 'failures' | 'conflicts'>('all');
+  const [traces, setTraces] = useState<OrchestratorTrace[]>([]);
+  const [conflictSummary, setConflictSummary] = useState<AgentConflictAggregate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedTrace, setSelectedTrace] = useState<OrchestratorTrace | null>(null);
+  const [agents, setAgents] = useState<RegisteredAgent[]>([]);
+  const [candidate, setCandidate] = useState<Record<string, AgentSettings>>({});
+  const [comparison, setComparison] = useState<TraceComparison | null>(null);
+  const [replaying, setReplaying] = useState(false);
+
+  useEffect(() => {
+    loadTraces();
+  }, [filter]);
+
+  useEffect(() => {
+    agentRegistry.getAgents().then(setAgents);
+  }, []);
+
+  const loadTraces = async () => {
+    setLoading(true);
+    try {
+      setTraces(await orchestratorTraceStore.list({
+        escalatedOnly: filter === 'escalated',
+        failuresOnly: filter === 'failures',
+        conflictsOnly: filter === 'conflicts',
+      }));
+      setConflictSummary(filter === 'conflicts' ? await learningSystem.getAgentConflictSummary() : []);
+    } catch (error) {
+      console.error('Error loading orchestrator traces:', error);
+      setTraces([]);
+      setConflictSummary([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openTrace = (trace: OrchestratorTrace) => {
+    setSelectedTrace(selectedTrace?.id === trace.id ? null : trace);
+    setComparison(null);
+  };
+
+  const updateCandidate = (agentId: string, changes: AgentSettings) => {
+    setCandidate((current) => ({ ...current, [agentId]: { ...current[agentId], ...changes } }));
+  };
+
+  const handleReplay = async (withCandidate: boolean) => {
+    if (!selectedTrace) return;
+    setReplaying(true);
+    try {
+      setComparison(await agentOrchestrator.replay(selectedTrace, withCandidate ? candidate : undefined));
+    } catch (error) {
+      console.error('Error replaying trace:', error);
+      Alert.alert('Replay Failed', 'Unable to replay this trace.');
+    } finally {
+      setReplaying(false);
+    }
+  };
+
+  const agentName = (trace: OrchestratorTrace, agentId?: string) =>
+    trace.agents.find((a) => a.agentId === agentId)?.agent || agentId || 'None';
+
+  const formatConfidence = (entry?: AgentTraceEntry) =>
+    entry?.output ? `${Math.round(entry.output.confidence * 100)}%${entry.selected ? ' ✓' : ''}` : entry?.failure ? entry.failure.reason : '–';
+
+  const renderTraceRow = (trace: OrchestratorTrace) => {
+    const failures = trace.agents.filter((a) => a.failure).length;
+    return (
+      <TouchableOpacity key={trace.id} style={styles.diffRow} onPress={() => openTrace(trace)}>
+        <View style={styles.diffHeader}>
+          {trace.requiresEscalation ? (
+            <AlertTriangle size={16} color="#dc2626" />
+          ) : (
+            <CheckCircle size={16} color="#22c55e" />
           )}
+          <Text style={styles.diffLevels}>
+            {agentName(trace, trace.selectedAgentId)} · {PATH_LABELS[trace.path]}
+          </Text>
+          <Text style={styles.diffDate}>{new Date(trace.createdAt).toLocaleString()}</Text>
         </View>
+        <Text style={styles.diffSummary} numberOfLines={selectedTrace?.id === trace.id ? undefined : 2}>
+          {trace.input.message}
+        </Text>
+        <Text style={styles.diffRules}>
+          {trace.agents.length} agents, {trace.durationMs}ms
+          {failures > 0 ? ` · ${failures} failed` : ''}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
 
-        <View style={{ height: 100 }} />
-      </ScrollView>
-    </SafeAreaView>
+  const renderTrace = (trace: OrchestratorTrace) => (
+    <View style={styles.candidateCard}>
+      <Text style={styles.dataSectionTitle}>Trace</Text>
+      <View style={styles.dataPreview}>
+        <View style={styles.dataItem}>
+          <Text style={styles.dataLabel}>User:</Text>
+          <Text style={styles.dataValue}>
+            {trace.input.userRole}
+            {trace.input.context.pregnancyWeek !== undefined ? `, week ${trace.input.context.pregnancyWeek}` : ''}
+            {trace.input.context.riskLevel ? `, ${formatLevel(trace.input.context.riskLevel)}` : ''}
+          </Text>
+        </View>
+        <View style={styles.dataItem}>
+          <Text style={styles.dataLabel}>Routing:</Text>
+          <Text style={styles.dataValue}>{trace.reasoning.routingDecision}</Text>
+        </View>
+        <View style={styles.dataItem}>
+          <Text style={styles.dataLabel}>Safety:</Text>
+          <Text style={styles.dataValue}>{trace.reasoning.safetyFilterResult}</Text>
+        </View>
+        {trace.reasoning.conflictResolution && (
+          <View style={styles.dataItem}>
+            <Text style={styles.dataLabel}>Conflicts:</Text>
+            <Text style={styles.dataValue}>{trace.reasoning.conflictResolution}</Text>
+          </View>
+        )}
+        {trace.reasoning.conflicts?.map((conflict) => (
+          <View key={`${conflict.dimension}-${conflict.lenient.agentId}`} style={styles.dataItem}>
+            <Text style={styles.dataValue}>• {conflict.description}</Text>
+          </View>
+        ))}
+        <View style={styles.dataItem}>
+          <Text style={styles.dataLabel}>Model:</Text>
+          <Text style={styles.dataValue}>{trace.generatedBy?.provider} {trace.generatedBy?.model}</Text>
+        </View>
+      </View>
+
+      <View style={styles.breakdownTable}>
+        <View style={styles.breakdownRow}>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader, styles.feedbackKeyCell]}>Agent</Text>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Conf.</Text>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Score</Text>
+          <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Time</Text>
+        </View>
+        {trace.agents.map((entry) => (
+          <View key={entry.agentId} style={styles.breakdownRow}>
+            <Text style={[styles.breakdownCell, styles.feedbackKeyCell]} numberOfLines={1}>
+              {entry.agent}
+            </Text>
+            <Text style={[styles.breakdownCell, entry.failure && { color: '#dc2626' }]}>{formatConfidence(entry)}</Text>
+            <Text style={styles.breakdownCell}>{entry.score !== undefined ? entry.score.toFixed(2) : '–'}</Text>
+            <Text style={styles.breakdownCell}>{entry.durationMs}ms</Text>
+          </View>
+        ))}
+      </View>
+      {trace.agents
+        .filter((entry) => entry.failure)
+        .map((entry) => (
+          <Text key={entry.agentId} style={styles.diffRules}>
+            {entry.agent}: {entry.failure!.detail}
+            {entry.failure!.fallbackUsed ? ' (fallback used)' : ''}
+          </Text>
+        ))}
+
+      <Text style={[styles.dataSectionTitle, { marginTop: 12 }]}>Reply</Text>
+      <Text style={styles.candidateReason}>{trace.finalResponse}</Text>
+    </View>
+  );
+
+  const renderConfiguration = () => (
+    <View style={styles.candidateCard}>
+      <Text style={styles.dataSectionTitle}>Candidate Configuration</Text>
+      <Text style={styles.candidateReason}>
+        Changes apply to replays only. Required agents always run.
+      </Text>
+      {agents.map(({ agent, enabled, weight }) => {
+        const settings = candidate[agent.id] || {};
+        const candidateEnabled = agent.required || (settings.enabled ?? enabled);
+        return (
+          <View key={agent.id} style={styles.agentSettingRow}>
+            <Text style={styles.agentSettingName} numberOfLines={1}>{agent.name}</Text>
+            <TouchableOpacity
+              style={[styles.versionChip, candidateEnabled && styles.versionChipActive]}
+              onPress={() => updateCandidate(agent.id, { enabled: !candidateEnabled })}
+              disabled={agent.required}
+            >
+              <Text style={[styles.versionChipText, candidateEnabled && styles.versionChipTextActive]}>
+                {agent.required ? 'Required' : candidateEnabled ? 'On' : 'Off'}
+              </Text>
+            </TouchableOpacity>
+            <TextInput
+              style={styles.weightInput}
+              defaultValue={String(settings.weight ?? weight)}
+              keyboardType="decimal-pad"
+              onChangeText={(text) => {
+                const value = parseFloat(text);
+                updateCandidate(agent.id, { weight: isNaN(value) ? undefined : value });
+              }}
+            />
+          </View>
+        );
+      })}
+      <View style={[styles.actionButtons, { marginTop: 12 }]}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.evaluateButton]}
+          onPress={() => handleReplay(false)}
+          disabled={replaying}
+        >
+          <RotateCcw size={18} color="#3b82f6" />
+          <Text style={styles.evaluateButtonText}>Current</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.approveButton]}
+          onPress={() => handleReplay(true)}
+          disabled={replaying}
+        >
+          <Play size={18} color="#ffffff" />
+          <Text style={styles.approveButtonText}>{replaying ? 'Replaying...' : 'Candidate'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderComparison = (result: TraceComparison) => {
+    const { original, replay } = result;
+    const rows: { label: string; original: string; replay: string; changed: boolean }[] = [
+      { label: 'Path', original: PATH_LABELS[original.path], replay: PATH_LABELS[replay.path], changed: result.pathChanged },
+      {
+        label: 'Reply from',
+        original: agentName(original, original.selectedAgentId),
+        replay: agentName(replay, replay.selectedAgentId),
+        changed: result.selectedAgentChanged,
+      },
+      {
+        label: 'Urgency',
+        original: original.triageUrgency || '–',
+        replay: replay.triageUrgency || '–',
+        changed: result.urgencyChanged,
+      },
+      {
+        label: 'Escalation',
+        original: original.requiresEscalation ? 'Yes' : 'No',
+        replay: replay.requiresEscalation ? 'Yes' : 'No',
+        changed: result.escalationChanged,
+      },
+      {
+        label: 'Conflicts',
+        original: String(original.reasoning.conflicts?.length || 0),
+        replay: String(replay.reasoning.conflicts?.length || 0),
+        changed: (original.reasoning.conflicts?.length || 0) !== (replay.reasoning.conflicts?.length || 0),
+      },
+      { label: 'Time', original: `${original.durationMs}ms`, replay: `${replay.durationMs}ms`, changed: false },
+    ];
+
+    return (
+      <View style={styles.candidateCard}>
+        <Text style={styles.dataSectionTitle}>Original vs Replay</Text>
+        {original.requiresEscalation && !replay.requiresEscalation && (
+          <View style={styles.safetyNotice}>
+            <AlertTriangle size={16} color="#f59e0b" />
+            <Text style={styles.safetyText}>
+              The replay did not escalate a message the original run escalated.
+            </Text>
+          </View>
+        )}
+        {result.configurationChanges.length > 0 && (
+          <View style={styles.dataPreview}>
+            {result.configurationChanges.map((change) => (
+              <View key={`${change.agentId}-${change.field}`} style={styles.dataItem}>
+                <Text style={styles.dataValue}>
+                  {change.agent} {CONFIGURATION_FIELD_LABELS[change.field]}: {String(change.original)} → {String(change.replay)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.breakdownTable}>
+          <View style={styles.breakdownRow}>
+            <Text style={[styles.breakdownCell, styles.breakdownHeader, styles.feedbackKeyCell]} />
+            <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Original</Text>
+            <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Replay</Text>
+          </View>
+          {rows.map((row) => (
+            <View key={row.label} style={styles.breakdownRow}>
+              <Text style={[styles.breakdownCell, styles.feedbackKeyCell]}>{row.label}</Text>
+              <Text style={styles.breakdownCell}>{row.original}</Text>
+              <Text style={[styles.breakdownCell, row.changed && { color: '#dc2626', fontWeight: '600' }]}>
+                {row.replay}
+              </Text>
+            </View>
+          ))}
+          {result.agents.map((diff) => (
+            <View key={diff.agentId} style={styles.breakdownRow}>
+              <Text style={[styles.breakdownCell, styles.feedbackKeyCell]} numberOfLines={1}>
+                {diff.agent}
+              </Text>
+              <Text style={styles.breakdownCell}>{formatConfidence(diff.original)}</Text>
+              <Text
+                style={[
+                  styles.breakdownCell,
+                  (diff.selectionChanged || diff.responseChanged) && { color: '#f59e0b', fontWeight: '600' },
+                ]}
+              >
+                {formatConfidence(diff.replay)}
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.traceColumns}>
+          <View style={styles.traceColumn}>
+            <Text style={styles.dataSectionTitle}>Original reply</Text>
+            <Text style={styles.diffSummary}>{original.draftResponse}</Text>
+          </View>
+          <View style={styles.traceColumn}>
+            <Text style={styles.dataSectionTitle}>Replay reply</Text>
+            <Text style={[styles.diffSummary, result.draftChanged && { color: '#111827' }]}>
+              {replay.draftResponse}
+            </Text>
+          </View>
+        </View>
+        <Text style={styles.diffRules}>
+          Replies are compared before rephrasing; rephrased replies can differ on every run.
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.candidatesList}>
+      <View style={styles.candidateCard}>
+        <Text style={styles.dataSectionTitle}>Agent Orchestrator Traces</Text>
+        <View style={styles.versionChips}>
+          {(['all', 'escalated', 'failures', 'conflicts'] as const).map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.versionChip, filter === item && styles.versionChipActive]}
+              onPress={() => setFilter(item)}
+            >
+              <Text style={[styles.versionChipText, filter === item && styles.versionChipTextActive]}>
+                {TRACE_FILTER_LABELS[item]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {loading ? (
+          <Text style={styles.candidateReason}>Loading traces...</Text>
+        ) : traces.length === 0 ? (
+          <Text style={styles.candidateReason}>No traces.</Text>
+        ) : (
+          traces.map(renderTraceRow)
+        )}
+      </View>
+
+      {!loading && conflictSummary.length > 0 && (
+        <View style={styles.candidateCard}>
+          <Text style={styles.dataSectionTitle}>Conflicts by Agent Pair</Text>
+          <View style={styles.breakdownTable}>
+            <View style={styles.breakdownRow}>
+              <Text style={[styles.breakdownCell, styles.breakdownHeader, styles.feedbackKeyCell]}>Cautious</Text>
+              <Text style={[styles.breakdownCell, styles.breakdownHeader, styles.feedbackKeyCell]}>Lenient</Text>
+              <Text style={[styles.breakdownCell, styles.breakdownHeader]}>On</Text>
+              <Text style={[styles.breakdownCell, styles.breakdownHeader]}>Count</Text>
+            </View>
+            {conflictSummary.map((row) => (
+              <View key={`${row.cautiousAgent}-${row.lenientAgent}-${row.dimension}`} style={styles.breakdownRow}>
+                <Text style={[styles.breakdownCell, styles.feedbackKeyCell]} numberOfLines={1}>{row.cautiousAgent}</Text>
+                <Text style={[styles.breakdownCell, styles.feedbackKeyCell]} numberOfLines={1}>{row.lenientAgent}</Text>
+                <Text style={styles.breakdownCell}>{CONFLICT_DIMENSION_LABELS[row.dimension]}</Text>
+                <Text style={styles.breakdownCell}>{row.count}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {selectedTrace && (
+        <>
+          {renderTrace(selectedTrace)}
+          {renderConfiguration()}
+          {comparison && comparison.original.id === selectedTrace.id && renderComparison(comparison)}
+        </>
+      )}
+    </View>
   );
 }
 
+const SECTION_LABELS = {
+  candidates: 'Candidates',
+  backtesting: 'Rule Backtesting',
+  shadow: 'Shadow Mode',
+  versions: 'Versions',
+  feedback: 'Feedback',
+  traces: 'Traces',
+} as const;
+
+const PATH_LABELS: Record<OrchestratorPath, string> = {
+  emergency: 'Emergency',
+  mental_health_crisis: 'Crisis',
+  consensus: 'Consensus',
+};
+
+const TRACE_FILTER_LABELS = {
+  all: 'All',
+  escalated: 'Escalated',
+  failures: 'Agent failures',
+  conflicts: 'Conflicts',
+} as const;
+
+const CONFLICT_DIMENSION_LABELS: Record<ConflictDimension, string> = {
+  urgency: 'Urgency',
+  risk_level: 'Risk',
+  recommendation: 'Care',
+};
+
+const CONFIGURATION_FIELD_LABELS: Record<ConfigurationChange['field'], string> = {
+  enabled: 'enabled',
+  weight: 'weight',
+  timeoutMs: 'time budget',
+};
+
+const CHANGE_LABELS: Record<KnowledgeChange['kind'], string> = {
+  symptom_pattern: 'Symptom Pattern',
+  intent_pattern: 'Intent Pattern',
+  education_answer: 'Education Answer',
+  rule_adjustment: 'Rule Adjustment',
+};
+
+const CHANGE_TARGET_PLACEHOLDERS: Record<KnowledgeChange['kind'], string> = {
+  symptom_pattern: 'Canonical symptom name (e.g. severe headache)',
+  intent_pattern: '',
+  education_answer: 'Answer shown to mothers',
+  rule_adjustment: 'Rule id (e.g. RULE_001)',
+};
+
+// Severity, intent or risk level to pick for each kind of change
+const CHANGE_CHOICES: Record<KnowledgeChange['kind'], string[]> = {
+  symptom_pattern: ['moderate', 'mild', 'severe', 'critical'],
+  intent_pattern: ['education', 'question', 'symptom_report', 'medication', 'nutrition', 'appointment', 'emotional_support'],
+  education_answer: [],
+  rule_adjustment: ['level_4', 'level_3', 'level_2', 'level_1'],
+};
+
+const STATUS_COLORS: Record<ModelVersion['status'], string> = {
+  training: '#6b7280',
+  validating: '#3b82f6',
+  approved: '#8b5cf6',
+  deployed: '#22c55e',
+  retired: '#9ca3af',
+};
+
+const RISK_LEVEL_KEYS = ['level_1', 'level_2', 'level_3', 'level_4'] as const;
+
+const formatLevel = (level: string) => level.replace('level_', 'L');
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -464,6 +1964,12 @@ const styles = StyleSheet.create({
     color: '#111827',
     flex: 1,
   },
+  sampleExcerpt: {
+    fontSize: 12,
+    color: '#4b5563',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
   safetyNotice: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -507,6 +2013,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 14,
   },
+  changeInput: {
+    marginTop: 8,
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#111827',
+  },
+  evaluateButton: {
+    backgroundColor: '#dbeafe',
+  },
+  evaluateButtonText: {
+    color: '#3b82f6',
+    fontWeight: '600',
+    fontSize: 14,
+  },
   emptyState: {
     alignItems: 'center',
     padding: 48,
@@ -518,4 +2041,139 @@ const styles = StyleSheet.create({
     color: '#9ca3af',
     marginTop: 12,
   },
+  sectionSwitcher: {
+    flexDirection: 'row',
+    marginHorizontal: 20,
+    marginBottom: 16,
+    backgroundColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 4,
+  },
+  sectionButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  sectionButtonActive: {
+    backgroundColor: '#ffffff',
+  },
+  sectionButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  sectionButtonTextActive: {
+    color: '#111827',
+    fontWeight: '600',
+  },
+  versionChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  versionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#ffffff',
+  },
+  versionChipActive: {
+    borderColor: '#10B981',
+    backgroundColor: '#ecfdf5',
+  },
+  versionChipText: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  versionChipTextActive: {
+    color: '#047857',
+    fontWeight: '600',
+  },
+  breakdownTable: {
+    marginTop: 12,
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+    padding: 8,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+  },
+  breakdownCell: {
+    flex: 1,
+    fontSize: 13,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  breakdownHeader: {
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  feedbackKeyCell: {
+    flex: 2,
+    textAlign: 'left',
+  },
+  diffRow: {
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  diffHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  diffLevels: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    flex: 1,
+  },
+  diffDate: {
+    fontSize: 12,
+    color: '#9ca3af',
+  },
+  diffSummary: {
+    fontSize: 13,
+    color: '#6b7280',
+    lineHeight: 18,
+  },
+  diffRules: {
+    fontSize: 12,
+    color: '#374151',
+    marginTop: 4,
+  },
+  agentSettingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  agentSettingName: {
+    flex: 1,
+    fontSize: 13,
+    color: '#111827',
+  },
+  weightInput: {
+    width: 56,
+    backgroundColor: '#f9fafb',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontSize: 13,
+    color: '#111827',
+    textAlign: 'center',
+  },
+  traceColumns: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  traceColumn: {
+    flex: 1,
+  },
 });
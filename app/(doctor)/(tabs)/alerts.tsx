@@ -21,6 +21,9 @@ import {
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { aiService } from '@/services/aiService';
+import { MessageFeedback, MessageFeedbackValue } from '@/components/MessageFeedback';
+import { AssessmentReportActions } from '@/components/AssessmentReportActions';
+import { reportService } from '@/services/reportService';
 
 interface Alert {
   id: string;
@@ -33,6 +36,7 @@ interface Alert {
   createdAt: string;
   vitals?: any;
   aiExplanation?: string;
+  aiModelVersion?: string;
 }
 
 export default function AlertsScreen() {
@@ -131,7 +135,9 @@ export default function AlertsScreen() {
 
       setAlerts(prev =>
         prev.map(a =>
-          a.id === alert.id ? { ...a, aiExplanation: explanation.forClinician.summary } : a
+          a.id === alert.id
+            ? { ...a, aiExplanation: explanation.forClinician.summary, aiModelVersion: explanation.metadata.modelVersion }
+            : a
         )
       );
     } catch (error) {
@@ -139,6 +145,16 @@ export default function AlertsScreen() {
     }
   };
 
+  const submitExplanationFeedback = (alert: Alert, value: MessageFeedbackValue) =>
+    aiService.recordFeedback({
+      ...value,
+      conversationId: `alert:${alert.id}`,
+      source: 'alert_explanation',
+      userRole: 'doctor',
+      intent: 'alert_explanation',
+      modelVersion: alert.aiModelVersion,
+    });
+
   const onRefresh = async () => {
     setRefreshing(true);
     await fetchAlerts();
@@ -303,6 +319,10 @@ export default function AlertsScreen() {
                       <View style={styles.aiExplanation}>
                         <Text style={styles.aiExplanationTitle}>AI Analysis</Text>
                         <Text style={styles.aiExplanationText}>{alert.aiExplanation}</Text>
+                        <MessageFeedback
+                          color="#0284c7"
+                          onSubmit={(value) => submitExplanationFeedback(alert, value)}
+                        />
                       </View>
                     )}
 
@@ -333,6 +353,14 @@ export default function AlertsScreen() {
                       </View>
                     )}
 
+                    {/* Latest assessment report */}
+                    <AssessmentReportActions
+                      color="#0284c7"
+                      onExport={(audience, format) =>
+                        reportService.exportLatestReport(alert.motherId, audience, format)
+                      }
+                    />
+
                     {/* Action Buttons */}
                     {alert.status === 'pending' && (
                       <View style={styles.actionButtons}>
@@ -18,9 +18,13 @@ import {
   Baby,
   Calendar,
   Phone,
+  Activity,
 } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { meowsCalculator, MEOWSEscalationLevel } from '@/services/ai/MEOWSCalculator';
+import { reportService } from '@/services/reportService';
+import { AssessmentReportActions } from '@/components/AssessmentReportActions';
 
 interface Patient {
   id: string;
@@ -32,6 +36,12 @@ interface Patient {
   riskLevel: 'low' | 'medium' | 'high';
   lastVisit: string;
   alerts: number;
+  meows?: {
+    level: MEOWSEscalationLevel;
+    redTriggers: number;
+    yellowTriggers: number;
+    recordedAt: string;
+  };
 }
 
 export default function PatientsScreen() {
@@ -71,6 +81,8 @@ export default function PatientsScreen() {
 
       if (error) throw error;
 
+      const latestMEOWS = await fetchLatestMEOWS((data || []).map((p: any) => p.id));
+
       const formattedPatients: Patient[] = data?.map((p: any) => {
         const dueDate = new Date(p.due_date);
         const today = new Date();
@@ -86,6 +98,7 @@ export default function PatientsScreen() {
           riskLevel: p.risk_level || 'low',
           lastVisit: p.created_at,
           alerts: 0,
+          meows: latestMEOWS[p.id],
         };
       }) || [];
 
@@ -97,6 +110,31 @@ export default function PatientsScreen() {
     }
   };
 
+  const fetchLatestMEOWS = async (motherIds: string[]): Promise<Record<string, Patient['meows']>> => {
+    if (motherIds.length === 0) return {};
+    try {
+      // One row per mother: her most recent scored reading
+      const { data, error } = await (supabase as any)
+        .rpc('latest_meows_scores', { p_mother_ids: motherIds });
+
+      if (error) throw error;
+
+      const latest: Record<string, Patient['meows']> = {};
+      for (const row of data || []) {
+        latest[row.mother_id] = {
+          level: row.meows_level,
+          redTriggers: row.meows_red_triggers || 0,
+          yellowTriggers: row.meows_yellow_triggers || 0,
+          recordedAt: row.recorded_at,
+        };
+      }
+      return latest;
+    } catch (error) {
+      console.error('Error fetching MEOWS scores:', error);
+      return {};
+    }
+  };
+
   const filterPatients = () => {
     let filtered = patients;
 
@@ -267,6 +305,25 @@ export default function PatientsScreen() {
                 </View>
               </View>
 
+              {patient.meows && (
+                <View style={styles.meowsRow}>
+                  <Activity size={16} color={meowsCalculator.getEscalationColor(patient.meows.level)} />
+                  <Text
+                    style={[
+                      styles.meowsText,
+                      { color: meowsCalculator.getEscalationColor(patient.meows.level) },
+                    ]}
+                  >
+                    MEOWS: {meowsCalculator.getEscalationLabel(patient.meows.level)}
+                  </Text>
+                  {(patient.meows.redTriggers > 0 || patient.meows.yellowTriggers > 0) && (
+                    <Text style={styles.meowsCounts}>
+                      {patient.meows.redTriggers} red · {patient.meows.yellowTriggers} yellow
+                    </Text>
+                  )}
+                </View>
+              )}
+
               {patient.alerts > 0 && (
                 <View style={styles.alertBanner}>
                   <AlertTriangle size={16} color="#dc2626" />
@@ -275,6 +332,13 @@ export default function PatientsScreen() {
                   </Text>
                 </View>
               )}
+
+              <AssessmentReportActions
+                color="#2563eb"
+                onExport={(audience, format) =>
+                  reportService.exportLatestReport(patient.id, audience, format)
+                }
+              />
             </TouchableOpacity>
           ))
         )}
@@ -413,6 +477,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  meowsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 6,
+  },
+  meowsText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  meowsCounts: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginLeft: 'auto',
+  },
   alertBanner: {
     flexDirection: 'row',
     alignItems: 'center',
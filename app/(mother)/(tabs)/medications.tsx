@@ -26,6 +26,7 @@ import {
 } from 'lucide-react-native';
 import { useAuth } from '../../../context/AuthContext';
 import { medicationReminderService, MedicationReminder, MedicationLog, COMMON_PREGNANCY_MEDICATIONS } from '../../../services/medicationReminderService';
+import { drugSafetyDatabase, DrugSafetyAssessment, DRUG_RISK_LABELS } from '../../../services/ai/DrugSafetyDatabase';
 import { Card } from '../../../components/Card';
 import { Button } from '../../../components/Button';
 
@@ -80,7 +81,7 @@ export default function MedicationsScreen() {
     }
 
     try {
-      await medicationReminderService.createReminder({
+      const created = await medicationReminderService.createReminder({
         motherId: user.id,
         medicationName: medicationName.trim(),
         dosage: dosage.trim(),
@@ -95,7 +96,23 @@ export default function MedicationsScreen() {
       setShowAddModal(false);
       resetForm();
       await loadData();
-      Alert.alert('Success', 'Medication added successfully');
+
+      const safety: DrugSafetyAssessment | undefined = created.safety;
+      if (safety && safety.overallRisk !== 'safe') {
+        Alert.alert(
+          `Medication added - ${DRUG_RISK_LABELS[safety.overallRisk]}`,
+          [
+            safety.guidance,
+            ...safety.contraindications.map(c => c.note),
+            ...safety.interactions.map(i => `With ${i.medication}: ${i.note}`),
+            drugSafetyDatabase.needsReview(safety.overallRisk)
+              ? 'Your doctor has been notified. Please check with them before taking it.'
+              : 'Please check with your doctor or pharmacist.',
+          ].join('\n\n')
+        );
+      } else {
+        Alert.alert('Success', 'Medication added successfully');
+      }
     } catch (error) {
       console.error('Error adding medication:', error);
       Alert.alert('Error', 'Failed to add medication');
@@ -12,6 +12,7 @@ import { useAuth } from '@/context/AuthContext';
 import { Card } from '@/components/Card';
 import { Button } from '@/components/Button';
 import { monitoringService } from '@/services/monitoringService';
+import { meowsCalculator } from '@/services/ai/MEOWSCalculator';
 import { HeartPulse, Activity, TrendingUp, Plus } from 'lucide-react-native';
 
 export default function MonitoringScreen() {
@@ -110,6 +111,43 @@ export default function MonitoringScreen() {
                 </View>
               )}
             </View>
+
+            {latestVitals.meows_level && (
+              <View
+                style={[
+                  styles.meowsBox,
+                  { borderColor: meowsCalculator.getEscalationColor(latestVitals.meows_level) },
+                ]}
+              >
+                <View style={styles.meowsHeader}>
+                  <Text style={styles.meowsTitle}>Early Warning Score</Text>
+                  <Text
+                    style={[
+                      styles.meowsLevel,
+                      { color: meowsCalculator.getEscalationColor(latestVitals.meows_level) },
+                    ]}
+                  >
+                    {meowsCalculator.getEscalationLabel(latestVitals.meows_level)}
+                  </Text>
+                </View>
+                {(latestVitals.meows_triggers || []).map((trigger: any, index: number) => (
+                  <View key={index} style={styles.meowsTriggerRow}>
+                    <View
+                      style={[
+                        styles.meowsDot,
+                        { backgroundColor: trigger.color === 'red' ? '#EF4444' : '#F59E0B' },
+                      ]}
+                    />
+                    <Text style={styles.meowsTrigger}>{trigger.reason}</Text>
+                  </View>
+                ))}
+                {latestVitals.meows_level !== 'normal' && (
+                  <Text style={styles.meowsAdvice}>
+                    {meowsCalculator.getRecommendation(latestVitals.meows_level)}
+                  </Text>
+                )}
+              </View>
+            )}
           </Card>
         )}
 
@@ -239,6 +277,49 @@ const styles = StyleSheet.create({
     color: '#666',
     marginTop: 4,
   },
+  meowsBox: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    backgroundColor: '#FFF',
+  },
+  meowsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  meowsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  meowsLevel: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  meowsTriggerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  meowsDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  meowsTrigger: {
+    fontSize: 13,
+    color: '#666',
+  },
+  meowsAdvice: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 8,
+  },
   chartHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
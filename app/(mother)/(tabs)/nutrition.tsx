@@ -26,7 +26,7 @@ import {
 } from '@/services/nutritionGuidanceService';
 
 export default function NutritionScreen() {
-  const { user } = useAuth();
+  const { motherProfile } = useAuth();
   const [todayLogs, setTodayLogs] = useState<NutritionLog[]>([]);
   const [waterIntake, setWaterIntake] = useState(0);
   const [recommendations, setRecommendations] = useState<NutrientRecommendation[]>([]);
@@ -38,16 +38,16 @@ export default function NutritionScreen() {
 
   useEffect(() => {
     loadNutritionData();
-  }, [user]);
+  }, [motherProfile]);
 
   const loadNutritionData = async () => {
-    if (!user) return;
+    if (!motherProfile) return;
 
     try {
       setLoading(true);
       const [logs, water, recs] = await Promise.all([
-        nutritionGuidanceService.getTodayLogs(user.id),
-        nutritionGuidanceService.getTodayWaterIntake(user.id),
+        nutritionGuidanceService.getTodayLogs(motherProfile.id),
+        nutritionGuidanceService.getTodayWaterIntake(motherProfile.id),
         nutritionGuidanceService.getNutrientRecommendations(2), // Second trimester default
       ]);
 
@@ -68,14 +68,14 @@ export default function NutritionScreen() {
   };
 
   const handleLogMeal = async () => {
-    if (!user || !mealDescription.trim()) {
+    if (!motherProfile || !mealDescription.trim()) {
       Alert.alert('Error', 'Please enter a meal description');
       return;
     }
 
     try {
       await nutritionGuidanceService.logMeal({
-        motherId: user.id,
+        motherId: motherProfile.id,
         mealType: selectedMealType,
         foodItems: [mealDescription],
       });
@@ -91,12 +91,12 @@ export default function NutritionScreen() {
   };
 
   const handleLogWater = async () => {
-    if (!user) return;
+    if (!motherProfile) return;
 
     try {
       // Log water as a meal with water intake
       await nutritionGuidanceService.logMeal({
-        motherId: user.id,
+        motherId: motherProfile.id,
         mealType: 'snack',
         foodItems: ['Water'],
         waterIntake: 250, // 250ml glass
@@ -108,11 +108,11 @@ export default function NutritionScreen() {
   };
 
   const handleLogVitamin = async () => {
-    if (!user || vitaminTaken) return;
+    if (!motherProfile || vitaminTaken) return;
 
     try {
       await nutritionGuidanceService.logMeal({
-        motherId: user.id,
+        motherId: motherProfile.id,
         mealType: 'snack',
         foodItems: ['Prenatal Vitamin'],
         notes: 'Daily prenatal vitamin',
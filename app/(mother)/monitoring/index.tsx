@@ -24,26 +24,73 @@ import {
   Clock,
   ChevronRight,
   X,
+  AlertTriangle,
+  Wind,
+  Brain,
 } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { monitoringService, VitalInput } from '@/services/monitoringService';
+import {
+  meowsCalculator,
+  ConsciousnessLevel,
+  MEOWSEscalationLevel,
+  MEOWSTrigger,
+} from '@/services/ai/MEOWSCalculator';
 
 interface VitalReading {
   id: string;
   type: string;
-  value: number;
+  value: number | string;
   unit: string;
   recorded_at: string;
+  meows_level?: MEOWSEscalationLevel;
+  meows_triggers?: MEOWSTrigger[];
 }
 
-const VITAL_TYPES = [
-  { key: 'blood_pressure_systolic', label: 'Blood Pressure (Sys)', unit: 'mmHg', icon: Heart, color: '#EF4444' },
-  { key: 'blood_pressure_diastolic', label: 'Blood Pressure (Dia)', unit: 'mmHg', icon: Heart, color: '#F87171' },
+// Keys are vital_signs columns; each reading is saved through monitoringService so it is MEOWS-scored
+const VITAL_TYPES: {
+  key: Exclude<keyof VitalInput, 'notes'>;
+  label: string;
+  unit: string;
+  icon: typeof Heart;
+  color: string;
+  options?: { value: ConsciousnessLevel; label: string }[];
+}[] = [
+  { key: 'systolic_bp', label: 'Blood Pressure (Sys)', unit: 'mmHg', icon: Heart, color: '#EF4444' },
+  { key: 'diastolic_bp', label: 'Blood Pressure (Dia)', unit: 'mmHg', icon: Heart, color: '#F87171' },
   { key: 'heart_rate', label: 'Heart Rate', unit: 'bpm', icon: Activity, color: '#10B981' },
   { key: 'blood_sugar', label: 'Blood Sugar', unit: 'mg/dL', icon: Droplets, color: '#F59E0B' },
   { key: 'weight', label: 'Weight', unit: 'kg', icon: Weight, color: '#10B981' },
+  { key: 'respiratory_rate', label: 'Breathing Rate', unit: 'breaths/min', icon: Wind, color: '#3B82F6' },
+  {
+    key: 'consciousness_level',
+    label: 'Alertness',
+    unit: '',
+    icon: Brain,
+    color: '#8B5CF6',
+    options: [
+      { value: 'alert', label: 'Awake and alert' },
+      { value: 'voice', label: 'Drowsy, wakes when spoken to' },
+      { value: 'pain', label: 'Only wakes to pain or shaking' },
+      { value: 'unresponsive', label: 'Does not respond' },
+    ],
+  },
 ];
 
+/** One reading per observation recorded in a vital_signs row */
+function toReadings(row: any): VitalReading[] {
+  return VITAL_TYPES.filter((vital) => row[vital.key] !== null && row[vital.key] !== undefined).map((vital) => ({
+    id: `${row.id}-${vital.key}`,
+    type: vital.key,
+    value: vital.options?.find((option) => option.value === row[vital.key])?.label || row[vital.key],
+    unit: vital.unit,
+    recorded_at: row.recorded_at,
+    meows_level: row.meows_level,
+    meows_triggers: row.meows_triggers,
+  }));
+}
+
 export default function MonitoringScreen() {
   const router = useRouter();
   const { motherProfile, user } = useAuth();
@@ -77,7 +124,7 @@ export default function MonitoringScreen() {
         .limit(20);
 
       if (data && !error) {
-        setVitals(data);
+        setVitals(data.flatMap(toReadings));
       }
     } catch (error) {
       console.error('Error loading vitals:', error);
@@ -86,22 +133,23 @@ export default function MonitoringScreen() {
     }
   };
 
-  const handleAddVital = async () => {
-    if (!selectedVital || !inputValue || !motherProfile?.id) return;
+  const handleAddVital = async (value: number | ConsciousnessLevel = parseFloat(inputValue)) => {
+    if (!selectedVital || value === undefined || Number.isNaN(value) || !motherProfile?.id) return;
 
     setLoading(true);
     try {
-      const { error } = await supabase.from('vital_signs').insert({
-        mother_id: motherProfile.id,
-        vital_type: selectedVital.key,
-        value: parseFloat(inputValue),
-        unit: selectedVital.unit,
-        recorded_at: new Date().toISOString(),
+      const reading = await monitoringService.recordVitals(motherProfile.id, {
+        [selectedVital.key]: value,
       });
 
-      if (error) throw error;
-
-      Alert.alert('Success', 'Vital sign recorded successfully');
+      if (reading.meows_level && reading.meows_red_triggers) {
+        Alert.alert(
+          meowsCalculator.getEscalationLabel(reading.meows_level),
+          meowsCalculator.getRecommendation(reading.meows_level)
+        );
+      } else {
+        Alert.alert('Success', 'Vital sign recorded successfully');
+      }
       setShowInputModal(false);
       setInputValue('');
       setSelectedVital(null);
@@ -118,6 +166,8 @@ export default function MonitoringScreen() {
     return vitals.find((v) => v.type === type);
   };
 
+  const latestMEOWS = vitals.find((v) => v.meows_level);
+
   const onRefresh = () => {
     setRefreshing(true);
     loadVitals();
@@ -178,6 +228,48 @@ export default function MonitoringScreen() {
             })}
           </View>
 
+          {/* Early Warning Score */}
+          {latestMEOWS?.meows_level && (
+            <View style={styles.section}>
+              <View
+                style={[
+                  styles.meowsCard,
+                  { borderLeftColor: meowsCalculator.getEscalationColor(latestMEOWS.meows_level) },
+                ]}
+              >
+                <View style={styles.meowsHeader}>
+                  <AlertTriangle
+                    size={20}
+                    color={meowsCalculator.getEscalationColor(latestMEOWS.meows_level)}
+                  />
+                  <Text style={styles.meowsTitle}>Early Warning Score</Text>
+                  <Text
+                    style={[
+                      styles.meowsLevel,
+                      { color: meowsCalculator.getEscalationColor(latestMEOWS.meows_level) },
+                    ]}
+                  >
+                    {meowsCalculator.getEscalationLabel(latestMEOWS.meows_level)}
+                  </Text>
+                </View>
+                {(latestMEOWS.meows_triggers || []).map((trigger, index) => (
+                  <View key={index} style={styles.meowsTriggerRow}>
+                    <View
+                      style={[
+                        styles.meowsDot,
+                        { backgroundColor: trigger.color === 'red' ? '#EF4444' : '#F59E0B' },
+                      ]}
+                    />
+                    <Text style={styles.meowsTriggerText}>{trigger.reason}</Text>
+                  </View>
+                ))}
+                <Text style={styles.meowsAdvice}>
+                  {meowsCalculator.getRecommendation(latestMEOWS.meows_level)}
+                </Text>
+              </View>
+            </View>
+          )}
+
           {/* Recent Readings */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -278,6 +370,20 @@ export default function MonitoringScreen() {
                   );
                 })}
               </ScrollView>
+            ) : selectedVital.options ? (
+              <View style={styles.inputContainer}>
+                {selectedVital.options.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={styles.vitalTypeItem}
+                    onPress={() => handleAddVital(option.value)}
+                    disabled={loading}
+                  >
+                    <Text style={styles.vitalTypeLabel}>{option.label}</Text>
+                    <ChevronRight size={20} color="#9CA3AF" />
+                  </TouchableOpacity>
+                ))}
+              </View>
             ) : (
               <View style={styles.inputContainer}>
                 <View style={styles.inputWrapper}>
@@ -294,7 +400,7 @@ export default function MonitoringScreen() {
                 </View>
                 <TouchableOpacity
                   style={[styles.submitButton, loading && styles.submitButtonDisabled]}
-                  onPress={handleAddVital}
+                  onPress={() => handleAddVital()}
                   disabled={loading || !inputValue}
                 >
                   <Text style={styles.submitButtonText}>
@@ -390,6 +496,49 @@ const styles = StyleSheet.create({
   section: {
     marginTop: 24,
   },
+  meowsCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    borderLeftWidth: 4,
+  },
+  meowsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  meowsTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  meowsLevel: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  meowsTriggerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  meowsDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  meowsTriggerText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  meowsAdvice: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    marginTop: 8,
+  },
   sectionHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -9,6 +9,7 @@ import {
   KeyboardAvoidingView,
   Platform,
   ActivityIndicator,
+  Modal,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -22,9 +23,16 @@ import {
   AlertTriangle,
   Heart,
   Info,
+  History,
+  Plus,
+  X,
+  MessageCircle,
 } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { aiService } from '@/services/aiService';
+import { SessionSummary } from '@/services/ai/ConversationSessionStore';
+import { RiskBadge } from '@/components/RiskBadge';
+import { MessageFeedback, MessageFeedbackValue } from '@/components/MessageFeedback';
 
 interface Message {
   id: string;
@@ -32,6 +40,12 @@ interface Message {
   isUser: boolean;
   timestamp: Date;
   isTyping?: boolean;
+  /** Set on assistant replies, which can be rated */
+  feedback?: {
+    learningRecordId?: string;
+    intent?: string;
+    modelVersion?: string;
+  };
 }
 
 const QUICK_PROMPTS = [
@@ -42,19 +56,40 @@ const QUICK_PROMPTS = [
   "What should I eat today?",
 ];
 
+const formatSessionTime = (date: Date) => {
+  const days = Math.floor((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000));
+
+  if (days === 0) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  } else if (days === 1) {
+    return 'Yesterday';
+  } else if (days < 7) {
+    return date.toLocaleDateString([], { weekday: 'short' });
+  } else {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  }
+};
+
 export default function AIChatScreen() {
   const router = useRouter();
   const { user, motherProfile } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      text: `Hello${motherProfile?.full_name ? ` ${motherProfile.full_name.split(' ')[0]}` : ''}! 👋 I'm your AI health assistant. I can help you understand your symptoms, provide health guidance, and answer questions about your pregnancy. How can I help you today?`,
-      isUser: false,
-      timestamp: new Date(),
-    },
-  ]);
+
+  const greeting = (): Message => ({
+    id: '1',
+    text: `Hello${motherProfile?.full_name ? ` ${motherProfile.full_name.split(' ')[0]}` : ''}! 👋 I'm your AI health assistant. I can help you understand your symptoms, provide health guidance, and answer questions about your pregnancy. How can I help you today?`,
+    isUser: false,
+    timestamp: new Date(),
+  });
+
+  const [messages, setMessages] = useState<Message[]>([greeting()]);
   const [inputText, setInputText] = useState('');
   const [loading, setLoading] = useState(false);
+  const [sessionId, setSessionId] = useState<string | undefined>();
+  // Ended sessions can be read but not continued
+  const [readOnly, setReadOnly] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
   const scrollViewRef = useRef<ScrollView>(null);
 
   useEffect(() => {
@@ -89,22 +124,18 @@ export default function AIChatScreen() {
     ]);
 
     try {
-      // Get AI response
-      const response = await aiService.analyzeSymptoms(
+      // Get AI response; the session carries follow-up questions across messages
+      const response = await aiService.chatWithAI(
+        text.trim(),
         user?.id || '',
-        {
-          symptoms: [text.trim()],
-          severity: 'moderate',
-          description: text.trim(),
-        },
+        'mother',
+        sessionId,
         motherProfile?.pregnancy_week || 20
       );
+      setSessionId(response.sessionId);
 
-      // Build response message from AI analysis
-      const aiMessage = response.explanation || 
-        (response.recommendations.length > 0 
-          ? response.recommendations.join('\n\n')
-          : "I understand. Could you tell me more about how you're feeling?");
+      const aiMessage = response.message ||
+        "I understand. Could you tell me more about how you're feeling?";
 
       // Remove typing indicator and add response
       setMessages((prev) => {
@@ -116,12 +147,17 @@ export default function AIChatScreen() {
             text: aiMessage,
             isUser: false,
             timestamp: new Date(),
+            feedback: {
+              learningRecordId: response.learningRecordId,
+              intent: response.intent,
+              modelVersion: response.modelVersion,
+            },
           },
         ];
       });
 
       // Check if AI flagged any concerns (level_3 = high, level_4 = emergency)
-      if (response.riskLevel === 'level_3' || response.riskLevel === 'level_4' || response.requiresDoctorReview) {
+      if (response.riskLevel === 'level_3' || response.riskLevel === 'level_4' || response.requiresEscalation) {
         setMessages((prev) => [
           ...prev,
           {
@@ -151,6 +187,84 @@ export default function AIChatScreen() {
     }
   };
 
+  const openHistory = async () => {
+    setShowHistory(true);
+    setHistoryLoading(true);
+    try {
+      setSessions(await aiService.listChatSessions(user?.id || ''));
+    } catch (error) {
+      console.error('Error loading chat history:', error);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const openSession = async (session: SessionSummary) => {
+    setShowHistory(false);
+    setLoading(true);
+    try {
+      const transcript = await aiService.getChatMessages(session.id);
+      setMessages(
+        transcript
+          .filter((m) => m.role !== 'system')
+          .map((m) => ({
+            id: m.id,
+            text: m.content,
+            isUser: m.role === 'user',
+            timestamp: m.createdAt,
+            feedback: m.role === 'assistant' ? { intent: m.intent } : undefined,
+          }))
+      );
+      setSessionId(session.id);
+      setReadOnly(session.status !== 'active');
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitFeedback = (message: Message, value: MessageFeedbackValue) =>
+    aiService.recordFeedback({
+      ...value,
+      conversationId: sessionId || message.id,
+      learningRecordId: message.feedback?.learningRecordId,
+      messageId: message.id,
+      source: 'chat',
+      userRole: 'mother',
+      intent: message.feedback?.intent,
+      modelVersion: message.feedback?.modelVersion,
+    });
+
+  const startNewChat = () => {
+    setShowHistory(false);
+    setMessages([greeting()]);
+    setSessionId(undefined);
+    setReadOnly(false);
+  };
+
+  const renderSession = (session: SessionSummary) => (
+    <TouchableOpacity
+      key={session.id}
+      style={[styles.sessionItem, session.id === sessionId && styles.sessionItemActive]}
+      onPress={() => openSession(session)}
+    >
+      <View style={styles.sessionIcon}>
+        <MessageCircle size={18} color="#10B981" />
+      </View>
+      <View style={styles.sessionInfo}>
+        <Text style={styles.sessionTitle} numberOfLines={1}>{session.title}</Text>
+        <Text style={styles.sessionMeta}>
+          {formatSessionTime(session.lastMessageAt)} · {session.messageCount} messages
+          {session.status !== 'active' ? ' · Ended' : ''}
+        </Text>
+      </View>
+      {session.highestRiskLevel && session.highestRiskLevel !== 'level_1' && (
+        <RiskBadge level={session.highestRiskLevel} size="small" />
+      )}
+    </TouchableOpacity>
+  );
+
   const renderMessage = (message: Message) => {
     if (message.isTyping) {
       return (
@@ -200,6 +314,9 @@ export default function AIChatScreen() {
           >
             {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           </Text>
+          {message.feedback && (
+            <MessageFeedback onSubmit={(value) => submitFeedback(message, value)} />
+          )}
         </View>
         {message.isUser && (
           <View style={styles.userAvatar}>
@@ -230,6 +347,9 @@ export default function AIChatScreen() {
             <Text style={styles.headerSubtitle}>Always here to help</Text>
           </View>
         </View>
+        <TouchableOpacity style={styles.infoButton} onPress={openHistory}>
+          <History size={22} color="#fff" />
+        </TouchableOpacity>
         <TouchableOpacity style={styles.infoButton}>
           <Info size={22} color="#fff" />
         </TouchableOpacity>
@@ -258,7 +378,7 @@ export default function AIChatScreen() {
         </ScrollView>
 
         {/* Quick Prompts */}
-        {messages.length <= 1 && (
+        {messages.length <= 1 && !readOnly && (
           <ScrollView
             horizontal
             showsHorizontalScrollIndicator={false}
@@ -278,25 +398,69 @@ export default function AIChatScreen() {
         )}
 
         {/* Input Area */}
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={styles.input}
-            placeholder="Type your message..."
-            placeholderTextColor="#9CA3AF"
-            value={inputText}
-            onChangeText={setInputText}
-            multiline
-            maxLength={500}
-          />
-          <TouchableOpacity
-            style={[styles.sendButton, (!inputText.trim() || loading) && styles.sendButtonDisabled]}
-            onPress={() => sendMessage(inputText)}
-            disabled={!inputText.trim() || loading}
-          >
-            <Send size={20} color="#fff" />
-          </TouchableOpacity>
-        </View>
+        {readOnly ? (
+          <View style={styles.endedContainer}>
+            <Text style={styles.endedText}>This conversation has ended.</Text>
+            <TouchableOpacity style={styles.newChatButton} onPress={startNewChat}>
+              <Plus size={18} color="#fff" />
+              <Text style={styles.newChatButtonText}>Start a new conversation</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={styles.input}
+              placeholder="Type your message..."
+              placeholderTextColor="#9CA3AF"
+              value={inputText}
+              onChangeText={setInputText}
+              multiline
+              maxLength={500}
+            />
+            <TouchableOpacity
+              style={[styles.sendButton, (!inputText.trim() || loading) && styles.sendButtonDisabled]}
+              onPress={() => sendMessage(inputText)}
+              disabled={!inputText.trim() || loading}
+            >
+              <Send size={20} color="#fff" />
+            </TouchableOpacity>
+          </View>
+        )}
       </KeyboardAvoidingView>
+
+      {/* Chat History */}
+      <Modal
+        visible={showHistory}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowHistory(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Conversations</Text>
+              <TouchableOpacity onPress={() => setShowHistory(false)}>
+                <X size={24} color="#6B7280" />
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity style={styles.newChatRow} onPress={startNewChat}>
+              <Plus size={18} color="#10B981" />
+              <Text style={styles.newChatRowText}>New conversation</Text>
+            </TouchableOpacity>
+
+            <ScrollView style={styles.modalBody}>
+              {historyLoading ? (
+                <ActivityIndicator size="small" color="#10B981" style={styles.historyLoading} />
+              ) : sessions.length === 0 ? (
+                <Text style={styles.emptyHistoryText}>No previous conversations yet.</Text>
+              ) : (
+                sessions.map(renderSession)
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -482,4 +646,113 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     backgroundColor: '#D1D5DB',
   },
+  endedContainer: {
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E7EB',
+    gap: 10,
+  },
+  endedText: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  newChatButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#10B981',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 24,
+    gap: 8,
+  },
+  newChatButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  modalBody: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  newChatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    gap: 8,
+  },
+  newChatRowText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#10B981',
+  },
+  sessionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: '#F9FAFB',
+    gap: 12,
+  },
+  sessionItemActive: {
+    backgroundColor: '#D1FAE5',
+  },
+  sessionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1F2937',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  historyLoading: {
+    marginVertical: 24,
+  },
+  emptyHistoryText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginVertical: 24,
+  },
 });
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { FileText, FileDown, User } from 'lucide-react-native';
+import type { ReportAudience } from '@/services/ai/ClinicalReportGenerator';
+import type { ReportFormat } from '@/services/reportService';
+
+interface AssessmentReportActionsProps {
+  /** Resolves false when the report could not be produced */
+  onExport: (audience: ReportAudience, format: ReportFormat) => Promise<boolean>;
+  color?: string;
+}
+
+type ReportAction = { key: string; label: string; audience: ReportAudience; format: ReportFormat; Icon: typeof FileText };
+
+const ACTIONS: ReportAction[] = [
+  { key: 'clinician-pdf', label: 'Clinical PDF', audience: 'clinician', format: 'pdf', Icon: FileDown },
+  { key: 'clinician-html', label: 'Clinical HTML', audience: 'clinician', format: 'html', Icon: FileText },
+  { key: 'patient-pdf', label: 'Patient version', audience: 'patient', format: 'pdf', Icon: User },
+];
+
+export function AssessmentReportActions({ onExport, color = '#3B82F6' }: AssessmentReportActionsProps) {
+  const [pending, setPending] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const run = async (action: ReportAction) => {
+    setPending(action.key);
+    setFailed(false);
+    const exported = await onExport(action.audience, action.format);
+    setPending(null);
+    setFailed(!exported);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Assessment Report</Text>
+      <View style={styles.row}>
+        {ACTIONS.map((action) => (
+          <TouchableOpacity
+            key={action.key}
+            style={[styles.button, { borderColor: color }]}
+            onPress={() => run(action)}
+            disabled={pending !== null}
+          >
+            {pending === action.key ? (
+              <ActivityIndicator size="small" color={color} />
+            ) : (
+              <action.Icon size={14} color={color} />
+            )}
+            <Text style={[styles.buttonText, { color }]}>{action.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {failed && <Text style={styles.failed}>Couldn't create the report, try again</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  failed: {
+    marginTop: 6,
+    fontSize: 12,
+    color: '#DC2626',
+  },
+});
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { ThumbsUp, ThumbsDown, Star } from 'lucide-react-native';
+import type { FeedbackIssue } from '@/services/ai/LearningSystem';
+
+export interface MessageFeedbackValue {
+  helpful: boolean;
+  rating?: number;
+  accurate: boolean;
+  issue?: FeedbackIssue;
+  comments?: string;
+}
+
+interface MessageFeedbackProps {
+  /** Resolves false when the feedback could not be saved */
+  onSubmit: (feedback: MessageFeedbackValue) => Promise<boolean>;
+  color?: string;
+}
+
+const ISSUE_LABELS: Record<FeedbackIssue, string> = {
+  medically_incorrect: 'Medically incorrect',
+  unsafe: 'Unsafe advice',
+  misunderstood: 'Misunderstood me',
+  not_relevant: 'Not relevant',
+  unclear: 'Hard to understand',
+  other: 'Other',
+};
+
+export function MessageFeedback({ onSubmit, color = '#10B981' }: MessageFeedbackProps) {
+  const [helpful, setHelpful] = useState<boolean | null>(null);
+  const [rating, setRating] = useState<number | undefined>();
+  const [wrong, setWrong] = useState(false);
+  const [issue, setIssue] = useState<FeedbackIssue | undefined>();
+  const [comments, setComments] = useState('');
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle');
+
+  if (status === 'saved') {
+    return <Text style={styles.thanks}>Thanks for your feedback</Text>;
+  }
+
+  const submit = async () => {
+    if (helpful === null) return;
+    setStatus('saving');
+    const saved = await onSubmit({
+      helpful,
+      rating,
+      accurate: !wrong,
+      issue: wrong ? issue || 'other' : undefined,
+      comments: comments.trim() || undefined,
+    });
+    setStatus(saved ? 'saved' : 'failed');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.thumb, helpful === true && { backgroundColor: `${color}20` }]}
+          onPress={() => setHelpful(true)}
+          accessibilityLabel="Helpful"
+        >
+          <ThumbsUp size={14} color={helpful === true ? color : '#9CA3AF'} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.thumb, helpful === false && { backgroundColor: '#FEE2E2' }]}
+          onPress={() => setHelpful(false)}
+          accessibilityLabel="Not helpful"
+        >
+          <ThumbsDown size={14} color={helpful === false ? '#DC2626' : '#9CA3AF'} />
+        </TouchableOpacity>
+      </View>
+
+      {helpful !== null && (
+        <View style={styles.details}>
+          <View style={styles.row}>
+            {[1, 2, 3, 4, 5].map((value) => (
+              <TouchableOpacity
+                key={value}
+                onPress={() => setRating(value)}
+                accessibilityLabel={`Rate ${value} of 5`}
+              >
+                <Star
+                  size={18}
+                  color="#F59E0B"
+                  fill={rating !== undefined && value <= rating ? '#F59E0B' : 'transparent'}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity onPress={() => setWrong(!wrong)}>
+            <Text style={[styles.wrongToggle, wrong && styles.wrongToggleActive]}>
+              {wrong ? '✓ ' : ''}This was wrong because…
+            </Text>
+          </TouchableOpacity>
+
+          {wrong && (
+            <>
+              <View style={styles.issues}>
+                {(Object.keys(ISSUE_LABELS) as FeedbackIssue[]).map((key) => (
+                  <TouchableOpacity
+                    key={key}
+                    style={[styles.issueChip, issue === key && styles.issueChipActive]}
+                    onPress={() => setIssue(key)}
+                  >
+                    <Text style={[styles.issueText, issue === key && styles.issueTextActive]}>
+                      {ISSUE_LABELS[key]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="Tell us what was wrong (optional)"
+                placeholderTextColor="#9CA3AF"
+                value={comments}
+                onChangeText={setComments}
+                multiline
+                maxLength={500}
+              />
+            </>
+          )}
+
+          <View style={styles.row}>
+            <TouchableOpacity
+              style={[styles.submit, { backgroundColor: color }]}
+              onPress={submit}
+              disabled={status === 'saving'}
+            >
+              {status === 'saving' ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitText}>Send feedback</Text>
+              )}
+            </TouchableOpacity>
+            {status === 'failed' && <Text style={styles.failed}>Couldn't save, try again</Text>}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  thumb: {
+    padding: 6,
+    borderRadius: 12,
+  },
+  details: {
+    marginTop: 4,
+    gap: 8,
+  },
+  wrongToggle: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  wrongToggleActive: {
+    color: '#DC2626',
+    fontWeight: '600',
+  },
+  issues: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  issueChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  issueChipActive: {
+    borderColor: '#DC2626',
+    backgroundColor: '#FEE2E2',
+  },
+  issueText: {
+    fontSize: 11,
+    color: '#6B7280',
+  },
+  issueTextActive: {
+    color: '#DC2626',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 13,
+    color: '#1F2937',
+    minHeight: 40,
+  },
+  submit: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+  },
+  submitText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  failed: {
+    fontSize: 12,
+    color: '#DC2626',
+  },
+  thanks: {
+    marginTop: 6,
+    fontSize: 12,
+    color: '#6B7280',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,126 @@
+/**
+ * In-memory Supabase client for tests
+ *
+ * Implements the subset of the query builder the services use: select,
+ * insert, update, upsert and delete with eq/neq/in/gte/lte/lt/gt/is/or
+ * filters, ordering, limits and ranges, plus registered RPC functions. Tests seed
+ * and inspect rows through `tables`, and can make a table fail through
+ * `failures`.
+ */
+
+type Row = Record<string, any>;
+
+export const tables: Record<string, Row[]> = {};
+export const rpcs: Record<string, (args: any) => any> = {};
+/** Tables whose writes return this error */
+export const failures: Record<string, { message: string }> = {};
+
+export function resetDatabase(): void {
+  for (const store of [tables, rpcs, failures]) {
+    for (const key of Object.keys(store)) delete (store as Record<string, unknown>)[key];
+  }
+}
+
+let nextId = 1;
+
+function query(name: string) {
+  const rows = (tables[name] = tables[name] || []);
+  const filters: ((row: Row) => boolean)[] = [];
+  let operation: 'select' | 'update' | 'delete' = 'select';
+  let payload: Row = {};
+  let order: { column: string; descending: boolean } | undefined;
+  let limit: number | undefined;
+  let offset = 0;
+
+  const matching = () => {
+    let result = rows.filter(row => filters.every(f => f(row)));
+    if (order) {
+      const { column, descending } = order;
+      result = [...result].sort((a, b) => (a[column] > b[column] ? 1 : a[column] < b[column] ? -1 : 0) * (descending ? -1 : 1));
+    }
+    return limit !== undefined ? result.slice(offset, offset + limit) : result.slice(offset);
+  };
+
+  const write = (input: Row | Row[], upsert: boolean) => {
+    if (failures[name]) return { data: null, error: failures[name] };
+    const written = (Array.isArray(input) ? input : [input]).map(row => {
+      const existing = upsert && row.id !== undefined ? rows.find(r => r.id === row.id) : undefined;
+      if (existing) return Object.assign(existing, row);
+      const created = { id: `${name}-${nextId++}`, created_at: new Date().toISOString(), ...row };
+      rows.push(created);
+      return created;
+    });
+    return { data: written, error: null };
+  };
+
+  const execute = () => {
+    if (operation !== 'select' && failures[name]) return { data: null, error: failures[name] };
+    if (operation === 'update') {
+      const updated = matching();
+      updated.forEach(row => Object.assign(row, payload));
+      return { data: updated, error: null };
+    }
+    if (operation === 'delete') {
+      const removed = matching();
+      removed.forEach(row => rows.splice(rows.indexOf(row), 1));
+      return { data: removed, error: null };
+    }
+    return { data: matching(), error: null };
+  };
+
+  let writeResult: { data: Row[] | null; error: { message: string } | null } | null = null;
+
+  const builder: any = {
+    select: () => builder,
+    eq: (column: string, value: any) => (filters.push(row => row[column] === value), builder),
+    neq: (column: string, value: any) => (filters.push(row => row[column] !== value), builder),
+    in: (column: string, values: any[]) => (filters.push(row => values.includes(row[column])), builder),
+    gte: (column: string, value: any) => (filters.push(row => row[column] >= value), builder),
+    gt: (column: string, value: any) => (filters.push(row => row[column] > value), builder),
+    lte: (column: string, value: any) => (filters.push(row => row[column] <= value), builder),
+    lt: (column: string, value: any) => (filters.push(row => row[column] < value), builder),
+    is: (column: string, value: any) => (filters.push(row => (row[column] ?? null) === value), builder),
+    not: (column: string, _operator: string, value: any) => (filters.push(row => (row[column] ?? null) !== value), builder),
+    // "status.eq.production,status.eq.shadow"
+    or: (expression: string) => {
+      const conditions = expression.split(',').map(part => part.split('.'));
+      filters.push(row => conditions.some(([column, , value]) => String(row[column]) === value));
+      return builder;
+    },
+    order: (column: string, options?: { ascending?: boolean }) => {
+      order = { column, descending: options?.ascending === false };
+      return builder;
+    },
+    limit: (count: number) => ((limit = count), builder),
+    range: (from: number, to: number) => ((offset = from), (limit = to - from + 1), builder),
+    insert: (input: Row | Row[]) => ((writeResult = write(input, false)), builder),
+    upsert: (input: Row | Row[]) => ((writeResult = write(input, true)), builder),
+    update: (changes: Row) => ((operation = 'update'), (payload = changes), builder),
+    delete: () => ((operation = 'delete'), builder),
+    single: async () => {
+      const { data, error } = writeResult ?? execute();
+      const row = data?.[0] ?? null;
+      return { data: row, error: error ?? (row ? null : { message: 'No rows found', code: 'PGRST116' }) };
+    },
+    maybeSingle: async () => {
+      const { data, error } = writeResult ?? execute();
+      return { data: data?.[0] ?? null, error };
+    },
+    then: (resolve: (value: any) => any, reject?: (reason: any) => any) =>
+      Promise.resolve(writeResult ?? execute()).then(resolve, reject),
+  };
+  return builder;
+}
+
+export const supabase = {
+  from: query,
+  rpc: async (fn: string, args?: any) => rpcs[fn]
+    ? { data: rpcs[fn](args), error: null }
+    : { data: null, error: { message: `function ${fn} does not exist` } },
+  auth: {
+    getUser: async () => ({ data: { user: null }, error: null }),
+    getSession: async () => ({ data: { session: null }, error: null }),
+  },
+};
+
+export default supabase;
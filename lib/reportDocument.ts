@@ -0,0 +1,113 @@
+/**
+ * Printable Report Documents
+ *
+ * A report is a title, a header of label/value pairs and a list of sections.
+ * It renders to a print-ready HTML page; PDFs are printed from that page
+ * (expo-print on native, the browser print dialog on web) so any script the
+ * report contains is laid out with the platform's fonts.
+ */
+
+export interface ReportTable {
+  columns: string[];
+  rows: string[][];
+  /** Relative column widths; equal when unset */
+  widths?: number[];
+}
+
+export interface ReportSection {
+  heading: string;
+  paragraphs?: string[];
+  bullets?: string[];
+  table?: ReportTable;
+  /** Emphasized box, e.g. the risk level or an urgent instruction */
+  callout?: { text: string; tone: 'info' | 'warning' | 'danger' | 'success' };
+}
+
+export interface ReportDocument {
+  title: string;
+  subtitle?: string;
+  header: [label: string, value: string][];
+  sections: ReportSection[];
+  footer: string[];
+}
+
+const CALLOUT_COLORS: Record<NonNullable<ReportSection['callout']>['tone'], { border: string; background: string }> = {
+  info: { border: '#2563eb', background: '#eff6ff' },
+  warning: { border: '#d97706', background: '#fffbeb' },
+  danger: { border: '#dc2626', background: '#fef2f2' },
+  success: { border: '#16a34a', background: '#f0fdf4' },
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render a report as a standalone, print-ready HTML page
+ */
+export function renderHtml(document: ReportDocument): string {
+  const sections = document.sections.map(section => {
+    const parts: string[] = [`<h2>${escapeHtml(section.heading)}</h2>`];
+    if (section.callout) {
+      const colors = CALLOUT_COLORS[section.callout.tone];
+      parts.push(
+        `<div class="callout" style="border-color:${colors.border};background:${colors.background}">${escapeHtml(section.callout.text)}</div>`
+      );
+    }
+    for (const paragraph of section.paragraphs || []) {
+      parts.push(`<p>${escapeHtml(paragraph)}</p>`);
+    }
+    if (section.bullets?.length) {
+      parts.push(`<ul>${section.bullets.map(b => `<li>${escapeHtml(b)}</li>`).join('')}</ul>`);
+    }
+    if (section.table) {
+      const { columns, rows } = section.table;
+      parts.push(
+        '<table>' +
+          `<thead><tr>${columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead>` +
+          `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>` +
+        '</table>'
+      );
+    }
+    return `<section>${parts.join('\n')}</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(document.title)}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2937; margin: 32px auto; max-width: 800px; padding: 0 24px; font-size: 14px; line-height: 1.5; }
+  h1 { font-size: 22px; margin: 0; }
+  .subtitle { color: #6b7280; margin: 4px 0 16px; }
+  .header { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; padding: 12px 16px; background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; }
+  .header dt { color: #6b7280; }
+  .header dd { margin: 0; font-weight: 600; }
+  h2 { font-size: 16px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 24px; }
+  .callout { border-left: 4px solid; padding: 8px 12px; border-radius: 4px; font-weight: 600; margin: 8px 0; }
+  table { width: 100%; border-collapse: collapse; margin: 8px 0; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f3f4f6; font-size: 12px; text-transform: uppercase; color: #4b5563; }
+  footer { margin-top: 32px; padding-top: 8px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 11px; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    section { break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(document.title)}</h1>
+${document.subtitle ? `<p class="subtitle">${escapeHtml(document.subtitle)}</p>` : ''}
+<dl class="header">${document.header.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+${sections.join('\n')}
+<footer>${document.footer.map(line => `<div>${escapeHtml(line)}</div>`).join('')}</footer>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,51 @@
+import { medicationReminderService } from '../medicationReminderService';
+
+jest.mock('@/lib/supabase');
+
+const { tables, rpcs, failures, resetDatabase } =
+  jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+describe('medicationReminderService.checkReminderSafety', () => {
+  beforeEach(() => {
+    resetDatabase();
+    rpcs.notify_alert_doctors = ({ p_alert_ids, p_data }) => {
+      const alerts = tables.alerts.filter(alert => p_alert_ids.includes(alert.id));
+      tables.notifications = alerts.map(alert => ({ user_id: alert.doctor_id, message: alert.message, data: p_data }));
+      return alerts.length;
+    };
+    tables.mother_profiles = [{ id: 'profile-1', user_id: 'user-1', gestational_age_weeks: 32 }];
+    tables.medication_reminders = [{ id: 'reminder-1', mother_id: 'user-1', medication_name: 'Ibuprofen', is_active: true }];
+    tables.appointments = [
+      { mother_id: 'profile-1', appointment_date: '2026-09-01', doctor: { user_id: 'doctor-old', is_available: true } },
+      { mother_id: 'profile-1', appointment_date: '2026-10-01', doctor: { user_id: 'doctor-1', is_available: true } },
+    ];
+    tables.doctor_profiles = [{ user_id: 'doctor-other', is_available: true }];
+  });
+
+  it("alerts the mother's care-team doctor under her profile id", async () => {
+    const assessment = await medicationReminderService.checkReminderSafety('user-1', 'reminder-1', 'ibuprofen');
+
+    expect(assessment?.overallRisk).toBeDefined();
+    expect(tables.alerts).toEqual([expect.objectContaining({ doctor_id: 'doctor-1', mother_id: 'profile-1' })]);
+    expect(tables.notifications).toEqual([expect.objectContaining({ user_id: 'doctor-1' })]);
+  });
+
+  it('adds the backup doctor while the care-team doctor is unavailable', async () => {
+    tables.appointments[1].doctor = { user_id: 'doctor-1', is_available: false, backup: { user_id: 'doctor-2' } };
+
+    await medicationReminderService.checkReminderSafety('user-1', 'reminder-1', 'ibuprofen');
+
+    expect(tables.alerts.map(a => a.doctor_id)).toEqual(['doctor-1', 'doctor-2']);
+  });
+
+  it('reports a failed alert and still returns the assessment', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    failures.alerts = { message: 'permission denied' };
+
+    const assessment = await medicationReminderService.checkReminderSafety('user-1', 'reminder-1', 'ibuprofen');
+
+    expect(assessment).toBeDefined();
+    expect(error).toHaveBeenCalledWith('Medication safety alert error:', failures.alerts);
+    expect(tables.notifications).toBeUndefined();
+  });
+});
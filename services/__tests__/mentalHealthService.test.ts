@@ -0,0 +1,62 @@
+import { mentalHealthService } from '../mentalHealthService';
+import type { MentalHealthCrisis } from '@/services/ai/MentalHealthScreening';
+
+jest.mock('@/lib/supabase');
+
+const { tables, rpcs, resetDatabase } =
+  jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+const crisis: MentalHealthCrisis = {
+  type: 'self_harm',
+  concerns: ['self_harm'],
+  matchedTerms: ['want to die'],
+  crisisLines: { lines: [], directory: { name: 'Find A Helpline', url: 'https://findahelpline.com' } },
+  reason: 'Self-harm described to the assistant',
+};
+
+describe('mentalHealthService.escalateCrisis', () => {
+  beforeEach(() => {
+    resetDatabase();
+    tables.mother_profiles = [{ id: 'profile-1', user_id: 'user-1', full_name: 'Ama' }];
+    tables.doctor_profiles = [{ user_id: 'doctor-other', is_available: true }];
+    rpcs.notify_alert_doctors = ({ p_alert_ids, p_data }) => {
+      const alerts = tables.alerts.filter(alert => p_alert_ids.includes(alert.id));
+      tables.notifications = alerts.map(alert => ({ user_id: alert.doctor_id, message: alert.message, data: p_data }));
+      return alerts.length;
+    };
+    rpcs.escalate_alert_to_admins = jest.fn(() => 2);
+  });
+
+  it("alerts and notifies the mother's care team", async () => {
+    tables.appointments = [
+      { mother_id: 'profile-1', appointment_date: '2026-10-01', doctor: { user_id: 'doctor-1', is_available: true } },
+    ];
+
+    expect(await mentalHealthService.escalateCrisis('user-1', crisis)).toBe(true);
+
+    expect(tables.alerts).toEqual([
+      expect.objectContaining({ doctor_id: 'doctor-1', mother_id: 'profile-1', alert_type: 'mental_health_crisis' }),
+    ]);
+    expect(tables.notifications).toEqual([
+      expect.objectContaining({ user_id: 'doctor-1', data: { crisis_type: 'self_harm', session_id: undefined } }),
+    ]);
+    expect(rpcs.escalate_alert_to_admins).not.toHaveBeenCalled();
+  });
+
+  it('escalates to the admins, not other available doctors, when she has no care team', async () => {
+    expect(await mentalHealthService.escalateCrisis('user-1', crisis)).toBe(true);
+
+    expect(tables.alerts).toBeUndefined();
+    expect(rpcs.escalate_alert_to_admins).toHaveBeenCalledWith(
+      expect.objectContaining({ p_alert_type: 'mental_health_crisis', p_severity: 'critical' })
+    );
+  });
+
+  it('reports a failed escalation', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    delete rpcs.escalate_alert_to_admins;
+
+    expect(await mentalHealthService.escalateCrisis('user-1', crisis)).toBe(false);
+    expect(error).toHaveBeenCalledWith('Error escalating mental health crisis:', expect.anything());
+  });
+});
@@ -0,0 +1,62 @@
+import { monitoringService } from '../monitoringService';
+
+jest.mock('@/lib/supabase');
+
+const { tables, rpcs, failures, resetDatabase } =
+  jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+describe('monitoringService.recordVitals', () => {
+  beforeEach(() => {
+    resetDatabase();
+    rpcs.notify_alert_doctors = ({ p_alert_ids, p_data }) => {
+      const alerts = tables.alerts.filter(alert => p_alert_ids.includes(alert.id));
+      tables.notifications = alerts.map(alert => ({ user_id: alert.doctor_id, message: alert.message, data: p_data }));
+      return alerts.length;
+    };
+    tables.appointments = [
+      { mother_id: 'profile-1', appointment_date: '2026-10-01', doctor: { user_id: 'doctor-1', is_available: true } },
+    ];
+    tables.doctor_profiles = [{ user_id: 'doctor-other', is_available: true }];
+  });
+
+  it("alerts the mother's care team, not other available doctors, on a red trigger", async () => {
+    const reading = await monitoringService.recordVitals('profile-1', { systolic_bp: 170, respiratory_rate: 16 });
+
+    expect(reading.meows_red_triggers).toBeGreaterThan(0);
+    expect(tables.alerts).toEqual([
+      expect.objectContaining({ doctor_id: 'doctor-1', mother_id: 'profile-1', alert_type: 'meows_red_trigger' }),
+    ]);
+    expect(tables.notifications).toEqual([expect.objectContaining({ user_id: 'doctor-1' })]);
+  });
+
+  it('escalates a red trigger to the admins when the mother has no care team', async () => {
+    const escalate = jest.fn(() => 2);
+    rpcs.escalate_alert_to_admins = escalate;
+
+    await monitoringService.recordVitals('profile-2', { systolic_bp: 170 });
+
+    expect(escalate).toHaveBeenCalledWith(expect.objectContaining({
+      p_alert_type: 'meows_red_trigger',
+      p_severity: 'high',
+      p_data: expect.objectContaining({ vital_sign_id: tables.vital_signs[0].id }),
+    }));
+    expect(tables.alerts).toBeUndefined();
+  });
+
+  it('does not alert on a normal reading', async () => {
+    await monitoringService.recordVitals('profile-1', { systolic_bp: 118, diastolic_bp: 76, consciousness_level: 'alert' });
+
+    expect(tables.alerts).toBeUndefined();
+  });
+
+  it('keeps the reading when the alert cannot be stored', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    failures.alerts = { message: 'permission denied' };
+
+    await monitoringService.recordVitals('profile-1', { consciousness_level: 'unresponsive' });
+
+    expect(tables.vital_signs).toHaveLength(1);
+    expect(error).toHaveBeenCalledWith('MEOWS alert error:', failures.alerts);
+    expect(tables.notifications).toBeUndefined();
+  });
+});
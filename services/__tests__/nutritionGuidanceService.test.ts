@@ -0,0 +1,29 @@
+import { nutritionGuidanceService } from '../nutritionGuidanceService';
+
+jest.mock('@/lib/supabase');
+
+const foodsIn = (text: string) =>
+  nutritionGuidanceService.findFoodsInText(text).map(food => `${food.food}: ${food.status}`);
+
+describe('nutritionGuidanceService.findFoodsInText', () => {
+  it('does not rate unpasteurized milk as safe milk', () => {
+    expect(foodsIn('Can I drink unpasteurized milk?')).toEqual(['Unpasteurized dairy: avoid']);
+    expect(foodsIn('Is unpasteurised cheddar OK?')).toEqual(['Unpasteurized dairy: avoid']);
+  });
+
+  it('still finds pasteurized milk safe', () => {
+    expect(foodsIn('Is pasteurized milk fine?')).toEqual(['Pasteurized dairy: safe']);
+  });
+
+  it('keeps separately named foods', () => {
+    expect(foodsIn('Can I have unpasteurized cheese and some yogurt?')).toEqual([
+      'Unpasteurized dairy: avoid',
+      'Pasteurized dairy: safe',
+    ]);
+  });
+
+  it('does not rate smoked salmon as safe salmon', () => {
+    expect(foodsIn('Is smoked salmon ok?')).toEqual(['Smoked fish (cold): avoid']);
+    expect(foodsIn('Is baked salmon ok?')).toEqual(['Salmon (cooked): safe']);
+  });
+});
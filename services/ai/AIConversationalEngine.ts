@@ -3,16 +3,53 @@
  * 
  * Features:
  * - Context memory management
- * - Symptom extraction
+ * - Symptom extraction with negation, experiencer, temporality and hypothetical context
  * - Intent detection
  * - Risk classification
  * - Emotional tone detection
  * - Medical entity recognition
  * - Safety filters
  * - Language behavior adaptation (simple for patients, clinical for doctors)
+ * - Multilingual lexicons and patient templates selected from the user's language
+ * - Multi-turn clinical slot filling, handing structured symptoms to the diagnostic engine
+ * - Persistent, resumable sessions with expiry and summarization of long contexts
+ * - Response rephrasing through a pluggable language model provider
+ * - Versioned models, with a candidate version replayed in shadow on live traffic
  */
 
 import { supabase } from '@/lib/supabase';
+import {
+  clinicalContextAnalyzer,
+  ContextualFinding,
+  Experiencer,
+  FindingContext,
+  Temporality,
+} from './ClinicalContextAnalyzer';
+import {
+  clinicalDialogueManager,
+  ClinicalSlot,
+  DialogueState,
+  SlotQuestion,
+} from './ClinicalDialogueManager';
+import { diagnosticEngine, DiagnosticInput, DiagnosticResult, SymptomInput, VitalHistory } from './DiagnosticReasoningEngine';
+import { loadVitalHistory, latestReading } from './TrendAnalysis';
+import { conversationSessionStore } from './ConversationSessionStore';
+import { formatModelVersion, languageModelService, ModelInfo, TEMPLATE_MODEL } from './LanguageModelProvider';
+import { modelVersionRegistry, ResolvedModelVersion } from './ModelVersionRegistry';
+import { knowledgeBase, LearnedEducationAnswer } from './KnowledgeBase';
+import { shadowModeEvaluator } from './ShadowModeEvaluator';
+import { mentalHealthScreening, MentalHealthCrisis, MentalHealthScreeningResult } from './MentalHealthScreening';
+import {
+  DEFAULT_LANGUAGE,
+  findLearnedAnswer,
+  getLexicon,
+  getLexiconChain,
+  getNegationRules,
+  LexiconPack,
+  normalizeLanguage,
+  SupportedLanguage,
+  withLearnedPatterns,
+} from './lexicons';
 
 // Types
 export type UserRole = 'mother' | 'doctor' | 'admin';
@@ -40,6 +77,13 @@ export interface ConversationContext {
   emotionalTone: EmotionalTone;
   pregnancyWeek?: number;
   riskFactors: string[];
+  language: SupportedLanguage;
+  dialogue: DialogueState;
+  /** Running summary of messages dropped from a long context */
+  summary?: string;
+  /** Messages exchanged over the whole session, including summarized ones */
+  messageCount: number;
+  highestRiskLevel?: RiskLevel;
   lastUpdated: Date;
 }
 
@@ -52,6 +96,7 @@ export interface ConversationMessage {
     intent?: Intent;
     entities?: MedicalEntity[];
     riskLevel?: RiskLevel;
+    symptoms?: string[];
   };
 }
 
@@ -62,6 +107,11 @@ export interface ExtractedSymptom {
   frequency?: string;
   associatedSymptoms?: string[];
   bodyLocation?: string;
+  negated: boolean;
+  experiencer: Experiencer;
+  temporality: Temporality;
+  hypothetical: boolean;
+  contextCues?: string[];
 }
 
 export interface MedicalEntity {
@@ -84,6 +134,36 @@ export interface AIResponse {
   confidence: number;
   disclaimer: string;
   reasoning: ReasoningTrace;
+  /** Session the response belongs to; a new one when the requested session could not be resumed */
+  sessionId: string;
+  language: SupportedLanguage;
+  /** Set while follow-up questions are being asked */
+  followUp?: FollowUpState;
+  /** Set when completed follow-up was assessed by the diagnostic engine */
+  structuredSymptoms?: SymptomInput[];
+  diagnosticResult?: DiagnosticResult;
+  /** Input the diagnostic result was produced from */
+  diagnosticInput?: DiagnosticInput;
+  /** Provider and model that produced the message; templates when unset */
+  generatedBy?: ModelInfo;
+  /** Model version that produced the response */
+  modelVersion?: string;
+  /** Set when the mother described a mental health crisis; escalated apart from obstetric emergencies */
+  mentalHealthCrisis?: MentalHealthCrisis;
+}
+
+export interface ProcessOptions {
+  /** Store the exchange in the session store and learning log (default true) */
+  persist?: boolean;
+  /** Model version to run instead of production */
+  modelVersion?: ResolvedModelVersion;
+}
+
+export interface FollowUpState {
+  symptom: string;
+  slot: ClinicalSlot;
+  filledSlots: ClinicalSlot[];
+  missingSlots: ClinicalSlot[];
 }
 
 export interface ReasoningTrace {
@@ -93,60 +173,16 @@ export interface ReasoningTrace {
   alternativeInterpretations?: string[];
 }
 
-// Safety keywords that require immediate escalation
-const EMERGENCY_KEYWORDS = [
-  'severe bleeding', 'heavy bleeding', 'hemorrhage',
-  'seizure', 'convulsion', 'fit',
-  'unconscious', 'fainted', 'passed out',
-  'can\'t breathe', 'difficulty breathing', 'shortness of breath',
-  'severe headache', 'worst headache',
-  'vision problems', 'seeing spots', 'blurred vision',
-  'severe abdominal pain', 'intense pain',
-  'no fetal movement', 'baby not moving', 'reduced movement',
-  'water broke', 'waters breaking', 'leaking fluid',
-  'contractions', 'labor pains',
-  'swelling face', 'swelling hands',
-  'high blood pressure', 'bp high',
-  'chest pain', 'heart palpitations'
-];
-
-// Symptom patterns for extraction
-const SYMPTOM_PATTERNS: { pattern: RegExp; symptom: string; severity: ExtractedSymptom['severity'] }[] = [
-  { pattern: /severe\s+(headache|pain|bleeding)/i, symptom: '$1', severity: 'severe' },
-  { pattern: /mild\s+(headache|nausea|cramping)/i, symptom: '$1', severity: 'mild' },
-  { pattern: /(nausea|vomiting|dizziness)/i, symptom: '$1', severity: 'moderate' },
-  { pattern: /\b(bleeding|spotting)\b/i, symptom: 'bleeding', severity: 'moderate' },
-  { pattern: /\b(swelling|edema)\b/i, symptom: 'swelling', severity: 'moderate' },
-  { pattern: /\b(fever|temperature)\b/i, symptom: 'fever', severity: 'moderate' },
-  { pattern: /\b(fatigue|tired|exhausted)\b/i, symptom: 'fatigue', severity: 'mild' },
-  { pattern: /\b(back pain|backache)\b/i, symptom: 'back pain', severity: 'moderate' },
-  { pattern: /\b(cramping|cramps)\b/i, symptom: 'cramping', severity: 'moderate' },
-  { pattern: /\b(discharge)\b/i, symptom: 'vaginal discharge', severity: 'mild' },
-];
-
-// Intent classification patterns
-const INTENT_PATTERNS: { pattern: RegExp; intent: Intent }[] = [
-  { pattern: /\b(pain|hurt|ache|bleeding|discharge|symptom|feel sick|unwell)\b/i, intent: 'symptom_report' },
-  { pattern: /\b(emergency|urgent|help|serious|dangerous)\b/i, intent: 'emergency' },
-  { pattern: /\b(appointment|schedule|book|see doctor|visit)\b/i, intent: 'appointment' },
-  { pattern: /\b(medication|medicine|drug|prescription|pill|tablet)\b/i, intent: 'medication' },
-  { pattern: /\b(eat|food|diet|nutrition|vitamin|supplement)\b/i, intent: 'nutrition' },
-  { pattern: /\b(worried|anxious|scared|stressed|emotional|crying)\b/i, intent: 'emotional_support' },
-  { pattern: /\b(what|how|why|when|can I|should I|is it normal)\b/i, intent: 'question' },
-  { pattern: /\b(learn|information|article|read about|tell me about)\b/i, intent: 'education' },
-];
-
-// Emotional tone patterns
-const EMOTIONAL_PATTERNS: { pattern: RegExp; tone: EmotionalTone }[] = [
-  { pattern: /\b(help|emergency|urgent|now|immediately)\b/i, tone: 'urgent' },
-  { pattern: /\b(worried|anxious|nervous|scared|afraid|fear)\b/i, tone: 'anxious' },
-  { pattern: /\b(terrified|panic|desperate|can't cope|overwhelmed)\b/i, tone: 'distressed' },
-  { pattern: /\b(fine|okay|good|normal|curious)\b/i, tone: 'calm' },
-];
+export interface EmergencyFinding extends ContextualFinding {
+  /** Canonical English name of the matched emergency term */
+  canonical: string;
+}
+
+// Requests that pause follow-up questions instead of being read as an answer
+const DIGRESSION_INTENTS: Intent[] = ['appointment', 'medication', 'nutrition', 'education', 'emotional_support'];
 
 class AIConversationalEngine {
   private contexts: Map<string, ConversationContext> = new Map();
-  private modelVersion = 'maternal-ai-v1.0';
 
   /**
    * Initialize or retrieve conversation context
@@ -157,15 +193,24 @@ class AIConversationalEngine {
     userRole: UserRole,
     pregnancyWeek?: number
   ): Promise<ConversationContext> {
-    if (this.contexts.has(sessionId)) {
-      return this.contexts.get(sessionId)!;
+    const cached = this.contexts.get(sessionId);
+    if (cached && cached.userId === userId && !conversationSessionStore.isExpired(cached.lastUpdated)) {
+      return cached;
     }
+    this.contexts.delete(sessionId);
+
+    // Resume from storage when the session belongs to this user and is still active
+    const stored = cached ? null : await conversationSessionStore.load(sessionId);
+    const resumable = stored && stored.userId === userId && stored.status === 'active' ? stored : null;
+    // An expired, closed or foreign session id is never reused
+    const id = (cached || stored) && !resumable ? conversationSessionStore.createSessionId() : sessionId;
 
-    // Load risk factors from database
+    // Load risk factors and language from database
     const riskFactors = await this.loadRiskFactors(userId, userRole);
+    const language = await this.loadLanguage(userId, userRole);
 
     const context: ConversationContext = {
-      sessionId,
+      sessionId: id,
       userId,
       userRole,
       messages: [],
@@ -174,13 +219,43 @@ class AIConversationalEngine {
       emotionalTone: 'neutral',
       pregnancyWeek,
       riskFactors,
+      language,
+      dialogue: clinicalDialogueManager.createState(),
+      messageCount: 0,
       lastUpdated: new Date(),
     };
 
-    this.contexts.set(sessionId, context);
+    if (resumable) {
+      // Profile-derived risk factors stay current; the conversation state is restored
+      const restored = conversationSessionStore.restoreContext(resumable);
+      Object.assign(context, restored, { riskFactors, pregnancyWeek: pregnancyWeek ?? restored.pregnancyWeek });
+    }
+
+    this.contexts.set(id, context);
     return context;
   }
 
+  /**
+   * Id to continue a conversation with: the requested session when it can be
+   * resumed by this user, otherwise a new one
+   */
+  async resolveSessionId(userId: string, sessionId?: string): Promise<string> {
+    if (!sessionId) return conversationSessionStore.createSessionId();
+
+    const cached = this.contexts.get(sessionId);
+    if (cached) {
+      return cached.userId === userId && !conversationSessionStore.isExpired(cached.lastUpdated)
+        ? sessionId
+        : conversationSessionStore.createSessionId();
+    }
+
+    const stored = await conversationSessionStore.load(sessionId);
+    if (stored && (stored.userId !== userId || stored.status !== 'active')) {
+      return conversationSessionStore.createSessionId();
+    }
+    return sessionId;
+  }
+
   /**
    * Load user's risk factors from database
    */
@@ -210,6 +285,34 @@ class AIConversationalEngine {
     }
   }
 
+  /**
+   * Load the user's language: explicit preference first, then the mother's profile
+   */
+  private async loadLanguage(userId: string, userRole: UserRole): Promise<SupportedLanguage> {
+    try {
+      const { data: preference } = await (supabase as any)
+        .from('language_preferences')
+        .select('preferred_language')
+        .eq('user_id', userId)
+        .single();
+      if (preference?.preferred_language) {
+        return normalizeLanguage(preference.preferred_language);
+      }
+
+      if (userRole === 'mother') {
+        const { data: profile } = await (supabase as any)
+          .from('mother_profiles')
+          .select('language')
+          .eq('user_id', userId)
+          .single();
+        return normalizeLanguage(profile?.language);
+      }
+    } catch {
+      // Fall back to English
+    }
+    return DEFAULT_LANGUAGE;
+  }
+
   /**
    * Process user message and generate AI response
    */
@@ -218,21 +321,86 @@ class AIConversationalEngine {
     userId: string,
     userRole: UserRole,
     message: string,
-    pregnancyWeek?: number
+    pregnancyWeek?: number,
+    options: ProcessOptions = {}
   ): Promise<AIResponse> {
+    const persist = options.persist !== false;
     const context = await this.getOrCreateContext(sessionId, userId, userRole, pregnancyWeek);
-    const startTime = Date.now();
+    const model = options.modelVersion || await modelVersionRegistry.getProductionVersion();
+
+    // Live traffic is replayed with the shadow candidate from the same starting state
+    const shadow = persist && !options.modelVersion ? await modelVersionRegistry.getShadowVersion() : null;
+    const shadowContext = shadow ? this.cloneContext(context) : null;
+
+    const response = await this.processTurn(context, message, model, persist);
 
-    // Safety check first
-    const emergencyCheck = this.checkForEmergency(message);
-    if (emergencyCheck.isEmergency) {
-      return this.generateEmergencyResponse(emergencyCheck.keywords, userRole, context);
+    if (shadow && shadowContext) {
+      // Not awaited: the candidate never delays or changes the reply
+      void this.runShadow(shadowContext, message, shadow, response);
+    }
+    return response;
+  }
+
+  /**
+   * Run one turn on a context with the given model version
+   */
+  private async processTurn(
+    context: ConversationContext,
+    message: string,
+    model: ResolvedModelVersion,
+    persist: boolean
+  ): Promise<AIResponse> {
+    const userRole = context.userRole;
+    const startTime = Date.now();
+    const knowledge = model.knowledgePack || await knowledgeBase.getActivePack();
+    const lexicons = withLearnedPatterns(getLexiconChain(context.language), knowledge);
+    // Phone keyboards often type curly apostrophes ("n’ai"); same length, so offsets are preserved
+    const text = message.replace(/[\u2018\u2019]/g, "'");
+
+    // Safety checks first; a mental health crisis has its own escalation path
+    const screening = userRole === 'mother' ? mentalHealthScreening.screen(text) : undefined;
+    const crisis = screening && mentalHealthScreening.toCrisis(
+      screening,
+      mentalHealthScreening.getCrisisLines(undefined, context.language)
+    );
+    const emergencyCheck = this.checkForEmergency(text, lexicons);
+    const confirmed = this.confirmedEmergency(context, text, lexicons);
+    const emergencyFindings = emergencyCheck.isEmergency ? emergencyCheck.findings : confirmed;
+    if (emergencyFindings.length > 0) {
+      clinicalDialogueManager.reset(context.dialogue);
+      this.addUserMessage(context, message, { intent: 'emergency', symptoms: this.unique(emergencyFindings.map(f => f.canonical)) });
+      const emergency = this.generateEmergencyResponse(emergencyFindings, userRole, context);
+      if (crisis) {
+        emergency.message = `${emergency.message}\n\n${mentalHealthScreening.crisisMessage(crisis)}`;
+        emergency.mentalHealthCrisis = crisis;
+      }
+      emergency.modelVersion = model.version;
+      await this.recordTurn(context, message, emergency, persist);
+      return emergency;
+    }
+    if (crisis) {
+      clinicalDialogueManager.reset(context.dialogue);
+      this.addUserMessage(context, message, { intent: 'emotional_support' });
+      const response = this.generateMentalHealthCrisisResponse(crisis, context);
+      response.modelVersion = model.version;
+      await this.recordTurn(context, message, response, persist);
+      return response;
+    }
+    // Emergency terms read as negated, past, hypothetical or someone else's are confirmed, never dropped
+    if (emergencyCheck.excluded.length > 0 && userRole === 'mother') {
+      clinicalDialogueManager.reset(context.dialogue);
+      context.dialogue.emergencyCheck = emergencyCheck.excluded.map(({ term, canonical }) => ({ term, canonical }));
+      this.addUserMessage(context, message, { intent: 'symptom_report' });
+      const response = this.generateEmergencyConfirmResponse(emergencyCheck.excluded, context);
+      response.modelVersion = model.version;
+      await this.recordTurn(context, message, response, persist);
+      return response;
     }
 
     // Extract information from message
-    const intent = this.detectIntent(message);
-    const emotionalTone = this.detectEmotionalTone(message);
-    const symptoms = this.extractSymptoms(message);
+    const intent = this.detectIntent(text, lexicons);
+    const emotionalTone = this.detectEmotionalTone(text, lexicons);
+    const symptoms = this.extractSymptoms(text, lexicons);
     const entities = this.extractMedicalEntities(message);
 
     // Update context
@@ -242,68 +410,276 @@ class AIConversationalEngine {
     context.lastUpdated = new Date();
 
     // Add user message to context
+    this.addUserMessage(context, message, {
+      intent,
+      entities,
+      symptoms: symptoms.filter(s => this.isAffirmed(s)).map(s => s.name),
+    });
+
+    // Follow up until the clinical slots of reported symptoms are filled
+    const dialogue = userRole === 'mother'
+      ? this.advanceDialogue(context, text, intent, symptoms, lexicons)
+      : null;
+
+    // Generate response based on dialogue state or intent
+    let response: AIResponse;
+    let keepWording = false;
+    if (dialogue?.question) {
+      response = this.generateFollowUpResponse(context, dialogue.question, symptoms, entities);
+    } else if (dialogue?.complete) {
+      response = await this.generateAssessmentResponse(context, symptoms, entities, model);
+    } else if (screening?.level === 'concern') {
+      response = this.generateMentalHealthSupportResponse(screening, context);
+      keepWording = true;
+    } else {
+      const learnedAnswer = intent === 'education' || intent === 'question'
+        ? findLearnedAnswer(text, lexicons, knowledge)
+        : undefined;
+      response = await this.generateResponse(context, intent, symptoms, entities, userRole, learnedAnswer);
+    }
+
+    // Escalations, follow-up questions and support lines keep their exact template wording
+    if (!response.requiresEscalation && !response.followUp && !keepWording) {
+      await this.rephrase(context, message, response, model);
+    }
+    response.modelVersion = model.version;
+
+    await this.recordTurn(context, message, response, persist);
+
+    const processingTime = Date.now() - startTime;
+    console.log(`AI processing time: ${processingTime}ms`);
+
+    return response;
+  }
+
+  /**
+   * Rephrase the reply through the active language model provider; the
+   * Safety Agent reviews its output and the template is kept on failure
+   */
+  private async rephrase(
+    context: ConversationContext,
+    message: string,
+    response: AIResponse,
+    model: ResolvedModelVersion
+  ): Promise<void> {
+    const generated = await languageModelService.complete({
+      task: 'rephrase',
+      draft: response.message,
+      message,
+      userRole: context.userRole,
+      language: context.language,
+      intent: response.intent,
+      riskLevel: response.riskLevel,
+      // The current message is the last one in the context
+      history: context.messages.slice(0, -1).map(m => ({ role: m.role, content: m.content })),
+      summary: context.summary,
+    }, { provider: model.components.languageModelProvider });
+
+    response.message = generated.text;
+    response.generatedBy = generated.generatedBy;
+    response.reasoning.steps.push(
+      generated.fallback
+        ? 'Language model unavailable; template response used'
+        : `Response generated by ${formatModelVersion(generated.generatedBy)} in ${generated.latencyMs}ms`,
+      generated.safety.approved
+        ? 'Passed safety review'
+        : `Modified for safety: ${generated.safety.issues.join(', ')}`
+    );
+  }
+
+  /**
+   * Replay a turn with the shadow candidate and log how it compares with the
+   * production reply. Nothing is persisted and the user never sees it.
+   */
+  private async runShadow(
+    context: ConversationContext,
+    message: string,
+    candidate: ResolvedModelVersion,
+    production: AIResponse
+  ): Promise<void> {
+    const startTime = Date.now();
+    try {
+      const response = await this.processTurn(context, message, candidate, false);
+      await shadowModeEvaluator.record(context, production, response, Date.now() - startTime);
+    } catch (error) {
+      await shadowModeEvaluator.recordFailure(context, production, candidate.version, error);
+    }
+  }
+
+  private cloneContext(context: ConversationContext): ConversationContext {
+    return {
+      ...context,
+      messages: context.messages.map(m => ({ ...m, metadata: m.metadata && { ...m.metadata } })),
+      extractedSymptoms: context.extractedSymptoms.map(s => ({ ...s })),
+      riskFactors: [...context.riskFactors],
+      dialogue: JSON.parse(JSON.stringify(context.dialogue)),
+    };
+  }
+
+  private addUserMessage(
+    context: ConversationContext,
+    message: string,
+    metadata: ConversationMessage['metadata']
+  ): void {
     context.messages.push({
       id: crypto.randomUUID ? crypto.randomUUID() : `msg_${Date.now()}`,
       role: 'user',
       content: message,
       timestamp: new Date(),
-      metadata: { intent, entities },
+      metadata,
     });
+  }
 
-    // Generate response based on intent
-    const response = await this.generateResponse(context, intent, symptoms, entities, userRole);
-
-    // Add assistant message to context
+  /**
+   * Add the assistant reply to the context and persist the exchange
+   */
+  private async recordTurn(
+    context: ConversationContext,
+    message: string,
+    response: AIResponse,
+    persist: boolean
+  ): Promise<void> {
     context.messages.push({
       id: crypto.randomUUID ? crypto.randomUUID() : `msg_${Date.now()}_resp`,
       role: 'assistant',
       content: response.message,
       timestamp: new Date(),
-      metadata: { riskLevel: response.riskLevel },
+      metadata: { intent: response.intent, riskLevel: response.riskLevel },
     });
+    context.messageCount += 2;
+    context.highestRiskLevel = conversationSessionStore.higherRisk(context.highestRiskLevel, response.riskLevel);
+    context.lastUpdated = new Date();
+
+    conversationSessionStore.summarizeContext(context);
+    if (!persist) return;
+    await conversationSessionStore.saveTurn(context, response);
 
     // Store conversation for learning (anonymized)
     await this.storeConversation(context, message, response);
+  }
 
-    const processingTime = Date.now() - startTime;
-    console.log(`AI processing time: ${processingTime}ms`);
+  /**
+   * Advance slot filling: read the message as the answer to the pending
+   * question, open frames for newly reported symptoms and pick the next
+   * question. Returns null when there is nothing to follow up.
+   */
+  private advanceDialogue(
+    context: ConversationContext,
+    message: string,
+    intent: Intent,
+    symptoms: ExtractedSymptom[],
+    lexicons: LexiconPack[]
+  ): { question?: SlotQuestion; complete: boolean } | null {
+    const state = context.dialogue;
+
+    if (clinicalDialogueManager.isActive(state)) {
+      // "What can I eat?" mid-dialogue is answered; the question stays pending
+      const isAnswer = clinicalDialogueManager.canAnswer(state, message, lexicons);
+      if (!isAnswer && symptoms.length === 0 && DIGRESSION_INTENTS.includes(intent)) {
+        return null;
+      }
+      clinicalDialogueManager.answerPending(state, message, lexicons);
+    }
 
-    return response;
+    clinicalDialogueManager.openFrames(state, symptoms.filter(s => this.isAffirmed(s)));
+    if (!clinicalDialogueManager.isActive(state)) return null;
+    clinicalDialogueManager.fillFromMessage(state, message);
+
+    const question = clinicalDialogueManager.nextQuestion(state);
+    return question ? { question, complete: false } : { complete: true };
   }
 
   /**
-   * Check for emergency keywords
+   * Check for emergency keywords in every lexicon of the chain, and for a
+   * blood pressure reading in the severe range. Only affirmed, current,
+   * first-person mentions escalate; "no bleeding today", "hakuna damu nyingi"
+   * or "my sister had a seizure" are returned as excluded so the mother can
+   * be asked to confirm.
    */
-  private checkForEmergency(message: string): { isEmergency: boolean; keywords: string[] } {
-    const lowerMessage = message.toLowerCase();
-    const foundKeywords = EMERGENCY_KEYWORDS.filter(keyword => 
-      lowerMessage.includes(keyword.toLowerCase())
-    );
+  private checkForEmergency(message: string, lexicons: LexiconPack[]): {
+    isEmergency: boolean;
+    keywords: string[];
+    findings: EmergencyFinding[];
+    excluded: EmergencyFinding[];
+  } {
+    const findings: EmergencyFinding[] = [];
+    const excluded: EmergencyFinding[] = [];
+
+    for (const lexicon of lexicons) {
+      const rules = getNegationRules(lexicon);
+      for (const { term, canonical } of lexicon.emergencyKeywords) {
+        const mentions = clinicalContextAnalyzer.analyzeTerm(message, term, rules);
+        const actionable = mentions.find(m => clinicalContextAnalyzer.isActionable(m.context));
+        if (actionable) {
+          findings.push({ ...actionable, canonical });
+        } else if (mentions.length > 0) {
+          excluded.push({ ...mentions[0], canonical });
+        }
+      }
+    }
+
+    const reading = clinicalDialogueManager.findBloodPressure(message);
+    if (reading && clinicalDialogueManager.isSevereBloodPressure(reading)) {
+      const finding: EmergencyFinding = {
+        term: message.slice(reading.start, reading.end),
+        start: reading.start,
+        end: reading.end,
+        canonical: 'severe high blood pressure',
+        context: clinicalContextAnalyzer.analyze(message, reading.start, reading.end, getNegationRules(lexicons[0])),
+      };
+      (clinicalContextAnalyzer.isActionable(finding.context) ? findings : excluded).push(finding);
+    }
+
     return {
-      isEmergency: foundKeywords.length > 0,
-      keywords: foundKeywords,
+      isEmergency: findings.length > 0,
+      keywords: this.unique(findings.map(f => f.canonical)),
+      findings,
+      excluded,
     };
   }
 
+  /**
+   * Emergency terms the mother confirmed in answer to a confirmation
+   * question; the question is cleared by any reply
+   */
+  private confirmedEmergency(context: ConversationContext, message: string, lexicons: LexiconPack[]): EmergencyFinding[] {
+    const pending = context.dialogue.emergencyCheck;
+    if (!pending) return [];
+    context.dialogue.emergencyCheck = undefined;
+    if (!clinicalDialogueManager.confirmsEmergency(message, lexicons)) return [];
+
+    return pending.map(({ term, canonical }) => ({
+      term,
+      canonical,
+      start: 0,
+      end: 0,
+      context: {
+        negated: false,
+        experiencer: 'patient' as const,
+        temporality: 'current' as const,
+        hypothetical: false,
+        cues: ['confirmed in answer to follow-up'],
+      },
+    }));
+  }
+
+  private unique(values: string[]): string[] {
+    return Array.from(new Set(values));
+  }
+
   /**
    * Generate emergency response
    */
   private generateEmergencyResponse(
-    keywords: string[],
+    findings: EmergencyFinding[],
     userRole: UserRole,
     context: ConversationContext
   ): AIResponse {
-    const patientMessage = `🚨 I've detected potential emergency symptoms: ${keywords.join(', ')}. 
-    
-Please take these immediate steps:
-1. Stay calm and sit or lie down in a safe position
-2. If you're alone, call someone to be with you
-3. Contact your healthcare provider immediately
-4. If symptoms are severe, call emergency services (911)
-
-Do NOT wait to see if symptoms improve. Your safety and your baby's safety are the priority.
-
-Is someone with you right now?`;
+    // Clinical text uses canonical English names; the patient sees the words they used
+    const keywords = this.unique(findings.map(f => f.canonical));
+    const reported = this.unique(findings.map(f => f.term));
+    const templates = getLexicon(userRole === 'mother' ? context.language : DEFAULT_LANGUAGE).templates;
+    const patientMessage = templates.emergency(reported.join(', '));
 
     const clinicalMessage = `EMERGENCY ALERT: Patient reported ${keywords.join(', ')}. 
 Pregnancy week: ${context.pregnancyWeek || 'Unknown'}
@@ -315,40 +691,305 @@ Immediate clinical assessment required.`;
       clinicalMessage: userRole === 'doctor' ? clinicalMessage : undefined,
       intent: 'emergency',
       riskLevel: 'level_4',
-      extractedSymptoms: keywords.map(k => ({ name: k, severity: 'critical' as const })),
+      extractedSymptoms: keywords.map(name => {
+        const { context: finding } = findings.find(f => f.canonical === name)!;
+        return {
+          name,
+          severity: 'critical' as const,
+          negated: finding.negated,
+          experiencer: finding.experiencer,
+          temporality: finding.temporality,
+          hypothetical: finding.hypothetical,
+          contextCues: finding.cues,
+        };
+      }),
       entities: keywords.map(k => ({ type: 'symptom' as const, value: k, confidence: 0.95 })),
-      recommendations: [
-        'Seek immediate medical attention',
-        'Call emergency services if symptoms are severe',
-        'Do not drive yourself to the hospital',
-        'Have someone stay with you',
-      ],
+      recommendations: templates.emergencyRecommendations,
       requiresEscalation: true,
       escalationReason: `Emergency symptoms detected: ${keywords.join(', ')}`,
       confidence: 0.95,
-      disclaimer: 'This is an AI-assisted assessment. In case of emergency, always contact emergency services immediately.',
+      disclaimer: templates.emergencyDisclaimer,
       reasoning: {
         steps: [
           'Detected high-priority emergency keywords in message',
-          'Matched against known emergency symptom patterns',
+          `Matched against known emergency symptom patterns (language: ${context.language})`,
+          'Confirmed findings are affirmed, current and about the patient',
           'Triggered immediate escalation protocol',
         ],
-        featuresConsidered: ['keyword_matching', 'severity_indicators', 'pregnancy_context'],
+        featuresConsidered: ['keyword_matching', 'negation_context', 'severity_indicators', 'pregnancy_context'],
         confidenceFactors: [
           { factor: 'keyword_match', weight: 0.9 },
           { factor: 'context_severity', weight: 0.85 },
         ],
       },
+      sessionId: context.sessionId,
+      language: context.language,
+    };
+  }
+
+  /**
+   * Ask whether emergency terms the mother mentioned are happening to her now
+   */
+  private generateEmergencyConfirmResponse(excluded: EmergencyFinding[], context: ConversationContext): AIResponse {
+    const templates = getLexicon(context.language).templates;
+    const findings = excluded.filter((f, i) => excluded.findIndex(e => e.canonical === f.canonical) === i);
+
+    return {
+      message: templates.emergencyConfirm(this.unique(findings.map(f => f.term)).join(', ')),
+      intent: 'symptom_report',
+      // Not an affirmed emergency, but never routine until she has answered
+      riskLevel: 'level_2',
+      extractedSymptoms: findings.map(({ canonical, context: finding }) => ({
+        name: canonical,
+        severity: 'critical' as const,
+        negated: finding.negated,
+        experiencer: finding.experiencer,
+        temporality: finding.temporality,
+        hypothetical: finding.hypothetical,
+        contextCues: finding.cues,
+      })),
+      entities: [],
+      recommendations: templates.emergencyRecommendations,
+      requiresEscalation: false,
+      confidence: 0.6,
+      disclaimer: templates.emergencyDisclaimer,
+      reasoning: {
+        steps: [
+          ...findings.map(f => `Emergency term "${f.canonical}" read as ${clinicalContextAnalyzer.describe(f.context)}`),
+          'Asked the mother to confirm rather than dropping the emergency terms',
+        ],
+        featuresConsidered: ['keyword_matching', 'negation_context', 'experiencer', 'temporality'],
+        confidenceFactors: [{ factor: 'context_uncertainty', weight: 0.6 }],
+      },
+      sessionId: context.sessionId,
+      language: context.language,
+    };
+  }
+
+  /**
+   * Generate mental health crisis response with local crisis lines
+   */
+  private generateMentalHealthCrisisResponse(crisis: MentalHealthCrisis, context: ConversationContext): AIResponse {
+    const templates = getLexicon(context.language).templates;
+
+    return {
+      message: mentalHealthScreening.crisisMessage(crisis),
+      intent: 'emotional_support',
+      riskLevel: 'level_4',
+      extractedSymptoms: [],
+      entities: [],
+      recommendations: templates.emotionalRecommendations,
+      requiresEscalation: true,
+      escalationReason: crisis.reason,
+      confidence: 0.95,
+      disclaimer: templates.emergencyDisclaimer,
+      reasoning: {
+        steps: [
+          `Screened message for perinatal mental health concerns: ${crisis.concerns.join(', ')}`,
+          'Found current thoughts of harm that were not negated',
+          `Listed crisis lines for ${crisis.crisisLines.regionName || 'an unknown region'}`,
+          'Triggered mental health crisis escalation',
+        ],
+        featuresConsidered: ['keyword_matching', 'negation_context', 'temporality'],
+        confidenceFactors: [
+          { factor: 'keyword_match', weight: 0.9 },
+          { factor: 'negation_context', weight: 0.8 },
+        ],
+      },
+      sessionId: context.sessionId,
+      language: context.language,
+      mentalHealthCrisis: crisis,
+    };
+  }
+
+  /**
+   * Support for signs of perinatal depression or anxiety
+   */
+  private generateMentalHealthSupportResponse(
+    screening: MentalHealthScreeningResult,
+    context: ConversationContext
+  ): AIResponse {
+    const templates = getLexicon(context.language).templates;
+
+    return {
+      message: mentalHealthScreening.supportMessage(
+        screening.concerns,
+        mentalHealthScreening.getCrisisLines(undefined, context.language)
+      ),
+      intent: 'emotional_support',
+      riskLevel: 'level_2',
+      extractedSymptoms: [],
+      entities: [],
+      recommendations: templates.emotionalRecommendations,
+      requiresEscalation: false,
+      confidence: 0.85,
+      disclaimer: templates.disclaimer,
+      reasoning: {
+        steps: [
+          `Screened message for perinatal mental health concerns: ${screening.concerns.join(', ')}`,
+          'No thoughts of harm found',
+          'Recommended discussing mood with the care team and listed support lines',
+        ],
+        featuresConsidered: ['keyword_matching', 'negation_context'],
+        confidenceFactors: [{ factor: 'keyword_match', weight: 0.85 }],
+      },
+      sessionId: context.sessionId,
+      language: context.language,
+    };
+  }
+
+  /**
+   * Ask the next follow-up question. Risk and escalation reflect what has been
+   * reported so far, so follow-up never delays escalation.
+   */
+  private generateFollowUpResponse(
+    context: ConversationContext,
+    question: SlotQuestion,
+    symptoms: ExtractedSymptom[],
+    entities: MedicalEntity[]
+  ): AIResponse {
+    const templates = getLexicon(context.language).templates;
+    const { frame, slot, retry } = question;
+    const reported = clinicalDialogueManager.toDiagnosticInput(context.dialogue).symptoms;
+    const riskLevel = this.calculateRiskLevel(reported, context);
+    const requiresEscalation = riskLevel === 'level_3' || riskLevel === 'level_4';
+    const filledSlots = clinicalDialogueManager.getFilledSlots(frame);
+    const missingSlots = clinicalDialogueManager.getMissingSlots(frame);
+
+    return {
+      message: `${retry ? `${templates.slotRetry} ` : ''}${templates.slotQuestions[slot](frame.symptom)}`,
+      intent: 'symptom_report',
+      riskLevel,
+      extractedSymptoms: symptoms,
+      entities,
+      recommendations: [],
+      requiresEscalation,
+      escalationReason: requiresEscalation
+        ? `Risk level ${riskLevel} detected with symptoms: ${reported.map(s => s.name).join(', ')}`
+        : undefined,
+      confidence: 0.7,
+      disclaimer: templates.disclaimer,
+      reasoning: {
+        steps: [
+          ...context.dialogue.frames.map(f => `Clinical slots so far: ${clinicalDialogueManager.describe(f)}`),
+          `Asking for ${slot} of ${frame.symptom}${retry ? ' again (previous answer not understood)' : ''}`,
+          `Interim risk level: ${riskLevel}`,
+        ],
+        featuresConsidered: ['message_content', 'conversation_history', 'clinical_slots', 'risk_factors'],
+        confidenceFactors: [
+          { factor: 'slot_completeness', weight: filledSlots.length / frame.requiredSlots.length },
+        ],
+      },
+      followUp: { symptom: frame.symptom, slot, filledSlots, missingSlots },
+      sessionId: context.sessionId,
+      language: context.language,
     };
   }
 
+  /**
+   * Follow-up is complete: assess the structured symptoms and reported blood
+   * pressure with the diagnostic engine instead of keyword severity
+   */
+  private async generateAssessmentResponse(
+    context: ConversationContext,
+    symptoms: ExtractedSymptom[],
+    entities: MedicalEntity[],
+    model: ResolvedModelVersion
+  ): Promise<AIResponse> {
+    const state = context.dialogue;
+    const structured = clinicalDialogueManager.toDiagnosticInput(state);
+    const slotSummary = state.frames.map(f => clinicalDialogueManager.describe(f));
+    clinicalDialogueManager.reset(state);
+
+    const history = await this.loadHistory(context.userId);
+    const week = context.pregnancyWeek;
+    const diagnosticInput: DiagnosticInput = {
+      symptoms: structured.symptoms,
+      pregnancyStage: {
+        weeksGestation: week || 20,
+        trimester: week ? (week <= 12 ? 1 : week <= 27 ? 2 : 3) : 2,
+      },
+      medicalHistory: { conditions: [], medications: [], allergies: [] },
+      riskFactors: context.riskFactors,
+      // A reading the mother just gave takes precedence over the last recorded one
+      vitalSigns: { ...latestReading(history), ...structured.vitalSigns },
+      history,
+    };
+    const diagnostic = await diagnosticEngine.analyze(diagnosticInput, {
+      knowledgePack: model.knowledgePack,
+      modelVersion: model.version,
+    });
+
+    // Never report less than the risk already signalled during follow-up
+    const reportedRisk = this.calculateRiskLevel(structured.symptoms, context);
+    const levels: RiskLevel[] = ['level_1', 'level_2', 'level_3', 'level_4'];
+    const riskLevel = levels[Math.max(levels.indexOf(diagnostic.overallRiskLevel), levels.indexOf(reportedRisk))];
+    const requiresEscalation = riskLevel === 'level_3' || riskLevel === 'level_4';
+    const isDefaultLanguage = context.language === DEFAULT_LANGUAGE;
+    const templates = getLexicon(context.language).templates;
+    const symptomList = structured.symptoms.map(s => s.name).join(', ');
+
+    return {
+      message: templates.symptom[riskLevel](isDefaultLanguage ? symptomList : templates.yourSymptoms),
+      intent: 'symptom_report',
+      riskLevel,
+      extractedSymptoms: symptoms,
+      entities,
+      // Rule recommendations are written in English
+      recommendations: isDefaultLanguage && diagnostic.recommendations.length > 0
+        ? diagnostic.recommendations.map(r => r.description)
+        : templates.symptomRecommendations[riskLevel],
+      requiresEscalation,
+      escalationReason: requiresEscalation
+        ? `Risk level ${riskLevel} after follow-up: ${slotSummary.join('; ')}`
+        : undefined,
+      confidence: diagnostic.confidence,
+      disclaimer: templates.disclaimer,
+      reasoning: {
+        steps: [
+          ...slotSummary.map(summary => `Collected ${summary}`),
+          ...diagnostic.explanationTrace.reasoningSteps.map(step => `${step.description}: ${step.conclusion}`),
+          `Diagnostic risk level: ${diagnostic.overallRiskLevel} (${diagnostic.knowledgeBaseVersion}), reported symptom risk: ${reportedRisk}`,
+        ],
+        featuresConsidered: ['clinical_slots', 'vital_signs', 'pregnancy_stage', 'risk_factors'],
+        confidenceFactors: [
+          { factor: 'diagnostic_confidence', weight: diagnostic.confidence },
+        ],
+      },
+      structuredSymptoms: structured.symptoms,
+      diagnosticResult: diagnostic,
+      diagnosticInput,
+      sessionId: context.sessionId,
+      language: context.language,
+    };
+  }
+
+  /**
+   * Recent vital sign history for the mother behind a user account
+   */
+  private async loadHistory(userId: string): Promise<VitalHistory | undefined> {
+    try {
+      const { data: profile } = await (supabase as any)
+        .from('mother_profiles')
+        .select('id')
+        .eq('user_id', userId)
+        .single();
+      return profile?.id ? await loadVitalHistory(profile.id) : undefined;
+    } catch (error) {
+      console.log('Vital history not available:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Detect user intent from message
    */
-  private detectIntent(message: string): Intent {
-    for (const { pattern, intent } of INTENT_PATTERNS) {
-      if (pattern.test(message)) {
-        return intent;
+  private detectIntent(message: string, lexicons: LexiconPack[]): Intent {
+    for (const lexicon of lexicons) {
+      for (const { pattern, intent } of lexicon.intentPatterns) {
+        if (pattern.test(message)) {
+          return intent;
+        }
       }
     }
     return 'general';
@@ -357,41 +998,85 @@ Immediate clinical assessment required.`;
   /**
    * Detect emotional tone from message
    */
-  private detectEmotionalTone(message: string): EmotionalTone {
-    for (const { pattern, tone } of EMOTIONAL_PATTERNS) {
-      if (pattern.test(message)) {
-        return tone;
+  private detectEmotionalTone(message: string, lexicons: LexiconPack[]): EmotionalTone {
+    for (const lexicon of lexicons) {
+      for (const { pattern, tone } of lexicon.emotionalPatterns) {
+        if (pattern.test(message)) {
+          return tone;
+        }
       }
     }
     return 'neutral';
   }
 
   /**
-   * Extract symptoms from message
+   * Extract symptoms from message, tagging each with its clinical context.
+   * When a symptom is mentioned more than once, an affirmed mention wins.
+   * Names are canonical English whatever the language of the message.
    */
-  private extractSymptoms(message: string): ExtractedSymptom[] {
+  private extractSymptoms(message: string, lexicons: LexiconPack[]): ExtractedSymptom[] {
     const symptoms: ExtractedSymptom[] = [];
+    const patterns = lexicons.flatMap(lexicon =>
+      lexicon.symptomPatterns.map(pattern => ({ ...pattern, rules: getNegationRules(lexicon) }))
+    );
     
-    for (const { pattern, symptom, severity } of SYMPTOM_PATTERNS) {
-      const match = message.match(pattern);
-      if (match) {
-        const extractedName = symptom.includes('$1') && match[1] 
-          ? symptom.replace('$1', match[1]) 
-          : symptom;
-        
-        // Avoid duplicates
-        if (!symptoms.find(s => s.name.toLowerCase() === extractedName.toLowerCase())) {
-          symptoms.push({
-            name: extractedName,
-            severity,
-          });
-        }
+    for (const { pattern, symptom, severity, rules } of patterns) {
+      const globalPattern = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+      const matches = Array.from(message.matchAll(globalPattern));
+      if (matches.length === 0) continue;
+
+      const analyzed = matches.map(match => ({
+        match,
+        context: clinicalContextAnalyzer.analyze(message, match.index!, match.index! + match[0].length, rules),
+      }));
+      const { match, context } = analyzed.find(a => clinicalContextAnalyzer.isActionable(a.context)) || analyzed[0];
+
+      const extractedName = symptom.includes('$1') && match[1] 
+        ? symptom.replace('$1', match[1]) 
+        : symptom;
+      
+      // Avoid duplicates, preferring an affirmed mention over an excluded one
+      const existing = symptoms.findIndex(s => s.name.toLowerCase() === extractedName.toLowerCase());
+      const extracted: ExtractedSymptom = {
+        name: extractedName,
+        severity,
+        negated: context.negated,
+        experiencer: context.experiencer,
+        temporality: context.temporality,
+        hypothetical: context.hypothetical,
+        contextCues: context.cues,
+      };
+      if (existing === -1) {
+        symptoms.push(extracted);
+      } else if (!this.isAffirmed(symptoms[existing]) && this.isAffirmed(extracted)) {
+        symptoms[existing] = extracted;
       }
     }
     
     return symptoms;
   }
 
+  /**
+   * Whether a symptom is an affirmed, current, first-person finding
+   */
+  private isAffirmed(symptom: ExtractedSymptom): boolean {
+    return clinicalContextAnalyzer.isActionable(this.getFindingContext(symptom));
+  }
+
+  private describeExclusion(symptom: ExtractedSymptom): string {
+    return clinicalContextAnalyzer.describe(this.getFindingContext(symptom));
+  }
+
+  private getFindingContext(symptom: ExtractedSymptom): FindingContext {
+    return {
+      negated: symptom.negated,
+      experiencer: symptom.experiencer,
+      temporality: symptom.temporality,
+      hypothetical: symptom.hypothetical,
+      cues: symptom.contextCues || [],
+    };
+  }
+
   /**
    * Extract medical entities from message
    */
@@ -458,10 +1143,15 @@ Immediate clinical assessment required.`;
     intent: Intent,
     symptoms: ExtractedSymptom[],
     entities: MedicalEntity[],
-    userRole: UserRole
+    userRole: UserRole,
+    learnedAnswer?: LearnedEducationAnswer
   ): Promise<AIResponse> {
+    // Only affirmed, current, first-person findings drive risk and escalation
+    const affirmedSymptoms = symptoms.filter(s => this.isAffirmed(s));
+    const excludedSymptoms = symptoms.filter(s => !this.isAffirmed(s));
+
     // Calculate risk level based on symptoms and context
-    const riskLevel = this.calculateRiskLevel(symptoms, context);
+    const riskLevel = this.calculateRiskLevel(affirmedSymptoms, context);
     
     // Generate response based on intent
     let message: string;
@@ -470,101 +1160,93 @@ Immediate clinical assessment required.`;
     let requiresEscalation = false;
     let escalationReason: string | undefined;
 
-    // Adjust language based on user role
+    // Adjust language based on user role; clinical text stays in English
     const isPatient = userRole === 'mother';
+    const templates = getLexicon(isPatient ? context.language : DEFAULT_LANGUAGE).templates;
+    // Learned answers are written for mothers; clinicians keep the clinical summary
+    const learned = isPatient ? learnedAnswer : undefined;
 
     switch (intent) {
       case 'symptom_report':
-        const symptomResponse = this.generateSymptomResponse(symptoms, riskLevel, context, isPatient);
+        const symptomResponse = this.generateSymptomResponse(affirmedSymptoms, excludedSymptoms, riskLevel, context, isPatient);
         message = symptomResponse.message;
         clinicalMessage = symptomResponse.clinicalMessage;
         recommendations = symptomResponse.recommendations;
         requiresEscalation = riskLevel === 'level_3' || riskLevel === 'level_4';
         if (requiresEscalation) {
-          escalationReason = `Risk level ${riskLevel} detected with symptoms: ${symptoms.map(s => s.name).join(', ')}`;
+          escalationReason = `Risk level ${riskLevel} detected with symptoms: ${affirmedSymptoms.map(s => s.name).join(', ')}`;
         }
         break;
 
       case 'emotional_support':
-        message = this.generateEmotionalSupportResponse(context.emotionalTone, isPatient);
-        recommendations = [
-          'Practice deep breathing exercises',
-          'Speak with a trusted friend or family member',
-          'Consider talking to a counselor',
-          'Maintain regular sleep schedule',
-        ];
+        message = this.generateEmotionalSupportResponse(context.emotionalTone, isPatient, context.language);
+        recommendations = templates.emotionalRecommendations;
         break;
 
       case 'medication':
         message = isPatient
-          ? "I understand you have questions about medication. It's important to always consult your healthcare provider before taking any medication during pregnancy. Some medications that are safe normally may not be safe during pregnancy. Would you like me to help you prepare questions for your doctor?"
+          ? templates.intents.medication.message()
           : "Patient inquiring about medication. Review current prescription history and pregnancy stage before providing guidance.";
-        recommendations = [
-          'Consult your doctor before taking any medication',
-          'Always mention your pregnancy when getting prescriptions',
-          'Keep a list of all medications you take',
-        ];
+        recommendations = templates.intents.medication.recommendations;
         break;
 
       case 'nutrition':
         message = isPatient
-          ? "Nutrition is so important during pregnancy! Here are some key points:\n\n• Eat plenty of fruits, vegetables, and whole grains\n• Get enough protein from lean meats, beans, or legumes\n• Take your prenatal vitamins as prescribed\n• Stay well hydrated with water\n• Avoid raw fish, unpasteurized dairy, and deli meats\n\nWould you like more specific guidance based on your pregnancy stage?"
+          ? templates.intents.nutrition.message()
           : "Patient seeking nutritional guidance. Consider gestational age and any nutritional deficiencies noted in records.";
-        recommendations = [
-          'Take prenatal vitamins daily',
-          'Eat small, frequent meals',
-          'Stay hydrated',
-          'Avoid alcohol and limit caffeine',
-        ];
+        recommendations = templates.intents.nutrition.recommendations;
         break;
 
       case 'appointment':
         message = isPatient
-          ? "I can help you with appointment scheduling! Would you like to:\n\n1. Book a new appointment\n2. View upcoming appointments\n3. Reschedule an existing appointment\n\nPlease let me know what you'd like to do."
+          ? templates.intents.appointment.message()
           : "Patient requesting appointment management assistance.";
-        recommendations = [
-          'Prepare questions before your appointment',
-          'Bring a list of current symptoms',
-          'Note any changes since last visit',
-        ];
+        recommendations = templates.intents.appointment.recommendations;
         break;
 
       case 'education':
+        if (learned) {
+          message = learned.answer;
+          recommendations = learned.recommendations;
+          break;
+        }
         message = isPatient
-          ? `I'd love to help you learn more! Based on ${context.pregnancyWeek ? `your ${context.pregnancyWeek}th week of pregnancy` : 'your pregnancy'}, here are some topics you might find helpful:\n\n• What to expect this trimester\n• Baby's development\n• Preparing for labor and delivery\n• Postpartum care\n\nWhat topic interests you most?`
+          ? templates.intents.education.message(context.pregnancyWeek)
           : "Patient seeking educational content. Consider providing stage-appropriate resources.";
-        recommendations = [
-          'Attend prenatal classes',
-          'Read reputable pregnancy resources',
-          'Join a support group for expectant mothers',
-        ];
+        recommendations = templates.intents.education.recommendations;
         break;
 
       case 'question':
+        if (learned) {
+          message = learned.answer;
+          recommendations = learned.recommendations;
+          break;
+        }
         message = isPatient
-          ? "I'm here to help answer your questions! Please note that while I can provide general information, I'm not a replacement for your healthcare provider. What would you like to know?"
+          ? templates.intents.question.message()
           : "Patient has a general health inquiry. Review context before responding.";
-        recommendations = [
-          'Keep a list of questions for your doctor',
-          'Don\'t hesitate to ask about anything concerning you',
-        ];
+        recommendations = templates.intents.question.recommendations;
         break;
 
       default:
         message = isPatient
-          ? `Hello! I'm your maternal health assistant. I'm here to help you throughout your pregnancy journey. I can:\n\n• Help you track and report symptoms\n• Answer questions about pregnancy\n• Provide nutrition and wellness guidance\n• Help with appointment scheduling\n• Offer emotional support\n\nHow can I assist you today?`
+          ? templates.intents.general.message()
           : "Patient initiated general conversation. Awaiting specific inquiry.";
-        recommendations = [];
+        recommendations = templates.intents.general.recommendations;
     }
 
     // Build reasoning trace
     const reasoning: ReasoningTrace = {
       steps: [
-        `Analyzed message intent: ${intent}`,
+        `Analyzed message intent: ${intent} (language: ${context.language})`,
         `Detected emotional tone: ${context.emotionalTone}`,
-        `Extracted ${symptoms.length} symptom(s)`,
+        `Extracted ${symptoms.length} symptom(s), ${affirmedSymptoms.length} affirmed`,
+        ...excludedSymptoms.map(s => `Excluded ${s.name} from risk assessment (${this.describeExclusion(s)})`),
         `Identified ${entities.length} medical entity(ies)`,
         `Calculated risk level: ${riskLevel}`,
+        ...(learned
+          ? [`Answered from learned education content (candidates: ${learned.sources.map(s => s.candidateId).join(', ')})`]
+          : []),
         `Generated ${isPatient ? 'patient-friendly' : 'clinical'} response`,
       ],
       featuresConsidered: [
@@ -576,7 +1258,7 @@ Immediate clinical assessment required.`;
       ],
       confidenceFactors: [
         { factor: 'intent_clarity', weight: 0.85 },
-        { factor: 'symptom_specificity', weight: symptoms.length > 0 ? 0.9 : 0.7 },
+        { factor: 'symptom_specificity', weight: affirmedSymptoms.length > 0 ? 0.9 : 0.7 },
         { factor: 'context_completeness', weight: context.pregnancyWeek ? 0.9 : 0.75 },
       ],
     };
@@ -595,8 +1277,10 @@ Immediate clinical assessment required.`;
       requiresEscalation,
       escalationReason,
       confidence,
-      disclaimer: 'This AI assistant provides general information only and is not a substitute for professional medical advice. Always consult your healthcare provider for medical decisions.',
+      disclaimer: templates.disclaimer,
       reasoning,
+      sessionId: context.sessionId,
+      language: context.language,
     };
   }
 
@@ -605,46 +1289,45 @@ Immediate clinical assessment required.`;
    */
   private generateSymptomResponse(
     symptoms: ExtractedSymptom[],
+    excludedSymptoms: ExtractedSymptom[],
     riskLevel: RiskLevel,
     context: ConversationContext,
     isPatient: boolean
   ): { message: string; clinicalMessage: string; recommendations: string[] } {
     const symptomList = symptoms.map(s => s.name).join(', ') || 'your symptoms';
+    const templates = getLexicon(isPatient ? context.language : DEFAULT_LANGUAGE).templates;
     
     let message: string;
-    let recommendations: string[];
 
     switch (riskLevel) {
       case 'level_1':
-        message = isPatient
-          ? `Thank you for sharing about ${symptomList}. Based on what you've described, these symptoms appear to be within normal range for pregnancy. However, I recommend:\n\n• Continue monitoring how you feel\n• Stay hydrated and get adequate rest\n• Note any changes or worsening symptoms\n\nWould you like tips on managing these symptoms?`
-          : `Patient reported ${symptomList}. Low risk assessment. Continue routine monitoring.`;
-        recommendations = ['Monitor symptoms', 'Stay hydrated', 'Get adequate rest', 'Continue normal activities'];
+        message = `Patient reported ${symptomList}. Low risk assessment. Continue routine monitoring.`;
         break;
 
       case 'level_2':
-        message = isPatient
-          ? `I understand you're experiencing ${symptomList}. These symptoms warrant attention. I recommend:\n\n• Monitor your symptoms closely over the next 24-48 hours\n• Keep track of frequency and intensity\n• Contact your healthcare provider if symptoms worsen or persist\n\nWould you like to schedule a routine check-up?`
-          : `Patient reported ${symptomList}. Moderate concern. Recommend follow-up within 48-72 hours.`;
-        recommendations = ['Monitor symptoms closely', 'Schedule routine check-up', 'Avoid strenuous activities', 'Contact doctor if worsening'];
+        message = `Patient reported ${symptomList}. Moderate concern. Recommend follow-up within 48-72 hours.`;
         break;
 
       case 'level_3':
-        message = isPatient
-          ? `⚠️ I'm concerned about ${symptomList}. These symptoms require prompt medical attention. Please:\n\n• Contact your healthcare provider within the next 24 hours\n• Do not wait to see if symptoms improve on their own\n• Avoid strenuous activity until evaluated\n\nWould you like help contacting your doctor now?`
-          : `ALERT: Patient reported ${symptomList}. Elevated risk. Urgent follow-up required within 24 hours.`;
-        recommendations = ['Contact doctor within 24 hours', 'Avoid strenuous activity', 'Have someone available to assist', 'Prepare to seek emergency care if worsening'];
+        message = `ALERT: Patient reported ${symptomList}. Elevated risk. Urgent follow-up required within 24 hours.`;
         break;
 
       case 'level_4':
-        message = isPatient
-          ? `🚨 The symptoms you've described (${symptomList}) are serious and require immediate medical attention. Please:\n\n• Go to the emergency room or call emergency services NOW\n• Do not drive yourself - have someone take you or call an ambulance\n• Bring someone with you if possible\n\nYour health and your baby's health are the priority.`
-          : `CRITICAL: Patient reported ${symptomList}. Immediate medical intervention required. Activate emergency protocol.`;
-        recommendations = ['Seek immediate emergency care', 'Call emergency services', 'Do not drive yourself', 'Have someone stay with you'];
+        message = `CRITICAL: Patient reported ${symptomList}. Immediate medical intervention required. Activate emergency protocol.`;
         break;
     }
 
-    const clinicalMessage = `Clinical Assessment:\nSymptoms: ${symptomList}\nSeverities: ${symptoms.map(s => `${s.name}(${s.severity})`).join(', ')}\nPregnancy week: ${context.pregnancyWeek || 'Unknown'}\nRisk factors: ${context.riskFactors.join(', ') || 'None'}\nRisk Level: ${riskLevel}`;
+    if (isPatient) {
+      // Canonical symptom names are English; other languages get the generic phrase
+      const patientList = context.language === DEFAULT_LANGUAGE
+        ? symptomList
+        : templates.yourSymptoms;
+      message = templates.symptom[riskLevel](patientList);
+    }
+    const recommendations = templates.symptomRecommendations[riskLevel];
+
+    const excludedList = excludedSymptoms.map(s => `${s.name}(${this.describeExclusion(s)})`).join(', ') || 'None';
+    const clinicalMessage = `Clinical Assessment:\nSymptoms: ${symptomList}\nSeverities: ${symptoms.map(s => `${s.name}(${s.severity})`).join(', ')}\nNot attributed: ${excludedList}\nPregnancy week: ${context.pregnancyWeek || 'Unknown'}\nRisk factors: ${context.riskFactors.join(', ') || 'None'}\nRisk Level: ${riskLevel}`;
 
     return { message, clinicalMessage, recommendations };
   }
@@ -652,30 +1335,27 @@ Immediate clinical assessment required.`;
   /**
    * Generate emotional support response
    */
-  private generateEmotionalSupportResponse(tone: EmotionalTone, isPatient: boolean): string {
+  private generateEmotionalSupportResponse(tone: EmotionalTone, isPatient: boolean, language: SupportedLanguage): string {
     if (!isPatient) {
       return `Patient displaying ${tone} emotional state. Consider mental health screening if appropriate.`;
     }
 
+    const { emotional } = getLexicon(language).templates;
     switch (tone) {
       case 'anxious':
-        return "I hear that you're feeling worried, and that's completely understandable. Pregnancy can bring many concerns. Remember:\n\n• Your feelings are valid\n• Many expectant mothers share similar worries\n• It's okay to ask for help and support\n\nWould you like to talk about what's specifically worrying you? Or would you like some relaxation techniques that might help?";
-
       case 'distressed':
-        return "I can sense you're going through a difficult time, and I want you to know that you're not alone. It's important that you:\n\n• Reach out to someone you trust\n• Consider speaking with a professional counselor\n• Don't hesitate to contact your healthcare provider\n\nYour mental health matters just as much as your physical health. Would you like resources for emotional support?";
-
       case 'urgent':
-        return "I understand this feels urgent. Let me help you:\n\n• If this is a medical emergency, please call emergency services\n• If you need to speak with your doctor, I can help you prepare\n• If you're feeling overwhelmed, that's okay - we'll take this one step at a time\n\nWhat do you need help with right now?";
+        return emotional[tone];
 
       default:
-        return "Thank you for sharing how you're feeling. It's important to take care of your emotional wellbeing during pregnancy. I'm here to listen and support you. What's on your mind?";
+        return emotional.default;
     }
   }
 
   /**
    * Calculate risk level based on symptoms and context
    */
-  private calculateRiskLevel(symptoms: ExtractedSymptom[], context: ConversationContext): RiskLevel {
+  private calculateRiskLevel(symptoms: Pick<ExtractedSymptom, 'severity'>[], context: ConversationContext): RiskLevel {
     if (symptoms.length === 0) return 'level_1';
 
     // Check for critical symptoms
@@ -707,24 +1387,23 @@ Immediate clinical assessment required.`;
     userMessage: string,
     response: AIResponse
   ): Promise<void> {
-    try {
-      // Store anonymized conversation data for model improvement
-      // This should go through admin approval before being used for training
-      await (supabase as any).from('ai_conversations').insert({
-        session_id: context.sessionId,
-        intent: response.intent,
-        risk_level: response.riskLevel,
-        symptoms_extracted: response.extractedSymptoms.map(s => s.name),
-        confidence_score: response.confidence,
-        required_escalation: response.requiresEscalation,
-        model_version: this.modelVersion,
-        created_at: new Date().toISOString(),
-      }).catch(() => {
-        // Table might not exist yet, ignore error
-      });
-    } catch (error) {
-      // Silently fail - this is for analytics only
-      console.log('Note: AI conversation logging not available');
+    // Store anonymized conversation data for model improvement
+    // This should go through admin approval before being used for training
+    const { error } = await supabase.from('ai_conversations').insert({
+      session_id: context.sessionId,
+      user_id: context.userId,
+      intent: response.intent,
+      risk_level: response.riskLevel,
+      symptoms_extracted: response.extractedSymptoms.map(s => s.name),
+      confidence_score: response.confidence,
+      required_escalation: response.requiresEscalation,
+      model_version: formatModelVersion(response.generatedBy || TEMPLATE_MODEL),
+      created_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      // Analytics only, so a failed write does not fail the reply
+      console.log('AI conversation logging not available:', error);
     }
   }
 
@@ -735,6 +1414,28 @@ Immediate clinical assessment required.`;
     this.contexts.delete(sessionId);
   }
 
+  /**
+   * End a session: it is closed in storage and can no longer be resumed
+   */
+  async endSession(sessionId: string): Promise<void> {
+    this.contexts.delete(sessionId);
+    await conversationSessionStore.closeSession(sessionId);
+  }
+
+  /**
+   * Drop in-memory contexts that have expired; their sessions stay in storage
+   */
+  pruneExpiredContexts(): number {
+    let pruned = 0;
+    for (const [sessionId, context] of this.contexts) {
+      if (conversationSessionStore.isExpired(context.lastUpdated)) {
+        this.contexts.delete(sessionId);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+
   /**
    * Get conversation history
    */
@@ -0,0 +1,218 @@
+/**
+ * Agent Registry for the Agent Orchestrator
+ *
+ * Implements:
+ * - Registration of agents with their activation triggers, output contract
+ *   and time budget
+ * - Enabling, disabling and weighting agents through system_settings
+ * - Candidate settings laid over the stored ones, for replaying traces
+ * - Validation of agent outputs against their declared contract
+ *
+ * Required agents (emergency detection, triage, safety review) stay enabled
+ * whatever the settings say. Settings that don't load in time leave the last
+ * known ones (or the defaults) in place, so a slow database never holds up a
+ * run.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { AgentContext, AgentInput, AgentOutput } from './MultiAgentSystem';
+
+// Types
+export type AgentTrigger =
+  | { type: 'always' }
+  | { type: 'keywords'; keywords: string[] }
+  | { type: 'patterns'; patterns: RegExp[] }
+  /** Activates when the context field is set */
+  | { type: 'context'; field: keyof AgentContext };
+
+export interface AgentOutputContract {
+  /** Content agents compete for the reply; meta agents only inform it */
+  role: 'content' | 'meta';
+  /** Metadata keys every output carries */
+  metadata: string[];
+  mayEscalate: boolean;
+}
+
+export interface Agent {
+  id: string;
+  name: string;
+  description: string;
+  priority: number;
+  /** The agent activates when any trigger matches */
+  triggers: AgentTrigger[];
+  outputContract: AgentOutputContract;
+  /** Time budget unless overridden in settings */
+  timeoutMs: number;
+  /** Cannot be disabled or unregistered */
+  required?: boolean;
+  shouldActivate(input: AgentInput): boolean;
+  process(input: AgentInput): Promise<AgentOutput>;
+  /** Output used when the agent fails or runs out of time; without one the agent is left out */
+  fallback?(input: AgentInput, reason: string): AgentOutput | undefined;
+}
+
+export interface AgentSettings {
+  enabled?: boolean;
+  /** Multiplies the agent's score when the reply is chosen */
+  weight?: number;
+  timeoutMs?: number;
+}
+
+export interface RegisteredAgent {
+  agent: Agent;
+  enabled: boolean;
+  weight: number;
+  timeoutMs: number;
+}
+
+export const AGENT_REGISTRY_SETTING = 'ai_agent_registry';
+/** How long a run waits for stored settings before using the last known ones */
+export const SETTINGS_TIMEOUT_MS = 1000;
+
+export function matchesTriggers(triggers: AgentTrigger[], input: AgentInput): boolean {
+  const messageLower = input.message.toLowerCase();
+  return triggers.some(trigger => {
+    switch (trigger.type) {
+      case 'always':
+        return true;
+      case 'keywords':
+        return trigger.keywords.some(k => messageLower.includes(k));
+      case 'patterns':
+        return trigger.patterns.some(p => p.test(messageLower));
+      case 'context':
+        return input.context[trigger.field] !== undefined;
+    }
+  });
+}
+
+class AgentRegistry {
+  private agents: Map<string, Agent> = new Map();
+  private settings: Record<string, AgentSettings> = {};
+  private loadedAt = 0;
+  private cacheTtlMs = 5 * 60 * 1000;
+
+  register(agent: Agent): void {
+    this.agents.set(agent.id, agent);
+  }
+
+  unregister(agentId: string): boolean {
+    const agent = this.agents.get(agentId);
+    if (!agent || agent.required) return false;
+    return this.agents.delete(agentId);
+  }
+
+  get(agentId: string): Agent | undefined {
+    return this.agents.get(agentId);
+  }
+
+  list(): Agent[] {
+    return Array.from(this.agents.values());
+  }
+
+  /**
+   * Registered agents with their configured state, highest priority first.
+   * Overrides apply on top of the stored settings without saving them.
+   */
+  async getAgents(overrides: Record<string, AgentSettings> = {}): Promise<RegisteredAgent[]> {
+    await this.refresh();
+    return this.list()
+      .map(agent => this.resolve(agent, overrides[agent.id]))
+      .sort((a, b) => b.agent.priority - a.agent.priority);
+  }
+
+  /**
+   * Store an agent's settings; admin only under system_settings policies
+   */
+  async updateSettings(agentId: string, changes: AgentSettings): Promise<boolean> {
+    if (!this.agents.has(agentId)) return false;
+    await this.refresh();
+
+    const value = {
+      ...this.settings,
+      [agentId]: { ...this.settings[agentId], ...changes },
+    };
+    try {
+      const { error } = await (supabase as any)
+        .from('system_settings')
+        .upsert({ key: AGENT_REGISTRY_SETTING, value, updated_at: new Date().toISOString() }, { onConflict: 'key' });
+
+      if (error) throw error;
+      this.settings = value;
+      return true;
+    } catch (error) {
+      console.error('Error updating agent settings:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Drop the cached settings so the next request reloads them
+   */
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  /**
+   * Contract violations in an agent's output; empty when it conforms
+   */
+  validateOutput(agent: Agent, output: AgentOutput): string[] {
+    const violations: string[] = [];
+    const contract = agent.outputContract;
+
+    if (output.agentId !== agent.id) violations.push(`agentId is ${output.agentId}`);
+    if (typeof output.response !== 'string') violations.push('response is not text');
+    if (!(output.confidence >= 0 && output.confidence <= 1)) violations.push(`confidence ${output.confidence} is outside 0-1`);
+    for (const key of contract.metadata) {
+      if (!(key in (output.metadata || {}))) violations.push(`metadata.${key} is missing`);
+    }
+    if (output.escalate && !contract.mayEscalate) violations.push('escalated without declaring it');
+
+    return violations;
+  }
+
+  private resolve(agent: Agent, override?: AgentSettings): RegisteredAgent {
+    const settings = { ...this.settings[agent.id], ...override };
+    if (agent.required && settings.enabled === false) {
+      console.log(`Agent ${agent.id} is required and stays enabled`);
+    }
+
+    return {
+      agent,
+      enabled: agent.required || settings.enabled !== false,
+      weight: typeof settings.weight === 'number' && settings.weight >= 0 ? settings.weight : 1,
+      timeoutMs: typeof settings.timeoutMs === 'number' && settings.timeoutMs > 0 ? settings.timeoutMs : agent.timeoutMs,
+    };
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.loadedAt && Date.now() - this.loadedAt < this.cacheTtlMs) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${SETTINGS_TIMEOUT_MS}ms`)), SETTINGS_TIMEOUT_MS);
+    });
+
+    try {
+      const { data } = await Promise.race([
+        (supabase as any)
+          .from('system_settings')
+          .select('value')
+          .eq('key', AGENT_REGISTRY_SETTING)
+          .maybeSingle(),
+        timeout,
+      ]);
+
+      this.settings = data?.value || {};
+      this.loadedAt = Date.now();
+    } catch (error) {
+      // Not cached, so the next run tries again
+      console.log('Agent settings not available, using defaults:', error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Export singleton instance
+export const agentRegistry = new AgentRegistry();
+export default agentRegistry;
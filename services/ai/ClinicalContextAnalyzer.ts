@@ -0,0 +1,421 @@
+/**
+ * Clinical Context Analyzer for Maternal Health AI
+ *
+ * Implements:
+ * - Term mention finding with Unicode-aware word boundaries
+ * - Negation scope (NegEx-style pre/post triggers, pseudo-negations, scope terminators),
+ *   bounded by clause punctuation, with per-language trigger lists and windows
+ * - Experiencer detection (the mother vs. another person), with per-language cues
+ * - Temporality (current vs. historical) and hypothetical detection
+ * - Evaluation against a labeled corpus of phrases in each supported language
+ */
+
+import corpusData from './knowledge/finding-context-corpus.json';
+import { getLexicon, getNegationRules } from './lexicons';
+
+// Types
+export type Experiencer = 'patient' | 'other';
+export type Temporality = 'current' | 'historical';
+
+export interface FindingContext {
+  negated: boolean;
+  experiencer: Experiencer;
+  temporality: Temporality;
+  hypothetical: boolean;
+  cues: string[];
+}
+
+export interface TermMention {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export interface ContextualFinding extends TermMention {
+  context: FindingContext;
+}
+
+/** Negation triggers and context cues for one language; the English lists are used when omitted */
+export interface NegationRules {
+  pre: string[];
+  post: string[];
+  /** Extra words that end a negation scope ("mais", "lakini"), added to the English ones */
+  terminators?: string[];
+  /** Maximum words between a pre-negation trigger and the finding */
+  window?: number;
+  /** Words that attribute a finding to someone else ("ma sœur"), added to the English ones */
+  experiencers?: string[];
+  /** Words that make a finding hypothetical ("et si", "ikiwa"), added to the English ones */
+  hypotheticals?: string[];
+}
+
+export interface LabeledPhrase {
+  /** Language of the phrase; English when omitted */
+  language?: string;
+  text: string;
+  term: string;
+  negated: boolean;
+  experiencer: Experiencer;
+  temporality: Temporality;
+  hypothetical: boolean;
+}
+
+export interface CorpusFailure {
+  phrase: LabeledPhrase;
+  actual: FindingContext | null;
+  mismatched: string[];
+}
+
+export interface CorpusEvaluation {
+  total: number;
+  passed: number;
+  accuracy: number;
+  byAttribute: Record<'negated' | 'experiencer' | 'temporality' | 'hypothetical' | 'actionable', number>;
+  /** Phrases labeled actionable that the analyzer would not escalate */
+  missedEscalations: number;
+  failures: CorpusFailure[];
+}
+
+// Maximum number of words between a pre-negation trigger and the finding
+const NEGATION_WINDOW = 5;
+const POST_NEGATION_WINDOW = 3;
+
+const PRE_NEGATION_TRIGGERS = [
+  'no', 'not', 'never', 'without', 'denies', 'denied', 'deny',
+  "don't have", 'do not have', "doesn't have", 'does not have',
+  "haven't had", 'have not had', "hasn't had", 'has not had', "didn't have", 'did not have',
+  "haven't", "hasn't", "isn't", "aren't", "wasn't", "weren't",
+  'no signs of', 'no sign of', 'free of', 'negative for', 'ruled out', 'no more', 'none of',
+];
+
+const POST_NEGATION_TRIGGERS = [
+  'has stopped', 'have stopped', 'stopped', 'is gone', 'are gone', 'has gone', 'went away',
+  'has resolved', 'resolved', 'is over', 'has passed', 'has settled',
+];
+
+const ENGLISH_NEGATION: NegationRules = { pre: PRE_NEGATION_TRIGGERS, post: POST_NEGATION_TRIGGERS };
+
+// Phrases containing a negation word that do not negate the finding
+const PSEUDO_NEGATIONS = [
+  'not sure', 'not certain', "don't know if", 'do not know if', 'no idea', 'no way', 'no matter', 'not only',
+  'not ok', 'not okay', 'not well', 'not fine', 'not good', 'not right', 'can not', 'cannot', "can't",
+  'no change', 'not stopped', "hasn't stopped", 'has not stopped', "won't stop", "doesn't stop",
+  'not getting better', 'not improving', "can't stop", 'no better', 'not go away', "won't go away",
+  "doesn't go away", 'not much', 'not as much', 'not enough',
+];
+
+// "and" starts a new finding: "I have no appetite and heavy bleeding" leaves
+// the bleeding affirmed, so "no headache and swelling" escalates the swelling
+const SCOPE_TERMINATORS = [
+  'but', 'however', 'although', 'though', 'except', 'yet', 'aside from', 'apart from',
+  'which', 'now', 'still', 'and',
+];
+
+const OTHER_EXPERIENCER = new RegExp(
+  '\\b(?:(?:my|her|his|our|a|the)\\s+(?:' +
+  'sister|mother|mom|mum|aunt|cousin|friend|neighbou?r|colleague|coworker|daughter|son|' +
+  'grandmother|grandma|niece|husband|partner|sister-in-law|mother-in-law|friend\'s)' +
+  ')\\b|\\b(?:she|he|they|someone|somebody|another woman|a woman|a lady)\\b',
+  'gi'
+);
+const FAMILY_HISTORY = /\b(family history|runs in (?:my|the|our) family)\b/i;
+const FIRST_PERSON = /\b(i|i'm|im|i've|i'd|me)\b/i;
+
+// Commas and clause punctuation end a negation scope: "I am not ok, heavy bleeding"
+const CLAUSE_PUNCTUATION = /[,;:()\u2013\u2014]|\s-\s/g;
+
+const HISTORICAL_TRIGGERS = [
+  /\bhistory of\b/i,
+  /\b(?:last|previous|first|other|earlier) pregnanc(?:y|ies)\b/i,
+  /\bwith my (?:first|last|previous|older|other|eldest) (?:baby|child|son|daughter)\b/i,
+  /\bbefore (?:i was pregnant|pregnancy|i got pregnant)\b/i,
+  /\b(?:\d+|a|one|two|three|four|five|six|seven|eight|nine|ten|a few|several|many) years? ago\b/i,
+  /\blast year\b/i,
+  /\b(?:\d+|a|one|two|three|four|five|six|seven|eight|nine|ten|a few|several|many) months? ago\b/i,
+  /\bas a (?:child|kid|teenager)\b/i,
+  /\bwhen i was (?:young|little|a child|a teenager)\b/i,
+  /\bin the past\b/i,
+];
+
+const HYPOTHETICAL_TRIGGERS = [
+  /\bwhat if\b/i,
+  /\bif i (?:ever )?(?:get|have|develop|start|notice)\b/i,
+  /\bwhat does it mean\b/i,
+  /\bin case\b/i,
+  /\bsuppos(?:e|ing)\b/i,
+  /\bimagine\b/i,
+  /\b(?:could|can|might|would) i (?:get|have|develop)\b/i,
+  /\bis it possible to\b/i,
+  /\b(?:warning )?signs? of\b/i,
+  /\bsymptoms of\b/i,
+  /\bwhat causes\b/i,
+  /\bhow (?:do|would|will) i know\b/i,
+  /\b(?:risk|chance)s? of\b/i,
+  /\btell me about\b/i,
+];
+
+// "not sure if my water broke" expresses uncertainty about a current finding, not a hypothetical
+const UNCERTAINTY = /\b(?:not sure|not certain|unsure|don't know|do not know|no idea|wonder(?:ing)?|think) (?:if|whether)\b/gi;
+
+// Words that anchor a finding in the present even inside a conditional
+const PRESENT_ANCHORS = /\b(right now|now|currently|at the moment|today|tonight|this morning|since)\b/i;
+
+class ClinicalContextAnalyzer {
+  private corpus: LabeledPhrase[] = corpusData as LabeledPhrase[];
+
+  /**
+   * Find whole-word mentions of a term (case-insensitive)
+   */
+  findMentions(text: string, term: string): TermMention[] {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}_'])${escaped}(?![\\p{L}\\p{N}_])`, 'giu');
+    const mentions: TermMention[] = [];
+    for (const match of text.matchAll(pattern)) {
+      mentions.push({ term, start: match.index!, end: match.index! + match[0].length });
+    }
+    return mentions;
+  }
+
+  /**
+   * Determine negation, experiencer, temporality and hypotheticality for the
+   * finding at [start, end) in text
+   */
+  analyze(text: string, start: number, end: number, rules?: NegationRules): FindingContext {
+    const sentence = this.getSentence(text, start, end);
+    const before = sentence.text.slice(0, start - sentence.start).toLowerCase();
+    const after = sentence.text.slice(end - sentence.start).toLowerCase();
+    const whole = sentence.text.toLowerCase();
+    const cues: string[] = [];
+
+    const negated = this.isNegated(before, after, cues, rules || ENGLISH_NEGATION);
+    const experiencer = this.getExperiencer(before, whole, cues, rules?.experiencers || []);
+    const temporality = this.getTemporality(whole, cues);
+    const hypothetical = this.isHypothetical(before, whole, cues, rules?.hypotheticals || []);
+
+    return { negated, experiencer, temporality, hypothetical, cues };
+  }
+
+  /**
+   * Find every mention of a term and analyze its context
+   */
+  analyzeTerm(text: string, term: string, rules?: NegationRules): ContextualFinding[] {
+    return this.findMentions(text, term).map(mention => ({
+      ...mention,
+      context: this.analyze(text, mention.start, mention.end, rules),
+    }));
+  }
+
+  /**
+   * Only affirmed, current, first-person, non-hypothetical findings should drive escalation
+   */
+  isActionable(context: FindingContext): boolean {
+    return !context.negated &&
+      context.experiencer === 'patient' &&
+      context.temporality === 'current' &&
+      !context.hypothetical;
+  }
+
+  describe(context: FindingContext): string {
+    if (this.isActionable(context)) return 'affirmed';
+    const reasons: string[] = [];
+    if (context.negated) reasons.push('negated');
+    if (context.experiencer === 'other') reasons.push('other person');
+    if (context.temporality === 'historical') reasons.push('historical');
+    if (context.hypothetical) reasons.push('hypothetical');
+    return reasons.join(', ');
+  }
+
+  /**
+   * Run the analyzer over a labeled corpus (defaults to the bundled corpus)
+   */
+  evaluateCorpus(corpus: LabeledPhrase[] = this.corpus): CorpusEvaluation {
+    const failures: CorpusFailure[] = [];
+    const correct = { negated: 0, experiencer: 0, temporality: 0, hypothetical: 0, actionable: 0 };
+    let missedEscalations = 0;
+
+    for (const phrase of corpus) {
+      const mention = this.findMentions(phrase.text, phrase.term)[0];
+      const rules = phrase.language ? getNegationRules(getLexicon(phrase.language)) : undefined;
+      const actual = mention ? this.analyze(phrase.text, mention.start, mention.end, rules) : null;
+      const expectedActionable = this.isActionable({ ...phrase, cues: [] });
+      const actualActionable = actual ? this.isActionable(actual) : false;
+
+      const mismatched: string[] = [];
+      for (const key of ['negated', 'experiencer', 'temporality', 'hypothetical'] as const) {
+        if (actual && actual[key] === phrase[key]) {
+          correct[key]++;
+        } else {
+          mismatched.push(key);
+        }
+      }
+      if (expectedActionable === actualActionable) {
+        correct.actionable++;
+      } else if (expectedActionable) {
+        missedEscalations++;
+      }
+
+      if (mismatched.length > 0) {
+        failures.push({ phrase, actual, mismatched });
+      }
+    }
+
+    const total = corpus.length;
+    const ratio = (n: number) => (total > 0 ? n / total : 0);
+
+    return {
+      total,
+      passed: total - failures.length,
+      accuracy: ratio(total - failures.length),
+      byAttribute: {
+        negated: ratio(correct.negated),
+        experiencer: ratio(correct.experiencer),
+        temporality: ratio(correct.temporality),
+        hypothetical: ratio(correct.hypothetical),
+        actionable: ratio(correct.actionable),
+      },
+      missedEscalations,
+      failures,
+    };
+  }
+
+  getCorpus(): LabeledPhrase[] {
+    return [...this.corpus];
+  }
+
+  private getSentence(text: string, start: number, end: number): { text: string; start: number } {
+    const boundary = /[.!?\n]/;
+    let sentenceStart = start;
+    while (sentenceStart > 0 && !boundary.test(text[sentenceStart - 1])) sentenceStart--;
+    let sentenceEnd = end;
+    while (sentenceEnd < text.length && !boundary.test(text[sentenceEnd])) sentenceEnd++;
+    return { text: text.slice(sentenceStart, sentenceEnd), start: sentenceStart };
+  }
+
+  private isNegated(before: string, after: string, cues: string[], rules: NegationRules): boolean {
+    const terminators = [...SCOPE_TERMINATORS, ...(rules.terminators || [])];
+    const clauseBefore = this.clauseBefore(before, terminators);
+    const pseudo = this.findPhrases(clauseBefore, PSEUDO_NEGATIONS);
+
+    // Pre-negation: nearest trigger within the window and not part of a pseudo-negation
+    const triggers = this.findPhrases(clauseBefore, rules.pre)
+      .filter(t => !pseudo.some(p => t.start >= p.start && t.start < p.end))
+      .sort((a, b) => b.end - a.end);
+    const trigger = triggers[0];
+    if (trigger) {
+      const wordsBetween = clauseBefore.slice(trigger.end).trim().split(/\s+/).filter(Boolean).length;
+      if (wordsBetween <= (rules.window ?? NEGATION_WINDOW)) {
+        cues.push(`negation: "${trigger.phrase}"`);
+        return true;
+      }
+    }
+
+    // Post-negation: "the bleeding has stopped"
+    const clauseAfter = this.clauseAfter(after, terminators);
+    if (this.findPhrases(clauseAfter, PSEUDO_NEGATIONS).length > 0) return false;
+    const post = this.findPhrases(clauseAfter, rules.post)
+      .sort((a, b) => a.start - b.start)[0];
+    if (post) {
+      const wordsBetween = clauseAfter.slice(0, post.start).trim().split(/\s+/).filter(Boolean).length;
+      if (wordsBetween <= POST_NEGATION_WINDOW) {
+        cues.push(`negation: "${post.phrase}"`);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private getExperiencer(before: string, sentence: string, cues: string[], experiencers: string[]): Experiencer {
+    const family = sentence.match(FAMILY_HISTORY);
+    if (family) {
+      cues.push(`experiencer: "${family[1]}"`);
+      return 'other';
+    }
+
+    const matches = [
+      ...Array.from(before.matchAll(OTHER_EXPERIENCER))
+        .map(m => ({ phrase: m[0], start: m.index!, end: m.index! + m[0].length })),
+      ...this.findPhrases(before, experiencers),
+    ].sort((a, b) => a.end - b.end);
+    const last = matches[matches.length - 1];
+    if (!last) return 'patient';
+
+    // "my sister said I have bleeding" - a first-person subject after the trigger wins
+    const rest = before.slice(last.end);
+    if (FIRST_PERSON.test(rest)) return 'patient';
+
+    cues.push(`experiencer: "${last.phrase}"`);
+    return 'other';
+  }
+
+  private getTemporality(sentence: string, cues: string[]): Temporality {
+    for (const pattern of HISTORICAL_TRIGGERS) {
+      const match = sentence.match(pattern);
+      if (match) {
+        cues.push(`historical: "${match[0]}"`);
+        return 'historical';
+      }
+    }
+    return 'current';
+  }
+
+  private isHypothetical(before: string, sentence: string, cues: string[], hypotheticals: string[]): boolean {
+    if (PRESENT_ANCHORS.test(sentence)) return false;
+
+    const conditional = before.replace(UNCERTAINTY, ' ');
+    for (const pattern of HYPOTHETICAL_TRIGGERS) {
+      const match = conditional.match(pattern);
+      if (match) {
+        cues.push(`hypothetical: "${match[0]}"`);
+        return true;
+      }
+    }
+    const cue = this.findPhrases(conditional, hypotheticals)[0];
+    if (cue) {
+      cues.push(`hypothetical: "${cue.phrase}"`);
+      return true;
+    }
+    return false;
+  }
+
+  private clauseBefore(before: string, terminators: string[]): string {
+    let cut = 0;
+    for (const found of this.findPhrases(before, terminators)) {
+      cut = Math.max(cut, found.end);
+    }
+    for (const match of before.matchAll(CLAUSE_PUNCTUATION)) {
+      cut = Math.max(cut, match.index! + match[0].length);
+    }
+    return before.slice(cut);
+  }
+
+  private clauseAfter(after: string, terminators: string[]): string {
+    let cut = after.length;
+    for (const found of this.findPhrases(after, terminators)) {
+      cut = Math.min(cut, found.start);
+    }
+    for (const match of after.matchAll(CLAUSE_PUNCTUATION)) {
+      cut = Math.min(cut, match.index!);
+    }
+    return after.slice(0, cut);
+  }
+
+  private findPhrases(text: string, phrases: string[]): { phrase: string; start: number; end: number }[] {
+    const found: { phrase: string; start: number; end: number }[] = [];
+    for (const phrase of phrases) {
+      const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      // Word boundaries only apply at letter edges ("pas d'" has none after the apostrophe)
+      const leading = /^[\p{L}\p{N}]/u.test(phrase) ? "(?<![\\p{L}\\p{N}_'])" : '';
+      const trailing = /[\p{L}\p{N}]$/u.test(phrase) ? "(?![\\p{L}\\p{N}_'])" : '';
+      const pattern = new RegExp(`${leading}${escaped}${trailing}`, 'gu');
+      for (const match of text.matchAll(pattern)) {
+        found.push({ phrase, start: match.index!, end: match.index! + match[0].length });
+      }
+    }
+    return found;
+  }
+}
+
+// Export singleton instance
+export const clinicalContextAnalyzer = new ClinicalContextAnalyzer();
+export default clinicalContextAnalyzer;
@@ -0,0 +1,445 @@
+/**
+ * Clinical Dialogue Manager for Maternal Health AI
+ *
+ * Implements:
+ * - Slot-filling over reported symptoms (onset, duration, severity 1-10,
+ *   associated visual symptoms, last blood pressure reading)
+ * - Per-symptom frames with shared patient-level slots
+ * - Answer parsing per language with retry and give-up limits
+ * - Confirmation of emergency terms the mother mentioned but did not affirm
+ * - Conversion of completed frames into structured diagnostic input
+ */
+
+import { clinicalContextAnalyzer } from './ClinicalContextAnalyzer';
+import type { ExtractedSymptom } from './AIConversationalEngine';
+import type { SymptomInput, VitalSignsInput } from './DiagnosticReasoningEngine';
+import { getNegationRules, LexiconPack } from './lexicons';
+
+// Types
+export type ClinicalSlot = 'onset' | 'duration' | 'severity' | 'visualSymptoms' | 'bloodPressure';
+
+export interface BloodPressureReading {
+  systolic: number;
+  diastolic: number;
+}
+
+export interface SlotValues {
+  onset?: string;
+  duration?: string;
+  /** Patient-rated severity on a 1-10 scale */
+  severity?: number;
+  /** Canonical English names; an empty array means the patient denied visual symptoms */
+  visualSymptoms?: string[];
+  bloodPressure?: BloodPressureReading;
+}
+
+export interface SymptomFrame {
+  symptom: string;
+  initialSeverity: ExtractedSymptom['severity'];
+  requiredSlots: ClinicalSlot[];
+  values: SlotValues;
+  /** Slots the patient could not answer; they count as filled */
+  unknownSlots: ClinicalSlot[];
+  openedAt: string;
+}
+
+export interface DialogueState {
+  frames: SymptomFrame[];
+  pending?: { symptom: string; slot: ClinicalSlot; attempts: number };
+  /** Emergency terms the mother was asked to confirm; set until her next message */
+  emergencyCheck?: { term: string; canonical: string }[];
+}
+
+export type AnswerOutcome = 'filled' | 'unknown' | 'unparsed' | 'none';
+
+export interface SlotQuestion {
+  frame: SymptomFrame;
+  slot: ClinicalSlot;
+  /** The previous answer to this slot could not be understood */
+  retry: boolean;
+}
+
+export interface StructuredSymptoms {
+  symptoms: SymptomInput[];
+  vitalSigns?: VitalSignsInput;
+}
+
+// Follow-up slots per symptom; symptoms not listed are assessed without follow-up
+const SLOT_REQUIREMENTS: Record<string, ClinicalSlot[]> = {
+  headache: ['onset', 'duration', 'severity', 'visualSymptoms', 'bloodPressure'],
+  swelling: ['onset', 'duration', 'visualSymptoms', 'bloodPressure'],
+  dizziness: ['onset', 'duration', 'severity', 'bloodPressure'],
+  bleeding: ['onset', 'duration'],
+  cramping: ['onset', 'duration', 'severity'],
+  fever: ['onset', 'duration'],
+};
+
+// Slots about the patient rather than one symptom; one answer fills every frame
+const SHARED_SLOTS: ClinicalSlot[] = ['visualSymptoms', 'bloodPressure'];
+
+// Unparseable answers before a slot is marked unknown and the dialogue moves on
+const MAX_ATTEMPTS = 2;
+
+const VISUAL_TERMS: { term: string; canonical: string }[] = [
+  { term: 'blurred vision', canonical: 'blurred vision' },
+  { term: 'blurry vision', canonical: 'blurred vision' },
+  { term: 'blurry', canonical: 'blurred vision' },
+  { term: 'blurred', canonical: 'blurred vision' },
+  { term: 'seeing spots', canonical: 'seeing spots' },
+  { term: 'spots', canonical: 'seeing spots' },
+  { term: 'flashing lights', canonical: 'flashing lights' },
+  { term: 'flashes', canonical: 'flashing lights' },
+  { term: 'double vision', canonical: 'double vision' },
+  { term: 'vision problems', canonical: 'vision problems' },
+];
+const VISUAL_CANONICALS = ['blurred vision', 'seeing spots', 'vision problems', 'flashing lights', 'double vision'];
+
+// Opportunistic extraction from the first message ("since this morning, 7/10, 150/95")
+const ONSET_PATTERN = /\b(since [^,.;!?]+|(?:this|last|yesterday) (?:morning|afternoon|evening|night)|yesterday|\d+\s*(?:minutes?|hours?|days?|weeks?)\s+ago)\b/i;
+const DURATION_PATTERN = /\bfor\s+(?:the\s+)?(?:past\s+|last\s+)?((?:\d+|a|an|a few|several|two|three|four|five)\s*(?:minutes?|hours?|days?|weeks?))\b/i;
+const SEVERITY_SCALE_PATTERN = /\b(10|[1-9])\s*(?:\/|out of|sur|kati ya)\s*10\b/i;
+const BLOOD_PRESSURE_PATTERN = /\b(\d{2,3})\s*(?:\/|over|sur)\s*(\d{2,3})\b/i;
+// A reading at or above either value is an emergency, as in the obstetric Hypertensive Emergency rule
+const SEVERE_SYSTOLIC_BP = 160;
+const SEVERE_DIASTOLIC_BP = 110;
+
+class ClinicalDialogueManager {
+  createState(): DialogueState {
+    return { frames: [] };
+  }
+
+  isActive(state: DialogueState): boolean {
+    return state.frames.length > 0;
+  }
+
+  reset(state: DialogueState): void {
+    state.frames = [];
+    state.pending = undefined;
+    state.emergencyCheck = undefined;
+  }
+
+  getRequiredSlots(symptom: string): ClinicalSlot[] {
+    return SLOT_REQUIREMENTS[symptom.toLowerCase()] || [];
+  }
+
+  /**
+   * Open a frame for each affirmed symptom that needs follow-up and has no frame yet
+   */
+  openFrames(state: DialogueState, symptoms: ExtractedSymptom[]): SymptomFrame[] {
+    const opened: SymptomFrame[] = [];
+    for (const symptom of symptoms) {
+      const requiredSlots = this.getRequiredSlots(symptom.name);
+      if (requiredSlots.length === 0) continue;
+      if (state.frames.some(f => f.symptom === symptom.name.toLowerCase())) continue;
+
+      const frame: SymptomFrame = {
+        symptom: symptom.name.toLowerCase(),
+        initialSeverity: symptom.severity,
+        requiredSlots,
+        values: {},
+        unknownSlots: [],
+        openedAt: new Date().toISOString(),
+      };
+
+      // Shared slots already answered for an earlier symptom carry over
+      for (const slot of SHARED_SLOTS.filter(s => requiredSlots.includes(s))) {
+        const source = state.frames.find(f => this.isFilled(f, slot));
+        if (source) {
+          this.copySlot(source, frame, slot);
+        } else if (state.frames.some(f => f.unknownSlots.includes(slot))) {
+          frame.unknownSlots.push(slot);
+        }
+      }
+
+      state.frames.push(frame);
+      opened.push(frame);
+    }
+    return opened;
+  }
+
+  /**
+   * Fill any empty slots that the message already answers, without asking
+   */
+  fillFromMessage(state: DialogueState, message: string): void {
+    const onset = message.match(ONSET_PATTERN)?.[1];
+    const duration = message.match(DURATION_PATTERN)?.[1];
+    const severity = message.match(SEVERITY_SCALE_PATTERN)?.[1];
+    const bloodPressure = this.parseBloodPressure(message);
+
+    for (const frame of state.frames) {
+      if (onset) this.setIfEmpty(frame, 'onset', { onset: onset.trim() });
+      if (duration) this.setIfEmpty(frame, 'duration', { duration: duration.trim() });
+      if (severity) this.setIfEmpty(frame, 'severity', { severity: parseInt(severity, 10) });
+      if (bloodPressure) this.setIfEmpty(frame, 'bloodPressure', { bloodPressure });
+    }
+  }
+
+  /**
+   * Read the message as the answer to an emergency confirmation question.
+   * Not knowing counts as yes; null when the message is not an answer.
+   */
+  confirmsEmergency(message: string, lexicons: LexiconPack[]): boolean | null {
+    const text = message.toLowerCase();
+    if (this.matchesAny(text, lexicons.flatMap(l => l.answers.unknown))) return true;
+    if (this.matchesAny(text, lexicons.flatMap(l => l.answers.no))) return false;
+    if (this.matchesAny(text, lexicons.flatMap(l => l.answers.yes))) return true;
+    return null;
+  }
+
+  /**
+   * Whether the message answers the pending question
+   */
+  canAnswer(state: DialogueState, message: string, lexicons: LexiconPack[]): boolean {
+    return !!state.pending && this.parseAnswer(state.pending.slot, message, lexicons) !== null;
+  }
+
+  /**
+   * Treat the message as the answer to the pending question
+   */
+  answerPending(state: DialogueState, message: string, lexicons: LexiconPack[]): AnswerOutcome {
+    const pending = state.pending;
+    if (!pending) return 'none';
+    const frame = state.frames.find(f => f.symptom === pending.symptom);
+    if (!frame) {
+      state.pending = undefined;
+      return 'none';
+    }
+
+    const values = this.parseAnswer(pending.slot, message, lexicons);
+    if (values === 'unknown' || (values === null && pending.attempts + 1 >= MAX_ATTEMPTS)) {
+      this.markUnknown(state, frame, pending.slot);
+      state.pending = undefined;
+      return values === 'unknown' ? 'unknown' : 'unparsed';
+    }
+    if (values === null) {
+      pending.attempts++;
+      return 'unparsed';
+    }
+
+    this.applySlot(state, frame, pending.slot, values);
+    state.pending = undefined;
+    return 'filled';
+  }
+
+  /**
+   * The next slot to ask about, in frame order. Marks it as pending.
+   */
+  nextQuestion(state: DialogueState): SlotQuestion | null {
+    if (state.pending) {
+      const frame = state.frames.find(f => f.symptom === state.pending!.symptom);
+      if (frame) return { frame, slot: state.pending.slot, retry: state.pending.attempts > 0 };
+    }
+
+    for (const frame of state.frames) {
+      const slot = this.getMissingSlots(frame)[0];
+      if (slot) {
+        state.pending = { symptom: frame.symptom, slot, attempts: 0 };
+        return { frame, slot, retry: false };
+      }
+    }
+    return null;
+  }
+
+  isComplete(state: DialogueState): boolean {
+    return state.frames.every(frame => this.getMissingSlots(frame).length === 0);
+  }
+
+  getFilledSlots(frame: SymptomFrame): ClinicalSlot[] {
+    return frame.requiredSlots.filter(slot => this.isFilled(frame, slot));
+  }
+
+  getMissingSlots(frame: SymptomFrame): ClinicalSlot[] {
+    return frame.requiredSlots.filter(slot => !this.isFilled(frame, slot) && !frame.unknownSlots.includes(slot));
+  }
+
+  /**
+   * Convert frames into diagnostic symptoms and the reported blood pressure.
+   * Patient-rated severity replaces the keyword-based guess.
+   */
+  toDiagnosticInput(state: DialogueState): StructuredSymptoms {
+    const symptoms: SymptomInput[] = [];
+    let vitalSigns: VitalSignsInput | undefined;
+
+    for (const frame of state.frames) {
+      const { onset, duration, severity, visualSymptoms, bloodPressure } = frame.values;
+      symptoms.push({
+        name: frame.symptom,
+        severity: severity !== undefined ? this.severityFromScore(severity) : frame.initialSeverity,
+        severityScore: severity,
+        onset,
+        duration,
+        associatedSymptoms: visualSymptoms && visualSymptoms.length > 0 ? visualSymptoms : undefined,
+      });
+
+      for (const visual of visualSymptoms || []) {
+        if (!symptoms.some(s => s.name === visual)) {
+          symptoms.push({ name: visual, severity: 'severe', onset });
+        }
+      }
+
+      if (bloodPressure && !vitalSigns) {
+        vitalSigns = { systolicBP: bloodPressure.systolic, diastolicBP: bloodPressure.diastolic };
+      }
+    }
+
+    return { symptoms, vitalSigns };
+  }
+
+  /**
+   * One line per frame for clinical messages and reasoning traces
+   */
+  describe(frame: SymptomFrame): string {
+    const { onset, duration, severity, visualSymptoms, bloodPressure } = frame.values;
+    const parts: string[] = [];
+    for (const slot of frame.requiredSlots) {
+      if (frame.unknownSlots.includes(slot)) {
+        parts.push(`${slot}: unknown`);
+      } else if (slot === 'onset' && onset) {
+        parts.push(`onset: ${onset}`);
+      } else if (slot === 'duration' && duration) {
+        parts.push(`duration: ${duration}`);
+      } else if (slot === 'severity' && severity !== undefined) {
+        parts.push(`severity: ${severity}/10`);
+      } else if (slot === 'visualSymptoms' && visualSymptoms) {
+        parts.push(`visualSymptoms: ${visualSymptoms.join(', ') || 'denied'}`);
+      } else if (slot === 'bloodPressure' && bloodPressure) {
+        parts.push(`bloodPressure: ${bloodPressure.systolic}/${bloodPressure.diastolic}`);
+      }
+    }
+    return `${frame.symptom} (${parts.join('; ') || 'no details'})`;
+  }
+
+  severityFromScore(score: number): SymptomInput['severity'] {
+    if (score >= 7) return 'severe';
+    if (score >= 4) return 'moderate';
+    return 'mild';
+  }
+
+  /**
+   * Parse an answer for one slot; null when it could not be understood
+   */
+  private parseAnswer(slot: ClinicalSlot, message: string, lexicons: LexiconPack[]): SlotValues | 'unknown' | null {
+    const text = message.trim();
+    const values = this.parseSlot(slot, text, lexicons);
+    if (values) return values;
+    // "sina uhakika" (not sure) contains "sina" (no), so unknown is checked before yes/no
+    if (this.matchesAny(text, lexicons.flatMap(l => l.answers.unknown))) return 'unknown';
+
+    if (slot === 'visualSymptoms') {
+      if (this.matchesAny(text, lexicons.flatMap(l => l.answers.no))) return { visualSymptoms: [] };
+      if (this.matchesAny(text, lexicons.flatMap(l => l.answers.yes))) return { visualSymptoms: ['vision problems'] };
+    }
+    return null;
+  }
+
+  private parseSlot(slot: ClinicalSlot, text: string, lexicons: LexiconPack[]): SlotValues | null {
+    switch (slot) {
+      case 'onset':
+      case 'duration': {
+        const timeWords = lexicons.flatMap(l => l.answers.time);
+        if (!/\d/.test(text) && !this.matchesAny(text, timeWords)) return null;
+        const value = text.slice(0, 100);
+        return slot === 'onset' ? { onset: value } : { duration: value };
+      }
+
+      case 'severity': {
+        const number = text.match(/\b(10|[1-9])\b/);
+        return number ? { severity: parseInt(number[1], 10) } : null;
+      }
+
+      case 'visualSymptoms': {
+        const visual = this.findVisualSymptoms(text, lexicons);
+        return visual.length > 0 ? { visualSymptoms: visual } : null;
+      }
+
+      case 'bloodPressure': {
+        const bloodPressure = this.parseBloodPressure(text);
+        return bloodPressure ? { bloodPressure } : null;
+      }
+    }
+  }
+
+  private findVisualSymptoms(text: string, lexicons: LexiconPack[]): string[] {
+    const terms = [
+      ...lexicons.flatMap(lexicon => lexicon.emergencyKeywords
+        .filter(k => VISUAL_CANONICALS.includes(k.canonical))
+        .map(k => ({ ...k, rules: getNegationRules(lexicon) }))),
+      ...VISUAL_TERMS.map(k => ({ ...k, rules: undefined })),
+    ];
+
+    const found: string[] = [];
+    for (const { term, canonical, rules } of terms) {
+      const mentions = clinicalContextAnalyzer.analyzeTerm(text, term, rules);
+      if (mentions.some(m => clinicalContextAnalyzer.isActionable(m.context)) && !found.includes(canonical)) {
+        found.push(canonical);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Find a blood pressure reading in a message ("the machine says 168/112")
+   * and where it is
+   */
+  findBloodPressure(text: string): (BloodPressureReading & { start: number; end: number }) | undefined {
+    const match = text.match(BLOOD_PRESSURE_PATTERN);
+    if (!match) return undefined;
+    const systolic = parseInt(match[1], 10);
+    const diastolic = parseInt(match[2], 10);
+    // Reject dates, scores and other number pairs that cannot be a reading
+    if (systolic < 60 || systolic > 260 || diastolic < 30 || diastolic > 160 || systolic <= diastolic) {
+      return undefined;
+    }
+    return { systolic, diastolic, start: match.index!, end: match.index! + match[0].length };
+  }
+
+  isSevereBloodPressure(reading: BloodPressureReading): boolean {
+    return reading.systolic >= SEVERE_SYSTOLIC_BP || reading.diastolic >= SEVERE_DIASTOLIC_BP;
+  }
+
+  private parseBloodPressure(text: string): BloodPressureReading | undefined {
+    const reading = this.findBloodPressure(text);
+    return reading && { systolic: reading.systolic, diastolic: reading.diastolic };
+  }
+
+  private matchesAny(text: string, phrases: string[]): boolean {
+    return phrases.some(phrase => clinicalContextAnalyzer.findMentions(text, phrase).length > 0);
+  }
+
+  private applySlot(state: DialogueState, frame: SymptomFrame, slot: ClinicalSlot, values: SlotValues): void {
+    const targets = SHARED_SLOTS.includes(slot)
+      ? state.frames.filter(f => f.requiredSlots.includes(slot))
+      : [frame];
+    for (const target of targets) {
+      target.values = { ...target.values, ...values };
+      target.unknownSlots = target.unknownSlots.filter(s => s !== slot);
+    }
+  }
+
+  private markUnknown(state: DialogueState, frame: SymptomFrame, slot: ClinicalSlot): void {
+    const targets = SHARED_SLOTS.includes(slot)
+      ? state.frames.filter(f => f.requiredSlots.includes(slot))
+      : [frame];
+    for (const target of targets) {
+      if (!target.unknownSlots.includes(slot)) target.unknownSlots.push(slot);
+    }
+  }
+
+  private setIfEmpty(frame: SymptomFrame, slot: ClinicalSlot, values: SlotValues): void {
+    if (frame.requiredSlots.includes(slot) && !this.isFilled(frame, slot)) {
+      frame.values = { ...frame.values, ...values };
+    }
+  }
+
+  private copySlot(source: SymptomFrame, target: SymptomFrame, slot: ClinicalSlot): void {
+    target.values = { ...target.values, [slot]: source.values[slot] };
+  }
+
+  private isFilled(frame: SymptomFrame, slot: ClinicalSlot): boolean {
+    return frame.values[slot] !== undefined;
+  }
+}
+
+// Export singleton instance
+export const clinicalDialogueManager = new ClinicalDialogueManager();
+export default clinicalDialogueManager;
@@ -0,0 +1,383 @@
+/**
+ * Clinical Report Generator for Maternal Health AI
+ *
+ * Implements:
+ * - Clinical reports from stored ai_assessments records: patient header,
+ *   gestational age, inputs, differential with ICD codes, fired rules,
+ *   confidence, limitations and disclaimers
+ * - A plain-language patient version generated from the same assessment
+ *
+ * Assessments stored before their diagnostic input and result were recorded
+ * produce a shorter report from the summary columns only.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { RiskLevel } from '@/types/database.types';
+import { ReportDocument, ReportSection } from '@/lib/reportDocument';
+import type { DiagnosticInput, DiagnosticResult } from './DiagnosticReasoningEngine';
+import { explainabilityEngine, Explanation } from './ExplainabilityEngine';
+
+// Types
+export type ReportAudience = 'clinician' | 'patient';
+
+export interface ClinicalReport {
+  assessmentId: string;
+  assessedAt: string;
+  generatedAt: string;
+  patient: {
+    name: string;
+    dateOfBirth?: string;
+    bloodType?: string;
+    dueDate?: string;
+    gestationalAgeWeeks?: number;
+  };
+  inputs: {
+    symptoms: string[];
+    severity?: string;
+    description?: string;
+    vitalSigns: { label: string; value: string }[];
+    riskFactors: string[];
+  };
+  riskLevel: RiskLevel;
+  requiresDoctorReview: boolean;
+  confidence?: number;
+  justification: string;
+  recommendations: string[];
+  /** Set when the assessment's diagnostic result was stored */
+  diagnosticResult?: DiagnosticResult;
+  explanation?: Explanation;
+  modelVersion?: string;
+  knowledgeBaseVersion?: string;
+}
+
+const RISK_LABELS: Record<RiskLevel, string> = {
+  level_1: 'Level 1 - Low',
+  level_2: 'Level 2 - Moderate',
+  level_3: 'Level 3 - High',
+  level_4: 'Level 4 - Critical',
+};
+
+const RISK_TONES: Record<RiskLevel, NonNullable<ReportSection['callout']>['tone']> = {
+  level_1: 'success',
+  level_2: 'info',
+  level_3: 'warning',
+  level_4: 'danger',
+};
+
+const PATIENT_RISK_SUMMARIES: Record<RiskLevel, string> = {
+  level_1: 'Your assessment showed low risk. Keep monitoring how you feel.',
+  level_2: 'Your assessment showed some things to keep an eye on. Check in with your doctor soon.',
+  level_3: 'Your assessment showed signs that need prompt attention. Contact your healthcare provider within 24 hours.',
+  level_4: 'Your assessment showed signs that need medical care right away. Contact your doctor or go to the hospital.',
+};
+
+const VITAL_LABELS: Record<string, { label: string; unit: string }> = {
+  systolicBP: { label: 'Systolic BP', unit: ' mmHg' },
+  diastolicBP: { label: 'Diastolic BP', unit: ' mmHg' },
+  heartRate: { label: 'Heart rate', unit: ' bpm' },
+  temperature: { label: 'Temperature', unit: ' °C' },
+  weight: { label: 'Weight', unit: ' kg' },
+  oxygenSaturation: { label: 'Oxygen saturation', unit: '%' },
+};
+
+const DEFAULT_DISCLAIMERS = [
+  'This assessment is provided for informational purposes only.',
+  'It is not a definitive diagnosis and should not replace professional medical advice.',
+  'In case of emergency, seek immediate medical attention.',
+];
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }) : 'Not recorded';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+class ClinicalReportGenerator {
+  /**
+   * Load an assessment with its patient and symptom report
+   */
+  async buildReport(assessmentId: string): Promise<ClinicalReport> {
+    const { data, error } = await (supabase as any)
+      .from('ai_assessments')
+      .select(`
+        id,
+        risk_level,
+        confidence_score,
+        recommendations,
+        decision_explanation,
+        ai_model_version,
+        knowledge_base_version,
+        requires_doctor_review,
+        diagnostic_input,
+        diagnostic_result,
+        created_at,
+        symptoms (symptoms, severity, description),
+        mother_profiles (full_name, date_of_birth, blood_type, due_date, gestational_age_weeks)
+      `)
+      .eq('id', assessmentId)
+      .single();
+
+    if (error) throw error;
+
+    const input: Omit<DiagnosticInput, 'history'> | undefined = data.diagnostic_input || undefined;
+    const result: DiagnosticResult | undefined = data.diagnostic_result || undefined;
+    const mother = data.mother_profiles || {};
+    const gestationalAgeWeeks = input?.pregnancyStage.weeksGestation ?? mother.gestational_age_weeks ?? undefined;
+
+    const explanation = result
+      ? explainabilityEngine.generateExplanation({
+          aiOutput: result,
+          userRole: 'doctor',
+          detailLevel: 'full',
+          context: { pregnancyWeek: gestationalAgeWeeks, riskLevel: result.overallRiskLevel },
+          modelVersion: result.modelVersion,
+        })
+      : undefined;
+
+    return {
+      assessmentId: data.id,
+      assessedAt: data.created_at,
+      generatedAt: new Date().toISOString(),
+      patient: {
+        name: mother.full_name || 'Unknown patient',
+        dateOfBirth: mother.date_of_birth || undefined,
+        bloodType: mother.blood_type || undefined,
+        dueDate: mother.due_date || undefined,
+        gestationalAgeWeeks,
+      },
+      inputs: {
+        symptoms: input?.symptoms.map(s => `${s.name} (${s.severity})`) || data.symptoms?.symptoms || [],
+        severity: data.symptoms?.severity,
+        description: data.symptoms?.description || undefined,
+        vitalSigns: Object.entries(input?.vitalSigns || {})
+          .filter(([, value]) => value !== undefined && value !== null)
+          .map(([sign, value]) => ({
+            label: VITAL_LABELS[sign]?.label || sign,
+            value: `${value}${VITAL_LABELS[sign]?.unit || ''}`,
+          })),
+        riskFactors: input?.riskFactors || [],
+      },
+      riskLevel: data.risk_level,
+      requiresDoctorReview: !!data.requires_doctor_review,
+      confidence: data.confidence_score ?? undefined,
+      justification: data.decision_explanation,
+      recommendations: (data.recommendations || []).map((r: any) => typeof r === 'string' ? r : r.description),
+      diagnosticResult: result,
+      explanation,
+      modelVersion: data.ai_model_version || result?.modelVersion,
+      knowledgeBaseVersion: data.knowledge_base_version || result?.knowledgeBaseVersion,
+    };
+  }
+
+  /**
+   * Most recent assessment for a patient, if any
+   */
+  async getLatestAssessmentId(motherId: string): Promise<string | null> {
+    const { data, error } = await (supabase as any)
+      .from('ai_assessments')
+      .select('id')
+      .eq('mother_id', motherId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id || null;
+  }
+
+  /**
+   * Lay out a report for its audience
+   */
+  toDocument(report: ClinicalReport, audience: ReportAudience): ReportDocument {
+    return audience === 'clinician' ? this.clinicianDocument(report) : this.patientDocument(report);
+  }
+
+  private clinicianDocument(report: ClinicalReport): ReportDocument {
+    const result = report.diagnosticResult;
+    const trace = result?.explanationTrace;
+    const sections: ReportSection[] = [];
+
+    sections.push({
+      heading: 'Risk Assessment',
+      callout: { text: RISK_LABELS[report.riskLevel], tone: RISK_TONES[report.riskLevel] },
+      paragraphs: [
+        report.justification,
+        ...(result ? [`Urgency: ${result.urgency}.`] : []),
+        report.requiresDoctorReview ? 'Flagged for doctor review.' : 'Not flagged for doctor review.',
+      ],
+    });
+
+    const inputBullets = [
+      `Symptoms: ${report.inputs.symptoms.join(', ') || 'None reported'}${report.inputs.severity ? ` (reported severity: ${report.inputs.severity})` : ''}`,
+      ...(report.inputs.description ? [`Patient description: ${report.inputs.description}`] : []),
+      `Risk factors: ${report.inputs.riskFactors.join(', ') || 'None recorded'}`,
+    ];
+    sections.push({
+      heading: 'Inputs',
+      bullets: inputBullets,
+      table: report.inputs.vitalSigns.length > 0
+        ? { columns: ['Vital sign', 'Value'], rows: report.inputs.vitalSigns.map(v => [v.label, v.value]) }
+        : undefined,
+      paragraphs: report.inputs.vitalSigns.length > 0 ? undefined : ['No vital signs were available to the assessment.'],
+    });
+
+    if (result && trace) {
+      sections.push({
+        heading: 'Differential Diagnosis',
+        ...(result.differentialConditions.length > 0
+          ? {
+              table: {
+                columns: ['Condition', 'ICD-10', 'Probability', 'Supporting findings'],
+                widths: [3, 1.2, 1.3, 4],
+                rows: result.differentialConditions.map(c => {
+                  const factor = trace.bayesianFactors.find(f => f.factor === c.condition);
+                  return [
+                    c.condition,
+                    c.icdCode || '-',
+                    percent(c.probability),
+                    factor?.evidence || c.matchingSymptoms.join(', ') || '-',
+                  ];
+                }),
+              },
+            }
+          : { paragraphs: ['No condition reached 10% probability.'] }),
+      });
+
+      const fired = trace.rulesApplied.filter(r => r.triggered);
+      sections.push({
+        heading: 'Clinical Rules Fired',
+        ...(fired.length > 0
+          ? {
+              table: {
+                columns: ['Rule', 'Criteria', 'Action'],
+                widths: [2, 4, 3],
+                rows: fired.map(r => [r.ruleName, r.ruleDescription, r.output]),
+              },
+            }
+          : { paragraphs: [`None of the ${trace.rulesApplied.length} rules fired.`] }),
+        bullets: trace.temporalFindings.map(f => `${f.ruleName}: ${f.condition}`),
+      });
+    } else {
+      sections.push({
+        heading: 'Differential Diagnosis and Rules',
+        paragraphs: ['The detailed reasoning for this assessment was not stored; see the summary above.'],
+      });
+    }
+
+    sections.push({
+      heading: 'Recommendations',
+      bullets: report.recommendations.length > 0 ? report.recommendations : ['No recommendations recorded'],
+    });
+
+    const confidence = report.explanation?.forClinician.confidence;
+    sections.push({
+      heading: 'Confidence',
+      paragraphs: [
+        report.confidence !== undefined ? `Overall confidence: ${percent(report.confidence)}.` : 'Confidence was not recorded.',
+        ...(confidence ? [confidence.reliabilityAssessment] : []),
+      ],
+      table: confidence
+        ? {
+            columns: ['Factor', 'Confidence', 'Weight'],
+            widths: [5, 1.5, 1.5],
+            rows: confidence.byFactor.map(f => [f.factor, percent(f.confidence), f.weight.toFixed(2)]),
+          }
+        : undefined,
+      bullets: confidence?.uncertaintyFactors,
+    });
+
+    sections.push({
+      heading: 'Limitations',
+      bullets: trace?.limitations || report.explanation?.forClinician.limitations || [
+        'AI-assisted assessment should be used in conjunction with clinical judgment',
+        'Always correlate with clinical examination',
+      ],
+    });
+
+    sections.push({
+      heading: 'Disclaimers',
+      bullets: result?.disclaimers || DEFAULT_DISCLAIMERS,
+    });
+
+    return {
+      title: 'Clinical AI Assessment Report',
+      subtitle: `Assessment of ${formatDateTime(report.assessedAt)}`,
+      header: this.patientHeader(report),
+      sections,
+      footer: this.footer(report),
+    };
+  }
+
+  private patientDocument(report: ClinicalReport): ReportDocument {
+    const patient = report.explanation?.forPatient;
+    const sections: ReportSection[] = [
+      {
+        heading: 'Summary',
+        callout: { text: PATIENT_RISK_SUMMARIES[report.riskLevel], tone: RISK_TONES[report.riskLevel] },
+        paragraphs: patient ? [patient.whyThisMatters] : [],
+      },
+    ];
+
+    if (patient) {
+      sections.push({ heading: 'What We Found', bullets: patient.whatWeFound });
+      sections.push({ heading: 'What You Can Do', bullets: patient.whatYouCanDo });
+      sections.push({
+        heading: 'How Sure We Are',
+        paragraphs: [patient.confidence.description],
+      });
+      sections.push({
+        heading: 'When To Get Help',
+        paragraphs: [patient.whenToWorry[0]],
+        bullets: patient.whenToWorry.slice(1).map(w => w.replace(/^•\s*/, '')),
+      });
+    } else {
+      sections.push({
+        heading: 'What You Can Do',
+        bullets: report.recommendations.length > 0 ? report.recommendations : ['Talk to your doctor about this assessment'],
+      });
+    }
+
+    sections.push({
+      heading: 'Please Note',
+      bullets: report.diagnosticResult?.disclaimers || DEFAULT_DISCLAIMERS,
+    });
+
+    return {
+      title: 'Your Health Check Summary',
+      subtitle: `From your check on ${formatDate(report.assessedAt)}`,
+      header: [
+        ['Name', report.patient.name],
+        ['Week of pregnancy', report.patient.gestationalAgeWeeks !== undefined ? `Week ${report.patient.gestationalAgeWeeks}` : 'Not recorded'],
+        ['Due date', formatDate(report.patient.dueDate)],
+      ],
+      sections,
+      footer: [`Reference: ${report.assessmentId}`, `Prepared ${formatDateTime(report.generatedAt)}`],
+    };
+  }
+
+  private patientHeader(report: ClinicalReport): [string, string][] {
+    const week = report.patient.gestationalAgeWeeks;
+    return [
+      ['Patient', report.patient.name],
+      ['Date of birth', formatDate(report.patient.dateOfBirth)],
+      ['Blood type', report.patient.bloodType || 'Not recorded'],
+      ['Gestational age', week !== undefined ? `${week} weeks (trimester ${week <= 12 ? 1 : week <= 27 ? 2 : 3})` : 'Not recorded'],
+      ['Estimated due date', formatDate(report.patient.dueDate)],
+      ['Assessed', formatDateTime(report.assessedAt)],
+    ];
+  }
+
+  private footer(report: ClinicalReport): string[] {
+    return [
+      `Assessment ${report.assessmentId}`,
+      `Model ${report.modelVersion || 'unknown'} · Knowledge base ${report.knowledgeBaseVersion || 'unknown'}`,
+      `Report generated ${formatDateTime(report.generatedAt)}`,
+    ];
+  }
+}
+
+// Export singleton instance
+export const clinicalReportGenerator = new ClinicalReportGenerator();
+export default clinicalReportGenerator;
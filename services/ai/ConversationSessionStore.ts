@@ -0,0 +1,359 @@
+/**
+ * Conversation Session Store for Maternal Health AI
+ *
+ * Implements:
+ * - Server-side persistence of conversation sessions and messages
+ * - Resuming a session's engine state on another device or after restart
+ * - Session expiry after a period of inactivity
+ * - Summarization of long contexts into a running summary
+ * - Session list and transcript queries for the chat history browser
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { RiskLevel } from '@/types/database.types';
+import type {
+  AIResponse,
+  ConversationContext,
+  ConversationMessage,
+  EmotionalTone,
+  ExtractedSymptom,
+  Intent,
+  UserRole,
+} from './AIConversationalEngine';
+import type { DialogueState } from './ClinicalDialogueManager';
+import { formatModelVersion, TEMPLATE_MODEL } from './LanguageModelProvider';
+import { normalizeLanguage, SupportedLanguage } from './lexicons';
+
+// Types
+export type SessionStatus = 'active' | 'expired' | 'closed';
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  language: SupportedLanguage;
+  status: SessionStatus;
+  summary?: string;
+  messageCount: number;
+  lastRiskLevel?: RiskLevel;
+  highestRiskLevel?: RiskLevel;
+  lastMessageAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+/** Engine state needed to continue a conversation where it stopped */
+export interface SessionSnapshot {
+  extractedSymptoms: ExtractedSymptom[];
+  dialogue: DialogueState;
+  currentIntent: Intent;
+  emotionalTone: EmotionalTone;
+  pregnancyWeek?: number;
+  riskFactors: string[];
+}
+
+export interface StoredMessage {
+  id: string;
+  role: ConversationMessage['role'];
+  content: string;
+  intent?: Intent;
+  riskLevel?: RiskLevel;
+  extractedSymptoms: string[];
+  createdAt: Date;
+}
+
+export interface StoredSession extends SessionSummary {
+  userId: string;
+  userRole: UserRole;
+  state: SessionSnapshot;
+  /** Most recent messages, oldest first */
+  messages: StoredMessage[];
+}
+
+// Sessions expire after this long without a message
+export const SESSION_TTL_HOURS = 24;
+
+// Contexts longer than this are summarized down to the most recent messages
+const CONTEXT_MESSAGE_LIMIT = 30;
+const CONTEXT_KEEP_RECENT = 10;
+
+const TITLE_LENGTH = 60;
+const RISK_LEVELS: RiskLevel[] = ['level_1', 'level_2', 'level_3', 'level_4'];
+
+class ConversationSessionStore {
+  /**
+   * New session id; also used offline, so it is generated client-side
+   */
+  createSessionId(): string {
+    return crypto.randomUUID ? crypto.randomUUID() : `session_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  expiryFrom(lastActivity: Date): Date {
+    return new Date(lastActivity.getTime() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+  }
+
+  isExpired(lastActivity: Date, now: Date = new Date()): boolean {
+    return this.expiryFrom(lastActivity).getTime() <= now.getTime();
+  }
+
+  /**
+   * Load a session with its state and recent messages
+   */
+  async load(sessionId: string): Promise<StoredSession | null> {
+    try {
+      const { data: row } = await (supabase as any)
+        .from('ai_chat_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .single();
+      if (!row) return null;
+
+      const { data: messages } = await (supabase as any)
+        .from('ai_chat_messages')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: false })
+        .limit(CONTEXT_MESSAGE_LIMIT);
+
+      return {
+        ...this.toSummary(row),
+        userId: row.user_id,
+        userRole: row.user_role,
+        state: row.state,
+        messages: (messages || []).map((m: any) => this.toMessage(m)).reverse(),
+      };
+    } catch (error) {
+      console.log('Chat session storage not available:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist one exchange: the user message, the assistant reply and the
+   * engine state after it
+   */
+  async saveTurn(context: ConversationContext, response: AIResponse): Promise<void> {
+    const [userMessage, assistantMessage] = context.messages.slice(-2);
+    const now = new Date();
+    const session = {
+      language: context.language,
+      status: 'active',
+      summary: context.summary,
+      state: this.snapshot(context),
+      message_count: context.messageCount,
+      last_risk_level: response.riskLevel,
+      highest_risk_level: context.highestRiskLevel,
+      last_message_at: now.toISOString(),
+      expires_at: this.expiryFrom(now).toISOString(),
+      updated_at: now.toISOString(),
+    };
+
+    try {
+      // Upserted every turn, so a session whose first save failed is still created
+      const { error: sessionError } = await (supabase as any).from('ai_chat_sessions').upsert({
+        id: context.sessionId,
+        user_id: context.userId,
+        user_role: context.userRole,
+        ...(context.messageCount <= 2 ? { title: this.titleFor(userMessage?.content) } : {}),
+        ...session,
+      }, { onConflict: 'id' });
+      if (sessionError) throw sessionError;
+
+      // Transcripts are ordered by created_at; a fast reply can share the user's millisecond
+      const userTime = userMessage?.timestamp.getTime() ?? 0;
+      const { error: messagesError } = await (supabase as any).from('ai_chat_messages').insert(
+        [userMessage, assistantMessage].filter(Boolean).map(m => ({
+          session_id: context.sessionId,
+          role: m.role,
+          content: m.content,
+          intent: m.metadata?.intent,
+          risk_level: m.metadata?.riskLevel,
+          extracted_symptoms: m.metadata?.symptoms || [],
+          metadata: m.role === 'assistant'
+            ? {
+              confidence: response.confidence,
+              requiresEscalation: response.requiresEscalation,
+              followUpSlot: response.followUp?.slot,
+              generatedBy: formatModelVersion(response.generatedBy || TEMPLATE_MODEL),
+            }
+            : {},
+          created_at: new Date(
+            m === assistantMessage ? Math.max(m.timestamp.getTime(), userTime + 1) : m.timestamp.getTime()
+          ).toISOString(),
+        }))
+      );
+      if (messagesError) throw messagesError;
+    } catch (error) {
+      console.error('Error saving chat turn:', error);
+    }
+  }
+
+  /**
+   * Sessions of a user, most recent first
+   */
+  async listSessions(userId: string, limit: number = 20): Promise<SessionSummary[]> {
+    try {
+      const { data } = await (supabase as any)
+        .from('ai_chat_sessions')
+        .select('id, title, language, status, summary, message_count, last_risk_level, highest_risk_level, last_message_at, expires_at, created_at')
+        .eq('user_id', userId)
+        .order('last_message_at', { ascending: false })
+        .limit(limit);
+
+      return (data || []).map((row: any) => this.toSummary(row));
+    } catch (error) {
+      console.log('Chat session storage not available:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Full transcript of a session, oldest first
+   */
+  async getMessages(sessionId: string, limit: number = 200): Promise<StoredMessage[]> {
+    try {
+      const { data } = await (supabase as any)
+        .from('ai_chat_messages')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      return (data || []).map((m: any) => this.toMessage(m));
+    } catch (error) {
+      console.log('Chat session storage not available:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Close a session so it is no longer resumed
+   */
+  async closeSession(sessionId: string): Promise<boolean> {
+    try {
+      await (supabase as any)
+        .from('ai_chat_sessions')
+        .update({ status: 'closed', updated_at: new Date().toISOString() })
+        .eq('id', sessionId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Fold messages beyond the context limit into the running summary, keeping
+   * the most recent ones verbatim. The full transcript stays in storage.
+   */
+  summarizeContext(context: ConversationContext): void {
+    if (context.messages.length <= CONTEXT_MESSAGE_LIMIT) return;
+
+    const older = context.messages.slice(0, -CONTEXT_KEEP_RECENT);
+    context.messages = context.messages.slice(-CONTEXT_KEEP_RECENT);
+
+    const symptoms = new Set<string>();
+    const topics = new Set<string>();
+    let highest: RiskLevel | undefined;
+    for (const message of older) {
+      message.metadata?.symptoms?.forEach(s => symptoms.add(s));
+      const intent = message.metadata?.intent;
+      if (message.role === 'user' && intent && intent !== 'general' && intent !== 'symptom_report') {
+        topics.add(intent.replace('_', ' '));
+      }
+      highest = this.higherRisk(highest, message.metadata?.riskLevel);
+    }
+
+    const parts = [`${older.length} earlier messages`];
+    if (symptoms.size > 0) parts.push(`symptoms reported: ${Array.from(symptoms).join(', ')}`);
+    if (topics.size > 0) parts.push(`also discussed: ${Array.from(topics).join(', ')}`);
+    if (highest) parts.push(`highest risk: ${highest}`);
+
+    context.summary = [context.summary, parts.join('; ')].filter(Boolean).join('\n');
+  }
+
+  /**
+   * Rebuild engine context fields from a stored session
+   */
+  restoreContext(session: StoredSession): Pick<
+    ConversationContext,
+    'messages' | 'summary' | 'messageCount' | 'highestRiskLevel' | 'lastUpdated'
+  > & SessionSnapshot {
+    const { state } = session;
+    return {
+      extractedSymptoms: state.extractedSymptoms || [],
+      dialogue: state.dialogue || { frames: [] },
+      currentIntent: state.currentIntent || 'general',
+      emotionalTone: state.emotionalTone || 'neutral',
+      pregnancyWeek: state.pregnancyWeek,
+      riskFactors: state.riskFactors || [],
+      messages: session.messages.map(m => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        timestamp: m.createdAt,
+        metadata: { intent: m.intent, riskLevel: m.riskLevel, symptoms: m.extractedSymptoms },
+      })),
+      summary: session.summary,
+      messageCount: session.messageCount,
+      highestRiskLevel: session.highestRiskLevel,
+      lastUpdated: session.lastMessageAt,
+    };
+  }
+
+  higherRisk(a: RiskLevel | undefined, b: RiskLevel | undefined): RiskLevel | undefined {
+    if (!a || !b) return a || b;
+    return RISK_LEVELS.indexOf(a) >= RISK_LEVELS.indexOf(b) ? a : b;
+  }
+
+  private snapshot(context: ConversationContext): SessionSnapshot {
+    return {
+      extractedSymptoms: context.extractedSymptoms,
+      dialogue: context.dialogue,
+      currentIntent: context.currentIntent,
+      emotionalTone: context.emotionalTone,
+      pregnancyWeek: context.pregnancyWeek,
+      riskFactors: context.riskFactors,
+    };
+  }
+
+  private titleFor(content?: string): string {
+    const text = (content || '').trim().replace(/\s+/g, ' ');
+    return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text || 'Conversation';
+  }
+
+  private toSummary(row: any): SessionSummary {
+    const lastMessageAt = new Date(row.last_message_at);
+    const expiresAt = new Date(row.expires_at);
+    const status: SessionStatus = row.status === 'active' && expiresAt.getTime() <= Date.now()
+      ? 'expired'
+      : row.status;
+    return {
+      id: row.id,
+      title: row.title || 'Conversation',
+      language: normalizeLanguage(row.language),
+      status,
+      summary: row.summary || undefined,
+      messageCount: row.message_count || 0,
+      lastRiskLevel: row.last_risk_level || undefined,
+      highestRiskLevel: row.highest_risk_level || undefined,
+      lastMessageAt,
+      expiresAt,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private toMessage(row: any): StoredMessage {
+    return {
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      intent: row.intent || undefined,
+      riskLevel: row.risk_level || undefined,
+      extractedSymptoms: row.extracted_symptoms || [],
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
+
+// Export singleton instance
+export const conversationSessionStore = new ConversationSessionStore();
+export default conversationSessionStore;
@@ -0,0 +1,440 @@
+/**
+ * Counterfactual Generator for Maternal Health AI
+ *
+ * Implements:
+ * - Decision boundaries: re-runs the diagnostic engine with minimally
+ *   perturbed inputs (a vital sign or gestational week just across a
+ *   threshold the knowledge pack uses, one symptom or risk factor removed)
+ *   and reports the changes that would alter the risk level
+ * - Rule justifications: which conditions each triggered rule depended on
+ *
+ * Trend rules over vital sign history are not perturbed.
+ */
+
+import { RiskLevel } from '@/types/database.types';
+import {
+  knowledgeBase,
+  compare,
+  evaluateRuleExpression,
+  ComparisonOperator,
+  KnowledgePack,
+  RuleExpression,
+  RuleFact,
+} from './KnowledgeBase';
+import { diagnosticEngine, DiagnosticInput, DiagnosticResult } from './DiagnosticReasoningEngine';
+
+// Types
+export interface Counterfactual {
+  /**
+   * 'threshold' moves one or more facts just across a boundary; the others
+   * remove one symptom or risk factor
+   */
+  kind: 'threshold' | 'symptom_removed' | 'risk_factor_removed';
+  /** Fact paths joined with '+', or the symptom / risk factor name */
+  feature: string;
+  /** Readable name of the feature, e.g. 'systolic BP' */
+  label: string;
+  /** Threshold crossings; empty for removals */
+  changes: ThresholdChange[];
+  originalRiskLevel: RiskLevel;
+  counterfactualRiskLevel: RiskLevel;
+  rulesStopped: string[];
+  rulesStarted: string[];
+  /** "Risk would be level_2 instead of level_3 if systolic BP were below 140" */
+  statement: string;
+}
+
+export interface ThresholdChange {
+  fact: string;
+  label: string;
+  originalValue: number;
+  counterfactualValue: number;
+  /** Side of the boundary the counterfactual value lies on, e.g. '< 140' */
+  boundary: string;
+  /** The same in words, e.g. 'below 140' */
+  boundaryDescription: string;
+}
+
+export interface RuleJustification {
+  ruleName: string;
+  /** Conditions without which the rule would not have fired, e.g. 'week ≥ 28' */
+  becauseOf: string[];
+  statement: string;
+}
+
+export interface CounterfactualAnalysis {
+  riskLevel: RiskLevel;
+  knowledgeBaseVersion: string;
+  /** Risk-changing perturbations, smallest change first */
+  counterfactuals: Counterfactual[];
+  ruleJustifications: RuleJustification[];
+  /** Diagnostic engine re-runs used */
+  evaluations: number;
+}
+
+type NumericFact = Extract<
+  RuleFact,
+  | 'vitalSigns.systolicBP'
+  | 'vitalSigns.diastolicBP'
+  | 'vitalSigns.heartRate'
+  | 'vitalSigns.temperature'
+  | 'vitalSigns.oxygenSaturation'
+  | 'pregnancyStage.weeksGestation'
+>;
+
+// A threshold crossing; exitsThreshold when the current value meets the threshold
+interface Crossing {
+  change: ThresholdChange;
+  exitsThreshold: boolean;
+}
+
+const RISK_ORDER: RiskLevel[] = ['level_1', 'level_2', 'level_3', 'level_4'];
+const MAX_EVALUATIONS = 40;
+
+// Smallest meaningful change of each perturbed fact, and how it reads
+const FACTS: Record<NumericFact, { step: number; label: string; unit: string }> = {
+  'vitalSigns.systolicBP': { step: 1, label: 'systolic BP', unit: '' },
+  'vitalSigns.diastolicBP': { step: 1, label: 'diastolic BP', unit: '' },
+  'vitalSigns.heartRate': { step: 1, label: 'heart rate', unit: ' bpm' },
+  'vitalSigns.temperature': { step: 0.1, label: 'temperature', unit: '°C' },
+  'vitalSigns.oxygenSaturation': { step: 1, label: 'oxygen saturation', unit: '%' },
+  'pregnancyStage.weeksGestation': { step: 1, label: 'week', unit: '' },
+};
+
+const OTHER_FACT_LABELS: Partial<Record<RuleFact, string>> = {
+  'vitalSigns.weight': 'weight',
+  'pregnancyStage.trimester': 'trimester',
+  'pregnancyStage.previousPregnancies': 'previous pregnancies',
+  'riskFactors.count': 'number of risk factors',
+  'symptoms.count': 'number of symptoms',
+};
+
+// Trimester thresholds map onto the weeks that start each trimester
+const TRIMESTER_START_WEEKS: Record<number, number> = { 1: 0, 2: 13, 3: 28 };
+const TRIMESTER_WEEKS: Record<number, string> = { 1: 'week ≤ 12', 2: 'week 13–27', 3: 'week ≥ 28' };
+
+const OPERATOR_SYMBOLS: Record<ComparisonOperator, string> = {
+  '>': '>', '>=': '≥', '<': '<', '<=': '≤', '==': '=', '!=': '≠',
+};
+
+class CounterfactualGenerator {
+  /**
+   * Find the smallest input changes that would change a diagnostic result's
+   * risk level. Uses the pack the result was produced with unless one is given.
+   */
+  async generate(
+    input: DiagnosticInput,
+    result: DiagnosticResult,
+    knowledgePack?: KnowledgePack
+  ): Promise<CounterfactualAnalysis> {
+    const pack = knowledgePack
+      || await knowledgeBase.getPackVersion(result.knowledgeBaseVersion)
+      || await knowledgeBase.getActivePack();
+    const original = this.firedRules(pack, input);
+    let evaluations = 0;
+
+    const rerun = async (perturbed: DiagnosticInput) => {
+      evaluations++;
+      return diagnosticEngine.analyze(perturbed, { knowledgePack: pack, modelVersion: result.modelVersion });
+    };
+
+    const counterfactuals: (Counterfactual & { distance: number })[] = [];
+    const record = (
+      perturbed: DiagnosticInput,
+      outcome: DiagnosticResult,
+      base: Pick<Counterfactual, 'kind' | 'feature' | 'label' | 'changes'>,
+      condition: string,
+      distance: number
+    ) => {
+      const fired = this.firedRules(pack, perturbed);
+      counterfactuals.push({
+        ...base,
+        originalRiskLevel: result.overallRiskLevel,
+        counterfactualRiskLevel: outcome.overallRiskLevel,
+        rulesStopped: original.filter(name => !fired.includes(name)),
+        rulesStarted: fired.filter(name => !original.includes(name)),
+        statement: `Risk would be ${outcome.overallRiskLevel} instead of ${result.overallRiskLevel} ${condition}`,
+        distance,
+      });
+    };
+    const recordThresholds = (perturbed: DiagnosticInput, outcome: DiagnosticResult, changes: ThresholdChange[]) => {
+      record(perturbed, outcome, {
+        kind: 'threshold',
+        feature: changes.map(c => c.fact).join('+'),
+        label: changes.map(c => c.label).join(' and '),
+        changes,
+      },
+      `if ${changes.map(c => `${c.label} were ${c.boundaryDescription}`).join(' and ')}`,
+      changes.reduce((sum, c) => sum + Math.abs(c.counterfactualValue - c.originalValue) / FACTS[c.fact as NumericFact].step, 0));
+    };
+
+    // Vital signs and gestational week, nearest boundaries first; per fact and
+    // direction only the closest boundary that changes the risk level is kept
+    const boundaries = new Map<NumericFact, Crossing[]>();
+    for (const fact of Object.keys(FACTS) as NumericFact[]) {
+      const current = this.readFact(input, fact);
+      if (current === undefined) continue;
+      boundaries.set(fact, this.boundaryValues(pack, fact, current));
+
+      const found = { up: false, down: false };
+      for (const { change } of boundaries.get(fact)!) {
+        const direction = change.counterfactualValue > current ? 'up' : 'down';
+        if (found[direction] || evaluations >= MAX_EVALUATIONS) continue;
+
+        const perturbed = this.withFact(input, fact, change.counterfactualValue);
+        const outcome = await rerun(perturbed);
+        if (outcome.overallRiskLevel === result.overallRiskLevel) continue;
+
+        found[direction] = true;
+        recordThresholds(perturbed, outcome, [change]);
+      }
+    }
+
+    // Findings that reinforce each other (e.g. systolic and diastolic BP) may
+    // only change the risk level together: when no single crossing lowers the
+    // risk, try pairs of the nearest crossings out of a currently met threshold
+    if (!counterfactuals.some(c => this.lowersRisk(c))) {
+      const exits = Array.from(boundaries.entries())
+        .map(([fact, crossings]) => ({ fact, change: crossings.find(c => c.exitsThreshold)?.change }))
+        .filter((e): e is { fact: NumericFact; change: ThresholdChange } => !!e.change);
+
+      for (let i = 0; i < exits.length; i++) {
+        for (let j = i + 1; j < exits.length; j++) {
+          if (evaluations >= MAX_EVALUATIONS) break;
+          const perturbed = this.withFact(
+            this.withFact(input, exits[i].fact, exits[i].change.counterfactualValue),
+            exits[j].fact,
+            exits[j].change.counterfactualValue
+          );
+          const outcome = await rerun(perturbed);
+          if (outcome.overallRiskLevel !== result.overallRiskLevel) {
+            recordThresholds(perturbed, outcome, [exits[i].change, exits[j].change]);
+          }
+        }
+      }
+    }
+
+    for (const symptom of input.symptoms) {
+      if (evaluations >= MAX_EVALUATIONS) break;
+      const perturbed = { ...input, symptoms: input.symptoms.filter(s => s !== symptom) };
+      const outcome = await rerun(perturbed);
+      if (outcome.overallRiskLevel !== result.overallRiskLevel) {
+        const label = symptom.name.replace(/_/g, ' ');
+        record(perturbed, outcome, { kind: 'symptom_removed', feature: symptom.name, label, changes: [] }, `without ${label}`, 1);
+      }
+    }
+
+    for (const factor of input.riskFactors) {
+      if (evaluations >= MAX_EVALUATIONS) break;
+      const perturbed = { ...input, riskFactors: input.riskFactors.filter(f => f !== factor) };
+      const outcome = await rerun(perturbed);
+      if (outcome.overallRiskLevel !== result.overallRiskLevel) {
+        const label = factor.replace(/_/g, ' ');
+        record(perturbed, outcome, { kind: 'risk_factor_removed', feature: factor, label, changes: [] }, `without risk factor ${label}`, 1);
+      }
+    }
+
+    return {
+      riskLevel: result.overallRiskLevel,
+      knowledgeBaseVersion: pack.version,
+      counterfactuals: counterfactuals
+        .sort((a, b) => a.distance - b.distance)
+        .map(({ distance, ...counterfactual }) => counterfactual),
+      ruleJustifications: this.justifyRules(pack, input),
+      evaluations,
+    };
+  }
+
+  /**
+   * Whether a counterfactual lowers the risk level
+   */
+  lowersRisk(counterfactual: Counterfactual): boolean {
+    return RISK_ORDER.indexOf(counterfactual.counterfactualRiskLevel) < RISK_ORDER.indexOf(counterfactual.originalRiskLevel);
+  }
+
+  /**
+   * For each triggered rule, the conditions it needed: those that, changed on
+   * their own, would stop the rule firing
+   */
+  private justifyRules(pack: KnowledgePack, input: DiagnosticInput): RuleJustification[] {
+    return pack.rules
+      .filter(rule => evaluateRuleExpression(rule.when, input))
+      .map(rule => {
+        const satisfied = this.satisfiedLeaves(rule.when, input);
+        const needed = satisfied.filter(leaf => !evaluateRuleExpression(rule.when, this.negateLeaf(leaf, input)));
+        const becauseOf = (needed.length > 0 ? needed : satisfied).map(leaf => this.describeLeaf(leaf, input));
+        return {
+          ruleName: rule.name,
+          becauseOf,
+          statement: `${rule.name} fired because ${becauseOf.join(' and ') || 'its conditions were met'}`,
+        };
+      });
+  }
+
+  private satisfiedLeaves(expression: RuleExpression, input: DiagnosticInput): RuleExpression[] {
+    if ('all' in expression) return expression.all.flatMap(e => this.satisfiedLeaves(e, input));
+    if ('any' in expression) return expression.any.flatMap(e => this.satisfiedLeaves(e, input));
+    // Negated and trend conditions are leaves too, reported as written
+    return evaluateRuleExpression(expression, input) ? [expression] : [];
+  }
+
+  // Input in which a satisfied leaf no longer holds
+  private negateLeaf(leaf: RuleExpression, input: DiagnosticInput): DiagnosticInput {
+    if ('symptomIncludes' in leaf) {
+      const terms = leaf.symptomIncludes.map(t => t.toLowerCase());
+      return { ...input, symptoms: input.symptoms.filter(s => !terms.some(t => s.name.toLowerCase().includes(t))) };
+    }
+    if ('riskFactorIn' in leaf) {
+      return { ...input, riskFactors: input.riskFactors.filter(f => !leaf.riskFactorIn.includes(f)) };
+    }
+    if ('fact' in leaf && leaf.fact in FACTS) {
+      const fact = leaf.fact as NumericFact;
+      const value = this.crossing(leaf.op, leaf.value, FACTS[fact].step, false);
+      if (value !== undefined) return this.withFact(input, fact, value);
+    }
+    if ('fact' in leaf && leaf.fact === 'pregnancyStage.trimester') {
+      const current = input.pregnancyStage.trimester;
+      const trimester = [1, 2, 3]
+        .filter(t => !compare(t, leaf.op, leaf.value))
+        .sort((a, b) => Math.abs(a - current) - Math.abs(b - current))[0];
+      if (trimester !== undefined) {
+        return this.withFact(input, 'pregnancyStage.weeksGestation', TRIMESTER_START_WEEKS[trimester]);
+      }
+    }
+    // Conditions that cannot be flipped on their own are kept as context
+    return input;
+  }
+
+  private describeLeaf(leaf: RuleExpression, input: DiagnosticInput): string {
+    if ('symptomIncludes' in leaf) {
+      const terms = leaf.symptomIncludes.map(t => t.toLowerCase());
+      const matched = input.symptoms.filter(s => terms.some(t => s.name.toLowerCase().includes(t))).map(s => s.name);
+      return `${matched.join('/') || leaf.symptomIncludes.join('/')} reported`;
+    }
+    if ('riskFactorIn' in leaf) {
+      return `risk factor ${input.riskFactors.filter(f => leaf.riskFactorIn.includes(f)).join('/')}`;
+    }
+    if ('fact' in leaf && leaf.fact === 'pregnancyStage.trimester' && leaf.op === '==') {
+      return TRIMESTER_WEEKS[leaf.value] || `trimester = ${leaf.value}`;
+    }
+    if ('fact' in leaf) {
+      const label = FACTS[leaf.fact as NumericFact]?.label || OTHER_FACT_LABELS[leaf.fact] || leaf.fact;
+      return `${label} ${OPERATOR_SYMBOLS[leaf.op]} ${leaf.value}`;
+    }
+    if ('not' in leaf) return 'an excluding condition was absent';
+    return 'a vital sign trend';
+  }
+
+  /**
+   * Values just across every threshold on a fact, nearest first. Trimester
+   * thresholds are expressed as the weeks that start each trimester.
+   */
+  private boundaryValues(pack: KnowledgePack, fact: NumericFact, current: number): Crossing[] {
+    const thresholds: { op: ComparisonOperator; threshold: number }[] = [];
+    const collect = (expression: RuleExpression) => {
+      if ('all' in expression) expression.all.forEach(collect);
+      else if ('any' in expression) expression.any.forEach(collect);
+      else if ('not' in expression) collect(expression.not);
+      else if ('fact' in expression) {
+        if (expression.fact === fact) thresholds.push({ op: expression.op, threshold: expression.value });
+        if (expression.fact === 'pregnancyStage.trimester' && fact === 'pregnancyStage.weeksGestation') {
+          [TRIMESTER_START_WEEKS[2], TRIMESTER_START_WEEKS[3]].forEach(week => thresholds.push({ op: '>=', threshold: week }));
+        }
+      }
+    };
+    pack.rules.forEach(rule => collect(rule.when));
+
+    const sign = fact.startsWith('vitalSigns.') ? fact.slice('vitalSigns.'.length) : undefined;
+    for (const condition of pack.conditions) {
+      for (const indicator of condition.vitalSignIndicators || []) {
+        if (indicator.sign === sign) thresholds.push({ op: indicator.operator, threshold: indicator.threshold });
+      }
+    }
+
+    const { step, label, unit } = FACTS[fact];
+    const crossings = new Map<number, Crossing>();
+    for (const { op, threshold } of thresholds) {
+      const holds = compare(current, op, threshold);
+      const value = this.crossing(op, threshold, step, !holds);
+      if (value === undefined || value < 0) continue;
+      const rounded = Number((Math.round(value / step) * step).toFixed(1));
+      if (rounded === current || crossings.has(rounded)) continue;
+
+      // Describe the side of the boundary the new value is on
+      const side = compare(rounded, op, threshold) ? op : this.oppositeOperator(op);
+      crossings.set(rounded, {
+        change: {
+          fact,
+          label,
+          originalValue: current,
+          counterfactualValue: rounded,
+          boundary: `${OPERATOR_SYMBOLS[side]} ${threshold}`,
+          boundaryDescription: `${this.describeSide(side, threshold)}${unit}`,
+        },
+        exitsThreshold: holds,
+      });
+    }
+
+    return Array.from(crossings.values()).sort((a, b) =>
+      Math.abs(a.change.counterfactualValue - current) - Math.abs(b.change.counterfactualValue - current));
+  }
+
+  // Nearest value on the requested side of `op threshold`
+  private crossing(op: ComparisonOperator, threshold: number, step: number, satisfy: boolean): number | undefined {
+    switch (op) {
+      case '>': return satisfy ? threshold + step : threshold;
+      case '>=': return satisfy ? threshold : threshold - step;
+      case '<': return satisfy ? threshold - step : threshold;
+      case '<=': return satisfy ? threshold : threshold + step;
+      case '==': return satisfy ? threshold : threshold + step;
+      case '!=': return satisfy ? threshold + step : threshold;
+    }
+  }
+
+  private oppositeOperator(op: ComparisonOperator): ComparisonOperator {
+    const opposite: Record<ComparisonOperator, ComparisonOperator> = {
+      '>': '<=', '>=': '<', '<': '>=', '<=': '>', '==': '!=', '!=': '==',
+    };
+    return opposite[op];
+  }
+
+  private describeSide(op: ComparisonOperator, threshold: number): string {
+    switch (op) {
+      case '>': return `above ${threshold}`;
+      case '>=': return `${threshold} or above`;
+      case '<': return `below ${threshold}`;
+      case '<=': return `${threshold} or below`;
+      case '==': return `exactly ${threshold}`;
+      case '!=': return `other than ${threshold}`;
+    }
+  }
+
+  private readFact(input: DiagnosticInput, fact: NumericFact): number | undefined {
+    if (fact === 'pregnancyStage.weeksGestation') return input.pregnancyStage.weeksGestation;
+    const sign = fact.slice('vitalSigns.'.length) as keyof NonNullable<DiagnosticInput['vitalSigns']>;
+    return input.vitalSigns?.[sign];
+  }
+
+  private withFact(input: DiagnosticInput, fact: NumericFact, value: number): DiagnosticInput {
+    if (fact === 'pregnancyStage.weeksGestation') {
+      return {
+        ...input,
+        pregnancyStage: {
+          ...input.pregnancyStage,
+          weeksGestation: value,
+          trimester: value <= 12 ? 1 : value <= 27 ? 2 : 3,
+        },
+      };
+    }
+    const sign = fact.slice('vitalSigns.'.length);
+    return { ...input, vitalSigns: { ...input.vitalSigns, [sign]: value } };
+  }
+
+  private firedRules(pack: KnowledgePack, input: DiagnosticInput): string[] {
+    return pack.rules.filter(rule => evaluateRuleExpression(rule.when, input)).map(rule => rule.name);
+  }
+}
+
+// Export singleton instance
+export const counterfactualGenerator = new CounterfactualGenerator();
+export default counterfactualGenerator;
@@ -0,0 +1,426 @@
+/**
+ * De-identification Pipeline for AI Learning Data
+ *
+ * Implements:
+ * - Keyed HMAC pseudonyms for users and message content, computed in the
+ *   database so the key never reaches the app; keys are versioned and rotated
+ * - Redaction of names, places and phone numbers from the user's own profile
+ *   and emergency contacts, then of generic identifiers (emails, links, ID
+ *   numbers, street addresses, introduced names, clinicians, facilities)
+ * - Generalization of dates to gestational weeks
+ * - A re-identification risk check run before a conversation is stored
+ * - Evaluation against a corpus of messages with seeded PII
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { AnonymizedMessage } from './LearningSystem';
+import corpusData from './knowledge/deidentification-corpus.json';
+
+// Types
+export interface IdentifyingDetails {
+  /** The user's and her emergency contacts' names */
+  names: string[];
+  /** Address and city */
+  places: string[];
+  phones: string[];
+  /** Expected delivery date (ISO); dates are generalized to gestational weeks against it */
+  dueDate?: string;
+  dateOfBirth?: string;
+}
+
+export type PiiKind = 'name' | 'place' | 'phone' | 'email' | 'url' | 'id_number' | 'address' | 'date';
+
+export type ReidentificationRiskLevel = 'low' | 'elevated' | 'high';
+
+export interface ReidentificationRisk {
+  level: ReidentificationRiskLevel;
+  /** Never contains the identifying values themselves */
+  reasons: string[];
+}
+
+export interface DeidentifiedConversation {
+  anonymizedUserId: string;
+  /** Pseudonym of the chat session, so turns can be grouped without the raw id */
+  sessionPseudonym: string;
+  keyVersion: number;
+  messages: AnonymizedMessage[];
+}
+
+export interface DeidentificationResult {
+  /** Unset when the conversation must not be stored */
+  conversation?: DeidentifiedConversation;
+  risk: ReidentificationRisk;
+}
+
+export interface SeededPiiCase {
+  id: string;
+  text: string;
+  details: IdentifyingDetails;
+  /** Date the message was written (ISO); defaults to now */
+  writtenAt?: string;
+  seeded: { value: string; kind: PiiKind }[];
+  /** Clinical wording that must survive redaction */
+  preserved?: string[];
+  expectedRisk?: ReidentificationRiskLevel;
+}
+
+export interface DeidentificationEvaluation {
+  total: number;
+  seededValues: number;
+  /** Share of seeded values removed */
+  recall: number;
+  leaks: { caseId: string; kind: PiiKind }[];
+  /** Preserved wording that was redacted */
+  overRedactions: { caseId: string; text: string }[];
+  riskMismatches: { caseId: string; expected: ReidentificationRiskLevel; actual: ReidentificationRiskLevel }[];
+}
+
+const RISK_ORDER: ReidentificationRiskLevel[] = ['low', 'elevated', 'high'];
+const DETAILS_TTL_MS = 5 * 60 * 1000;
+const TERM_WEEKS = 40;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+const MONTH_PATTERN = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+// Name parts too common to redact on their own ("Mary Ann" -> "Ann" is kept only as part of the full name)
+const MIN_NAME_PART_LENGTH = 3;
+
+// Emails and links go first, so profile names inside them do not split them
+const CONTACT_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, replacement: '[EMAIL]' },
+  { pattern: /\b(?:https?:\/\/|www\.)\S+/gi, replacement: '[URL]' },
+];
+
+// Generic identifiers, applied after the user's own details
+const PII_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  // National ID and insurance numbers (GHA-123456789-0, NHIS 12345678)
+  { pattern: /\b[A-Z]{2,4}-?\d{6,}(?:-\d)?\b/g, replacement: '[ID]' },
+  { pattern: /\b(?:nhis|ghana card|id|passport)(?:\s+(?:number|no\.?|#))?\s*:?\s*[A-Z0-9-]{6,}\b/gi, replacement: '[ID]' },
+  { pattern: /\b\d+[A-Za-z]?\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Road|Rd|Avenue|Ave|Lane|Close|Crescent|Drive)\b\.?/g, replacement: '[ADDRESS]' },
+  { pattern: /(?:\+|\b)\d[\d\s().-]{6,}\d\b/g, replacement: '[PHONE]' },
+  { pattern: /\b(?:Dr|Doctor|Nurse|Midwife|Prof)\.?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g, replacement: '[CLINICIAN]' },
+  {
+    pattern: /\b(?:[A-Z][a-z]+\s+){1,3}(?:Hospital|Clinic|Polyclinic|Health\s+Cent(?:re|er)|Medical\s+Cent(?:re|er)|Maternity\s+Home)\b/g,
+    replacement: '[FACILITY]',
+  },
+  { pattern: /\b(hospital|clinic|medical center) [A-Z][a-z]+\b/gi, replacement: '[FACILITY]' },
+];
+
+// Names introduced in the message ("my name is Akosua", "my husband Kofi")
+const INTRODUCED_NAME =
+  /\b([Mm]y name is|I am called|I'm called|[Cc]all me|[Mm]y (?:husband|partner|sister|brother|mother|mum|mom|father|dad|friend|daughter|son|aunt|uncle|neighbou?r)(?: is)?)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g;
+
+// Capitalized words that are not names
+const COMMON_CAPITALIZED = new Set([
+  'i', 'im', 'ive', 'id', 'ill', 'god', 'english', 'french', 'twi', 'hausa', 'swahili', 'braxton', 'hicks',
+  'paracetamol', 'panadol', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'ok', 'okay', 'please', 'thanks', 'hello', 'hi', 'yes', 'no', 'ai',
+  'ghana', 'nigeria', 'kenya', 'tanzania', 'nhis',
+  ...MONTHS,
+]);
+
+class Deidentifier {
+  private corpus: SeededPiiCase[] = corpusData as SeededPiiCase[];
+  private detailsCache = new Map<string, { details: IdentifyingDetails | null; loadedAt: number }>();
+
+  /**
+   * De-identify a conversation for storage. Conversations with identifiers
+   * left after redaction are not stored; elevated risk keeps only pseudonyms
+   * and features.
+   */
+  async deidentifyConversation(
+    userId: string,
+    sessionId: string,
+    messages: { role: 'user' | 'assistant'; content: string; timestamp: Date }[]
+  ): Promise<DeidentificationResult> {
+    const details = await this.loadDetails(userId);
+    const known = details || { names: [], places: [], phones: [] };
+
+    const redacted = messages.map(msg => this.redact(msg.content, known, msg.timestamp));
+    const risk = this.mergeRisks([
+      ...redacted.map(text => this.assessRisk(text, known)),
+      ...(details ? [] : [{ level: 'elevated' as const, reasons: ['Profile details unavailable for redaction'] }]),
+    ]);
+
+    if (risk.level === 'high') return { risk };
+
+    let pseudonyms: { keyVersion: number; user: string; contents: string[] };
+    try {
+      // The session id is pseudonymized with the same key, after the messages
+      pseudonyms = await this.pseudonymize([...messages.map(msg => msg.content), `session:${sessionId}`]);
+    } catch (error) {
+      console.log('Pseudonym service not available:', error);
+      return { risk: { level: 'high', reasons: [...risk.reasons, 'Pseudonym service unavailable'] } };
+    }
+
+    return {
+      conversation: {
+        anonymizedUserId: pseudonyms.user,
+        sessionPseudonym: pseudonyms.contents[messages.length],
+        keyVersion: pseudonyms.keyVersion,
+        messages: messages.map((msg, i) => ({
+          role: msg.role,
+          contentHash: pseudonyms.contents[i],
+          sanitizedContent: risk.level === 'low' ? redacted[i] : undefined,
+          gestationalWeek: this.gestationalWeek(msg.timestamp, known.dueDate),
+        })),
+      },
+      risk,
+    };
+  }
+
+  /**
+   * Remove identifiers from a message and generalize its dates
+   */
+  redact(text: string, details: IdentifyingDetails, writtenAt: Date = new Date()): string {
+    let result = this.generalizeDates(text, details, writtenAt);
+    for (const { pattern, replacement } of CONTACT_PATTERNS) {
+      result = result.replace(pattern, replacement);
+    }
+
+    for (const name of this.nameVariants(details.names)) {
+      result = result.replace(this.literal(name), '[NAME]');
+    }
+    for (const place of this.placeVariants(details.places)) {
+      result = result.replace(this.literal(place), '[PLACE]');
+    }
+
+    result = result.replace(INTRODUCED_NAME, (_match, intro: string) => `${intro} [NAME]`);
+    for (const { pattern, replacement } of PII_PATTERNS) {
+      result = result.replace(pattern, replacement);
+    }
+    return result;
+  }
+
+  /**
+   * Re-identification risk of redacted text. High when a known or generic
+   * identifier survived redaction; elevated for possible unrecognised names
+   * and rare quasi-identifiers.
+   */
+  assessRisk(redacted: string, details: IdentifyingDetails): ReidentificationRisk {
+    const reasons: string[] = [];
+    let level: ReidentificationRiskLevel = 'low';
+    const lower = redacted.toLowerCase();
+
+    const leakedNames = this.nameVariants(details.names).filter(name => this.literal(name).test(redacted));
+    const leakedPlaces = this.placeVariants(details.places).filter(place => this.literal(place).test(redacted));
+    const digits = redacted.replace(/\D/g, '');
+    const leakedPhones = details.phones.filter(phone => {
+      const tail = phone.replace(/\D/g, '').slice(-9);
+      return tail.length >= 7 && digits.includes(tail);
+    });
+
+    if (leakedNames.length > 0) reasons.push(`${leakedNames.length} profile name(s) remain`);
+    if (leakedPlaces.length > 0) reasons.push(`${leakedPlaces.length} profile place(s) remain`);
+    if (leakedPhones.length > 0) reasons.push(`${leakedPhones.length} profile phone number(s) remain`);
+    if (/\d{7,}/.test(redacted.replace(/[\s().-]/g, ''))) reasons.push('Long digit sequence remains');
+    if (/@|https?:\/\/|www\./.test(lower)) reasons.push('Email address or link remains');
+    if (reasons.length > 0) level = 'high';
+
+    const possibleNames = this.possibleNames(redacted);
+    if (possibleNames > 0) {
+      reasons.push(`${possibleNames} capitalised word(s) that may be names`);
+    }
+    const age = lower.match(/\b(\d{1,2})\s*(?:years? old|yrs? old|year-old)\b/);
+    if (age && (Number(age[1]) < 18 || Number(age[1]) > 40)) {
+      reasons.push('Uncommon maternal age');
+    }
+    if (level === 'low' && reasons.length > 0) level = 'elevated';
+
+    return { level, reasons };
+  }
+
+  /**
+   * Run redaction and the risk check over a corpus with seeded PII
+   * (defaults to the bundled corpus)
+   */
+  evaluateCorpus(corpus: SeededPiiCase[] = this.corpus): DeidentificationEvaluation {
+    const leaks: DeidentificationEvaluation['leaks'] = [];
+    const overRedactions: DeidentificationEvaluation['overRedactions'] = [];
+    const riskMismatches: DeidentificationEvaluation['riskMismatches'] = [];
+    let seededValues = 0;
+
+    for (const item of corpus) {
+      const redacted = this.redact(item.text, item.details, item.writtenAt ? new Date(item.writtenAt) : new Date());
+      const lower = redacted.toLowerCase();
+      const digits = redacted.replace(/\D/g, '');
+
+      for (const { value, kind } of item.seeded) {
+        seededValues++;
+        const leaked = kind === 'phone'
+          ? digits.includes(value.replace(/\D/g, '').slice(-7))
+          : lower.includes(value.toLowerCase());
+        if (leaked) leaks.push({ caseId: item.id, kind });
+      }
+
+      for (const text of item.preserved || []) {
+        if (!lower.includes(text.toLowerCase())) overRedactions.push({ caseId: item.id, text });
+      }
+
+      if (item.expectedRisk) {
+        const actual = this.assessRisk(redacted, item.details).level;
+        if (actual !== item.expectedRisk) {
+          riskMismatches.push({ caseId: item.id, expected: item.expectedRisk, actual });
+        }
+      }
+    }
+
+    return {
+      total: corpus.length,
+      seededValues,
+      recall: seededValues > 0 ? (seededValues - leaks.length) / seededValues : 1,
+      leaks,
+      overRedactions,
+      riskMismatches,
+    };
+  }
+
+  getCorpus(): SeededPiiCase[] {
+    return this.corpus;
+  }
+
+  /**
+   * Start a new pseudonym key (admin only). Pseudonyms made after rotation
+   * cannot be linked to earlier ones.
+   */
+  async rotateKey(): Promise<number> {
+    const { data, error } = await (supabase as any).rpc('ai_rotate_pseudonym_key');
+    if (error) throw error;
+    return data;
+  }
+
+  private async pseudonymize(contents: string[]): Promise<{ keyVersion: number; user: string; contents: string[] }> {
+    const { data, error } = await (supabase as any).rpc('ai_pseudonymize', { p_contents: contents });
+    if (error) throw error;
+    if (!data?.user || !Array.isArray(data.contents) || data.contents.length !== contents.length) {
+      throw new Error('Incomplete pseudonyms returned');
+    }
+    return { keyVersion: data.key_version, user: data.user, contents: data.contents };
+  }
+
+  private async loadDetails(userId: string): Promise<IdentifyingDetails | null> {
+    const cached = this.detailsCache.get(userId);
+    if (cached && Date.now() - cached.loadedAt < DETAILS_TTL_MS) return cached.details;
+
+    let details: IdentifyingDetails | null = null;
+    try {
+      const { data: profile, error } = await (supabase as any)
+        .from('mother_profiles')
+        .select('id, full_name, phone, address, city, due_date, date_of_birth, emergency_contact_name, emergency_contact_phone')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (profile) {
+        const { data: contacts } = await (supabase as any)
+          .from('emergency_contacts')
+          .select('name, phone')
+          .eq('mother_id', profile.id);
+
+        details = {
+          names: [profile.full_name, profile.emergency_contact_name, ...(contacts || []).map((c: any) => c.name)],
+          places: [profile.address, profile.city],
+          phones: [profile.phone, profile.emergency_contact_phone, ...(contacts || []).map((c: any) => c.phone)],
+          dueDate: profile.due_date || undefined,
+          dateOfBirth: profile.date_of_birth || undefined,
+        };
+      } else {
+        // Doctors and admins have no mother profile to redact
+        details = { names: [], places: [], phones: [] };
+      }
+      details = {
+        ...details,
+        names: details.names.filter(Boolean),
+        places: details.places.filter(Boolean),
+        phones: details.phones.filter(Boolean),
+      };
+    } catch (error) {
+      console.log('Profile details not available for de-identification:', error);
+    }
+
+    this.detailsCache.set(userId, { details, loadedAt: Date.now() });
+    return details;
+  }
+
+  private generalizeDates(text: string, details: IdentifyingDetails, writtenAt: Date): string {
+    const toWeek = (year: number, month: number, day: number): string => {
+      const date = new Date(Date.UTC(year, month, day));
+      if (isNaN(date.getTime()) || date.getUTCMonth() !== month) return '[DATE]';
+      if (details.dateOfBirth && date.toISOString().slice(0, 10) === details.dateOfBirth.slice(0, 10)) return '[DATE]';
+      const week = this.gestationalWeek(date, details.dueDate);
+      return week === undefined ? '[DATE]' : `[WEEK ${week}]`;
+    };
+    const fullYear = (year?: string) => {
+      if (!year) return writtenAt.getUTCFullYear();
+      const value = Number(year);
+      return value < 100 ? 2000 + value : value;
+    };
+    const monthIndex = (name: string) => MONTHS.findIndex(m => m.startsWith(name.toLowerCase().slice(0, 3)));
+
+    return text
+      .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (_m, y, mo, d) => toWeek(Number(y), Number(mo) - 1, Number(d)))
+      .replace(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})\b/g, (_m, d, mo, y) => toWeek(fullYear(y), Number(mo) - 1, Number(d)))
+      .replace(
+        new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\.?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+        (_m, d, mo, y) => toWeek(fullYear(y), monthIndex(mo), Number(d))
+      )
+      .replace(
+        new RegExp(`\\b${MONTH_PATTERN}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+        (_m, mo, d, y) => toWeek(fullYear(y), monthIndex(mo), Number(d))
+      );
+  }
+
+  private gestationalWeek(date: Date, dueDate?: string): number | undefined {
+    if (!dueDate) return undefined;
+    const due = new Date(dueDate);
+    if (isNaN(due.getTime())) return undefined;
+    const week = TERM_WEEKS - Math.ceil((due.getTime() - date.getTime()) / (7 * DAY_MS));
+    return week >= 0 && week <= TERM_WEEKS + 4 ? week : undefined;
+  }
+
+  // Full names first so "Akosua Mensah" becomes one [NAME], then their parts
+  private nameVariants(names: string[]): string[] {
+    const parts = names.flatMap(name => name.split(/\s+/)).filter(part => part.length >= MIN_NAME_PART_LENGTH);
+    return this.longestFirst([...names, ...parts]);
+  }
+
+  private placeVariants(places: string[]): string[] {
+    const parts = places.flatMap(place => place.split(',').map(p => p.trim())).filter(p => p.length >= MIN_NAME_PART_LENGTH);
+    return this.longestFirst([...places, ...parts]);
+  }
+
+  private longestFirst(values: string[]): string[] {
+    return Array.from(new Set(values.map(v => v.trim()).filter(Boolean))).sort((a, b) => b.length - a.length);
+  }
+
+  private literal(value: string): RegExp {
+    const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu');
+  }
+
+  // Capitalized words that do not start a sentence and are not known words
+  private possibleNames(text: string): number {
+    let count = 0;
+    for (const match of text.matchAll(/(?<=[\p{Ll},;]\s+)\p{Lu}[\p{Ll}']{2,}/gu)) {
+      if (!COMMON_CAPITALIZED.has(match[0].toLowerCase().replace(/'/g, ''))) count++;
+    }
+    return count;
+  }
+
+  private mergeRisks(risks: ReidentificationRisk[]): ReidentificationRisk {
+    const level = risks.reduce<ReidentificationRiskLevel>(
+      (max, r) => (RISK_ORDER.indexOf(r.level) > RISK_ORDER.indexOf(max) ? r.level : max),
+      'low'
+    );
+    return { level, reasons: Array.from(new Set(risks.flatMap(r => r.reasons))) };
+  }
+}
+
+// Export singleton instance
+export const deidentifier = new Deidentifier();
+export default deidentifier;
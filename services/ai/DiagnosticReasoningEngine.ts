@@ -6,10 +6,25 @@
  * - Rule-based obstetric logic
  * - ML risk models
  * - Differential diagnosis
+ * - Trend-aware (temporal) rules over vital sign history
  * - Explainable AI with confidence scores and justifications
+ *
+ * Conditions and rules come from a versioned knowledge pack (see KnowledgeBase)
  */
 
 import { RiskLevel } from '@/types/database.types';
+import {
+  knowledgeBase,
+  evaluateRuleExpression,
+  getReferencedFacts,
+  collectTrendEvaluations,
+  describeRuleExpression,
+  ConditionDefinition,
+  KnowledgePack,
+  ObstetricRuleDefinition,
+  TrendEvaluation,
+} from './KnowledgeBase';
+import { DEFAULT_MODEL_VERSION, modelVersionRegistry } from './ModelVersionRegistry';
 
 // Types
 export interface DiagnosticInput {
@@ -18,11 +33,15 @@ export interface DiagnosticInput {
   medicalHistory: MedicalHistory;
   riskFactors: string[];
   vitalSigns?: VitalSignsInput;
+  history?: VitalHistory;
 }
 
 export interface SymptomInput {
   name: string;
   severity: 'mild' | 'moderate' | 'severe' | 'critical';
+  /** Patient-rated severity on a 1-10 scale, when collected */
+  severityScore?: number;
+  onset?: string;
   duration?: string;
   frequency?: string;
   associatedSymptoms?: string[];
@@ -54,6 +73,16 @@ export interface VitalSignsInput {
   oxygenSaturation?: number;
 }
 
+export interface VitalReading extends VitalSignsInput {
+  recordedAt: string;
+}
+
+export interface VitalHistory {
+  vitals: VitalReading[];
+  weeklyWeights?: { week: number; weight: number }[];
+  fetalMovements?: { date: string; count: number; week?: number }[];
+}
+
 export interface DiagnosticResult {
   differentialConditions: DifferentialCondition[];
   overallRiskLevel: RiskLevel;
@@ -63,6 +92,15 @@ export interface DiagnosticResult {
   confidence: number;
   justification: string;
   disclaimers: string[];
+  knowledgeBaseVersion: string;
+  modelVersion: string;
+}
+
+export interface AnalyzeOptions {
+  /** Use this pack instead of the deployed version's (e.g. to evaluate a draft) */
+  knowledgePack?: KnowledgePack;
+  /** Model version recorded on the result; the deployed version when unset */
+  modelVersion?: string;
 }
 
 export interface DifferentialCondition {
@@ -89,6 +127,7 @@ export interface ExplanationTrace {
   bayesianFactors: BayesianFactor[];
   rulesApplied: RuleApplication[];
   featuresConsidered: FeatureWeight[];
+  temporalFindings: TemporalFinding[];
   alternativeInterpretations: string[];
   limitations: string[];
 }
@@ -114,6 +153,13 @@ export interface RuleApplication {
   triggered: boolean;
   inputs: string[];
   output: string;
+  temporal?: boolean;
+}
+
+export interface TemporalFinding {
+  ruleName: string;
+  condition: string;
+  evaluations: TrendEvaluation[];
 }
 
 export interface FeatureWeight {
@@ -123,385 +169,22 @@ export interface FeatureWeight {
   impact: 'positive' | 'negative' | 'neutral';
 }
 
-// Obstetric condition definitions
-interface ConditionDefinition {
-  name: string;
-  icdCode: string;
-  baseProbability: number;
-  symptoms: { symptom: string; weight: number }[];
-  riskFactors: { factor: string; multiplier: number }[];
-  trimesterRelevance: { trimester: number; multiplier: number }[];
-  vitalSignIndicators?: VitalSignIndicator[];
-  severity: 'mild' | 'moderate' | 'severe' | 'critical';
-  urgency: 'routine' | 'soon' | 'urgent' | 'emergency';
-  description: string;
-  recommendedTests: string[];
-}
-
-interface VitalSignIndicator {
-  sign: 'systolicBP' | 'diastolicBP' | 'heartRate' | 'temperature' | 'oxygenSaturation';
-  threshold: number;
-  operator: '>' | '<' | '>=' | '<=';
-  weight: number;
-}
-
-// Obstetric conditions database
-const OBSTETRIC_CONDITIONS: ConditionDefinition[] = [
-  {
-    name: 'Preeclampsia',
-    icdCode: 'O14.9',
-    baseProbability: 0.05,
-    symptoms: [
-      { symptom: 'headache', weight: 0.6 },
-      { symptom: 'swelling', weight: 0.7 },
-      { symptom: 'visual disturbances', weight: 0.8 },
-      { symptom: 'upper abdominal pain', weight: 0.7 },
-      { symptom: 'nausea', weight: 0.4 },
-      { symptom: 'rapid weight gain', weight: 0.5 },
-    ],
-    riskFactors: [
-      { factor: 'first_pregnancy', multiplier: 1.5 },
-      { factor: 'previous_preeclampsia', multiplier: 3.0 },
-      { factor: 'chronic_hypertension', multiplier: 2.5 },
-      { factor: 'diabetes', multiplier: 1.8 },
-      { factor: 'obesity', multiplier: 1.5 },
-      { factor: 'age_over_35', multiplier: 1.3 },
-      { factor: 'multiple_pregnancy', multiplier: 2.0 },
-    ],
-    trimesterRelevance: [
-      { trimester: 1, multiplier: 0.2 },
-      { trimester: 2, multiplier: 0.8 },
-      { trimester: 3, multiplier: 1.5 },
-    ],
-    vitalSignIndicators: [
-      { sign: 'systolicBP', threshold: 140, operator: '>=', weight: 0.9 },
-      { sign: 'diastolicBP', threshold: 90, operator: '>=', weight: 0.9 },
-    ],
-    severity: 'severe',
-    urgency: 'urgent',
-    description: 'A pregnancy complication characterized by high blood pressure and signs of organ damage.',
-    recommendedTests: ['Blood pressure monitoring', 'Urine protein test', 'Blood tests (liver, kidney function)', 'Fetal monitoring'],
-  },
-  {
-    name: 'Gestational Diabetes',
-    icdCode: 'O24.4',
-    baseProbability: 0.08,
-    symptoms: [
-      { symptom: 'increased thirst', weight: 0.6 },
-      { symptom: 'frequent urination', weight: 0.6 },
-      { symptom: 'fatigue', weight: 0.4 },
-      { symptom: 'blurred vision', weight: 0.5 },
-      { symptom: 'recurrent infections', weight: 0.4 },
-    ],
-    riskFactors: [
-      { factor: 'obesity', multiplier: 2.0 },
-      { factor: 'family_history_diabetes', multiplier: 1.8 },
-      { factor: 'previous_gestational_diabetes', multiplier: 2.5 },
-      { factor: 'age_over_35', multiplier: 1.3 },
-      { factor: 'pcos', multiplier: 1.5 },
-    ],
-    trimesterRelevance: [
-      { trimester: 1, multiplier: 0.3 },
-      { trimester: 2, multiplier: 1.2 },
-      { trimester: 3, multiplier: 1.0 },
-    ],
-    severity: 'moderate',
-    urgency: 'soon',
-    description: 'Diabetes that develops during pregnancy and usually resolves after delivery.',
-    recommendedTests: ['Glucose tolerance test', 'Fasting blood glucose', 'HbA1c'],
-  },
-  {
-    name: 'Placenta Previa',
-    icdCode: 'O44.0',
-    baseProbability: 0.01,
-    symptoms: [
-      { symptom: 'painless vaginal bleeding', weight: 0.9 },
-      { symptom: 'bleeding', weight: 0.7 },
-      { symptom: 'spotting', weight: 0.5 },
-    ],
-    riskFactors: [
-      { factor: 'previous_cesarean', multiplier: 2.0 },
-      { factor: 'previous_placenta_previa', multiplier: 3.0 },
-      { factor: 'multiple_pregnancy', multiplier: 1.5 },
-      { factor: 'uterine_surgery', multiplier: 1.8 },
-      { factor: 'smoking', multiplier: 1.5 },
-    ],
-    trimesterRelevance: [
-      { trimester: 1, multiplier: 0.5 },
-      { trimester: 2, multiplier: 1.0 },
-      { trimester: 3, multiplier: 1.5 },
-    ],
-    severity: 'severe',
-    urgency: 'urgent',
-    description: 'A condition where the placenta partially or fully covers the cervix.',
-    recommendedTests: ['Ultrasound', 'Transvaginal ultrasound', 'MRI if needed'],
-  },
-  {
-    name: 'Preterm Labor',
-    icdCode: 'O60.0',
-    baseProbability: 0.10,
-    symptoms: [
-      { symptom: 'contractions', weight: 0.9 },
-      { symptom: 'cramping', weight: 0.7 },
-      { symptom: 'back pain', weight: 0.6 },
-      { symptom: 'pelvic pressure', weight: 0.7 },
-      { symptom: 'vaginal discharge', weight: 0.5 },
-      { symptom: 'water leaking', weight: 0.9 },
-    ],
-    riskFactors: [
-      { factor: 'previous_preterm_birth', multiplier: 2.5 },
-      { factor: 'multiple_pregnancy', multiplier: 2.0 },
-      { factor: 'cervical_incompetence', multiplier: 2.5 },
-      { factor: 'infection', multiplier: 1.5 },
-      { factor: 'smoking', multiplier: 1.3 },
-    ],
-    trimesterRelevance: [
-      { trimester: 1, multiplier: 0.1 },
-      { trimester: 2, multiplier: 1.5 },
-      { trimester: 3, multiplier: 1.0 },
-    ],
-    severity: 'severe',
-    urgency: 'emergency',
-    description: 'Labor that begins before 37 weeks of pregnancy.',
-    recommendedTests: ['Cervical examination', 'Fetal fibronectin test', 'Ultrasound for cervical length'],
-  },
-  {
-    name: 'Ectopic Pregnancy',
-    icdCode: 'O00.9',
-    baseProbability: 0.02,
-    symptoms: [
-      { symptom: 'one-sided abdominal pain', weight: 0.9 },
-      { symptom: 'vaginal bleeding', weight: 0.7 },
-      { symptom: 'shoulder pain', weight: 0.6 },
-      { symptom: 'dizziness', weight: 0.6 },
-      { symptom: 'nausea', weight: 0.4 },
-    ],
-    riskFactors: [
-      { factor: 'previous_ectopic', multiplier: 3.0 },
-      { factor: 'pelvic_inflammatory_disease', multiplier: 2.0 },
-      { factor: 'tubal_surgery', multiplier: 2.5 },
-      { factor: 'ivf', multiplier: 1.5 },
-      { factor: 'iud', multiplier: 1.5 },
-    ],
-    trimesterRelevance: [
-      { trimester: 1, multiplier: 3.0 },
-      { trimester: 2, multiplier: 0.1 },
-      { trimester: 3, multiplier: 0.0 },
-    ],
-    severity: 'critical',
-    urgency: 'emergency',
-    description: 'A pregnancy where the fertilized egg implants outside the uterus.',
-    recommendedTests: ['hCG levels', 'Transvaginal ultrasound', 'Progesterone levels'],
-  },
-  {
-    name: 'Hyperemesis Gravidarum',
-    icdCode: 'O21.1',
-    baseProbability: 0.03,
-    symptoms: [
-      { symptom: 'severe nausea', weight: 0.9 },
-      { symptom: 'persistent vomiting', weight: 0.9 },
-      { symptom: 'weight loss', weight: 0.7 },
-      { symptom: 'dehydration', weight: 0.8 },
-      { symptom: 'fatigue', weight: 0.5 },
-    ],
-    riskFactors: [
-      { factor: 'previous_hyperemesis', multiplier: 2.5 },
-      { factor: 'multiple_pregnancy', multiplier: 1.5 },
-      { factor: 'first_pregnancy', multiplier: 1.2 },
-      { factor: 'history_motion_sickness', multiplier: 1.3 },
-    ],
-    trimesterRelevance: [
-      { trimester: 1, multiplier: 2.0 },
-      { trimester: 2, multiplier: 0.8 },
-      { trimester: 3, multiplier: 0.3 },
-    ],
-    severity: 'moderate',
-    urgency: 'soon',
-    description: 'Severe nausea and vomiting during pregnancy that can lead to dehydration.',
-    recommendedTests: ['Electrolyte panel', 'Ketone levels', 'Thyroid function tests'],
-  },
-  {
-    name: 'Urinary Tract Infection',
-    icdCode: 'O23.1',
-    baseProbability: 0.08,
-    symptoms: [
-      { symptom: 'burning urination', weight: 0.9 },
-      { symptom: 'frequent urination', weight: 0.7 },
-      { symptom: 'pelvic pain', weight: 0.6 },
-      { symptom: 'cloudy urine', weight: 0.7 },
-      { symptom: 'fever', weight: 0.6 },
-      { symptom: 'back pain', weight: 0.5 },
-    ],
-    riskFactors: [
-      { factor: 'previous_uti', multiplier: 2.0 },
-      { factor: 'diabetes', multiplier: 1.5 },
-      { factor: 'sexual_activity', multiplier: 1.3 },
-    ],
-    trimesterRelevance: [
-      { trimester: 1, multiplier: 1.0 },
-      { trimester: 2, multiplier: 1.2 },
-      { trimester: 3, multiplier: 1.3 },
-    ],
-    severity: 'moderate',
-    urgency: 'soon',
-    description: 'Bacterial infection of the urinary tract, common in pregnancy.',
-    recommendedTests: ['Urinalysis', 'Urine culture', 'Complete blood count'],
-  },
-  {
-    name: 'Anemia in Pregnancy',
-    icdCode: 'O99.0',
-    baseProbability: 0.15,
-    symptoms: [
-      { symptom: 'fatigue', weight: 0.8 },
-      { symptom: 'weakness', weight: 0.7 },
-      { symptom: 'shortness of breath', weight: 0.6 },
-      { symptom: 'dizziness', weight: 0.6 },
-      { symptom: 'pale skin', weight: 0.7 },
-      { symptom: 'rapid heartbeat', weight: 0.5 },
-    ],
-    riskFactors: [
-      { factor: 'poor_nutrition', multiplier: 1.8 },
-      { factor: 'multiple_pregnancy', multiplier: 1.5 },
-      { factor: 'heavy_periods_history', multiplier: 1.4 },
-      { factor: 'vegetarian', multiplier: 1.3 },
-    ],
-    trimesterRelevance: [
-      { trimester: 1, multiplier: 0.8 },
-      { trimester: 2, multiplier: 1.2 },
-      { trimester: 3, multiplier: 1.5 },
-    ],
-    severity: 'mild',
-    urgency: 'routine',
-    description: 'Low red blood cell count during pregnancy, often due to iron deficiency.',
-    recommendedTests: ['Complete blood count', 'Iron studies', 'Ferritin level'],
-  },
-];
-
-// Rule-based obstetric rules
-interface ObstetricRule {
-  id: string;
-  name: string;
-  description: string;
-  condition: (input: DiagnosticInput) => boolean;
-  output: {
-    addRisk: RiskLevel;
-    urgency: 'routine' | 'soon' | 'urgent' | 'emergency';
-    recommendation: string;
-    rationale: string;
-  };
-}
-
-const OBSTETRIC_RULES: ObstetricRule[] = [
-  {
-    id: 'RULE_001',
-    name: 'Hypertensive Emergency',
-    description: 'Blood pressure >= 160/110 mmHg requires immediate attention',
-    condition: (input) => {
-      const bp = input.vitalSigns;
-      return (bp?.systolicBP || 0) >= 160 || (bp?.diastolicBP || 0) >= 110;
-    },
-    output: {
-      addRisk: 'level_4',
-      urgency: 'emergency',
-      recommendation: 'Immediate medical evaluation required',
-      rationale: 'Severely elevated blood pressure in pregnancy can lead to stroke, organ damage, or eclampsia',
-    },
-  },
-  {
-    id: 'RULE_002',
-    name: 'Third Trimester Bleeding',
-    description: 'Any vaginal bleeding in third trimester requires urgent evaluation',
-    condition: (input) => {
-      const hasBleedingSymptom = input.symptoms.some(s => 
-        s.name.toLowerCase().includes('bleeding') || s.name.toLowerCase().includes('spotting')
-      );
-      return hasBleedingSymptom && input.pregnancyStage.trimester === 3;
-    },
-    output: {
-      addRisk: 'level_3',
-      urgency: 'urgent',
-      recommendation: 'Urgent obstetric evaluation required',
-      rationale: 'Third trimester bleeding may indicate placenta previa, placental abruption, or labor',
-    },
-  },
-  {
-    id: 'RULE_003',
-    name: 'Reduced Fetal Movement',
-    description: 'Decreased fetal movement in late pregnancy requires monitoring',
-    condition: (input) => {
-      const hasReducedMovement = input.symptoms.some(s => 
-        s.name.toLowerCase().includes('movement') || s.name.toLowerCase().includes('baby not moving')
-      );
-      return hasReducedMovement && input.pregnancyStage.weeksGestation >= 28;
-    },
-    output: {
-      addRisk: 'level_3',
-      urgency: 'urgent',
-      recommendation: 'Fetal monitoring and evaluation recommended within 24 hours',
-      rationale: 'Reduced fetal movement can indicate fetal distress and requires assessment',
-    },
-  },
-  {
-    id: 'RULE_004',
-    name: 'Preterm Labor Signs',
-    description: 'Signs of labor before 37 weeks require immediate evaluation',
-    condition: (input) => {
-      const hasLaborSigns = input.symptoms.some(s => 
-        s.name.toLowerCase().includes('contractions') || 
-        s.name.toLowerCase().includes('water broke') ||
-        s.name.toLowerCase().includes('leaking fluid')
-      );
-      return hasLaborSigns && input.pregnancyStage.weeksGestation < 37;
-    },
-    output: {
-      addRisk: 'level_4',
-      urgency: 'emergency',
-      recommendation: 'Emergency evaluation for preterm labor',
-      rationale: 'Preterm labor may lead to premature birth and requires immediate intervention',
-    },
-  },
-  {
-    id: 'RULE_005',
-    name: 'High Fever in Pregnancy',
-    description: 'Temperature >= 38°C (100.4°F) requires evaluation',
-    condition: (input) => {
-      return (input.vitalSigns?.temperature || 0) >= 38;
-    },
-    output: {
-      addRisk: 'level_2',
-      urgency: 'soon',
-      recommendation: 'Medical evaluation within 24 hours',
-      rationale: 'High fever in pregnancy can harm the developing baby and may indicate infection',
-    },
-  },
-  {
-    id: 'RULE_006',
-    name: 'Multiple High-Risk Factors',
-    description: 'Multiple risk factors compound pregnancy risk',
-    condition: (input) => {
-      return input.riskFactors.length >= 3;
-    },
-    output: {
-      addRisk: 'level_2',
-      urgency: 'soon',
-      recommendation: 'Schedule high-risk pregnancy consultation',
-      rationale: 'Multiple risk factors increase the likelihood of pregnancy complications',
-    },
-  },
-];
-
 class DiagnosticReasoningEngine {
-  private modelVersion = 'diagnostic-v1.0';
-
   /**
    * Perform diagnostic analysis
    */
-  async analyze(input: DiagnosticInput): Promise<DiagnosticResult> {
+  async analyze(input: DiagnosticInput, options: AnalyzeOptions = {}): Promise<DiagnosticResult> {
     const startTime = Date.now();
+    // Callers that pin neither a pack nor a version get the deployed version
+    const production = options.knowledgePack || options.modelVersion
+      ? null
+      : await modelVersionRegistry.getProductionVersion();
+    const pack = options.knowledgePack || production?.knowledgePack || await knowledgeBase.getActivePack();
     const reasoningSteps: ReasoningStep[] = [];
     const rulesApplied: RuleApplication[] = [];
     const bayesianFactors: BayesianFactor[] = [];
     const featuresConsidered: FeatureWeight[] = [];
+    const temporalFindings: TemporalFinding[] = [];
 
     // Step 1: Apply rule-based obstetric logic
     reasoningSteps.push({
@@ -515,16 +198,26 @@ class DiagnosticReasoningEngine {
     let maxRiskLevel: RiskLevel = 'level_1';
     const ruleRecommendations: Recommendation[] = [];
 
-    for (const rule of OBSTETRIC_RULES) {
-      const triggered = rule.condition(input);
+    for (const rule of pack.rules) {
+      const triggered = evaluateRuleExpression(rule.when, input);
+      const trendEvaluations = collectTrendEvaluations(rule.when, input);
       rulesApplied.push({
         ruleName: rule.name,
         ruleDescription: rule.description,
         triggered,
-        inputs: this.getRuleInputs(input, rule),
+        inputs: this.getRuleInputs(input, rule, trendEvaluations),
         output: triggered ? rule.output.recommendation : 'Rule not triggered',
+        temporal: trendEvaluations.length > 0,
       });
 
+      if (triggered && trendEvaluations.length > 0) {
+        temporalFindings.push({
+          ruleName: rule.name,
+          condition: describeRuleExpression(rule.when),
+          evaluations: trendEvaluations,
+        });
+      }
+
       if (triggered) {
         maxRiskLevel = this.getHigherRiskLevel(maxRiskLevel, rule.output.addRisk);
         maxUrgency = this.getHigherUrgency(maxUrgency, rule.output.urgency);
@@ -538,9 +231,20 @@ class DiagnosticReasoningEngine {
       }
     }
 
+    if (input.history) {
+      reasoningSteps.push({
+        step: reasoningSteps.length + 1,
+        description: `Evaluating trends across ${input.history.vitals.length} vital sign reading(s)`,
+        conclusion: temporalFindings.length > 0
+          ? `Trend rules triggered: ${temporalFindings.map(f => f.ruleName).join(', ')}`
+          : 'No concerning trends detected',
+        confidence: input.history.vitals.length >= 3 ? 0.85 : 0.6,
+      });
+    }
+
     // Step 2: Bayesian analysis for differential diagnosis
     reasoningSteps.push({
-      step: 2,
+      step: reasoningSteps.length + 1,
       description: 'Performing Bayesian probability analysis',
       conclusion: 'Calculating condition probabilities based on symptoms and risk factors',
       confidence: 0.85,
@@ -548,7 +252,7 @@ class DiagnosticReasoningEngine {
 
     const differentialConditions: DifferentialCondition[] = [];
 
-    for (const condition of OBSTETRIC_CONDITIONS) {
+    for (const condition of pack.conditions) {
       const bayesianResult = this.calculateBayesianProbability(condition, input);
       
       if (bayesianResult.posteriorProbability > 0.1) {
@@ -578,7 +282,7 @@ class DiagnosticReasoningEngine {
 
     // Step 3: Feature analysis
     reasoningSteps.push({
-      step: 3,
+      step: reasoningSteps.length + 1,
       description: 'Analyzing input features and their weights',
       conclusion: 'Evaluating symptom severity, vital signs, and risk factors',
       confidence: 0.9,
@@ -624,7 +328,7 @@ class DiagnosticReasoningEngine {
 
     // Step 4: Generate recommendations
     reasoningSteps.push({
-      step: 4,
+      step: reasoningSteps.length + 1,
       description: 'Generating recommendations based on analysis',
       conclusion: 'Compiling action items and follow-up suggestions',
       confidence: 0.88,
@@ -673,6 +377,7 @@ class DiagnosticReasoningEngine {
         bayesianFactors: bayesianFactors.slice(0, 5),
         rulesApplied,
         featuresConsidered,
+        temporalFindings,
         alternativeInterpretations: this.generateAlternativeInterpretations(differentialConditions),
         limitations: [
           'This is an AI-assisted analysis and should not replace clinical judgment',
@@ -689,9 +394,11 @@ class DiagnosticReasoningEngine {
         'Always consult with a qualified healthcare provider for medical decisions.',
         'In case of emergency, seek immediate medical attention.',
       ],
+      knowledgeBaseVersion: pack.version,
+      modelVersion: options.modelVersion || production?.version || DEFAULT_MODEL_VERSION,
     };
 
-    console.log(`Diagnostic analysis completed in ${processingTime}ms`);
+    console.log(`Diagnostic analysis completed in ${processingTime}ms (knowledge base ${pack.version})`);
 
     return result;
   }
@@ -780,8 +487,16 @@ class DiagnosticReasoningEngine {
   /**
    * Get rule inputs description
    */
-  private getRuleInputs(input: DiagnosticInput, rule: ObstetricRule): string[] {
-    const inputs: string[] = [];
+  private getRuleInputs(
+    input: DiagnosticInput,
+    rule: ObstetricRuleDefinition,
+    trendEvaluations: TrendEvaluation[]
+  ): string[] {
+    const inputs: string[] = [`Rule reads: ${getReferencedFacts(rule.when).join(', ')}`];
+    for (const trend of trendEvaluations) {
+      const observed = trend.observed !== undefined ? trend.observed.toFixed(1) : 'insufficient data';
+      inputs.push(`Trend: ${trend.description} = ${observed} (${trend.pointsUsed} readings, needs ${trend.threshold})`);
+    }
     if (input.vitalSigns?.systolicBP) inputs.push(`Systolic BP: ${input.vitalSigns.systolicBP}`);
     if (input.vitalSigns?.diastolicBP) inputs.push(`Diastolic BP: ${input.vitalSigns.diastolicBP}`);
     if (input.vitalSigns?.temperature) inputs.push(`Temperature: ${input.vitalSigns.temperature}°C`);
@@ -861,8 +576,12 @@ class DiagnosticReasoningEngine {
       ? `BP: ${input.vitalSigns.systolicBP || '-'}/${input.vitalSigns.diastolicBP || '-'}, HR: ${input.vitalSigns.heartRate || '-'}, Temp: ${input.vitalSigns.temperature || '-'}°C`
       : 'Not provided';
     
+    const history = input.history
+      ? ` History: ${input.history.vitals.length} vital reading(s), ${input.history.fetalMovements?.length || 0} movement count(s).`
+      : '';
+
     return `Patient at ${input.pregnancyStage.weeksGestation} weeks gestation (Trimester ${input.pregnancyStage.trimester}). ` +
-           `Symptoms: ${symptoms}. Vitals: ${vitals}. Risk factors: ${input.riskFactors.length || 0}.`;
+           `Symptoms: ${symptoms}. Vitals: ${vitals}. Risk factors: ${input.riskFactors.length || 0}.${history}`;
   }
 
   private generateJustification(
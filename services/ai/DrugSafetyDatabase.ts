@@ -0,0 +1,194 @@
+/**
+ * Pregnancy Drug Safety Database for Maternal Health AI
+ *
+ * Implements:
+ * - Lookup of medications by generic or brand name, alone or in free text
+ * - Per-trimester pregnancy risk with week-specific overrides
+ *   (e.g. NSAIDs from 20 weeks) and lactation risk
+ * - Contraindications against the patient's conditions and interactions
+ *   with their other medications
+ *
+ * Backed by the bundled dataset in knowledge/pregnancy-drug-safety.json.
+ */
+
+import drugSafetyData from './knowledge/pregnancy-drug-safety.json';
+
+// Types
+export type DrugRisk = 'safe' | 'caution' | 'avoid' | 'contraindicated';
+
+export interface DrugRiskNote {
+  risk: DrugRisk;
+  note: string;
+}
+
+export interface DrugSafetyEntry {
+  id: string;
+  name: string;
+  aliases: string[];
+  drugClass: string;
+  trimesters: Record<'1' | '2' | '3', DrugRiskNote>;
+  /** Applies from the given week on, when stricter than the trimester */
+  fromWeek?: (DrugRiskNote & { week: number })[];
+  lactation: DrugRiskNote;
+  contraindications: { conditions: string[]; note: string }[];
+  /** `with` is another drug's id or drug class */
+  interactions: { with: string; note: string }[];
+  alternatives: string[];
+}
+
+export interface DrugSafetyContext {
+  pregnancyWeek?: number;
+  breastfeeding?: boolean;
+  conditions?: string[];
+  /** Other medications the patient takes, by name */
+  otherMedications?: string[];
+}
+
+export interface DrugSafetyAssessment {
+  drug: DrugSafetyEntry;
+  /** Pregnancy risk at the given week, or the highest across trimesters without one */
+  risk: DrugRisk;
+  guidance: string;
+  trimester?: 1 | 2 | 3;
+  pregnancyWeek?: number;
+  lactation?: DrugRiskNote;
+  contraindications: { condition: string; note: string }[];
+  interactions: { medication: string; note: string }[];
+  alternatives: string[];
+  /** Risk after contraindications, for alerting */
+  overallRisk: DrugRisk;
+}
+
+const RISK_ORDER: DrugRisk[] = ['safe', 'caution', 'avoid', 'contraindicated'];
+
+export const DRUG_RISK_LABELS: Record<DrugRisk, string> = {
+  safe: 'Generally considered safe',
+  caution: 'Use with caution',
+  avoid: 'Best avoided',
+  contraindicated: 'Do not use',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const trimesterForWeek = (week: number): 1 | 2 | 3 => (week <= 12 ? 1 : week <= 27 ? 2 : 3);
+
+const higherRisk = (a: DrugRisk, b: DrugRisk): DrugRisk =>
+  RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+
+class DrugSafetyDatabase {
+  private entries: DrugSafetyEntry[] = drugSafetyData.drugs as DrugSafetyEntry[];
+  private matchers = this.entries.flatMap(drug =>
+    drug.aliases.map(alias => ({ drug, alias, pattern: new RegExp(`\\b${escapeRegExp(alias)}\\b`, 'i') }))
+  );
+
+  getVersion(): string {
+    return drugSafetyData.version;
+  }
+
+  /**
+   * Patterns matching any known medication name
+   */
+  getNamePatterns(): RegExp[] {
+    return this.matchers.map(m => m.pattern);
+  }
+
+  get(id: string): DrugSafetyEntry | undefined {
+    return this.entries.find(d => d.id === id);
+  }
+
+  /**
+   * Entry for a medication name such as "Advil 200mg"
+   */
+  find(medicationName: string): DrugSafetyEntry | undefined {
+    return this.findInText(medicationName)[0];
+  }
+
+  /**
+   * Medications mentioned in free text, longest names first so
+   * "calcium carbonate" is not also read as "calcium"
+   */
+  findInText(text: string): DrugSafetyEntry[] {
+    const found: { drug: DrugSafetyEntry; start: number; end: number }[] = [];
+    const candidates = this.matchers
+      .map(m => ({ ...m, match: m.pattern.exec(text) }))
+      .filter(m => m.match)
+      .sort((a, b) => b.alias.length - a.alias.length);
+
+    for (const { drug, match } of candidates) {
+      const start = match!.index;
+      const end = start + match![0].length;
+      if (found.some(f => f.drug.id === drug.id || (start < f.end && end > f.start))) continue;
+      found.push({ drug, start, end });
+    }
+    return found.sort((a, b) => a.start - b.start).map(f => f.drug);
+  }
+
+  /**
+   * Pregnancy and lactation risk of a drug for the patient
+   */
+  assess(drug: DrugSafetyEntry, context: DrugSafetyContext = {}): DrugSafetyAssessment {
+    const week = context.pregnancyWeek;
+    let pregnancy: DrugRiskNote;
+    let trimester: 1 | 2 | 3 | undefined;
+
+    if (week !== undefined) {
+      trimester = trimesterForWeek(week);
+      pregnancy = drug.trimesters[String(trimester) as '1' | '2' | '3'];
+      for (const override of drug.fromWeek || []) {
+        if (week >= override.week && RISK_ORDER.indexOf(override.risk) > RISK_ORDER.indexOf(pregnancy.risk)) {
+          pregnancy = override;
+        }
+      }
+    } else {
+      // Without a week, report the strictest trimester
+      pregnancy = Object.values(drug.trimesters).reduce((worst, t) => (higherRisk(t.risk, worst.risk) === t.risk ? t : worst));
+    }
+
+    const conditions = (context.conditions || []).map(c => c.toLowerCase());
+    const contraindications = drug.contraindications.flatMap(c => {
+      const condition = c.conditions.find(name => conditions.some(pc => pc.includes(name)));
+      return condition ? [{ condition, note: c.note }] : [];
+    });
+
+    const interactions = (context.otherMedications || []).flatMap(name => {
+      const other = this.find(name);
+      if (!other || other.id === drug.id) return [];
+      const ours = drug.interactions.find(i => i.with === other.id || i.with === other.drugClass);
+      const theirs = other.interactions.find(i => i.with === drug.id || i.with === drug.drugClass);
+      const note = ours?.note || theirs?.note;
+      return note ? [{ medication: name, note }] : [];
+    });
+
+    return {
+      drug,
+      risk: pregnancy.risk,
+      guidance: pregnancy.note,
+      trimester,
+      pregnancyWeek: week,
+      lactation: context.breastfeeding ? drug.lactation : undefined,
+      contraindications,
+      interactions,
+      alternatives: drug.alternatives.map(id => this.get(id)?.name || id),
+      overallRisk: contraindications.length > 0 ? higherRisk(pregnancy.risk, 'avoid') : pregnancy.risk,
+    };
+  }
+
+  /**
+   * Assess a medication by name; undefined when it is not in the database
+   */
+  check(medicationName: string, context: DrugSafetyContext = {}): DrugSafetyAssessment | undefined {
+    const drug = this.find(medicationName);
+    return drug ? this.assess(drug, context) : undefined;
+  }
+
+  /**
+   * Whether a risk calls for the prescriber to be told
+   */
+  needsReview(risk: DrugRisk): boolean {
+    return risk === 'avoid' || risk === 'contraindicated';
+  }
+}
+
+// Export singleton instance
+export const drugSafetyDatabase = new DrugSafetyDatabase();
+export default drugSafetyDatabase;
@@ -5,16 +5,30 @@
  * - Reasoning trace
  * - Features considered
  * - Confidence level
+ * - Typed adapters per output type, so explanations reflect what was
+ *   actually computed (see ExplanationAdapters)
+ * - Counterfactuals for diagnostic results: what would change the risk level
+ *   and which conditions each rule fired on
  * 
  * Doctors view full explanation
  * Patients see simplified explanation
  */
 
 import { RiskLevel } from '@/types/database.types';
+import { modelVersionRegistry } from './ModelVersionRegistry';
+import {
+  counterfactualGenerator,
+  Counterfactual,
+  CounterfactualAnalysis,
+  RuleJustification,
+} from './CounterfactualGenerator';
+import type { DiagnosticInput, DiagnosticResult } from './DiagnosticReasoningEngine';
+import type { KnowledgePack } from './KnowledgeBase';
+import { adaptOutput, AdaptedOutput, ExplainableAIOutput } from './ExplanationAdapters';
 
 // Types
 export interface ExplanationRequest {
-  aiOutput: any;
+  aiOutput: ExplainableAIOutput;
   userRole: 'mother' | 'doctor' | 'admin';
   detailLevel: 'summary' | 'detailed' | 'full';
   context?: {
@@ -22,6 +36,10 @@ export interface ExplanationRequest {
     symptoms?: string[];
     riskLevel?: RiskLevel;
   };
+  /** Model version that produced the output; read from the output when unset */
+  modelVersion?: string;
+  /** Decision boundaries of a diagnostic result, see explainDiagnosis */
+  counterfactuals?: CounterfactualAnalysis;
 }
 
 export interface Explanation {
@@ -36,6 +54,8 @@ export interface PatientExplanation {
   whyThisMatters: string;
   whatYouCanDo: string[];
   whenToWorry: string[];
+  /** Plain-language changes that would lower the risk level */
+  whatWouldChange?: string[];
   confidence: ConfidenceIndicator;
 }
 
@@ -48,6 +68,10 @@ export interface ClinicalExplanation {
   limitations: string[];
   clinicalCorrelation: string;
   confidence: DetailedConfidence;
+  /** Smallest input changes that would change the risk level */
+  counterfactuals?: Counterfactual[];
+  /** Conditions each triggered rule depended on */
+  ruleJustifications?: RuleJustification[];
 }
 
 export interface ExplanationMetadata {
@@ -97,7 +121,6 @@ export interface ModelDetails {
 }
 
 class ExplainabilityEngine {
-  private modelVersion = 'maternal-ai-v1.0';
   private explanationVersion = 'explain-v1.0';
 
   /**
@@ -106,8 +129,9 @@ class ExplainabilityEngine {
   generateExplanation(request: ExplanationRequest): Explanation {
     const startTime = Date.now();
 
-    const patientExplanation = this.generatePatientExplanation(request);
-    const clinicalExplanation = this.generateClinicalExplanation(request);
+    const output = adaptOutput(request.aiOutput);
+    const patientExplanation = this.generatePatientExplanation(request, output);
+    const clinicalExplanation = this.generateClinicalExplanation(request, output);
 
     const computeTime = Date.now() - startTime;
 
@@ -116,38 +140,66 @@ class ExplainabilityEngine {
       forClinician: clinicalExplanation,
       metadata: {
         generatedAt: new Date(),
-        modelVersion: this.modelVersion,
+        modelVersion: this.modelVersionOf(request, output),
         explanationVersion: this.explanationVersion,
         computeTimeMs: computeTime,
       },
     };
   }
 
+  /**
+   * Explain an output backed by a diagnostic result, including the
+   * counterfactuals found by re-running the diagnostic engine on perturbed inputs
+   */
+  async explainDiagnosis(
+    request: Omit<ExplanationRequest, 'counterfactuals'>,
+    input: DiagnosticInput,
+    result: DiagnosticResult,
+    knowledgePack?: KnowledgePack
+  ): Promise<Explanation> {
+    let counterfactuals: CounterfactualAnalysis | undefined;
+    try {
+      counterfactuals = await counterfactualGenerator.generate(input, result, knowledgePack);
+    } catch (error) {
+      console.log('Counterfactuals not available:', error);
+    }
+
+    return this.generateExplanation({
+      ...request,
+      modelVersion: request.modelVersion || result.modelVersion,
+      counterfactuals,
+    });
+  }
+
+  private modelVersionOf(request: ExplanationRequest, output: AdaptedOutput): string {
+    return request.modelVersion || output.modelVersion || modelVersionRegistry.getCachedProductionVersion();
+  }
+
   /**
    * Generate patient-friendly explanation
    */
-  private generatePatientExplanation(request: ExplanationRequest): PatientExplanation {
-    const output = request.aiOutput;
+  private generatePatientExplanation(request: ExplanationRequest, output: AdaptedOutput): PatientExplanation {
     const context = request.context;
+    const riskLevel = output.riskLevel || context?.riskLevel || 'level_1';
 
     // Determine confidence indicator
-    const confidenceLevel = this.determineConfidenceLevel(output.confidence || 0.75);
+    const confidenceLevel = this.determineConfidenceLevel(output.confidence);
 
-    // Extract key findings in simple language
-    const whatWeFound = this.simplifyFindings(output);
-    
     // Generate action items
-    const whatYouCanDo = this.generatePatientActions(output);
+    const whatYouCanDo = this.generatePatientActions(riskLevel, output);
     
     // Warning signs
-    const whenToWorry = this.generateWarningSignsForPatient(output);
+    const whenToWorry = this.generateWarningSignsForPatient();
 
     return {
-      summary: this.generatePatientSummary(output, context),
-      whatWeFound,
-      whyThisMatters: this.explainWhyItMatters(output),
+      summary: this.generatePatientSummary(riskLevel, context),
+      whatWeFound: output.findings,
+      whyThisMatters: this.explainWhyItMatters(riskLevel),
       whatYouCanDo,
       whenToWorry,
+      whatWouldChange: request.counterfactuals
+        ? this.simplifyCounterfactuals(request.counterfactuals)
+        : undefined,
       confidence: confidenceLevel,
     };
   }
@@ -155,13 +207,9 @@ class ExplainabilityEngine {
   /**
    * Generate clinical explanation for doctors
    */
-  private generateClinicalExplanation(request: ExplanationRequest): ClinicalExplanation {
-    const output = request.aiOutput;
+  private generateClinicalExplanation(request: ExplanationRequest, output: AdaptedOutput): ClinicalExplanation {
     const context = request.context;
 
-    // Build reasoning chain
-    const reasoningChain = this.buildReasoningChain(output);
-
     // Analyze features
     const featuresAnalyzed = this.analyzeFeatures(output, context);
 
@@ -170,12 +218,14 @@ class ExplainabilityEngine {
 
     return {
       summary: this.generateClinicalSummary(output, context),
-      reasoningChain,
-      differentialConsiderations: this.getDifferentialConsiderations(output),
+      reasoningChain: output.reasoningChain,
+      differentialConsiderations: output.differentials.length > 0
+        ? output.differentials
+        : ['No specific differential diagnoses generated', 'Clinical correlation and examination recommended'],
       featuresAnalyzed,
       modelDetails: {
         modelName: 'Maternal Health AI',
-        version: this.modelVersion,
+        version: this.modelVersionOf(request, output),
         trainingDataDescription: 'Trained on anonymized maternal health records and obstetric guidelines',
         validationMetrics: 'F1: 0.85, Safety Score: 0.95, Clinical Validation: 0.80',
         knownLimitations: [
@@ -185,59 +235,48 @@ class ExplainabilityEngine {
           'Based on general obstetric guidelines, not individual protocols',
         ],
       },
-      limitations: [
-        'AI-assisted assessment should be used in conjunction with clinical judgment',
-        'Individual patient factors may not be fully captured by the model',
-        'Always correlate with physical examination and diagnostic tests',
-      ],
+      limitations: output.limitations,
       clinicalCorrelation: 'Recommend clinical examination to confirm AI findings. Consider patient history and physical assessment.',
       confidence: detailedConfidence,
+      counterfactuals: request.counterfactuals?.counterfactuals,
+      ruleJustifications: request.counterfactuals?.ruleJustifications,
     };
   }
 
   /**
-   * Simplify findings for patients
+   * Risk-lowering counterfactuals in plain words, nearest first
    */
-  private simplifyFindings(output: any): string[] {
-    const findings: string[] = [];
-
-    // Process symptoms
-    if (output.extractedSymptoms?.length > 0) {
-      findings.push(`We identified ${output.extractedSymptoms.length} symptom(s) you mentioned`);
-    }
-
-    // Risk level
-    if (output.riskLevel) {
-      const riskMap: Record<string, string> = {
-        level_1: 'Your symptoms appear to be within normal range',
-        level_2: 'Your symptoms need some attention but are not urgent',
-        level_3: 'Your symptoms need prompt medical attention',
-        level_4: 'Your symptoms require immediate medical care',
-      };
-      findings.push(riskMap[output.riskLevel] || 'We assessed your symptom severity');
-    }
-
-    // Intent understanding
-    if (output.intent) {
-      const intentMap: Record<string, string> = {
-        symptom_report: 'We understood you are reporting symptoms',
-        question: 'We understood you have a question',
-        emergency: 'We recognized this may be urgent',
-        emotional_support: 'We understand you may need support',
-      };
-      if (intentMap[output.intent]) {
-        findings.push(intentMap[output.intent]);
-      }
-    }
+  private simplifyCounterfactuals(analysis: CounterfactualAnalysis): string[] {
+    const riskWords: Record<RiskLevel, string> = {
+      level_1: 'low',
+      level_2: 'moderate',
+      level_3: 'high',
+      level_4: 'urgent',
+    };
 
-    return findings;
+    return analysis.counterfactuals
+      .filter(c => counterfactualGenerator.lowersRisk(c))
+      .slice(0, 3)
+      .map(c => {
+        const from = riskWords[c.originalRiskLevel];
+        const to = riskWords[c.counterfactualRiskLevel];
+        if (c.kind === 'symptom_removed') {
+          return `Without ${c.label}, your risk would be ${to} rather than ${from}`;
+        }
+        if (c.kind === 'risk_factor_removed') {
+          return `Your history of ${c.label} is part of why your risk is ${from} rather than ${to}`;
+        }
+        const changes = c.changes.map(change => change.fact === 'pregnancyStage.weeksGestation'
+          ? `you were at week ${change.counterfactualValue}`
+          : `your ${change.label} was ${change.boundaryDescription}`);
+        return `If ${changes.join(' and ')}, your risk would be ${to} rather than ${from}`;
+      });
   }
 
   /**
    * Generate patient-friendly summary
    */
-  private generatePatientSummary(output: any, context?: ExplanationRequest['context']): string {
-    const riskLevel = output.riskLevel || 'level_1';
+  private generatePatientSummary(riskLevel: RiskLevel, context?: ExplanationRequest['context']): string {
     const week = context?.pregnancyWeek;
 
     const summaries: Record<string, string> = {
@@ -253,8 +292,7 @@ class ExplainabilityEngine {
   /**
    * Explain why findings matter in simple terms
    */
-  private explainWhyItMatters(output: any): string {
-    const riskLevel = output.riskLevel || 'level_1';
+  private explainWhyItMatters(riskLevel: RiskLevel): string {
 
     const explanations: Record<string, string> = {
       level_1: "During pregnancy, it's normal to experience various symptoms. The symptoms you described are common and generally not concerning, but it's always good to stay aware of how you feel.",
@@ -269,9 +307,8 @@ class ExplainabilityEngine {
   /**
    * Generate action items for patients
    */
-  private generatePatientActions(output: any): string[] {
+  private generatePatientActions(riskLevel: RiskLevel, output: AdaptedOutput): string[] {
     const actions: string[] = [];
-    const riskLevel = output.riskLevel || 'level_1';
 
     // Base actions by risk level
     switch (riskLevel) {
@@ -298,12 +335,7 @@ class ExplainabilityEngine {
     }
 
     // Add specific recommendations from AI output
-    if (output.recommendations?.length > 0) {
-      const simpleRecs = output.recommendations
-        .slice(0, 3)
-        .map((r: any) => typeof r === 'string' ? r : r.description);
-      actions.push(...simpleRecs);
-    }
+    actions.push(...output.recommendations.slice(0, 3));
 
     return actions;
   }
@@ -311,7 +343,7 @@ class ExplainabilityEngine {
   /**
    * Generate warning signs for patients
    */
-  private generateWarningSignsForPatient(output: any): string[] {
+  private generateWarningSignsForPatient(): string[] {
     const warnings = [
       'Contact your doctor immediately if you experience:',
       '• Heavy bleeding or fluid leaking',
@@ -353,88 +385,32 @@ class ExplainabilityEngine {
   /**
    * Generate clinical summary
    */
-  private generateClinicalSummary(output: any, context?: ExplanationRequest['context']): string {
+  private generateClinicalSummary(output: AdaptedOutput, context?: ExplanationRequest['context']): string {
     const parts: string[] = [];
 
     if (context?.pregnancyWeek) {
       parts.push(`Patient at ${context.pregnancyWeek} weeks gestation.`);
     }
 
-    if (output.extractedSymptoms?.length > 0) {
-      const symptoms = output.extractedSymptoms.map((s: any) => 
-        typeof s === 'string' ? s : `${s.name} (${s.severity})`
-      ).join(', ');
-      parts.push(`Presenting symptoms: ${symptoms}.`);
-    }
+    parts.push(...output.clinicalFacts);
 
     if (output.riskLevel) {
       parts.push(`AI risk assessment: ${output.riskLevel.replace('_', ' ').toUpperCase()}.`);
     }
 
-    if (output.confidence) {
+    // Alerts come from fixed thresholds, not a model
+    if (output.source !== 'alert') {
       parts.push(`Model confidence: ${(output.confidence * 100).toFixed(1)}%.`);
     }
-
     parts.push('Clinical correlation recommended.');
 
     return parts.join(' ');
   }
 
-  /**
-   * Build reasoning chain for clinical explanation
-   */
-  private buildReasoningChain(output: any): ReasoningStep[] {
-    const chain: ReasoningStep[] = [];
-
-    // Step 1: Input processing
-    chain.push({
-      stepNumber: 1,
-      process: 'Input Processing',
-      input: 'Patient message and context',
-      output: `Identified ${output.extractedSymptoms?.length || 0} symptoms, intent: ${output.intent || 'unknown'}`,
-      confidence: 0.9,
-      evidence: ['Natural language processing', 'Medical entity recognition'],
-    });
-
-    // Step 2: Symptom analysis
-    if (output.extractedSymptoms?.length > 0) {
-      chain.push({
-        stepNumber: 2,
-        process: 'Symptom Analysis',
-        input: output.extractedSymptoms.map((s: any) => s.name || s).join(', '),
-        output: `Severity assessment: ${output.extractedSymptoms.map((s: any) => s.severity || 'unknown').join(', ')}`,
-        confidence: 0.85,
-        evidence: ['Symptom pattern matching', 'Severity scoring algorithm'],
-      });
-    }
-
-    // Step 3: Risk stratification
-    chain.push({
-      stepNumber: 3,
-      process: 'Risk Stratification',
-      input: 'Symptoms, pregnancy stage, risk factors',
-      output: `Risk Level: ${output.riskLevel || 'level_1'}`,
-      confidence: output.confidence || 0.75,
-      evidence: ['Bayesian risk model', 'Rule-based obstetric logic', 'Multi-agent consensus'],
-    });
-
-    // Step 4: Response generation
-    chain.push({
-      stepNumber: 4,
-      process: 'Response Generation',
-      input: 'Risk assessment, user role, context',
-      output: 'Appropriate response with recommendations',
-      confidence: 0.85,
-      evidence: ['Safety filters applied', 'Language adaptation for user type'],
-    });
-
-    return chain;
-  }
-
   /**
    * Analyze features for clinical explanation
    */
-  private analyzeFeatures(output: any, context?: ExplanationRequest['context']): FeatureAnalysis[] {
+  private analyzeFeatures(output: AdaptedOutput, context?: ExplanationRequest['context']): FeatureAnalysis[] {
     const features: FeatureAnalysis[] = [];
 
     // Pregnancy week
@@ -443,7 +419,7 @@ class ExplainabilityEngine {
         feature: 'Gestational Age',
         value: context.pregnancyWeek,
         normalRange: '0-42 weeks',
-        impact: context.pregnancyWeek > 36 ? 'neutral' : 'neutral',
+        impact: 'neutral',
         weight: 0.8,
         explanation: `Patient at ${context.pregnancyWeek} weeks. Late pregnancy (>36 weeks) increases vigilance for labor signs.`,
       });
@@ -460,110 +436,26 @@ class ExplainabilityEngine {
       });
     }
 
-    // Symptoms
-    if (output.extractedSymptoms?.length > 0) {
-      for (const symptom of output.extractedSymptoms) {
-        features.push({
-          feature: `Symptom: ${symptom.name || symptom}`,
-          value: symptom.severity || 'reported',
-          impact: symptom.severity === 'severe' || symptom.severity === 'critical' ? 'negative' : 'neutral',
-          weight: this.getSymptomWeight(symptom.severity),
-          explanation: `${symptom.name || symptom} reported with ${symptom.severity || 'unspecified'} severity.`,
-        });
-      }
-    }
-
-    // Intent
-    if (output.intent) {
-      features.push({
-        feature: 'Detected Intent',
-        value: output.intent,
-        impact: output.intent === 'emergency' ? 'negative' : 'neutral',
-        weight: 0.7,
-        explanation: `Primary intent classified as ${output.intent}.`,
-      });
-    }
-
-    return features;
-  }
-
-  /**
-   * Get symptom weight based on severity
-   */
-  private getSymptomWeight(severity?: string): number {
-    const weights: Record<string, number> = {
-      mild: 0.3,
-      moderate: 0.5,
-      severe: 0.8,
-      critical: 1.0,
-    };
-    return weights[severity || 'moderate'] || 0.5;
-  }
-
-  /**
-   * Get differential considerations
-   */
-  private getDifferentialConsiderations(output: any): string[] {
-    const considerations: string[] = [];
-
-    if (output.differentialConditions?.length > 0) {
-      for (const condition of output.differentialConditions.slice(0, 5)) {
-        considerations.push(
-          `${condition.condition}: ${(condition.probability * 100).toFixed(1)}% - ${condition.description || 'Consider evaluation'}`
-        );
-      }
-    } else {
-      considerations.push('No specific differential diagnoses generated');
-      considerations.push('Clinical correlation and examination recommended');
-    }
-
-    return considerations;
+    return [...features, ...output.features];
   }
 
   /**
-   * Calculate detailed confidence metrics
+   * Detailed confidence from the factors the output's producer combined
    */
-  private calculateDetailedConfidence(output: any): DetailedConfidence {
-    const baseConfidence = output.confidence || 0.75;
-
-    const factors: { factor: string; confidence: number; weight: number }[] = [
-      {
-        factor: 'Symptom Specificity',
-        confidence: output.extractedSymptoms?.length > 0 ? 0.85 : 0.6,
-        weight: 0.3,
-      },
-      {
-        factor: 'Context Completeness',
-        confidence: 0.7,
-        weight: 0.2,
-      },
-      {
-        factor: 'Model Certainty',
-        confidence: baseConfidence,
-        weight: 0.3,
-      },
-      {
-        factor: 'Safety Validation',
-        confidence: 0.95,
-        weight: 0.2,
-      },
-    ];
-
-    const uncertaintyFactors: string[] = [];
-    if (!output.extractedSymptoms?.length) {
-      uncertaintyFactors.push('Limited symptom information provided');
-    }
-    if (baseConfidence < 0.7) {
+  private calculateDetailedConfidence(output: AdaptedOutput): DetailedConfidence {
+    const confidence = output.confidence;
+    const uncertaintyFactors = [...output.uncertaintyFactors];
+    if (confidence < 0.7) {
       uncertaintyFactors.push('Model showed reduced certainty');
     }
 
     return {
-      overall: baseConfidence,
-      byFactor: factors,
+      overall: confidence,
+      byFactor: output.confidenceFactors,
       uncertaintyFactors,
-      reliabilityAssessment: baseConfidence >= 0.8 
+      reliabilityAssessment: confidence >= 0.8 
         ? 'High reliability - supported by strong feature matching'
-        : baseConfidence >= 0.6
+        : confidence >= 0.6
           ? 'Moderate reliability - clinical correlation recommended'
           : 'Lower reliability - requires clinical judgment',
     };
@@ -581,6 +473,9 @@ class ExplainabilityEngine {
       formatted += `## What You Can Do\n${p.whatYouCanDo.map(a => `• ${a}`).join('\n')}\n\n`;
       formatted += `## Confidence\n${p.confidence.visualIndicator} ${p.confidence.description}\n\n`;
       formatted += `## Warning Signs\n${p.whenToWorry.join('\n')}`;
+      if (p.whatWouldChange?.length) {
+        formatted += `\n\n## What Would Change This\n${p.whatWouldChange.map(w => `• ${w}`).join('\n')}`;
+      }
       return formatted;
     } else {
       const c = explanation.forClinician;
@@ -596,7 +491,19 @@ class ExplainabilityEngine {
       }
       formatted += `\n## Confidence\n`;
       formatted += `Overall: ${(c.confidence.overall * 100).toFixed(1)}%\n`;
+      for (const f of c.confidence.byFactor) {
+        formatted += `• ${f.factor}: ${(f.confidence * 100).toFixed(0)}% × ${f.weight.toFixed(2)}\n`;
+      }
+      if (c.confidence.uncertaintyFactors.length > 0) {
+        formatted += `Uncertainty: ${c.confidence.uncertaintyFactors.join('; ')}\n`;
+      }
       formatted += `Reliability: ${c.confidence.reliabilityAssessment}\n\n`;
+      if (c.ruleJustifications?.length) {
+        formatted += `## Rules Fired\n${c.ruleJustifications.map(j => `• ${j.statement}`).join('\n')}\n\n`;
+      }
+      if (c.counterfactuals?.length) {
+        formatted += `## Counterfactuals\n${c.counterfactuals.map(cf => `• ${cf.statement}`).join('\n')}\n\n`;
+      }
       formatted += `## Limitations\n${c.limitations.map(l => `• ${l}`).join('\n')}\n\n`;
       formatted += `## Clinical Correlation\n${c.clinicalCorrelation}`;
       return formatted;
@@ -0,0 +1,484 @@
+/**
+ * Explanation Adapters for Maternal Health AI
+ *
+ * Implements:
+ * - One typed adapter per AI output type (diagnostic result, conversational
+ *   response, orchestrator result, doctor alert) that maps what the producer
+ *   actually computed into a common explainable form
+ * - Confidence decomposed into the factors the producer combined, with the
+ *   weights it combined them with
+ */
+
+import { RiskLevel } from '@/types/database.types';
+import type { DiagnosticResult, ExplanationTrace } from './DiagnosticReasoningEngine';
+import type { AIResponse } from './AIConversationalEngine';
+import type { OrchestratorResult, TriageUrgency } from './MultiAgentSystem';
+import type { ReasoningStep, FeatureAnalysis, DetailedConfidence } from './ExplainabilityEngine';
+
+// Types
+export interface AlertOutput {
+  type: 'alert';
+  alertType: string;
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  message: string;
+  vitals?: Record<string, number | string>;
+}
+
+export type ExplainableAIOutput = DiagnosticResult | AIResponse | OrchestratorResult | AlertOutput;
+
+export type ConfidenceFactor = DetailedConfidence['byFactor'][number];
+
+export interface AdaptedOutput {
+  source: 'diagnostic' | 'conversation' | 'orchestrator' | 'alert';
+  riskLevel?: RiskLevel;
+  intent?: string;
+  /** Confidence the producer reported */
+  confidence: number;
+  /** Factors the reported confidence was combined from; weights sum to 1 */
+  confidenceFactors: ConfidenceFactor[];
+  uncertaintyFactors: string[];
+  /** One sentence each, for the clinical summary */
+  clinicalFacts: string[];
+  /** Plain-language findings for patients */
+  findings: string[];
+  reasoningChain: ReasoningStep[];
+  features: FeatureAnalysis[];
+  differentials: string[];
+  recommendations: string[];
+  limitations: string[];
+  modelVersion?: string;
+}
+
+export interface ExplanationAdapter<T extends ExplainableAIOutput> {
+  source: AdaptedOutput['source'];
+  matches(output: ExplainableAIOutput): output is T;
+  adapt(output: T): AdaptedOutput;
+}
+
+const RISK_FINDINGS: Record<RiskLevel, string> = {
+  level_1: 'Your symptoms appear to be within normal range',
+  level_2: 'Your symptoms need some attention but are not urgent',
+  level_3: 'Your symptoms need prompt medical attention',
+  level_4: 'Your symptoms require immediate medical care',
+};
+
+const INTENT_FINDINGS: Record<string, string> = {
+  symptom_report: 'We understood you are reporting symptoms',
+  question: 'We understood you have a question',
+  emergency: 'We recognized this may be urgent',
+  emotional_support: 'We understand you may need support',
+};
+
+const URGENCY_RISK: Record<TriageUrgency, RiskLevel> = {
+  routine: 'level_1',
+  moderate: 'level_2',
+  urgent: 'level_3',
+  emergency: 'level_4',
+};
+
+const ALERT_SEVERITY_RISK: Record<AlertOutput['severity'], RiskLevel> = {
+  low: 'level_1',
+  medium: 'level_2',
+  high: 'level_3',
+  critical: 'level_4',
+};
+
+const SEVERITY_WEIGHTS: Record<string, number> = {
+  mild: 0.3,
+  moderate: 0.5,
+  severe: 0.8,
+  critical: 1.0,
+};
+
+const DEFAULT_LIMITATIONS = [
+  'AI-assisted assessment should be used in conjunction with clinical judgment',
+  'Individual patient factors may not be fully captured by the model',
+  'Always correlate with physical examination and diagnostic tests',
+];
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Factors averaged with equal weight
+const equallyWeighted = (factors: { factor: string; confidence: number }[]): ConfidenceFactor[] =>
+  factors.map(f => ({ ...f, weight: 1 / factors.length }));
+
+/**
+ * DiagnosticResult: reasoning steps with the rules, Bayesian factors and
+ * trends behind them; confidence as computed by the diagnostic engine
+ * (60% mean step confidence, 40% clarity of the top differential)
+ */
+export const diagnosticResultAdapter: ExplanationAdapter<DiagnosticResult> = {
+  source: 'diagnostic',
+
+  matches: (output): output is DiagnosticResult => 'explanationTrace' in output,
+
+  adapt(result) {
+    const trace = result.explanationTrace;
+    const triggered = trace.rulesApplied.filter(r => r.triggered);
+    const top = result.differentialConditions[0];
+
+    const stepWeight = 0.6 / Math.max(trace.reasoningSteps.length, 1);
+    const confidenceFactors: ConfidenceFactor[] = [
+      ...trace.reasoningSteps.map(step => ({ factor: step.description, confidence: step.confidence, weight: stepWeight })),
+      {
+        factor: top ? `Clarity of top differential (${top.condition})` : 'No differential above 10%',
+        confidence: top ? Math.min(top.probability + 0.3, 1) : 0.5,
+        weight: 0.4,
+      },
+    ];
+
+    const uncertaintyFactors: string[] = [];
+    if (!top) uncertaintyFactors.push('No condition reached 10% probability');
+    const [first, second] = result.differentialConditions;
+    if (first && second && first.probability - second.probability < 0.15) {
+      uncertaintyFactors.push(`Top differentials are close: ${first.condition} ${percent(first.probability)} vs ${second.condition} ${percent(second.probability)}`);
+    }
+    for (const factor of trace.bayesianFactors) {
+      if (factor.posteriorProbability >= 0.95) {
+        uncertaintyFactors.push(`${factor.factor} probability reached the 95% cap; the true estimate may differ`);
+      }
+    }
+    for (const finding of trace.temporalFindings) {
+      if (finding.evaluations.some(e => e.observed === undefined)) {
+        uncertaintyFactors.push(`Insufficient readings for part of ${finding.ruleName}`);
+      }
+    }
+    if (!trace.reasoningSteps.some(step => step.description.includes('trends'))) {
+      uncertaintyFactors.push('No vital sign history; trend rules could not fire');
+    }
+
+    const findings = [RISK_FINDINGS[result.overallRiskLevel]];
+    findings.push(...triggered.filter(r => !r.temporal).map(r => r.ruleDescription));
+    findings.push(...trace.temporalFindings.map(f => `Your recent readings show a pattern we watch for: ${f.ruleName}`));
+    if (top && top.probability > 0.5 && top.matchingSymptoms.length > 0) {
+      findings.push(`Your symptoms (${top.matchingSymptoms.join(', ')}) can be linked to ${top.condition}, which your provider may want to check`);
+    }
+
+    return {
+      source: 'diagnostic',
+      riskLevel: result.overallRiskLevel,
+      confidence: result.confidence,
+      confidenceFactors,
+      uncertaintyFactors,
+      clinicalFacts: [trace.inputSummary, result.justification, `Urgency: ${result.urgency}.`],
+      findings,
+      reasoningChain: trace.reasoningSteps.map((step, i) => ({
+        stepNumber: i + 1,
+        process: step.description,
+        ...stepEvidence(step.description, trace),
+        output: step.conclusion,
+        confidence: step.confidence,
+      })),
+      features: [
+        ...triggered.map(rule => ({
+          feature: `Rule: ${rule.ruleName}`,
+          value: 'triggered',
+          impact: 'negative' as const,
+          weight: 1,
+          explanation: `${rule.ruleDescription}. ${rule.output}`,
+        })),
+        ...trace.featuresConsidered.map(feature => ({
+          ...feature,
+          explanation: featureEvidence(feature.feature, trace),
+        })),
+      ],
+      differentials: [...trace.bayesianFactors].sort((a, b) => b.posteriorProbability - a.posteriorProbability).map(f =>
+        `${f.factor}: ${percent(f.posteriorProbability)} (prior ${percent(f.priorProbability)}, likelihood ratio ${f.likelihoodRatio.toFixed(1)})${f.evidence ? ` - ${f.evidence}` : ''}`
+      ),
+      recommendations: result.recommendations.map(r => r.description),
+      limitations: trace.limitations,
+      modelVersion: result.modelVersion,
+    };
+  },
+};
+
+// What each diagnostic step worked from, matched on the step's description
+function stepEvidence(description: string, trace: ExplanationTrace): { input: string; evidence: string[] } {
+  if (description.includes('rule-based')) {
+    return {
+      input: `${trace.rulesApplied.length} obstetric rules`,
+      evidence: trace.rulesApplied.filter(r => r.triggered).map(r => `${r.ruleName}: ${r.output}`),
+    };
+  }
+  if (description.includes('trends')) {
+    return {
+      input: 'Vital sign history',
+      evidence: trace.temporalFindings.flatMap(f => f.evaluations.map(e =>
+        `${f.ruleName}: ${e.description} = ${e.observed !== undefined ? e.observed.toFixed(1) : 'insufficient data'} (${e.pointsUsed} readings)`
+      )),
+    };
+  }
+  if (description.includes('Bayesian')) {
+    return {
+      input: 'Symptoms, risk factors, trimester and vital signs',
+      evidence: trace.bayesianFactors.map(f => `${f.factor}: ${percent(f.priorProbability)} → ${percent(f.posteriorProbability)}`),
+    };
+  }
+  if (description.includes('features')) {
+    return {
+      input: trace.inputSummary,
+      evidence: trace.featuresConsidered.map(f => `${f.feature}: ${f.value} (weight ${f.weight})`),
+    };
+  }
+  return { input: 'Preceding steps', evidence: trace.alternativeInterpretations };
+}
+
+// Conditions whose probability a feature contributed to
+function featureEvidence(feature: string, trace: ExplanationTrace): string {
+  const name = feature.replace(/^Symptom: /, '');
+  const supported = trace.bayesianFactors.filter(f => f.evidence.includes(`Symptom match: ${name}`));
+  if (supported.length > 0) {
+    return `Raised the probability of ${supported.map(f => `${f.factor} (${percent(f.posteriorProbability)})`).join(', ')}`;
+  }
+  return feature.startsWith('Symptom: ') ? 'Did not match any condition in the knowledge base' : `Weighted ${feature.toLowerCase()}`;
+}
+
+/**
+ * AIResponse: the conversational engine's trace. When follow-up ended in a
+ * diagnostic assessment, the diagnostic result is explained and the dialogue
+ * prepended to it.
+ */
+export const aiResponseAdapter: ExplanationAdapter<AIResponse> = {
+  source: 'conversation',
+
+  matches: (output): output is AIResponse => 'extractedSymptoms' in output && 'intent' in output,
+
+  adapt(response) {
+    const affirmed = response.extractedSymptoms.filter(s => !s.negated && !s.hypothetical && s.experiencer === 'patient');
+    const excluded = response.extractedSymptoms.filter(s => !affirmed.includes(s));
+
+    const uncertaintyFactors: string[] = [];
+    if (affirmed.length === 0) uncertaintyFactors.push('No affirmed symptoms in the message');
+    if (excluded.length > 0) {
+      uncertaintyFactors.push(`Not counted (negated, hypothetical or about someone else): ${excluded.map(s => s.name).join(', ')}`);
+    }
+    // Only the general path derives confidence from its factors; follow-up and
+    // emergency responses report a fixed confidence alongside them
+    const factors = response.reasoning.confidenceFactors;
+    const factorMean = factors.reduce((sum, f) => sum + f.weight, 0) / Math.max(factors.length, 1);
+    if (Math.abs(factorMean - response.confidence) > 0.01) {
+      uncertaintyFactors.push(`Reported confidence ${percent(response.confidence)} is not derived from the factors below (mean ${percent(factorMean)})`);
+    }
+    if (response.followUp) {
+      uncertaintyFactors.push(`Follow-up still needed for ${response.followUp.symptom}: ${response.followUp.missingSlots.join(', ')}`);
+    }
+
+    const symptomFeatures: FeatureAnalysis[] = response.extractedSymptoms.map(symptom => ({
+      feature: `Symptom: ${symptom.name}`,
+      value: symptom.severity,
+      impact: affirmed.includes(symptom) && (symptom.severity === 'severe' || symptom.severity === 'critical') ? 'negative' : 'neutral',
+      weight: affirmed.includes(symptom) ? SEVERITY_WEIGHTS[symptom.severity] || 0.5 : 0,
+      explanation: affirmed.includes(symptom)
+        ? `${symptom.name} reported with ${symptom.severity} severity${symptom.duration ? ` for ${symptom.duration}` : ''}`
+        : `${symptom.name} mentioned but ${symptom.negated ? 'denied' : symptom.hypothetical ? 'hypothetical' : `about ${symptom.experiencer}`}; not counted`,
+    }));
+    const intentFeature: FeatureAnalysis = {
+      feature: 'Detected Intent',
+      value: response.intent,
+      impact: response.intent === 'emergency' ? 'negative' : 'neutral',
+      weight: 0.7,
+      explanation: `Primary intent classified as ${response.intent}`,
+    };
+
+    const dialogueSteps = response.reasoning.steps.map((step, i) => {
+      const [process, ...rest] = step.split(': ');
+      return {
+        stepNumber: i + 1,
+        process: rest.length > 0 ? process : 'Conversation',
+        input: 'Patient message and conversation history',
+        output: rest.length > 0 ? rest.join(': ') : step,
+        confidence: response.confidence,
+        evidence: [],
+      };
+    });
+
+    const findings = [RISK_FINDINGS[response.riskLevel]];
+    if (affirmed.length > 0) findings.unshift(`We identified ${affirmed.length} symptom(s) you mentioned`);
+    if (INTENT_FINDINGS[response.intent]) findings.push(INTENT_FINDINGS[response.intent]);
+
+    if (response.diagnosticResult) {
+      const diagnostic = diagnosticResultAdapter.adapt(response.diagnosticResult);
+      const raised = response.riskLevel !== response.diagnosticResult.overallRiskLevel;
+      return {
+        ...diagnostic,
+        source: 'conversation',
+        riskLevel: response.riskLevel,
+        intent: response.intent,
+        uncertaintyFactors: [
+          ...uncertaintyFactors,
+          ...diagnostic.uncertaintyFactors,
+          ...(raised ? [`Reported risk ${response.riskLevel} is above the diagnostic result ${response.diagnosticResult.overallRiskLevel}, kept from follow-up`] : []),
+        ],
+        findings: raised ? [RISK_FINDINGS[response.riskLevel], ...diagnostic.findings.slice(1)] : diagnostic.findings,
+        features: [...symptomFeatures, intentFeature, ...diagnostic.features.filter(f => !f.feature.startsWith('Symptom: '))],
+        recommendations: response.recommendations,
+        modelVersion: response.modelVersion || diagnostic.modelVersion,
+      };
+    }
+
+    return {
+      source: 'conversation',
+      riskLevel: response.riskLevel,
+      intent: response.intent,
+      confidence: response.confidence,
+      // The engine averages its confidence factors; each factor's weight is its confidence
+      confidenceFactors: equallyWeighted(factors.map(f => ({ factor: f.factor, confidence: f.weight }))),
+      uncertaintyFactors,
+      clinicalFacts: [
+        affirmed.length > 0 ? `Presenting symptoms: ${affirmed.map(s => `${s.name} (${s.severity})`).join(', ')}.` : 'No presenting symptoms.',
+        `Intent: ${response.intent}.`,
+        ...(response.escalationReason ? [`Escalation: ${response.escalationReason}.`] : []),
+      ],
+      findings,
+      reasoningChain: dialogueSteps,
+      features: [...symptomFeatures, intentFeature],
+      differentials: response.reasoning.alternativeInterpretations || [],
+      recommendations: response.recommendations,
+      limitations: DEFAULT_LIMITATIONS,
+      modelVersion: response.modelVersion,
+    };
+  },
+};
+
+/**
+ * OrchestratorResult: routing, each agent's contribution and the safety
+ * filter; confidence is the mean of the agents' confidences
+ */
+export const orchestratorResultAdapter: ExplanationAdapter<OrchestratorResult> = {
+  source: 'orchestrator',
+
+  matches: (output): output is OrchestratorResult => 'finalResponse' in output,
+
+  adapt(result) {
+    const { reasoning } = result;
+    const chain: ReasoningStep[] = [
+      {
+        stepNumber: 1,
+        process: 'Routing',
+        input: 'Message and context',
+        output: reasoning.routingDecision,
+        confidence: 1,
+        evidence: reasoning.agentResponses.map(a => a.agent),
+      },
+      ...reasoning.agentResponses.map((agent, i) => ({
+        stepNumber: i + 2,
+        process: agent.agent,
+        input: 'Routed message',
+        output: agent.selected ? 'Response selected' : 'Response considered',
+        confidence: agent.confidence,
+        evidence: [],
+      })),
+    ];
+    if (reasoning.conflictResolution) {
+      chain.push({
+        stepNumber: chain.length + 1,
+        process: 'Conflict Resolution',
+        input: result.conflictsResolved.join('; '),
+        output: reasoning.conflictResolution,
+        confidence: result.consensusReached ? 1 : 0.7,
+        evidence: result.conflictsResolved,
+      });
+    }
+    chain.push({
+      stepNumber: chain.length + 1,
+      process: 'Safety Filter',
+      input: 'Final response',
+      output: reasoning.safetyFilterResult,
+      confidence: result.safetyChecked ? 1 : 0.5,
+      evidence: [],
+    });
+
+    const uncertaintyFactors: string[] = [];
+    if (!result.consensusReached) uncertaintyFactors.push(`Agents disagreed: ${result.conflictsResolved.join('; ')}`);
+    for (const agent of reasoning.agentResponses) {
+      if (agent.confidence < 0.6) uncertaintyFactors.push(`${agent.agent} had low confidence (${percent(agent.confidence)})`);
+    }
+    if (!result.triageUrgency) uncertaintyFactors.push('No triage urgency was assessed');
+
+    const riskLevel = result.triageUrgency ? URGENCY_RISK[result.triageUrgency] : undefined;
+    const findings = riskLevel ? [RISK_FINDINGS[riskLevel]] : [];
+    if (result.requiresEscalation) findings.push('We recognized this may be urgent');
+
+    return {
+      source: 'orchestrator',
+      riskLevel,
+      confidence: result.overallConfidence,
+      confidenceFactors: equallyWeighted(reasoning.agentResponses.map(a => ({ factor: a.agent, confidence: a.confidence }))),
+      uncertaintyFactors,
+      clinicalFacts: [
+        `Contributing agents: ${result.contributingAgents.join(', ') || 'none'}.`,
+        ...(result.triageUrgency ? [`Triage urgency: ${result.triageUrgency}.`] : []),
+        ...(result.escalationDetails ? [`Escalation: ${result.escalationDetails}.`] : []),
+      ],
+      findings,
+      reasoningChain: chain,
+      features: reasoning.agentResponses.map(agent => ({
+        feature: `Agent: ${agent.agent}`,
+        value: percent(agent.confidence),
+        impact: agent.selected ? 'positive' : 'neutral',
+        weight: 1 / reasoning.agentResponses.length,
+        explanation: agent.selected ? 'Its response was selected' : 'Its response was considered',
+      })),
+      differentials: [],
+      recommendations: [],
+      limitations: DEFAULT_LIMITATIONS,
+    };
+  },
+};
+
+/**
+ * Doctor alerts: raised by fixed thresholds, so there is no model
+ * probability to decompose
+ */
+export const alertAdapter: ExplanationAdapter<AlertOutput> = {
+  source: 'alert',
+
+  matches: (output): output is AlertOutput => 'type' in output && output.type === 'alert',
+
+  adapt(alert) {
+    const riskLevel = ALERT_SEVERITY_RISK[alert.severity];
+    const vitals = Object.entries(alert.vitals || {});
+
+    return {
+      source: 'alert',
+      riskLevel,
+      confidence: 1,
+      confidenceFactors: [{ factor: `${alert.alertType} threshold`, confidence: 1, weight: 1 }],
+      uncertaintyFactors: [
+        'Alert raised by a fixed threshold; no probability was computed',
+        ...(vitals.length === 0 ? ['No vital signs attached to the alert'] : []),
+      ],
+      clinicalFacts: [`${alert.severity.toUpperCase()} ${alert.alertType.replace(/_/g, ' ')} alert: ${alert.message}`],
+      findings: [RISK_FINDINGS[riskLevel]],
+      reasoningChain: [{
+        stepNumber: 1,
+        process: 'Alert Trigger',
+        input: vitals.map(([sign, value]) => `${sign}: ${value}`).join(', ') || alert.alertType,
+        output: alert.message,
+        confidence: 1,
+        evidence: vitals.map(([sign, value]) => `${sign}: ${value}`),
+      }],
+      features: vitals.map(([sign, value]) => ({
+        feature: sign,
+        value,
+        impact: 'neutral',
+        weight: 1 / vitals.length,
+        explanation: `Recorded with the ${alert.alertType.replace(/_/g, ' ')} alert`,
+      })),
+      differentials: [],
+      recommendations: [],
+      limitations: DEFAULT_LIMITATIONS,
+    };
+  },
+};
+
+/**
+ * Adapt any AI output with the adapter for its type
+ */
+export function adaptOutput(output: ExplainableAIOutput): AdaptedOutput {
+  if (diagnosticResultAdapter.matches(output)) return diagnosticResultAdapter.adapt(output);
+  if (aiResponseAdapter.matches(output)) return aiResponseAdapter.adapt(output);
+  if (orchestratorResultAdapter.matches(output)) return orchestratorResultAdapter.adapt(output);
+  if (alertAdapter.matches(output)) return alertAdapter.adapt(output);
+  throw new Error('No explanation adapter for this output type');
+}
@@ -0,0 +1,739 @@
+/**
+ * Obstetric Knowledge Base for Maternal Health AI
+ *
+ * Implements:
+ * - Declarative condition and rule definitions (JSON knowledge packs)
+ * - Schema validation of knowledge packs
+ * - Rule expression evaluation over DiagnosticInput, including temporal
+ *   (trend) expressions over vital sign history
+ * - Versioned loading from the database with a bundled fallback pack
+ * - Symptom patterns, intent patterns and education answers learned from
+ *   reviewed conversations, each linked to its source conversations
+ */
+
+import { supabase } from '@/lib/supabase';
+import { RiskLevel } from '@/types/database.types';
+import type { DiagnosticInput } from './DiagnosticReasoningEngine';
+import type { ExtractedSymptom, Intent } from './AIConversationalEngine';
+import type { SupportedLanguage } from './lexicons';
+import {
+  measureTrend,
+  describeMeasure,
+  TREND_MEASURES,
+  TREND_SERIES,
+  AbnormalThreshold,
+  TrendMeasure,
+  TrendSeries,
+} from './TrendAnalysis';
+import bundledPack from './knowledge/obstetric-v1.json';
+
+// Types
+export type Severity = 'mild' | 'moderate' | 'severe' | 'critical';
+export type Urgency = 'routine' | 'soon' | 'urgent' | 'emergency';
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+export type VitalSign = 'systolicBP' | 'diastolicBP' | 'heartRate' | 'temperature' | 'oxygenSaturation';
+
+export type RuleFact =
+  | 'vitalSigns.systolicBP'
+  | 'vitalSigns.diastolicBP'
+  | 'vitalSigns.heartRate'
+  | 'vitalSigns.temperature'
+  | 'vitalSigns.weight'
+  | 'vitalSigns.oxygenSaturation'
+  | 'pregnancyStage.weeksGestation'
+  | 'pregnancyStage.trimester'
+  | 'pregnancyStage.previousPregnancies'
+  | 'riskFactors.count'
+  | 'symptoms.count';
+
+export type RuleExpression =
+  | { all: RuleExpression[] }
+  | { any: RuleExpression[] }
+  | { not: RuleExpression }
+  | { fact: RuleFact; op: ComparisonOperator; value: number }
+  | { symptomIncludes: string[] }
+  | { riskFactorIn: string[] }
+  | TrendExpression;
+
+export interface TrendExpression {
+  trend: TrendSeries;
+  measure: TrendMeasure;
+  op: ComparisonOperator;
+  value: number;
+  window?: number;
+  windowDays?: number;
+  windowWeeks?: number;
+  abnormal?: AbnormalThreshold;
+}
+
+export interface TrendEvaluation {
+  description: string;
+  series: TrendSeries;
+  measure: TrendMeasure;
+  observed?: number;
+  threshold: string;
+  pointsUsed: number;
+  satisfied: boolean;
+}
+
+export interface ConditionDefinition {
+  name: string;
+  icdCode: string;
+  baseProbability: number;
+  symptoms: { symptom: string; weight: number }[];
+  riskFactors: { factor: string; multiplier: number }[];
+  trimesterRelevance: { trimester: number; multiplier: number }[];
+  vitalSignIndicators?: VitalSignIndicator[];
+  severity: Severity;
+  urgency: Urgency;
+  description: string;
+  recommendedTests: string[];
+}
+
+export interface VitalSignIndicator {
+  sign: VitalSign;
+  threshold: number;
+  operator: '>' | '<' | '>=' | '<=';
+  weight: number;
+}
+
+export interface ObstetricRuleDefinition {
+  id: string;
+  name: string;
+  description: string;
+  when: RuleExpression;
+  output: {
+    addRisk: RiskLevel;
+    urgency: Urgency;
+    recommendation: string;
+    rationale: string;
+  };
+  /** Learning candidates that adjusted the rule */
+  sources?: KnowledgeSource[];
+}
+
+/** Where a learned entry came from */
+export interface KnowledgeSource {
+  candidateId: string;
+  /** Anonymized learning conversations behind the candidate */
+  conversations: string[];
+}
+
+export interface LearnedSymptomPattern {
+  /** Phrases matched as whole words */
+  terms: string[];
+  /** Canonical English symptom name */
+  symptom: string;
+  severity: ExtractedSymptom['severity'];
+  language: SupportedLanguage;
+  sources: KnowledgeSource[];
+}
+
+export interface LearnedIntentPattern {
+  terms: string[];
+  intent: Intent;
+  language: SupportedLanguage;
+  sources: KnowledgeSource[];
+}
+
+export interface LearnedEducationAnswer {
+  terms: string[];
+  answer: string;
+  recommendations: string[];
+  language: SupportedLanguage;
+  sources: KnowledgeSource[];
+}
+
+export interface KnowledgePack {
+  schemaVersion: 1;
+  version: string;
+  description?: string;
+  publishedAt?: string;
+  conditions: ConditionDefinition[];
+  rules: ObstetricRuleDefinition[];
+  symptomPatterns?: LearnedSymptomPattern[];
+  intentPatterns?: LearnedIntentPattern[];
+  educationAnswers?: LearnedEducationAnswer[];
+}
+
+export interface KnowledgeBaseVersionSummary {
+  version: string;
+  description?: string;
+  status: 'draft' | 'active' | 'retired';
+  publishedAt?: string;
+  createdAt: string;
+}
+
+export interface KnowledgePackValidation {
+  valid: boolean;
+  issues: string[];
+}
+
+export class KnowledgePackValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid knowledge pack: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '; ...' : ''}`);
+    this.name = 'KnowledgePackValidationError';
+    this.issues = issues;
+  }
+}
+
+// Schema vocabulary
+const SUPPORTED_SCHEMA_VERSION = 1;
+const RISK_LEVELS: RiskLevel[] = ['level_1', 'level_2', 'level_3', 'level_4'];
+const SEVERITIES: Severity[] = ['mild', 'moderate', 'severe', 'critical'];
+const URGENCIES: Urgency[] = ['routine', 'soon', 'urgent', 'emergency'];
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<=', '==', '!='];
+const VITAL_SIGNS: VitalSign[] = ['systolicBP', 'diastolicBP', 'heartRate', 'temperature', 'oxygenSaturation'];
+const LANGUAGES: SupportedLanguage[] = ['en', 'fr', 'sw', 'tw', 'ha'];
+// Emergencies are detected from the lexicons before intents are matched
+const LEARNABLE_INTENTS: Intent[] = [
+  'symptom_report', 'question', 'appointment', 'medication', 'nutrition', 'emotional_support', 'education', 'general',
+];
+
+// Fact resolvers - the only parts of DiagnosticInput a rule can read
+const FACT_RESOLVERS: Record<RuleFact, (input: DiagnosticInput) => number | undefined> = {
+  'vitalSigns.systolicBP': (input) => input.vitalSigns?.systolicBP,
+  'vitalSigns.diastolicBP': (input) => input.vitalSigns?.diastolicBP,
+  'vitalSigns.heartRate': (input) => input.vitalSigns?.heartRate,
+  'vitalSigns.temperature': (input) => input.vitalSigns?.temperature,
+  'vitalSigns.weight': (input) => input.vitalSigns?.weight,
+  'vitalSigns.oxygenSaturation': (input) => input.vitalSigns?.oxygenSaturation,
+  'pregnancyStage.weeksGestation': (input) => input.pregnancyStage.weeksGestation,
+  'pregnancyStage.trimester': (input) => input.pregnancyStage.trimester,
+  'pregnancyStage.previousPregnancies': (input) => input.pregnancyStage.previousPregnancies,
+  'riskFactors.count': (input) => input.riskFactors.length,
+  'symptoms.count': (input) => input.symptoms.length,
+};
+
+/**
+ * Evaluate a rule expression against diagnostic input.
+ * Missing facts never satisfy a comparison.
+ */
+export function evaluateRuleExpression(expression: RuleExpression, input: DiagnosticInput): boolean {
+  if ('all' in expression) {
+    return expression.all.every(e => evaluateRuleExpression(e, input));
+  }
+  if ('any' in expression) {
+    return expression.any.some(e => evaluateRuleExpression(e, input));
+  }
+  if ('not' in expression) {
+    return !evaluateRuleExpression(expression.not, input);
+  }
+  if ('symptomIncludes' in expression) {
+    return input.symptoms.some(s =>
+      expression.symptomIncludes.some(term => s.name.toLowerCase().includes(term.toLowerCase()))
+    );
+  }
+  if ('riskFactorIn' in expression) {
+    return input.riskFactors.some(f => expression.riskFactorIn.includes(f));
+  }
+  if ('trend' in expression) {
+    return evaluateTrendExpression(expression, input).satisfied;
+  }
+
+  const value = FACT_RESOLVERS[expression.fact](input);
+  if (value === undefined || value === null) return false;
+  return compare(value, expression.op, expression.value);
+}
+
+/**
+ * Evaluate a single trend expression. Series without enough history
+ * never satisfy the expression.
+ */
+export function evaluateTrendExpression(expression: TrendExpression, input: DiagnosticInput): TrendEvaluation {
+  const window = { window: expression.window, windowDays: expression.windowDays, windowWeeks: expression.windowWeeks };
+  const measurement = measureTrend(input.history, expression.trend, expression.measure, window, expression.abnormal);
+
+  return {
+    description: describeMeasure(expression.trend, expression.measure, window, expression.abnormal),
+    series: expression.trend,
+    measure: expression.measure,
+    observed: measurement.value,
+    threshold: `${expression.op} ${expression.value}`,
+    pointsUsed: measurement.pointsUsed,
+    satisfied: measurement.value !== undefined && compare(measurement.value, expression.op, expression.value),
+  };
+}
+
+/**
+ * Evaluate every trend expression inside a rule expression
+ */
+export function collectTrendEvaluations(expression: RuleExpression, input: DiagnosticInput): TrendEvaluation[] {
+  if ('all' in expression) return expression.all.flatMap(e => collectTrendEvaluations(e, input));
+  if ('any' in expression) return expression.any.flatMap(e => collectTrendEvaluations(e, input));
+  if ('not' in expression) return collectTrendEvaluations(expression.not, input);
+  if ('trend' in expression) return [evaluateTrendExpression(expression, input)];
+  return [];
+}
+
+/**
+ * List the facts a rule expression reads, for explanation traces
+ */
+export function getReferencedFacts(expression: RuleExpression): string[] {
+  if ('all' in expression) return unique(expression.all.flatMap(getReferencedFacts));
+  if ('any' in expression) return unique(expression.any.flatMap(getReferencedFacts));
+  if ('not' in expression) return getReferencedFacts(expression.not);
+  if ('symptomIncludes' in expression) return ['symptoms'];
+  if ('riskFactorIn' in expression) return ['riskFactors'];
+  if ('trend' in expression) return [`history.${expression.trend}`];
+  return [expression.fact];
+}
+
+/**
+ * Render a rule expression as readable text
+ */
+export function describeRuleExpression(expression: RuleExpression): string {
+  if ('all' in expression) return expression.all.map(describeRuleExpression).join(' AND ');
+  if ('any' in expression) return `(${expression.any.map(describeRuleExpression).join(' OR ')})`;
+  if ('not' in expression) return `NOT ${describeRuleExpression(expression.not)}`;
+  if ('symptomIncludes' in expression) return `symptom mentions ${expression.symptomIncludes.join('/')}`;
+  if ('riskFactorIn' in expression) return `risk factor in ${expression.riskFactorIn.join('/')}`;
+  if ('trend' in expression) {
+    const window = { window: expression.window, windowDays: expression.windowDays, windowWeeks: expression.windowWeeks };
+    return `${describeMeasure(expression.trend, expression.measure, window, expression.abnormal)} ${expression.op} ${expression.value}`;
+  }
+  return `${expression.fact} ${expression.op} ${expression.value}`;
+}
+
+export function compare(value: number, op: ComparisonOperator, threshold: number): boolean {
+  switch (op) {
+    case '>': return value > threshold;
+    case '>=': return value >= threshold;
+    case '<': return value < threshold;
+    case '<=': return value <= threshold;
+    case '==': return value === threshold;
+    case '!=': return value !== threshold;
+  }
+}
+
+/**
+ * Validate an untrusted knowledge pack (e.g. loaded from the database)
+ */
+export function validateKnowledgePack(raw: unknown): KnowledgePackValidation {
+  const issues: string[] = [];
+  const pack = raw as Record<string, any>;
+
+  if (!isObject(pack)) {
+    return { valid: false, issues: ['Pack must be an object'] };
+  }
+  if (pack.schemaVersion !== SUPPORTED_SCHEMA_VERSION) {
+    issues.push(`schemaVersion must be ${SUPPORTED_SCHEMA_VERSION}`);
+  }
+  if (!isNonEmptyString(pack.version)) {
+    issues.push('version must be a non-empty string');
+  }
+
+  if (!Array.isArray(pack.conditions)) {
+    issues.push('conditions must be an array');
+  } else {
+    const names = new Set<string>();
+    pack.conditions.forEach((condition: any, i: number) => {
+      const path = `conditions[${i}]`;
+      validateCondition(condition, path, issues);
+      if (isObject(condition) && names.has(condition.name)) {
+        issues.push(`${path}.name "${condition.name}" is duplicated`);
+      }
+      names.add(condition?.name);
+    });
+  }
+
+  if (!Array.isArray(pack.rules)) {
+    issues.push('rules must be an array');
+  } else {
+    const ids = new Set<string>();
+    pack.rules.forEach((rule: any, i: number) => {
+      const path = `rules[${i}]`;
+      validateRule(rule, path, issues);
+      if (isObject(rule) && ids.has(rule.id)) {
+        issues.push(`${path}.id "${rule.id}" is duplicated`);
+      }
+      ids.add(rule?.id);
+    });
+  }
+
+  validateLearned(pack.symptomPatterns, 'symptomPatterns', issues, (entry, path) => {
+    if (!isNonEmptyString(entry.symptom)) issues.push(`${path}.symptom is required`);
+    if (!SEVERITIES.includes(entry.severity)) issues.push(`${path}.severity must be one of ${SEVERITIES.join(', ')}`);
+  });
+  validateLearned(pack.intentPatterns, 'intentPatterns', issues, (entry, path) => {
+    if (!LEARNABLE_INTENTS.includes(entry.intent)) {
+      issues.push(`${path}.intent must be one of ${LEARNABLE_INTENTS.join(', ')}`);
+    }
+  });
+  validateLearned(pack.educationAnswers, 'educationAnswers', issues, (entry, path) => {
+    if (!isNonEmptyString(entry.answer)) issues.push(`${path}.answer is required`);
+    if (!isStringArray(entry.recommendations)) issues.push(`${path}.recommendations must be a string array`);
+  });
+
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Validate and return a typed knowledge pack, throwing on schema violations
+ */
+export function parseKnowledgePack(raw: unknown): KnowledgePack {
+  const { valid, issues } = validateKnowledgePack(raw);
+  if (!valid) {
+    throw new KnowledgePackValidationError(issues);
+  }
+  return raw as KnowledgePack;
+}
+
+function validateCondition(condition: any, path: string, issues: string[]): void {
+  if (!isObject(condition)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(condition.name)) issues.push(`${path}.name is required`);
+  if (!isNonEmptyString(condition.icdCode)) issues.push(`${path}.icdCode is required`);
+  if (!isProbability(condition.baseProbability)) issues.push(`${path}.baseProbability must be between 0 and 1`);
+  if (!SEVERITIES.includes(condition.severity)) issues.push(`${path}.severity must be one of ${SEVERITIES.join(', ')}`);
+  if (!URGENCIES.includes(condition.urgency)) issues.push(`${path}.urgency must be one of ${URGENCIES.join(', ')}`);
+  if (typeof condition.description !== 'string') issues.push(`${path}.description must be a string`);
+  if (!isStringArray(condition.recommendedTests)) issues.push(`${path}.recommendedTests must be a string array`);
+
+  if (!Array.isArray(condition.symptoms)) {
+    issues.push(`${path}.symptoms must be an array`);
+  } else {
+    condition.symptoms.forEach((s: any, i: number) => {
+      if (!isObject(s) || !isNonEmptyString(s.symptom) || !isProbability(s.weight)) {
+        issues.push(`${path}.symptoms[${i}] needs a symptom and a weight between 0 and 1`);
+      }
+    });
+  }
+
+  if (!Array.isArray(condition.riskFactors)) {
+    issues.push(`${path}.riskFactors must be an array`);
+  } else {
+    condition.riskFactors.forEach((r: any, i: number) => {
+      if (!isObject(r) || !isNonEmptyString(r.factor) || !isNonNegativeNumber(r.multiplier)) {
+        issues.push(`${path}.riskFactors[${i}] needs a factor and a non-negative multiplier`);
+      }
+    });
+  }
+
+  if (!Array.isArray(condition.trimesterRelevance)) {
+    issues.push(`${path}.trimesterRelevance must be an array`);
+  } else {
+    condition.trimesterRelevance.forEach((t: any, i: number) => {
+      if (!isObject(t) || ![1, 2, 3].includes(t.trimester) || !isNonNegativeNumber(t.multiplier)) {
+        issues.push(`${path}.trimesterRelevance[${i}] needs a trimester (1-3) and a non-negative multiplier`);
+      }
+    });
+  }
+
+  if (condition.vitalSignIndicators !== undefined) {
+    if (!Array.isArray(condition.vitalSignIndicators)) {
+      issues.push(`${path}.vitalSignIndicators must be an array`);
+    } else {
+      condition.vitalSignIndicators.forEach((v: any, i: number) => {
+        const indicatorPath = `${path}.vitalSignIndicators[${i}]`;
+        if (!isObject(v)) {
+          issues.push(`${indicatorPath} must be an object`);
+          return;
+        }
+        if (!VITAL_SIGNS.includes(v.sign)) issues.push(`${indicatorPath}.sign must be one of ${VITAL_SIGNS.join(', ')}`);
+        if (!['>', '<', '>=', '<='].includes(v.operator)) issues.push(`${indicatorPath}.operator is not supported`);
+        if (typeof v.threshold !== 'number') issues.push(`${indicatorPath}.threshold must be a number`);
+        if (!isProbability(v.weight)) issues.push(`${indicatorPath}.weight must be between 0 and 1`);
+      });
+    }
+  }
+}
+
+function validateRule(rule: any, path: string, issues: string[]): void {
+  if (!isObject(rule)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(rule.id)) issues.push(`${path}.id is required`);
+  if (!isNonEmptyString(rule.name)) issues.push(`${path}.name is required`);
+  if (typeof rule.description !== 'string') issues.push(`${path}.description must be a string`);
+  validateExpression(rule.when, `${path}.when`, issues);
+
+  const output = rule.output;
+  if (!isObject(output)) {
+    issues.push(`${path}.output must be an object`);
+    return;
+  }
+  if (!RISK_LEVELS.includes(output.addRisk)) issues.push(`${path}.output.addRisk must be one of ${RISK_LEVELS.join(', ')}`);
+  if (!URGENCIES.includes(output.urgency)) issues.push(`${path}.output.urgency must be one of ${URGENCIES.join(', ')}`);
+  if (!isNonEmptyString(output.recommendation)) issues.push(`${path}.output.recommendation is required`);
+  if (!isNonEmptyString(output.rationale)) issues.push(`${path}.output.rationale is required`);
+  if (rule.sources !== undefined) validateSources(rule.sources, `${path}.sources`, issues);
+}
+
+function validateLearned(
+  entries: any,
+  key: string,
+  issues: string[],
+  validateEntry: (entry: Record<string, any>, path: string) => void
+): void {
+  if (entries === undefined) return;
+  if (!Array.isArray(entries)) {
+    issues.push(`${key} must be an array`);
+    return;
+  }
+
+  entries.forEach((entry: any, i: number) => {
+    const path = `${key}[${i}]`;
+    if (!isObject(entry)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    if (!isStringArray(entry.terms) || entry.terms.length === 0 || !entry.terms.every(isNonEmptyString)) {
+      issues.push(`${path}.terms must be a non-empty string array`);
+    }
+    if (!LANGUAGES.includes(entry.language)) issues.push(`${path}.language must be one of ${LANGUAGES.join(', ')}`);
+    validateSources(entry.sources, `${path}.sources`, issues);
+    validateEntry(entry, path);
+  });
+}
+
+function validateSources(sources: any, path: string, issues: string[]): void {
+  if (!Array.isArray(sources) || sources.length === 0) {
+    issues.push(`${path} must link at least one learning candidate`);
+    return;
+  }
+  sources.forEach((source: any, i: number) => {
+    if (!isObject(source) || !isNonEmptyString(source.candidateId) || !isStringArray(source.conversations)) {
+      issues.push(`${path}[${i}] needs a candidateId and its conversations`);
+    }
+  });
+}
+
+function validateExpression(expression: any, path: string, issues: string[]): void {
+  if (!isObject(expression)) {
+    issues.push(`${path} must be an expression object`);
+    return;
+  }
+
+  const keys = Object.keys(expression);
+  if ('all' in expression || 'any' in expression) {
+    const key = 'all' in expression ? 'all' : 'any';
+    if (keys.length !== 1 || !Array.isArray(expression[key]) || expression[key].length === 0) {
+      issues.push(`${path}.${key} must be the only key and a non-empty array`);
+      return;
+    }
+    expression[key].forEach((e: any, i: number) => validateExpression(e, `${path}.${key}[${i}]`, issues));
+    return;
+  }
+  if ('not' in expression) {
+    if (keys.length !== 1) issues.push(`${path}.not must be the only key`);
+    validateExpression(expression.not, `${path}.not`, issues);
+    return;
+  }
+  if ('symptomIncludes' in expression || 'riskFactorIn' in expression) {
+    const key = 'symptomIncludes' in expression ? 'symptomIncludes' : 'riskFactorIn';
+    if (keys.length !== 1 || !isStringArray(expression[key]) || expression[key].length === 0) {
+      issues.push(`${path}.${key} must be the only key and a non-empty string array`);
+    }
+    return;
+  }
+  if ('trend' in expression) {
+    if (!TREND_SERIES.includes(expression.trend)) issues.push(`${path}.trend "${expression.trend}" is not a known series`);
+    if (!TREND_MEASURES.includes(expression.measure)) issues.push(`${path}.measure "${expression.measure}" is not supported`);
+    if (!COMPARISON_OPERATORS.includes(expression.op)) issues.push(`${path}.op "${expression.op}" is not supported`);
+    if (typeof expression.value !== 'number') issues.push(`${path}.value must be a number`);
+    if (expression.window !== undefined && !(Number.isInteger(expression.window) && expression.window >= 2)) {
+      issues.push(`${path}.window must be an integer of at least 2`);
+    }
+    if (expression.windowDays !== undefined && !(typeof expression.windowDays === 'number' && expression.windowDays > 0)) {
+      issues.push(`${path}.windowDays must be a positive number`);
+    }
+    if (expression.windowWeeks !== undefined && !(typeof expression.windowWeeks === 'number' && expression.windowWeeks > 0)) {
+      issues.push(`${path}.windowWeeks must be a positive number`);
+    }
+    if (expression.measure === 'consecutiveAbnormal') {
+      const abnormal = expression.abnormal;
+      if (!isObject(abnormal) || !['>', '<', '>=', '<='].includes(abnormal.op) || typeof abnormal.value !== 'number') {
+        issues.push(`${path}.abnormal must define op and value for consecutiveAbnormal`);
+      }
+    }
+    return;
+  }
+  if ('fact' in expression) {
+    if (!(expression.fact in FACT_RESOLVERS)) issues.push(`${path}.fact "${expression.fact}" is not a known fact`);
+    if (!COMPARISON_OPERATORS.includes(expression.op)) issues.push(`${path}.op "${expression.op}" is not supported`);
+    if (typeof expression.value !== 'number') issues.push(`${path}.value must be a number`);
+    return;
+  }
+
+  issues.push(`${path} has no recognised operator (${keys.join(', ') || 'empty'})`);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function isProbability(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+class KnowledgeBaseRegistry {
+  private bundledPack: KnowledgePack = parseKnowledgePack(bundledPack);
+  private activePack: KnowledgePack | null = null;
+  private loadedAt = 0;
+  private cacheTtlMs = 5 * 60 * 1000;
+
+  /**
+   * Get the knowledge pack shipped with the app
+   */
+  getBundledPack(): KnowledgePack {
+    return this.bundledPack;
+  }
+
+  /**
+   * Get the active knowledge pack, falling back to the bundled pack
+   * when the database is unavailable or holds an invalid pack
+   */
+  async getActivePack(): Promise<KnowledgePack> {
+    if (this.activePack && Date.now() - this.loadedAt < this.cacheTtlMs) {
+      return this.activePack;
+    }
+
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ai_knowledge_base_versions')
+        .select('version, pack')
+        .eq('status', 'active')
+        .order('published_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      this.activePack = data ? parseKnowledgePack({ ...data.pack, version: data.version }) : this.bundledPack;
+    } catch (error) {
+      console.log('Knowledge base not available, using bundled pack:', error);
+      this.activePack = this.bundledPack;
+    }
+
+    this.loadedAt = Date.now();
+    return this.activePack;
+  }
+
+  /**
+   * Load a specific knowledge pack version
+   */
+  async getPackVersion(version: string): Promise<KnowledgePack | null> {
+    if (version === this.bundledPack.version) return this.bundledPack;
+
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ai_knowledge_base_versions')
+        .select('version, pack')
+        .eq('version', version)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? parseKnowledgePack({ ...data.pack, version: data.version }) : null;
+    } catch (error) {
+      console.log('Knowledge base version not available:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List stored knowledge pack versions, newest first
+   */
+  async listVersions(): Promise<KnowledgeBaseVersionSummary[]> {
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ai_knowledge_base_versions')
+        .select('version, description, status, published_at, created_at')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map((row: any) => ({
+        version: row.version,
+        description: row.description || undefined,
+        status: row.status,
+        publishedAt: row.published_at || undefined,
+        createdAt: row.created_at,
+      }));
+    } catch (error) {
+      console.log('Knowledge base versions not available:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Store a new knowledge pack version as a draft. Packs are validated
+   * before they are written so the engine never loads a broken pack.
+   */
+  async saveDraft(pack: unknown, authorId: string): Promise<KnowledgePack> {
+    const parsed = parseKnowledgePack(pack);
+
+    const { error } = await (supabase as any).from('ai_knowledge_base_versions').insert({
+      version: parsed.version,
+      schema_version: parsed.schemaVersion,
+      description: parsed.description,
+      pack: parsed,
+      status: 'draft',
+      created_by: authorId,
+    });
+
+    if (error) throw error;
+    return parsed;
+  }
+
+  /**
+   * Make a stored version the active one and retire the previous version
+   */
+  async activateVersion(version: string, adminId: string): Promise<void> {
+    const pack = await this.getPackVersion(version);
+    if (!pack) {
+      throw new Error(`Knowledge base version ${version} not found`);
+    }
+
+    const { error: retireError } = await (supabase as any)
+      .from('ai_knowledge_base_versions')
+      .update({ status: 'retired' })
+      .eq('status', 'active');
+
+    if (retireError) throw retireError;
+
+    const { error } = await (supabase as any)
+      .from('ai_knowledge_base_versions')
+      .update({
+        status: 'active',
+        published_by: adminId,
+        published_at: new Date().toISOString(),
+      })
+      .eq('version', version);
+
+    if (error) throw error;
+    this.invalidate();
+  }
+
+  /**
+   * Drop the cached active pack so the next analysis reloads it
+   */
+  invalidate(): void {
+    this.activePack = null;
+    this.loadedAt = 0;
+  }
+}
+
+// Export singleton instance
+export const knowledgeBase = new KnowledgeBaseRegistry();
+export default knowledgeBase;
@@ -0,0 +1,262 @@
+/**
+ * Knowledge Compiler for Maternal Health AI
+ *
+ * Implements:
+ * - Compilation of approved learning candidates into concrete engine changes:
+ *   symptom patterns, intent patterns, education answers and rule adjustments
+ * - A new knowledge pack draft and a training model version carrying them, to
+ *   go through validation and promotion like any other version
+ * - A link from every compiled change back to its source conversations
+ */
+
+import { RiskLevel } from '@/types/database.types';
+import type { ExtractedSymptom, Intent } from './AIConversationalEngine';
+import {
+  knowledgeBase,
+  KnowledgePack,
+  KnowledgeSource,
+  LearnedEducationAnswer,
+  LearnedIntentPattern,
+  LearnedSymptomPattern,
+  Urgency,
+} from './KnowledgeBase';
+import { learningSystem, LearningCandidate } from './LearningSystem';
+import { modelVersionRegistry } from './ModelVersionRegistry';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './lexicons';
+
+// Types
+export type KnowledgeChange =
+  | {
+      kind: 'symptom_pattern';
+      terms: string[];
+      symptom: string;
+      severity: ExtractedSymptom['severity'];
+      language?: SupportedLanguage;
+    }
+  | {
+      kind: 'intent_pattern';
+      terms: string[];
+      intent: Intent;
+      language?: SupportedLanguage;
+    }
+  | {
+      kind: 'education_answer';
+      terms: string[];
+      answer: string;
+      recommendations?: string[];
+      language?: SupportedLanguage;
+    }
+  | {
+      kind: 'rule_adjustment';
+      ruleId: string;
+      addRisk?: RiskLevel;
+      urgency?: Urgency;
+      recommendation?: string;
+    };
+
+export interface CompiledChange {
+  candidateId: string;
+  kind: KnowledgeChange['kind'];
+  summary: string;
+  sourceConversations: string[];
+}
+
+export interface SkippedCandidate {
+  candidateId: string;
+  reason: string;
+}
+
+export interface CompilationPreview {
+  pack: KnowledgePack;
+  changes: CompiledChange[];
+  skipped: SkippedCandidate[];
+}
+
+export interface CompilationResult {
+  /** Production version the new version builds on */
+  baseVersion: string;
+  /** Unset when no approved candidate compiled */
+  modelVersion?: string;
+  knowledgeBaseVersion?: string;
+  changes: CompiledChange[];
+  skipped: SkippedCandidate[];
+}
+
+class KnowledgeCompiler {
+  /**
+   * Compile approved candidates into a new knowledge pack draft and a model
+   * version in training, then mark the compiled candidates implemented once
+   * the version is recorded
+   */
+  async compile(adminId: string): Promise<CompilationResult> {
+    const production = await modelVersionRegistry.getProductionVersion();
+    const base = production.knowledgePack || await knowledgeBase.getActivePack();
+    const candidates = await learningSystem.getApprovedForTraining();
+
+    // Down to the second, so compiling twice in a minute gives distinct versions
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15);
+    const preview = this.preview({ ...base, version: `${base.version}+learn.${stamp}` }, candidates);
+    if (preview.changes.length === 0) {
+      return { baseVersion: production.version, changes: [], skipped: preview.skipped };
+    }
+
+    const pack = await knowledgeBase.saveDraft({
+      ...preview.pack,
+      description: `${base.description || base.version} with ${preview.changes.length} learned change(s)`,
+      publishedAt: undefined,
+    }, adminId);
+
+    const compiledIds = Array.from(new Set(preview.changes.map(c => c.candidateId)));
+    const compiled = candidates.filter(c => compiledIds.includes(c.id));
+    const modelVersion = `${production.version}+learn.${stamp}`;
+
+    const recorded = await learningSystem.recordModelVersion({
+      version: modelVersion,
+      releaseDate: new Date(),
+      trainingDataCutoff: new Date(Math.max(...compiled.map(c => c.createdAt.getTime()))),
+      improvements: preview.changes.map(c => c.summary),
+      knownLimitations: [],
+      validationMetrics: {
+        accuracy: 0,
+        precision: 0,
+        recall: 0,
+        f1Score: 0,
+        safetyScore: 0,
+        clinicalValidationScore: 0,
+        sampleSize: 0,
+      },
+      status: 'training',
+      previousVersion: production.version,
+      components: { ...production.components, knowledgeBaseVersion: pack.version },
+    });
+    if (!recorded) {
+      // Leave the candidates approved so the next compilation picks them up
+      throw new Error(`Couldn't record model version ${modelVersion}`);
+    }
+
+    await learningSystem.markCandidatesImplemented(compiledIds, modelVersion);
+
+    return {
+      baseVersion: production.version,
+      modelVersion,
+      knowledgeBaseVersion: pack.version,
+      changes: preview.changes,
+      skipped: preview.skipped,
+    };
+  }
+
+  /**
+   * Apply candidates' changes to a copy of a pack without storing anything
+   */
+  preview(base: KnowledgePack, candidates: LearningCandidate[]): CompilationPreview {
+    const pack: KnowledgePack = {
+      ...base,
+      rules: base.rules.map(rule => ({
+        ...rule,
+        output: { ...rule.output },
+        ...(rule.sources ? { sources: [...rule.sources] } : {}),
+      })),
+      symptomPatterns: (base.symptomPatterns || []).map(entry => ({ ...entry, sources: [...entry.sources] })),
+      intentPatterns: (base.intentPatterns || []).map(entry => ({ ...entry, sources: [...entry.sources] })),
+      educationAnswers: (base.educationAnswers || []).map(entry => ({ ...entry, sources: [...entry.sources] })),
+    };
+    const changes: CompiledChange[] = [];
+    const skipped: SkippedCandidate[] = [];
+
+    for (const candidate of candidates) {
+      const change = candidate.suggestedAddition?.change;
+      if (!change) {
+        skipped.push({ candidateId: candidate.id, reason: 'Approved without a concrete change' });
+        continue;
+      }
+
+      const source: KnowledgeSource = { candidateId: candidate.id, conversations: candidate.sourceConversations };
+      const outcome = this.apply(pack, change, source);
+      if (typeof outcome === 'string') {
+        changes.push({ candidateId: candidate.id, kind: change.kind, summary: outcome, sourceConversations: source.conversations });
+      } else {
+        skipped.push({ candidateId: candidate.id, reason: outcome.reason });
+      }
+    }
+
+    return { pack, changes, skipped };
+  }
+
+  /**
+   * Apply one change to the pack; returns its summary or why it was skipped
+   */
+  private apply(pack: KnowledgePack, change: KnowledgeChange, source: KnowledgeSource): string | { reason: string } {
+    if (change.kind === 'rule_adjustment') {
+      const rule = pack.rules.find(r => r.id === change.ruleId);
+      if (!rule) return { reason: `Rule ${change.ruleId} is not in knowledge base ${pack.version}` };
+      if (!change.addRisk && !change.urgency && !change.recommendation) {
+        return { reason: `No adjustment given for rule ${change.ruleId}` };
+      }
+
+      if (change.addRisk) rule.output.addRisk = change.addRisk;
+      if (change.urgency) rule.output.urgency = change.urgency;
+      if (change.recommendation) rule.output.recommendation = change.recommendation;
+      rule.sources = [...(rule.sources || []), source];
+
+      const adjusted = [
+        change.addRisk && `risk ${change.addRisk}`,
+        change.urgency && `urgency ${change.urgency}`,
+        change.recommendation && 'recommendation',
+      ].filter(Boolean);
+      return `Adjusted rule ${rule.id}: ${adjusted.join(', ')}`;
+    }
+
+    const terms = this.normalizeTerms(change.terms);
+    if (terms.length === 0) return { reason: 'No phrases to match' };
+    const language = change.language || DEFAULT_LANGUAGE;
+
+    switch (change.kind) {
+      case 'symptom_pattern': {
+        if (!change.symptom.trim()) return { reason: 'No symptom name' };
+        const symptom = change.symptom.trim().toLowerCase();
+        const existing = pack.symptomPatterns!.find(
+          p => p.symptom === symptom && p.severity === change.severity && p.language === language
+        );
+        const entry: LearnedSymptomPattern = existing || { terms: [], symptom, severity: change.severity, language, sources: [] };
+        this.merge(entry, terms, source);
+        if (!existing) pack.symptomPatterns!.push(entry);
+        return `Recognise "${terms.join('", "')}" as ${symptom} (${change.severity}, ${language})`;
+      }
+
+      case 'intent_pattern': {
+        const existing = pack.intentPatterns!.find(p => p.intent === change.intent && p.language === language);
+        const entry: LearnedIntentPattern = existing || { terms: [], intent: change.intent, language, sources: [] };
+        this.merge(entry, terms, source);
+        if (!existing) pack.intentPatterns!.push(entry);
+        return `Recognise "${terms.join('", "')}" as ${change.intent} (${language})`;
+      }
+
+      case 'education_answer': {
+        if (!change.answer.trim()) return { reason: 'No answer text' };
+        const entry: LearnedEducationAnswer = {
+          terms: [],
+          answer: change.answer.trim(),
+          recommendations: (change.recommendations || []).map(r => r.trim()).filter(Boolean),
+          language,
+          sources: [],
+        };
+        this.merge(entry, terms, source);
+        pack.educationAnswers!.push(entry);
+        return `Answer questions about "${terms.join('", "')}" (${language})`;
+      }
+    }
+  }
+
+  private merge(entry: { terms: string[]; sources: KnowledgeSource[] }, terms: string[], source: KnowledgeSource): void {
+    entry.terms = Array.from(new Set([...entry.terms, ...terms]));
+    entry.sources.push(source);
+  }
+
+  private normalizeTerms(terms: string[]): string[] {
+    return Array.from(new Set(terms.map(t => t.trim().toLowerCase()).filter(Boolean)));
+  }
+}
+
+// Export singleton instance
+export const knowledgeCompiler = new KnowledgeCompiler();
+export default knowledgeCompiler;
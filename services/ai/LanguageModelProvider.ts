@@ -0,0 +1,256 @@
+/**
+ * Language Model Providers for Maternal Health AI
+ *
+ * Implements:
+ * - Provider interface for generating or rephrasing responses with an
+ *   external or self-hosted model
+ * - Deterministic local stub provider for development and testing
+ * - HTTP provider for OpenAI-compatible chat completion endpoints
+ * - Safety Agent review of every provider output
+ * - Template fallback when a provider fails or times out
+ */
+
+import { RiskLevel } from '@/types/database.types';
+import { SafetyAgent } from './MultiAgentSystem';
+import { SupportedLanguage, getLexicon } from './lexicons';
+
+// Types
+export type GenerationTask = 'generate' | 'rephrase';
+
+export interface GenerationRequest {
+  task: GenerationTask;
+  /** Template response: rephrased, or used as-is when generation fails */
+  draft: string;
+  /** The user's message being answered */
+  message: string;
+  userRole: 'mother' | 'doctor' | 'admin';
+  language: SupportedLanguage;
+  intent?: string;
+  riskLevel?: RiskLevel;
+  history?: { role: string; content: string }[];
+  /** Summary of earlier conversation that is no longer in the history */
+  summary?: string;
+}
+
+export interface ModelInfo {
+  provider: string;
+  model: string;
+  version: string;
+}
+
+export interface LanguageModelProvider extends ModelInfo {
+  complete(request: GenerationRequest, signal?: AbortSignal): Promise<string>;
+}
+
+export interface GenerationResult {
+  text: string;
+  generatedBy: ModelInfo;
+  /** The provider failed and the template draft was used */
+  fallback: boolean;
+  safety: { approved: boolean; issues: string[] };
+  latencyMs: number;
+}
+
+export interface CompletionOptions {
+  /** Registered provider to use instead of the active one */
+  provider?: string;
+}
+
+export interface HttpProviderConfig {
+  endpoint: string;
+  model: string;
+  /** Provider name recorded with each reply; defaults to "http" */
+  name?: string;
+  version?: string;
+  headers?: Record<string, string>;
+  temperature?: number;
+}
+
+// Replies produced by the rule-based templates without a provider
+export const TEMPLATE_MODEL: ModelInfo = { provider: 'template', model: 'maternal-ai', version: 'v1.0' };
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const HISTORY_MESSAGES = 6;
+
+/**
+ * Identifier stored in ai_conversations.model_version
+ */
+export function formatModelVersion(info: ModelInfo): string {
+  return `${info.provider}:${info.model}@${info.version}`;
+}
+
+/**
+ * Deterministic provider: returns the template draft unchanged, so development
+ * and tests exercise the provider path with predictable output
+ */
+export class StubLanguageModelProvider implements LanguageModelProvider {
+  provider = 'stub';
+  model = 'template-echo';
+  version = '1.0.0';
+
+  async complete(request: GenerationRequest): Promise<string> {
+    return request.draft;
+  }
+}
+
+/**
+ * Provider for OpenAI-compatible chat completion APIs, which most hosted and
+ * self-hosted model servers expose. Credentials belong on the server behind
+ * the endpoint, not in the app.
+ */
+export class HttpLanguageModelProvider implements LanguageModelProvider {
+  provider: string;
+  model: string;
+  version: string;
+
+  constructor(private config: HttpProviderConfig) {
+    this.provider = config.name || 'http';
+    this.model = config.model;
+    this.version = config.version || 'unversioned';
+  }
+
+  async complete(request: GenerationRequest, signal?: AbortSignal): Promise<string> {
+    const res = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.config.headers },
+      body: JSON.stringify({
+        model: this.config.model,
+        temperature: this.config.temperature ?? 0.3,
+        messages: this.buildMessages(request),
+      }),
+      signal,
+    });
+    if (!res.ok) {
+      throw new Error(`Language model request failed with status ${res.status}`);
+    }
+
+    const data = await res.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new Error('Language model returned no text');
+    }
+    return text.trim();
+  }
+
+  private buildMessages(request: GenerationRequest): { role: string; content: string }[] {
+    const audience = request.userRole === 'mother'
+      ? 'a pregnant mother, in plain and warm language'
+      : 'a clinician, in concise clinical language';
+    const instructions = [
+      `You are a maternal health assistant writing for ${audience}.`,
+      `Reply in ${getLexicon(request.language).name}.`,
+      'Never add diagnoses, medication names or doses that are not in the draft.',
+      'Keep every safety instruction, warning and recommendation from the draft.',
+      request.task === 'rephrase'
+        ? 'Rephrase the draft reply so it answers the message naturally; do not change its meaning.'
+        : 'Write a reply to the message, using the draft as the factual basis.',
+    ];
+    if (request.summary) instructions.push(`Earlier in the conversation: ${request.summary}`);
+
+    return [
+      { role: 'system', content: instructions.join('\n') },
+      ...(request.history || []).slice(-HISTORY_MESSAGES).map(m => ({
+        role: m.role === 'user' ? 'user' : 'assistant',
+        content: m.content,
+      })),
+      { role: 'user', content: `Message: ${request.message}\n\nDraft reply:\n${request.draft}` },
+    ];
+  }
+}
+
+class LanguageModelService {
+  private providers: Map<string, LanguageModelProvider> = new Map();
+  private activeProvider: string;
+  private timeoutMs = DEFAULT_TIMEOUT_MS;
+  private safetyAgent?: SafetyAgent;
+
+  constructor() {
+    this.registerProvider(new StubLanguageModelProvider());
+
+    const endpoint = process.env.EXPO_PUBLIC_LLM_ENDPOINT;
+    const model = process.env.EXPO_PUBLIC_LLM_MODEL;
+    if (endpoint && model) {
+      this.registerProvider(new HttpLanguageModelProvider({
+        endpoint,
+        model,
+        version: process.env.EXPO_PUBLIC_LLM_VERSION,
+      }));
+    }
+
+    const configured = process.env.EXPO_PUBLIC_LLM_PROVIDER;
+    this.activeProvider = configured && this.providers.has(configured) ? configured : 'stub';
+  }
+
+  registerProvider(provider: LanguageModelProvider): void {
+    this.providers.set(provider.provider, provider);
+  }
+
+  setActiveProvider(providerId: string): boolean {
+    if (!this.providers.has(providerId)) return false;
+    this.activeProvider = providerId;
+    return true;
+  }
+
+  getActiveProvider(): ModelInfo {
+    const { provider, model, version } = this.providers.get(this.activeProvider)!;
+    return { provider, model, version };
+  }
+
+  listProviders(): ModelInfo[] {
+    return Array.from(this.providers.values()).map(({ provider, model, version }) => ({ provider, model, version }));
+  }
+
+  setTimeoutMs(ms: number): void {
+    this.timeoutMs = ms;
+  }
+
+  /**
+   * Generate or rephrase a reply with the active provider. The output always
+   * passes the Safety Agent review; on failure the template draft is used.
+   */
+  async complete(request: GenerationRequest, options: CompletionOptions = {}): Promise<GenerationResult> {
+    const startTime = Date.now();
+    const provider = (options.provider && this.providers.get(options.provider)) || this.providers.get(this.activeProvider)!;
+    let text = request.draft;
+    let generatedBy = TEMPLATE_MODEL;
+    let fallback = false;
+
+    // Providers that ignore the abort signal are still cut off at the timeout
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`Language model timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+    });
+    try {
+      text = await Promise.race([provider.complete(request, controller.signal), timeout]);
+      generatedBy = { provider: provider.provider, model: provider.model, version: provider.version };
+    } catch (error) {
+      console.log('Language model not available, using template:', error);
+      fallback = true;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const review = this.getSafetyAgent().reviewResponse(text);
+    return {
+      text: review.modifiedResponse,
+      generatedBy,
+      fallback,
+      safety: { approved: review.approved, issues: review.issues },
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  // Created on first use; MultiAgentSystem also imports this module
+  private getSafetyAgent(): SafetyAgent {
+    if (!this.safetyAgent) this.safetyAgent = new SafetyAgent();
+    return this.safetyAgent;
+  }
+}
+
+// Export singleton instance
+export const languageModelService = new LanguageModelService();
+export default languageModelService;
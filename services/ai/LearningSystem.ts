@@ -2,20 +2,37 @@
  * Safe Continual Learning System for Maternal Health AI
  * 
  * Implements:
- * - Store anonymized conversations
+ * - Store de-identified conversations under keyed pseudonyms, only after a
+ *   re-identification risk check
  * - Identify unseen cases
  * - Suggest dataset additions
+ * - Cluster near-identical candidates, ranked by impact, for review, and
+ *   merge each cluster into one candidate on request
+ * - Per-message feedback linked to learning records, aggregated by intent
+ *   and model version
  * - Admin approval before retraining
  * - Versioned models
+ * - Tracking which model version implemented each approved candidate
+ * - Conflicts between agents' assessments, aggregated by agent pair for
+ *   review of agent rules and weights
  */
 
 import { supabase } from '@/lib/supabase';
+import { DEFAULT_MODEL_VERSION, type ModelComponents, type ModelVersionStatus } from './ModelVersionRegistry';
+import type { SafetyEvaluationSummary } from './SafetyEvaluationHarness';
+import type { KnowledgeChange } from './KnowledgeCompiler';
+import { deidentifier, type ReidentificationRisk } from './Deidentifier';
+import type { AgentConflict, ConflictDimension } from './MultiAgentSystem';
 
 // Types
 export interface ConversationRecord {
   id: string;
+  /** Pseudonym of the chat session; the raw session id is never stored */
   sessionId: string;
   anonymizedUserId: string;
+  /** Pseudonym key that produced anonymizedUserId and the content hashes */
+  pseudonymKeyVersion?: number;
+  reidentificationRisk?: ReidentificationRisk;
   messages: AnonymizedMessage[];
   extractedFeatures: ConversationFeatures;
   aiResponses: AIResponseSummary[];
@@ -29,11 +46,11 @@ export interface ConversationRecord {
 
 export interface AnonymizedMessage {
   role: 'user' | 'assistant';
-  contentHash: string; // Hash of original content
-  sanitizedContent: string; // PII-removed version
+  contentHash: string; // Keyed pseudonym of original content
+  sanitizedContent?: string; // De-identified version; withheld when re-identification risk is elevated
   intent?: string;
   entities?: string[];
-  timestamp: Date;
+  gestationalWeek?: number; // In place of the message timestamp
 }
 
 export interface ConversationFeatures {
@@ -60,6 +77,54 @@ export interface ConversationOutcome {
   clinicalValidation?: 'accurate' | 'partially_accurate' | 'inaccurate';
 }
 
+export type FeedbackIssue = 'medically_incorrect' | 'unsafe' | 'misunderstood' | 'not_relevant' | 'unclear' | 'other';
+
+export interface AIFeedback {
+  /** Chat session, or the item the rated output belongs to */
+  conversationId: string;
+  /** The caller's learning record for the rated exchange; unset when it was not stored */
+  learningRecordId?: string;
+  messageId?: string;
+  source: 'chat' | 'alert_explanation';
+  userRole: 'mother' | 'doctor';
+  /** Thumbs up or down */
+  helpful: boolean;
+  rating?: number; // 1-5
+  /** False when marked as wrong */
+  accurate: boolean;
+  issue?: FeedbackIssue;
+  comments?: string;
+  intent?: string;
+  modelVersion?: string;
+}
+
+export interface FeedbackAggregate {
+  /** Intent or model version */
+  key: string;
+  count: number;
+  helpfulRate: number;
+  /** Unset when no feedback in the group has a rating */
+  averageRating?: number;
+  inaccurateCount: number;
+  issues: Partial<Record<FeedbackIssue, number>>;
+}
+
+export interface FeedbackSummary {
+  total: number;
+  byIntent: FeedbackAggregate[];
+  byModelVersion: FeedbackAggregate[];
+}
+
+export interface AgentConflictAggregate {
+  cautiousAgent: string;
+  lenientAgent: string;
+  dimension: ConflictDimension;
+  count: number;
+  /** Mean steps between the two assessments */
+  averageGap: number;
+  lastSeenAt: string;
+}
+
 export interface LearningCandidate {
   id: string;
   type: 'new_pattern' | 'knowledge_gap' | 'edge_case' | 'feedback_driven';
@@ -68,8 +133,33 @@ export interface LearningCandidate {
   sourceConversations: string[];
   suggestedAddition: DatasetAddition;
   estimatedImpact: string;
-  status: 'pending' | 'approved' | 'rejected' | 'implemented';
+  status: 'pending' | 'approved' | 'rejected' | 'implemented' | 'merged';
   createdAt: Date;
+  /** Model version the candidate was compiled into */
+  implementedInVersion?: string;
+  /** Conversations grouped under this candidate; unset on rows stored before clustering */
+  cluster?: CandidateCluster;
+}
+
+export interface CandidateCluster {
+  /** Type, intent, trimester and risk level the members share */
+  key: string;
+  /** Symptoms present in at least half of the conversations */
+  symptoms: string[];
+  intent: string;
+  trimester?: number;
+  riskLevel: string;
+  /** Number of conversations in the cluster */
+  frequency: number;
+  impactScore: number;
+  lastSeenAt: Date;
+  sampleConversations: ConversationSample[];
+}
+
+export interface ConversationSample {
+  conversationId: string;
+  /** First de-identified user message, when it was stored */
+  excerpt?: string;
 }
 
 export interface DatasetAddition {
@@ -79,6 +169,8 @@ export interface DatasetAddition {
   context: Record<string, any>;
   medicalValidation?: string;
   sources?: string[];
+  /** Concrete engine change the reviewer approved the addition as */
+  change?: KnowledgeChange;
 }
 
 export interface ModelVersion {
@@ -88,8 +180,16 @@ export interface ModelVersion {
   improvements: string[];
   knownLimitations: string[];
   validationMetrics: ValidationMetrics;
-  status: 'training' | 'validating' | 'active' | 'deprecated';
+  status: ModelVersionStatus;
   previousVersion?: string;
+  /** Knowledge base version and language model provider the version runs with */
+  components?: ModelComponents;
+  /** Running in shadow alongside production */
+  shadow?: boolean;
+  approvedBy?: string;
+  approvedAt?: Date;
+  deployedAt?: Date;
+  retiredAt?: Date;
 }
 
 export interface ValidationMetrics {
@@ -100,27 +200,32 @@ export interface ValidationMetrics {
   safetyScore: number;
   clinicalValidationScore: number;
   sampleSize: number;
+  /** Results of the vignette safety evaluation; required for release */
+  safetyEvaluation?: SafetyEvaluationSummary;
 }
 
-// PII patterns for anonymization
-const PII_PATTERNS = [
-  { pattern: /\b[A-Z][a-z]+ [A-Z][a-z]+\b/g, replacement: '[NAME]' }, // Names
-  { pattern: /\b\d{3}[-.]?\d{3}[-.]?\d{4}\b/g, replacement: '[PHONE]' }, // Phone
-  { pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, replacement: '[EMAIL]' }, // Email
-  { pattern: /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g, replacement: '[DATE]' }, // Dates
-  { pattern: /\b\d{5}(-\d{4})?\b/g, replacement: '[ZIP]' }, // ZIP codes
-  { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: '[SSN]' }, // SSN
-  { pattern: /\b(Dr\.|Doctor|Dr) [A-Z][a-z]+\b/gi, replacement: '[DOCTOR_NAME]' }, // Doctor names
-  { pattern: /\b(hospital|clinic|medical center) [A-Za-z]+\b/gi, replacement: '[FACILITY]' }, // Facilities
-];
+// Minimum Jaccard similarity of symptom sets for candidates to share a cluster
+const CLUSTER_SIMILARITY = 0.5;
+const CLUSTER_SAMPLE_SIZE = 3;
+// Pending candidates loaded per page when clustering
+const PENDING_PAGE_SIZE = 500;
+// Most recent conflicts aggregated for the admin summary
+const CONFLICT_SUMMARY_LIMIT = 1000;
+const PRIORITY_WEIGHT: Record<LearningCandidate['priority'], number> = {
+  low: 1,
+  medium: 2,
+  high: 4,
+  critical: 8,
+};
 
 class LearningSystem {
-  private currentModelVersion = 'maternal-ai-v1.0';
   private conversationBuffer: ConversationRecord[] = [];
   private learningCandidates: LearningCandidate[] = [];
 
   /**
-   * Store anonymized conversation for potential learning
+   * Store de-identified conversation for potential learning. Returns the
+   * learning record id, or null when the re-identification check blocks
+   * storage or the record could not be written.
    */
   async storeConversation(
     sessionId: string,
@@ -128,16 +233,21 @@ class LearningSystem {
     messages: { role: 'user' | 'assistant'; content: string; timestamp: Date }[],
     features: ConversationFeatures,
     aiResponses: AIResponseSummary[]
-  ): Promise<string> {
-    // Anonymize the conversation
-    const anonymizedMessages = messages.map(msg => this.anonymizeMessage(msg));
-    const anonymizedUserId = this.hashUserId(userId);
+  ): Promise<string | null> {
+    // De-identify the conversation; nothing is written if identifiers remain
+    const { conversation, risk } = await deidentifier.deidentifyConversation(userId, sessionId, messages);
+    if (!conversation) {
+      console.log('Learning conversation not stored:', risk.reasons.join('; '));
+      return null;
+    }
 
     const record: ConversationRecord = {
       id: this.generateId(),
-      sessionId,
-      anonymizedUserId,
-      messages: anonymizedMessages,
+      sessionId: conversation.sessionPseudonym,
+      anonymizedUserId: conversation.anonymizedUserId,
+      pseudonymKeyVersion: conversation.keyVersion,
+      reidentificationRisk: risk,
+      messages: conversation.messages,
       extractedFeatures: features,
       aiResponses,
       reviewStatus: 'pending',
@@ -147,12 +257,15 @@ class LearningSystem {
     // Check if this is a learning opportunity
     const isLearningCandidate = this.evaluateLearningPotential(record);
     
+    let stored = false;
     try {
       // Store in database
-      await (supabase as any).from('ai_learning_conversations').insert({
+      const { error } = await (supabase as any).from('ai_learning_conversations').insert({
         id: record.id,
         session_id: record.sessionId,
         anonymized_user_id: record.anonymizedUserId,
+        pseudonym_key_version: record.pseudonymKeyVersion,
+        reidentification_risk: record.reidentificationRisk,
         messages: record.messages,
         features: record.extractedFeatures,
         ai_responses: record.aiResponses,
@@ -160,6 +273,8 @@ class LearningSystem {
         is_learning_candidate: isLearningCandidate,
         created_at: record.createdAt.toISOString(),
       });
+      if (error) throw error;
+      stored = true;
     } catch (error) {
       console.log('Learning storage not available:', error);
       // Buffer locally
@@ -171,60 +286,20 @@ class LearningSystem {
       await this.createLearningCandidate(record);
     }
 
-    return record.id;
-  }
-
-  /**
-   * Anonymize a message by removing PII
-   */
-  private anonymizeMessage(msg: { role: 'user' | 'assistant'; content: string; timestamp: Date }): AnonymizedMessage {
-    let sanitized = msg.content;
-    
-    // Apply PII removal patterns
-    for (const { pattern, replacement } of PII_PATTERNS) {
-      sanitized = sanitized.replace(pattern, replacement);
-    }
-    
-    return {
-      role: msg.role,
-      contentHash: this.hashContent(msg.content),
-      sanitizedContent: sanitized,
-      timestamp: msg.timestamp,
-    };
-  }
-
-  /**
-   * Hash user ID for anonymization
-   */
-  private hashUserId(userId: string): string {
-    // Simple hash for demo - use crypto in production
-    let hash = 0;
-    for (let i = 0; i < userId.length; i++) {
-      const char = userId.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return `anon_${Math.abs(hash).toString(36)}`;
-  }
-
-  /**
-   * Hash content for reference without storing raw data
-   */
-  private hashContent(content: string): string {
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(36);
+    return stored ? record.id : null;
   }
 
   /**
    * Generate unique ID
    */
   private generateId(): string {
-    return `learn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Learning records and candidates have uuid keys
+    return crypto.randomUUID
+      ? crypto.randomUUID()
+      : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+          const r = Math.floor(Math.random() * 16);
+          return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+        });
   }
 
   /**
@@ -281,6 +356,7 @@ class LearningSystem {
       status: 'pending',
       createdAt: new Date(),
     };
+    candidate.cluster = this.singletonCluster(candidate);
 
     this.learningCandidates.push(candidate);
 
@@ -295,6 +371,7 @@ class LearningSystem {
         estimated_impact: candidate.estimatedImpact,
         status: candidate.status,
         created_at: candidate.createdAt.toISOString(),
+        ...this.clusterColumns(candidate.cluster),
       });
     } catch (error) {
       console.log('Learning candidate storage not available');
@@ -312,6 +389,7 @@ class LearningSystem {
       inputPattern: `Symptoms: ${features.symptoms.join(', ')} in trimester ${features.pregnancyTrimester || 'unknown'}`,
       expectedOutput: `Appropriate response for ${features.riskLevel} risk level`,
       context: {
+        symptoms: features.symptoms,
         trimester: features.pregnancyTrimester,
         riskLevel: features.riskLevel,
         emotionalTone: features.emotionalTone,
@@ -330,57 +408,309 @@ class LearningSystem {
   }
 
   /**
-   * Get pending learning candidates for admin review
+   * Get pending learning candidates for admin review, clustered so each
+   * recurring pattern appears once, highest impact first. Clusters are only
+   * stored by mergePendingCandidates or when they are reviewed.
    */
   async getPendingCandidates(limit: number = 20): Promise<LearningCandidate[]> {
+    let pending: LearningCandidate[];
     try {
-      const { data } = await (supabase as any)
+      pending = await this.loadPendingCandidates();
+    } catch {
+      pending = this.learningCandidates.filter(c => c.status === 'pending');
+    }
+
+    const clusters = this.clusterCandidates(pending)
+      .map(g => g.candidate)
+      .sort((a, b) => b.cluster!.impactScore - a.cluster!.impactScore)
+      .slice(0, limit);
+
+    await this.attachSampleExcerpts(clusters);
+    return clusters;
+  }
+
+  /**
+   * Store each cluster of pending candidates on its earliest member and mark
+   * the others merged into it. Returns how many candidates were merged.
+   */
+  async mergePendingCandidates(): Promise<number> {
+    const grouped = this.clusterCandidates(await this.loadPendingCandidates())
+      .filter(g => g.merged.length > 0);
+
+    for (const { candidate, merged } of grouped) {
+      await this.persistMerge(candidate, merged);
+    }
+    return grouped.reduce((sum, g) => sum + g.merged.length, 0);
+  }
+
+  /**
+   * Merge the pending candidates clustered under a candidate into it, so a
+   * review decision on the cluster covers every member
+   */
+  private async mergeClusterOf(candidateId: string): Promise<void> {
+    const group = this.clusterCandidates(await this.loadPendingCandidates())
+      .find(g => g.candidate.id === candidateId);
+    if (group && group.merged.length > 0) {
+      await this.persistMerge(group.candidate, group.merged);
+    }
+  }
+
+  private async loadPendingCandidates(): Promise<LearningCandidate[]> {
+    const rows: any[] = [];
+    for (let from = 0; ; from += PENDING_PAGE_SIZE) {
+      const { data, error } = await (supabase as any)
         .from('ai_learning_candidates')
         .select('*')
         .eq('status', 'pending')
-        .order('priority', { ascending: false })
-        .order('created_at', { ascending: false })
-        .limit(limit);
-      
-      return data || this.learningCandidates.filter(c => c.status === 'pending');
-    } catch {
-      return this.learningCandidates.filter(c => c.status === 'pending');
+        .order('created_at', { ascending: true })
+        .range(from, from + PENDING_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < PENDING_PAGE_SIZE) break;
     }
+    return rows.map(row => this.toLearningCandidate(row));
   }
 
   /**
-   * Admin approves a learning candidate
+   * Merge candidates with the same type, intent, trimester and risk level and
+   * similar symptom sets. The earliest member of each cluster carries it; the
+   * others are stored as merged into it.
+   */
+  private clusterCandidates(
+    candidates: LearningCandidate[]
+  ): { candidate: LearningCandidate; merged: LearningCandidate[] }[] {
+    const clusters: { lead: LearningCandidate; members: LearningCandidate[]; symptoms: Set<string> }[] = [];
+
+    for (const candidate of candidates) {
+      const cluster = candidate.cluster || this.singletonCluster(candidate);
+      const symptoms = this.candidateSymptoms(candidate);
+      let best: (typeof clusters)[number] | undefined;
+      let bestSimilarity = CLUSTER_SIMILARITY;
+
+      for (const existing of clusters) {
+        if (existing.lead.cluster!.key !== cluster.key) continue;
+        const similarity = this.jaccard(existing.symptoms, symptoms);
+        if (similarity >= bestSimilarity) {
+          best = existing;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (best) {
+        best.members.push(candidate);
+        symptoms.forEach(symptom => best!.symptoms.add(symptom));
+      } else {
+        clusters.push({ lead: { ...candidate, cluster }, members: [], symptoms: new Set(symptoms) });
+      }
+    }
+
+    return clusters.map(({ lead, members }) => ({
+      candidate: members.length > 0 ? this.mergeCluster(lead, members) : lead,
+      merged: members,
+    }));
+  }
+
+  private mergeCluster(lead: LearningCandidate, members: LearningCandidate[]): LearningCandidate {
+    const all = [lead, ...members];
+    const sourceConversations = Array.from(new Set(all.flatMap(c => c.sourceConversations)));
+    const frequency = all.reduce((sum, c) => sum + (c.cluster?.frequency || c.sourceConversations.length || 1), 0);
+    const priority = all.reduce<LearningCandidate['priority']>(
+      (max, c) => (PRIORITY_WEIGHT[c.priority] > PRIORITY_WEIGHT[max] ? c.priority : max),
+      lead.priority
+    );
+
+    // Symptoms weighted by how many conversations reported them
+    const counts = new Map<string, number>();
+    for (const candidate of all) {
+      const weight = candidate.cluster?.frequency || 1;
+      const symptoms = candidate.cluster && candidate.cluster.frequency > 1
+        ? candidate.cluster.symptoms
+        : this.candidateSymptoms(candidate);
+      symptoms.forEach(symptom => counts.set(symptom, (counts.get(symptom) || 0) + weight));
+    }
+    const symptoms = Array.from(counts.entries())
+      .filter(([, count]) => count * 2 >= frequency)
+      .sort((a, b) => b[1] - a[1])
+      .map(([symptom]) => symptom);
+
+    const lastSeenAt = new Date(Math.max(...all.map(c => (c.cluster?.lastSeenAt || c.createdAt).getTime())));
+
+    return {
+      ...lead,
+      priority,
+      description: lead.type === 'new_pattern' && symptoms.length > 0
+        ? `Complex symptom pattern: ${symptoms.join(', ')}`
+        : lead.description,
+      sourceConversations,
+      estimatedImpact: this.estimateImpact(lead.type, priority),
+      cluster: {
+        ...lead.cluster!,
+        symptoms,
+        frequency,
+        impactScore: this.impactScore(priority, frequency),
+        lastSeenAt,
+        sampleConversations: sourceConversations.slice(-CLUSTER_SAMPLE_SIZE).reverse().map(conversationId => ({ conversationId })),
+      },
+    };
+  }
+
+  // One transaction, so a failed merge leaves every candidate pending
+  private async persistMerge(lead: LearningCandidate, members: LearningCandidate[]): Promise<void> {
+    const memberIds = members.map(m => m.id);
+
+    const { error } = await (supabase as any).rpc('ai_merge_learning_candidates', {
+      p_lead_id: lead.id,
+      p_member_ids: memberIds,
+      p_lead: {
+        priority: lead.priority,
+        description: lead.description,
+        source_conversations: lead.sourceConversations,
+        estimated_impact: lead.estimatedImpact,
+        ...this.clusterColumns(lead.cluster),
+      },
+    });
+
+    if (error) throw error;
+
+    for (const candidate of this.learningCandidates) {
+      if (memberIds.includes(candidate.id)) candidate.status = 'merged';
+    }
+  }
+
+  private async attachSampleExcerpts(candidates: LearningCandidate[]): Promise<void> {
+    const ids = candidates.flatMap(c => c.cluster?.sampleConversations.map(s => s.conversationId) || []);
+    if (ids.length === 0) return;
+
+    try {
+      const { data } = await (supabase as any)
+        .from('ai_learning_conversations')
+        .select('id, messages')
+        .in('id', ids);
+
+      const excerpts = new Map<string, string>();
+      for (const row of data || []) {
+        const message = (row.messages || []).find((m: AnonymizedMessage) => m.role === 'user' && m.sanitizedContent);
+        if (message) excerpts.set(row.id, message.sanitizedContent);
+      }
+      for (const candidate of candidates) {
+        candidate.cluster?.sampleConversations.forEach(sample => {
+          sample.excerpt = excerpts.get(sample.conversationId);
+        });
+      }
+    } catch (error) {
+      console.log('Learning conversation samples not available:', error);
+    }
+  }
+
+  private singletonCluster(candidate: LearningCandidate): CandidateCluster {
+    const context = candidate.suggestedAddition?.context || {};
+    const intent = candidate.suggestedAddition?.category || 'unknown';
+    const riskLevel = context.riskLevel || 'unknown';
+    return {
+      key: [candidate.type, intent, context.trimester ?? 'unknown', riskLevel].join('|'),
+      symptoms: this.candidateSymptoms(candidate),
+      intent,
+      trimester: context.trimester,
+      riskLevel,
+      frequency: Math.max(candidate.sourceConversations.length, 1),
+      impactScore: this.impactScore(candidate.priority, Math.max(candidate.sourceConversations.length, 1)),
+      lastSeenAt: candidate.createdAt,
+      sampleConversations: candidate.sourceConversations
+        .slice(-CLUSTER_SAMPLE_SIZE)
+        .reverse()
+        .map(conversationId => ({ conversationId })),
+    };
+  }
+
+  private candidateSymptoms(candidate: LearningCandidate): string[] {
+    const symptoms: string[] = candidate.cluster?.symptoms || candidate.suggestedAddition?.context?.symptoms || [];
+    return Array.from(new Set(symptoms.map(s => s.toLowerCase()))).sort();
+  }
+
+  private jaccard(a: Set<string>, b: string[]): number {
+    if (a.size === 0 && b.length === 0) return 1;
+    const intersection = b.filter(symptom => a.has(symptom)).length;
+    return intersection / (a.size + b.length - intersection);
+  }
+
+  // Priority weight, scaled by how often the pattern recurs
+  private impactScore(priority: LearningCandidate['priority'], frequency: number): number {
+    return Math.round(PRIORITY_WEIGHT[priority] * (1 + Math.log2(frequency)) * 100) / 100;
+  }
+
+  private clusterColumns(cluster?: CandidateCluster): Record<string, any> {
+    if (!cluster) return {};
+    return {
+      cluster_key: cluster.key,
+      frequency: cluster.frequency,
+      impact_score: cluster.impactScore,
+      last_seen_at: cluster.lastSeenAt.toISOString(),
+      cluster: {
+        symptoms: cluster.symptoms,
+        intent: cluster.intent,
+        trimester: cluster.trimester,
+        riskLevel: cluster.riskLevel,
+      },
+    };
+  }
+
+  /**
+   * Admin approves a learning candidate, optionally as a concrete engine
+   * change that the next compiled model version will carry. Pending
+   * candidates clustered under it are merged into it first.
    */
   async approveLearningCandidate(
     candidateId: string, 
     adminId: string, 
-    notes?: string
+    notes?: string,
+    change?: KnowledgeChange
   ): Promise<boolean> {
     try {
-      await (supabase as any)
+      await this.mergeClusterOf(candidateId);
+
+      const update: Record<string, any> = {
+        status: 'approved',
+        reviewed_by: adminId,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes,
+      };
+
+      if (change) {
+        const { data, error } = await (supabase as any)
+          .from('ai_learning_candidates')
+          .select('suggested_addition')
+          .eq('id', candidateId)
+          .maybeSingle();
+
+        if (error) throw error;
+        update.suggested_addition = { ...(data?.suggested_addition || {}), change };
+      }
+
+      const { error } = await (supabase as any)
         .from('ai_learning_candidates')
-        .update({
-          status: 'approved',
-          reviewed_by: adminId,
-          reviewed_at: new Date().toISOString(),
-          review_notes: notes,
-        })
+        .update(update)
         .eq('id', candidateId);
-      
+
+      if (error) throw error;
+
       // Update local cache
       const candidate = this.learningCandidates.find(c => c.id === candidateId);
       if (candidate) {
         candidate.status = 'approved';
+        if (change) candidate.suggestedAddition = { ...candidate.suggestedAddition, change };
       }
       
       return true;
-    } catch {
+    } catch (error) {
+      console.error('Error approving learning candidate:', error);
       return false;
     }
   }
 
   /**
-   * Admin rejects a learning candidate
+   * Admin rejects a learning candidate and the pending candidates
+   * clustered under it
    */
   async rejectLearningCandidate(
     candidateId: string, 
@@ -388,7 +718,9 @@ class LearningSystem {
     reason: string
   ): Promise<boolean> {
     try {
-      await (supabase as any)
+      await this.mergeClusterOf(candidateId);
+
+      const { error } = await (supabase as any)
         .from('ai_learning_candidates')
         .update({
           status: 'rejected',
@@ -397,9 +729,15 @@ class LearningSystem {
           review_notes: reason,
         })
         .eq('id', candidateId);
-      
+
+      if (error) throw error;
+
+      const candidate = this.learningCandidates.find(c => c.id === candidateId);
+      if (candidate) candidate.status = 'rejected';
+
       return true;
-    } catch {
+    } catch (error) {
+      console.error('Error rejecting learning candidate:', error);
       return false;
     }
   }
@@ -414,19 +752,75 @@ class LearningSystem {
         .select('*')
         .eq('status', 'approved')
         .order('created_at', { ascending: true });
-      
-      return data || [];
+
+      return (data || []).map((row: any) => this.toLearningCandidate(row));
     } catch {
       return this.learningCandidates.filter(c => c.status === 'approved');
     }
   }
 
   /**
-   * Record model version
+   * Mark approved candidates as implemented by a model version
    */
-  async recordModelVersion(version: ModelVersion): Promise<void> {
+  async markCandidatesImplemented(candidateIds: string[], version: string): Promise<void> {
+    if (candidateIds.length === 0) return;
+
+    const { error } = await (supabase as any)
+      .from('ai_learning_candidates')
+      .update({
+        status: 'implemented',
+        implemented_at: new Date().toISOString(),
+        implemented_in_version: version,
+      })
+      .in('id', candidateIds);
+
+    if (error) throw error;
+
+    for (const candidate of this.learningCandidates) {
+      if (candidateIds.includes(candidate.id)) {
+        candidate.status = 'implemented';
+        candidate.implementedInVersion = version;
+      }
+    }
+  }
+
+  private toLearningCandidate(row: any): LearningCandidate {
+    return {
+      id: row.id,
+      type: row.type,
+      priority: row.priority,
+      description: row.description,
+      sourceConversations: row.source_conversations || [],
+      suggestedAddition: row.suggested_addition || {},
+      estimatedImpact: row.estimated_impact || '',
+      status: row.status,
+      createdAt: new Date(row.created_at),
+      implementedInVersion: row.implemented_in_version || undefined,
+      cluster: row.cluster_key
+        ? {
+            key: row.cluster_key,
+            symptoms: row.cluster?.symptoms || [],
+            intent: row.cluster?.intent || 'unknown',
+            trimester: row.cluster?.trimester ?? undefined,
+            riskLevel: row.cluster?.riskLevel || 'unknown',
+            frequency: row.frequency || 1,
+            impactScore: Number(row.impact_score) || 0,
+            lastSeenAt: new Date(row.last_seen_at || row.created_at),
+            sampleConversations: (row.source_conversations || [])
+              .slice(-CLUSTER_SAMPLE_SIZE)
+              .reverse()
+              .map((conversationId: string) => ({ conversationId })),
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Record model version; resolves false when it was not stored
+   */
+  async recordModelVersion(version: ModelVersion): Promise<boolean> {
     try {
-      await (supabase as any).from('ai_model_versions').insert({
+      const { error } = await (supabase as any).from('ai_model_versions').insert({
         version: version.version,
         release_date: version.releaseDate.toISOString(),
         training_data_cutoff: version.trainingDataCutoff.toISOString(),
@@ -435,7 +829,44 @@ class LearningSystem {
         validation_metrics: version.validationMetrics,
         status: version.status,
         previous_version: version.previousVersion,
+        components: version.components || {},
       });
+
+      if (error) {
+        console.error('Error recording model version:', error);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.log('Model version storage not available');
+      return false;
+    }
+  }
+
+  /**
+   * Store validation metrics on a model version; versions that are not yet
+   * recorded are created in validation
+   */
+  async recordValidationMetrics(version: string, metrics: ValidationMetrics): Promise<void> {
+    try {
+      const { data } = await (supabase as any)
+        .from('ai_model_versions')
+        .update({ validation_metrics: metrics })
+        .eq('version', version)
+        .select('version');
+
+      if (!data || data.length === 0) {
+        const now = new Date();
+        await this.recordModelVersion({
+          version,
+          releaseDate: now,
+          trainingDataCutoff: now,
+          improvements: [],
+          knownLimitations: [],
+          validationMetrics: metrics,
+          status: 'validating',
+        });
+      }
     } catch (error) {
       console.log('Model version storage not available');
     }
@@ -449,16 +880,17 @@ class LearningSystem {
       const { data } = await (supabase as any)
         .from('ai_model_versions')
         .select('*')
-        .eq('status', 'active')
+        .eq('status', 'deployed')
         .order('release_date', { ascending: false })
         .limit(1)
         .single();
-      
-      return data;
+
+      if (!data) throw new Error('No deployed model version');
+      return this.toModelVersion(data);
     } catch {
       // Return default version info
       return {
-        version: this.currentModelVersion,
+        version: DEFAULT_MODEL_VERSION,
         releaseDate: new Date('2024-01-01'),
         trainingDataCutoff: new Date('2024-01-01'),
         improvements: ['Initial release'],
@@ -472,7 +904,7 @@ class LearningSystem {
           clinicalValidationScore: 0.80,
           sampleSize: 10000,
         },
-        status: 'active',
+        status: 'deployed',
       };
     }
   }
@@ -486,62 +918,176 @@ class LearningSystem {
         .from('ai_model_versions')
         .select('*')
         .order('release_date', { ascending: false });
-      
-      return data || [];
+
+      return (data || []).map((row: any) => this.toModelVersion(row));
     } catch {
       return [];
     }
   }
 
+  private toModelVersion(row: any): ModelVersion {
+    return {
+      version: row.version,
+      releaseDate: new Date(row.release_date),
+      trainingDataCutoff: new Date(row.training_data_cutoff),
+      improvements: row.improvements || [],
+      knownLimitations: row.known_limitations || [],
+      validationMetrics: row.validation_metrics || undefined,
+      status: row.status,
+      previousVersion: row.previous_version || undefined,
+      components: row.components || {},
+      shadow: row.shadow || false,
+      approvedBy: row.approved_by || undefined,
+      approvedAt: row.approved_at ? new Date(row.approved_at) : undefined,
+      deployedAt: row.deployed_at ? new Date(row.deployed_at) : undefined,
+      retiredAt: row.retired_at ? new Date(row.retired_at) : undefined,
+    };
+  }
+
   /**
-   * Record user feedback for learning
+   * Record feedback on an AI message. Negative feedback flags the linked
+   * learning record for review (done by the database, since learning records
+   * are admin-only).
    */
-  async recordFeedback(
-    conversationId: string,
-    feedback: {
-      rating: number;
-      helpful: boolean;
-      accurate: boolean;
-      comments?: string;
-    }
-  ): Promise<void> {
+  async recordFeedback(feedback: AIFeedback): Promise<boolean> {
     try {
-      await (supabase as any).from('ai_conversation_feedback').insert({
-        conversation_id: conversationId,
+      const { error } = await (supabase as any).from('ai_conversation_feedback').insert({
+        conversation_id: feedback.conversationId,
+        learning_record_id: feedback.learningRecordId,
+        message_id: feedback.messageId,
+        source: feedback.source,
+        user_role: feedback.userRole,
         rating: feedback.rating,
         helpful: feedback.helpful,
         accurate: feedback.accurate,
+        issue: feedback.issue,
         comments: feedback.comments,
+        intent: feedback.intent,
+        model_version: feedback.modelVersion,
         created_at: new Date().toISOString(),
       });
 
-      // If negative feedback, flag for review
-      if (feedback.rating <= 2 || !feedback.accurate) {
-        await this.flagConversationForReview(conversationId, 'negative_feedback');
-      }
+      if (error) throw error;
+      return true;
     } catch (error) {
-      console.log('Feedback storage not available');
+      console.log('Feedback storage not available:', error);
+      return false;
     }
   }
 
   /**
-   * Flag conversation for review
+   * Aggregate feedback by intent and by model version (admin only)
    */
-  private async flagConversationForReview(
-    conversationId: string, 
-    reason: string
+  async getFeedbackSummary(since?: Date): Promise<FeedbackSummary> {
+    let query = (supabase as any)
+      .from('ai_conversation_feedback')
+      .select('rating, helpful, accurate, issue, intent, model_version');
+    if (since) query = query.gte('created_at', since.toISOString());
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows: any[] = data || [];
+    return {
+      total: rows.length,
+      byIntent: this.aggregateFeedback(rows, row => row.intent || 'unknown'),
+      byModelVersion: this.aggregateFeedback(rows, row => row.model_version || 'unknown'),
+    };
+  }
+
+  private aggregateFeedback(rows: any[], keyOf: (row: any) => string): FeedbackAggregate[] {
+    const groups = new Map<string, any[]>();
+    for (const row of rows) {
+      const key = keyOf(row);
+      groups.set(key, [...(groups.get(key) || []), row]);
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, group]) => {
+        const rated = group.filter(row => typeof row.rating === 'number');
+        const issues: FeedbackAggregate['issues'] = {};
+        for (const row of group) {
+          if (row.issue) issues[row.issue as FeedbackIssue] = (issues[row.issue as FeedbackIssue] || 0) + 1;
+        }
+        return {
+          key,
+          count: group.length,
+          helpfulRate: group.filter(row => row.helpful).length / group.length,
+          averageRating: rated.length > 0
+            ? rated.reduce((sum, row) => sum + row.rating, 0) / rated.length
+            : undefined,
+          inaccurateCount: group.filter(row => row.accurate === false).length,
+          issues,
+        };
+      })
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Record the conflicts found between agents in one orchestrator run;
+   * failures are logged and never reach the user
+   */
+  async recordAgentConflicts(
+    traceId: string,
+    userId: string,
+    conflicts: AgentConflict[],
+    resolution?: string
   ): Promise<void> {
     try {
-      await (supabase as any)
-        .from('ai_learning_conversations')
-        .update({
-          review_status: 'pending',
-          review_flag_reason: reason,
-        })
-        .eq('id', conversationId);
-    } catch {
-      // Ignore if table doesn't exist
+      const createdAt = new Date().toISOString();
+      const { error } = await (supabase as any).from('ai_agent_conflicts').insert(
+        conflicts.map(conflict => ({
+          trace_id: traceId,
+          user_id: userId,
+          dimension: conflict.dimension,
+          cautious_agent_id: conflict.cautious.agentId,
+          cautious_agent: conflict.cautious.agent,
+          cautious_value: conflict.cautious.value,
+          lenient_agent_id: conflict.lenient.agentId,
+          lenient_agent: conflict.lenient.agent,
+          lenient_value: conflict.lenient.value,
+          gap: conflict.gap,
+          resolution,
+          created_at: createdAt,
+        }))
+      );
+      if (error) throw error;
+    } catch (error) {
+      console.log('Agent conflict logging not available:', error);
+    }
+  }
+
+  /**
+   * Aggregate the most recent agent conflicts by agent pair and dimension,
+   * most frequent first (admin only)
+   */
+  async getAgentConflictSummary(since?: Date, limit: number = CONFLICT_SUMMARY_LIMIT): Promise<AgentConflictAggregate[]> {
+    let query = (supabase as any)
+      .from('ai_agent_conflicts')
+      .select('dimension, cautious_agent, lenient_agent, gap, created_at')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (since) query = query.gte('created_at', since.toISOString());
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const groups = new Map<string, any[]>();
+    for (const row of data || []) {
+      const key = `${row.cautious_agent}|${row.lenient_agent}|${row.dimension}`;
+      groups.set(key, [...(groups.get(key) || []), row]);
     }
+
+    return Array.from(groups.values())
+      .map(group => ({
+        cautiousAgent: group[0].cautious_agent,
+        lenientAgent: group[0].lenient_agent,
+        dimension: group[0].dimension,
+        count: group.length,
+        averageGap: group.reduce((sum, row) => sum + row.gap, 0) / group.length,
+        lastSeenAt: group.map(row => row.created_at).sort().reverse()[0],
+      }))
+      .sort((a, b) => b.count - a.count);
   }
 
   /**
@@ -564,7 +1110,8 @@ class LearningSystem {
 
       const pendingCount = candidates.data?.filter((c: any) => c.status === 'pending').length || 0;
       const approvedCount = candidates.data?.filter((c: any) => c.status === 'approved').length || 0;
-      const avgRating = feedback.data?.reduce((sum: number, f: any) => sum + f.rating, 0) / (feedback.data?.length || 1);
+      const rated = (feedback.data || []).filter((f: any) => typeof f.rating === 'number');
+      const avgRating = rated.reduce((sum: number, f: any) => sum + f.rating, 0) / (rated.length || 1);
 
       return {
         totalConversations: conversations.count || 0,
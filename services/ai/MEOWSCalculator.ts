@@ -0,0 +1,208 @@
+/**
+ * Modified Early Obstetric Warning Score (MEOWS)
+ *
+ * Implements:
+ * - Per-parameter yellow/red trigger bands for maternal observations
+ * - Aggregate escalation level (one red or two yellow triggers = urgent review)
+ * - Plain-language summaries for mothers and doctors
+ */
+
+// Types
+export type ConsciousnessLevel = 'alert' | 'voice' | 'pain' | 'unresponsive';
+
+export type MEOWSParameter =
+  | 'systolic_bp'
+  | 'diastolic_bp'
+  | 'heart_rate'
+  | 'respiratory_rate'
+  | 'temperature'
+  | 'oxygen_saturation'
+  | 'consciousness_level';
+
+export type MEOWSTriggerColor = 'yellow' | 'red';
+
+export type MEOWSEscalationLevel = 'normal' | 'increased_monitoring' | 'urgent_review' | 'emergency';
+
+export interface MEOWSObservations {
+  systolic_bp?: number;
+  diastolic_bp?: number;
+  heart_rate?: number;
+  respiratory_rate?: number;
+  temperature?: number;
+  oxygen_saturation?: number;
+  consciousness_level?: ConsciousnessLevel;
+}
+
+export interface MEOWSTrigger {
+  parameter: MEOWSParameter;
+  value: number | string;
+  color: MEOWSTriggerColor;
+  reason: string;
+}
+
+export interface MEOWSResult {
+  score: number;
+  redTriggers: number;
+  yellowTriggers: number;
+  triggers: MEOWSTrigger[];
+  escalationLevel: MEOWSEscalationLevel;
+  parametersAssessed: MEOWSParameter[];
+  recommendation: string;
+}
+
+interface TriggerBand {
+  color: MEOWSTriggerColor;
+  min?: number;
+  max?: number;
+  reason: string;
+}
+
+// Bands follow the widely used UK MEOWS chart. Red bands are listed first so
+// that the most severe matching band wins; min is inclusive, max is exclusive.
+const NUMERIC_BANDS: Record<Exclude<MEOWSParameter, 'consciousness_level'>, TriggerBand[]> = {
+  systolic_bp: [
+    { color: 'red', min: 160, reason: 'Systolic BP 160 mmHg or higher' },
+    { color: 'red', max: 90, reason: 'Systolic BP below 90 mmHg' },
+    { color: 'yellow', min: 150, max: 160, reason: 'Systolic BP 150-159 mmHg' },
+    { color: 'yellow', min: 90, max: 100, reason: 'Systolic BP 90-99 mmHg' },
+  ],
+  diastolic_bp: [
+    { color: 'red', min: 110, reason: 'Diastolic BP 110 mmHg or higher' },
+    { color: 'yellow', min: 90, max: 110, reason: 'Diastolic BP 90-109 mmHg' },
+  ],
+  heart_rate: [
+    { color: 'red', min: 120, reason: 'Heart rate 120 bpm or higher' },
+    { color: 'red', max: 40, reason: 'Heart rate below 40 bpm' },
+    { color: 'yellow', min: 100, max: 120, reason: 'Heart rate 100-119 bpm' },
+    { color: 'yellow', min: 40, max: 50, reason: 'Heart rate 40-49 bpm' },
+  ],
+  respiratory_rate: [
+    { color: 'red', min: 30, reason: 'Respiratory rate 30/min or higher' },
+    { color: 'red', max: 10, reason: 'Respiratory rate below 10/min' },
+    { color: 'yellow', min: 21, max: 30, reason: 'Respiratory rate 21-29/min' },
+  ],
+  temperature: [
+    { color: 'red', min: 38, reason: 'Temperature 38°C or higher' },
+    { color: 'red', max: 35, reason: 'Temperature below 35°C' },
+    { color: 'yellow', min: 37.5, max: 38, reason: 'Temperature 37.5-37.9°C' },
+    { color: 'yellow', min: 35, max: 36, reason: 'Temperature 35-35.9°C' },
+  ],
+  oxygen_saturation: [
+    { color: 'red', max: 95, reason: 'Oxygen saturation below 95%' },
+  ],
+};
+
+const CONSCIOUSNESS_TRIGGERS: Partial<Record<ConsciousnessLevel, TriggerBand>> = {
+  voice: { color: 'yellow', reason: 'Responds to voice only' },
+  pain: { color: 'red', reason: 'Responds to pain only' },
+  unresponsive: { color: 'red', reason: 'Unresponsive' },
+};
+
+const RECOMMENDATIONS: Record<MEOWSEscalationLevel, string> = {
+  normal: 'Continue routine observations',
+  increased_monitoring: 'Repeat observations within 4 hours and inform your midwife or doctor',
+  urgent_review: 'Urgent review by a doctor is needed',
+  emergency: 'Emergency review needed now - contact your doctor or emergency services',
+};
+
+class MEOWSCalculator {
+  /**
+   * Score a set of observations. Missing parameters are skipped rather than
+   * treated as normal, so parametersAssessed shows what the score is based on.
+   */
+  calculate(observations: MEOWSObservations): MEOWSResult {
+    const triggers: MEOWSTrigger[] = [];
+    const parametersAssessed: MEOWSParameter[] = [];
+
+    for (const parameter of Object.keys(NUMERIC_BANDS) as (keyof typeof NUMERIC_BANDS)[]) {
+      const value = observations[parameter];
+      if (typeof value !== 'number' || isNaN(value)) continue;
+
+      parametersAssessed.push(parameter);
+      const band = NUMERIC_BANDS[parameter].find(b =>
+        (b.min === undefined || value >= b.min) && (b.max === undefined || value < b.max)
+      );
+      if (band) {
+        triggers.push({ parameter, value, color: band.color, reason: band.reason });
+      }
+    }
+
+    if (observations.consciousness_level) {
+      parametersAssessed.push('consciousness_level');
+      const band = CONSCIOUSNESS_TRIGGERS[observations.consciousness_level];
+      if (band) {
+        triggers.push({
+          parameter: 'consciousness_level',
+          value: observations.consciousness_level,
+          color: band.color,
+          reason: band.reason,
+        });
+      }
+    }
+
+    const redTriggers = triggers.filter(t => t.color === 'red').length;
+    const yellowTriggers = triggers.filter(t => t.color === 'yellow').length;
+    const escalationLevel = this.getEscalationLevel(redTriggers, yellowTriggers);
+
+    return {
+      score: redTriggers * 3 + yellowTriggers,
+      redTriggers,
+      yellowTriggers,
+      triggers,
+      escalationLevel,
+      parametersAssessed,
+      recommendation: this.getRecommendation(escalationLevel),
+    };
+  }
+
+  getRecommendation(level: MEOWSEscalationLevel): string {
+    return RECOMMENDATIONS[level];
+  }
+
+  /**
+   * One red or two yellow triggers require urgent review
+   */
+  getEscalationLevel(redTriggers: number, yellowTriggers: number): MEOWSEscalationLevel {
+    if (redTriggers >= 2) return 'emergency';
+    if (redTriggers === 1 || yellowTriggers >= 2) return 'urgent_review';
+    if (yellowTriggers === 1) return 'increased_monitoring';
+    return 'normal';
+  }
+
+  getEscalationLabel(level: MEOWSEscalationLevel): string {
+    switch (level) {
+      case 'normal': return 'Normal';
+      case 'increased_monitoring': return 'Monitor closely';
+      case 'urgent_review': return 'Urgent review';
+      case 'emergency': return 'Emergency';
+    }
+  }
+
+  getEscalationColor(level: MEOWSEscalationLevel): string {
+    switch (level) {
+      case 'normal': return '#10B981';
+      case 'increased_monitoring': return '#F59E0B';
+      case 'urgent_review': return '#F97316';
+      case 'emergency': return '#EF4444';
+    }
+  }
+
+  /**
+   * Short summary suitable for an alert message
+   */
+  summarize(result: MEOWSResult): string {
+    if (result.triggers.length === 0) {
+      return 'All observations within normal range';
+    }
+    const red = result.triggers.filter(t => t.color === 'red').map(t => t.reason);
+    const yellow = result.triggers.filter(t => t.color === 'yellow').map(t => t.reason);
+    const parts: string[] = [];
+    if (red.length > 0) parts.push(`Red: ${red.join(', ')}`);
+    if (yellow.length > 0) parts.push(`Yellow: ${yellow.join(', ')}`);
+    return parts.join('. ');
+  }
+}
+
+// Export singleton instance
+export const meowsCalculator = new MEOWSCalculator();
+export default meowsCalculator;
@@ -0,0 +1,289 @@
+/**
+ * Perinatal Mental Health Screening for Maternal Health AI
+ *
+ * Implements:
+ * - Recognition of signs of perinatal depression and anxiety, self-harm
+ *   ideation and thoughts of harming the baby in a message
+ * - Negation and context handling, so "I'm not suicidal" or a relative's
+ *   history do not raise a crisis
+ * - Local crisis and perinatal support lines by country, from the bundled
+ *   dataset in knowledge/perinatal-crisis-lines.json
+ * - Support and crisis replies for the mother
+ *
+ * Depression and anxiety are screened in English; self-harm and harm to
+ * the baby in every supported language, with each lexicon's crisis terms
+ * and negation rules. Screening prompts support and clinical follow-up; it
+ * is not a diagnostic instrument such as the EPDS.
+ */
+
+import crisisLineData from './knowledge/perinatal-crisis-lines.json';
+import { clinicalContextAnalyzer, FindingContext, NegationRules } from './ClinicalContextAnalyzer';
+import { getLexicon, getNegationRules, SUPPORTED_LANGUAGES } from './lexicons';
+
+// Types
+export type MentalHealthConcern = 'depression' | 'anxiety' | 'self_harm' | 'harm_to_baby';
+
+export type MentalHealthLevel = 'none' | 'concern' | 'crisis';
+
+export type CrisisType = 'self_harm' | 'harm_to_baby';
+
+export interface MentalHealthFinding {
+  concern: MentalHealthConcern;
+  term: string;
+  context: FindingContext;
+}
+
+export interface MentalHealthScreeningResult {
+  level: MentalHealthLevel;
+  concerns: MentalHealthConcern[];
+  /** Set when the level is crisis; thoughts of harming the baby take precedence */
+  crisisType?: CrisisType;
+  findings: MentalHealthFinding[];
+}
+
+export interface CrisisLine {
+  name: string;
+  contact: string;
+  hours: string;
+  perinatal?: boolean;
+}
+
+export interface CrisisLineSet {
+  /** Unset when no region could be resolved */
+  region?: string;
+  regionName?: string;
+  emergency?: string;
+  lines: CrisisLine[];
+  directory: { name: string; url: string };
+}
+
+export interface MentalHealthCrisis {
+  type: CrisisType;
+  concerns: MentalHealthConcern[];
+  /** Terms that raised the crisis, for the clinician */
+  matchedTerms: string[];
+  crisisLines: CrisisLineSet;
+  reason: string;
+}
+
+const SCREENING_TERMS: Record<MentalHealthConcern, string[]> = {
+  self_harm: [
+    'suicidal', 'suicide', 'kill myself', 'killing myself', 'end my life', 'ending my life', 'take my own life',
+    'taking my own life',
+    'want to die', 'wish i was dead', 'wish i were dead', 'better off dead', 'better off without me',
+    'hurt myself', 'hurting myself', 'harm myself', 'harming myself', 'self harm', 'self-harm',
+    'cut myself', 'cutting myself', 'no reason to live', "don't want to live", "don't want to be here anymore",
+  ],
+  harm_to_baby: [
+    'hurt my baby', 'hurt the baby', 'hurting my baby', 'hurting the baby', 'harm my baby', 'harm the baby',
+    'harming my baby', 'harming the baby', 'kill my baby', 'kill the baby', 'killing my baby', 'killing the baby',
+    'shake my baby', 'shake the baby', 'shaking my baby', 'shaking the baby', 'smother my baby', 'smother the baby',
+    'smothering my baby', 'smothering the baby', 'drown my baby', 'drown the baby', 'drowning my baby',
+    'drowning the baby',
+  ],
+  depression: [
+    'depressed', 'depression', 'hopeless', 'worthless', 'feel empty', 'feel numb', "can't stop crying",
+    'crying all the time', "don't enjoy anything", 'no joy', 'lost interest', "can't bond", "don't love my baby",
+    "don't feel connected to my baby", 'feel like a failure', 'bad mother', 'terrible mother', 'guilty all the time',
+  ],
+  anxiety: [
+    'panic attack', 'panic attacks', 'constant worry', "can't stop worrying", 'racing thoughts',
+    'intrusive thoughts', 'on edge', "can't relax", 'something bad will happen', 'terrified', "can't cope",
+    'overwhelmed',
+  ],
+};
+
+const CRISIS_CONCERNS: CrisisType[] = ['harm_to_baby', 'self_harm'];
+
+// Terms screened with one set of negation rules; English uses the analyzer's own
+interface ScreeningTermSet {
+  concern: MentalHealthConcern;
+  terms: string[];
+  rules?: NegationRules;
+}
+
+const CONCERN_LABELS: Record<MentalHealthConcern, string> = {
+  depression: 'signs of depression',
+  anxiety: 'signs of anxiety',
+  self_harm: 'thoughts of self-harm or suicide',
+  harm_to_baby: 'thoughts of harming the baby',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class MentalHealthScreening {
+  private termSets: ScreeningTermSet[] = [
+    ...(Object.entries(SCREENING_TERMS) as [MentalHealthConcern, string[]][]).map(([concern, terms]) => ({ concern, terms })),
+    ...SUPPORTED_LANGUAGES.map(({ code }) => getLexicon(code)).flatMap(lexicon =>
+      (Object.entries(lexicon.crisisTerms) as [CrisisType, string[]][])
+        .filter(([, terms]) => terms.length > 0)
+        .map(([concern, terms]) => ({ concern, terms, rules: getNegationRules(lexicon) }))
+    ),
+  ];
+
+  // Unicode-aware word boundaries, since lexicon terms carry letters such as "ɛ" and "é"
+  private patterns = this.termSets
+    .flatMap(set => set.terms)
+    .map(term => new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(term)}(?![\\p{L}\\p{N}_])`, 'iu'));
+
+  /**
+   * Patterns matching any screening term, for agent activation
+   */
+  getPatterns(): RegExp[] {
+    return this.patterns;
+  }
+
+  getConcernLabel(concern: MentalHealthConcern): string {
+    return CONCERN_LABELS[concern];
+  }
+
+  /**
+   * Screen a message. Negated mentions and mentions about someone else are
+   * ignored; past self-harm or thoughts of harming the baby are a concern
+   * rather than a crisis.
+   */
+  screen(message: string): MentalHealthScreeningResult {
+    // Phone keyboards often type curly apostrophes ("don’t")
+    const text = message.replace(/[\u2018\u2019]/g, "'");
+    const findings: MentalHealthFinding[] = [];
+
+    for (const { concern, terms, rules } of this.termSets) {
+      for (const term of terms) {
+        for (const finding of clinicalContextAnalyzer.analyzeTerm(text, term, rules)) {
+          if (finding.context.negated || !this.isAboutPatient(concern, finding.context)) continue;
+          findings.push({ concern, term, context: finding.context });
+        }
+      }
+    }
+
+    const concerns = Array.from(new Set(findings.map(f => f.concern)));
+    // Ideation is often phrased hypothetically ("I might hurt my baby"), so
+    // only history downgrades it
+    const crisisType = CRISIS_CONCERNS.find(type =>
+      findings.some(f => f.concern === type && f.context.temporality === 'current')
+    );
+
+    return {
+      level: crisisType ? 'crisis' : concerns.length > 0 ? 'concern' : 'none',
+      concerns,
+      crisisType,
+      findings,
+    };
+  }
+
+  /**
+   * Crisis details for escalation; undefined unless the screening found a crisis
+   */
+  toCrisis(screening: MentalHealthScreeningResult, crisisLines: CrisisLineSet): MentalHealthCrisis | undefined {
+    if (!screening.crisisType) return undefined;
+    const matchedTerms = Array.from(new Set(
+      screening.findings.filter(f => CRISIS_CONCERNS.includes(f.concern as CrisisType)).map(f => f.term)
+    ));
+
+    return {
+      type: screening.crisisType,
+      concerns: screening.concerns,
+      matchedTerms,
+      crisisLines,
+      reason: `Mental health crisis: ${CONCERN_LABELS[screening.crisisType]} (${matchedTerms.join(', ')})`,
+    };
+  }
+
+  /**
+   * Crisis lines for a country code, else the device locale's country, else
+   * the country a supported language is mainly spoken in
+   */
+  getCrisisLines(region?: string, language?: string): CrisisLineSet {
+    const regions = crisisLineData.regions as Record<string, { name: string; emergency: string; lines: CrisisLine[] }>;
+    const languageRegions = crisisLineData.languageRegions as Record<string, string>;
+    const resolved = [region, this.deviceRegion(), language ? languageRegions[language] : undefined]
+      .map(r => r?.toUpperCase())
+      .find(r => r !== undefined && regions[r] !== undefined);
+    const entry = resolved ? regions[resolved] : undefined;
+
+    return {
+      region: resolved,
+      regionName: entry?.name,
+      emergency: entry?.emergency,
+      lines: entry?.lines || [],
+      directory: crisisLineData.directory,
+    };
+  }
+
+  /**
+   * Crisis lines as text for a reply
+   */
+  formatCrisisLines(set: CrisisLineSet): string {
+    const lines = set.lines.map(l => `• ${l.name}: ${l.contact} (${l.hours})`);
+    lines.push(`• Other services near you: ${set.directory.url}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Reply to signs of depression or anxiety without a crisis
+   */
+  supportMessage(concerns: MentalHealthConcern[], crisisLines: CrisisLineSet): string {
+    const described = concerns.includes('depression') && concerns.includes('anxiety')
+      ? 'low mood and anxiety'
+      : concerns.includes('depression') ? 'low mood' : 'anxiety';
+
+    return `💚 Thank you for telling me how you feel
+
+What you describe sounds like ${described}, which many people experience during pregnancy and after birth. It is common and it is treatable.
+
+Please tell your doctor or midwife how you have been feeling. They can check for perinatal depression and anxiety and talk through support and treatment with you.
+
+In the meantime:
+• Talk to someone you trust about how you feel
+• Rest when you can and accept offers of help
+• Support is available:
+${this.formatCrisisLines(crisisLines)}
+
+If you ever have thoughts of harming yourself or your baby, reach out for help right away.`;
+  }
+
+  /**
+   * Reply to a crisis, with local crisis lines
+   */
+  crisisMessage(crisis: MentalHealthCrisis): string {
+    const emergency = crisis.crisisLines.emergency || 'your local emergency number';
+    const opening = crisis.type === 'harm_to_baby'
+      ? `Thank you for telling me. Frightening thoughts about harming your baby can come with perinatal depression and anxiety. Having them does not make you a bad mother, and help is available now.
+
+If you feel you might act on these thoughts, put your baby somewhere safe, such as their cot, and call ${emergency} now.`
+      : `I hear that you're going through something very difficult. Your feelings matter, and help is available now.
+
+If you're in immediate danger, please call ${emergency}.`;
+
+    return `💚 You're Not Alone
+
+${opening}
+
+Please reach out NOW:
+${this.formatCrisisLines(crisis.crisisLines)}
+
+Your care team is being told so they can follow up with you. You deserve support, and you don't have to go through this alone.`;
+  }
+
+  getVersion(): string {
+    return crisisLineData.version;
+  }
+
+  private isAboutPatient(concern: MentalHealthConcern, context: FindingContext): boolean {
+    // "my baby" reads as another person to the analyzer, but the thought is the mother's
+    return concern === 'harm_to_baby' || context.experiencer === 'patient';
+  }
+
+  private deviceRegion(): string | undefined {
+    try {
+      const locale = Intl.DateTimeFormat().resolvedOptions().locale;
+      return locale.split('-').slice(1).find(part => /^[A-Za-z]{2}$/.test(part));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const mentalHealthScreening = new MentalHealthScreening();
+export default mentalHealthScreening;
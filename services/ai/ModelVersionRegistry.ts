@@ -0,0 +1,419 @@
+/**
+ * Model Version Registry for Maternal Health AI
+ *
+ * Implements:
+ * - Resolution of a model version to the components it runs with
+ *   (knowledge base version, language model provider)
+ * - The production version, from the deployed row in ai_model_versions
+ * - Registration of one candidate version to run in shadow mode
+ * - Lifecycle: training → validating → approved → deployed → retired
+ * - Admin sign-off for approval, recorded in audit_logs with every transition
+ * - Rollback to the previous version, picked up by running apps over realtime
+ */
+
+import { supabase } from '@/lib/supabase';
+import { knowledgeBase, KnowledgePack } from './KnowledgeBase';
+import type { SafetyEvaluationSummary } from './SafetyEvaluationHarness';
+
+// Types
+export interface ModelComponents {
+  /** Knowledge pack version; the active pack when unset */
+  knowledgeBaseVersion?: string;
+  /** Registered language model provider id; the active provider when unset */
+  languageModelProvider?: string;
+}
+
+export interface ResolvedModelVersion {
+  version: string;
+  components: ModelComponents;
+  /** Pinned knowledge pack; unset means the active pack */
+  knowledgePack?: KnowledgePack;
+}
+
+export type ModelVersionStatus = 'training' | 'validating' | 'approved' | 'deployed' | 'retired';
+
+export interface LifecycleResult {
+  version: string;
+  success: boolean;
+  status?: ModelVersionStatus;
+  /** Why the transition was refused */
+  reasons: string[];
+}
+
+// Production version when no version is recorded as deployed
+export const DEFAULT_MODEL_VERSION = 'maternal-ai-v1.0';
+
+// Transitions an admin can make; retired versions return only by redeploying
+const LIFECYCLE_TRANSITIONS: Record<ModelVersionStatus, ModelVersionStatus[]> = {
+  training: ['validating'],
+  validating: ['approved', 'training'],
+  approved: ['deployed', 'retired'],
+  deployed: ['retired'],
+  retired: ['deployed'],
+};
+
+class ModelVersionRegistry {
+  private production: ResolvedModelVersion | null = null;
+  private shadow: ResolvedModelVersion | null = null;
+  private loadedAt = 0;
+  private cacheTtlMs = 5 * 60 * 1000;
+  private subscribed = false;
+
+  /**
+   * Version serving users, falling back to the default version with the
+   * active knowledge pack and provider
+   */
+  async getProductionVersion(): Promise<ResolvedModelVersion> {
+    await this.refresh();
+    return this.production || { version: DEFAULT_MODEL_VERSION, components: {} };
+  }
+
+  /**
+   * Candidate version running in shadow, if any
+   */
+  async getShadowVersion(): Promise<ResolvedModelVersion | null> {
+    await this.refresh();
+    return this.shadow;
+  }
+
+  /**
+   * Load a stored version with its components
+   */
+  async resolve(version: string): Promise<ResolvedModelVersion | null> {
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ai_model_versions')
+        .select('version, components')
+        .eq('version', version)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? this.toResolved(data) : null;
+    } catch (error) {
+      console.log('Model version not available:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Version serving users as of the last load; for callers that cannot wait
+   */
+  getCachedProductionVersion(): string {
+    return this.production?.version || DEFAULT_MODEL_VERSION;
+  }
+
+  canTransition(from: ModelVersionStatus, to: ModelVersionStatus): boolean {
+    return LIFECYCLE_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Hand a trained version over for validation
+   */
+  async startValidation(version: string, adminId: string): Promise<LifecycleResult> {
+    return this.transition(version, 'validating', adminId);
+  }
+
+  /**
+   * Return a version in validation to training
+   */
+  async returnToTraining(version: string, adminId: string, reason: string): Promise<LifecycleResult> {
+    return this.transition(version, 'training', adminId, { reason });
+  }
+
+  /**
+   * Admin sign-off on a validated version. Requires a passing safety
+   * evaluation; the sign-off is recorded in audit_logs.
+   */
+  async approve(version: string, adminId: string, notes?: string): Promise<LifecycleResult> {
+    const row = await this.loadRow(version);
+    if (!row) return this.refused(version, `Model version ${version} not found`);
+    if (!this.canTransition(row.status, 'approved')) {
+      return this.refused(version, `Cannot move a version from ${row.status} to approved`, row.status);
+    }
+
+    const evaluation: SafetyEvaluationSummary | undefined = row.validation_metrics?.safetyEvaluation;
+    if (!evaluation) {
+      return this.refused(version, 'No safety evaluation recorded for this version', row.status);
+    }
+    if (evaluation.releaseBlocked) {
+      return { version, success: false, status: row.status, reasons: evaluation.blockingReasons };
+    }
+
+    return this.transition(version, 'approved', adminId, {
+      notes,
+      safetyEvaluation: { runAt: evaluation.runAt, vignetteCount: evaluation.vignetteCount },
+    }, {
+      approved_by: adminId,
+      approved_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Make an approved version serve production; the deployed version is retired
+   * and becomes the rollback target
+   */
+  async deploy(version: string, adminId: string): Promise<LifecycleResult> {
+    const row = await this.loadRow(version);
+    if (!row) return this.refused(version, `Model version ${version} not found`);
+    if (!row.approved_at) return this.refused(version, 'Version has no admin sign-off', row.status);
+
+    const current = await this.loadDeployedRow();
+    if (current?.version === version) return this.refused(version, 'Version is already deployed', row.status);
+    return this.switchDeployment(row, current, adminId, 'deploy');
+  }
+
+  /**
+   * Switch production back to the version that was deployed before the
+   * current one
+   */
+  async rollback(adminId: string, reason?: string): Promise<LifecycleResult> {
+    const current = await this.loadDeployedRow();
+    if (!current) return this.refused(DEFAULT_MODEL_VERSION, 'No version is deployed');
+    if (!current.previous_version) {
+      return this.refused(current.version, 'No previous version to roll back to', current.status);
+    }
+
+    const previous = await this.loadRow(current.previous_version);
+    if (!previous) return this.refused(current.previous_version, `Model version ${current.previous_version} not found`);
+    return this.switchDeployment(previous, current, adminId, 'rollback', reason);
+  }
+
+  /**
+   * Take an approved version out of consideration
+   */
+  async retire(version: string, adminId: string): Promise<LifecycleResult> {
+    const row = await this.loadRow(version);
+    if (row?.status === 'deployed') {
+      return this.refused(version, 'Roll back or deploy another version to retire the deployed one', row.status);
+    }
+    return this.transition(version, 'retired', adminId, {}, { retired_at: new Date().toISOString() });
+  }
+
+  /**
+   * Run a candidate version in shadow alongside production, replacing any
+   * current candidate; pass null to stop shadowing
+   */
+  async setShadowVersion(version: string | null): Promise<void> {
+    const { error: clearError } = await (supabase as any)
+      .from('ai_model_versions')
+      .update({ shadow: false })
+      .eq('shadow', true);
+
+    if (clearError) throw clearError;
+
+    if (version) {
+      const { data, error } = await (supabase as any)
+        .from('ai_model_versions')
+        .update({ shadow: true })
+        .eq('version', version)
+        .neq('status', 'deployed')
+        .select('version');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error(`Model version ${version} not found or already in production`);
+      }
+    }
+    this.invalidate();
+  }
+
+  /**
+   * Reload versions on the next message; the cached ones serve until then
+   */
+  invalidate(): void {
+    this.loadedAt = 0;
+  }
+
+  private async switchDeployment(
+    target: any,
+    current: any | null,
+    adminId: string,
+    action: 'deploy' | 'rollback',
+    reason?: string
+  ): Promise<LifecycleResult> {
+    if (!this.canTransition(target.status, 'deployed')) {
+      return this.refused(target.version, `Cannot deploy a version in ${target.status}`, target.status);
+    }
+
+    const now = new Date().toISOString();
+    if (current) {
+      const { error } = await (supabase as any)
+        .from('ai_model_versions')
+        .update({ status: 'retired', retired_at: now })
+        .eq('version', current.version);
+      if (error) return this.refused(target.version, error.message, target.status);
+    }
+
+    const { error } = await (supabase as any)
+      .from('ai_model_versions')
+      .update({
+        status: 'deployed',
+        shadow: false,
+        deployed_at: now,
+        release_date: now,
+        // A rollback keeps the target's own history so it can be rolled back further
+        ...(action === 'deploy' ? { previous_version: current?.version ?? null } : {}),
+      })
+      .eq('version', target.version);
+
+    if (error) {
+      // Put the previous version back so production is never left empty
+      if (current) {
+        await (supabase as any)
+          .from('ai_model_versions')
+          .update({ status: 'deployed', retired_at: null })
+          .eq('version', current.version);
+      }
+      return this.refused(target.version, error.message, target.status);
+    }
+
+    await this.audit(adminId, action === 'deploy' ? 'ai_model_version.deployed' : 'ai_model_version.rolled_back', target, {
+      from: target.status,
+      to: 'deployed',
+      replaced: current?.version,
+      reason,
+    });
+    this.invalidate();
+    return { version: target.version, success: true, status: 'deployed', reasons: [] };
+  }
+
+  private async transition(
+    version: string,
+    to: ModelVersionStatus,
+    adminId: string,
+    details: Record<string, any> = {},
+    fields: Record<string, any> = {}
+  ): Promise<LifecycleResult> {
+    const row = await this.loadRow(version);
+    if (!row) return this.refused(version, `Model version ${version} not found`);
+    if (!this.canTransition(row.status, to)) {
+      return this.refused(version, `Cannot move a version from ${row.status} to ${to}`, row.status);
+    }
+
+    const { data, error } = await (supabase as any)
+      .from('ai_model_versions')
+      .update({ status: to, ...fields })
+      .eq('version', version)
+      .eq('status', row.status)
+      .select('version');
+
+    if (error) return this.refused(version, error.message, row.status);
+    if (!data || data.length === 0) {
+      return this.refused(version, 'Version was changed by someone else; reload and try again', row.status);
+    }
+
+    const logged = await this.audit(adminId, `ai_model_version.${to}`, row, { from: row.status, to, ...details });
+    if (!logged && to === 'approved') {
+      // Approval is only valid with its sign-off on record
+      await (supabase as any)
+        .from('ai_model_versions')
+        .update({ status: row.status, approved_by: null, approved_at: null })
+        .eq('version', version);
+      return this.refused(version, 'Sign-off could not be recorded in the audit log', row.status);
+    }
+
+    this.invalidate();
+    return { version, success: true, status: to, reasons: [] };
+  }
+
+  private async audit(adminId: string, action: string, row: any, details: Record<string, any>): Promise<boolean> {
+    try {
+      const { error } = await (supabase as any).from('audit_logs').insert({
+        user_id: adminId,
+        action,
+        resource_type: 'ai_model_version',
+        resource_id: row.id,
+        details: { version: row.version, ...details },
+      });
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.log('Audit log not available:', error);
+      return false;
+    }
+  }
+
+  private async loadRow(version: string): Promise<any | null> {
+    const { data } = await (supabase as any)
+      .from('ai_model_versions')
+      .select('*')
+      .eq('version', version)
+      .maybeSingle();
+    return data || null;
+  }
+
+  private async loadDeployedRow(): Promise<any | null> {
+    const { data } = await (supabase as any)
+      .from('ai_model_versions')
+      .select('*')
+      .eq('status', 'deployed')
+      .maybeSingle();
+    return data || null;
+  }
+
+  private refused(version: string, reason: string, status?: ModelVersionStatus): LifecycleResult {
+    return { version, success: false, status, reasons: [reason] };
+  }
+
+  // Deployments and rollbacks made elsewhere reach this app without waiting for the cache
+  private subscribe(): void {
+    if (this.subscribed) return;
+    this.subscribed = true;
+    try {
+      (supabase as any)
+        .channel('ai_model_versions')
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'ai_model_versions' },
+          () => this.invalidate()
+        )
+        .subscribe();
+    } catch (error) {
+      console.log('Model version updates not available:', error);
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    this.subscribe();
+    if (this.loadedAt && Date.now() - this.loadedAt < this.cacheTtlMs) return;
+
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ai_model_versions')
+        .select('version, components, status, shadow, release_date')
+        .or('status.eq.deployed,shadow.eq.true')
+        .order('release_date', { ascending: false });
+
+      if (error) throw error;
+      const rows: any[] = data || [];
+      const deployed = rows.find(row => row.status === 'deployed');
+      const shadow = rows.find(row => row.shadow && row.status !== 'deployed');
+
+      this.production = deployed ? await this.toResolved(deployed) : null;
+      this.shadow = shadow ? await this.toResolved(shadow) : null;
+
+      // A candidate whose pack cannot be loaded would only replay production
+      if (this.shadow?.components.knowledgeBaseVersion && !this.shadow.knowledgePack) {
+        console.log('Shadow model knowledge base not available:', this.shadow.components.knowledgeBaseVersion);
+        this.shadow = null;
+      }
+    } catch (error) {
+      console.log('Model versions not available, using default:', error);
+      this.production = null;
+      this.shadow = null;
+    }
+    this.loadedAt = Date.now();
+  }
+
+  private async toResolved(row: any): Promise<ResolvedModelVersion> {
+    const components: ModelComponents = row.components || {};
+    const knowledgePack = components.knowledgeBaseVersion
+      ? await knowledgeBase.getPackVersion(components.knowledgeBaseVersion) || undefined
+      : undefined;
+    return { version: row.version, components, knowledgePack };
+  }
+}
+
+// Export singleton instance
+export const modelVersionRegistry = new ModelVersionRegistry();
+export default modelVersionRegistry;
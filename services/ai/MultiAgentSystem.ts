@@ -5,17 +5,40 @@
  * - Triage Agent → urgency detection
  * - Obstetric Agent → pregnancy reasoning
  * - Education Agent → patient explanations
+ * - Nutrition Agent → food safety and intake from the mother's meal logs
  * - Safety Agent → harmful advice filter
- * - Emergency Agent → crisis detection
+ * - Medication Safety Agent → pregnancy and lactation drug safety
+ * - Emergency Agent → obstetric emergency detection
+ * - Mental Health Agent → perinatal depression, anxiety and crisis screening
  * - Learning Agent → dataset expansion
  * 
  * Orchestrator controls agent collaboration using:
+ * - An agent registry, configured through system_settings
  * - Priority routing
+ * - Per-agent time budgets with fallbacks, so a slow agent never delays an
+ *   emergency response
+ * - A mental health crisis path, separate from the obstetric emergency flow
  * - Consensus voting
- * - Conflict resolution logic
+ * - Structured conflict detection on urgency, risk level and care
+ *   recommendations, resolved toward the most cautious assessment and
+ *   recorded for learning
+ * - Language model rephrasing of the selected response, behind safety review
+ * - A stored trace of every run, replayable against candidate agent settings
  */
 
+import { supabase } from '@/lib/supabase';
 import { RiskLevel } from '@/types/database.types';
+import { nutritionGuidanceService, FoodSafety, NutrientIntake, NutrientRecommendation } from '@/services/nutritionGuidanceService';
+import { languageModelService, ModelInfo, TEMPLATE_MODEL } from './LanguageModelProvider';
+import { DEFAULT_LANGUAGE } from './lexicons';
+import { modelVersionRegistry, ResolvedModelVersion } from './ModelVersionRegistry';
+import { clinicalContextAnalyzer } from './ClinicalContextAnalyzer';
+import { clinicalDialogueManager } from './ClinicalDialogueManager';
+import { drugSafetyDatabase, DrugSafetyAssessment, DRUG_RISK_LABELS, trimesterForWeek } from './DrugSafetyDatabase';
+import { mentalHealthScreening, MentalHealthCrisis } from './MentalHealthScreening';
+import { agentRegistry, Agent, AgentTrigger, AgentOutputContract, AgentSettings, RegisteredAgent, matchesTriggers } from './AgentRegistry';
+import { orchestratorTraceStore, AgentTraceEntry, OrchestratorPath, OrchestratorTrace, TraceComparison } from './OrchestratorTraceStore';
+import { learningSystem } from './LearningSystem';
 
 // Types
 export interface AgentInput {
@@ -32,6 +55,8 @@ export interface AgentContext {
   symptoms?: string[];
   vitalSigns?: Record<string, number>;
   riskFactors?: string[];
+  /** ISO 3166 country code, for local crisis lines */
+  region?: string;
 }
 
 export interface AgentOutput {
@@ -44,6 +69,43 @@ export interface AgentOutput {
   requiresHumanReview?: boolean;
   escalate?: boolean;
   escalationReason?: string;
+  /** What the agent concluded, compared across agents to find conflicts */
+  assessment?: AgentAssessment;
+}
+
+/** Care an agent advises, least to most cautious */
+export type CareRecommendation = 'reassure' | 'self_care' | 'contact_provider' | 'urgent_care' | 'emergency_care';
+
+export interface AgentAssessment {
+  urgency?: TriageUrgency;
+  riskLevel?: RiskLevel;
+  recommendation?: CareRecommendation;
+}
+
+export type ConflictDimension = 'urgency' | 'risk_level' | 'recommendation';
+
+export interface ConflictPosition {
+  /** 'risk_record' for the risk level on the mother's record */
+  agentId: string;
+  agent: string;
+  value: string;
+}
+
+export interface AgentConflict {
+  dimension: ConflictDimension;
+  /** The more cautious assessment, which prevails */
+  cautious: ConflictPosition;
+  lenient: ConflictPosition;
+  /** Steps between the two assessments on the dimension's scale */
+  gap: number;
+  description: string;
+}
+
+export interface OrchestratorOptions {
+  /** Store the trace and agent conflicts (default true); evaluation runs pass false */
+  persist?: boolean;
+  /** Run with this model version instead of production, e.g. a release candidate */
+  modelVersion?: ResolvedModelVersion;
 }
 
 export interface OrchestratorResult {
@@ -57,8 +119,18 @@ export interface OrchestratorResult {
   escalationDetails?: string;
   learningOpportunity?: LearningOpportunity;
   reasoning: OrchestratorReasoning;
+  /** Urgency assessed by the Triage Agent */
+  triageUrgency?: TriageUrgency;
+  /** Provider and model that produced the final response */
+  generatedBy: ModelInfo;
+  /** Set when the Mental Health Agent found a crisis; escalated apart from obstetric emergencies */
+  mentalHealthCrisis?: MentalHealthCrisis;
+  /** Id of the stored trace of this run */
+  traceId?: string;
 }
 
+export type TriageUrgency = 'routine' | 'moderate' | 'urgent' | 'emergency';
+
 export interface LearningOpportunity {
   type: 'new_symptom_pattern' | 'unusual_case' | 'feedback_needed' | 'knowledge_gap';
   description: string;
@@ -70,17 +142,54 @@ export interface OrchestratorReasoning {
   routingDecision: string;
   agentResponses: { agent: string; confidence: number; selected: boolean }[];
   conflictResolution?: string;
+  conflicts?: AgentConflict[];
   safetyFilterResult: string;
+  /** Agents that failed, ran out of time or broke their output contract */
+  agentFailures?: AgentFailure[];
+}
+
+export interface AgentFailure {
+  agentId: string;
+  agent: string;
+  reason: 'timeout' | 'error' | 'contract_violation';
+  detail: string;
+  fallbackUsed: boolean;
 }
 
+// Assessment scales, least to most cautious
+const URGENCY_SCALE: TriageUrgency[] = ['routine', 'moderate', 'urgent', 'emergency'];
+const RISK_SCALE: RiskLevel[] = ['level_1', 'level_2', 'level_3', 'level_4'];
+const RECOMMENDATION_SCALE: CareRecommendation[] = ['reassure', 'self_care', 'contact_provider', 'urgent_care', 'emergency_care'];
+
+// Care each triage urgency and recorded risk level calls for
+const URGENCY_RECOMMENDATIONS: Record<TriageUrgency, CareRecommendation> = {
+  routine: 'self_care',
+  moderate: 'contact_provider',
+  urgent: 'urgent_care',
+  emergency: 'emergency_care',
+};
+const RISK_RECOMMENDATIONS: Record<RiskLevel, CareRecommendation> = {
+  level_1: 'reassure',
+  level_2: 'self_care',
+  level_3: 'contact_provider',
+  level_4: 'urgent_care',
+};
+
 // Base Agent Interface
-abstract class BaseAgent {
+abstract class BaseAgent implements Agent {
   abstract id: string;
   abstract name: string;
   abstract description: string;
   abstract priority: number;
-  
-  abstract shouldActivate(input: AgentInput): boolean;
+  abstract triggers: AgentTrigger[];
+  abstract outputContract: AgentOutputContract;
+  timeoutMs = 2000;
+  required = false;
+
+  shouldActivate(input: AgentInput): boolean {
+    return matchesTriggers(this.triggers, input);
+  }
+
   abstract process(input: AgentInput): Promise<AgentOutput>;
   
   protected createOutput(
@@ -105,6 +214,11 @@ class TriageAgent extends BaseAgent {
   name = 'Triage Agent';
   description = 'Assesses urgency of patient concerns and prioritizes responses';
   priority = 100; // Highest priority
+  // Always runs for triage assessment
+  triggers: AgentTrigger[] = [{ type: 'always' }];
+  outputContract: AgentOutputContract = { role: 'content', metadata: ['urgencyLevel'], mayEscalate: true };
+  timeoutMs = 1000;
+  required = true;
 
   private urgentKeywords = [
     'emergency', 'urgent', 'severe', 'intense', 'unbearable',
@@ -117,19 +231,37 @@ class TriageAgent extends BaseAgent {
     'fever', 'pain', 'swelling', 'headache', 'nausea'
   ];
 
-  shouldActivate(input: AgentInput): boolean {
-    // Always activate for triage assessment
-    return true;
-  }
+  // Words that describe how bad or worrying something is, not what it is
+  private qualifierKeywords = [
+    'emergency', 'urgent', 'severe', 'intense', 'unbearable',
+    'worried', 'concerned', 'persistent', 'worsening', 'increasing',
+  ];
+
+  // Symptom combinations named when the triage advice leads a reply; each
+  // group needs one affirmed term
+  private warningSigns: { concern: string; groups: string[][] }[] = [
+    {
+      concern: 'A headache with changes in your vision can be a warning sign of preeclampsia.',
+      groups: [['headache'], ['blurry vision', 'blurred vision', 'vision', 'seeing spots', 'flashing lights']],
+    },
+    {
+      concern: 'Swelling of the face or hands can be a warning sign of preeclampsia.',
+      groups: [['swelling', 'swollen'], ['face', 'hands', 'fingers']],
+    },
+    {
+      concern: 'A fever in pregnancy can be a sign of infection.',
+      groups: [['fever']],
+    },
+  ];
 
   async process(input: AgentInput): Promise<AgentOutput> {
     const messageLower = input.message.toLowerCase();
     
-    // Check for urgent keywords
-    const urgentMatches = this.urgentKeywords.filter(k => messageLower.includes(k));
+    // Check for urgent keywords; "no bleeding" or "my sister had a seizure" is not urgent for her
+    const urgentMatches = this.urgentKeywords.filter(k => messageLower.includes(k) && this.isAffirmed(input.message, k));
     const moderateMatches = this.moderateKeywords.filter(k => messageLower.includes(k));
     
-    let urgencyLevel: 'routine' | 'moderate' | 'urgent' | 'emergency' = 'routine';
+    let urgencyLevel: TriageUrgency = 'routine';
     let confidence = 0.7;
     
     if (urgentMatches.length >= 2) {
@@ -165,6 +297,7 @@ class TriageAgent extends BaseAgent {
         urgencyLevel,
         urgentKeywordsFound: urgentMatches,
         moderateKeywordsFound: moderateMatches,
+        concern: this.describeConcern(input.message, [...urgentMatches, ...moderateMatches]),
       }
     );
 
@@ -173,10 +306,40 @@ class TriageAgent extends BaseAgent {
       output.escalationReason = `Triage level: ${urgencyLevel}. Keywords: ${[...urgentMatches, ...moderateMatches].join(', ')}`;
     }
 
+    // Context alone raises urgency for sensitivity; only what the message
+    // describes is advice
+    output.assessment = {
+      urgency: urgencyLevel,
+      recommendation: urgentMatches.length + moderateMatches.length > 0 ? URGENCY_RECOMMENDATIONS[urgencyLevel] : undefined,
+    };
+
     return output;
   }
 
-  private increaseUrgency(current: string): 'routine' | 'moderate' | 'urgent' | 'emergency' {
+  /**
+   * What the triage agent is concerned about, in words the mother can act on
+   */
+  private describeConcern(message: string, keywords: string[]): string | undefined {
+    const mentioned = (term: string) =>
+      clinicalContextAnalyzer.analyzeTerm(message, term).some(m => clinicalContextAnalyzer.isActionable(m.context));
+    const sign = this.warningSigns.find(s => s.groups.every(group => group.some(mentioned)));
+    if (sign) return sign.concern;
+
+    const symptoms = keywords.filter(k => !this.qualifierKeywords.includes(k) && mentioned(k));
+    if (symptoms.length === 0) return undefined;
+    const list = symptoms.length === 1
+      ? symptoms[0]
+      : `${symptoms.slice(0, -1).join(', ')} and ${symptoms[symptoms.length - 1]}`;
+    return `You mentioned ${list}.`;
+  }
+
+  // Keywords found only inside a longer word ("bleedings") are kept
+  private isAffirmed(message: string, keyword: string): boolean {
+    const mentions = clinicalContextAnalyzer.analyzeTerm(message, keyword);
+    return mentions.length === 0 || mentions.some(m => clinicalContextAnalyzer.isActionable(m.context));
+  }
+
+  private increaseUrgency(current: string): TriageUrgency {
     const order = ['routine', 'moderate', 'urgent', 'emergency'];
     const idx = order.indexOf(current);
     return order[Math.min(idx + 1, 3)] as any;
@@ -209,11 +372,11 @@ class ObstetricAgent extends BaseAgent {
     'prenatal', 'ultrasound', 'kick', 'movement', 'growth'
   ];
 
-  shouldActivate(input: AgentInput): boolean {
-    const messageLower = input.message.toLowerCase();
-    return this.pregnancyTopics.some(t => messageLower.includes(t)) ||
-           input.context.pregnancyWeek !== undefined;
-  }
+  triggers: AgentTrigger[] = [
+    { type: 'keywords', keywords: this.pregnancyTopics },
+    { type: 'context', field: 'pregnancyWeek' },
+  ];
+  outputContract: AgentOutputContract = { role: 'content', metadata: ['isPregnancyRelated'], mayEscalate: false };
 
   async process(input: AgentInput): Promise<AgentOutput> {
     const week = input.context.pregnancyWeek;
@@ -234,11 +397,15 @@ class ObstetricAgent extends BaseAgent {
       confidence = 0.7;
     }
 
-    return this.createOutput(response, confidence, {
+    const output = this.createOutput(response, confidence, {
       pregnancyWeek: week,
       trimester,
       isPregnancyRelated: true,
     });
+    if (week) {
+      output.assessment = { urgency: 'routine', recommendation: 'self_care' };
+    }
+    return output;
   }
 
   private getTrimester(week: number): string {
@@ -295,10 +462,16 @@ class EducationAgent extends BaseAgent {
     'why do', 'should i', 'can i', 'is it normal', 'learn'
   ];
 
-  shouldActivate(input: AgentInput): boolean {
-    const messageLower = input.message.toLowerCase();
-    return this.educationTriggers.some(t => messageLower.includes(t));
-  }
+  // Care the patient explanation of each topic implies
+  private topicRecommendations: Record<string, CareRecommendation> = {
+    morning_sickness: 'reassure',
+    fetal_movement: 'reassure',
+    exercise: 'self_care',
+    nutrition: 'self_care',
+  };
+
+  triggers: AgentTrigger[] = [{ type: 'keywords', keywords: this.educationTriggers }];
+  outputContract: AgentOutputContract = { role: 'content', metadata: ['topic'], mayEscalate: false };
 
   async process(input: AgentInput): Promise<AgentOutput> {
     const isPatient = input.userRole === 'mother';
@@ -315,11 +488,22 @@ class EducationAgent extends BaseAgent {
       response = this.generateClinicalExplanation(topic, input.message);
     }
 
-    return this.createOutput(response, 0.75, {
+    const output = this.createOutput(response, 0.75, {
       topic,
       languageLevel: isPatient ? 'patient' : 'clinical',
       educationType: 'general_information',
     });
+
+    // Explanations that tell the mother what she describes is normal
+    const recommendation = isPatient ? this.topicRecommendations[topic] : undefined;
+    if (recommendation) {
+      output.assessment = {
+        urgency: 'routine',
+        riskLevel: recommendation === 'reassure' ? 'level_1' : undefined,
+        recommendation,
+      };
+    }
+    return output;
   }
 
   private detectTopic(message: string): string {
@@ -452,12 +636,168 @@ What would you like to know more about?`,
   }
 }
 
+// Nutrition Agent - Diet and Food Safety
+class NutritionAgent extends BaseAgent {
+  id = 'nutrition_agent';
+  name = 'Nutrition Agent';
+  description = 'Answers diet and food safety questions from the nutrition guide and the mother\'s logged meals';
+  priority = 88;
+
+  private dietPattern = /\b(eat|eating|ate|food|foods|diet|nutrition|nutrients?|meals?|snacks?)\b/i;
+  // "Am I getting enough iron?" is about the diet, not an iron supplement
+  private intakePattern = /\b(enough|intake|how much|getting)\b/i;
+
+  triggers: AgentTrigger[] = [
+    { type: 'patterns', patterns: [this.dietPattern, ...nutritionGuidanceService.getMentionPatterns()] },
+  ];
+  outputContract: AgentOutputContract = { role: 'content', metadata: ['nutritionTopic'], mayEscalate: false };
+
+  private statusLabels: Record<FoodSafety['status'], string> = {
+    safe: '✅ Generally safe in pregnancy',
+    caution: '⚠️ OK in moderation',
+    avoid: '🚫 Best avoided in pregnancy',
+  };
+
+  async process(input: AgentInput): Promise<AgentOutput> {
+    const foods = nutritionGuidanceService.findFoodsInText(input.message);
+    const nutrients = nutritionGuidanceService.findNutrientsInText(input.message);
+    const week = input.context.pregnancyWeek;
+    const trimester = week !== undefined ? trimesterForWeek(week) : undefined;
+    // Only a mother's own meal logs are read
+    const isPatient = input.userRole === 'mother';
+
+    const sections = foods.map(food => this.describeFood(food));
+
+    let intake: NutrientIntake[] | undefined;
+    if (nutrients.length > 0) {
+      intake = isPatient ? await this.loadIntake(input.userId, nutrients) : undefined;
+      sections.push(...nutrients.map(n => this.describeNutrient(n, trimester, intake?.find(i => i.nutrient === n))));
+    }
+
+    if (sections.length === 0) {
+      sections.push(this.describeDiet(trimester));
+      if (isPatient) {
+        const summary = await this.loadSummary(input.userId);
+        if (summary) sections.push(summary);
+      }
+    }
+
+    if (trimester === undefined && foods.length === 0) {
+      sections.push('Tell me how many weeks pregnant you are for advice specific to your stage.');
+    }
+
+    const topic = foods.length > 0 ? 'food_safety' : nutrients.length > 0 ? 'nutrient_intake' : 'general_diet';
+    const asksAboutIntake = nutrients.length > 0 && this.intakePattern.test(input.message);
+    const output = this.createOutput(sections.join('\n\n'), asksAboutIntake ? 0.95 : 0.9, {
+      nutritionTopic: topic,
+      foods: foods.map(f => f.food),
+      nutrients: nutrients.map(n => n.nutrient),
+      trimester,
+      intakeChecked: intake !== undefined,
+    });
+    output.assessment = { urgency: 'routine', recommendation: 'self_care' };
+    return output;
+  }
+
+  private describeFood(food: FoodSafety): string {
+    const lines = [`${food.food}: ${this.statusLabels[food.status]}.`, /[.!]$/.test(food.reason) ? food.reason : `${food.reason}.`];
+    if (food.alternatives && food.alternatives.length > 0) {
+      lines.push(`Try instead: ${food.alternatives.join(', ')}.`);
+    }
+    return lines.join('\n');
+  }
+
+  private describeNutrient(nutrient: NutrientRecommendation, trimester?: 1 | 2 | 3, intake?: NutrientIntake): string {
+    const trimesterNames = ['first', 'second', 'third'];
+    const amount = (trimester && nutrient.trimesterVariation?.[trimester]) || `${nutrient.dailyAmount} ${nutrient.unit}`;
+    const lines = [
+      `${nutrient.nutrient}: aim for ${amount} a day${trimester ? ` in your ${trimesterNames[trimester - 1]} trimester` : ''}. ${nutrient.importance}.`,
+      `Good sources: ${nutrient.sources.join(', ')}.`,
+    ];
+
+    if (intake && intake.daysLogged === 0) {
+      lines.push('You haven\'t logged any meals this week. Log your meals in the Nutrition tab and I can check how often you eat these foods.');
+    } else if (intake) {
+      const foods = intake.matchedFoods.length > 0 ? ` (${intake.matchedFoods.slice(0, 4).join(', ')})` : '';
+      lines.push(`This week you logged a source of ${nutrient.nutrient.toLowerCase()} on ${intake.daysWithSource} of ${intake.daysLogged} days${foods}. ` +
+        (intake.daysWithSource * 2 < intake.daysLogged
+          ? 'Try to include one of the sources above most days.'
+          : 'Keep it up.') +
+        ' This is based on the foods you logged, not measured amounts.');
+    }
+
+    if (nutrient.nutrient === 'Iron') {
+      lines.push('If you often feel very tired, dizzy or short of breath, ask your provider about a blood test for anemia.');
+    }
+    return lines.join('\n');
+  }
+
+  private describeDiet(trimester?: 1 | 2 | 3): string {
+    if (!trimester) {
+      const avoid = nutritionGuidanceService.getFoodsToAvoid().map(f => f.food.toLowerCase());
+      return `Eating well in pregnancy:
+• Eat a variety of fruits, vegetables, whole grains and protein
+• Include iron, calcium and folic acid sources every day
+• Avoid ${avoid.slice(0, 5).join(', ')}`;
+    }
+
+    const suggestions = nutritionGuidanceService.getMealSuggestions(trimester);
+    const trimesterNames = ['first', 'second', 'third'];
+    return `Eating well in your ${trimesterNames[trimester - 1]} trimester:
+${suggestions.tips.map(tip => `• ${tip}`).join('\n')}
+
+Meal ideas: ${suggestions.breakfastIdeas[0]} for breakfast, ${suggestions.lunchIdeas[0]} for lunch, ${suggestions.dinnerIdeas[0]} for dinner, and ${suggestions.snackIdeas[0].toLowerCase()} as a snack.`;
+  }
+
+  private async loadIntake(userId: string, nutrients: NutrientRecommendation[]): Promise<NutrientIntake[] | undefined> {
+    try {
+      const motherId = await this.loadMotherProfileId(userId);
+      return motherId ? await nutritionGuidanceService.getWeeklyNutrientIntake(motherId, nutrients) : undefined;
+    } catch (error) {
+      console.log('Nutrition logs not available:', error);
+      return undefined;
+    }
+  }
+
+  private async loadSummary(userId: string): Promise<string | undefined> {
+    try {
+      const motherId = await this.loadMotherProfileId(userId);
+      if (!motherId) return undefined;
+      const summary = await nutritionGuidanceService.getWeeklySummary(motherId);
+      return summary.totalMeals === 0
+        ? 'You haven\'t logged any meals this week. Logging meals in the Nutrition tab lets me give you advice based on what you eat.'
+        : `This week you logged ${summary.totalMeals} meals on ${summary.daysLogged} days.`;
+    } catch (error) {
+      console.log('Nutrition logs not available:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Nutrition logs are kept under the mother's profile id, not her user id
+   */
+  private async loadMotherProfileId(userId: string): Promise<string | undefined> {
+    const { data: profile, error } = await (supabase as any)
+      .from('mother_profiles')
+      .select('id')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return profile?.id;
+  }
+}
+
 // Safety Agent - Harmful Advice Filter
 class SafetyAgent extends BaseAgent {
   id = 'safety_agent';
   name = 'Safety Agent';
   description = 'Filters potentially harmful advice and ensures medical safety';
   priority = 95; // Very high priority
+  // Always runs to review all responses
+  triggers: AgentTrigger[] = [{ type: 'always' }];
+  outputContract: AgentOutputContract = { role: 'meta', metadata: ['safetyLevel'], mayEscalate: false };
+  timeoutMs = 1000;
+  required = true;
 
   private unsafeTopics = [
     'abortion', 'terminate', 'end pregnancy', 'induce labor at home',
@@ -470,11 +810,6 @@ class SafetyAgent extends BaseAgent {
     'definitely', 'certainly', 'guarantee', 'cure', 'will fix'
   ];
 
-  shouldActivate(input: AgentInput): boolean {
-    // Always activate to review all responses
-    return true;
-  }
-
   async process(input: AgentInput): Promise<AgentOutput> {
     const messageLower = input.message.toLowerCase();
     
@@ -559,6 +894,136 @@ class SafetyAgent extends BaseAgent {
   }
 }
 
+// Medication Safety Agent - Pregnancy Drug Safety
+class MedicationSafetyAgent extends BaseAgent {
+  id = 'medication_safety_agent';
+  name = 'Medication Safety Agent';
+  description = 'Answers medication questions with trimester-specific pregnancy and lactation safety guidance';
+  priority = 92; // Above general pregnancy guidance for medication questions
+
+  private medicationKeywords = [
+    'medication', 'medicine', 'pill', 'tablet', 'drug', 'painkiller',
+    'pain killer', 'antibiotic', 'supplement', 'prescription'
+  ];
+
+  triggers: AgentTrigger[] = [
+    { type: 'keywords', keywords: this.medicationKeywords },
+    { type: 'patterns', patterns: drugSafetyDatabase.getNamePatterns() },
+  ];
+  outputContract: AgentOutputContract = { role: 'content', metadata: ['medications'], mayEscalate: false };
+
+  // Representative week when only a trimester is named; the last week of
+  // the trimester, so week-specific restrictions are not missed
+  private trimesterWeeks: Record<string, number> = {
+    first: 12, '1st': 12, second: 27, '2nd': 27, third: 40, '3rd': 40,
+  };
+
+  async process(input: AgentInput): Promise<AgentOutput> {
+    const drugs = drugSafetyDatabase.findInText(input.message);
+    const { week, trimesterOnly } = this.pregnancyWeek(input);
+    const messageLower = input.message.toLowerCase();
+    const breastfeeding = /breast ?feed|breast-feed|nursing|lactat/.test(messageLower);
+
+    if (drugs.length === 0) {
+      return this.createOutput(
+        'I don\'t have pregnancy safety information for that medicine. Please check with your pharmacist or healthcare provider before taking it, and bring the packet or the exact name with you.',
+        0.6,
+        { medications: [], pregnancyWeek: week, unknownMedication: true }
+      );
+    }
+
+    const assessments = drugs.map(drug => drugSafetyDatabase.assess(drug, {
+      pregnancyWeek: week,
+      breastfeeding,
+      conditions: input.context.riskFactors,
+      otherMedications: drugs.filter(d => d.id !== drug.id).map(d => d.name),
+    }));
+
+    const response = [
+      ...assessments.map(a => this.describe(a, trimesterOnly)),
+      'Always check with your doctor, midwife or pharmacist before starting or stopping a medicine.',
+    ].join('\n\n');
+
+    const output = this.createOutput(response, week !== undefined ? 0.9 : 0.8, {
+      medications: assessments.map(a => ({
+        id: a.drug.id,
+        name: a.drug.name,
+        risk: a.risk,
+        overallRisk: a.overallRisk,
+        contraindications: a.contraindications.map(c => c.condition),
+        interactions: a.interactions.map(i => i.medication),
+      })),
+      pregnancyWeek: week,
+      trimester: week !== undefined ? trimesterForWeek(week) : undefined,
+      breastfeeding,
+      datasetVersion: drugSafetyDatabase.getVersion(),
+    });
+
+    // Already taking something that should not be used: a clinician should know
+    const alreadyTaking = /\b(i'm taking|i am taking|i took|i've taken|i have taken|been taking)\b/.test(messageLower);
+    if (alreadyTaking && assessments.some(a => drugSafetyDatabase.needsReview(a.overallRisk))) {
+      output.requiresHumanReview = true;
+    }
+
+    output.assessment = {
+      recommendation: assessments.some(a => drugSafetyDatabase.needsReview(a.overallRisk)) ? 'contact_provider' : 'self_care',
+    };
+    return output;
+  }
+
+  // Phrases that tie a week to the pregnancy; "for 3 weeks" or "3 weeks ago" is
+  // how long she has taken something, not how far along she is
+  private pregnancyWeekPatterns = [
+    /\b(\d{1,2})\s*(?:weeks?|wks?)\s+(?:pregnant|along|gestation)\b/i,
+    /\b(?:at|i'm|i am|im|now)\s+(\d{1,2})\s*(?:weeks?|wks?)\b/i,
+    /\bweek\s+(\d{1,2})\s+of\s+(?:my\s+|the\s+)?pregnancy\b/i,
+  ];
+
+  /**
+   * Week from the message ("at 30 weeks", "third trimester"), else the context
+   */
+  private pregnancyWeek(input: AgentInput): { week?: number; trimesterOnly: boolean } {
+    for (const pattern of this.pregnancyWeekPatterns) {
+      const weekMatch = input.message.match(pattern);
+      if (weekMatch && Number(weekMatch[1]) >= 1 && Number(weekMatch[1]) <= 42) {
+        return { week: Number(weekMatch[1]), trimesterOnly: false };
+      }
+    }
+    const trimesterMatch = input.message.match(/\b(first|1st|second|2nd|third|3rd) trimester\b/i);
+    if (trimesterMatch) {
+      return { week: this.trimesterWeeks[trimesterMatch[1].toLowerCase()], trimesterOnly: true };
+    }
+    return { week: input.context.pregnancyWeek, trimesterOnly: false };
+  }
+
+  private describe(a: DrugSafetyAssessment, trimesterOnly: boolean): string {
+    const trimesterNames = ['first', 'second', 'third'];
+    const when = a.pregnancyWeek === undefined
+      ? 'in pregnancy'
+      : trimesterOnly
+        ? `in the ${trimesterNames[a.trimester! - 1]} trimester`
+        : `at ${a.pregnancyWeek} weeks (${trimesterNames[a.trimester! - 1]} trimester)`;
+
+    const lines = [`${a.drug.name} ${when}: ${DRUG_RISK_LABELS[a.overallRisk]}.`, a.guidance];
+    if (a.pregnancyWeek === undefined) {
+      lines.push('Tell me how many weeks pregnant you are for advice specific to your stage.');
+    }
+    for (const c of a.contraindications) {
+      lines.push(`Because of ${c.condition}: ${c.note}`);
+    }
+    for (const i of a.interactions) {
+      lines.push(`With ${i.medication}: ${i.note}`);
+    }
+    if (a.lactation) {
+      lines.push(`While breastfeeding: ${DRUG_RISK_LABELS[a.lactation.risk]}. ${a.lactation.note}`);
+    }
+    if (a.risk !== 'safe' && a.alternatives.length > 0) {
+      lines.push(`Safer options to ask about: ${a.alternatives.join(', ')}.`);
+    }
+    return lines.join('\n');
+  }
+}
+
 // Emergency Agent - Crisis Detection
 class EmergencyAgent extends BaseAgent {
   id = 'emergency_agent';
@@ -571,26 +1036,65 @@ class EmergencyAgent extends BaseAgent {
     { pattern: /seizure|convulsion|fitting/i, severity: 'critical', action: 'call_emergency' },
     { pattern: /unconscious|passed out|fainted and not waking/i, severity: 'critical', action: 'call_emergency' },
     { pattern: /can't breathe|difficulty breathing|shortness of breath/i, severity: 'critical', action: 'call_emergency' },
-    { pattern: /no (fetal|baby) movement|baby (not|hasn't) moved/i, severity: 'high', action: 'urgent_care' },
+    { pattern: /no (fetal|baby) movement|baby (?:is not|isn't|has not|hasn't|not) mov(?:ed|ing)/i, severity: 'high', action: 'urgent_care' },
     { pattern: /water broke|waters breaking|leaking fluid/i, severity: 'high', action: 'go_hospital' },
-    { pattern: /regular contractions|labor pains/i, severity: 'high', action: 'go_hospital' },
+    { pattern: /regular contractions|contractions (?:every|each) \d+|labor pains/i, severity: 'high', action: 'go_hospital' },
     { pattern: /severe headache|worst headache/i, severity: 'high', action: 'urgent_care' },
     { pattern: /chest pain|heart attack/i, severity: 'critical', action: 'call_emergency' },
-    { pattern: /suicidal|want to die|harm myself/i, severity: 'critical', action: 'crisis_line' },
   ];
 
-  shouldActivate(input: AgentInput): boolean {
+  // Any reading activates the agent; only a severe one is an emergency
+  private severeBloodPressure = { pattern: /\d{2,3}\s*\/\s*\d{2,3}/, severity: 'critical', action: 'call_emergency' };
+
+  triggers: AgentTrigger[] = [{
+    type: 'patterns',
+    patterns: [...this.emergencyPatterns.map(ep => ep.pattern), this.severeBloodPressure.pattern],
+  }];
+  outputContract: AgentOutputContract = { role: 'content', metadata: ['emergencyDetected'], mayEscalate: true };
+  timeoutMs = 1000;
+  required = true;
+
+  /**
+   * The agent only runs when an emergency pattern or a blood pressure reading
+   * matched, so a failed assessment still escalates with the advice for the
+   * matched pattern, or for a severe reading
+   */
+  fallback(input: AgentInput, reason: string): AgentOutput | undefined {
     const messageLower = input.message.toLowerCase();
-    return this.emergencyPatterns.some(ep => ep.pattern.test(messageLower));
+    const reading = clinicalDialogueManager.findBloodPressure(input.message);
+    const emergency = this.emergencyPatterns.find(ep => ep.severity === 'critical' && ep.pattern.test(messageLower)) ||
+      this.emergencyPatterns.find(ep => ep.pattern.test(messageLower)) ||
+      (reading && clinicalDialogueManager.isSevereBloodPressure(reading) ? this.severeBloodPressure : undefined);
+    if (!emergency) return undefined;
+
+    const output = this.createOutput(this.generateEmergencyResponse(emergency), 0.8, {
+      emergencyDetected: true,
+      severity: emergency.severity,
+      action: emergency.action,
+      fallbackReason: reason,
+    });
+    output.escalate = true;
+    output.escalationReason = `Emergency patterns detected (${reason}): ${emergency.severity} - ${emergency.action}`;
+    output.assessment = this.assess(emergency);
+    return output;
   }
 
   async process(input: AgentInput): Promise<AgentOutput> {
-    const matchedEmergencies = this.emergencyPatterns.filter(ep => 
-      ep.pattern.test(input.message.toLowerCase())
+    // Only the mother's own, current emergencies count; the fallback above
+    // stays unconditional
+    const matchedEmergencies = this.emergencyPatterns.filter(ep =>
+      Array.from(input.message.matchAll(new RegExp(ep.pattern.source, 'gi')))
+        .some(match => this.isAffirmed(input.message, match.index!, match.index! + match[0].length))
     );
+    const reading = clinicalDialogueManager.findBloodPressure(input.message);
+    if (reading && clinicalDialogueManager.isSevereBloodPressure(reading) &&
+        this.isAffirmed(input.message, reading.start, reading.end)) {
+      matchedEmergencies.push(this.severeBloodPressure);
+    }
     
+    // Matches that were negated or not hers; low confidence keeps this out of the reply
     if (matchedEmergencies.length === 0) {
-      return this.createOutput('No emergency detected.', 0.9, { emergencyDetected: false });
+      return this.createOutput('No emergency detected.', 0.1, { emergencyDetected: false });
     }
     
     // Get the most severe emergency
@@ -608,10 +1112,23 @@ class EmergencyAgent extends BaseAgent {
     
     output.escalate = true;
     output.escalationReason = `Emergency detected: ${emergency.severity} - ${emergency.action}`;
+    output.assessment = this.assess(emergency);
     
     return output;
   }
 
+  private isAffirmed(message: string, start: number, end: number): boolean {
+    return clinicalContextAnalyzer.isActionable(clinicalContextAnalyzer.analyze(message, start, end));
+  }
+
+  private assess(emergency: { severity: string; action: string }): AgentAssessment {
+    return {
+      urgency: emergency.severity === 'critical' ? 'emergency' : 'urgent',
+      riskLevel: emergency.severity === 'critical' ? 'level_4' : 'level_3',
+      recommendation: emergency.action === 'call_emergency' ? 'emergency_care' : 'urgent_care',
+    };
+  }
+
   private generateEmergencyResponse(emergency: { severity: string; action: string }): string {
     const responses: Record<string, string> = {
       call_emergency: `🚨 EMERGENCY ALERT 🚨
@@ -661,22 +1178,78 @@ While waiting:
 • Note when symptoms started
 
 This needs prompt attention but may not require emergency services.`,
+    };
 
-      crisis_line: `💚 You're Not Alone
+    return responses[emergency.action] || responses.call_emergency;
+  }
+}
 
-I hear that you're going through something very difficult. Your feelings matter, and help is available.
+// Mental Health Agent - Perinatal Mental Health Screening
+class MentalHealthAgent extends BaseAgent {
+  id = 'mental_health_agent';
+  name = 'Mental Health Agent';
+  description = 'Recognizes perinatal depression, anxiety, self-harm and harm-to-baby ideation and escalates crises';
+  priority = 95;
 
-Please reach out NOW:
-• National Suicide Prevention Lifeline: 988
-• Crisis Text Line: Text HOME to 741741
-• International Association for Suicide Prevention: https://www.iasp.info/resources/Crisis_Centres/
+  triggers: AgentTrigger[] = [{ type: 'patterns', patterns: mentalHealthScreening.getPatterns() }];
+  outputContract: AgentOutputContract = { role: 'content', metadata: ['mentalHealthLevel', 'concerns'], mayEscalate: true };
+  timeoutMs = 1000;
+  required = true;
 
-You deserve support. A trained counselor can help you through this moment.
+  /**
+   * Screening needs no external calls, so a failed run repeats it and still
+   * surfaces crisis lines
+   */
+  fallback(input: AgentInput, reason: string): AgentOutput | undefined {
+    const output = this.assess(input);
+    if (!output.escalate) return undefined;
+    output.metadata.fallbackReason = reason;
+    return output;
+  }
 
-If you're in immediate danger, please call 911.`,
-    };
+  async process(input: AgentInput): Promise<AgentOutput> {
+    return this.assess(input);
+  }
 
-    return responses[emergency.action] || responses.call_emergency;
+  private assess(input: AgentInput): AgentOutput {
+    const screening = mentalHealthScreening.screen(input.message);
+    if (screening.level === 'none') {
+      return this.createOutput('No mental health concerns detected.', 0.3, { mentalHealthLevel: 'none', concerns: [] });
+    }
+
+    const labels = screening.concerns.map(c => mentalHealthScreening.getConcernLabel(c));
+    if (input.userRole !== 'mother') {
+      const output = this.createOutput(
+        `Message contains ${labels.join(', ')}. Consider a structured assessment (EPDS, GAD-7)` +
+          (screening.crisisType ? ' and an immediate safety assessment.' : '.'),
+        0.8,
+        { mentalHealthLevel: screening.level, concerns: screening.concerns }
+      );
+      output.requiresHumanReview = true;
+      return output;
+    }
+
+    const crisisLines = mentalHealthScreening.getCrisisLines(input.context.region);
+    const crisis = mentalHealthScreening.toCrisis(screening, crisisLines);
+    if (!crisis) {
+      const output = this.createOutput(mentalHealthScreening.supportMessage(screening.concerns, crisisLines), 0.85, {
+        mentalHealthLevel: 'concern',
+        concerns: screening.concerns,
+      });
+      output.requiresHumanReview = true;
+      output.assessment = { urgency: 'moderate', riskLevel: 'level_2', recommendation: 'contact_provider' };
+      return output;
+    }
+
+    const output = this.createOutput(mentalHealthScreening.crisisMessage(crisis), 0.95, {
+      mentalHealthLevel: 'crisis',
+      concerns: screening.concerns,
+      crisis,
+    });
+    output.escalate = true;
+    output.escalationReason = crisis.reason;
+    output.assessment = { urgency: 'emergency', riskLevel: 'level_4', recommendation: 'emergency_care' };
+    return output;
   }
 }
 
@@ -686,11 +1259,10 @@ class LearningAgent extends BaseAgent {
   name = 'Learning Agent';
   description = 'Identifies learning opportunities and suggests dataset improvements';
   priority = 30; // Lower priority, runs in background
-
-  shouldActivate(input: AgentInput): boolean {
-    // Always run to identify learning opportunities
-    return true;
-  }
+  // Always runs to identify learning opportunities
+  triggers: AgentTrigger[] = [{ type: 'always' }];
+  outputContract: AgentOutputContract = { role: 'meta', metadata: ['learningOpportunities'], mayEscalate: false };
+  timeoutMs = 1000;
 
   async process(input: AgentInput): Promise<AgentOutput> {
     const opportunities = this.identifyLearningOpportunities(input);
@@ -763,71 +1335,194 @@ class LearningAgent extends BaseAgent {
   }
 }
 
+class AgentTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Agent timed out after ${timeoutMs}ms`);
+    this.name = 'AgentTimeoutError';
+  }
+}
+
+// One orchestrator run while its trace is collected
+interface RunTrace {
+  id: string;
+  input: AgentInput;
+  startTime: number;
+  registered: RegisteredAgent[];
+  activeAgentIds: Set<string>;
+  agents: AgentTraceEntry[];
+  /** Every agent run, settled or not */
+  pending: Promise<unknown>[];
+}
+
+interface OrchestratorRun {
+  result: OrchestratorResult;
+  /** Resolves once every agent has settled, so late agents are included */
+  trace: Promise<OrchestratorTrace>;
+}
+
+// Reply when no content agent produced one
+const NO_AGENT_RESPONSE = 'I\'m not able to give you a full answer right now. If you are worried about how you feel, please contact your healthcare provider.';
+
+// Advice that leads a merged reply when a more cautious assessment prevails
+const RECOMMENDATION_ADVICE: Partial<Record<CareRecommendation, string>> = {
+  contact_provider: 'Please contact your healthcare provider soon to check on this.',
+  urgent_care: 'Please seek medical attention within the next few hours.',
+  emergency_care: 'Please get emergency medical care now.',
+};
+
+// Introduces the more lenient reply below the cautious advice
+const RECOMMENDATION_BRIDGES: Partial<Record<CareRecommendation, string>> = {
+  reassure: 'Some of what you describe can be normal in pregnancy, but it is safer to get checked than to wait. General information:',
+  self_care: 'The advice below can help in the meantime, but should not delay getting checked:',
+};
+
 // Orchestrator - Agent Coordination
 class AgentOrchestrator {
-  private agents: BaseAgent[] = [
-    new TriageAgent(),
-    new EmergencyAgent(),
-    new SafetyAgent(),
-    new ObstetricAgent(),
-    new EducationAgent(),
-    new LearningAgent(),
-  ];
-  
-  private safetyAgent: SafetyAgent;
-
   constructor() {
-    this.safetyAgent = this.agents.find(a => a.id === 'safety_agent') as SafetyAgent;
+    [
+      new TriageAgent(),
+      new EmergencyAgent(),
+      new MentalHealthAgent(),
+      new SafetyAgent(),
+      new MedicationSafetyAgent(),
+      new ObstetricAgent(),
+      new NutritionAgent(),
+      new EducationAgent(),
+      new LearningAgent(),
+    ].forEach(agent => agentRegistry.register(agent));
   }
 
   /**
-   * Process input through agent system
+   * Process input through agent system. The run is stored as a trace once
+   * every agent has settled, and any conflicts between agents are recorded
+   * for learning, without delaying the reply.
    */
-  async process(input: AgentInput): Promise<OrchestratorResult> {
+  async process(input: AgentInput, options: OrchestratorOptions = {}): Promise<OrchestratorResult> {
+    const { result, trace } = await this.execute(input, undefined, options.modelVersion);
+    if (options.persist === false) return result;
+    trace
+      .then(t => orchestratorTraceStore.record(t))
+      .catch(error => console.log('Orchestrator trace not recorded:', error));
+    if (result.reasoning.conflicts?.length) {
+      learningSystem.recordAgentConflicts(result.traceId!, input.userId, result.reasoning.conflicts, result.reasoning.conflictResolution);
+    }
+    return result;
+  }
+
+  /**
+   * Re-run a stored trace's input against the current agent settings, or
+   * with candidate settings laid over them, and compare the two runs. The
+   * replay is not stored. Traces keep only the user's pseudonym, so agents
+   * that read the mother's records find none on replay.
+   */
+  async replay(trace: OrchestratorTrace, settings?: Record<string, AgentSettings>): Promise<TraceComparison> {
+    const run = await this.execute({ ...trace.input, userId: trace.userId }, settings);
+    return orchestratorTraceStore.compare(trace, await run.trace);
+  }
+
+  private async execute(
+    input: AgentInput,
+    settings?: Record<string, AgentSettings>,
+    modelVersion?: ResolvedModelVersion
+  ): Promise<OrchestratorRun> {
     const startTime = Date.now();
-    const agentOutputs: AgentOutput[] = [];
     const reasoning: OrchestratorReasoning = {
       routingDecision: '',
       agentResponses: [],
       safetyFilterResult: '',
+      agentFailures: [],
     };
 
-    // Step 1: Determine which agents should activate
-    const activeAgents = this.agents.filter(agent => agent.shouldActivate(input));
-    reasoning.routingDecision = `Activated ${activeAgents.length} agents: ${activeAgents.map(a => a.name).join(', ')}`;
-
-    // Step 2: Run all active agents in parallel (with priority)
-    const agentPromises = activeAgents
-      .sort((a, b) => b.priority - a.priority)
-      .map(agent => agent.process(input));
-    
-    const outputs = await Promise.all(agentPromises);
-    agentOutputs.push(...outputs);
+    // Step 1: Determine which enabled agents should activate; the registry
+    // falls back to default settings when stored ones are slow to load
+    const registered = await agentRegistry.getAgents(settings);
+    const disabled = registered.filter(r => !r.enabled);
+    const activeAgents = registered.filter(r => r.enabled && r.agent.shouldActivate(input));
+    reasoning.routingDecision = `Activated ${activeAgents.length} agents: ${activeAgents.map(r => r.agent.name).join(', ')}` +
+      (disabled.length > 0 ? `. Disabled: ${disabled.map(r => r.agent.name).join(', ')}` : '');
+
+    const tracing: RunTrace = {
+      id: this.generateTraceId(),
+      input,
+      startTime,
+      registered,
+      activeAgentIds: new Set(activeAgents.map(r => r.agent.id)),
+      agents: [],
+      pending: [],
+    };
 
-    // Step 3: Check for emergency escalation (highest priority)
-    const emergencyOutput = outputs.find(o => o.agentId === 'emergency_agent' && o.escalate);
-    if (emergencyOutput) {
-      return this.handleEmergencyResult(emergencyOutput, outputs, reasoning);
+    // Step 2: Run all active agents in parallel, each within its time budget
+    const settled: AgentOutput[] = [];
+    const runs = activeAgents.map(entry => ({
+      agentId: entry.agent.id,
+      output: this.runAgent(entry, input, reasoning, tracing.agents).then(output => {
+        if (output) settled.push(output);
+        return output;
+      }),
+    }));
+    tracing.pending = runs.map(r => r.output);
+
+    // Step 3: Check for emergency and mental health crisis escalation
+    // (highest priority) without waiting for the other agents
+    const emergencyRun = runs.find(r => r.agentId === 'emergency_agent');
+    const mentalHealthRun = runs.find(r => r.agentId === 'mental_health_agent');
+    const [emergencyOutput, mentalHealthOutput] = await Promise.all([emergencyRun?.output, mentalHealthRun?.output]);
+    const crisisOutput = mentalHealthOutput?.escalate ? mentalHealthOutput : undefined;
+    if (emergencyOutput?.escalate) {
+      const result = this.handleEmergencyResult(emergencyOutput, [...settled], reasoning, input.context, crisisOutput);
+      return this.finish(tracing, result, 'emergency', emergencyOutput.agentId);
     }
+    if (crisisOutput) {
+      const result = this.handleMentalHealthCrisis(crisisOutput, [...settled], reasoning, input.context);
+      return this.finish(tracing, result, 'mental_health_crisis', crisisOutput.agentId);
+    }
+
+    const outputs = (await Promise.all(runs.map(r => r.output)))
+      .filter((o): o is AgentOutput => o !== undefined);
 
     // Step 4: Consensus voting for response selection
-    const selectedResponse = this.selectBestResponse(outputs);
+    const selectedResponse = this.selectBestResponse(outputs, activeAgents);
     reasoning.agentResponses = outputs.map(o => ({
       agent: o.agentName,
       confidence: o.confidence,
       selected: o.agentId === selectedResponse.agentId,
     }));
 
-    // Step 5: Safety review of selected response
-    const safetyReview = this.safetyAgent.reviewResponse(selectedResponse.response);
-    reasoning.safetyFilterResult = safetyReview.approved 
-      ? 'Passed safety review'
-      : `Modified for safety: ${safetyReview.issues.join(', ')}`;
-
-    // Step 6: Resolve any conflicts between agents
-    const conflicts = this.detectConflicts(outputs);
-    if (conflicts.length > 0) {
-      reasoning.conflictResolution = this.resolveConflicts(conflicts);
+    // Step 5: Resolve conflicts between agents toward the most cautious
+    // assessment; a less cautious selection is merged under the cautious advice
+    const conflicts = this.detectConflicts(outputs, input.context);
+    const resolution = conflicts.length > 0
+      ? this.resolveConflicts(conflicts, selectedResponse, outputs, activeAgents)
+      : undefined;
+    if (resolution) {
+      reasoning.conflicts = conflicts;
+      reasoning.conflictResolution = resolution.summary;
+    }
+    const draft = resolution?.response ?? selectedResponse.response;
+
+    // Step 6: Rephrase the selected response with the given or deployed
+    // version's provider; the language model service runs the Safety Agent review on
+    // whatever the provider returns. Merged replies are used as written, so
+    // rephrasing cannot drop or soften the cautious advice.
+    let generated: { text: string; generatedBy: ModelInfo };
+    if (resolution?.merged) {
+      generated = { text: draft, generatedBy: TEMPLATE_MODEL };
+      reasoning.safetyFilterResult = 'Conflict resolution - merged reply used without rephrasing';
+    } else {
+      const model = modelVersion || await modelVersionRegistry.getProductionVersion();
+      const completion = await languageModelService.complete({
+        task: 'rephrase',
+        draft,
+        message: input.message,
+        userRole: input.userRole,
+        language: DEFAULT_LANGUAGE,
+        riskLevel: input.context.riskLevel,
+        history: input.context.previousMessages,
+      }, { provider: model.components.languageModelProvider });
+      generated = completion;
+      reasoning.safetyFilterResult = completion.safety.approved
+        ? 'Passed safety review'
+        : `Modified for safety: ${completion.safety.issues.join(', ')}`;
     }
 
     // Step 7: Check for learning opportunities
@@ -837,8 +1532,8 @@ class AgentOrchestrator {
     const processingTime = Date.now() - startTime;
     console.log(`Orchestrator processing time: ${processingTime}ms`);
 
-    return {
-      finalResponse: safetyReview.modifiedResponse,
+    return this.finish(tracing, {
+      finalResponse: generated.text,
       contributingAgents: outputs.filter(o => o.confidence > 0.5).map(o => o.agentName),
       consensusReached: conflicts.length === 0,
       conflictsResolved: conflicts.map(c => c.description),
@@ -848,82 +1543,367 @@ class AgentOrchestrator {
       escalationDetails: outputs.find(o => o.escalate)?.escalationReason,
       learningOpportunity,
       reasoning,
-    };
+      triageUrgency: this.triageUrgency(outputs),
+      generatedBy: generated.generatedBy,
+    }, 'consensus', selectedResponse.agentId, draft);
   }
 
+  /**
+   * Attach the trace id to the result and build the trace once every agent
+   * has settled
+   */
+  private finish(
+    tracing: RunTrace,
+    result: OrchestratorResult,
+    path: OrchestratorPath,
+    selectedAgentId: string,
+    draftResponse: string = result.finalResponse
+  ): OrchestratorRun {
+    const durationMs = Date.now() - tracing.startTime;
+    const entries = new Map(tracing.registered.map(r => [r.agent.id, r]));
+    const selected = new Set(result.reasoning.agentResponses.filter(r => r.selected).map(r => r.agent));
+
+    const trace = Promise.all(tracing.pending).then((): OrchestratorTrace => ({
+      id: tracing.id,
+      userId: tracing.input.userId,
+      input: { message: tracing.input.message, userRole: tracing.input.userRole, context: tracing.input.context },
+      configuration: tracing.registered.map(r => ({
+        agentId: r.agent.id,
+        agent: r.agent.name,
+        enabled: r.enabled,
+        weight: r.weight,
+        timeoutMs: r.timeoutMs,
+        activated: tracing.activeAgentIds.has(r.agent.id),
+      })),
+      agents: tracing.agents.map(entry => {
+        const registered = entries.get(entry.agentId);
+        const competed = path === 'consensus' && entry.output && registered?.agent.outputContract.role === 'content';
+        return {
+          ...entry,
+          score: competed ? this.scoreOutput(entry.output!, registered!) : undefined,
+          selected: selected.has(entry.agent),
+        };
+      }),
+      path,
+      selectedAgentId: selectedAgentId === 'orchestrator' ? undefined : selectedAgentId,
+      draftResponse,
+      finalResponse: result.finalResponse,
+      requiresEscalation: result.requiresEscalation,
+      triageUrgency: result.triageUrgency,
+      reasoning: result.reasoning,
+      generatedBy: result.generatedBy,
+      durationMs,
+      createdAt: new Date(tracing.startTime).toISOString(),
+    }));
+
+    return { result: { ...result, traceId: tracing.id }, trace };
+  }
+
+  /**
+   * Run one agent within its time budget. Failures, timeouts and contract
+   * violations are recorded and replaced by the agent's fallback, if any.
+   */
+  private async runAgent(
+    entry: RegisteredAgent,
+    input: AgentInput,
+    reasoning: OrchestratorReasoning,
+    traced: AgentTraceEntry[]
+  ): Promise<AgentOutput | undefined> {
+    const { agent, timeoutMs } = entry;
+    const started = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new AgentTimeoutError(timeoutMs)), timeoutMs);
+    });
+
+    let failure: Omit<AgentFailure, 'fallbackUsed'>;
+    try {
+      const output = await Promise.race([agent.process(input), timeout]);
+      const violations = agentRegistry.validateOutput(agent, output);
+      if (violations.length === 0) {
+        traced.push({ agentId: agent.id, agent: agent.name, durationMs: Date.now() - started, output, selected: false });
+        return output;
+      }
+      failure = { agentId: agent.id, agent: agent.name, reason: 'contract_violation', detail: violations.join('; ') };
+    } catch (error) {
+      failure = error instanceof AgentTimeoutError
+        ? { agentId: agent.id, agent: agent.name, reason: 'timeout', detail: error.message }
+        : { agentId: agent.id, agent: agent.name, reason: 'error', detail: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    console.log(`Agent ${agent.id} failed (${failure.reason}):`, failure.detail);
+    const fallback = agent.fallback?.(input, failure.reason);
+    const recorded = { ...failure, fallbackUsed: !!fallback };
+    reasoning.agentFailures!.push(recorded);
+    traced.push({
+      agentId: agent.id,
+      agent: agent.name,
+      durationMs: Date.now() - started,
+      output: fallback,
+      failure: recorded,
+      selected: false,
+    });
+    return fallback;
+  }
+
+  /**
+   * Obstetric emergency reply; a mental health crisis in the same message
+   * adds its crisis lines and is still escalated on its own path
+   */
   private handleEmergencyResult(
     emergencyOutput: AgentOutput,
     allOutputs: AgentOutput[],
-    reasoning: OrchestratorReasoning
+    reasoning: OrchestratorReasoning,
+    context: AgentContext,
+    crisisOutput?: AgentOutput
   ): OrchestratorResult {
     reasoning.agentResponses = allOutputs.map(o => ({
       agent: o.agentName,
       confidence: o.confidence,
-      selected: o.agentId === 'emergency_agent',
+      selected: o.agentId === 'emergency_agent' || o === crisisOutput,
     }));
     reasoning.safetyFilterResult = 'Emergency override - safety check bypassed for urgency';
+    const conflicts = this.recordTemplateConflicts(allOutputs, reasoning, context, 'Emergency Agent');
 
     return {
-      finalResponse: emergencyOutput.response,
-      contributingAgents: ['Emergency Agent'],
-      consensusReached: true,
-      conflictsResolved: [],
+      finalResponse: crisisOutput ? `${emergencyOutput.response}\n\n${crisisOutput.response}` : emergencyOutput.response,
+      contributingAgents: crisisOutput ? ['Emergency Agent', 'Mental Health Agent'] : ['Emergency Agent'],
+      consensusReached: conflicts.length === 0,
+      conflictsResolved: conflicts.map(c => c.description),
       overallConfidence: 0.95,
       safetyChecked: true,
       requiresEscalation: true,
       escalationDetails: emergencyOutput.escalationReason,
       reasoning,
+      triageUrgency: this.triageUrgency(allOutputs),
+      generatedBy: TEMPLATE_MODEL,
+      mentalHealthCrisis: crisisOutput?.metadata.crisis,
+    };
+  }
+
+  /**
+   * Mental health crisis reply, kept out of the obstetric emergency flow so
+   * callers can notify the care team and flag the conversation for follow-up
+   */
+  private handleMentalHealthCrisis(
+    crisisOutput: AgentOutput,
+    allOutputs: AgentOutput[],
+    reasoning: OrchestratorReasoning,
+    context: AgentContext
+  ): OrchestratorResult {
+    reasoning.agentResponses = allOutputs.map(o => ({
+      agent: o.agentName,
+      confidence: o.confidence,
+      selected: o === crisisOutput,
+    }));
+    reasoning.safetyFilterResult = 'Mental health crisis - crisis template used without rephrasing';
+    const conflicts = this.recordTemplateConflicts(allOutputs, reasoning, context, 'Mental Health Agent');
+
+    return {
+      finalResponse: crisisOutput.response,
+      contributingAgents: ['Mental Health Agent'],
+      consensusReached: conflicts.length === 0,
+      conflictsResolved: conflicts.map(c => c.description),
+      overallConfidence: crisisOutput.confidence,
+      safetyChecked: true,
+      requiresEscalation: true,
+      escalationDetails: crisisOutput.escalationReason,
+      reasoning,
+      triageUrgency: this.triageUrgency(allOutputs),
+      generatedBy: TEMPLATE_MODEL,
+      mentalHealthCrisis: crisisOutput.metadata.crisis,
     };
   }
 
-  private selectBestResponse(outputs: AgentOutput[]): AgentOutput {
+  private triageUrgency(outputs: AgentOutput[]): TriageUrgency | undefined {
+    return outputs.find(o => o.agentId === 'triage_agent')?.metadata.urgencyLevel;
+  }
+
+  private selectBestResponse(outputs: AgentOutput[], agents: RegisteredAgent[]): AgentOutput {
+    const entries = new Map(agents.map(r => [r.agent.id, r]));
+
     // Filter out meta-agents (safety, learning)
-    const contentAgents = outputs.filter(o => 
-      !['safety_agent', 'learning_agent'].includes(o.agentId)
+    const contentAgents = outputs.filter(o =>
+      entries.get(o.agentId)?.agent.outputContract.role === 'content'
     );
-    
+
     if (contentAgents.length === 0) {
-      return outputs[0];
+      return outputs[0] || {
+        agentId: 'orchestrator',
+        agentName: 'Agent Orchestrator',
+        response: NO_AGENT_RESPONSE,
+        confidence: 0,
+        priority: 0,
+        metadata: {},
+      };
     }
-    
-    // Weight by priority and confidence
+
     const scored = contentAgents.map(o => ({
       output: o,
-      score: (o.priority / 100) * 0.4 + o.confidence * 0.6,
+      score: this.scoreOutput(o, entries.get(o.agentId)),
     }));
     
     scored.sort((a, b) => b.score - a.score);
     return scored[0].output;
   }
 
-  private detectConflicts(outputs: AgentOutput[]): { agents: string[]; description: string }[] {
-    const conflicts: { agents: string[]; description: string }[] = [];
-    
-    // Check for conflicting urgency assessments
-    const triageOutput = outputs.find(o => o.agentId === 'triage_agent');
-    const emergencyOutput = outputs.find(o => o.agentId === 'emergency_agent');
-    
-    if (triageOutput && emergencyOutput) {
-      const triageUrgency = triageOutput.metadata.urgencyLevel;
-      const emergencyDetected = emergencyOutput.metadata.emergencyDetected;
-      
-      if (triageUrgency === 'routine' && emergencyDetected) {
-        conflicts.push({
-          agents: ['Triage Agent', 'Emergency Agent'],
-          description: 'Triage assessed as routine but Emergency Agent detected emergency patterns',
+  /**
+   * Weight by priority and confidence, scaled by the configured weight
+   */
+  private scoreOutput(output: AgentOutput, entry?: RegisteredAgent): number {
+    return ((output.priority / 100) * 0.4 + output.confidence * 0.6) * (entry?.weight ?? 1);
+  }
+
+  private generateTraceId(): string {
+    // Traces have uuid keys
+    return crypto.randomUUID
+      ? crypto.randomUUID()
+      : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+          const r = Math.floor(Math.random() * 16);
+          return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
         });
+  }
+
+  /**
+   * Compare the agents' assessments of urgency, risk level and care. Each
+   * dimension's most cautious position is paired with every position too far
+   * below it; the risk level on the mother's record takes part as a position.
+   */
+  private detectConflicts(outputs: AgentOutput[], context: AgentContext): AgentConflict[] {
+    const positions = (pick: (assessment: AgentAssessment) => string | undefined): ConflictPosition[] =>
+      outputs.flatMap(o => {
+        const value = o.assessment && pick(o.assessment);
+        return value ? [{ agentId: o.agentId, agent: o.agentName, value }] : [];
+      });
+
+    const riskPositions = positions(a => a.riskLevel);
+    if (context.riskLevel) {
+      riskPositions.push({ agentId: 'risk_record', agent: 'Recorded risk level', value: context.riskLevel });
+    }
+
+    return [
+      // Any gap counts once one side calls for urgent care
+      ...this.compareDimension('urgency', positions(a => a.urgency), URGENCY_SCALE,
+        (cautious, lenient) => cautious - lenient >= 2 || (cautious >= URGENCY_SCALE.indexOf('urgent') && cautious > lenient)),
+      ...this.compareDimension('risk_level', riskPositions, RISK_SCALE,
+        (cautious, lenient) => cautious - lenient >= 2),
+      // One side sends the mother to a provider, the other says she can manage at home
+      ...this.compareDimension('recommendation', positions(a => a.recommendation), RECOMMENDATION_SCALE,
+        (cautious, lenient) => cautious >= RECOMMENDATION_SCALE.indexOf('contact_provider') && lenient <= RECOMMENDATION_SCALE.indexOf('self_care')),
+    ];
+  }
+
+  private compareDimension(
+    dimension: ConflictDimension,
+    positions: ConflictPosition[],
+    scale: string[],
+    conflicting: (cautious: number, lenient: number) => boolean
+  ): AgentConflict[] {
+    if (positions.length < 2) return [];
+    const rank = (position: ConflictPosition) => scale.indexOf(position.value);
+    const cautious = positions.reduce((most, p) => rank(p) > rank(most) ? p : most);
+    const label = (value: string) => value.replace(/_/g, ' ');
+
+    return positions
+      .filter(p => p !== cautious && conflicting(rank(cautious), rank(p)))
+      .map(lenient => ({
+        dimension,
+        cautious,
+        lenient,
+        gap: rank(cautious) - rank(lenient),
+        description: `${cautious.agent} (${label(cautious.value)}) and ${lenient.agent} (${label(lenient.value)}) disagree on ${label(dimension)}`,
+      }));
+  }
+
+  /**
+   * Resolve conflicts toward the most cautious assessment. A selected reply
+   * that is less cautious follows the cautious advice; a cautious selected
+   * reply keeps the reassurance or self-care advice it conflicted with after
+   * it, so the mother hears both.
+   */
+  private resolveConflicts(
+    conflicts: AgentConflict[],
+    selected: AgentOutput,
+    outputs: AgentOutput[],
+    agents: RegisteredAgent[]
+  ): { response: string; summary: string; merged: boolean } {
+    const rank = (recommendation?: CareRecommendation) =>
+      recommendation ? RECOMMENDATION_SCALE.indexOf(recommendation) : -1;
+    const required = (conflict: AgentConflict): CareRecommendation => {
+      switch (conflict.dimension) {
+        case 'urgency': return URGENCY_RECOMMENDATIONS[conflict.cautious.value as TriageUrgency];
+        case 'risk_level': return RISK_RECOMMENDATIONS[conflict.cautious.value as RiskLevel];
+        case 'recommendation': return conflict.cautious.value as CareRecommendation;
       }
+    };
+
+    const prevailing = conflicts.reduce((most, c) => rank(required(c)) > rank(required(most)) ? c : most);
+    const lead = required(prevailing);
+    const assessment = selected.assessment;
+    const selectedCare = [assessment?.recommendation, assessment?.urgency && URGENCY_RECOMMENDATIONS[assessment.urgency]]
+      .reduce<CareRecommendation | undefined>((most, r) => rank(r) > rank(most) ? r : most, undefined);
+
+    const advice = RECOMMENDATION_ADVICE[lead];
+    if (rank(selectedCare) < rank(lead) && advice) {
+      const bridge = RECOMMENDATION_BRIDGES[selectedCare ?? 'self_care'] ?? RECOMMENDATION_BRIDGES.self_care;
+      // Say what the advice is about: the cautious agent's concern, else the triage agent's
+      const concern = [prevailing.cautious.agentId, 'triage_agent']
+        .map(agentId => outputs.find(o => o.agentId === agentId)?.metadata.concern)
+        .find((c): c is string => typeof c === 'string');
+      return {
+        response: [concern ? `${concern} ${advice}` : advice, bridge, selected.response].join('\n\n'),
+        summary: `Conflicts resolved by prioritizing safety: ${prevailing.cautious.agent} assessment leads ${selected.agentName}'s reply.`,
+        merged: true,
+      };
     }
-    
-    return conflicts;
+
+    // The selected reply is already the cautious one; keep the best
+    // reassurance or self-care reply it conflicted with below it
+    const entries = new Map(agents.map(r => [r.agent.id, r]));
+    const lenient = conflicts
+      .filter(c => c.dimension === 'recommendation' && c.lenient.agentId !== selected.agentId)
+      .map(c => outputs.find(o => o.agentId === c.lenient.agentId))
+      .filter((o): o is AgentOutput => !!o && entries.get(o.agentId)?.agent.outputContract.role === 'content')
+      .sort((a, b) => this.scoreOutput(b, entries.get(b.agentId)) - this.scoreOutput(a, entries.get(a.agentId)))[0];
+    const bridge = lenient && RECOMMENDATION_BRIDGES[lenient.assessment!.recommendation!];
+
+    if (!lenient || !bridge) {
+      return {
+        response: selected.response,
+        summary: `Conflicts resolved by prioritizing safety: ${selected.agentName}'s more cautious reply was used.`,
+        merged: false,
+      };
+    }
+    return {
+      response: [selected.response, bridge, lenient.response].join('\n\n'),
+      summary: `Conflicts resolved by prioritizing safety: ${selected.agentName}'s advice leads, followed by ${lenient.agentName}'s information.`,
+      merged: true,
+    };
   }
 
-  private resolveConflicts(conflicts: { agents: string[]; description: string }[]): string {
-    // In case of conflict between triage and emergency, always err on the side of caution
-    return 'Conflicts resolved by prioritizing safety: Emergency Agent assessment takes precedence.';
+  /**
+   * Conflicts among the agents that settled before an emergency or crisis
+   * reply; the template reply is already the most cautious, so they are
+   * only recorded
+   */
+  private recordTemplateConflicts(
+    outputs: AgentOutput[],
+    reasoning: OrchestratorReasoning,
+    context: AgentContext,
+    agent: string
+  ): AgentConflict[] {
+    const conflicts = this.detectConflicts(outputs, context);
+    if (conflicts.length > 0) {
+      reasoning.conflicts = conflicts;
+      reasoning.conflictResolution = `Conflicts resolved by prioritizing safety: ${agent} reply used.`;
+    }
+    return conflicts;
   }
 
   private calculateOverallConfidence(outputs: AgentOutput[]): number {
+    if (outputs.length === 0) return 0;
     const confidences = outputs.map(o => o.confidence);
     return confidences.reduce((sum, c) => sum + c, 0) / confidences.length;
   }
@@ -931,5 +1911,5 @@ class AgentOrchestrator {
 
 // Export singleton orchestrator and types
 export const agentOrchestrator = new AgentOrchestrator();
-export { TriageAgent, ObstetricAgent, EducationAgent, SafetyAgent, EmergencyAgent, LearningAgent };
+export { BaseAgent, TriageAgent, ObstetricAgent, EducationAgent, NutritionAgent, SafetyAgent, MedicationSafetyAgent, EmergencyAgent, MentalHealthAgent, LearningAgent };
 export default agentOrchestrator;
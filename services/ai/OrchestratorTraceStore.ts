@@ -0,0 +1,286 @@
+/**
+ * Orchestrator Trace Store for Maternal Health AI
+ *
+ * Implements:
+ * - Persistence of every agent orchestrator run: the input, the agent
+ *   configuration, each agent's output and timing, and the final selection
+ * - Trace queries for the admin replay debugger
+ * - Side-by-side comparison of a stored trace with a replay of it against
+ *   the current or a candidate agent configuration
+ *
+ * Generic identifiers (emails, phone numbers, ID numbers, introduced names)
+ * are redacted from messages, agent outputs and replies before a trace is
+ * stored; the clinical wording the agents route on is kept so a replay sees
+ * the same message. Traces are stored under the user's keyed pseudonym, and
+ * the database deletes them after 30 days.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { ModelInfo } from './LanguageModelProvider';
+import type {
+  AgentContext,
+  AgentFailure,
+  AgentInput,
+  AgentOutput,
+  OrchestratorReasoning,
+  TriageUrgency,
+} from './MultiAgentSystem';
+import { deidentifier } from './Deidentifier';
+
+// Types
+/** How the reply was chosen: an emergency or crisis template, or consensus voting */
+export type OrchestratorPath = 'emergency' | 'mental_health_crisis' | 'consensus';
+
+export interface AgentConfigurationEntry {
+  agentId: string;
+  agent: string;
+  enabled: boolean;
+  weight: number;
+  timeoutMs: number;
+  /** The agent's triggers matched the message */
+  activated: boolean;
+}
+
+export interface AgentTraceEntry {
+  agentId: string;
+  agent: string;
+  durationMs: number;
+  /** The agent's output, or its fallback; unset when it failed without one */
+  output?: AgentOutput;
+  failure?: AgentFailure;
+  /** Selection score, for content agents on the consensus path */
+  score?: number;
+  selected: boolean;
+}
+
+export interface OrchestratorTrace {
+  id: string;
+  /** The user's pseudonym once stored; replays run without the user's records */
+  userId: string;
+  input: Omit<AgentInput, 'userId'>;
+  configuration: AgentConfigurationEntry[];
+  /** Every agent that ran, including those that finished after an emergency reply */
+  agents: AgentTraceEntry[];
+  path: OrchestratorPath;
+  selectedAgentId?: string;
+  /** The selected reply before language model rephrasing */
+  draftResponse: string;
+  finalResponse: string;
+  requiresEscalation: boolean;
+  triageUrgency?: TriageUrgency;
+  reasoning: OrchestratorReasoning;
+  generatedBy: ModelInfo;
+  durationMs: number;
+  createdAt: string;
+}
+
+export interface TraceQuery {
+  since?: string;
+  /** Traces whose reply came from this agent */
+  selectedAgentId?: string;
+  escalatedOnly?: boolean;
+  /** Traces where an agent failed, timed out or broke its contract */
+  failuresOnly?: boolean;
+  /** Traces where agents' assessments conflicted */
+  conflictsOnly?: boolean;
+  limit?: number;
+}
+
+export interface AgentTraceDiff {
+  agentId: string;
+  agent: string;
+  /** Unset when the agent did not run on that side */
+  original?: AgentTraceEntry;
+  replay?: AgentTraceEntry;
+  confidenceDelta?: number;
+  selectionChanged: boolean;
+  responseChanged: boolean;
+}
+
+export interface ConfigurationChange {
+  agentId: string;
+  agent: string;
+  field: 'enabled' | 'weight' | 'timeoutMs';
+  original: boolean | number;
+  replay: boolean | number;
+}
+
+export interface TraceComparison {
+  original: OrchestratorTrace;
+  replay: OrchestratorTrace;
+  pathChanged: boolean;
+  selectedAgentChanged: boolean;
+  /** The selected reply differs before rephrasing; rephrased replies can differ on every run */
+  draftChanged: boolean;
+  escalationChanged: boolean;
+  urgencyChanged: boolean;
+  configurationChanges: ConfigurationChange[];
+  agents: AgentTraceDiff[];
+}
+
+const LIST_LIMIT = 50;
+const CONFIGURATION_FIELDS: ConfigurationChange['field'][] = ['enabled', 'weight', 'timeoutMs'];
+const NO_DETAILS = { names: [], places: [], phones: [] };
+
+class OrchestratorTraceStore {
+  /**
+   * Store a trace; failures are logged and never reach the user
+   */
+  async record(trace: OrchestratorTrace): Promise<void> {
+    try {
+      // The database stores the user's pseudonym, not the user id
+      const { error } = await (supabase as any).from('ai_orchestrator_traces').insert({
+        id: trace.id,
+        message: deidentifier.redact(trace.input.message, NO_DETAILS),
+        user_role: trace.input.userRole,
+        context: {
+          ...trace.input.context,
+          previousMessages: trace.input.context.previousMessages.map(m => ({
+            role: m.role,
+            content: deidentifier.redact(m.content, NO_DETAILS),
+          })),
+        },
+        configuration: trace.configuration,
+        agents: trace.agents.map(entry => this.redactEntry(entry)),
+        path: trace.path,
+        selected_agent_id: trace.selectedAgentId,
+        draft_response: deidentifier.redact(trace.draftResponse, NO_DETAILS),
+        final_response: deidentifier.redact(trace.finalResponse, NO_DETAILS),
+        requires_escalation: trace.requiresEscalation,
+        has_failures: trace.agents.some(a => a.failure),
+        has_conflicts: !!trace.reasoning.conflicts?.length,
+        triage_urgency: trace.triageUrgency,
+        reasoning: trace.reasoning,
+        generated_by: trace.generatedBy,
+        duration_ms: trace.durationMs,
+        created_at: trace.createdAt,
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.log('Orchestrator trace logging not available:', error);
+    }
+  }
+
+  /**
+   * Most recent traces, newest first
+   */
+  async list(query: TraceQuery = {}): Promise<OrchestratorTrace[]> {
+    let request = (supabase as any)
+      .from('ai_orchestrator_traces')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(query.limit || LIST_LIMIT);
+
+    if (query.since) request = request.gte('created_at', query.since);
+    if (query.selectedAgentId) request = request.eq('selected_agent_id', query.selectedAgentId);
+    if (query.escalatedOnly) request = request.eq('requires_escalation', true);
+    if (query.failuresOnly) request = request.eq('has_failures', true);
+    if (query.conflictsOnly) request = request.eq('has_conflicts', true);
+
+    const { data, error } = await request;
+    if (error) throw error;
+
+    return (data || []).map((row: any) => this.toTrace(row));
+  }
+
+  async get(traceId: string): Promise<OrchestratorTrace | null> {
+    const { data, error } = await (supabase as any)
+      .from('ai_orchestrator_traces')
+      .select('*')
+      .eq('id', traceId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.toTrace(data) : null;
+  }
+
+  /**
+   * Compare a stored trace with a replay of the same input
+   */
+  compare(original: OrchestratorTrace, replay: OrchestratorTrace): TraceComparison {
+    const agentIds = Array.from(new Set([...original.agents, ...replay.agents].map(a => a.agentId)));
+    const agents = agentIds.map(agentId => {
+      const before = original.agents.find(a => a.agentId === agentId);
+      const after = replay.agents.find(a => a.agentId === agentId);
+      const confidences = [before?.output?.confidence, after?.output?.confidence];
+
+      return {
+        agentId,
+        agent: (before || after)!.agent,
+        original: before,
+        replay: after,
+        confidenceDelta: confidences[0] !== undefined && confidences[1] !== undefined
+          ? confidences[1] - confidences[0]
+          : undefined,
+        selectionChanged: !!before?.selected !== !!after?.selected,
+        responseChanged: before?.output?.response !== after?.output?.response,
+      };
+    });
+
+    return {
+      original,
+      replay,
+      pathChanged: original.path !== replay.path,
+      selectedAgentChanged: original.selectedAgentId !== replay.selectedAgentId,
+      draftChanged: original.draftResponse !== replay.draftResponse,
+      escalationChanged: original.requiresEscalation !== replay.requiresEscalation,
+      urgencyChanged: original.triageUrgency !== replay.triageUrgency,
+      configurationChanges: this.configurationChanges(original.configuration, replay.configuration),
+      agents,
+    };
+  }
+
+  private configurationChanges(
+    original: AgentConfigurationEntry[],
+    replay: AgentConfigurationEntry[]
+  ): ConfigurationChange[] {
+    const changes: ConfigurationChange[] = [];
+    for (const after of replay) {
+      const before = original.find(c => c.agentId === after.agentId);
+      if (!before) continue;
+      for (const field of CONFIGURATION_FIELDS) {
+        if (before[field] !== after[field]) {
+          changes.push({ agentId: after.agentId, agent: after.agent, field, original: before[field], replay: after[field] });
+        }
+      }
+    }
+    return changes;
+  }
+
+  private redactEntry(entry: AgentTraceEntry): AgentTraceEntry {
+    if (!entry.output) return entry;
+    return {
+      ...entry,
+      output: {
+        ...entry.output,
+        response: deidentifier.redact(entry.output.response, NO_DETAILS),
+        escalationReason: entry.output.escalationReason && deidentifier.redact(entry.output.escalationReason, NO_DETAILS),
+      },
+    };
+  }
+
+  private toTrace(row: any): OrchestratorTrace {
+    const context: AgentContext = { previousMessages: [], ...(row.context || {}) };
+    return {
+      id: row.id,
+      userId: row.user_pseudonym,
+      input: { message: row.message, userRole: row.user_role, context },
+      configuration: row.configuration || [],
+      agents: row.agents || [],
+      path: row.path,
+      selectedAgentId: row.selected_agent_id || undefined,
+      draftResponse: row.draft_response || '',
+      finalResponse: row.final_response || '',
+      requiresEscalation: row.requires_escalation,
+      triageUrgency: row.triage_urgency || undefined,
+      reasoning: row.reasoning || { routingDecision: '', agentResponses: [], safetyFilterResult: '' },
+      generatedBy: row.generated_by,
+      durationMs: row.duration_ms || 0,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+// Export singleton instance
+export const orchestratorTraceStore = new OrchestratorTraceStore();
+export default orchestratorTraceStore;
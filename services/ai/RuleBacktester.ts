@@ -0,0 +1,322 @@
+/**
+ * Rule Backtester for Maternal Health AI
+ *
+ * Replays stored cases (symptoms + vital signs + AI assessments) through the
+ * DiagnosticReasoningEngine with a baseline and a candidate knowledge pack,
+ * and reports how risk levels would change before a rule goes live.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { RiskLevel } from '@/types/database.types';
+import {
+  diagnosticEngine,
+  DiagnosticInput,
+  SymptomInput,
+  VitalReading,
+  VitalSignsInput,
+} from './DiagnosticReasoningEngine';
+import { knowledgeBase, KnowledgePack } from './KnowledgeBase';
+import { latestReading } from './TrendAnalysis';
+
+// Types
+export interface BacktestCase {
+  assessmentId: string;
+  motherId: string;
+  assessedAt: string;
+  storedRiskLevel: RiskLevel;
+  storedKnowledgeBaseVersion?: string;
+  input: DiagnosticInput;
+}
+
+export interface CaseSetQuery {
+  since?: string;
+  until?: string;
+  motherId?: string;
+  limit?: number;
+}
+
+export interface BacktestCaseDiff {
+  assessmentId: string;
+  motherId: string;
+  assessedAt: string;
+  storedRiskLevel: RiskLevel;
+  baselineRiskLevel: RiskLevel;
+  candidateRiskLevel: RiskLevel;
+  direction: 'escalated' | 'de-escalated' | 'unchanged';
+  rulesAdded: string[];
+  rulesRemoved: string[];
+  inputSummary: string;
+}
+
+export interface RiskLevelBreakdown {
+  level: RiskLevel;
+  baselineCount: number;
+  candidateCount: number;
+  escalatedFrom: number;
+  deescalatedFrom: number;
+}
+
+export interface BacktestReport {
+  baselineVersion: string;
+  candidateVersion: string;
+  runAt: string;
+  totalCases: number;
+  changedCases: number;
+  escalated: BacktestCaseDiff[];
+  deescalated: BacktestCaseDiff[];
+  byLevel: RiskLevelBreakdown[];
+  transitions: Record<RiskLevel, Record<RiskLevel, number>>;
+  baselineMatchesStored: number;
+  durationMs: number;
+}
+
+const RISK_LEVELS: RiskLevel[] = ['level_1', 'level_2', 'level_3', 'level_4'];
+const HISTORY_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TERM_WEEKS = 40;
+
+class RuleBacktester {
+  /**
+   * Build a replayable case set from stored assessments
+   */
+  async loadCaseSet(query: CaseSetQuery = {}): Promise<BacktestCase[]> {
+    let request = (supabase as any)
+      .from('ai_assessments')
+      .select(`
+        id,
+        mother_id,
+        risk_level,
+        knowledge_base_version,
+        created_at,
+        symptoms (symptoms, severity, description),
+        mother_profiles (gestational_age_weeks, due_date, updated_at)
+      `)
+      .not('symptom_id', 'is', null)
+      .order('created_at', { ascending: false })
+      .limit(query.limit || 200);
+
+    if (query.since) request = request.gte('created_at', query.since);
+    if (query.until) request = request.lte('created_at', query.until);
+    if (query.motherId) request = request.eq('mother_id', query.motherId);
+
+    const { data: assessments, error } = await request;
+    if (error) throw error;
+    if (!assessments || assessments.length === 0) return [];
+
+    // Only readings the replayed assessments could have seen
+    const motherIds = Array.from(new Set<string>(assessments.map((a: any) => a.mother_id)));
+    const assessedTimes = assessments.map((a: any) => new Date(a.created_at).getTime());
+    const vitalsFrom = new Date(Math.min(...assessedTimes) - HISTORY_DAYS * DAY_MS).toISOString();
+    const vitalsUntil = new Date(Math.max(...assessedTimes)).toISOString();
+    const { data: vitals, error: vitalsError } = await (supabase as any)
+      .from('vital_signs')
+      .select('mother_id, systolic_bp, diastolic_bp, heart_rate, temperature, weight, oxygen_saturation, recorded_at')
+      .in('mother_id', motherIds)
+      .gte('recorded_at', vitalsFrom)
+      .lte('recorded_at', vitalsUntil)
+      .order('recorded_at', { ascending: false });
+
+    if (vitalsError) throw vitalsError;
+
+    return assessments.map((a: any) => this.toCase(a, vitals || []));
+  }
+
+  /**
+   * Replay a case set with a candidate pack and diff against the baseline.
+   * The baseline defaults to the currently active pack.
+   */
+  async run(
+    candidate: KnowledgePack,
+    cases: BacktestCase[],
+    baseline?: KnowledgePack
+  ): Promise<BacktestReport> {
+    const startTime = Date.now();
+    const baselinePack = baseline || await knowledgeBase.getActivePack();
+
+    const transitions = this.emptyTransitions();
+    const escalated: BacktestCaseDiff[] = [];
+    const deescalated: BacktestCaseDiff[] = [];
+    let baselineMatchesStored = 0;
+
+    for (const testCase of cases) {
+      const [baselineResult, candidateResult] = await Promise.all([
+        diagnosticEngine.analyze(testCase.input, { knowledgePack: baselinePack }),
+        diagnosticEngine.analyze(testCase.input, { knowledgePack: candidate }),
+      ]);
+
+      const from = baselineResult.overallRiskLevel;
+      const to = candidateResult.overallRiskLevel;
+      transitions[from][to]++;
+      if (from === testCase.storedRiskLevel) baselineMatchesStored++;
+
+      if (from === to) continue;
+
+      const baselineRules = baselineResult.explanationTrace.rulesApplied.filter(r => r.triggered).map(r => r.ruleName);
+      const candidateRules = candidateResult.explanationTrace.rulesApplied.filter(r => r.triggered).map(r => r.ruleName);
+      const diff: BacktestCaseDiff = {
+        assessmentId: testCase.assessmentId,
+        motherId: testCase.motherId,
+        assessedAt: testCase.assessedAt,
+        storedRiskLevel: testCase.storedRiskLevel,
+        baselineRiskLevel: from,
+        candidateRiskLevel: to,
+        direction: this.levelIndex(to) > this.levelIndex(from) ? 'escalated' : 'de-escalated',
+        rulesAdded: candidateRules.filter(r => !baselineRules.includes(r)),
+        rulesRemoved: baselineRules.filter(r => !candidateRules.includes(r)),
+        inputSummary: candidateResult.explanationTrace.inputSummary,
+      };
+
+      if (diff.direction === 'escalated') {
+        escalated.push(diff);
+      } else {
+        deescalated.push(diff);
+      }
+    }
+
+    return {
+      baselineVersion: baselinePack.version,
+      candidateVersion: candidate.version,
+      runAt: new Date().toISOString(),
+      totalCases: cases.length,
+      changedCases: escalated.length + deescalated.length,
+      escalated,
+      deescalated,
+      byLevel: this.buildBreakdown(transitions),
+      transitions,
+      baselineMatchesStored,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Load stored cases and backtest a stored knowledge pack version against the active pack
+   */
+  async backtestVersion(candidateVersion: string, query: CaseSetQuery = {}): Promise<BacktestReport> {
+    const candidate = await knowledgeBase.getPackVersion(candidateVersion);
+    if (!candidate) {
+      throw new Error(`Knowledge base version ${candidateVersion} not found`);
+    }
+
+    const cases = await this.loadCaseSet(query);
+    return this.run(candidate, cases);
+  }
+
+  private toCase(assessment: any, vitals: any[]): BacktestCase {
+    const symptomRecord = assessment.symptoms || {};
+    const names: string[] = Array.isArray(symptomRecord.symptoms)
+      ? symptomRecord.symptoms
+      : Object.keys(symptomRecord.symptoms || {});
+    const severity = this.normalizeSeverity(symptomRecord.severity);
+    const assessedAt = new Date(assessment.created_at);
+    const weeks = this.weekAtAssessment(assessment.mother_profiles, assessedAt) ?? 20;
+
+    // Readings from the preceding window replay the history trend rules saw
+    const historyStart = new Date(assessedAt.getTime() - HISTORY_DAYS * DAY_MS).toISOString();
+    const historyReadings: VitalReading[] = vitals
+      .filter(v =>
+        v.mother_id === assessment.mother_id &&
+        v.recorded_at <= assessment.created_at &&
+        v.recorded_at >= historyStart
+      )
+      .map(v => ({ recordedAt: v.recorded_at, ...this.toVitalSigns(v) }));
+
+    // The current reading is chosen as it was when the assessment ran
+    const current = latestReading({ vitals: historyReadings }, assessedAt);
+    const vital = current && vitals.find(v =>
+      v.mother_id === assessment.mother_id && v.recorded_at === current.recordedAt
+    );
+
+    const symptoms: SymptomInput[] = names.map(name => ({ name, severity }));
+
+    return {
+      assessmentId: assessment.id,
+      motherId: assessment.mother_id,
+      assessedAt: assessment.created_at,
+      storedRiskLevel: assessment.risk_level,
+      storedKnowledgeBaseVersion: assessment.knowledge_base_version || undefined,
+      input: {
+        symptoms,
+        pregnancyStage: {
+          weeksGestation: weeks,
+          trimester: weeks <= 12 ? 1 : weeks <= 27 ? 2 : 3,
+        },
+        medicalHistory: { conditions: [], medications: [], allergies: [] },
+        riskFactors: [],
+        vitalSigns: vital ? this.toVitalSigns(vital) : undefined,
+        history: historyReadings.length > 0 ? { vitals: historyReadings } : undefined,
+      },
+    };
+  }
+
+  /**
+   * Gestational week when the assessment ran, from the due date, else from
+   * the week on the profile when it was last updated
+   */
+  private weekAtAssessment(profile: any, assessedAt: Date): number | undefined {
+    if (profile?.due_date) {
+      const due = new Date(profile.due_date);
+      if (!isNaN(due.getTime())) {
+        const week = TERM_WEEKS - Math.ceil((due.getTime() - assessedAt.getTime()) / (7 * DAY_MS));
+        if (week >= 0 && week <= TERM_WEEKS + 4) return week;
+      }
+    }
+
+    if (typeof profile?.gestational_age_weeks === 'number') {
+      const recordedAt = profile.updated_at ? new Date(profile.updated_at) : new Date();
+      const weeksSince = Math.floor((recordedAt.getTime() - assessedAt.getTime()) / (7 * DAY_MS));
+      const week = profile.gestational_age_weeks - Math.max(weeksSince, 0);
+      if (week >= 0) return week;
+    }
+
+    return undefined;
+  }
+
+  private toVitalSigns(vital: any): VitalSignsInput {
+    return {
+      systolicBP: vital.systolic_bp ?? undefined,
+      diastolicBP: vital.diastolic_bp ?? undefined,
+      heartRate: vital.heart_rate ?? undefined,
+      temperature: vital.temperature ?? undefined,
+      weight: vital.weight ?? undefined,
+      oxygenSaturation: vital.oxygen_saturation ?? undefined,
+    };
+  }
+
+  private normalizeSeverity(severity: string | undefined): SymptomInput['severity'] {
+    const allowed: SymptomInput['severity'][] = ['mild', 'moderate', 'severe', 'critical'];
+    return allowed.includes(severity as SymptomInput['severity'])
+      ? severity as SymptomInput['severity']
+      : 'moderate';
+  }
+
+  private buildBreakdown(transitions: Record<RiskLevel, Record<RiskLevel, number>>): RiskLevelBreakdown[] {
+    return RISK_LEVELS.map(level => {
+      const row = transitions[level];
+      return {
+        level,
+        baselineCount: RISK_LEVELS.reduce((sum, to) => sum + row[to], 0),
+        candidateCount: RISK_LEVELS.reduce((sum, from) => sum + transitions[from][level], 0),
+        escalatedFrom: RISK_LEVELS.filter(to => this.levelIndex(to) > this.levelIndex(level))
+          .reduce((sum, to) => sum + row[to], 0),
+        deescalatedFrom: RISK_LEVELS.filter(to => this.levelIndex(to) < this.levelIndex(level))
+          .reduce((sum, to) => sum + row[to], 0),
+      };
+    });
+  }
+
+  private emptyTransitions(): Record<RiskLevel, Record<RiskLevel, number>> {
+    const transitions = {} as Record<RiskLevel, Record<RiskLevel, number>>;
+    for (const from of RISK_LEVELS) {
+      transitions[from] = { level_1: 0, level_2: 0, level_3: 0, level_4: 0 };
+    }
+    return transitions;
+  }
+
+  private levelIndex(level: RiskLevel): number {
+    return RISK_LEVELS.indexOf(level);
+  }
+}
+
+// Export singleton instance
+export const ruleBacktester = new RuleBacktester();
+export default ruleBacktester;
@@ -0,0 +1,247 @@
+/**
+ * Shadow Mode Evaluator for Maternal Health AI
+ *
+ * Implements:
+ * - Comparison of production and shadow candidate replies to the same turn
+ * - Logging of every comparison, with risk level and escalation
+ *   disagreements flagged
+ * - Disagreement dashboard aggregates for judging a candidate before promotion
+ */
+
+import { supabase } from '@/lib/supabase';
+import { RiskLevel } from '@/types/database.types';
+import type { AIResponse, ConversationContext, Intent } from './AIConversationalEngine';
+import { DEFAULT_MODEL_VERSION } from './ModelVersionRegistry';
+
+// Types
+export interface ShadowComparison {
+  sessionId: string;
+  productionVersion: string;
+  candidateVersion: string;
+  productionIntent: Intent;
+  candidateIntent?: Intent;
+  productionRiskLevel: RiskLevel;
+  candidateRiskLevel?: RiskLevel;
+  productionEscalation: boolean;
+  candidateEscalation?: boolean;
+  riskDisagreement: boolean;
+  escalationDisagreement: boolean;
+  /** Candidate minus production risk level; negative when the candidate triages lower */
+  riskDelta: number;
+  symptoms: string[];
+  candidateLatencyMs?: number;
+  candidateError?: string;
+  createdAt: string;
+}
+
+export interface ShadowDashboardQuery {
+  since?: string;
+  /** Most recent comparisons to aggregate */
+  limit?: number;
+}
+
+export interface ShadowDashboard {
+  candidateVersion: string;
+  productionVersions: string[];
+  totalComparisons: number;
+  agreementRate: number;
+  riskDisagreements: number;
+  escalationDisagreements: number;
+  candidateHigherRisk: number;
+  candidateLowerRisk: number;
+  /** Production escalated and the candidate did not */
+  missedEscalations: number;
+  /** The candidate escalated and production did not */
+  addedEscalations: number;
+  candidateErrors: number;
+  /** Counts of production (row) to candidate (column) risk levels */
+  transitions: Record<RiskLevel, Record<RiskLevel, number>>;
+  averageCandidateLatencyMs: number;
+  /** Most recent disagreements, newest first */
+  recentDisagreements: ShadowComparison[];
+}
+
+const RISK_LEVELS: RiskLevel[] = ['level_1', 'level_2', 'level_3', 'level_4'];
+const DASHBOARD_LIMIT = 1000;
+const RECENT_DISAGREEMENTS = 25;
+
+class ShadowModeEvaluator {
+  /**
+   * Compare the candidate reply with the production reply to the same turn
+   */
+  compare(
+    context: ConversationContext,
+    production: AIResponse,
+    candidate: AIResponse,
+    latencyMs: number
+  ): ShadowComparison {
+    const riskDelta = this.levelIndex(candidate.riskLevel) - this.levelIndex(production.riskLevel);
+    return {
+      ...this.productionSide(context, production),
+      candidateVersion: candidate.modelVersion || DEFAULT_MODEL_VERSION,
+      candidateIntent: candidate.intent,
+      candidateRiskLevel: candidate.riskLevel,
+      candidateEscalation: candidate.requiresEscalation,
+      riskDisagreement: riskDelta !== 0,
+      escalationDisagreement: candidate.requiresEscalation !== production.requiresEscalation,
+      riskDelta,
+      candidateLatencyMs: latencyMs,
+    };
+  }
+
+  async record(
+    context: ConversationContext,
+    production: AIResponse,
+    candidate: AIResponse,
+    latencyMs: number
+  ): Promise<void> {
+    await this.insert(context.userId, this.compare(context, production, candidate, latencyMs));
+  }
+
+  /**
+   * Log a turn the candidate could not answer
+   */
+  async recordFailure(
+    context: ConversationContext,
+    production: AIResponse,
+    candidateVersion: string,
+    error: unknown
+  ): Promise<void> {
+    await this.insert(context.userId, {
+      ...this.productionSide(context, production),
+      candidateVersion,
+      riskDisagreement: false,
+      escalationDisagreement: false,
+      riskDelta: 0,
+      candidateError: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /**
+   * Aggregate logged comparisons of a candidate version
+   */
+  async getDashboard(candidateVersion: string, query: ShadowDashboardQuery = {}): Promise<ShadowDashboard> {
+    let request = (supabase as any)
+      .from('ai_shadow_comparisons')
+      .select('*')
+      .eq('candidate_version', candidateVersion)
+      .order('created_at', { ascending: false })
+      .limit(query.limit || DASHBOARD_LIMIT);
+
+    if (query.since) request = request.gte('created_at', query.since);
+
+    const { data, error } = await request;
+    if (error) throw error;
+
+    const comparisons: ShadowComparison[] = (data || []).map((row: any) => this.toComparison(row));
+    const answered = comparisons.filter(c => !c.candidateError);
+    const disagreements = answered.filter(c => c.riskDisagreement || c.escalationDisagreement);
+
+    const transitions = this.emptyTransitions();
+    for (const c of answered) {
+      transitions[c.productionRiskLevel][c.candidateRiskLevel!]++;
+    }
+
+    const latencies = answered.map(c => c.candidateLatencyMs).filter((ms): ms is number => typeof ms === 'number');
+
+    return {
+      candidateVersion,
+      productionVersions: Array.from(new Set(comparisons.map(c => c.productionVersion))),
+      totalComparisons: comparisons.length,
+      agreementRate: answered.length > 0 ? (answered.length - disagreements.length) / answered.length : 0,
+      riskDisagreements: answered.filter(c => c.riskDisagreement).length,
+      escalationDisagreements: answered.filter(c => c.escalationDisagreement).length,
+      candidateHigherRisk: answered.filter(c => c.riskDelta > 0).length,
+      candidateLowerRisk: answered.filter(c => c.riskDelta < 0).length,
+      missedEscalations: answered.filter(c => c.productionEscalation && !c.candidateEscalation).length,
+      addedEscalations: answered.filter(c => !c.productionEscalation && c.candidateEscalation).length,
+      candidateErrors: comparisons.length - answered.length,
+      transitions,
+      averageCandidateLatencyMs: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length)
+        : 0,
+      recentDisagreements: disagreements.slice(0, RECENT_DISAGREEMENTS),
+    };
+  }
+
+  private productionSide(
+    context: ConversationContext,
+    production: AIResponse
+  ): Pick<
+    ShadowComparison,
+    'sessionId' | 'productionVersion' | 'productionIntent' | 'productionRiskLevel' | 'productionEscalation' | 'symptoms' | 'createdAt'
+  > {
+    return {
+      sessionId: context.sessionId,
+      productionVersion: production.modelVersion || DEFAULT_MODEL_VERSION,
+      productionIntent: production.intent,
+      productionRiskLevel: production.riskLevel,
+      productionEscalation: production.requiresEscalation,
+      symptoms: production.extractedSymptoms.map(s => s.name),
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private async insert(userId: string, comparison: ShadowComparison): Promise<void> {
+    try {
+      await (supabase as any).from('ai_shadow_comparisons').insert({
+        session_id: comparison.sessionId,
+        user_id: userId,
+        production_version: comparison.productionVersion,
+        candidate_version: comparison.candidateVersion,
+        production_intent: comparison.productionIntent,
+        candidate_intent: comparison.candidateIntent,
+        production_risk_level: comparison.productionRiskLevel,
+        candidate_risk_level: comparison.candidateRiskLevel,
+        production_escalation: comparison.productionEscalation,
+        candidate_escalation: comparison.candidateEscalation,
+        risk_disagreement: comparison.riskDisagreement,
+        escalation_disagreement: comparison.escalationDisagreement,
+        risk_delta: comparison.riskDelta,
+        symptoms: comparison.symptoms,
+        candidate_latency_ms: comparison.candidateLatencyMs,
+        candidate_error: comparison.candidateError,
+        created_at: comparison.createdAt,
+      });
+    } catch (error) {
+      console.log('Shadow comparison logging not available:', error);
+    }
+  }
+
+  private toComparison(row: any): ShadowComparison {
+    return {
+      sessionId: row.session_id,
+      productionVersion: row.production_version,
+      candidateVersion: row.candidate_version,
+      productionIntent: row.production_intent,
+      candidateIntent: row.candidate_intent || undefined,
+      productionRiskLevel: row.production_risk_level,
+      candidateRiskLevel: row.candidate_risk_level || undefined,
+      productionEscalation: row.production_escalation,
+      candidateEscalation: row.candidate_escalation ?? undefined,
+      riskDisagreement: row.risk_disagreement,
+      escalationDisagreement: row.escalation_disagreement,
+      riskDelta: row.risk_delta || 0,
+      symptoms: row.symptoms || [],
+      candidateLatencyMs: row.candidate_latency_ms ?? undefined,
+      candidateError: row.candidate_error || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
+  private emptyTransitions(): Record<RiskLevel, Record<RiskLevel, number>> {
+    const transitions = {} as Record<RiskLevel, Record<RiskLevel, number>>;
+    for (const from of RISK_LEVELS) {
+      transitions[from] = { level_1: 0, level_2: 0, level_3: 0, level_4: 0 };
+    }
+    return transitions;
+  }
+
+  private levelIndex(level: RiskLevel): number {
+    return RISK_LEVELS.indexOf(level);
+  }
+}
+
+// Export singleton instance
+export const shadowModeEvaluator = new ShadowModeEvaluator();
+export default shadowModeEvaluator;
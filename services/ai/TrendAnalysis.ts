@@ -0,0 +1,260 @@
+/**
+ * Trend Analysis for Maternal Health AI
+ *
+ * Implements:
+ * - Vital sign history assembly from monitoring and pregnancy tracker data
+ * - Temporal measures used by knowledge pack trend rules:
+ *   slope, delta from baseline and consecutive abnormal readings
+ */
+
+import { monitoringService } from '@/services/monitoringService';
+import { pregnancyTrackerService } from '@/services/pregnancyTrackerService';
+import type { VitalHistory, VitalReading } from './DiagnosticReasoningEngine';
+
+// Types
+export type TrendSeries =
+  | 'systolicBP'
+  | 'diastolicBP'
+  | 'heartRate'
+  | 'temperature'
+  | 'oxygenSaturation'
+  | 'weight'
+  | 'weeklyWeight'
+  | 'fetalMovements';
+
+export type TrendMeasure = 'slope' | 'deltaFromBaseline' | 'consecutiveAbnormal';
+
+export interface TrendPoint {
+  at?: string;
+  /** Gestational week, for series recorded once a week */
+  week?: number;
+  value: number;
+}
+
+export interface TrendWindow {
+  /** Use only the last N points */
+  window?: number;
+  /** Use only points recorded within the last N days (dated series only) */
+  windowDays?: number;
+  /** Use only points recorded within N weeks of the latest (week-numbered series only) */
+  windowWeeks?: number;
+}
+
+export interface AbnormalThreshold {
+  op: '>' | '>=' | '<' | '<=';
+  value: number;
+}
+
+export interface TrendMeasurement {
+  value?: number;
+  pointsUsed: number;
+}
+
+export const TREND_SERIES: TrendSeries[] = [
+  'systolicBP', 'diastolicBP', 'heartRate', 'temperature', 'oxygenSaturation',
+  'weight', 'weeklyWeight', 'fetalMovements',
+];
+export const TREND_MEASURES: TrendMeasure[] = ['slope', 'deltaFromBaseline', 'consecutiveAbnormal'];
+
+// A reading older than this is history, not the mother's current vitals
+const CURRENT_READING_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const SERIES_UNITS: Record<TrendSeries, string> = {
+  systolicBP: 'mmHg',
+  diastolicBP: 'mmHg',
+  heartRate: 'bpm',
+  temperature: '°C',
+  oxygenSaturation: '%',
+  weight: 'kg',
+  weeklyWeight: 'kg',
+  fetalMovements: 'kicks',
+};
+
+/**
+ * Extract a single series from history, oldest first
+ */
+export function getSeries(history: VitalHistory | undefined, series: TrendSeries): TrendPoint[] {
+  if (!history) return [];
+
+  if (series === 'weeklyWeight') {
+    return (history.weeklyWeights || [])
+      .slice()
+      .sort((a, b) => a.week - b.week)
+      .map(w => ({ week: w.week, value: w.weight }));
+  }
+
+  if (series === 'fetalMovements') {
+    return (history.fetalMovements || [])
+      .slice()
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(m => ({ at: m.date, value: m.count }));
+  }
+
+  return history.vitals
+    .filter(v => typeof v[series] === 'number')
+    .slice()
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+    .map(v => ({ at: v.recordedAt, value: v[series] as number }));
+}
+
+/**
+ * Restrict a series to a window of recent points
+ */
+export function applyWindow(points: TrendPoint[], window: TrendWindow): TrendPoint[] {
+  let result = points;
+
+  if (window.windowDays !== undefined && result.length > 0) {
+    const latest = result[result.length - 1].at;
+    if (latest) {
+      const cutoff = new Date(latest).getTime() - window.windowDays * 24 * 60 * 60 * 1000;
+      result = result.filter(p => p.at && new Date(p.at).getTime() >= cutoff);
+    }
+  }
+
+  if (window.windowWeeks !== undefined && result.length > 0) {
+    const latest = result[result.length - 1].week;
+    if (latest !== undefined) {
+      result = result.filter(p => p.week !== undefined && p.week >= latest - window.windowWeeks!);
+    }
+  }
+
+  if (window.window !== undefined) {
+    result = result.slice(-window.window);
+  }
+
+  return result;
+}
+
+/**
+ * Least-squares slope per reading. Requires at least two points.
+ */
+export function slope(points: TrendPoint[]): TrendMeasurement {
+  const n = points.length;
+  if (n < 2) return { pointsUsed: n };
+
+  const meanX = (n - 1) / 2;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach((p, i) => {
+    numerator += (i - meanX) * (p.value - meanY);
+    denominator += (i - meanX) ** 2;
+  });
+
+  return { value: numerator / denominator, pointsUsed: n };
+}
+
+/**
+ * Latest value minus the first value in the window
+ */
+export function deltaFromBaseline(points: TrendPoint[]): TrendMeasurement {
+  if (points.length < 2) return { pointsUsed: points.length };
+  return {
+    value: points[points.length - 1].value - points[0].value,
+    pointsUsed: points.length,
+  };
+}
+
+/**
+ * Number of most recent consecutive readings beyond a threshold
+ */
+export function consecutiveAbnormal(points: TrendPoint[], threshold: AbnormalThreshold): TrendMeasurement {
+  let count = 0;
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (!isAbnormal(points[i].value, threshold)) break;
+    count++;
+  }
+  return { value: count, pointsUsed: points.length };
+}
+
+/**
+ * Compute a temporal measure over a history series
+ */
+export function measureTrend(
+  history: VitalHistory | undefined,
+  series: TrendSeries,
+  measure: TrendMeasure,
+  window: TrendWindow = {},
+  abnormal?: AbnormalThreshold
+): TrendMeasurement {
+  const points = applyWindow(getSeries(history, series), window);
+
+  switch (measure) {
+    case 'slope':
+      return slope(points);
+    case 'deltaFromBaseline':
+      return deltaFromBaseline(points);
+    case 'consecutiveAbnormal':
+      return abnormal ? consecutiveAbnormal(points, abnormal) : { pointsUsed: points.length };
+  }
+}
+
+export function describeMeasure(series: TrendSeries, measure: TrendMeasure, window: TrendWindow = {}, abnormal?: AbnormalThreshold): string {
+  const unit = SERIES_UNITS[series];
+  const scope = window.windowDays !== undefined
+    ? ` over ${window.windowDays} days`
+    : window.windowWeeks !== undefined
+      ? ` over ${window.windowWeeks} week${window.windowWeeks === 1 ? '' : 's'}`
+      : window.window !== undefined ? ` over last ${window.window} readings` : '';
+
+  switch (measure) {
+    case 'slope':
+      return `${series} change per reading (${unit})${scope}`;
+    case 'deltaFromBaseline':
+      return `${series} change from baseline (${unit})${scope}`;
+    case 'consecutiveAbnormal':
+      return `consecutive ${series} readings ${abnormal?.op ?? '?'} ${abnormal?.value ?? '?'} ${unit}${scope}`;
+  }
+}
+
+function isAbnormal(value: number, threshold: AbnormalThreshold): boolean {
+  switch (threshold.op) {
+    case '>': return value > threshold.value;
+    case '>=': return value >= threshold.value;
+    case '<': return value < threshold.value;
+    case '<=': return value <= threshold.value;
+  }
+}
+
+/**
+ * Assemble a mother's vital sign history for trend-aware diagnostics
+ */
+export async function loadVitalHistory(motherId: string, days: number = 14): Promise<VitalHistory> {
+  const [vitalTrends, weightTrend, movementTrend] = await Promise.all([
+    monitoringService.getVitalTrends(motherId, days),
+    pregnancyTrackerService.getWeightTrend(motherId).catch(() => []),
+    pregnancyTrackerService.getMovementTrend(motherId, days).catch(() => []),
+  ]);
+
+  // getVitalTrends returns one array per measure, all aligned on recorded_at
+  const vitals: VitalReading[] = vitalTrends.bloodPressure.map((bp, i) => ({
+    recordedAt: bp.date,
+    systolicBP: bp.systolic ?? undefined,
+    diastolicBP: bp.diastolic ?? undefined,
+    heartRate: vitalTrends.heartRate[i]?.value ?? undefined,
+    weight: vitalTrends.weight[i]?.value ?? undefined,
+    temperature: vitalTrends.temperature[i]?.value ?? undefined,
+    oxygenSaturation: vitalTrends.oxygenSaturation[i]?.value ?? undefined,
+  }));
+
+  return {
+    vitals,
+    weeklyWeights: weightTrend,
+    fetalMovements: movementTrend.map((m: any) => ({
+      date: m.recorded_date,
+      count: m.fetal_movement_count,
+      week: m.week_number,
+    })),
+  };
+}
+
+/**
+ * Latest reading in a history, if taken within the last day. Older readings
+ * still inform trends but are not assessed as the mother's current vitals.
+ */
+export function latestReading(history: VitalHistory | undefined, now: Date = new Date()): VitalReading | undefined {
+  if (!history || history.vitals.length === 0) return undefined;
+  const latest = history.vitals.reduce((latest, v) => (v.recordedAt > latest.recordedAt ? v : latest));
+  const age = now.getTime() - new Date(latest.recordedAt).getTime();
+  return age <= CURRENT_READING_MAX_AGE_MS ? latest : undefined;
+}
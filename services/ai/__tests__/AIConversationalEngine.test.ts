@@ -0,0 +1,99 @@
+import { aiConversationalEngine } from '../AIConversationalEngine';
+
+jest.mock('@/lib/supabase');
+
+const { tables } = jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+let session = 0;
+const send = (message: string, sessionId = `session-${++session}`, userId = 'mother-1') =>
+  aiConversationalEngine.processMessage(sessionId, userId, 'mother', message, 30, { persist: false });
+
+describe('AIConversationalEngine emergency detection', () => {
+  it.each([
+    'I am not ok, heavy bleeding',
+    "I'm not ok, bleeding heavily",
+    'There is no way to stop the heavy bleeding',
+    'I have no idea why I have heavy bleeding',
+    'what is this heavy bleeding',
+    'If I stand up I get a severe headache',
+    'I can not prevent the contractions',
+    'I have no appetite and heavy bleeding',
+    'No one is home and bleeding heavily',
+  ])('escalates "%s"', async message => {
+    const response = await send(message);
+
+    expect(response.requiresEscalation).toBe(true);
+    expect(response.riskLevel).toBe('level_4');
+  });
+
+  it('asks to confirm a negated emergency term instead of dropping it', async () => {
+    const response = await send('No heavy bleeding today');
+
+    expect(response.requiresEscalation).toBe(false);
+    expect(response.riskLevel).toBe('level_2');
+    expect(response.message).toContain('heavy bleeding');
+  });
+
+  it('escalates when the mother confirms', async () => {
+    await send('My sister had a seizure', 'confirm-yes');
+    const response = await send('yes', 'confirm-yes');
+
+    expect(response.requiresEscalation).toBe(true);
+    expect(response.riskLevel).toBe('level_4');
+  });
+
+  it('does not escalate when the mother says no', async () => {
+    await send('My sister had a seizure', 'confirm-no');
+    const response = await send('no', 'confirm-no');
+
+    expect(response.requiresEscalation).toBe(false);
+  });
+});
+
+describe('AIConversationalEngine emergency detection in other languages', () => {
+  beforeAll(() => {
+    tables.language_preferences = ['fr', 'sw', 'ha', 'tw'].map(language => ({
+      user_id: `mother-${language}`,
+      preferred_language: language,
+    }));
+  });
+
+  it.each([
+    ['fr', "Je n'ai plus de force, saignement abondant"],
+    ['sw', 'Sina nguvu, damu nyingi'],
+    ['ha', 'Ba ni da lafiya, jini mai yawa'],
+    ['tw', 'Menni ahoɔden, mogya pii'],
+  ])('escalates a %s message that negates something else', async (language, message) => {
+    const response = await send(message, undefined, `mother-${language}`);
+
+    expect(response.requiresEscalation).toBe(true);
+    expect(response.riskLevel).toBe('level_4');
+  });
+
+  it("asks to confirm a relative's emergency instead of escalating", async () => {
+    const response = await send('Ma sœur a eu des convulsions', undefined, 'mother-fr');
+
+    expect(response.requiresEscalation).toBe(false);
+    expect(response.riskLevel).toBe('level_2');
+  });
+});
+
+describe('AIConversationalEngine conversation logging', () => {
+  it("records the reply with the mother's id and the model version", async () => {
+    tables.ai_conversations = [];
+
+    await aiConversationalEngine.processMessage('logged-session', 'mother-logged', 'mother', 'Is it safe to eat eggs?', 30);
+
+    expect(tables.ai_conversations).toEqual([
+      expect.objectContaining({
+        session_id: 'logged-session',
+        user_id: 'mother-logged',
+        model_version: expect.any(String),
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,31 @@
+import { supabase } from '@/lib/supabase';
+import { AGENT_REGISTRY_SETTING, agentRegistry } from '../AgentRegistry';
+// The orchestrator registers the agents
+import '../MultiAgentSystem';
+
+jest.mock('@/lib/supabase');
+
+const { tables, resetDatabase } = jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+describe('AgentRegistry', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('uses the default settings when stored ones do not load in time, and retries on the next run', async () => {
+    tables.system_settings = [{ key: AGENT_REGISTRY_SETTING, value: { nutrition_agent: { enabled: false } } }];
+    const from = supabase.from;
+    const hanging = jest.spyOn(supabase, 'from').mockImplementation(((table: string) =>
+      table === 'system_settings'
+        ? { select: () => ({ eq: () => ({ maybeSingle: () => new Promise(() => {}) }) }) }
+        : from(table)) as any);
+
+    const defaults = await agentRegistry.getAgents();
+    expect(defaults.find(r => r.agent.id === 'nutrition_agent')!.enabled).toBe(true);
+
+    hanging.mockRestore();
+    const stored = await agentRegistry.getAgents();
+    expect(stored.find(r => r.agent.id === 'nutrition_agent')!.enabled).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { clinicalContextAnalyzer } from '../ClinicalContextAnalyzer';
+import { getLexicon, getNegationRules } from '../lexicons';
+
+describe('ClinicalContextAnalyzer', () => {
+  it('labels every phrase of the bundled corpus correctly', () => {
+    const evaluation = clinicalContextAnalyzer.evaluateCorpus();
+
+    expect(evaluation.failures).toEqual([]);
+    expect(evaluation.missedEscalations).toBe(0);
+  });
+
+  it('ends a negation at a comma', () => {
+    const [finding] = clinicalContextAnalyzer.analyzeTerm('I am not ok, heavy bleeding', 'heavy bleeding');
+
+    expect(finding.context.negated).toBe(false);
+    expect(clinicalContextAnalyzer.isActionable(finding.context)).toBe(true);
+  });
+
+  it('still negates a finding in the same clause', () => {
+    const [finding] = clinicalContextAnalyzer.analyzeTerm('I have no heavy bleeding today', 'heavy bleeding');
+
+    expect(finding.context.negated).toBe(true);
+  });
+
+  it('covers every supported language in the corpus', () => {
+    const languages = new Set(clinicalContextAnalyzer.getCorpus().map(phrase => phrase.language || 'en'));
+
+    expect([...languages].sort()).toEqual(['en', 'fr', 'ha', 'sw', 'tw']);
+  });
+
+  it.each([
+    ['sw', 'Sina nguvu damu nyingi', 'damu nyingi'],
+    ['ha', 'Ba ni da lafiya jini mai yawa', 'jini mai yawa'],
+    ['tw', 'Menni ahoɔden mogya pii', 'mogya pii'],
+  ])('limits a %s negation to the word that follows it', (language, text, term) => {
+    const rules = getNegationRules(getLexicon(language));
+    const [finding] = clinicalContextAnalyzer.analyzeTerm(text, term, rules);
+
+    expect(finding.context.negated).toBe(false);
+  });
+
+  it('attributes a finding to a relative in French', () => {
+    const rules = getNegationRules(getLexicon('fr'));
+    const [finding] = clinicalContextAnalyzer.analyzeTerm('Ma sœur a eu des convulsions', 'convulsions', rules);
+
+    expect(finding.context.experiencer).toBe('other');
+  });
+});
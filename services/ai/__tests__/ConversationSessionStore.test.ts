@@ -0,0 +1,38 @@
+import { aiConversationalEngine } from '../AIConversationalEngine';
+
+jest.mock('@/lib/supabase');
+
+const { tables, failures, resetDatabase } =
+  jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+describe('ConversationSessionStore.saveTurn', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(() => resetDatabase());
+
+  it('creates the session on a later turn when the first save failed', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    failures.ai_chat_sessions = { message: 'network error' };
+    await aiConversationalEngine.processMessage('session-retry', 'mother-1', 'mother', 'What foods are good for iron?', 20);
+
+    expect(error).toHaveBeenCalledWith('Error saving chat turn:', failures.ai_chat_sessions);
+    expect(tables.ai_chat_messages).toBeUndefined();
+
+    delete failures.ai_chat_sessions;
+    await aiConversationalEngine.processMessage('session-retry', 'mother-1', 'mother', 'And calcium?', 20);
+
+    expect(tables.ai_chat_sessions).toEqual([
+      expect.objectContaining({ id: 'session-retry', user_id: 'mother-1', message_count: 4 }),
+    ]);
+    expect(tables.ai_chat_messages).toHaveLength(2);
+  });
+
+  it('keeps the title of the first turn', async () => {
+    await aiConversationalEngine.processMessage('session-title', 'mother-1', 'mother', 'What foods are good for iron?', 20);
+    await aiConversationalEngine.processMessage('session-title', 'mother-1', 'mother', 'And calcium?', 20);
+
+    expect(tables.ai_chat_sessions[0].title).toContain('iron');
+  });
+});
@@ -0,0 +1,43 @@
+import { knowledgeCompiler } from '../KnowledgeCompiler';
+
+jest.mock('@/lib/supabase');
+
+const { tables, failures, resetDatabase } = jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+describe('KnowledgeCompiler', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    tables.ai_learning_candidates = [{
+      id: 'candidate-1',
+      type: 'symptom_pattern',
+      priority: 'medium',
+      description: 'Mothers describe swelling as puffy',
+      source_conversations: ['conversation-1'],
+      suggested_addition: {
+        change: { kind: 'symptom_pattern', terms: ['puffy ankles'], symptom: 'swelling', severity: 'mild' },
+      },
+      status: 'approved',
+      created_at: '2026-10-01T00:00:00.000Z',
+    }];
+  });
+
+  it('marks the candidates implemented by the recorded version', async () => {
+    const result = await knowledgeCompiler.compile('admin-1');
+
+    expect(result.modelVersion).toMatch(/\+learn\.\d{8}T\d{6}$/);
+    expect(tables.ai_model_versions.map(v => v.version)).toEqual([result.modelVersion]);
+    expect(tables.ai_learning_candidates[0]).toMatchObject({
+      status: 'implemented',
+      implemented_in_version: result.modelVersion,
+    });
+  });
+
+  it('leaves the candidates approved when the version is not recorded', async () => {
+    failures.ai_model_versions = { message: 'duplicate key value violates unique constraint' };
+
+    await expect(knowledgeCompiler.compile('admin-1')).rejects.toThrow(/Couldn't record model version/);
+    expect(tables.ai_learning_candidates[0].status).toBe('approved');
+  });
+});
@@ -0,0 +1,163 @@
+import { learningSystem } from '../LearningSystem';
+
+jest.mock('@/lib/supabase');
+
+const { tables, rpcs, failures, resetDatabase } =
+  jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+describe('LearningSystem.storeConversation', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    resetDatabase();
+    rpcs.ai_pseudonymize = ({ p_contents }: { p_contents: string[] }) => ({
+      key_version: 1,
+      user: 'user-pseudonym',
+      contents: p_contents.map((_, i) => `p1_${i}`),
+    });
+  });
+
+  it('stores a pseudonym of the session id instead of the raw id', async () => {
+    const id = await learningSystem.storeConversation(
+      'session-raw-1',
+      'mother-1',
+      [
+        { role: 'user', content: 'Is it safe to eat eggs?', timestamp: new Date() },
+        { role: 'assistant', content: 'Yes, when fully cooked.', timestamp: new Date() },
+      ],
+      { symptoms: [], riskLevel: 'low', topIntent: 'nutrition', emotionalTone: 'neutral', escalationTriggered: false },
+      []
+    );
+
+    expect(id).not.toBeNull();
+    expect(tables.ai_learning_conversations).toEqual([
+      expect.objectContaining({ session_id: 'p1_2', anonymized_user_id: 'user-pseudonym' }),
+    ]);
+    expect(JSON.stringify(tables.ai_learning_conversations)).not.toContain('session-raw-1');
+  });
+});
+
+describe('LearningSystem.getAgentConflictSummary', () => {
+  beforeEach(() => resetDatabase());
+
+  it('aggregates only the most recent conflicts', async () => {
+    tables.ai_agent_conflicts = [
+      { dimension: 'urgency', cautious_agent: 'Triage Agent', lenient_agent: 'Nutrition Agent', gap: 1, created_at: '2026-10-01T00:00:00Z' },
+      { dimension: 'urgency', cautious_agent: 'Triage Agent', lenient_agent: 'Nutrition Agent', gap: 2, created_at: '2026-10-03T00:00:00Z' },
+      { dimension: 'recommendation', cautious_agent: 'Triage Agent', lenient_agent: 'Education Agent', gap: 1, created_at: '2026-09-01T00:00:00Z' },
+    ];
+
+    const summary = await learningSystem.getAgentConflictSummary(undefined, 2);
+
+    expect(summary).toEqual([
+      expect.objectContaining({ lenientAgent: 'Nutrition Agent', count: 2, averageGap: 1.5, lastSeenAt: '2026-10-03T00:00:00Z' }),
+    ]);
+  });
+});
+
+describe('LearningSystem candidate clusters', () => {
+  const candidate = (id: string, createdAt: string) => ({
+    id,
+    type: 'new_pattern',
+    priority: 'medium',
+    description: 'Complex symptom pattern: headache, swelling',
+    source_conversations: [`conversation-${id}`],
+    suggested_addition: { category: 'symptom_report', context: { symptoms: ['headache', 'swelling'], trimester: 3, riskLevel: 'medium' } },
+    estimated_impact: 'Incremental improvement to model coverage',
+    status: 'pending',
+    created_at: createdAt,
+  });
+
+  // Mirrors the database function: every write or none
+  const mergeCandidates = ({ p_lead_id, p_member_ids, p_lead }: { p_lead_id: string; p_member_ids: string[]; p_lead: Record<string, any> }) => {
+    const rows = tables.ai_learning_candidates;
+    const lead = rows.find(r => r.id === p_lead_id && r.status === 'pending');
+    const members = rows.filter(r => p_member_ids.includes(r.id) && r.id !== p_lead_id && r.status === 'pending');
+    if (!lead || members.length !== p_member_ids.length) throw new Error('Learning candidates changed since they were clustered');
+    members.forEach(m => Object.assign(m, { status: 'merged', merged_into: p_lead_id }));
+    Object.assign(lead, p_lead);
+    return members.length;
+  };
+
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    rpcs.ai_merge_learning_candidates = mergeCandidates;
+    tables.ai_learning_candidates = [
+      candidate('candidate-1', '2026-10-01T00:00:00.000Z'),
+      candidate('candidate-2', '2026-10-02T00:00:00.000Z'),
+    ];
+  });
+
+  it('clusters pending candidates for review without storing the merge', async () => {
+    const pending = await learningSystem.getPendingCandidates();
+
+    expect(pending.map(c => c.id)).toEqual(['candidate-1']);
+    expect(pending[0].cluster!.frequency).toBe(2);
+    expect(tables.ai_learning_candidates.map(c => c.status)).toEqual(['pending', 'pending']);
+  });
+
+  it('stores each cluster on its earliest member when merging', async () => {
+    expect(await learningSystem.mergePendingCandidates()).toBe(1);
+
+    expect(tables.ai_learning_candidates[0]).toMatchObject({ status: 'pending', frequency: 2 });
+    expect(tables.ai_learning_candidates[1]).toMatchObject({ status: 'merged', merged_into: 'candidate-1' });
+  });
+
+  it('leaves every candidate pending when the merge cannot be stored', async () => {
+    delete rpcs.ai_merge_learning_candidates;
+
+    await expect(learningSystem.mergePendingCandidates()).rejects.toBeDefined();
+    expect(tables.ai_learning_candidates.map(c => [c.status, c.frequency])).toEqual([
+      ['pending', undefined],
+      ['pending', undefined],
+    ]);
+  });
+
+  it('merges candidates beyond the first page of pending candidates', async () => {
+    tables.ai_learning_candidates = Array.from({ length: 600 }, (_, i) =>
+      candidate(`candidate-${i + 1}`, new Date(Date.UTC(2026, 8, 1) + i * 60000).toISOString())
+    );
+
+    expect(await learningSystem.mergePendingCandidates()).toBe(599);
+    expect(tables.ai_learning_candidates[0].frequency).toBe(600);
+  });
+
+  it('applies a review decision to every candidate in the cluster', async () => {
+    expect(await learningSystem.rejectLearningCandidate('candidate-1', 'admin-user-1', 'Rejected by admin')).toBe(true);
+
+    expect(tables.ai_learning_candidates[0]).toMatchObject({ status: 'rejected', frequency: 2 });
+    expect(tables.ai_learning_candidates[1]).toMatchObject({ status: 'merged', merged_into: 'candidate-1' });
+    expect(await learningSystem.getPendingCandidates()).toEqual([]);
+  });
+});
+
+describe('LearningSystem candidate review', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    tables.ai_learning_candidates = [{ id: 'candidate-1', status: 'pending', suggested_addition: {} }];
+  });
+
+  it('stores the approval with the reviewing admin and the change', async () => {
+    const change = { kind: 'intent_pattern' as const, terms: ['baby kicks'], intent: 'symptom_report' as const };
+
+    expect(await learningSystem.approveLearningCandidate('candidate-1', 'admin-user-1', undefined, change)).toBe(true);
+    expect(tables.ai_learning_candidates[0]).toMatchObject({
+      status: 'approved',
+      reviewed_by: 'admin-user-1',
+      suggested_addition: { change },
+    });
+  });
+
+  it('reports an approval or rejection that was not stored', async () => {
+    failures.ai_learning_candidates = { message: 'invalid input syntax for type uuid' };
+
+    expect(await learningSystem.approveLearningCandidate('candidate-1', 'admin-user-1')).toBe(false);
+    expect(await learningSystem.rejectLearningCandidate('candidate-1', 'admin-user-1', 'Rejected by admin')).toBe(false);
+    expect(tables.ai_learning_candidates[0].status).toBe('pending');
+  });
+});
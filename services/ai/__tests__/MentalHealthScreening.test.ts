@@ -0,0 +1,37 @@
+import { mentalHealthScreening } from '../MentalHealthScreening';
+
+describe('MentalHealthScreening', () => {
+  it.each(['hurting', 'harming', 'killing', 'shaking', 'smothering', 'drowning'])(
+    'raises a harm-to-baby crisis for "I feel like %s my baby"',
+    verb => {
+      const screening = mentalHealthScreening.screen(`I feel like ${verb} my baby`);
+
+      expect(screening.level).toBe('crisis');
+      expect(screening.crisisType).toBe('harm_to_baby');
+    }
+  );
+
+  it.each([
+    ['fr', "J'ai envie de mourir", 'self_harm'],
+    ['fr', "J'ai peur de faire du mal à mon bébé", 'harm_to_baby'],
+    ['sw', 'Nataka kufa', 'self_harm'],
+    ['sw', 'Nina mawazo ya kumdhuru mtoto wangu', 'harm_to_baby'],
+    ['tw', 'Mepɛ sɛ mewu', 'self_harm'],
+    ['tw', 'Mepɛ sɛ mekum me ba', 'harm_to_baby'],
+    ['ha', 'Ina so in mutu', 'self_harm'],
+    ['ha', 'Ina tunanin cutar da jaririna', 'harm_to_baby'],
+  ])('raises a crisis for a %s message: "%s"', (_language, message, crisisType) => {
+    const screening = mentalHealthScreening.screen(message);
+
+    expect(screening.level).toBe('crisis');
+    expect(screening.crisisType).toBe(crisisType);
+  });
+
+  it('activates the mental health agent for crisis terms in other languages', () => {
+    expect(mentalHealthScreening.getPatterns().some(p => p.test('Nataka kufa'))).toBe(true);
+  });
+
+  it("applies the language's negation to its crisis terms", () => {
+    expect(mentalHealthScreening.screen("Je n'ai pas envie de mourir").level).toBe('none');
+  });
+});
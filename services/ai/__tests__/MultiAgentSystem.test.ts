@@ -0,0 +1,91 @@
+import { agentRegistry } from '../AgentRegistry';
+// The orchestrator registers the agents
+import { agentOrchestrator, AgentInput } from '../MultiAgentSystem';
+
+jest.mock('@/lib/supabase');
+
+const { tables, resetDatabase } =
+  jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+const medicationWeek = async (message: string, pregnancyWeek?: number) => {
+  const input: AgentInput = {
+    message,
+    userId: 'mother-1',
+    userRole: 'mother',
+    context: { pregnancyWeek, previousMessages: [] },
+  };
+  const output = await agentRegistry.get('medication_safety_agent')!.process(input);
+  return output.metadata.pregnancyWeek;
+};
+
+describe('MedicationSafetyAgent', () => {
+  it('reads the pregnancy week, not how long a medicine was taken', async () => {
+    expect(await medicationWeek('I have been taking ibuprofen for 3 weeks, I am 32 weeks pregnant', 32)).toBe(32);
+    expect(await medicationWeek('I have been taking ibuprofen for 3 weeks, I am 32 weeks pregnant')).toBe(32);
+  });
+
+  it('uses the context week when the message only says how long', async () => {
+    expect(await medicationWeek('I have been taking ibuprofen for 3 weeks', 32)).toBe(32);
+    expect(await medicationWeek('I started paracetamol 2 weeks ago', 30)).toBe(30);
+  });
+
+  it('prefers a week the mother states over the context', async () => {
+    expect(await medicationWeek('Can I take ibuprofen at 10 weeks?', 32)).toBe(10);
+  });
+});
+
+describe('NutritionAgent', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    tables.mother_profiles = [{ id: 'profile-1', user_id: 'mother-1' }];
+    tables.nutrition_logs = [
+      { mother_id: 'profile-1', meal_type: 'lunch', food_items: ['Spinach and beans'], logged_at: new Date().toISOString() },
+    ];
+  });
+
+  const nutrition = (message: string) =>
+    agentRegistry.get('nutrition_agent')!.process({
+      message,
+      userId: 'mother-1',
+      userRole: 'mother',
+      context: { pregnancyWeek: 20, previousMessages: [] },
+    });
+
+  it("reads the mother's meal logs under her profile id", async () => {
+    const output = await nutrition('What should I eat this week?');
+
+    expect(output.response).toContain('This week you logged 1 meals on 1 days.');
+  });
+
+  it('checks intake against the logs under her profile id', async () => {
+    const output = await nutrition('Am I getting enough iron?');
+
+    expect(output.metadata.intakeChecked).toBe(true);
+  });
+});
+
+describe('AgentOrchestrator conflict resolution', () => {
+  beforeEach(() => {
+    resetDatabase();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  const reply = async (message: string) => {
+    const result = await agentOrchestrator.process(
+      { message, userId: 'mother-1', userRole: 'mother', context: { pregnancyWeek: 32, previousMessages: [] } },
+      { persist: false }
+    );
+    return result.finalResponse;
+  };
+
+  it('names the warning sign behind the cautious advice', async () => {
+    expect(await reply('I have a bad headache and blurry vision')).toMatch(
+      /^A headache with changes in your vision can be a warning sign of preeclampsia\. Please contact your healthcare provider/
+    );
+  });
+
+  it('names the symptom when no warning sign matches', async () => {
+    expect(await reply('My feet are swelling a lot')).toMatch(/^You mentioned swelling\. Please contact your healthcare provider/);
+  });
+});
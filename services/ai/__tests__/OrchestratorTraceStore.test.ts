@@ -0,0 +1,73 @@
+import { orchestratorTraceStore, OrchestratorTrace, AgentTraceEntry } from '../OrchestratorTraceStore';
+
+jest.mock('@/lib/supabase');
+
+const { tables, resetDatabase } =
+  jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+const entry = (response: string, failed = false): AgentTraceEntry => ({
+  agentId: 'triage_agent',
+  agent: 'Triage Agent',
+  durationMs: 5,
+  output: { agentId: 'triage_agent', agentName: 'Triage Agent', response, confidence: 0.8, priority: 90, metadata: {} },
+  failure: failed ? { agentId: 'triage_agent', agent: 'Triage Agent', reason: 'timeout', detail: 'Timed out', fallbackUsed: true } : undefined,
+  selected: true,
+});
+
+const trace = (id: string, overrides: Partial<OrchestratorTrace> = {}): OrchestratorTrace => ({
+  id,
+  userId: 'user-1',
+  input: { message: 'My headache is bad', userRole: 'mother', context: { previousMessages: [] } },
+  configuration: [],
+  agents: [entry('Please rest')],
+  path: 'consensus',
+  draftResponse: 'Please rest',
+  finalResponse: 'Please rest',
+  requiresEscalation: false,
+  reasoning: { routingDecision: 'consensus', agentResponses: [], safetyFilterResult: 'passed' },
+  generatedBy: { provider: 'template', model: 'template', version: '1' },
+  durationMs: 10,
+  createdAt: new Date().toISOString(),
+  ...overrides,
+});
+
+describe('OrchestratorTraceStore', () => {
+  beforeEach(() => resetDatabase());
+
+  it('stores no user id and redacts identifiers from outputs and replies', async () => {
+    const reply = 'Call me on +233 24 123 4567 or email ama@example.com';
+    await orchestratorTraceStore.record(trace('trace-1', {
+      agents: [entry(reply)],
+      draftResponse: reply,
+      finalResponse: reply,
+    }));
+
+    const [row] = tables.ai_orchestrator_traces;
+    expect(row.user_id).toBeUndefined();
+    expect(JSON.stringify(row)).not.toMatch(/user-1|ama@example\.com|123 4567/);
+  });
+
+  it('filters failures and conflicts in the query, before the limit', async () => {
+    const older = new Date(Date.now() - 60000).toISOString();
+    await orchestratorTraceStore.record(trace('trace-failed', { agents: [entry('Please rest', true)], createdAt: older }));
+    await orchestratorTraceStore.record(trace('trace-conflict', {
+      reasoning: {
+        routingDecision: 'consensus',
+        agentResponses: [],
+        safetyFilterResult: 'passed',
+        conflicts: [{
+          dimension: 'urgency',
+          cautious: { agentId: 'triage_agent', agent: 'Triage Agent', value: 'urgent' },
+          lenient: { agentId: 'nutrition_agent', agent: 'Nutrition Agent', value: 'routine' },
+          gap: 2,
+          description: 'Triage Agent: urgent, Nutrition Agent: routine',
+        }],
+      },
+      createdAt: older,
+    }));
+    await orchestratorTraceStore.record(trace('trace-new'));
+
+    expect((await orchestratorTraceStore.list({ failuresOnly: true, limit: 1 })).map(t => t.id)).toEqual(['trace-failed']);
+    expect((await orchestratorTraceStore.list({ conflictsOnly: true, limit: 1 })).map(t => t.id)).toEqual(['trace-conflict']);
+  });
+});
@@ -0,0 +1,50 @@
+import { ruleBacktester } from '../RuleBacktester';
+
+jest.mock('@/lib/supabase');
+
+const { tables, resetDatabase } =
+  jest.requireMock<typeof import('@/lib/__mocks__/supabase')>('@/lib/supabase');
+
+describe('RuleBacktester.loadCaseSet', () => {
+  beforeEach(() => {
+    resetDatabase();
+    tables.ai_assessments = [
+      {
+        id: 'assessment-1',
+        mother_id: 'profile-1',
+        symptom_id: 'symptom-1',
+        risk_level: 'level_2',
+        created_at: '2026-06-01T10:00:00.000Z',
+        symptoms: { symptoms: ['headache'], severity: 'moderate' },
+        mother_profiles: { gestational_age_weeks: 36, due_date: '2026-11-01', updated_at: '2026-10-05T00:00:00.000Z' },
+      },
+    ];
+    tables.vital_signs = [
+      { mother_id: 'profile-1', systolic_bp: 150, recorded_at: '2026-05-01T09:00:00.000Z' },
+      { mother_id: 'profile-1', systolic_bp: 132, recorded_at: '2026-05-28T09:00:00.000Z' },
+      { mother_id: 'profile-1', systolic_bp: 124, recorded_at: '2026-06-01T08:00:00.000Z' },
+      { mother_id: 'profile-1', systolic_bp: 170, recorded_at: '2026-09-01T09:00:00.000Z' },
+    ];
+  });
+
+  it('uses the gestational week at the time of the assessment', async () => {
+    const [testCase] = await ruleBacktester.loadCaseSet();
+
+    expect(testCase.input.pregnancyStage).toEqual({ weeksGestation: 18, trimester: 2 });
+  });
+
+  it('falls back to the profile week, counted back from when it was recorded', async () => {
+    tables.ai_assessments[0].mother_profiles = { gestational_age_weeks: 36, updated_at: '2026-10-05T00:00:00.000Z' };
+
+    const [testCase] = await ruleBacktester.loadCaseSet();
+
+    expect(testCase.input.pregnancyStage.weeksGestation).toBe(19);
+  });
+
+  it('replays only the readings the assessment could have seen', async () => {
+    const [testCase] = await ruleBacktester.loadCaseSet();
+
+    expect(testCase.input.vitalSigns?.systolicBP).toBe(124);
+    expect(testCase.input.history?.vitals.map(v => v.systolicBP).sort()).toEqual([124, 132]);
+  });
+});
@@ -0,0 +1,45 @@
+import { agentOrchestrator } from '../MultiAgentSystem';
+import { DEFAULT_SAFETY_THRESHOLDS, safetyEvaluationHarness, SafetyEvaluationReport } from '../SafetyEvaluationHarness';
+
+jest.mock('@/lib/supabase');
+
+describe('SafetyEvaluationHarness', () => {
+  let report: SafetyEvaluationReport;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    report = await safetyEvaluationHarness.run(undefined, DEFAULT_SAFETY_THRESHOLDS);
+  }, 60000);
+
+  it('passes the release gate with the default thresholds', () => {
+    expect(report.blockingReasons).toEqual([]);
+    expect(report.releaseBlocked).toBe(false);
+  });
+
+  it.each(['diagnostic_engine', 'conversational_engine', 'agent_orchestrator'])(
+    '%s assesses every level_4 vignette at level_4 and detects every emergency',
+    system => {
+      const evaluation = report.systems.find(s => s.system === system)!;
+
+      expect(evaluation.outcomes.filter(o => o.error)).toEqual([]);
+      expect(evaluation.level4UnderTriageRate).toBe(0);
+      expect(evaluation.emergencyDetection.sensitivity).toBe(1);
+    }
+  );
+
+  it("does not treat a relative's seizure as the mother's emergency", () => {
+    const outcomes = report.systems.flatMap(s => s.outcomes).filter(o => o.vignetteId === 'V020');
+
+    expect(outcomes.filter(o => o.detectedEmergency)).toEqual([]);
+  });
+
+  it('runs the orchestrator with the candidate model without storing traces', async () => {
+    const process = jest.spyOn(agentOrchestrator, 'process');
+    const candidate = { version: 'candidate-1', components: {} };
+    const [vignette] = safetyEvaluationHarness.getVignettes();
+
+    await safetyEvaluationHarness.run([vignette], DEFAULT_SAFETY_THRESHOLDS, candidate);
+
+    expect(process).toHaveBeenCalledWith(expect.anything(), { persist: false, modelVersion: candidate });
+  });
+});
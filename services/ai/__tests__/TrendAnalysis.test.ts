@@ -0,0 +1,50 @@
+import { latestReading, measureTrend } from '../TrendAnalysis';
+import type { VitalHistory } from '../DiagnosticReasoningEngine';
+
+jest.mock('@/lib/supabase');
+
+describe('TrendAnalysis', () => {
+  describe('weekly weight gain', () => {
+    const history = (weeklyWeights: { week: number; weight: number }[]): VitalHistory => ({ vitals: [], weeklyWeights });
+
+    it('measures the gain between readings a week apart', () => {
+      const gain = measureTrend(history([{ week: 30, weight: 70 }, { week: 31, weight: 72.5 }]), 'weeklyWeight', 'deltaFromBaseline', {
+        window: 2,
+        windowWeeks: 1,
+      });
+
+      expect(gain.value).toBeCloseTo(2.5);
+    });
+
+    it('does not measure a weekly gain across a gap of several weeks', () => {
+      const gain = measureTrend(history([{ week: 24, weight: 68 }, { week: 31, weight: 72.5 }]), 'weeklyWeight', 'deltaFromBaseline', {
+        window: 2,
+        windowWeeks: 1,
+      });
+
+      expect(gain.value).toBeUndefined();
+      expect(gain.pointsUsed).toBe(1);
+    });
+  });
+
+  describe('latestReading', () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+
+    it('returns a reading taken within the last day', () => {
+      const history: VitalHistory = {
+        vitals: [
+          { recordedAt: '2026-10-10T08:00:00Z', systolicBP: 150 },
+          { recordedAt: '2026-10-18T07:00:00Z', systolicBP: 118 },
+        ],
+      };
+
+      expect(latestReading(history, now)?.systolicBP).toBe(118);
+    });
+
+    it('does not treat an older reading as current', () => {
+      const history: VitalHistory = { vitals: [{ recordedAt: '2026-10-08T08:00:00Z', systolicBP: 150 }] };
+
+      expect(latestReading(history, now)).toBeUndefined();
+    });
+  });
+});
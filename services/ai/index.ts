@@ -15,8 +15,58 @@ export type {
   UserRole,
   Intent,
   EmotionalTone,
+  EmergencyFinding,
+  FollowUpState,
+  ProcessOptions,
 } from './AIConversationalEngine';
 
+export { conversationSessionStore, SESSION_TTL_HOURS } from './ConversationSessionStore';
+export type {
+  SessionStatus,
+  SessionSummary,
+  SessionSnapshot,
+  StoredMessage,
+  StoredSession,
+} from './ConversationSessionStore';
+
+export { clinicalDialogueManager } from './ClinicalDialogueManager';
+export type {
+  ClinicalSlot,
+  BloodPressureReading,
+  SlotValues,
+  SymptomFrame,
+  DialogueState,
+  AnswerOutcome,
+  SlotQuestion,
+  StructuredSymptoms,
+} from './ClinicalDialogueManager';
+
+export {
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  normalizeLanguage,
+  getLexicon,
+  getLexiconChain,
+} from './lexicons';
+export type {
+  SupportedLanguage,
+  LexiconPack,
+  EmergencyTerm,
+  SymptomPattern,
+  ResponseTemplates,
+} from './lexicons';
+
+export { clinicalContextAnalyzer } from './ClinicalContextAnalyzer';
+export type {
+  NegationRules,
+  Experiencer,
+  Temporality,
+  FindingContext,
+  ContextualFinding,
+  LabeledPhrase,
+  CorpusEvaluation,
+} from './ClinicalContextAnalyzer';
+
 export { diagnosticEngine } from './DiagnosticReasoningEngine';
 export type {
   DiagnosticInput,
@@ -28,15 +78,107 @@ export type {
   PregnancyStage,
   MedicalHistory,
   VitalSignsInput,
+  VitalReading,
+  VitalHistory,
+  TemporalFinding,
+  AnalyzeOptions,
 } from './DiagnosticReasoningEngine';
 
+export {
+  knowledgeBase,
+  validateKnowledgePack,
+  parseKnowledgePack,
+  KnowledgePackValidationError,
+} from './KnowledgeBase';
+export type {
+  KnowledgePack,
+  ConditionDefinition,
+  ObstetricRuleDefinition,
+  RuleExpression,
+  RuleFact,
+  TrendExpression,
+  TrendEvaluation,
+  KnowledgeSource,
+  LearnedSymptomPattern,
+  LearnedIntentPattern,
+  LearnedEducationAnswer,
+} from './KnowledgeBase';
+
+export { loadVitalHistory, measureTrend } from './TrendAnalysis';
+export type {
+  TrendSeries,
+  TrendMeasure,
+  TrendWindow,
+  AbnormalThreshold,
+  TrendMeasurement,
+} from './TrendAnalysis';
+
+export { ruleBacktester } from './RuleBacktester';
+export type {
+  BacktestCase,
+  BacktestCaseDiff,
+  BacktestReport,
+  CaseSetQuery,
+  RiskLevelBreakdown,
+} from './RuleBacktester';
+
+export { meowsCalculator } from './MEOWSCalculator';
+export type {
+  ConsciousnessLevel,
+  MEOWSObservations,
+  MEOWSParameter,
+  MEOWSTrigger,
+  MEOWSResult,
+  MEOWSEscalationLevel,
+} from './MEOWSCalculator';
+
+export {
+  languageModelService,
+  StubLanguageModelProvider,
+  HttpLanguageModelProvider,
+  formatModelVersion,
+  TEMPLATE_MODEL,
+} from './LanguageModelProvider';
+export type {
+  LanguageModelProvider,
+  GenerationTask,
+  GenerationRequest,
+  GenerationResult,
+  CompletionOptions,
+  ModelInfo,
+  HttpProviderConfig,
+} from './LanguageModelProvider';
+
+export { modelVersionRegistry, DEFAULT_MODEL_VERSION } from './ModelVersionRegistry';
+export type {
+  ModelComponents,
+  ResolvedModelVersion,
+  ModelVersionStatus,
+  LifecycleResult,
+} from './ModelVersionRegistry';
+
+export { shadowModeEvaluator } from './ShadowModeEvaluator';
+export type {
+  ShadowComparison,
+  ShadowDashboardQuery,
+  ShadowDashboard,
+} from './ShadowModeEvaluator';
+
 export { agentOrchestrator } from './MultiAgentSystem';
 export type {
   AgentInput,
   AgentContext,
   AgentOutput,
+  OrchestratorOptions,
   OrchestratorResult,
   LearningOpportunity,
+  TriageUrgency,
+  AgentFailure,
+  AgentAssessment,
+  CareRecommendation,
+  AgentConflict,
+  ConflictDimension,
+  ConflictPosition,
 } from './MultiAgentSystem';
 
 export { learningSystem } from './LearningSystem';
@@ -45,8 +187,52 @@ export type {
   LearningCandidate,
   ModelVersion,
   ValidationMetrics,
+  DatasetAddition,
+  CandidateCluster,
+  ConversationSample,
+  AIFeedback,
+  FeedbackIssue,
+  FeedbackAggregate,
+  FeedbackSummary,
+  AgentConflictAggregate,
 } from './LearningSystem';
 
+export { deidentifier } from './Deidentifier';
+export type {
+  IdentifyingDetails,
+  PiiKind,
+  ReidentificationRisk,
+  ReidentificationRiskLevel,
+  DeidentificationResult,
+  SeededPiiCase,
+  DeidentificationEvaluation,
+} from './Deidentifier';
+
+export { knowledgeCompiler } from './KnowledgeCompiler';
+export type {
+  KnowledgeChange,
+  CompiledChange,
+  SkippedCandidate,
+  CompilationPreview,
+  CompilationResult,
+} from './KnowledgeCompiler';
+
+export {
+  safetyEvaluationHarness,
+  SAFETY_THRESHOLDS_SETTING,
+  DEFAULT_SAFETY_THRESHOLDS,
+} from './SafetyEvaluationHarness';
+export type {
+  SafetyVignette,
+  EvaluatedSystem,
+  VignetteOutcome,
+  EmergencyDetectionMetrics,
+  SystemEvaluation,
+  SafetyThresholds,
+  SafetyEvaluationReport,
+  SafetyEvaluationSummary,
+} from './SafetyEvaluationHarness';
+
 export { explainabilityEngine } from './ExplainabilityEngine';
 export type {
   ExplanationRequest,
@@ -54,3 +240,78 @@ export type {
   PatientExplanation,
   ClinicalExplanation,
 } from './ExplainabilityEngine.ts';
+
+// Counterfactual Explanations
+export { counterfactualGenerator } from './CounterfactualGenerator';
+export type {
+  Counterfactual,
+  RuleJustification,
+  CounterfactualAnalysis,
+} from './CounterfactualGenerator';
+
+// Explanation Adapters
+export {
+  adaptOutput,
+  diagnosticResultAdapter,
+  aiResponseAdapter,
+  orchestratorResultAdapter,
+  alertAdapter,
+} from './ExplanationAdapters';
+export type {
+  ExplainableAIOutput,
+  AlertOutput,
+  AdaptedOutput,
+  ExplanationAdapter,
+  ConfidenceFactor,
+} from './ExplanationAdapters';
+
+// Clinical Reports
+export { clinicalReportGenerator } from './ClinicalReportGenerator';
+export type {
+  ClinicalReport,
+  ReportAudience,
+} from './ClinicalReportGenerator';
+
+// Agent Registry
+export { agentRegistry, AGENT_REGISTRY_SETTING } from './AgentRegistry';
+export type {
+  Agent,
+  AgentTrigger,
+  AgentOutputContract,
+  AgentSettings,
+  RegisteredAgent,
+} from './AgentRegistry';
+
+// Pregnancy Drug Safety
+export { drugSafetyDatabase, DRUG_RISK_LABELS } from './DrugSafetyDatabase';
+export type {
+  DrugRisk,
+  DrugSafetyEntry,
+  DrugSafetyContext,
+  DrugSafetyAssessment,
+} from './DrugSafetyDatabase';
+
+// Perinatal Mental Health
+export { mentalHealthScreening } from './MentalHealthScreening';
+export type {
+  MentalHealthConcern,
+  MentalHealthLevel,
+  MentalHealthScreeningResult,
+  MentalHealthCrisis,
+  CrisisType,
+  CrisisLine,
+  CrisisLineSet,
+} from './MentalHealthScreening';
+
+// Orchestrator Traces
+export { orchestratorTraceStore } from './OrchestratorTraceStore';
+export type {
+  OrchestratorTrace,
+  OrchestratorPath,
+  AgentTraceEntry,
+  AgentConfigurationEntry,
+  AgentTraceDiff,
+  ConfigurationChange,
+  TraceComparison,
+  TraceQuery,
+} from './OrchestratorTraceStore';
@@ -0,0 +1,188 @@
+/**
+ * English lexicon pack (default and fallback language)
+ */
+
+import type { LexiconPack } from './index';
+
+export const en: LexiconPack = {
+  language: 'en',
+  name: 'English',
+
+  // Safety keywords that require immediate escalation
+  emergencyKeywords: [
+    'severe bleeding', 'heavy bleeding', 'bleeding heavily', 'hemorrhage',
+    'seizure', 'convulsion', 'fit',
+    'unconscious', 'fainted', 'passed out',
+    'can\'t breathe', 'difficulty breathing', 'shortness of breath',
+    'severe headache', 'worst headache',
+    'vision problems', 'seeing spots', 'blurred vision',
+    'severe abdominal pain', 'intense pain',
+    'no fetal movement', 'baby not moving', 'reduced movement',
+    'water broke', 'waters breaking', 'leaking fluid',
+    'contractions', 'labor pains',
+    'swelling face', 'swelling hands',
+    'high blood pressure', 'bp high',
+    'chest pain', 'heart palpitations',
+  ].map(term => ({ term, canonical: term })).concat(
+    ['baby is not moving', "baby isn't moving", 'baby has not moved', "baby hasn't moved"]
+      .map(term => ({ term, canonical: 'baby not moving' }))
+  ),
+
+  symptomPatterns: [
+    { pattern: /severe\s+(headache|pain|bleeding)/i, symptom: '$1', severity: 'severe' },
+    { pattern: /mild\s+(headache|nausea|cramping)/i, symptom: '$1', severity: 'mild' },
+    // Unqualified headache; follow-up questions establish the actual severity
+    { pattern: /\b(headache|head ache)\b/i, symptom: 'headache', severity: 'moderate' },
+    { pattern: /(nausea|vomiting|dizziness)/i, symptom: '$1', severity: 'moderate' },
+    { pattern: /\b(bleeding|spotting)\b/i, symptom: 'bleeding', severity: 'moderate' },
+    { pattern: /\b(swelling|edema)\b/i, symptom: 'swelling', severity: 'moderate' },
+    { pattern: /\b(fever|temperature)\b/i, symptom: 'fever', severity: 'moderate' },
+    { pattern: /\b(fatigue|tired|exhausted)\b/i, symptom: 'fatigue', severity: 'mild' },
+    { pattern: /\b(back pain|backache)\b/i, symptom: 'back pain', severity: 'moderate' },
+    { pattern: /\b(cramping|cramps)\b/i, symptom: 'cramping', severity: 'moderate' },
+    { pattern: /\b(discharge)\b/i, symptom: 'vaginal discharge', severity: 'mild' },
+  ],
+
+  intentPatterns: [
+    { pattern: /\b(pain|hurt|ache|bleeding|discharge|symptom|feel sick|unwell)\b/i, intent: 'symptom_report' },
+    { pattern: /\b(emergency|urgent|help|serious|dangerous)\b/i, intent: 'emergency' },
+    { pattern: /\b(appointment|schedule|book|see doctor|visit)\b/i, intent: 'appointment' },
+    { pattern: /\b(medication|medicine|drug|prescription|pill|tablet)\b/i, intent: 'medication' },
+    { pattern: /\b(eat|food|diet|nutrition|vitamin|supplement)\b/i, intent: 'nutrition' },
+    { pattern: /\b(worried|anxious|scared|stressed|emotional|crying)\b/i, intent: 'emotional_support' },
+    { pattern: /\b(what|how|why|when|can I|should I|is it normal)\b/i, intent: 'question' },
+    { pattern: /\b(learn|information|article|read about|tell me about)\b/i, intent: 'education' },
+  ],
+
+  emotionalPatterns: [
+    { pattern: /\b(help|emergency|urgent|now|immediately)\b/i, tone: 'urgent' },
+    { pattern: /\b(worried|anxious|nervous|scared|afraid|fear)\b/i, tone: 'anxious' },
+    { pattern: /\b(terrified|panic|desperate|can't cope|overwhelmed)\b/i, tone: 'distressed' },
+    { pattern: /\b(fine|okay|good|normal|curious)\b/i, tone: 'calm' },
+  ],
+
+  // The English analyzer rules in ClinicalContextAnalyzer are used as-is
+  negationTriggers: [],
+  postNegationTriggers: [],
+  scopeTerminators: [],
+  experiencerCues: [],
+  hypotheticalCues: [],
+  crisisTerms: { self_harm: [], harm_to_baby: [] },
+  answers: {
+    yes: ['yes', 'yeah', 'yep', 'i do', 'i have'],
+    no: ['no', 'nope', 'none', 'not really', 'nothing'],
+    unknown: ["don't know", 'dont know', 'do not know', 'not sure', 'no idea', "haven't checked", "didn't check", 'skip'],
+    time: [
+      'minute', 'minutes', 'hour', 'hours', 'day', 'days', 'week', 'weeks', 'morning', 'afternoon',
+      'evening', 'night', 'yesterday', 'today', 'tonight', 'since', 'ago', 'just now', 'all day',
+      'on and off', 'constant',
+    ],
+  },
+
+  templates: {
+    emergency: (symptoms) => `🚨 I've detected potential emergency symptoms: ${symptoms}.
+
+Please take these immediate steps:
+1. Stay calm and sit or lie down in a safe position
+2. If you're alone, call someone to be with you
+3. Contact your healthcare provider immediately
+4. If symptoms are severe, call emergency services (911)
+
+Do NOT wait to see if symptoms improve. Your safety and your baby's safety are the priority.
+
+Is someone with you right now?`,
+    emergencyRecommendations: [
+      'Seek immediate medical attention',
+      'Call emergency services if symptoms are severe',
+      'Do not drive yourself to the hospital',
+      'Have someone stay with you',
+    ],
+    emergencyDisclaimer: 'This is an AI-assisted assessment. In case of emergency, always contact emergency services immediately.',
+    emergencyConfirm: (symptoms) => `You mentioned ${symptoms}. Is this happening to you right now?\n\nIf it is, please call emergency services or go to the nearest hospital now - do not wait.`,
+
+    symptom: {
+      level_1: (symptoms) => `Thank you for sharing about ${symptoms}. Based on what you've described, these symptoms appear to be within normal range for pregnancy. However, I recommend:\n\n• Continue monitoring how you feel\n• Stay hydrated and get adequate rest\n• Note any changes or worsening symptoms\n\nWould you like tips on managing these symptoms?`,
+      level_2: (symptoms) => `I understand you're experiencing ${symptoms}. These symptoms warrant attention. I recommend:\n\n• Monitor your symptoms closely over the next 24-48 hours\n• Keep track of frequency and intensity\n• Contact your healthcare provider if symptoms worsen or persist\n\nWould you like to schedule a routine check-up?`,
+      level_3: (symptoms) => `⚠️ I'm concerned about ${symptoms}. These symptoms require prompt medical attention. Please:\n\n• Contact your healthcare provider within the next 24 hours\n• Do not wait to see if symptoms improve on their own\n• Avoid strenuous activity until evaluated\n\nWould you like help contacting your doctor now?`,
+      level_4: (symptoms) => `🚨 The symptoms you've described (${symptoms}) are serious and require immediate medical attention. Please:\n\n• Go to the emergency room or call emergency services NOW\n• Do not drive yourself - have someone take you or call an ambulance\n• Bring someone with you if possible\n\nYour health and your baby's health are the priority.`,
+    },
+    symptomRecommendations: {
+      level_1: ['Monitor symptoms', 'Stay hydrated', 'Get adequate rest', 'Continue normal activities'],
+      level_2: ['Monitor symptoms closely', 'Schedule routine check-up', 'Avoid strenuous activities', 'Contact doctor if worsening'],
+      level_3: ['Contact doctor within 24 hours', 'Avoid strenuous activity', 'Have someone available to assist', 'Prepare to seek emergency care if worsening'],
+      level_4: ['Seek immediate emergency care', 'Call emergency services', 'Do not drive yourself', 'Have someone stay with you'],
+    },
+    yourSymptoms: 'your symptoms',
+
+    emotional: {
+      anxious: "I hear that you're feeling worried, and that's completely understandable. Pregnancy can bring many concerns. Remember:\n\n• Your feelings are valid\n• Many expectant mothers share similar worries\n• It's okay to ask for help and support\n\nWould you like to talk about what's specifically worrying you? Or would you like some relaxation techniques that might help?",
+      distressed: "I can sense you're going through a difficult time, and I want you to know that you're not alone. It's important that you:\n\n• Reach out to someone you trust\n• Consider speaking with a professional counselor\n• Don't hesitate to contact your healthcare provider\n\nYour mental health matters just as much as your physical health. Would you like resources for emotional support?",
+      urgent: "I understand this feels urgent. Let me help you:\n\n• If this is a medical emergency, please call emergency services\n• If you need to speak with your doctor, I can help you prepare\n• If you're feeling overwhelmed, that's okay - we'll take this one step at a time\n\nWhat do you need help with right now?",
+      default: "Thank you for sharing how you're feeling. It's important to take care of your emotional wellbeing during pregnancy. I'm here to listen and support you. What's on your mind?",
+    },
+    emotionalRecommendations: [
+      'Practice deep breathing exercises',
+      'Speak with a trusted friend or family member',
+      'Consider talking to a counselor',
+      'Maintain regular sleep schedule',
+    ],
+
+    intents: {
+      medication: {
+        message: () => "I understand you have questions about medication. It's important to always consult your healthcare provider before taking any medication during pregnancy. Some medications that are safe normally may not be safe during pregnancy. Would you like me to help you prepare questions for your doctor?",
+        recommendations: [
+          'Consult your doctor before taking any medication',
+          'Always mention your pregnancy when getting prescriptions',
+          'Keep a list of all medications you take',
+        ],
+      },
+      nutrition: {
+        message: () => "Nutrition is so important during pregnancy! Here are some key points:\n\n• Eat plenty of fruits, vegetables, and whole grains\n• Get enough protein from lean meats, beans, or legumes\n• Take your prenatal vitamins as prescribed\n• Stay well hydrated with water\n• Avoid raw fish, unpasteurized dairy, and deli meats\n\nWould you like more specific guidance based on your pregnancy stage?",
+        recommendations: [
+          'Take prenatal vitamins daily',
+          'Eat small, frequent meals',
+          'Stay hydrated',
+          'Avoid alcohol and limit caffeine',
+        ],
+      },
+      appointment: {
+        message: () => "I can help you with appointment scheduling! Would you like to:\n\n1. Book a new appointment\n2. View upcoming appointments\n3. Reschedule an existing appointment\n\nPlease let me know what you'd like to do.",
+        recommendations: [
+          'Prepare questions before your appointment',
+          'Bring a list of current symptoms',
+          'Note any changes since last visit',
+        ],
+      },
+      education: {
+        message: (pregnancyWeek) => `I'd love to help you learn more! Based on ${pregnancyWeek ? `your ${pregnancyWeek}th week of pregnancy` : 'your pregnancy'}, here are some topics you might find helpful:\n\n• What to expect this trimester\n• Baby's development\n• Preparing for labor and delivery\n• Postpartum care\n\nWhat topic interests you most?`,
+        recommendations: [
+          'Attend prenatal classes',
+          'Read reputable pregnancy resources',
+          'Join a support group for expectant mothers',
+        ],
+      },
+      question: {
+        message: () => "I'm here to help answer your questions! Please note that while I can provide general information, I'm not a replacement for your healthcare provider. What would you like to know?",
+        recommendations: [
+          'Keep a list of questions for your doctor',
+          'Don\'t hesitate to ask about anything concerning you',
+        ],
+      },
+      general: {
+        message: () => `Hello! I'm your maternal health assistant. I'm here to help you throughout your pregnancy journey. I can:\n\n• Help you track and report symptoms\n• Answer questions about pregnancy\n• Provide nutrition and wellness guidance\n• Help with appointment scheduling\n• Offer emotional support\n\nHow can I assist you today?`,
+        recommendations: [],
+      },
+    },
+
+    slotQuestions: {
+      onset: (symptom) => `When did the ${symptom} start?`,
+      duration: (symptom) => `How long does the ${symptom} last, or has it been constant since it started?`,
+      severity: (symptom) => `On a scale of 1 to 10, how bad is the ${symptom} right now?`,
+      visualSymptoms: () => 'Have you noticed any changes in your vision, such as blurring, spots or flashing lights?',
+      bloodPressure: () => "What was your last blood pressure reading (for example 120/80)? If you don't know, just say so.",
+    },
+    slotRetry: "Sorry, I didn't quite catch that.",
+
+    disclaimer: 'This AI assistant provides general information only and is not a substitute for professional medical advice. Always consult your healthcare provider for medical decisions.',
+  },
+};
@@ -0,0 +1,228 @@
+/**
+ * French lexicon pack
+ */
+
+import type { LexiconPack } from './index';
+import { words } from './patterns';
+
+export const fr: LexiconPack = {
+  language: 'fr',
+  name: 'Français',
+
+  emergencyKeywords: [
+    { term: 'saignement abondant', canonical: 'heavy bleeding' },
+    { term: 'saignements abondants', canonical: 'heavy bleeding' },
+    { term: 'saignement important', canonical: 'heavy bleeding' },
+    { term: 'saigne beaucoup', canonical: 'heavy bleeding' },
+    { term: 'hémorragie', canonical: 'hemorrhage' },
+    { term: 'convulsion', canonical: 'convulsion' },
+    { term: 'convulsions', canonical: 'convulsion' },
+    { term: 'crise d\'épilepsie', canonical: 'seizure' },
+    { term: 'inconsciente', canonical: 'unconscious' },
+    { term: 'perdu connaissance', canonical: 'passed out' },
+    { term: 'évanouie', canonical: 'fainted' },
+    { term: 'je me suis évanouie', canonical: 'fainted' },
+    { term: 'je ne peux pas respirer', canonical: 'can\'t breathe' },
+    { term: 'difficulté à respirer', canonical: 'difficulty breathing' },
+    { term: 'essoufflement', canonical: 'shortness of breath' },
+    { term: 'mal de tête sévère', canonical: 'severe headache' },
+    { term: 'violent mal de tête', canonical: 'severe headache' },
+    { term: 'vision floue', canonical: 'blurred vision' },
+    { term: 'je vois des taches', canonical: 'seeing spots' },
+    { term: 'troubles de la vision', canonical: 'vision problems' },
+    { term: 'douleur abdominale intense', canonical: 'severe abdominal pain' },
+    { term: 'douleur intense', canonical: 'intense pain' },
+    { term: 'le bébé ne bouge pas', canonical: 'baby not moving' },
+    { term: 'le bébé ne bouge plus', canonical: 'baby not moving' },
+    { term: 'bébé ne bouge plus', canonical: 'baby not moving' },
+    { term: 'moins de mouvements', canonical: 'reduced movement' },
+    { term: 'perte des eaux', canonical: 'water broke' },
+    { term: 'j\'ai perdu les eaux', canonical: 'water broke' },
+    { term: 'poche des eaux', canonical: 'water broke' },
+    { term: 'perte de liquide', canonical: 'leaking fluid' },
+    { term: 'contractions', canonical: 'contractions' },
+    { term: 'visage gonflé', canonical: 'swelling face' },
+    { term: 'mains gonflées', canonical: 'swelling hands' },
+    { term: 'tension élevée', canonical: 'high blood pressure' },
+    { term: 'hypertension', canonical: 'high blood pressure' },
+    { term: 'douleur thoracique', canonical: 'chest pain' },
+    { term: 'douleur à la poitrine', canonical: 'chest pain' },
+    { term: 'palpitations', canonical: 'heart palpitations' },
+  ],
+
+  symptomPatterns: [
+    { pattern: words('(?:mal|maux) (?:de|à la) tête\\s+(?:sévère|violent|intense)', 'céphalées?\\s+(?:sévère|violente|intense)s?'), symptom: 'headache', severity: 'severe' },
+    { pattern: words('saignements?', 'je saigne'), symptom: 'bleeding', severity: 'moderate' },
+    { pattern: words('nausées?', 'envie de vomir'), symptom: 'nausea', severity: 'moderate' },
+    { pattern: words('vomissements?', 'je vomis'), symptom: 'vomiting', severity: 'moderate' },
+    { pattern: words('vertiges?', 'étourdissements?'), symptom: 'dizziness', severity: 'moderate' },
+    { pattern: words('gonflements?', 'gonflée?s?', 'œdèmes?'), symptom: 'swelling', severity: 'moderate' },
+    { pattern: words('fièvre', 'température'), symptom: 'fever', severity: 'moderate' },
+    { pattern: words('fatigue', 'fatiguée', 'épuisée'), symptom: 'fatigue', severity: 'mild' },
+    { pattern: words('mal de dos', 'douleurs? au dos'), symptom: 'back pain', severity: 'moderate' },
+    { pattern: words('crampes?'), symptom: 'cramping', severity: 'moderate' },
+    { pattern: words('pertes? vaginales?', 'pertes? blanches?'), symptom: 'vaginal discharge', severity: 'mild' },
+    { pattern: words('mal de tête', 'maux de tête', 'mal à la tête'), symptom: 'headache', severity: 'moderate' },
+  ],
+
+  intentPatterns: [
+    { pattern: words('douleur', 'mal', 'saigne', 'saignement', 'pertes', 'symptôme', 'malade'), intent: 'symptom_report' },
+    { pattern: words('urgence', 'urgent', 'aidez', 'au secours', 'grave', 'dangereux'), intent: 'emergency' },
+    { pattern: words('rendez-vous', 'consultation', 'voir le médecin', 'visite'), intent: 'appointment' },
+    { pattern: words('médicaments?', 'ordonnance', 'comprimé', 'cachet'), intent: 'medication' },
+    { pattern: words('manger', 'nourriture', 'alimentation', 'régime', 'vitamines?', 'repas'), intent: 'nutrition' },
+    { pattern: words('inquiète', 'anxieuse', 'peur', 'stressée', 'je pleure', 'angoisse'), intent: 'emotional_support' },
+    { pattern: words('quoi', 'comment', 'pourquoi', 'quand', 'est-ce que', 'est-ce normal', 'puis-je'), intent: 'question' },
+    { pattern: words('apprendre', 'information', 'article', 'parlez-moi de'), intent: 'education' },
+  ],
+
+  emotionalPatterns: [
+    { pattern: words('aidez', 'au secours', 'urgence', 'urgent', 'maintenant', 'tout de suite'), tone: 'urgent' },
+    { pattern: words('inquiète', 'anxieuse', 'nerveuse', 'peur', 'j\'ai peur'), tone: 'anxious' },
+    { pattern: words('terrifiée', 'panique', 'désespérée', 'je n\'en peux plus', 'dépassée'), tone: 'distressed' },
+    { pattern: words('bien', 'ça va', 'normal', 'curieuse'), tone: 'calm' },
+  ],
+
+  negationTriggers: [
+    'pas de', 'pas d\'', 'aucun', 'aucune', 'sans', 'jamais',
+    'je n\'ai pas', 'je n\'ai plus', 'il n\'y a pas', 'il n\'y a plus',
+  ],
+  postNegationTriggers: ['s\'est arrêté', 's\'est arrêtée', 'a cessé', 'est parti', 'est partie', 'a disparu'],
+  scopeTerminators: ['mais', 'sauf', 'juste', 'seulement', 'cependant', 'par contre', "j'ai"],
+  negationWindow: 2,
+  experiencerCues: [
+    'ma sœur', 'ma soeur', 'ma mère', 'ma mere', 'ma tante', 'ma cousine', 'mon amie', 'ma voisine',
+    'ma fille', 'mon fils', 'mon mari', 'ma belle-sœur', 'ma belle-mère', 'une amie', 'une femme',
+  ],
+  hypotheticalCues: [
+    'et si', 'si jamais', 'au cas où', 'signes de', 'symptômes de', 'risque de', 'que faire si',
+  ],
+  crisisTerms: {
+    self_harm: [
+      'suicidaire', 'me suicider', 'me tuer', 'mettre fin à mes jours', 'mettre fin a mes jours', 'en finir avec la vie',
+      'je veux mourir', 'envie de mourir', 'me faire du mal', 'me blesser', 'me couper',
+      'je ne veux plus vivre', 'plus de raison de vivre',
+    ],
+    harm_to_baby: [
+      'faire du mal à mon bébé', 'faire du mal a mon bebe', 'faire mal à mon bébé', 'faire mal a mon bebe',
+      'blesser mon bébé', 'blesser mon bebe', 'tuer mon bébé', 'tuer mon bebe', 'secouer mon bébé', 'secouer mon bebe',
+      'étouffer mon bébé', 'etouffer mon bebe', 'noyer mon bébé', 'noyer mon bebe',
+    ],
+  },
+  answers: {
+    yes: ['oui', 'ouais'],
+    no: ['non', 'aucun', 'aucune', 'rien', 'pas du tout'],
+    unknown: ['je ne sais pas', 'sais pas', 'aucune idée', 'pas sûre', 'passer'],
+    time: [
+      'minute', 'minutes', 'heure', 'heures', 'jour', 'jours', 'semaine', 'semaines', 'matin', 'soir',
+      'nuit', 'hier', "aujourd'hui", 'depuis', 'il y a', 'tout le temps', 'constant', 'constante',
+    ],
+  },
+
+  templates: {
+    emergency: (symptoms) => `🚨 J'ai détecté des signes d'urgence possibles : ${symptoms}.
+
+Faites ceci immédiatement :
+1. Restez calme et asseyez-vous ou allongez-vous en sécurité
+2. Si vous êtes seule, appelez quelqu'un pour rester avec vous
+3. Contactez immédiatement votre soignant
+4. Si les symptômes sont graves, appelez les services d'urgence
+
+N'attendez PAS que les symptômes s'améliorent. Votre sécurité et celle de votre bébé passent avant tout.
+
+Quelqu'un est-il avec vous en ce moment ?`,
+    emergencyRecommendations: [
+      'Consultez un médecin immédiatement',
+      'Appelez les urgences si les symptômes sont graves',
+      'Ne conduisez pas vous-même jusqu\'à l\'hôpital',
+      'Demandez à quelqu\'un de rester avec vous',
+    ],
+    emergencyDisclaimer: 'Ceci est une évaluation assistée par IA. En cas d\'urgence, contactez toujours immédiatement les services d\'urgence.',
+    emergencyConfirm: (symptoms) => `Vous avez mentionné : ${symptoms}. Est-ce que cela vous arrive en ce moment ?\n\nSi oui, appelez les services d'urgence ou allez à l'hôpital le plus proche maintenant, sans attendre.`,
+
+    symptom: {
+      level_1: (symptoms) => `Merci de m'avoir parlé de : ${symptoms}. D'après votre description, ces symptômes semblent habituels pendant la grossesse. Je vous conseille cependant de :\n\n• Continuer à surveiller comment vous vous sentez\n• Bien vous hydrater et vous reposer\n• Noter tout changement ou aggravation\n\nVoulez-vous des conseils pour soulager ces symptômes ?`,
+      level_2: (symptoms) => `Je comprends que vous ressentez : ${symptoms}. Ces symptômes méritent de l'attention. Je vous conseille de :\n\n• Surveiller vos symptômes de près pendant 24 à 48 heures\n• Noter leur fréquence et leur intensité\n• Contacter votre soignant s'ils s'aggravent ou persistent\n\nVoulez-vous prendre un rendez-vous de contrôle ?`,
+      level_3: (symptoms) => `⚠️ Je suis inquiète au sujet de : ${symptoms}. Ces symptômes nécessitent une attention médicale rapide. S'il vous plaît :\n\n• Contactez votre soignant dans les 24 heures\n• N'attendez pas que les symptômes passent seuls\n• Évitez les efforts jusqu'à l'examen\n\nVoulez-vous de l'aide pour contacter votre médecin maintenant ?`,
+      level_4: (symptoms) => `🚨 Les symptômes que vous décrivez (${symptoms}) sont graves et nécessitent des soins immédiats. S'il vous plaît :\n\n• Allez aux urgences ou appelez les services d'urgence MAINTENANT\n• Ne conduisez pas vous-même - faites-vous accompagner ou appelez une ambulance\n• Emmenez quelqu'un avec vous si possible\n\nVotre santé et celle de votre bébé sont la priorité.`,
+    },
+    symptomRecommendations: {
+      level_1: ['Surveillez vos symptômes', 'Buvez suffisamment', 'Reposez-vous bien', 'Continuez vos activités habituelles'],
+      level_2: ['Surveillez vos symptômes de près', 'Prenez un rendez-vous de contrôle', 'Évitez les efforts intenses', 'Contactez le médecin en cas d\'aggravation'],
+      level_3: ['Contactez le médecin dans les 24 heures', 'Évitez les efforts', 'Ayez quelqu\'un disponible pour vous aider', 'Soyez prête à aller aux urgences en cas d\'aggravation'],
+      level_4: ['Allez immédiatement aux urgences', 'Appelez les services d\'urgence', 'Ne conduisez pas vous-même', 'Demandez à quelqu\'un de rester avec vous'],
+    },
+    yourSymptoms: 'vos symptômes',
+
+    emotional: {
+      anxious: "Je comprends que vous êtes inquiète, et c'est tout à fait normal. La grossesse apporte beaucoup de questions. Rappelez-vous :\n\n• Vos sentiments sont légitimes\n• Beaucoup de futures mères ont les mêmes inquiétudes\n• Il est normal de demander de l'aide\n\nVoulez-vous parler de ce qui vous inquiète ? Ou préférez-vous des techniques de relaxation ?",
+      distressed: "Je sens que vous traversez un moment difficile, et je veux que vous sachiez que vous n'êtes pas seule. Il est important de :\n\n• Parler à une personne de confiance\n• Envisager de consulter un professionnel\n• Ne pas hésiter à contacter votre soignant\n\nVotre santé mentale compte autant que votre santé physique. Voulez-vous des ressources de soutien ?",
+      urgent: "Je comprends que c'est urgent. Laissez-moi vous aider :\n\n• S'il s'agit d'une urgence médicale, appelez les services d'urgence\n• Si vous devez parler à votre médecin, je peux vous aider à vous préparer\n• Si vous vous sentez dépassée, c'est normal - avançons étape par étape\n\nDe quoi avez-vous besoin maintenant ?",
+      default: "Merci de me dire comment vous vous sentez. Prendre soin de votre bien-être émotionnel pendant la grossesse est important. Je suis là pour vous écouter. Qu'est-ce qui vous préoccupe ?",
+    },
+    emotionalRecommendations: [
+      'Pratiquez la respiration profonde',
+      'Parlez à une amie ou un proche de confiance',
+      'Envisagez de parler à un conseiller',
+      'Gardez des horaires de sommeil réguliers',
+    ],
+
+    intents: {
+      medication: {
+        message: () => "Je comprends que vous avez des questions sur les médicaments. Consultez toujours votre soignant avant de prendre un médicament pendant la grossesse. Certains médicaments habituellement sûrs ne le sont pas pendant la grossesse. Voulez-vous que je vous aide à préparer vos questions pour le médecin ?",
+        recommendations: [
+          'Consultez votre médecin avant tout médicament',
+          'Signalez toujours votre grossesse lors d\'une ordonnance',
+          'Gardez une liste de tous vos médicaments',
+        ],
+      },
+      nutrition: {
+        message: () => "L'alimentation est très importante pendant la grossesse ! Quelques points clés :\n\n• Mangez beaucoup de fruits, de légumes et de céréales complètes\n• Consommez assez de protéines (viande maigre, haricots, légumineuses)\n• Prenez vos vitamines prénatales comme prescrit\n• Buvez beaucoup d'eau\n• Évitez le poisson cru, les produits laitiers non pasteurisés et la charcuterie\n\nVoulez-vous des conseils adaptés à votre stade de grossesse ?",
+        recommendations: [
+          'Prenez vos vitamines prénatales chaque jour',
+          'Mangez de petits repas fréquents',
+          'Buvez suffisamment',
+          'Évitez l\'alcool et limitez la caféine',
+        ],
+      },
+      appointment: {
+        message: () => "Je peux vous aider avec vos rendez-vous ! Voulez-vous :\n\n1. Prendre un nouveau rendez-vous\n2. Voir vos prochains rendez-vous\n3. Modifier un rendez-vous existant\n\nDites-moi ce que vous souhaitez faire.",
+        recommendations: [
+          'Préparez vos questions avant le rendez-vous',
+          'Apportez la liste de vos symptômes actuels',
+          'Notez les changements depuis la dernière visite',
+        ],
+      },
+      education: {
+        message: (pregnancyWeek) => `Avec plaisir ! ${pregnancyWeek ? `À la semaine ${pregnancyWeek} de votre grossesse` : 'Pour votre grossesse'}, voici quelques sujets utiles :\n\n• À quoi s'attendre ce trimestre\n• Le développement du bébé\n• Se préparer à l'accouchement\n• Les soins après l'accouchement\n\nQuel sujet vous intéresse le plus ?`,
+        recommendations: [
+          'Participez aux cours de préparation à la naissance',
+          'Lisez des sources fiables sur la grossesse',
+          'Rejoignez un groupe de soutien de futures mères',
+        ],
+      },
+      question: {
+        message: () => "Je suis là pour répondre à vos questions ! Je donne des informations générales, mais je ne remplace pas votre soignant. Que voulez-vous savoir ?",
+        recommendations: [
+          'Gardez une liste de questions pour votre médecin',
+          'N\'hésitez pas à demander tout ce qui vous inquiète',
+        ],
+      },
+      general: {
+        message: () => "Bonjour ! Je suis votre assistante de santé maternelle. Je suis là pour vous accompagner pendant votre grossesse. Je peux :\n\n• Vous aider à suivre et signaler vos symptômes\n• Répondre à vos questions sur la grossesse\n• Donner des conseils de nutrition et de bien-être\n• Vous aider avec vos rendez-vous\n• Vous offrir un soutien émotionnel\n\nComment puis-je vous aider aujourd'hui ?",
+        recommendations: [],
+      },
+    },
+
+    slotQuestions: {
+      onset: () => 'Quand ce symptôme a-t-il commencé ?',
+      duration: () => 'Combien de temps dure-t-il, ou est-il constant depuis le début ?',
+      severity: () => 'Sur une échelle de 1 à 10, quelle est son intensité en ce moment ?',
+      visualSymptoms: () => 'Avez-vous remarqué des troubles de la vue, comme une vision floue, des taches ou des éclairs lumineux ?',
+      bloodPressure: () => 'Quelle était votre dernière mesure de tension (par exemple 120/80) ? Si vous ne savez pas, dites-le simplement.',
+    },
+    slotRetry: "Désolée, je n'ai pas bien compris.",
+
+    disclaimer: 'Cette assistante IA fournit uniquement des informations générales et ne remplace pas un avis médical professionnel. Consultez toujours votre soignant pour toute décision médicale.',
+  },
+};
@@ -0,0 +1,211 @@
+/**
+ * Hausa lexicon pack
+ *
+ * Terms are listed with and without the hooked letters (ɓ, ɗ, ƙ) because
+ * many users type Hausa on keyboards without them.
+ */
+
+import type { LexiconPack } from './index';
+import { words } from './patterns';
+
+export const ha: LexiconPack = {
+  language: 'ha',
+  name: 'Hausa',
+
+  emergencyKeywords: [
+    { term: 'zubar jini mai yawa', canonical: 'heavy bleeding' },
+    { term: 'jini mai yawa', canonical: 'heavy bleeding' },
+    { term: 'jini da yawa', canonical: 'heavy bleeding' },
+    { term: 'farfadiya', canonical: 'seizure' },
+    { term: 'jijjiga', canonical: 'convulsion' },
+    { term: 'na suma', canonical: 'fainted' },
+    { term: 'ta suma', canonical: 'fainted' },
+    { term: 'ba zan iya numfashi ba', canonical: 'can\'t breathe' },
+    { term: 'wahalar numfashi', canonical: 'difficulty breathing' },
+    { term: 'ciwon kai mai tsanani', canonical: 'severe headache' },
+    { term: 'gani dishi-dishi', canonical: 'blurred vision' },
+    { term: 'ganina ya dushe', canonical: 'blurred vision' },
+    { term: 'ciwon ciki mai tsanani', canonical: 'severe abdominal pain' },
+    { term: 'jariri ba ya motsi', canonical: 'baby not moving' },
+    { term: 'jariri baya motsi', canonical: 'baby not moving' },
+    { term: "ɗan cikina ba ya motsi", canonical: 'baby not moving' },
+    { term: 'dan cikina ba ya motsi', canonical: 'baby not moving' },
+    { term: 'ruwan haihuwa ya fashe', canonical: 'water broke' },
+    { term: 'ruwa ya fashe', canonical: 'water broke' },
+    { term: 'nakuda', canonical: 'labor pains' },
+    { term: 'fuskata ta kumbura', canonical: 'swelling face' },
+    { term: 'fuska ta kumbura', canonical: 'swelling face' },
+    { term: 'hannaye sun kumbura', canonical: 'swelling hands' },
+    { term: 'hawan jini', canonical: 'high blood pressure' },
+    { term: 'ciwon ƙirji', canonical: 'chest pain' },
+    { term: 'ciwon kirji', canonical: 'chest pain' },
+    { term: 'bugun zuciya da sauri', canonical: 'heart palpitations' },
+  ],
+
+  symptomPatterns: [
+    { pattern: words('ciwon kai mai tsanani'), symptom: 'headache', severity: 'severe' },
+    { pattern: words('ciwon kai'), symptom: 'headache', severity: 'moderate' },
+    { pattern: words('zubar jini', 'jini'), symptom: 'bleeding', severity: 'moderate' },
+    { pattern: words('tashin zuciya'), symptom: 'nausea', severity: 'moderate' },
+    { pattern: words('amai'), symptom: 'vomiting', severity: 'moderate' },
+    { pattern: words('jiri'), symptom: 'dizziness', severity: 'moderate' },
+    { pattern: words('kumburi', 'kumbura'), symptom: 'swelling', severity: 'moderate' },
+    { pattern: words('zazzaɓi', 'zazzabi'), symptom: 'fever', severity: 'moderate' },
+    { pattern: words('gajiya', 'na gaji'), symptom: 'fatigue', severity: 'mild' },
+    { pattern: words('ciwon baya'), symptom: 'back pain', severity: 'moderate' },
+    { pattern: words('murɗawar ciki', 'murdawar ciki'), symptom: 'cramping', severity: 'moderate' },
+    { pattern: words('fitar farin ruwa'), symptom: 'vaginal discharge', severity: 'mild' },
+  ],
+
+  intentPatterns: [
+    { pattern: words('ciwo', 'ciwon', 'zafi', 'jini', 'alama', 'rashin lafiya', 'ba na jin daɗi', 'ba na jin dadi'), intent: 'symptom_report' },
+    { pattern: words('gaggawa', 'taimako', 'ku taimake ni', 'hatsari'), intent: 'emergency' },
+    { pattern: words('alƙawari', 'alkawari', 'ganin likita', 'ziyara'), intent: 'appointment' },
+    { pattern: words('magani', 'kwaya', 'takardar magani'), intent: 'medication' },
+    { pattern: words('abinci', 'cin abinci', 'bitamin'), intent: 'nutrition' },
+    { pattern: words('damuwa', 'tsoro', 'ina jin tsoro', 'kuka'), intent: 'emotional_support' },
+    { pattern: words('yaya', 'me yasa', 'me ya sa', 'yaushe', 'shin', 'ko daidai ne'), intent: 'question' },
+    { pattern: words('koyo', 'bayani', 'gaya min game da'), intent: 'education' },
+  ],
+
+  emotionalPatterns: [
+    { pattern: words('taimako', 'gaggawa', 'yanzu', 'da sauri'), tone: 'urgent' },
+    { pattern: words('damuwa', 'tsoro', 'ina jin tsoro'), tone: 'anxious' },
+    { pattern: words('na fid da rai', 'na kasa jurewa', 'hankalina ya tashi'), tone: 'distressed' },
+    { pattern: words('lafiya lau', 'ba damuwa', 'daidai'), tone: 'calm' },
+  ],
+
+  negationTriggers: ['babu', 'ba ni da', 'bani da', 'ba tare da', 'ban taɓa samun', 'ban taba samun'],
+  postNegationTriggers: ['ya tsaya', 'ya daina', 'ya wuce'],
+  scopeTerminators: ['amma', 'sai dai', 'ina da'],
+  negationWindow: 0,
+  experiencerCues: [
+    "'yar'uwata", "yar'uwata", 'mahaifiyata', 'ƙawata', 'kawata', 'maƙwabciyata', 'makwabciyata',
+    'mijina', "'yata", 'wata mace',
+  ],
+  hypotheticalCues: [
+    'idan na samu', 'idan na ga', 'alamomin', 'haɗarin', 'hadarin',
+  ],
+  crisisTerms: {
+    self_harm: [
+      'kashe kaina', 'ina so in mutu', 'ina son mutuwa', 'cutar da kaina', 'raunata kaina', 'ban son rayuwa',
+    ],
+    harm_to_baby: [
+      'kashe jaririna', 'cutar da jaririna', 'raunata jaririna', 'kashe ɗana', 'kashe dana',
+      'cutar da ɗana', 'cutar da dana', 'girgiza jaririna',
+    ],
+  },
+  answers: {
+    yes: ['eh', "na'am", 'haka ne', 'ƙwarai', 'kwarai'],
+    no: ["a'a", 'babu', 'ba ni da'],
+    unknown: ['ban sani ba', 'ban sani', 'ban san ba'],
+    time: ['minti', 'awa', "sa'a", 'kwana', 'mako', 'safe', 'yamma', 'dare', 'jiya', 'yau', 'tun', 'kullum'],
+  },
+
+  templates: {
+    emergency: (symptoms) => `🚨 Na gano alamomin da ka iya zama na gaggawa: ${symptoms}.
+
+Don Allah ki ɗauki waɗannan matakai yanzu:
+1. Ki kwantar da hankali, ki zauna ko ki kwanta a wuri mai aminci
+2. Idan ke kaɗai ce, ki kira wani ya zo ya kasance tare da ke
+3. Ki tuntuɓi ma'aikacin lafiyarki nan take
+4. Idan alamomin suna da tsanani, ki kira sabis na gaggawa
+
+KADA ki jira ki ga ko alamomin za su ragu. Lafiyarki da ta jaririnki su ne mafi muhimmanci.
+
+Akwai wani tare da ke yanzu?`,
+    emergencyRecommendations: [
+      'Ki nemi kulawar likita nan take',
+      'Ki kira sabis na gaggawa idan alamomin suna da tsanani',
+      'Kada ki tuƙa mota da kanki zuwa asibiti',
+      'Ki tabbata wani yana tare da ke',
+    ],
+    emergencyDisclaimer: 'Wannan kimantawa ce da AI ta taimaka. A lokacin gaggawa, koyaushe ki tuntuɓi sabis na gaggawa nan take.',
+    emergencyConfirm: (symptoms) => `Kin ambaci: ${symptoms}. Shin yana faruwa da ke yanzu?\n\nIdan haka ne, ki kira sabis na gaggawa ko ki je asibiti mafi kusa yanzu, kada ki jira.`,
+
+    symptom: {
+      level_1: (symptoms) => `Na gode da kika gaya min game da ${symptoms}. Bisa ga bayaninki, waɗannan alamomin sun saba faruwa a lokacin ciki. Duk da haka, ina ba ki shawara:\n\n• Ki ci gaba da lura da yadda kike ji\n• Ki sha ruwa sosai ki huta\n• Ki lura da duk wani canji ko ƙaruwar alamomin\n\nKina son shawarwari kan yadda za ki rage waɗannan alamomin?`,
+      level_2: (symptoms) => `Na fahimci cewa kina fama da ${symptoms}. Waɗannan alamomin suna buƙatar kulawa. Ina ba ki shawara:\n\n• Ki lura da alamominki sosai cikin awa 24-48 masu zuwa\n• Ki rubuta sau nawa suke faruwa da tsananinsu\n• Ki tuntuɓi ma'aikacin lafiyarki idan sun ƙaru ko suka ci gaba\n\nKina son a tsara miki ganin likita?`,
+      level_3: (symptoms) => `⚠️ Ina damuwa game da ${symptoms}. Waɗannan alamomin suna buƙatar kulawar likita da wuri. Don Allah:\n\n• Ki tuntuɓi ma'aikacin lafiyarki cikin awa 24\n• Kada ki jira alamomin su tafi da kansu\n• Ki guji aiki mai nauyi har sai an duba ki\n\nKina son in taimake ki ki tuntuɓi likitanki yanzu?`,
+      level_4: (symptoms) => `🚨 Alamomin da kika bayyana (${symptoms}) suna da haɗari kuma suna buƙatar kulawar likita nan take. Don Allah:\n\n• Ki je asibitin gaggawa ko ki kira sabis na gaggawa YANZU\n• Kada ki tuƙa da kanki - wani ya kai ki ko ki kira motar asibiti\n• Ki tafi da wani idan zai yiwu\n\nLafiyarki da ta jaririnki su ne mafi muhimmanci.`,
+    },
+    symptomRecommendations: {
+      level_1: ['Ki lura da alamomin', 'Ki sha ruwa sosai', 'Ki huta sosai', 'Ki ci gaba da ayyukanki na yau da kullum'],
+      level_2: ['Ki lura da alamomin sosai', 'Ki tsara ganin likita', 'Ki guji aiki mai nauyi', 'Ki tuntuɓi likita idan sun ƙaru'],
+      level_3: ['Ki tuntuɓi likita cikin awa 24', 'Ki guji aiki mai nauyi', 'Ki tabbata akwai wanda zai taimake ki', 'Ki shirya zuwa asibiti idan sun ƙaru'],
+      level_4: ['Ki nemi kulawar gaggawa nan take', 'Ki kira sabis na gaggawa', 'Kada ki tuƙa da kanki', 'Ki tabbata wani yana tare da ke'],
+    },
+    yourSymptoms: 'alamominki',
+
+    emotional: {
+      anxious: 'Na ji cewa kina cikin damuwa, kuma hakan abin fahimta ne. Ciki yana iya kawo abubuwa da yawa na damuwa. Ki tuna:\n\n• Yadda kike ji yana da muhimmanci\n• Mata masu ciki da yawa suna da irin wannan damuwa\n• Ba laifi ba ne ki nemi taimako\n\nKina son mu yi magana game da abin da ke damun ki? Ko kina son hanyoyin kwantar da hankali?',
+      distressed: 'Na fahimci cewa kina cikin wani hali mai wuya, kuma ina so ki sani ba ke kaɗai ba ce. Yana da muhimmanci ki:\n\n• Yi magana da wanda kike amincewa da shi\n• Yi tunanin ganin mai ba da shawara\n• Tuntuɓi ma\'aikacin lafiyarki ba tare da jinkiri ba\n\nLafiyar hankalinki tana da muhimmanci kamar lafiyar jikinki. Kina son taimako na ɓangaren zuciya?',
+      urgent: 'Na fahimci cewa wannan abu ne na gaggawa. Bari in taimake ki:\n\n• Idan gaggawar lafiya ce, ki kira sabis na gaggawa\n• Idan kina son magana da likitanki, zan iya taimaka miki ki shirya\n• Idan abubuwa sun yi miki yawa, ba laifi - za mu bi su ɗaya bayan ɗaya\n\nMe kike buƙatar taimako a kai yanzu?',
+      default: 'Na gode da kika gaya min yadda kike ji. Yana da muhimmanci ki kula da lafiyar zuciyarki a lokacin ciki. Ina nan don in saurare ki in taimake ki. Me ke zuciyarki?',
+    },
+    emotionalRecommendations: [
+      'Ki yi numfashi mai zurfi a hankali',
+      'Ki yi magana da aminiya ko ɗan uwa da kike amincewa da shi',
+      'Ki yi tunanin ganin mai ba da shawara',
+      'Ki riƙa barci a lokaci ɗaya kullum',
+    ],
+
+    intents: {
+      medication: {
+        message: () => 'Na fahimci cewa kina da tambayoyi game da magani. Yana da muhimmanci koyaushe ki tambayi ma\'aikacin lafiyarki kafin ki sha kowane magani a lokacin ciki. Wasu magungunan da ba su da illa a kullum ba za su dace ba a lokacin ciki. Kina son in taimake ki ki shirya tambayoyi ga likitanki?',
+        recommendations: [
+          'Ki tambayi likita kafin ki sha kowane magani',
+          'Ki faɗi cewa kina da ciki duk lokacin da aka ba ki magani',
+          'Ki ajiye jerin duk magungunan da kike sha',
+        ],
+      },
+      nutrition: {
+        message: () => 'Abinci mai gina jiki yana da matuƙar muhimmanci a lokacin ciki! Muhimman abubuwa:\n\n• Ki ci ’ya’yan itatuwa da kayan lambu da hatsi da yawa\n• Ki samu isasshen furotin daga nama, wake ko gyaɗa\n• Ki sha bitamin na ciki kamar yadda aka umarta\n• Ki sha ruwa sosai\n• Ki guji ɗanyen kifi da madarar da ba a dafa ba\n\nKina son shawara ta musamman bisa matakin cikinki?',
+        recommendations: [
+          'Ki sha bitamin na ciki kullum',
+          'Ki ci abinci kaɗan-kaɗan sau da yawa',
+          'Ki sha ruwa sosai',
+          'Ki guji barasa ki rage shan kofi',
+        ],
+      },
+      appointment: {
+        message: () => 'Zan iya taimaka miki game da ganin likita! Kina son:\n\n1. Tsara sabon lokacin ganin likita\n2. Duba lokutan da ke tafe\n3. Canza lokacin da aka riga aka tsara\n\nDon Allah ki gaya min abin da kike so ki yi.',
+        recommendations: [
+          'Ki shirya tambayoyi kafin ganin likita',
+          'Ki zo da jerin alamominki',
+          'Ki rubuta canje-canje tun ziyararki ta ƙarshe',
+        ],
+      },
+      education: {
+        message: (pregnancyWeek) => `Ina so in taimake ki ki ƙara koyo! ${pregnancyWeek ? `A mako na ${pregnancyWeek} na cikinki` : 'A lokacin cikinki'}, ga batutuwan da za su iya taimaka miki:\n\n• Abin da za ki yi tsammani a wannan lokaci\n• Girman jariri\n• Shirin naƙuda da haihuwa\n• Kulawa bayan haihuwa\n\nWane batu ne ya fi burge ki?`,
+        recommendations: [
+          'Ki halarci azuzuwan mata masu ciki',
+          'Ki karanta bayanai daga majiyoyi amintattu',
+          'Ki shiga ƙungiyar tallafi ta mata masu ciki',
+        ],
+      },
+      question: {
+        message: () => 'Ina nan don in amsa tambayoyinki! Ki sani cewa ina ba da bayani na gaba ɗaya ne kawai, ba zan iya maye gurbin ma\'aikacin lafiyarki ba. Me kike so ki sani?',
+        recommendations: [
+          'Ki ajiye jerin tambayoyi ga likitanki',
+          'Kada ki ji tsoron tambayar duk abin da ke damun ki',
+        ],
+      },
+      general: {
+        message: () => 'Sannu! Ni ce mataimakiyarki ta lafiyar uwa. Ina nan don in taimake ki a duk tsawon cikinki. Zan iya:\n\n• Taimaka miki ki lura da alamominki ki kuma ba da rahoto\n• Amsa tambayoyi game da ciki\n• Ba da shawarwari kan abinci da lafiya\n• Taimaka miki ki tsara ganin likita\n• Ba ki tallafi na zuciya\n\nYaya zan taimake ki yau?',
+        recommendations: [],
+      },
+    },
+
+    slotQuestions: {
+      onset: () => 'Yaushe wannan alamar ta fara?',
+      duration: () => 'Tsawon wane lokaci take ɗauka, ko tana nan tun da ta fara?',
+      severity: () => 'Daga 1 zuwa 10, yaya tsananinta yake yanzu?',
+      visualSymptoms: () => 'Shin kin lura da wani canji a ganinki, kamar gani dishi-dishi, ɗigo-ɗigo ko walƙiya?',
+      bloodPressure: () => "Nawa ne awon hawan jininki na ƙarshe (misali 120/80)? Idan ba ki sani ba, ki faɗa kawai.",
+    },
+    slotRetry: 'Yi haƙuri, ban fahimta sosai ba.',
+
+    disclaimer: 'Wannan mataimakiyar AI tana ba da bayani na gaba ɗaya ne kawai kuma ba ta maye gurbin shawarar ƙwararren likita. Koyaushe ki tuntuɓi ma\'aikacin lafiyarki kafin yanke shawarar magani.',
+  },
+};
@@ -0,0 +1,254 @@
+/**
+ * Lexicon Packs for the AI Conversational Engine
+ *
+ * Implements:
+ * - Per-language emergency keywords, symptom/intent/emotion patterns,
+ *   negation triggers, experiencer/hypothetical cues and mental health
+ *   crisis terms
+ * - Patient-facing response templates per language
+ * - Language selection with fallback to English
+ * - Patterns and education answers learned into the serving knowledge pack
+ *
+ * Symptom and emergency terms map to canonical English names so that risk
+ * assessment, storage and clinical messages stay language-independent.
+ */
+
+import type { EmotionalTone, ExtractedSymptom, Intent, RiskLevel } from '../AIConversationalEngine';
+import type { NegationRules } from '../ClinicalContextAnalyzer';
+import type { ClinicalSlot } from '../ClinicalDialogueManager';
+import type { KnowledgePack, LearnedEducationAnswer } from '../KnowledgeBase';
+import type { CrisisType } from '../MentalHealthScreening';
+import { words } from './patterns';
+import { en } from './en';
+import { fr } from './fr';
+import { sw } from './sw';
+import { tw } from './tw';
+import { ha } from './ha';
+
+// Types
+export type SupportedLanguage = 'en' | 'fr' | 'sw' | 'tw' | 'ha';
+
+export interface EmergencyTerm {
+  term: string;
+  /** Canonical English name used in clinical messages and storage */
+  canonical: string;
+}
+
+export interface SymptomPattern {
+  pattern: RegExp;
+  /** Canonical English symptom name; '$1' substitutes the first capture group */
+  symptom: string;
+  severity: ExtractedSymptom['severity'];
+}
+
+export interface IntentTemplate {
+  message: (pregnancyWeek?: number) => string;
+  recommendations: string[];
+}
+
+export type TemplatedIntent = 'medication' | 'nutrition' | 'appointment' | 'education' | 'question' | 'general';
+
+/** Words used to interpret answers to follow-up questions */
+export interface AnswerVocabulary {
+  yes: string[];
+  no: string[];
+  /** "I don't know", "sijui" - the slot is recorded as unknown */
+  unknown: string[];
+  /** Words that mark an answer about time ("hours", "yesterday", "jana") */
+  time: string[];
+}
+
+export interface ResponseTemplates {
+  emergency: (symptoms: string) => string;
+  emergencyRecommendations: string[];
+  emergencyDisclaimer: string;
+  /** Asks whether an emergency mentioned as negated, past, hypothetical or someone else's is happening to her now */
+  emergencyConfirm: (symptoms: string) => string;
+  symptom: Record<RiskLevel, (symptoms: string) => string>;
+  symptomRecommendations: Record<RiskLevel, string[]>;
+  /** Used in place of a symptom list when no symptom was recognised */
+  yourSymptoms: string;
+  emotional: Record<Exclude<EmotionalTone, 'neutral' | 'calm'> | 'default', string>;
+  emotionalRecommendations: string[];
+  intents: Record<TemplatedIntent, IntentTemplate>;
+  /** Follow-up questions for clinical slot filling */
+  slotQuestions: Record<ClinicalSlot, (symptom: string) => string>;
+  /** Prefix when the previous answer could not be understood */
+  slotRetry: string;
+  disclaimer: string;
+}
+
+export interface LexiconPack {
+  language: SupportedLanguage;
+  name: string;
+  emergencyKeywords: EmergencyTerm[];
+  symptomPatterns: SymptomPattern[];
+  intentPatterns: { pattern: RegExp; intent: Intent }[];
+  emotionalPatterns: { pattern: RegExp; tone: EmotionalTone }[];
+  /** Words that negate a following finding ("no", "pas de", "hakuna") */
+  negationTriggers: string[];
+  /** Phrases that negate a preceding finding ("has stopped", "imekoma") */
+  postNegationTriggers: string[];
+  /** Words that end a negation scope ("mais", "lakini") */
+  scopeTerminators: string[];
+  /** Maximum words a negation reaches ("sina nguvu damu nyingi" negates only "nguvu") */
+  negationWindow?: number;
+  /** Words that attribute a finding to someone else ("ma sœur", "dada yangu") */
+  experiencerCues: string[];
+  /** Words that make a finding hypothetical ("et si", "ikiwa") */
+  hypotheticalCues: string[];
+  /** Self-harm and harm-to-baby phrases screened as a crisis; English uses the screening's built-in lists */
+  crisisTerms: Record<CrisisType, string[]>;
+  answers: AnswerVocabulary;
+  templates: ResponseTemplates;
+}
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
+
+const LEXICONS: Record<SupportedLanguage, LexiconPack> = { en, fr, sw, tw, ha };
+
+export const SUPPORTED_LANGUAGES: { code: SupportedLanguage; name: string }[] =
+  Object.values(LEXICONS).map(pack => ({ code: pack.language, name: pack.name }));
+
+// Common alternative codes and names users or profiles may store
+const LANGUAGE_ALIASES: Record<string, SupportedLanguage> = {
+  english: 'en',
+  french: 'fr',
+  francais: 'fr',
+  français: 'fr',
+  swahili: 'sw',
+  kiswahili: 'sw',
+  swa: 'sw',
+  twi: 'tw',
+  akan: 'tw',
+  ak: 'tw',
+  aka: 'tw',
+  hausa: 'ha',
+  hau: 'ha',
+};
+
+/**
+ * Map a stored language value ('fr', 'fr-CI', 'Swahili', 'ak') to a supported language
+ */
+export function normalizeLanguage(language?: string | null): SupportedLanguage {
+  if (!language) return DEFAULT_LANGUAGE;
+  const value = language.trim().toLowerCase();
+  const base = value.split(/[-_]/)[0];
+
+  if (base in LEXICONS) return base as SupportedLanguage;
+  return LANGUAGE_ALIASES[value] || LANGUAGE_ALIASES[base] || DEFAULT_LANGUAGE;
+}
+
+/**
+ * Get the lexicon pack for a language, falling back to English
+ */
+export function getLexicon(language?: string | null): LexiconPack {
+  return LEXICONS[normalizeLanguage(language)];
+}
+
+/**
+ * The lexicon for a language followed by English. English patterns are always
+ * scanned because mothers often mix English medical words into other languages.
+ */
+export function getLexiconChain(language?: string | null): LexiconPack[] {
+  const lexicon = getLexicon(language);
+  return lexicon.language === DEFAULT_LANGUAGE ? [lexicon] : [lexicon, en];
+}
+
+/**
+ * Negation triggers and context cues for a lexicon; English uses the analyzer's built-in lists
+ */
+export function getNegationRules(lexicon: LexiconPack): NegationRules | undefined {
+  if (lexicon.negationTriggers.length === 0 && lexicon.postNegationTriggers.length === 0) {
+    return undefined;
+  }
+  return {
+    pre: lexicon.negationTriggers,
+    post: lexicon.postNegationTriggers,
+    terminators: lexicon.scopeTerminators,
+    window: lexicon.negationWindow,
+    experiencers: lexicon.experiencerCues,
+    hypotheticals: lexicon.hypotheticalCues,
+  };
+}
+
+interface LearnedLexicon {
+  symptomPatterns: SymptomPattern[];
+  intentPatterns: { pattern: RegExp; intent: Intent }[];
+  educationAnswers: { pattern: RegExp; answer: LearnedEducationAnswer }[];
+}
+
+// Compiled once per loaded pack
+const learnedLexicons = new WeakMap<KnowledgePack, Map<SupportedLanguage, LearnedLexicon>>();
+
+/**
+ * Extend a lexicon chain with the symptom and intent patterns the knowledge
+ * pack learned for those languages. Learned patterns are tried after the
+ * built-in ones, so they fill gaps without overriding reviewed wording; a
+ * learned symptom also marks the message as a symptom report.
+ */
+export function withLearnedPatterns(lexicons: LexiconPack[], pack: KnowledgePack): LexiconPack[] {
+  return lexicons.map(lexicon => {
+    const learned = getLearnedLexicon(pack, lexicon.language);
+    if (learned.symptomPatterns.length === 0 && learned.intentPatterns.length === 0) return lexicon;
+    return {
+      ...lexicon,
+      symptomPatterns: [...lexicon.symptomPatterns, ...learned.symptomPatterns],
+      intentPatterns: [...lexicon.intentPatterns, ...learned.intentPatterns],
+    };
+  });
+}
+
+/**
+ * Learned education answer for a message, searching the chain's languages in order
+ */
+export function findLearnedAnswer(
+  message: string,
+  lexicons: LexiconPack[],
+  pack: KnowledgePack
+): LearnedEducationAnswer | undefined {
+  for (const lexicon of lexicons) {
+    const match = getLearnedLexicon(pack, lexicon.language).educationAnswers.find(({ pattern }) => pattern.test(message));
+    if (match) return match.answer;
+  }
+  return undefined;
+}
+
+function getLearnedLexicon(pack: KnowledgePack, language: SupportedLanguage): LearnedLexicon {
+  let byLanguage = learnedLexicons.get(pack);
+  if (!byLanguage) {
+    byLanguage = new Map();
+    learnedLexicons.set(pack, byLanguage);
+  }
+
+  let learned = byLanguage.get(language);
+  if (!learned) {
+    const forLanguage = <T extends { language: SupportedLanguage }>(entries: T[] = []) =>
+      entries.filter(entry => entry.language === language);
+    learned = {
+      symptomPatterns: forLanguage(pack.symptomPatterns).map(({ terms, symptom, severity }) => ({
+        pattern: termPattern(terms),
+        symptom,
+        severity,
+      })),
+      intentPatterns: [
+        ...forLanguage(pack.intentPatterns).map(({ terms, intent }) => ({ pattern: termPattern(terms), intent })),
+        ...forLanguage(pack.symptomPatterns).map(({ terms }) => ({
+          pattern: termPattern(terms),
+          intent: 'symptom_report' as Intent,
+        })),
+      ],
+      educationAnswers: forLanguage(pack.educationAnswers).map(answer => ({
+        pattern: termPattern(answer.terms),
+        answer,
+      })),
+    };
+    byLanguage.set(language, learned);
+  }
+  return learned;
+}
+
+// Learned terms are literal phrases, never regular expressions
+function termPattern(terms: string[]): RegExp {
+  return words(...terms.map(term => term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')));
+}
@@ -0,0 +1,12 @@
+/**
+ * Pattern helpers for lexicon packs
+ */
+
+/**
+ * Case-insensitive whole-word pattern over alternatives, with the matched
+ * alternative in capture group 1. Unlike \b, the word boundary understands
+ * accented and extended Latin letters (é, ɛ, ɔ, ƙ, ɗ).
+ */
+export function words(...alternatives: string[]): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'iu');
+}
@@ -0,0 +1,215 @@
+/**
+ * Swahili lexicon pack
+ */
+
+import type { LexiconPack } from './index';
+import { words } from './patterns';
+
+export const sw: LexiconPack = {
+  language: 'sw',
+  name: 'Kiswahili',
+
+  emergencyKeywords: [
+    { term: 'damu nyingi', canonical: 'heavy bleeding' },
+    { term: 'kutokwa na damu nyingi', canonical: 'heavy bleeding' },
+    { term: 'natoka damu nyingi', canonical: 'heavy bleeding' },
+    { term: 'degedege', canonical: 'convulsion' },
+    { term: 'kifafa', canonical: 'seizure' },
+    { term: 'kupoteza fahamu', canonical: 'unconscious' },
+    { term: 'nimepoteza fahamu', canonical: 'unconscious' },
+    { term: 'nimezimia', canonical: 'fainted' },
+    { term: 'kuzimia', canonical: 'fainted' },
+    { term: 'siwezi kupumua', canonical: 'can\'t breathe' },
+    { term: 'shida ya kupumua', canonical: 'difficulty breathing' },
+    { term: 'kupumua kwa shida', canonical: 'difficulty breathing' },
+    { term: 'maumivu makali ya kichwa', canonical: 'severe headache' },
+    { term: 'kichwa kinauma sana', canonical: 'severe headache' },
+    { term: 'kuona ukungu', canonical: 'blurred vision' },
+    { term: 'naona ukungu', canonical: 'blurred vision' },
+    { term: 'naona nyota', canonical: 'seeing spots' },
+    { term: 'maumivu makali ya tumbo', canonical: 'severe abdominal pain' },
+    { term: 'tumbo linauma sana', canonical: 'severe abdominal pain' },
+    { term: 'mtoto hachezi', canonical: 'baby not moving' },
+    { term: 'mtoto hajacheza', canonical: 'baby not moving' },
+    { term: 'mtoto anacheza kidogo', canonical: 'reduced movement' },
+    { term: 'maji yamevunjika', canonical: 'water broke' },
+    { term: 'chupa imepasuka', canonical: 'water broke' },
+    { term: 'maji yanatoka', canonical: 'leaking fluid' },
+    { term: 'uchungu wa kujifungua', canonical: 'labor pains' },
+    { term: 'uchungu', canonical: 'contractions' },
+    { term: 'uso umevimba', canonical: 'swelling face' },
+    { term: 'mikono imevimba', canonical: 'swelling hands' },
+    { term: 'shinikizo la damu', canonical: 'high blood pressure' },
+    { term: 'presha iko juu', canonical: 'high blood pressure' },
+    { term: 'maumivu ya kifua', canonical: 'chest pain' },
+    { term: 'kifua kinauma', canonical: 'chest pain' },
+    { term: 'moyo unadunda', canonical: 'heart palpitations' },
+  ],
+
+  symptomPatterns: [
+    { pattern: words('maumivu makali ya kichwa', 'kichwa kinauma sana'), symptom: 'headache', severity: 'severe' },
+    { pattern: words('maumivu ya kichwa', 'kichwa kinauma'), symptom: 'headache', severity: 'moderate' },
+    { pattern: words('kutokwa na damu', 'natoka damu', 'navuja damu', 'damu'), symptom: 'bleeding', severity: 'moderate' },
+    { pattern: words('kichefuchefu'), symptom: 'nausea', severity: 'moderate' },
+    { pattern: words('kutapika', 'natapika'), symptom: 'vomiting', severity: 'moderate' },
+    { pattern: words('kizunguzungu'), symptom: 'dizziness', severity: 'moderate' },
+    { pattern: words('kuvimba', 'uvimbe', 'imevimba', 'umevimba'), symptom: 'swelling', severity: 'moderate' },
+    { pattern: words('homa', 'joto jingi'), symptom: 'fever', severity: 'moderate' },
+    { pattern: words('uchovu', 'nimechoka'), symptom: 'fatigue', severity: 'mild' },
+    { pattern: words('maumivu ya mgongo', 'mgongo unauma'), symptom: 'back pain', severity: 'moderate' },
+    { pattern: words('mkakamao', 'tumbo kukaza'), symptom: 'cramping', severity: 'moderate' },
+    { pattern: words('uchafu ukeni', 'kutokwa na uchafu'), symptom: 'vaginal discharge', severity: 'mild' },
+  ],
+
+  intentPatterns: [
+    { pattern: words('maumivu', 'inauma', 'damu', 'dalili', 'mgonjwa', 'sijisikii vizuri'), intent: 'symptom_report' },
+    { pattern: words('dharura', 'msaada', 'nisaidieni', 'nisaidie', 'hatari'), intent: 'emergency' },
+    { pattern: words('miadi', 'kuonana na daktari', 'kumwona daktari', 'ziara'), intent: 'appointment' },
+    { pattern: words('dawa', 'vidonge', 'kidonge', 'maagizo ya daktari'), intent: 'medication' },
+    { pattern: words('kula', 'chakula', 'lishe', 'vitamini'), intent: 'nutrition' },
+    { pattern: words('wasiwasi', 'naogopa', 'hofu', 'nalia', 'msongo'), intent: 'emotional_support' },
+    { pattern: words('nini', 'vipi', 'kwa nini', 'lini', 'je', 'ni kawaida'), intent: 'question' },
+    { pattern: words('kujifunza', 'taarifa', 'makala', 'nieleze kuhusu'), intent: 'education' },
+  ],
+
+  emotionalPatterns: [
+    { pattern: words('msaada', 'dharura', 'sasa hivi', 'haraka'), tone: 'urgent' },
+    { pattern: words('wasiwasi', 'naogopa', 'hofu'), tone: 'anxious' },
+    { pattern: words('nimechanganyikiwa', 'siwezi kuvumilia', 'nimekata tamaa'), tone: 'distressed' },
+    { pattern: words('sawa', 'salama', 'nzuri', 'kawaida'), tone: 'calm' },
+  ],
+
+  negationTriggers: ['hakuna', 'sina', 'bila', 'sijapata', 'sikuwa na', 'sijawahi kuwa na'],
+  postNegationTriggers: ['imekoma', 'imeisha', 'imeacha', 'imepona', 'imekwisha'],
+  scopeTerminators: ['lakini', 'ila', 'isipokuwa', 'nina'],
+  negationWindow: 0,
+  experiencerCues: [
+    'dada yangu', 'mama yangu', 'shangazi yangu', 'binamu yangu', 'rafiki yangu', 'jirani yangu',
+    'binti yangu', 'mume wangu', 'mwanamke mmoja',
+  ],
+  hypotheticalCues: [
+    'je ikiwa', 'ikiwa nitapata', 'nikipata', 'dalili za', 'hatari ya',
+  ],
+  crisisTerms: {
+    self_harm: [
+      'kujiua', 'nijiue', 'nataka kufa', 'kujidhuru', 'kujiumiza', 'kujikata', 'sitaki kuishi', 'kujitoa uhai',
+    ],
+    harm_to_baby: [
+      'kumdhuru mtoto wangu', 'kumuumiza mtoto wangu', 'kumuua mtoto wangu', 'kumtikisa mtoto wangu',
+      'kumzamisha mtoto wangu', 'kumdhuru mwanangu', 'kumuumiza mwanangu', 'kumuua mwanangu',
+    ],
+  },
+  answers: {
+    yes: ['ndiyo', 'ndio', 'naam'],
+    no: ['hapana', 'hakuna', 'sina'],
+    unknown: ['sijui', 'sina uhakika', 'ruka'],
+    time: ['dakika', 'saa', 'masaa', 'siku', 'wiki', 'asubuhi', 'mchana', 'jioni', 'usiku', 'jana', 'leo', 'tangu', 'muda wote'],
+  },
+
+  templates: {
+    emergency: (symptoms) => `🚨 Nimegundua dalili zinazoweza kuwa za dharura: ${symptoms}.
+
+Tafadhali chukua hatua hizi sasa hivi:
+1. Tulia na ukae au ulale mahali salama
+2. Kama uko peke yako, mpigie mtu aje akae nawe
+3. Wasiliana na mhudumu wako wa afya mara moja
+4. Kama dalili ni kali, piga simu huduma za dharura
+
+USISUBIRI kuona kama dalili zitapungua. Usalama wako na wa mtoto wako ndio muhimu zaidi.
+
+Je, kuna mtu yuko nawe sasa hivi?`,
+    emergencyRecommendations: [
+      'Tafuta huduma ya matibabu mara moja',
+      'Piga simu huduma za dharura kama dalili ni kali',
+      'Usiendeshe gari mwenyewe kwenda hospitali',
+      'Hakikisha mtu anakaa nawe',
+    ],
+    emergencyDisclaimer: 'Hii ni tathmini inayosaidiwa na AI. Wakati wa dharura, daima wasiliana na huduma za dharura mara moja.',
+    emergencyConfirm: (symptoms) => `Umetaja: ${symptoms}. Je, hili linakutokea wewe sasa hivi?\n\nKama ndiyo, piga simu huduma za dharura au nenda hospitali iliyo karibu sasa hivi, usisubiri.`,
+
+    symptom: {
+      level_1: (symptoms) => `Asante kwa kunieleza kuhusu ${symptoms}. Kwa maelezo yako, dalili hizi zinaonekana kuwa za kawaida wakati wa ujauzito. Hata hivyo, nakushauri:\n\n• Endelea kufuatilia jinsi unavyojisikia\n• Kunywa maji ya kutosha na upumzike\n• Angalia mabadiliko yoyote au dalili zikizidi\n\nUngependa vidokezo vya kupunguza dalili hizi?`,
+      level_2: (symptoms) => `Naelewa kuwa una ${symptoms}. Dalili hizi zinahitaji uangalifu. Nakushauri:\n\n• Fuatilia dalili zako kwa makini kwa saa 24-48 zijazo\n• Andika zinatokea mara ngapi na ukali wake\n• Wasiliana na mhudumu wako wa afya dalili zikizidi au zikiendelea\n\nUngependa kupanga miadi ya uchunguzi?`,
+      level_3: (symptoms) => `⚠️ Nina wasiwasi kuhusu ${symptoms}. Dalili hizi zinahitaji huduma ya matibabu haraka. Tafadhali:\n\n• Wasiliana na mhudumu wako wa afya ndani ya saa 24\n• Usisubiri dalili ziishe zenyewe\n• Epuka kazi nzito hadi uchunguzwe\n\nUngependa nikusaidie kuwasiliana na daktari wako sasa?`,
+      level_4: (symptoms) => `🚨 Dalili ulizoeleza (${symptoms}) ni hatari na zinahitaji matibabu mara moja. Tafadhali:\n\n• Nenda hospitali ya dharura au piga simu huduma za dharura SASA\n• Usiendeshe mwenyewe - mtu akupeleke au ita gari la wagonjwa\n• Nenda na mtu kama inawezekana\n\nAfya yako na ya mtoto wako ndio kipaumbele.`,
+    },
+    symptomRecommendations: {
+      level_1: ['Fuatilia dalili', 'Kunywa maji ya kutosha', 'Pumzika vya kutosha', 'Endelea na shughuli za kawaida'],
+      level_2: ['Fuatilia dalili kwa makini', 'Panga uchunguzi wa kawaida', 'Epuka kazi nzito', 'Wasiliana na daktari dalili zikizidi'],
+      level_3: ['Wasiliana na daktari ndani ya saa 24', 'Epuka kazi nzito', 'Hakikisha mtu yupo wa kukusaidia', 'Jiandae kwenda hospitali dalili zikizidi'],
+      level_4: ['Tafuta huduma ya dharura mara moja', 'Piga simu huduma za dharura', 'Usiendeshe mwenyewe', 'Hakikisha mtu anakaa nawe'],
+    },
+    yourSymptoms: 'dalili zako',
+
+    emotional: {
+      anxious: 'Nasikia kuwa una wasiwasi, na hilo linaeleweka kabisa. Ujauzito unaweza kuleta mambo mengi ya kuhofia. Kumbuka:\n\n• Hisia zako ni halali\n• Wamama wengi wajawazito wana wasiwasi kama wako\n• Ni sawa kuomba msaada\n\nUngependa kuzungumza kuhusu kinachokutia wasiwasi? Au ungependa mbinu za kutuliza akili?',
+      distressed: 'Naona unapitia wakati mgumu, na nataka ujue kuwa hauko peke yako. Ni muhimu:\n\n• Kuzungumza na mtu unayemwamini\n• Kufikiria kuongea na mshauri wa kitaalamu\n• Kutosita kuwasiliana na mhudumu wako wa afya\n\nAfya yako ya akili ni muhimu kama afya ya mwili. Ungependa kupata msaada wa kihisia?',
+      urgent: 'Naelewa kuwa hili ni la haraka. Niruhusu nikusaidie:\n\n• Kama ni dharura ya kiafya, piga simu huduma za dharura\n• Kama unahitaji kuongea na daktari, naweza kukusaidia kujiandaa\n• Kama unajisikia kuzidiwa, ni sawa - tutaenda hatua kwa hatua\n\nUnahitaji msaada gani sasa hivi?',
+      default: 'Asante kwa kunieleza unavyojisikia. Ni muhimu kutunza afya yako ya kihisia wakati wa ujauzito. Niko hapa kukusikiliza na kukusaidia. Una nini akilini?',
+    },
+    emotionalRecommendations: [
+      'Fanya mazoezi ya kupumua kwa kina',
+      'Ongea na rafiki au ndugu unayemwamini',
+      'Fikiria kuongea na mshauri',
+      'Lala kwa ratiba ya kawaida',
+    ],
+
+    intents: {
+      medication: {
+        message: () => 'Naelewa una maswali kuhusu dawa. Ni muhimu kila mara kumuuliza mhudumu wako wa afya kabla ya kutumia dawa yoyote wakati wa ujauzito. Baadhi ya dawa salama kwa kawaida huenda zisiwe salama wakati wa ujauzito. Ungependa nikusaidie kuandaa maswali kwa daktari wako?',
+        recommendations: [
+          'Muulize daktari kabla ya kutumia dawa yoyote',
+          'Taja ujauzito wako kila unapopewa dawa',
+          'Weka orodha ya dawa zote unazotumia',
+        ],
+      },
+      nutrition: {
+        message: () => 'Lishe ni muhimu sana wakati wa ujauzito! Mambo muhimu:\n\n• Kula matunda, mboga na nafaka zisizokobolewa kwa wingi\n• Pata protini ya kutosha kutoka nyama isiyo na mafuta, maharage au kunde\n• Tumia vitamini za ujauzito kama ulivyoelekezwa\n• Kunywa maji mengi\n• Epuka samaki wabichi na maziwa yasiyochemshwa\n\nUngependa ushauri maalum kulingana na hatua ya ujauzito wako?',
+        recommendations: [
+          'Tumia vitamini za ujauzito kila siku',
+          'Kula milo midogo mara kwa mara',
+          'Kunywa maji ya kutosha',
+          'Epuka pombe na punguza kahawa',
+        ],
+      },
+      appointment: {
+        message: () => 'Naweza kukusaidia na miadi! Ungependa:\n\n1. Kupanga miadi mpya\n2. Kuona miadi inayokuja\n3. Kubadilisha miadi iliyopo\n\nTafadhali niambie unachotaka kufanya.',
+        recommendations: [
+          'Andaa maswali kabla ya miadi yako',
+          'Beba orodha ya dalili ulizonazo',
+          'Andika mabadiliko tangu ziara ya mwisho',
+        ],
+      },
+      education: {
+        message: (pregnancyWeek) => `Ningependa kukusaidia kujifunza zaidi! ${pregnancyWeek ? `Kwa wiki ya ${pregnancyWeek} ya ujauzito wako` : 'Kwa ujauzito wako'}, hapa kuna mada zinazoweza kukusaidia:\n\n• Nini cha kutarajia katika kipindi hiki\n• Ukuaji wa mtoto\n• Kujiandaa kwa uchungu na kujifungua\n• Huduma baada ya kujifungua\n\nMada ipi inakuvutia zaidi?`,
+        recommendations: [
+          'Hudhuria masomo ya wajawazito',
+          'Soma vyanzo vya kuaminika kuhusu ujauzito',
+          'Jiunge na kikundi cha msaada cha wajawazito',
+        ],
+      },
+      question: {
+        message: () => 'Niko hapa kujibu maswali yako! Tafadhali fahamu kuwa natoa taarifa za jumla tu, na siwezi kuchukua nafasi ya mhudumu wako wa afya. Ungependa kujua nini?',
+        recommendations: [
+          'Weka orodha ya maswali kwa daktari wako',
+          'Usisite kuuliza chochote kinachokutia wasiwasi',
+        ],
+      },
+      general: {
+        message: () => 'Habari! Mimi ni msaidizi wako wa afya ya mama. Niko hapa kukusaidia katika safari yako ya ujauzito. Naweza:\n\n• Kukusaidia kufuatilia na kuripoti dalili\n• Kujibu maswali kuhusu ujauzito\n• Kutoa ushauri wa lishe na afya\n• Kukusaidia kupanga miadi\n• Kukupa msaada wa kihisia\n\nNikusaidie vipi leo?',
+        recommendations: [],
+      },
+    },
+
+    slotQuestions: {
+      onset: () => 'Dalili hii ilianza lini?',
+      duration: () => 'Inadumu kwa muda gani, au imekuwepo muda wote tangu ilipoanza?',
+      severity: () => 'Kwa kipimo cha 1 hadi 10, ni kali kiasi gani sasa hivi?',
+      visualSymptoms: () => 'Je, umeona mabadiliko yoyote katika kuona, kama ukungu, madoa au mwanga unaomweka?',
+      bloodPressure: () => 'Kipimo chako cha mwisho cha shinikizo la damu kilikuwa kipi (kwa mfano 120/80)? Kama hujui, sema tu.',
+    },
+    slotRetry: 'Samahani, sijaelewa vizuri.',
+
+    disclaimer: 'Msaidizi huyu wa AI anatoa taarifa za jumla tu na si mbadala wa ushauri wa kitaalamu wa matibabu. Daima wasiliana na mhudumu wako wa afya kwa maamuzi ya matibabu.',
+  },
+};
@@ -0,0 +1,202 @@
+/**
+ * Twi (Akan) lexicon pack
+ *
+ * Terms are listed with and without ɛ/ɔ because many users type Twi on
+ * keyboards without those letters.
+ */
+
+import type { LexiconPack } from './index';
+import { words } from './patterns';
+
+export const tw: LexiconPack = {
+  language: 'tw',
+  name: 'Twi',
+
+  emergencyKeywords: [
+    { term: 'mogya pii', canonical: 'heavy bleeding' },
+    { term: 'mogya retu pii', canonical: 'heavy bleeding' },
+    { term: 'menntumi nhome', canonical: 'can\'t breathe' },
+    { term: 'mentumi nhome', canonical: 'can\'t breathe' },
+    { term: 'ahome ho haw', canonical: 'difficulty breathing' },
+    { term: 'tipaeɛ a ano yɛ den', canonical: 'severe headache' },
+    { term: 'me ti yɛ me ya paa', canonical: 'severe headache' },
+    { term: 'me ti ye me ya paa', canonical: 'severe headache' },
+    { term: "m'ani so yɛ kusuu", canonical: 'blurred vision' },
+    { term: "m'ani so ye kusuu", canonical: 'blurred vision' },
+    { term: 'me yafunu yɛ me ya paa', canonical: 'severe abdominal pain' },
+    { term: 'me yafunu ye me ya paa', canonical: 'severe abdominal pain' },
+    { term: 'abofra no nnwiriw', canonical: 'baby not moving' },
+    { term: 'ba no nnwiriw', canonical: 'baby not moving' },
+    { term: 'nsuo no apae', canonical: 'water broke' },
+    { term: 'me nsuo apae', canonical: 'water broke' },
+    { term: 'awo yea', canonical: 'labor pains' },
+    { term: "m'anim ahonhon", canonical: 'swelling face' },
+    { term: 'me nsa ahonhon', canonical: 'swelling hands' },
+    { term: 'mogya mmoroso', canonical: 'high blood pressure' },
+    { term: 'me koko yɛ me ya', canonical: 'chest pain' },
+    { term: 'me koko ye me ya', canonical: 'chest pain' },
+  ],
+
+  symptomPatterns: [
+    { pattern: words('tipaeɛ', 'tipae', 'me ti yɛ me ya', 'me ti ye me ya'), symptom: 'headache', severity: 'moderate' },
+    { pattern: words('mogya'), symptom: 'bleeding', severity: 'moderate' },
+    { pattern: words('mefe', 'mafe', 'fe'), symptom: 'vomiting', severity: 'moderate' },
+    { pattern: words('ahonhon', 'honhon'), symptom: 'swelling', severity: 'moderate' },
+    { pattern: words('atiridii', 'me ho hyehye'), symptom: 'fever', severity: 'moderate' },
+    { pattern: words('mabrɛ', 'mabre', 'ɔbrɛ', 'obre'), symptom: 'fatigue', severity: 'mild' },
+    { pattern: words('me sisi yɛ me ya', 'me sisi ye me ya', 'sisi yea'), symptom: 'back pain', severity: 'moderate' },
+    { pattern: words('me yafunu yɛ me ya', 'me yafunu ye me ya', 'yafunu yea'), symptom: 'cramping', severity: 'moderate' },
+  ],
+
+  intentPatterns: [
+    { pattern: words('yea', 'yɛ me ya', 'ye me ya', 'mogya', 'yare', 'me ho nyɛ me dɛ', 'me ho nye me de'), intent: 'symptom_report' },
+    { pattern: words('boa me', 'mmoa', 'ntɛm', 'ntem', 'asiane'), intent: 'emergency' },
+    { pattern: words('dɔkota nkyɛn', 'dokota nkyen', 'nhyiamu', 'ayaresabea'), intent: 'appointment' },
+    { pattern: words('aduro', 'nnuro'), intent: 'medication' },
+    { pattern: words('aduane', 'nnuane', 'didi', 'vitamin'), intent: 'nutrition' },
+    { pattern: words('dadwen', 'mesuro', 'ehu', 'misu'), intent: 'emotional_support' },
+    { pattern: words('dɛn', 'adɛn', 'aden', 'bere bɛn', 'bere ben', 'sɛn'), intent: 'question' },
+    { pattern: words('sua', 'nimdeɛ', 'nimdee', 'ka kyerɛ me', 'ka kyere me'), intent: 'education' },
+  ],
+
+  emotionalPatterns: [
+    { pattern: words('ntɛm', 'ntem', 'seesei ara', 'boa me'), tone: 'urgent' },
+    { pattern: words('dadwen', 'mesuro', 'ehu'), tone: 'anxious' },
+    { pattern: words('merentumi nnyina', 'me ho abotoɔ', 'me ho abotoo'), tone: 'distressed' },
+    { pattern: words('me ho yɛ', 'me ho ye', 'ɛyɛ papa', 'eye papa'), tone: 'calm' },
+  ],
+
+  negationTriggers: ['menni', 'ɛnni', 'enni', 'mennyaa'],
+  postNegationTriggers: ['agyae'],
+  scopeTerminators: ['nanso', 'mewɔ', 'mewo'],
+  negationWindow: 0,
+  experiencerCues: [
+    'me nuabaa', 'me nua baa', 'me maame', 'me yɔnko', 'me yonko', 'me kunu', 'me babaa', 'ɔbaa bi', 'obaa bi',
+  ],
+  hypotheticalCues: [
+    'sɛ me nya', 'se me nya', 'nsɛnkyerɛnne', 'nsenkyerenne',
+  ],
+  crisisTerms: {
+    self_harm: [
+      'kum me ho', 'mɛkum me ho', 'mekum me ho', 'mepɛ sɛ mewu', 'mepe se mewu', 'pira me ho',
+      'mempɛ sɛ mete ase', 'mempe se mete ase',
+    ],
+    harm_to_baby: [
+      'kum me ba', 'mɛkum me ba', 'mekum me ba', 'pira me ba', 'mɛpira me ba', 'mepira me ba', 'wosow me ba',
+      'kum me akokoaa', 'pira me akokoaa',
+    ],
+  },
+  answers: {
+    yes: ['aane', 'yoo', 'yiw'],
+    no: ['daabi', 'dabi', 'menni'],
+    unknown: ['mennim', 'minnim', 'mennhu'],
+    time: ['simma', 'dɔnhwere', 'donhwere', 'nnɔnhwerew', 'nnonhwerew', 'nnansa', 'dapɛn', 'dapen', 'anɔpa', 'anopa', 'anwummerɛ', 'anadwo', 'ɛnnora', 'ennora', 'nnɛ', 'nne', 'efi'],
+  },
+
+  templates: {
+    emergency: (symptoms) => `🚨 Mahu nsɛnkyerɛnne a ɛbɛtumi ayɛ ntɛmpɛ asɛm: ${symptoms}.
+
+Yɛ saa nneɛma yi seesei ara:
+1. Dwodwo wo ho, tena ase anaa da baabi a ahobammɔ wɔ
+2. Sɛ wo nko ara na wowɔ hɔ a, frɛ obi ma ɔmmɛtena wo nkyɛn
+3. Frɛ wo dɔkota anaa ayaresabea ntɛm ara
+4. Sɛ ɛyɛ den a, frɛ ntɛmpɛ mmoa (emergency services)
+
+Nntwɛn nhwɛ sɛ ɛbɛyɛ yie. Wo ne wo ba no ahobammɔ na ɛho hia sen biara.
+
+Obi wɔ wo nkyɛn seesei?`,
+    emergencyRecommendations: [
+      'Kɔ ayaresabea ntɛm ara',
+      'Sɛ ɛyɛ den a, frɛ ntɛmpɛ mmoa',
+      'Nka kaa no wo ho kɔ ayaresabea',
+      'Ma obi ntena wo nkyɛn',
+    ],
+    emergencyDisclaimer: 'Yei yɛ AI mmoa nhwehwɛmu. Sɛ ntɛmpɛ asɛm ba a, frɛ ntɛmpɛ mmoa ntɛm ara.',
+    emergencyConfirm: (symptoms) => `Woaka: ${symptoms}. Ɛreba wo so seesei?\n\nSɛ ɛte saa a, frɛ ntɛmpɛ mmoa anaa kɔ ayaresabea a ɛbɛn wo no seesei ara, nntwɛn.`,
+
+    symptom: {
+      level_1: (symptoms) => `Meda wo ase sɛ woka ${symptoms} ho asɛm kyerɛɛ me. Sɛnea woakyerɛkyerɛ mu no, saa nsɛnkyerɛnne yi taa ba nyinsɛn mu. Nanso mesrɛ wo:\n\n• Kɔ so hwɛ sɛnea wo ho te\n• Nom nsuo pii na home yie\n• Hwɛ sɛ nsakraeɛ bi ba anaa ɛyɛ den a\n\nWopɛ sɛ mekyerɛ wo akwan a wobɛfa so ama ayɛ yie?`,
+      level_2: (symptoms) => `Mete aseɛ sɛ ${symptoms} haw wo. Ɛsɛ sɛ yɛhwɛ saa nsɛnkyerɛnne yi yie. Mesrɛ wo:\n\n• Hwɛ wo ho yie nnɔnhwerew 24-48 a ɛreba yi mu\n• Kyerɛw mpɛn dodoɔ a ɛba ne sɛnea ano yɛ den\n• Sɛ ɛyɛ den anaa ɛkɔ so a, frɛ wo dɔkota\n\nWopɛ sɛ wohyɛ da kɔhwɛ dɔkota?`,
+      level_3: (symptoms) => `⚠️ ${symptoms} ho asɛm haw me. Ɛsɛ sɛ dɔkota hwɛ wo ntɛm. Mesrɛ wo:\n\n• Frɛ wo dɔkota nnɔnhwerew 24 yi mu\n• Ntwɛn sɛ ɛbɛyɛ yie ankasa\n• Nyɛ adwuma den kosi sɛ dɔkota bɛhwɛ wo\n\nWopɛ sɛ meboa wo ma wofrɛ wo dɔkota seesei?`,
+      level_4: (symptoms) => `🚨 Nsɛnkyerɛnne a woaka ho asɛm no (${symptoms}) yɛ asiane, na ɛhia ayaresa ntɛm ara. Mesrɛ wo:\n\n• Kɔ ayaresabea anaa frɛ ntɛmpɛ mmoa SEESEI\n• Nka kaa no wo ho - ma obi mfa wo nkɔ anaa frɛ ambulance\n• Sɛ ɛbɛyɛ yie a, fa obi ka wo ho\n\nWo ne wo ba no apɔmuden na ɛho hia sen biara.`,
+    },
+    symptomRecommendations: {
+      level_1: ['Hwɛ nsɛnkyerɛnne no', 'Nom nsuo pii', 'Home yie', 'Kɔ so yɛ wo nnwuma a wotaa yɛ'],
+      level_2: ['Hwɛ nsɛnkyerɛnne no yie', 'Hyɛ da kɔhwɛ dɔkota', 'Nyɛ adwuma den', 'Sɛ ɛyɛ den a, frɛ dɔkota'],
+      level_3: ['Frɛ dɔkota nnɔnhwerew 24 mu', 'Nyɛ adwuma den', 'Ma obi nka wo ho', 'Siesie wo ho sɛ wobɛkɔ ayaresabea'],
+      level_4: ['Kɔ ayaresabea ntɛm ara', 'Frɛ ntɛmpɛ mmoa', 'Nka kaa no wo ho', 'Ma obi ntena wo nkyɛn'],
+    },
+    yourSymptoms: 'wo nsɛnkyerɛnne',
+
+    emotional: {
+      anxious: 'Mete aseɛ sɛ wowɔ dadwen, na ɛnyɛ nwonwa. Nyinsɛn tumi de nneɛma pii a ɛhaw adwene ba. Kae sɛ:\n\n• Wo nkate ho hia\n• Ɛnanom pii a wɔanyinsɛn nso wɔ saa dadwen yi bi\n• Ɛyɛ papa sɛ wobisa mmoa\n\nWopɛ sɛ yɛka deɛ ɛhaw wo no ho asɛm? Anaa wopɛ akwan a ɛbɛma wo adwene atɔ wo yam?',
+      distressed: 'Mehu sɛ worefa ɔhaw mu, na mepɛ sɛ wohunu sɛ ɛnyɛ wo nko ara. Ɛho hia sɛ:\n\n• Wokasa kyerɛ obi a wogye no di\n• Wokɔhwɛ ɔfotufoɔ\n• Wofrɛ wo dɔkota a wonnyina\n\nWo adwene apɔmuden ho hia te sɛ wo nipadua apɔmuden. Wopɛ mmoa wɔ wo nkate ho?',
+      urgent: 'Mete aseɛ sɛ ɛyɛ ntɛmpɛ asɛm. Ma me mmoa wo:\n\n• Sɛ ɛyɛ ayaresa ntɛmpɛ asɛm a, frɛ ntɛmpɛ mmoa\n• Sɛ wopɛ sɛ wokasa kyerɛ wo dɔkota a, metumi aboa wo\n• Sɛ nneɛma ayɛ wo pii a, ɛyɛ - yɛbɛyɛ no nkakrankakra\n\nDɛn na ɛsɛ sɛ meboa wo wɔ ho seesei?',
+      default: 'Meda wo ase sɛ woaka sɛnea wo ho te kyerɛ me. Ɛho hia sɛ wohwɛ wo nkate yie wɔ nyinsɛn mu. Mewɔ ha sɛ metie wo na maboa wo. Dɛn na ɛwɔ w\'adwene mu?',
+    },
+    emotionalRecommendations: [
+      'Home den brɛoo',
+      'Kasa kyerɛ adamfo anaa abusuani a wogye no di',
+      'Kɔhwɛ ɔfotufoɔ',
+      'Da wɔ ɛberɛ koro biara mu',
+    ],
+
+    intents: {
+      medication: {
+        message: () => 'Mete aseɛ sɛ wowɔ nsɛmmisa fa aduro ho. Ɛho hia sɛ wobisa wo dɔkota ansa na wonom aduro biara wɔ nyinsɛn mu. Nnuro bi a ɛnni asiane daa no betumi ayɛ asiane wɔ nyinsɛn mu. Wopɛ sɛ meboa wo siesie nsɛmmisa ma wo dɔkota?',
+        recommendations: [
+          'Bisa wo dɔkota ansa na wonom aduro biara',
+          'Ka kyerɛ wɔn sɛ woanyinsɛn bere biara a wɔde aduro ma wo',
+          'Kyerɛw nnuro a wonom nyinaa din',
+        ],
+      },
+      nutrition: {
+        message: () => 'Aduane pa ho hia paa wɔ nyinsɛn mu! Nsɛm titire:\n\n• Di nnuaba ne atosodeɛ pii\n• Di nam, nkwan a aduane pa wom, anaa adua\n• Nom nyinsɛn vitamin sɛnea dɔkota aka\n• Nom nsuo pii\n• Nni nam anaa apataa a wɔnnoa no yie\n\nWopɛ afotuo a ɛfa wo nyinsɛn bere ho pɔtee?',
+        recommendations: [
+          'Nom nyinsɛn vitamin da biara',
+          'Di aduane kakra mpɛn pii',
+          'Nom nsuo pii',
+          'Nnom nsã na te kɔfe so',
+        ],
+      },
+      appointment: {
+        message: () => 'Metumi aboa wo wɔ dɔkota nhyiamu ho! Wopɛ sɛ:\n\n1. Wohyɛ da foforo\n2. Wohwɛ nhyiamu a ɛreba\n3. Wosesa nhyiamu a woahyɛ dada\n\nKa deɛ wopɛ sɛ woyɛ kyerɛ me.',
+        recommendations: [
+          'Siesie wo nsɛmmisa ansa na woakɔ',
+          'Kyerɛw wo nsɛnkyerɛnne fa kɔ',
+          'Kyerɛw nsakraeɛ a aba fi bere a wokɔɔ no',
+        ],
+      },
+      education: {
+        message: (pregnancyWeek) => `Mepɛ sɛ meboa wo ma wosua pii! ${pregnancyWeek ? `Wo nyinsɛn dapɛn ${pregnancyWeek} mu no` : 'Wo nyinsɛn mu no'}, nsɛm a ɛbɛboa wo ni:\n\n• Deɛ ɛbɛba saa bere yi mu\n• Sɛnea abofra no renyini\n• Sɛnea wobɛsiesie wo ho ama awoɔ\n• Awoɔ akyi hwɛ\n\nAsɛm bɛn na ɛyɛ wo dɛ paa?`,
+        recommendations: [
+          'Kɔ nyinsɛn ho adesua',
+          'Kenkan nyinsɛn ho nsɛm a wotumi gye di',
+          'Bɛka ɛnanom a wɔanyinsɛn kuo ho',
+        ],
+      },
+      question: {
+        message: () => 'Mewɔ ha sɛ mɛyi wo nsɛmmisa ano! Hunu sɛ mede nsɛm a ɛkɔ baabiara na ɛma, na merentumi nnsi wo dɔkota anan. Dɛn na wopɛ sɛ wohunu?',
+        recommendations: [
+          'Kyerɛw nsɛmmisa ma wo dɔkota',
+          'Nsuro sɛ wobɛbisa biribiara a ɛhaw wo',
+        ],
+      },
+      general: {
+        message: () => 'Akwaaba! Meyɛ wo ɛnanom apɔmuden boafoɔ. Mewɔ ha sɛ meboa wo wɔ wo nyinsɛn akwantuo no mu. Metumi:\n\n• Aboa wo ma woahwɛ na woaka wo nsɛnkyerɛnne\n• Ayi nyinsɛn ho nsɛmmisa ano\n• Ama aduane ne apɔmuden ho afotuo\n• Aboa wo ma woahyɛ dɔkota nhyiamu\n• Aboa wo wɔ wo nkate mu\n\nƐdeɛn na metumi ayɛ ama wo ɛnnɛ?',
+        recommendations: [],
+      },
+    },
+
+    slotQuestions: {
+      onset: () => 'Ɛberɛ bɛn na ɛhyɛɛ aseɛ?',
+      duration: () => 'Ɛkyɛ berɛ bɛn, anaa ɛda so fi berɛ a ɛhyɛɛ aseɛ?',
+      severity: () => 'Sɛ yɛde 1 kosi 10 susu a, ɛyɛ den sɛn seesei?',
+      visualSymptoms: () => "W'ani so ayɛ kusuu, anaa wohu nsɛnkyerɛnne foforo bi wɔ w'ani mu?",
+      bloodPressure: () => 'Wo mogya susuo a etwa to no yɛ dɛn (sɛ nhwɛsoɔ 120/80)? Sɛ wonnim a, ka kyerɛ me.',
+    },
+    slotRetry: 'Kafra, mante aseɛ yie.',
+
+    disclaimer: 'AI boafoɔ yi de nsɛm a ɛkɔ baabiara na ɛma, na ɛnsi dɔkota afotuo anan. Bisa wo dɔkota bere biara ansa na woasi ayaresa ho gyinaeɛ.',
+  },
+};
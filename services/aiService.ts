@@ -1,10 +1,15 @@
 import { supabase } from '@/lib/supabase';
 import { RiskLevel } from '@/types/database.types';
 import { aiConversationalEngine, AIResponse } from './ai/AIConversationalEngine';
-import { diagnosticEngine, DiagnosticInput, DiagnosticResult } from './ai/DiagnosticReasoningEngine';
+import { diagnosticEngine, DiagnosticInput, DiagnosticResult, VitalHistory } from './ai/DiagnosticReasoningEngine';
+import { loadVitalHistory, latestReading } from './ai/TrendAnalysis';
 import { agentOrchestrator, OrchestratorResult } from './ai/MultiAgentSystem';
-import { learningSystem } from './ai/LearningSystem';
+import { learningSystem, AIFeedback } from './ai/LearningSystem';
+import { conversationSessionStore, SessionSummary, StoredMessage } from './ai/ConversationSessionStore';
 import { explainabilityEngine, Explanation } from './ai/ExplainabilityEngine';
+import type { ExplainableAIOutput } from './ai/ExplanationAdapters';
+import type { MentalHealthCrisis } from './ai/MentalHealthScreening';
+import { mentalHealthService } from './mentalHealthService';
 
 export interface SymptomInput {
   symptoms: string[];
@@ -23,6 +28,8 @@ export interface AITriageResult {
 }
 
 export interface ChatResponse {
+  /** Pass back on the next message to continue the conversation */
+  sessionId: string;
   message: string;
   riskLevel: RiskLevel;
   intent: string;
@@ -31,6 +38,11 @@ export interface ChatResponse {
   requiresEscalation: boolean;
   explanation: Explanation;
   confidence: number;
+  /** Learning record the exchange was stored in, for feedback; unset when not stored */
+  learningRecordId?: string;
+  modelVersion?: string;
+  /** Set when the message described a mental health crisis; the care team has been alerted */
+  mentalHealthCrisis?: MentalHealthCrisis;
 }
 
 export const aiService = {
@@ -57,6 +69,14 @@ export const aiService = {
 
       if (symptomError) throw symptomError;
 
+      // Recent vital sign history lets trend rules look beyond a single reading
+      let history: VitalHistory | undefined;
+      try {
+        history = await loadVitalHistory(motherId);
+      } catch (error) {
+        console.log('Vital history not available:', error);
+      }
+
       // Use diagnostic reasoning engine for analysis
       const diagnosticInput: DiagnosticInput = {
         symptoms: symptomInput.symptoms.map(s => ({
@@ -73,6 +93,8 @@ export const aiService = {
           allergies: [],
         },
         riskFactors: [],
+        vitalSigns: latestReading(history),
+        history,
       };
 
       const diagnosticResult = await diagnosticEngine.analyze(diagnosticInput);
@@ -87,9 +109,13 @@ export const aiService = {
           confidence_score: diagnosticResult.confidence,
           recommendations: diagnosticResult.recommendations.map(r => r.description),
           decision_explanation: diagnosticResult.justification,
-          ai_model_version: 'maternal-ai-v1.0',
+          ai_model_version: diagnosticResult.modelVersion,
+          knowledge_base_version: diagnosticResult.knowledgeBaseVersion,
           processing_time_ms: 250,
           requires_doctor_review: diagnosticResult.overallRiskLevel === 'level_3' || diagnosticResult.overallRiskLevel === 'level_4',
+          // Kept for clinical reports; the vital history is already in vital_signs
+          diagnostic_input: { ...diagnosticInput, history: undefined },
+          diagnostic_result: diagnosticResult,
         });
 
       if (assessmentError) throw assessmentError;
@@ -119,8 +145,8 @@ export const aiService = {
     sessionId?: string,
     pregnancyWeek?: number
   ): Promise<ChatResponse> {
-    const session = sessionId || `session_${Date.now()}`;
-    
+    const session = await aiConversationalEngine.resolveSessionId(userId, sessionId);
+
     // Process through conversational engine
     const response = await aiConversationalEngine.processMessage(
       session,
@@ -130,17 +156,28 @@ export const aiService = {
       pregnancyWeek
     );
 
-    // Generate explanation
-    const explanation = explainabilityEngine.generateExplanation({
+    // Mental health crises alert the care team and flag the session,
+    // separately from obstetric emergencies
+    if (response.mentalHealthCrisis) {
+      await mentalHealthService.escalateCrisis(userId, response.mentalHealthCrisis, response.sessionId);
+    }
+
+    // Generate explanation; counterfactuals only describe the reported risk
+    // when it was not raised above the diagnostic result during follow-up
+    const explanationRequest = {
       aiOutput: response,
       userRole,
       detailLevel: userRole === 'doctor' ? 'full' : 'summary',
       context: { pregnancyWeek, riskLevel: response.riskLevel },
-    });
+    } as const;
+    const explanation = response.diagnosticResult && response.diagnosticInput
+      && response.diagnosticResult.overallRiskLevel === response.riskLevel
+      ? await explainabilityEngine.explainDiagnosis(explanationRequest, response.diagnosticInput, response.diagnosticResult)
+      : explainabilityEngine.generateExplanation(explanationRequest);
 
     // Store for learning
-    await learningSystem.storeConversation(
-      session,
+    const learningRecordId = await learningSystem.storeConversation(
+      response.sessionId,
       userId,
       [
         { role: 'user', content: message, timestamp: new Date() },
@@ -158,11 +195,15 @@ export const aiService = {
         responseType: response.intent,
         confidence: response.confidence,
         agentsUsed: ['conversational_engine'],
-        safetyFlags: response.requiresEscalation ? ['escalation_triggered'] : [],
+        safetyFlags: [
+          ...(response.requiresEscalation ? ['escalation_triggered'] : []),
+          ...(response.mentalHealthCrisis ? ['mental_health_crisis'] : []),
+        ],
       }]
     );
 
     return {
+      sessionId: response.sessionId,
       message: response.message,
       riskLevel: response.riskLevel,
       intent: response.intent,
@@ -171,9 +212,33 @@ export const aiService = {
       requiresEscalation: response.requiresEscalation,
       explanation,
       confidence: response.confidence,
+      learningRecordId: learningRecordId || undefined,
+      modelVersion: response.modelVersion,
+      mentalHealthCrisis: response.mentalHealthCrisis,
     };
   },
 
+  /**
+   * List a user's chat sessions for resuming, most recent first
+   */
+  async listChatSessions(userId: string, limit?: number): Promise<SessionSummary[]> {
+    return conversationSessionStore.listSessions(userId, limit);
+  },
+
+  /**
+   * Get the transcript of a chat session
+   */
+  async getChatMessages(sessionId: string): Promise<StoredMessage[]> {
+    return conversationSessionStore.getMessages(sessionId);
+  },
+
+  /**
+   * End a chat session so it is no longer resumed
+   */
+  async endChatSession(sessionId: string): Promise<void> {
+    await aiConversationalEngine.endSession(sessionId);
+  },
+
   /**
    * Get multi-agent response for complex queries
    */
@@ -185,6 +250,7 @@ export const aiService = {
       pregnancyWeek?: number;
       riskLevel?: RiskLevel;
       symptoms?: string[];
+      region?: string;
     } = {}
   ): Promise<OrchestratorResult> {
     const agentResult = await agentOrchestrator.process({
@@ -196,9 +262,14 @@ export const aiService = {
         riskLevel: context.riskLevel,
         previousMessages: [],
         symptoms: context.symptoms,
+        region: context.region,
       },
     });
 
+    if (agentResult.mentalHealthCrisis) {
+      await mentalHealthService.escalateCrisis(userId, agentResult.mentalHealthCrisis);
+    }
+
     return agentResult;
   },
 
@@ -209,11 +280,31 @@ export const aiService = {
     return diagnosticEngine.analyze(input);
   },
 
+  /**
+   * Explain a diagnostic result, including what would change its risk level
+   */
+  async explainDiagnosis(
+    input: DiagnosticInput,
+    result: DiagnosticResult,
+    userRole: 'mother' | 'doctor' | 'admin'
+  ): Promise<Explanation> {
+    return explainabilityEngine.explainDiagnosis({
+      aiOutput: result,
+      userRole,
+      detailLevel: userRole === 'doctor' ? 'full' : 'summary',
+      context: {
+        pregnancyWeek: input.pregnancyStage.weeksGestation,
+        symptoms: input.symptoms.map(s => s.name),
+        riskLevel: result.overallRiskLevel,
+      },
+    }, input, result);
+  },
+
   /**
    * Get explanation for any AI output
    */
   getExplanation(
-    aiOutput: any,
+    aiOutput: ExplainableAIOutput,
     userRole: 'mother' | 'doctor' | 'admin',
     context?: { pregnancyWeek?: number; symptoms?: string[]; riskLevel?: RiskLevel }
   ): Explanation {
@@ -226,18 +317,17 @@ export const aiService = {
   },
 
   /**
-   * Record user feedback for learning
+   * Record feedback on an AI message; returns false when it could not be saved
    */
-  async recordFeedback(
-    conversationId: string,
-    feedback: {
-      rating: number;
-      helpful: boolean;
-      accurate: boolean;
-      comments?: string;
-    }
-  ): Promise<void> {
-    await learningSystem.recordFeedback(conversationId, feedback);
+  async recordFeedback(feedback: AIFeedback): Promise<boolean> {
+    return learningSystem.recordFeedback(feedback);
+  },
+
+  /**
+   * Get feedback aggregated by intent and model version (admin only)
+   */
+  async getFeedbackSummary(since?: Date) {
+    return learningSystem.getFeedbackSummary(since);
   },
 
   /**
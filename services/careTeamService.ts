@@ -0,0 +1,74 @@
+/**
+ * Care Team Service
+ *
+ * Features:
+ * - Find the doctors responsible for a mother, for alerts about her
+ * - The doctor of her latest appointment, plus that doctor's backup while
+ *   they are unavailable
+ * - Notify the doctors of alerts she raised, and escalate a crisis or red
+ *   MEOWS trigger with no care team to the admins; both run in the database,
+ *   since mothers cannot write other users' notifications
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export const careTeamService = {
+  /**
+   * Doctor user ids to alert about a mother. Empty when she has no
+   * appointment yet, so callers decide where an unassigned alert goes.
+   */
+  async getCareTeam(motherProfileId: string): Promise<string[]> {
+    const { data: appointment, error } = await (supabase as any)
+      .from('appointments')
+      .select('doctor:doctor_profiles(user_id, is_available, backup:backup_doctor_id(user_id))')
+      .eq('mother_id', motherProfileId)
+      .order('appointment_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const doctor = appointment?.doctor;
+    if (!doctor?.user_id) return [];
+    if (!doctor.is_available && doctor.backup?.user_id) {
+      return [doctor.user_id, doctor.backup.user_id];
+    }
+    return [doctor.user_id];
+  },
+
+  /**
+   * Notify the doctors of alerts just raised. The database only notifies
+   * about the caller's own pending alerts to her care team, with the alert's
+   * message.
+   */
+  async notifyAlertDoctors(alertIds: string[], data: Record<string, unknown> = {}): Promise<void> {
+    const { error } = await (supabase as any).rpc('notify_alert_doctors', {
+      p_alert_ids: alertIds,
+      p_data: data,
+    });
+    if (error) throw error;
+  },
+
+  /**
+   * Alert and notify every admin about a crisis or red MEOWS trigger of the
+   * calling mother, who has no care team. Returns how many admins were
+   * notified.
+   */
+  async escalateToAdmins(
+    alertType: 'mental_health_crisis' | 'meows_red_trigger',
+    severity: 'critical' | 'high',
+    message: string,
+    data: Record<string, unknown> = {}
+  ): Promise<number> {
+    const { data: escalated, error } = await (supabase as any).rpc('escalate_alert_to_admins', {
+      p_alert_type: alertType,
+      p_severity: severity,
+      p_message: message,
+      p_data: data,
+    });
+    if (error) throw error;
+    return escalated || 0;
+  },
+};
+
+export default careTeamService;
@@ -6,9 +6,12 @@
  * - Track medication adherence
  * - Send notifications for medication times
  * - Generate adherence reports
+ * - Check new medications against the pregnancy drug-safety database
  */
 
 import { supabase } from '@/lib/supabase';
+import { careTeamService } from '@/services/careTeamService';
+import { drugSafetyDatabase, DrugSafetyAssessment, DRUG_RISK_LABELS } from '@/services/ai/DrugSafetyDatabase';
 
 export interface MedicationReminder {
   id?: string;
@@ -115,7 +118,9 @@ export const COMMON_PREGNANCY_MEDICATIONS: Array<{
 
 export const medicationReminderService = {
   /**
-   * Create a new medication reminder
+   * Create a new medication reminder. The medication is checked for
+   * pregnancy safety; the result is returned as `safety` when the
+   * medication is known.
    */
   async createReminder(reminder: MedicationReminder): Promise<any> {
     const { data, error } = await (supabase as any)
@@ -139,7 +144,116 @@ export const medicationReminderService = {
       .single();
 
     if (error) throw error;
-    return data;
+
+    const safety = await this.checkReminderSafety(reminder.motherId, data.id, reminder.medicationName);
+    return { ...data, safety };
+  },
+
+  /**
+   * Check a medication against the mother's gestational age and other
+   * active medications. The result is stored on the reminder, and her care
+   * team is alerted when the medication should be avoided.
+   */
+  async checkReminderSafety(
+    motherId: string,
+    reminderId: string,
+    medicationName: string
+  ): Promise<DrugSafetyAssessment | undefined> {
+    try {
+      const [{ data: profile, error: profileError }, others] = await Promise.all([
+        (supabase as any)
+          .from('mother_profiles')
+          .select('id, gestational_age_weeks')
+          .eq('user_id', motherId)
+          .maybeSingle(),
+        this.getReminders(motherId),
+      ]);
+      if (profileError) throw profileError;
+
+      const assessment = drugSafetyDatabase.check(medicationName, {
+        pregnancyWeek: profile?.gestational_age_weeks ?? undefined,
+        otherMedications: others
+          .filter((r: any) => r.id !== reminderId)
+          .map((r: any) => r.medication_name),
+      });
+      if (!assessment) return undefined;
+
+      const { error: updateError } = await (supabase as any)
+        .from('medication_reminders')
+        .update({
+          safety_check: {
+            drugId: assessment.drug.id,
+            risk: assessment.risk,
+            overallRisk: assessment.overallRisk,
+            pregnancyWeek: assessment.pregnancyWeek,
+            guidance: assessment.guidance,
+            contraindications: assessment.contraindications,
+            interactions: assessment.interactions,
+            datasetVersion: drugSafetyDatabase.getVersion(),
+            checkedAt: new Date().toISOString(),
+          },
+        })
+        .eq('id', reminderId);
+      if (updateError) throw updateError;
+
+      if (profile && drugSafetyDatabase.needsReview(assessment.overallRisk)) {
+        try {
+          await this.raiseMedicationSafetyAlert(profile.id, reminderId, medicationName, assessment);
+        } catch (error) {
+          // The mother still sees the assessment
+          console.error('Medication safety alert error:', error);
+        }
+      }
+
+      return assessment;
+    } catch (error) {
+      // The reminder is already saved; a failed check must not lose it
+      console.error('Medication safety check error:', error);
+      return undefined;
+    }
+  },
+
+  /**
+   * Alert the mother's care team about a medication that should be avoided
+   */
+  async raiseMedicationSafetyAlert(
+    motherProfileId: string,
+    reminderId: string,
+    medicationName: string,
+    assessment: DrugSafetyAssessment
+  ): Promise<void> {
+    const doctorIds = await careTeamService.getCareTeam(motherProfileId);
+    if (doctorIds.length === 0) {
+      console.log('No care team to alert about medication safety for mother:', motherProfileId);
+      return;
+    }
+
+    const stage = assessment.pregnancyWeek !== undefined ? ` at ${assessment.pregnancyWeek} weeks` : '';
+    const reasons = [
+      assessment.guidance,
+      ...assessment.contraindications.map(c => `${c.condition}: ${c.note}`),
+    ];
+    const message = `${medicationName} added${stage} - ${DRUG_RISK_LABELS[assessment.overallRisk]}. ${reasons.join(' ')}`;
+
+    const { data: alerts, error: alertError } = await (supabase as any)
+      .from('alerts')
+      .insert(
+        doctorIds.map(doctorId => ({
+          doctor_id: doctorId,
+          mother_id: motherProfileId,
+          alert_type: 'medication_safety',
+          severity: assessment.overallRisk === 'contraindicated' ? 'high' : 'medium',
+          message,
+          status: 'pending',
+        }))
+      )
+      .select('id');
+    if (alertError) throw alertError;
+
+    await careTeamService.notifyAlertDoctors(
+      alerts.map((alert: { id: string }) => alert.id),
+      { reminder_id: reminderId }
+    );
   },
 
   /**
@@ -0,0 +1,80 @@
+import { supabase } from '@/lib/supabase';
+import { mentalHealthScreening, MentalHealthCrisis } from '@/services/ai/MentalHealthScreening';
+import { careTeamService } from '@/services/careTeamService';
+
+export const mentalHealthService = {
+  /**
+   * Escalate a mental health crisis described to the assistant: alert the
+   * mother's care team, or the admins when she has none, and flag the
+   * conversation for clinical follow-up.
+   * Obstetric emergencies go through emergencyService instead.
+   */
+  async escalateCrisis(motherId: string, crisis: MentalHealthCrisis, sessionId?: string): Promise<boolean> {
+    try {
+      if (sessionId) {
+        await this.flagForFollowUp(sessionId, crisis.reason);
+      }
+
+      const { data: profile, error: profileError } = await (supabase as any)
+        .from('mother_profiles')
+        .select('id, full_name')
+        .eq('user_id', motherId)
+        .maybeSingle();
+      if (profileError) throw profileError;
+      if (!profile) return false;
+
+      const message = `${profile.full_name || 'A patient'} described ${mentalHealthScreening.getConcernLabel(crisis.type)} ` +
+        `to the AI assistant ("${crisis.matchedTerms.join('", "')}"). Crisis lines were shown; please contact them today.`;
+      const data = { session_id: sessionId, crisis_type: crisis.type };
+
+      const doctorIds = await careTeamService.getCareTeam(profile.id);
+      if (doctorIds.length === 0) {
+        // No doctor to go to: the admins find her one
+        const escalated = await careTeamService.escalateToAdmins('mental_health_crisis', 'critical', message, data);
+        return escalated > 0;
+      }
+
+      const { data: alerts, error } = await (supabase as any)
+        .from('alerts')
+        .insert(
+          doctorIds.map(doctorId => ({
+            doctor_id: doctorId,
+            mother_id: profile.id,
+            alert_type: 'mental_health_crisis',
+            severity: 'critical',
+            message,
+            status: 'pending',
+          }))
+        )
+        .select('id');
+      if (error) throw error;
+
+      await careTeamService.notifyAlertDoctors(alerts.map((alert: { id: string }) => alert.id), data);
+
+      return true;
+    } catch (error) {
+      console.error('Error escalating mental health crisis:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Flag an assistant conversation for clinical follow-up
+   */
+  async flagForFollowUp(sessionId: string, reason: string): Promise<void> {
+    const { error } = await (supabase as any)
+      .from('ai_chat_sessions')
+      .update({
+        needs_follow_up: true,
+        follow_up_reason: reason,
+        flagged_at: new Date().toISOString(),
+      })
+      .eq('id', sessionId);
+
+    if (error) {
+      console.error('Error flagging session for follow-up:', error);
+    }
+  },
+};
+
+export default mentalHealthService;
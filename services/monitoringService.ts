@@ -1,33 +1,105 @@
 import { supabase } from '@/lib/supabase';
 import { VitalSign } from '@/types/database.types';
+import { meowsCalculator, ConsciousnessLevel, MEOWSResult } from '@/services/ai/MEOWSCalculator';
+import { careTeamService } from '@/services/careTeamService';
 
 export interface VitalInput {
   systolic_bp?: number;
   diastolic_bp?: number;
   heart_rate?: number;
+  respiratory_rate?: number;
   temperature?: number;
   weight?: number;
   blood_sugar?: number;
   oxygen_saturation?: number;
+  consciousness_level?: ConsciousnessLevel;
   notes?: string;
 }
 
+function meowsColumns(result: MEOWSResult) {
+  return {
+    meows_score: result.score,
+    meows_level: result.escalationLevel,
+    meows_red_triggers: result.redTriggers,
+    meows_yellow_triggers: result.yellowTriggers,
+    meows_triggers: result.triggers,
+  };
+}
+
 export const monitoringService = {
   async recordVitals(motherId: string, vitals: VitalInput): Promise<VitalSign> {
-    const { data, error } = await supabase
+    const meows = meowsCalculator.calculate(vitals);
+
+    const { data, error } = await (supabase as any)
       .from('vital_signs')
       .insert({
         mother_id: motherId,
         ...vitals,
+        ...meowsColumns(meows),
         source: 'manual',
       })
       .select()
       .single();
 
     if (error) throw error;
+
+    if (meows.redTriggers > 0) {
+      await this.raiseMEOWSAlert(motherId, data.id, vitals, meows);
+    }
+
     return data;
   },
 
+  /**
+   * Alert the mother's care team when a reading has any red MEOWS trigger,
+   * or the admins when she has no care team
+   */
+  async raiseMEOWSAlert(
+    motherId: string,
+    vitalSignId: string,
+    vitals: VitalInput,
+    meows: MEOWSResult
+  ): Promise<void> {
+    try {
+      const message = `MEOWS ${meowsCalculator.getEscalationLabel(meows.escalationLevel)}: ${meowsCalculator.summarize(meows)}`;
+      const severity = meows.escalationLevel === 'emergency' ? 'critical' : 'high';
+
+      const doctorIds = await careTeamService.getCareTeam(motherId);
+      if (doctorIds.length === 0) {
+        // No doctor to go to: the admins find her one
+        await careTeamService.escalateToAdmins('meows_red_trigger', severity, message, {
+          vital_sign_id: vitalSignId,
+          vitals: { ...vitals, vital_sign_id: vitalSignId, meows },
+        });
+        return;
+      }
+
+      const { data: alerts, error: alertError } = await (supabase as any)
+        .from('alerts')
+        .insert(
+          doctorIds.map(doctorId => ({
+            doctor_id: doctorId,
+            mother_id: motherId,
+            alert_type: 'meows_red_trigger',
+            severity,
+            message,
+            status: 'pending',
+            vitals: { ...vitals, vital_sign_id: vitalSignId, meows },
+          }))
+        )
+        .select('id');
+      if (alertError) throw alertError;
+
+      await careTeamService.notifyAlertDoctors(
+        alerts.map((alert: { id: string }) => alert.id),
+        { vital_sign_id: vitalSignId }
+      );
+    } catch (error) {
+      // The reading is already saved; alerting failures must not lose it
+      console.error('MEOWS alert error:', error);
+    }
+  },
+
   async getVitalHistory(
     motherId: string,
     limit: number = 30
@@ -61,17 +133,33 @@ export const monitoringService = {
     deviceId: string,
     vitals: VitalInput[]
   ): Promise<void> {
-    const records = vitals.map((vital) => ({
+    const scored = vitals.map((vital) => ({
+      vital,
+      meows: meowsCalculator.calculate(vital),
+    }));
+    const records = scored.map(({ vital, meows }) => ({
       mother_id: motherId,
       ...vital,
+      ...meowsColumns(meows),
       source: 'device',
       device_id: deviceId,
     }));
 
-    const { error } = await supabase.from('vital_signs').insert(records);
+    const { data: inserted, error } = await (supabase as any)
+      .from('vital_signs')
+      .insert(records)
+      .select('id');
 
     if (error) throw error;
 
+    // Alert once per sync, on the most recent reading with a red trigger
+    for (let i = scored.length - 1; i >= 0; i--) {
+      if (scored[i].meows.redTriggers > 0) {
+        await this.raiseMEOWSAlert(motherId, inserted?.[i]?.id, scored[i].vital, scored[i].meows);
+        break;
+      }
+    }
+
     await supabase
       .from('monitoring_devices')
       .update({ last_sync_at: new Date().toISOString() })
@@ -105,6 +193,14 @@ export const monitoringService = {
         date: v.recorded_at,
         value: v.weight,
       })),
+      temperature: data.map((v) => ({
+        date: v.recorded_at,
+        value: v.temperature,
+      })),
+      oxygenSaturation: data.map((v) => ({
+        date: v.recorded_at,
+        value: v.oxygen_saturation,
+      })),
     };
   },
 };
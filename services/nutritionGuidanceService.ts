@@ -7,6 +7,7 @@
  * - Nutrient intake analysis
  * - Safe/unsafe food guidance
  * - Trimester-specific advice
+ * - Food and nutrient lookup in questions, for the Nutrition Agent
  */
 
 import { supabase } from '@/lib/supabase';
@@ -29,6 +30,18 @@ export interface NutrientRecommendation {
   importance: string;
   sources: string[];
   trimesterVariation?: { [key: number]: string };
+  /** Other names for the nutrient in questions ("folate") */
+  aliases?: string[];
+  /** Words that mark a logged food as a source */
+  foodKeywords?: string[];
+}
+
+export interface NutrientIntake {
+  nutrient: NutrientRecommendation;
+  daysLogged: number;
+  /** Days with at least one logged source of the nutrient */
+  daysWithSource: number;
+  matchedFoods: string[];
 }
 
 export interface FoodSafety {
@@ -36,6 +49,8 @@ export interface FoodSafety {
   status: 'safe' | 'caution' | 'avoid';
   reason: string;
   alternatives?: string[];
+  /** Words that identify the food in a question ("sushi", "brie") */
+  keywords?: string[];
 }
 
 // Essential nutrients during pregnancy
@@ -46,6 +61,8 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'mcg',
     importance: 'Prevents neural tube defects, essential for baby\'s brain and spine development',
     sources: ['Leafy greens', 'Fortified cereals', 'Beans', 'Citrus fruits', 'Asparagus'],
+    aliases: ['folic acid', 'folate'],
+    foodKeywords: ['spinach', 'kale', 'lettuce', 'greens', 'cereal', 'bean', 'lentil', 'chickpea', 'orange', 'citrus', 'asparagus', 'broccoli', 'avocado'],
     trimesterVariation: {
       1: '600-800 mcg (critical first 12 weeks)',
       2: '600 mcg',
@@ -58,6 +75,8 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'mg',
     importance: 'Supports increased blood volume and prevents anemia',
     sources: ['Red meat', 'Spinach', 'Beans', 'Fortified cereals', 'Dried fruits'],
+    aliases: ['anemia', 'anaemia'],
+    foodKeywords: ['beef', 'steak', 'lamb', 'red meat', 'liver', 'spinach', 'kale', 'bean', 'lentil', 'chickpea', 'cereal', 'raisin', 'apricot', 'dried fruit', 'tofu'],
     trimesterVariation: {
       1: '27 mg',
       2: '27 mg',
@@ -70,6 +89,7 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'mg',
     importance: 'Builds baby\'s bones and teeth, maintains mother\'s bone health',
     sources: ['Dairy products', 'Fortified plant milks', 'Tofu', 'Sardines', 'Almonds'],
+    foodKeywords: ['milk', 'cheese', 'yogurt', 'yoghurt', 'tofu', 'sardine', 'almond', 'kale'],
   },
   {
     nutrient: 'Vitamin D',
@@ -77,6 +97,7 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'IU',
     importance: 'Helps absorb calcium, supports immune system',
     sources: ['Sunlight exposure', 'Fortified milk', 'Fatty fish', 'Egg yolks'],
+    foodKeywords: ['milk', 'salmon', 'sardine', 'mackerel', 'egg'],
   },
   {
     nutrient: 'Protein',
@@ -84,6 +105,7 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'g',
     importance: 'Essential for baby\'s growth, especially brain development',
     sources: ['Lean meats', 'Fish', 'Eggs', 'Dairy', 'Legumes', 'Nuts'],
+    foodKeywords: ['chicken', 'turkey', 'beef', 'fish', 'salmon', 'tuna', 'egg', 'milk', 'yogurt', 'cheese', 'bean', 'lentil', 'chickpea', 'tofu', 'nut', 'peanut butter'],
     trimesterVariation: {
       1: '46 g (same as non-pregnant)',
       2: '71 g (extra 25g needed)',
@@ -96,6 +118,8 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'mg',
     importance: 'Critical for baby\'s brain and eye development',
     sources: ['Salmon', 'Sardines', 'DHA-fortified eggs', 'Walnuts', 'Flaxseed'],
+    aliases: ['dha', 'omega-3', 'omega 3', 'fish oil'],
+    foodKeywords: ['salmon', 'sardine', 'mackerel', 'walnut', 'flaxseed', 'chia'],
   },
   {
     nutrient: 'Iodine',
@@ -103,6 +127,7 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'mcg',
     importance: 'Essential for baby\'s brain development and thyroid function',
     sources: ['Iodized salt', 'Seafood', 'Dairy', 'Eggs'],
+    foodKeywords: ['iodized salt', 'fish', 'seafood', 'shrimp', 'milk', 'yogurt', 'cheese', 'egg'],
   },
   {
     nutrient: 'Choline',
@@ -110,6 +135,7 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'mg',
     importance: 'Supports brain development and prevents neural tube defects',
     sources: ['Eggs', 'Beef liver', 'Chicken', 'Fish', 'Soybeans'],
+    foodKeywords: ['egg', 'liver', 'chicken', 'fish', 'salmon', 'soy', 'soybean', 'tofu'],
   },
   {
     nutrient: 'Fiber',
@@ -117,6 +143,8 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'g',
     importance: 'Prevents constipation, common during pregnancy',
     sources: ['Whole grains', 'Fruits', 'Vegetables', 'Beans', 'Nuts'],
+    aliases: ['fibre'],
+    foodKeywords: ['oats', 'oatmeal', 'whole grain', 'brown rice', 'quinoa', 'fruit', 'apple', 'banana', 'berries', 'vegetable', 'salad', 'bean', 'lentil', 'nut'],
   },
   {
     nutrient: 'Water',
@@ -124,38 +152,41 @@ export const PREGNANCY_NUTRIENTS: NutrientRecommendation[] = [
     unit: 'glasses (2.3L)',
     importance: 'Maintains amniotic fluid, prevents dehydration and constipation',
     sources: ['Water', 'Herbal tea', 'Fruits with high water content'],
+    aliases: ['hydration', 'hydrated', 'dehydrated'],
+    foodKeywords: ['water', 'herbal tea', 'watermelon', 'cucumber', 'orange'],
   },
 ];
 
 // Food safety guide
 export const FOOD_SAFETY_GUIDE: FoodSafety[] = [
   // AVOID
-  { food: 'Raw fish/sushi', status: 'avoid', reason: 'Risk of parasites and bacteria', alternatives: ['Cooked fish', 'Vegetable sushi'] },
-  { food: 'Raw or undercooked eggs', status: 'avoid', reason: 'Risk of Salmonella', alternatives: ['Fully cooked eggs', 'Pasteurized eggs'] },
-  { food: 'Unpasteurized dairy', status: 'avoid', reason: 'Risk of Listeria', alternatives: ['Pasteurized milk and cheese'] },
-  { food: 'Soft cheeses (brie, camembert)', status: 'avoid', reason: 'Risk of Listeria unless pasteurized', alternatives: ['Hard cheeses', 'Pasteurized soft cheeses'] },
-  { food: 'Deli meats (cold)', status: 'avoid', reason: 'Risk of Listeria', alternatives: ['Heat until steaming', 'Freshly cooked meats'] },
-  { food: 'Raw sprouts', status: 'avoid', reason: 'Risk of E. coli and Salmonella', alternatives: ['Cooked sprouts'] },
-  { food: 'High mercury fish (shark, swordfish, king mackerel)', status: 'avoid', reason: 'Mercury affects baby\'s brain development', alternatives: ['Salmon', 'Tilapia', 'Shrimp'] },
-  { food: 'Alcohol', status: 'avoid', reason: 'Can cause fetal alcohol spectrum disorders', alternatives: ['Mocktails', 'Sparkling water'] },
-  { food: 'Excessive caffeine', status: 'avoid', reason: 'Linked to low birth weight. Limit to 200mg/day', alternatives: ['Decaf coffee', 'Herbal tea'] },
-  { food: 'Raw or undercooked meat', status: 'avoid', reason: 'Risk of Toxoplasmosis, Salmonella, E. coli', alternatives: ['Well-cooked meat'] },
+  { food: 'Raw fish/sushi', status: 'avoid', reason: 'Risk of parasites and bacteria', alternatives: ['Cooked fish', 'Vegetable sushi'], keywords: ['sushi', 'sashimi', 'raw fish', 'ceviche', 'poke'] },
+  { food: 'Raw or undercooked eggs', status: 'avoid', reason: 'Risk of Salmonella', alternatives: ['Fully cooked eggs', 'Pasteurized eggs'], keywords: ['raw egg', 'raw eggs', 'runny egg', 'runny eggs', 'undercooked eggs', 'soft-boiled eggs', 'homemade mayonnaise', 'cookie dough'] },
+  { food: 'Unpasteurized dairy', status: 'avoid', reason: 'Risk of Listeria', alternatives: ['Pasteurized milk and cheese'], keywords: ['unpasteurized', 'unpasteurised', 'raw milk'] },
+  { food: 'Soft cheeses (brie, camembert)', status: 'avoid', reason: 'Risk of Listeria unless pasteurized', alternatives: ['Hard cheeses', 'Pasteurized soft cheeses'], keywords: ['brie', 'camembert', 'soft cheese', 'soft cheeses', 'blue cheese'] },
+  { food: 'Deli meats (cold)', status: 'avoid', reason: 'Risk of Listeria', alternatives: ['Heat until steaming', 'Freshly cooked meats'], keywords: ['deli meat', 'deli meats', 'cold cuts', 'lunch meat', 'luncheon meat', 'salami', 'hot dog', 'hot dogs'] },
+  { food: 'Raw sprouts', status: 'avoid', reason: 'Risk of E. coli and Salmonella', alternatives: ['Cooked sprouts'], keywords: ['sprouts', 'alfalfa', 'bean sprouts'] },
+  { food: 'High mercury fish (shark, swordfish, king mackerel)', status: 'avoid', reason: 'Mercury affects baby\'s brain development', alternatives: ['Salmon', 'Tilapia', 'Shrimp'], keywords: ['shark', 'swordfish', 'king mackerel', 'marlin', 'tilefish', 'bigeye tuna'] },
+  { food: 'Alcohol', status: 'avoid', reason: 'Can cause fetal alcohol spectrum disorders', alternatives: ['Mocktails', 'Sparkling water'], keywords: ['alcohol', 'wine', 'beer', 'vodka', 'whisky', 'whiskey', 'gin', 'rum', 'cocktail', 'cocktails', 'champagne', 'liquor'] },
+  { food: 'Excessive caffeine', status: 'avoid', reason: 'Linked to low birth weight. Limit to 200mg/day', alternatives: ['Decaf coffee', 'Herbal tea'], keywords: ['caffeine', 'coffee', 'espresso', 'energy drink', 'energy drinks', 'cola'] },
+  { food: 'Smoked fish (cold)', status: 'avoid', reason: 'Risk of Listeria unless cooked', alternatives: ['Smoked fish cooked until steaming', 'Canned salmon'], keywords: ['smoked fish', 'smoked salmon', 'smoked trout', 'smoked mackerel', 'lox'] },
+  { food: 'Raw or undercooked meat', status: 'avoid', reason: 'Risk of Toxoplasmosis, Salmonella, E. coli', alternatives: ['Well-cooked meat'], keywords: ['raw meat', 'undercooked meat', 'rare steak', 'rare burger', 'steak tartare', 'tartare'] },
   
   // CAUTION
-  { food: 'Canned tuna', status: 'caution', reason: 'Contains some mercury. Limit to 2-3 servings per week' },
-  { food: 'Liver', status: 'caution', reason: 'High in vitamin A which can be harmful in excess' },
-  { food: 'Herbal teas', status: 'caution', reason: 'Some herbs may not be safe. Stick to pregnancy-safe varieties' },
-  { food: 'Artificial sweeteners', status: 'caution', reason: 'Some are safe in moderation, but limit intake' },
+  { food: 'Canned tuna', status: 'caution', reason: 'Contains some mercury. Limit to 2-3 servings per week', keywords: ['tuna', 'canned tuna'] },
+  { food: 'Liver', status: 'caution', reason: 'High in vitamin A which can be harmful in excess', keywords: ['liver', 'pate'] },
+  { food: 'Herbal teas', status: 'caution', reason: 'Some herbs may not be safe. Stick to pregnancy-safe varieties', keywords: ['herbal tea', 'herbal teas', 'chamomile', 'peppermint tea', 'raspberry leaf tea'] },
+  { food: 'Artificial sweeteners', status: 'caution', reason: 'Some are safe in moderation, but limit intake', keywords: ['sweetener', 'sweeteners', 'aspartame', 'sucralose', 'stevia', 'diet soda'] },
   
   // SAFE
-  { food: 'Cooked eggs', status: 'safe', reason: 'Excellent source of protein and choline' },
-  { food: 'Pasteurized dairy', status: 'safe', reason: 'Great source of calcium and vitamin D' },
-  { food: 'Well-cooked poultry', status: 'safe', reason: 'Lean protein source' },
-  { food: 'Fruits and vegetables', status: 'safe', reason: 'Essential vitamins and fiber. Wash thoroughly' },
-  { food: 'Whole grains', status: 'safe', reason: 'Good source of fiber, B vitamins, and iron' },
-  { food: 'Legumes', status: 'safe', reason: 'Excellent plant protein and iron source' },
-  { food: 'Salmon (cooked)', status: 'safe', reason: 'Low mercury, high DHA. 2-3 servings per week is ideal' },
-  { food: 'Nuts and seeds', status: 'safe', reason: 'Healthy fats, protein, and minerals' },
+  { food: 'Cooked eggs', status: 'safe', reason: 'Excellent source of protein and choline', keywords: ['cooked eggs', 'boiled egg', 'boiled eggs', 'hard-boiled eggs', 'scrambled eggs', 'omelet', 'omelette'] },
+  { food: 'Pasteurized dairy', status: 'safe', reason: 'Great source of calcium and vitamin D', keywords: ['pasteurized', 'pasteurised', 'milk', 'yogurt', 'yoghurt', 'cheddar'] },
+  { food: 'Well-cooked poultry', status: 'safe', reason: 'Lean protein source', keywords: ['chicken', 'turkey', 'poultry'] },
+  { food: 'Fruits and vegetables', status: 'safe', reason: 'Essential vitamins and fiber. Wash thoroughly', keywords: ['fruit', 'fruits', 'vegetable', 'vegetables', 'veggies', 'salad'] },
+  { food: 'Whole grains', status: 'safe', reason: 'Good source of fiber, B vitamins, and iron', keywords: ['whole grain', 'whole grains', 'whole wheat', 'oats', 'oatmeal', 'brown rice', 'quinoa'] },
+  { food: 'Legumes', status: 'safe', reason: 'Excellent plant protein and iron source', keywords: ['legumes', 'beans', 'lentils', 'chickpeas'] },
+  { food: 'Salmon (cooked)', status: 'safe', reason: 'Low mercury, high DHA. 2-3 servings per week is ideal', keywords: ['salmon'] },
+  { food: 'Nuts and seeds', status: 'safe', reason: 'Healthy fats, protein, and minerals', keywords: ['nuts', 'peanuts', 'almonds', 'walnuts', 'seeds', 'peanut butter'] },
 ];
 
 // Meal suggestions by trimester
@@ -198,6 +229,12 @@ export const MEAL_SUGGESTIONS = {
   },
 };
 
+const wordPattern = (term: string, plural = false) =>
+  new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}${plural ? '(e?s)?' : ''}\\b`, 'i');
+
+// "DHA (Omega-3)" is asked about as "DHA" or by its aliases
+const nutrientNames = (n: NutrientRecommendation) => [n.nutrient.replace(/\s*\(.*\)/, ''), ...(n.aliases || [])];
+
 export const nutritionGuidanceService = {
   /**
    * Log a meal
@@ -275,7 +312,54 @@ export const nutritionGuidanceService = {
     return FOOD_SAFETY_GUIDE.find(item => 
       normalizedFood.includes(item.food.toLowerCase()) ||
       item.food.toLowerCase().includes(normalizedFood)
-    ) || null;
+    ) || this.findFoodsInText(food)[0] || null;
+  },
+
+  /**
+   * Foods mentioned in free text such as "is sushi OK?", longest names first
+   * so "bean sprouts" is not also read as "beans". A safe food named right
+   * after a food to avoid or limit is qualified by it: "unpasteurized milk"
+   * is unpasteurized dairy, not milk
+   */
+  findFoodsInText(text: string): FoodSafety[] {
+    const found: { item: FoodSafety; start: number; end: number }[] = [];
+    const candidates = FOOD_SAFETY_GUIDE
+      .flatMap(item => (item.keywords || []).map(keyword => ({ item, keyword, match: wordPattern(keyword).exec(text) })))
+      .filter(c => c.match)
+      .sort((a, b) => b.keyword.length - a.keyword.length);
+
+    for (const { item, match } of candidates) {
+      const start = match!.index;
+      const end = start + match![0].length;
+      if (found.some(f => f.item === item || (start < f.end && end > f.start))) continue;
+      found.push({ item, start, end });
+    }
+    const qualified = found.filter(f => f.item.status === 'safe' && found.some(q =>
+      q.item.status !== 'safe' && q.end <= f.start && /^[\s-]*$/.test(text.slice(q.end, f.start))
+    ));
+    return found
+      .filter(f => !qualified.includes(f))
+      .sort((a, b) => a.start - b.start)
+      .map(f => f.item);
+  },
+
+  /**
+   * Patterns matching any food in the guide or nutrient name
+   */
+  getMentionPatterns(): RegExp[] {
+    return [
+      ...FOOD_SAFETY_GUIDE.flatMap(item => item.keywords || []),
+      ...PREGNANCY_NUTRIENTS.flatMap(nutrientNames),
+    ].map(term => wordPattern(term));
+  },
+
+  /**
+   * Nutrients asked about in free text ("am I getting enough iron?")
+   */
+  findNutrientsInText(text: string): NutrientRecommendation[] {
+    return PREGNANCY_NUTRIENTS.filter(n =>
+      nutrientNames(n).some(name => wordPattern(name).test(text))
+    );
   },
 
   /**
@@ -348,6 +432,45 @@ export const nutritionGuidanceService = {
     };
   },
 
+  /**
+   * Days in the last week with a logged source of each nutrient. Logs hold
+   * food names, not amounts, so this shows coverage rather than intake.
+   */
+  async getWeeklyNutrientIntake(
+    motherId: string,
+    nutrients: NutrientRecommendation[] = PREGNANCY_NUTRIENTS
+  ): Promise<NutrientIntake[]> {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - 7);
+
+    const logs = await this.getNutritionLogs(
+      motherId,
+      startDate.toISOString(),
+      new Date().toISOString()
+    );
+    const days = new Set<string>(logs.map(log => log.logged_at.split('T')[0]));
+
+    return nutrients.map(nutrient => {
+      const daysWithSource = new Set<string>();
+      const matchedFoods = new Set<string>();
+      logs.forEach(log => {
+        (log.food_items || []).forEach((food: string) => {
+          if ((nutrient.foodKeywords || []).some(keyword => wordPattern(keyword, true).test(food))) {
+            daysWithSource.add(log.logged_at.split('T')[0]);
+            matchedFoods.add(food);
+          }
+        });
+      });
+
+      return {
+        nutrient,
+        daysLogged: days.size,
+        daysWithSource: daysWithSource.size,
+        matchedFoods: Array.from(matchedFoods),
+      };
+    });
+  },
+
   /**
    * Get personalized nutrition tips
    */
@@ -0,0 +1,127 @@
+import { Platform } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { clinicalReportGenerator, ReportAudience } from '@/services/ai/ClinicalReportGenerator';
+import { renderHtml } from '@/lib/reportDocument';
+
+export type ReportFormat = 'html' | 'pdf';
+
+const MIME_TYPES: Record<ReportFormat, { mimeType: string; UTI: string }> = {
+  pdf: { mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+  html: { mimeType: 'text/html', UTI: 'public.html' },
+};
+
+const download = (fileName: string, html: string) => {
+  const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// expo-print prints the whole app on web, so the report is printed from its
+// own frame and saved through the browser's "Save as PDF" destination
+const printOnWeb = (html: string) =>
+  new Promise<void>((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+      const view = frame.contentWindow;
+      if (!view) {
+        document.body.removeChild(frame);
+        reject(new Error('Report frame did not load'));
+        return;
+      }
+      view.onafterprint = () => {
+        document.body.removeChild(frame);
+        resolve();
+      };
+      view.focus();
+      view.print();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+  });
+
+const shareOnNative = async (fileName: string, html: string, format: ReportFormat, title: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    console.error('Sharing is not available on this device');
+    return false;
+  }
+
+  let uri: string;
+  if (format === 'pdf') {
+    ({ uri } = await Print.printToFileAsync({ html }));
+  } else {
+    const file = new File(Paths.cache, fileName);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(html);
+    uri = file.uri;
+  }
+
+  await Sharing.shareAsync(uri, { ...MIME_TYPES[format], dialogTitle: title });
+  return true;
+};
+
+export const reportService = {
+  /**
+   * Render a stored assessment and hand it to the user. Web downloads the
+   * HTML page or opens the print dialog for a PDF; native builds the file
+   * and opens the share sheet.
+   */
+  async exportAssessmentReport(
+    assessmentId: string,
+    audience: ReportAudience,
+    format: ReportFormat
+  ): Promise<boolean> {
+    try {
+      const report = await clinicalReportGenerator.buildReport(assessmentId);
+      const doc = clinicalReportGenerator.toDocument(report, audience);
+      const html = renderHtml(doc);
+      const fileName = `${audience === 'clinician' ? 'clinical-report' : 'patient-summary'}-${assessmentId.slice(0, 8)}.${format}`;
+
+      if (Platform.OS !== 'web') {
+        return await shareOnNative(fileName, html, format, doc.title);
+      }
+
+      if (format === 'pdf') {
+        await printOnWeb(html);
+      } else {
+        download(fileName, html);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error exporting assessment report:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Export the most recent assessment for a patient
+   */
+  async exportLatestReport(
+    motherId: string,
+    audience: ReportAudience,
+    format: ReportFormat
+  ): Promise<boolean> {
+    try {
+      const assessmentId = await clinicalReportGenerator.getLatestAssessmentId(motherId);
+      if (!assessmentId) return false;
+      return await this.exportAssessmentReport(assessmentId, audience, format);
+    } catch (error) {
+      console.error('Error finding latest assessment:', error);
+      return false;
+    }
+  },
+};
+
+export default reportService;
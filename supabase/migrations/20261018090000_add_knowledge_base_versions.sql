@@ -0,0 +1,51 @@
+/*
+  # Versioned Obstetric Knowledge Base
+
+  This migration moves the diagnostic engine's conditions and rules into data:
+  - ai_knowledge_base_versions: Declarative knowledge packs (conditions + rule
+    expressions) with a version id and lifecycle status
+  - ai_assessments.knowledge_base_version: Which pack produced each assessment
+
+  Only one pack is expected to be 'active' at a time. Packs are validated by the
+  app before they are written; the app falls back to its bundled pack if none
+  is active.
+
+  ## Security
+  - Authenticated users can read the active pack
+  - Admins manage all versions
+*/
+
+CREATE TABLE IF NOT EXISTS ai_knowledge_base_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version text UNIQUE NOT NULL,
+  schema_version integer NOT NULL DEFAULT 1,
+  description text,
+  pack jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'retired')),
+  created_by uuid REFERENCES auth.users(id),
+  published_by uuid REFERENCES auth.users(id),
+  published_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ai_assessments ADD COLUMN IF NOT EXISTS knowledge_base_version text;
+
+ALTER TABLE ai_knowledge_base_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active knowledge base"
+  ON ai_knowledge_base_versions FOR SELECT
+  TO authenticated
+  USING (status = 'active');
+
+CREATE POLICY "Admins can manage knowledge base versions"
+  ON ai_knowledge_base_versions FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM admin_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_knowledge_base_single_active
+  ON ai_knowledge_base_versions(status) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_ai_assessments_kb_version ON ai_assessments(knowledge_base_version);
@@ -0,0 +1,86 @@
+/*
+  # Modified Early Obstetric Warning Score (MEOWS)
+
+  This migration adds MEOWS scoring to vital sign readings:
+  - vital_signs: respiratory_rate and consciousness_level observations, plus the
+    computed score, escalation level and per-parameter triggers
+  - alerts: Doctor alerts raised automatically (e.g. on any red MEOWS trigger)
+  - latest_meows_scores(): The most recent scored reading of each given
+    mother, for patient lists
+
+  ## Security
+  - Mothers can raise alerts for themselves
+  - Doctors can view and update their own alerts
+  - latest_meows_scores runs with the caller's rights, so it only returns
+    readings the caller can already see
+*/
+
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS respiratory_rate integer;
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS consciousness_level text
+  CHECK (consciousness_level IN ('alert', 'voice', 'pain', 'unresponsive'));
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS meows_score integer;
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS meows_level text
+  CHECK (meows_level IN ('normal', 'increased_monitoring', 'urgent_review', 'emergency'));
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS meows_red_triggers integer DEFAULT 0;
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS meows_yellow_triggers integer DEFAULT 0;
+ALTER TABLE vital_signs ADD COLUMN IF NOT EXISTS meows_triggers jsonb DEFAULT '[]';
+
+-- Doctor Alerts
+CREATE TABLE IF NOT EXISTS alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  mother_id uuid REFERENCES mother_profiles(id) ON DELETE CASCADE NOT NULL,
+  alert_type text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('critical', 'high', 'medium', 'low')),
+  message text NOT NULL,
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'acknowledged', 'resolved', 'dismissed')),
+  vitals jsonb,
+  resolved_by uuid REFERENCES auth.users(id),
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Mothers can raise own alerts"
+  ON alerts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM mother_profiles WHERE id = mother_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Doctors can manage own alerts"
+  ON alerts FOR ALL
+  TO authenticated
+  USING (doctor_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_alerts_doctor_status ON alerts(doctor_id, status);
+CREATE INDEX IF NOT EXISTS idx_alerts_mother_id ON alerts(mother_id);
+CREATE INDEX IF NOT EXISTS idx_vital_signs_meows_level ON vital_signs(meows_level);
+CREATE INDEX IF NOT EXISTS idx_vital_signs_mother_meows
+  ON vital_signs(mother_id, recorded_at DESC) WHERE meows_level IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.latest_meows_scores(p_mother_ids uuid[])
+RETURNS TABLE (
+  mother_id uuid,
+  meows_level text,
+  meows_red_triggers integer,
+  meows_yellow_triggers integer,
+  recorded_at timestamptz
+)
+LANGUAGE sql STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (v.mother_id)
+    v.mother_id, v.meows_level, v.meows_red_triggers, v.meows_yellow_triggers, v.recorded_at
+  FROM vital_signs v
+  WHERE v.mother_id = ANY(p_mother_ids)
+    AND v.meows_level IS NOT NULL
+  ORDER BY v.mother_id, v.recorded_at DESC;
+$$;
+
+REVOKE ALL ON FUNCTION public.latest_meows_scores(uuid[]) FROM public;
+GRANT EXECUTE ON FUNCTION public.latest_meows_scores(uuid[]) TO authenticated;
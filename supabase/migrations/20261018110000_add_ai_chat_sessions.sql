@@ -0,0 +1,100 @@
+/*
+  # Persistent AI Chat Sessions
+
+  This migration stores AI assistant conversations server-side so they survive
+  app restarts and can be resumed on another device:
+  - ai_chat_sessions: One row per conversation with the resumable engine state
+    (extracted symptoms, follow-up dialogue, summary of older turns) and expiry
+  - ai_chat_messages: Full message transcript with intents, risk levels and
+    extracted symptoms per turn
+
+  ## Security
+  - Users can manage their own sessions and messages
+  - Doctors can view the sessions and messages of mothers they have an
+    appointment with, for clinical follow-up
+*/
+
+-- AI Chat Sessions
+CREATE TABLE IF NOT EXISTS ai_chat_sessions (
+  id text PRIMARY KEY,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  user_role text NOT NULL CHECK (user_role IN ('mother', 'doctor', 'admin')),
+  title text,
+  language text DEFAULT 'en',
+  status text DEFAULT 'active' CHECK (status IN ('active', 'expired', 'closed')),
+  summary text,
+  state jsonb DEFAULT '{}',
+  message_count integer DEFAULT 0,
+  last_risk_level risk_level,
+  highest_risk_level risk_level,
+  last_message_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- AI Chat Messages
+CREATE TABLE IF NOT EXISTS ai_chat_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id text REFERENCES ai_chat_sessions(id) ON DELETE CASCADE NOT NULL,
+  role text NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content text NOT NULL,
+  intent text,
+  risk_level risk_level,
+  extracted_symptoms jsonb DEFAULT '[]',
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ai_chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own chat sessions"
+  ON ai_chat_sessions FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Doctors can view chat sessions of their patients"
+  ON ai_chat_sessions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM appointments a
+      JOIN doctor_profiles d ON d.id = a.doctor_id
+      JOIN mother_profiles m ON m.id = a.mother_id
+      WHERE d.user_id = auth.uid() AND m.user_id = ai_chat_sessions.user_id
+    )
+  );
+
+CREATE POLICY "Users can manage own chat messages"
+  ON ai_chat_messages FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ai_chat_sessions
+      WHERE ai_chat_sessions.id = session_id AND ai_chat_sessions.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM ai_chat_sessions
+      WHERE ai_chat_sessions.id = session_id AND ai_chat_sessions.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Doctors can view chat messages of their patients"
+  ON ai_chat_messages FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ai_chat_sessions s
+      JOIN mother_profiles m ON m.user_id = s.user_id
+      JOIN appointments a ON a.mother_id = m.id
+      JOIN doctor_profiles d ON d.id = a.doctor_id
+      WHERE s.id = ai_chat_messages.session_id AND d.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_ai_chat_sessions_user_recent ON ai_chat_sessions(user_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_chat_messages_session ON ai_chat_messages(session_id, created_at);
@@ -0,0 +1,81 @@
+/*
+  # Shadow-Mode Evaluation of AI Model Versions
+
+  This migration lets a candidate model version run alongside production on
+  live traffic without its output reaching users:
+  - ai_model_versions.components: What a version is made of (knowledge base
+    version, language model provider)
+  - ai_model_versions.shadow: The candidate currently running in shadow
+  - ai_shadow_comparisons: Production vs candidate outcome for every shadowed
+    turn, with risk level and escalation disagreements flagged
+
+  ## Security
+  - Authenticated users can read the shadow version and its knowledge base,
+    since the candidate runs in the app
+  - Users can log comparisons for their own turns
+  - Admins can view and manage comparisons
+*/
+
+ALTER TABLE ai_model_versions ADD COLUMN IF NOT EXISTS components jsonb DEFAULT '{}';
+ALTER TABLE ai_model_versions ADD COLUMN IF NOT EXISTS shadow boolean DEFAULT false;
+
+-- At most one candidate runs in shadow
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_model_versions_single_shadow ON ai_model_versions(shadow) WHERE shadow;
+
+CREATE POLICY "Anyone can view shadow model versions"
+  ON ai_model_versions FOR SELECT
+  TO authenticated
+  USING (shadow = true);
+
+CREATE POLICY "Anyone can view knowledge base of shadow model"
+  ON ai_knowledge_base_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ai_model_versions
+      WHERE ai_model_versions.shadow = true
+        AND ai_model_versions.components->>'knowledgeBaseVersion' = ai_knowledge_base_versions.version
+    )
+  );
+
+-- AI Shadow Comparisons
+CREATE TABLE IF NOT EXISTS ai_shadow_comparisons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  production_version text NOT NULL,
+  candidate_version text NOT NULL,
+  production_intent text,
+  candidate_intent text,
+  production_risk_level risk_level NOT NULL,
+  -- Candidate outcome is null when the candidate failed
+  candidate_risk_level risk_level,
+  production_escalation boolean NOT NULL,
+  candidate_escalation boolean,
+  risk_disagreement boolean NOT NULL,
+  escalation_disagreement boolean NOT NULL,
+  -- Candidate minus production risk level; negative when the candidate triages lower
+  risk_delta integer DEFAULT 0,
+  symptoms jsonb DEFAULT '[]',
+  candidate_latency_ms integer,
+  candidate_error text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ai_shadow_comparisons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can log own shadow comparisons"
+  ON ai_shadow_comparisons FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage shadow comparisons"
+  ON ai_shadow_comparisons FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM admin_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_ai_shadow_comparisons_candidate ON ai_shadow_comparisons(candidate_version, created_at DESC);
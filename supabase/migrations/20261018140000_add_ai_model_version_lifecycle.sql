@@ -0,0 +1,74 @@
+/*
+  # AI Model Version Lifecycle
+
+  This migration moves ai_model_versions onto a promotion lifecycle:
+  training → validating → approved → deployed → retired
+  - Existing 'active' versions become 'deployed' and 'deprecated' ones 'retired'
+  - approved_by / approved_at: Admin sign-off, also recorded in audit_logs
+  - deployed_at / retired_at: When a version started and stopped serving
+  - previous_version: The version a rollback returns to
+  - Version changes are published over realtime so running apps switch
+    engines without a restart
+
+  ## Security
+  - Authenticated users can read the deployed version and the knowledge base
+    it pins, which after a rollback may no longer be the active pack
+  - Admins can write audit log entries for their own actions
+*/
+
+UPDATE ai_model_versions SET status = 'deployed' WHERE status = 'active';
+UPDATE ai_model_versions SET status = 'retired' WHERE status = 'deprecated';
+
+ALTER TABLE ai_model_versions ALTER COLUMN status SET DEFAULT 'training';
+ALTER TABLE ai_model_versions DROP CONSTRAINT IF EXISTS ai_model_versions_status_check;
+ALTER TABLE ai_model_versions ADD CONSTRAINT ai_model_versions_status_check
+  CHECK (status IN ('training', 'validating', 'approved', 'deployed', 'retired'));
+
+ALTER TABLE ai_model_versions ADD COLUMN IF NOT EXISTS approved_by uuid REFERENCES auth.users(id);
+ALTER TABLE ai_model_versions ADD COLUMN IF NOT EXISTS approved_at timestamptz;
+ALTER TABLE ai_model_versions ADD COLUMN IF NOT EXISTS deployed_at timestamptz;
+ALTER TABLE ai_model_versions ADD COLUMN IF NOT EXISTS retired_at timestamptz;
+
+-- Only one version serves production
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_model_versions_single_deployed
+  ON ai_model_versions(status) WHERE status = 'deployed';
+
+DROP POLICY IF EXISTS "Anyone can view active model versions" ON ai_model_versions;
+
+CREATE POLICY "Anyone can view deployed model versions"
+  ON ai_model_versions FOR SELECT
+  TO authenticated
+  USING (status = 'deployed');
+
+CREATE POLICY "Anyone can view knowledge base of deployed model"
+  ON ai_knowledge_base_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ai_model_versions
+      WHERE ai_model_versions.status = 'deployed'
+        AND ai_model_versions.components->>'knowledgeBaseVersion' = ai_knowledge_base_versions.version
+    )
+  );
+
+CREATE POLICY "Admins can write own audit logs"
+  ON audit_logs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM admin_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_resource ON audit_logs(resource_type, resource_id, created_at DESC);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'ai_model_versions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE ai_model_versions;
+  END IF;
+END $$;
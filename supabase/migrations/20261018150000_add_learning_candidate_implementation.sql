@@ -0,0 +1,18 @@
+/*
+  # Compiled Learning Candidates
+
+  Approved learning candidates are compiled into a knowledge pack draft and a
+  new model version in training:
+  - ai_learning_candidates.implemented_in_version: Model version that carries
+    the candidate's change
+  - Learned entries in the knowledge pack keep the candidate id and its source
+    conversations, so a change can be traced back to what motivated it
+
+  ## Security
+  - No policy changes; candidates remain admin-only
+*/
+
+ALTER TABLE ai_learning_candidates ADD COLUMN IF NOT EXISTS implemented_in_version text;
+
+CREATE INDEX IF NOT EXISTS idx_ai_learning_candidates_implemented_in_version
+  ON ai_learning_candidates(implemented_in_version);
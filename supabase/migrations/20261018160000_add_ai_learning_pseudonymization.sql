@@ -0,0 +1,121 @@
+/*
+  # Keyed Pseudonyms for AI Learning Data
+
+  Learning conversations were keyed by a 32-bit hash of the user id, which
+  can be reversed by brute force. This migration moves pseudonyms to HMAC-SHA256
+  with a secret key that never leaves the database:
+  - ai_pseudonym_keys: Versioned HMAC keys. Rotating retires the current key;
+    secrets of keys retired for more than 90 days are destroyed, after which
+    their pseudonyms cannot be linked to anyone, even by the database
+  - ai_pseudonymize(): Pseudonyms for the calling user and for message content
+    and the chat session id, under the current key. The user pseudonym is
+    always computed from auth.uid(), so the function cannot be used to
+    pseudonymize other users
+  - ai_rotate_pseudonym_key(): Admin-only key rotation
+  - ai_learning_conversations.pseudonym_key_version / reidentification_risk:
+    Which key produced the pseudonyms, and the result of the
+    re-identification check run before the record was written
+
+  ## Security
+  - ai_pseudonym_keys has RLS enabled and no policies; only the functions read it
+  - Users can submit learning conversations under their own current pseudonym
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS ai_pseudonym_keys (
+  version serial PRIMARY KEY,
+  -- Null once destroyed
+  secret bytea DEFAULT extensions.gen_random_bytes(32),
+  created_at timestamptz DEFAULT now(),
+  retired_at timestamptz,
+  destroyed_at timestamptz
+);
+
+ALTER TABLE ai_pseudonym_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO ai_pseudonym_keys (secret)
+SELECT extensions.gen_random_bytes(32)
+WHERE NOT EXISTS (SELECT 1 FROM ai_pseudonym_keys WHERE retired_at IS NULL);
+
+ALTER TABLE ai_learning_conversations ADD COLUMN IF NOT EXISTS pseudonym_key_version integer;
+ALTER TABLE ai_learning_conversations ADD COLUMN IF NOT EXISTS reidentification_risk jsonb;
+
+-- Pseudonym of the calling user under the current key; 'user:' and 'content:'
+-- prefixes keep content pseudonyms from ever matching a user pseudonym
+CREATE OR REPLACE FUNCTION public.ai_current_user_pseudonym()
+RETURNS text AS $$
+  SELECT 'p' || k.version || '_' || encode(extensions.hmac('user:' || auth.uid()::text, k.secret, 'sha256'), 'hex')
+  FROM public.ai_pseudonym_keys k
+  WHERE k.retired_at IS NULL AND k.secret IS NOT NULL AND auth.uid() IS NOT NULL
+  ORDER BY k.version DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.ai_pseudonymize(p_contents text[])
+RETURNS jsonb AS $$
+DECLARE
+  current_key record;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT version, secret INTO current_key
+  FROM public.ai_pseudonym_keys
+  WHERE retired_at IS NULL AND secret IS NOT NULL
+  ORDER BY version DESC
+  LIMIT 1;
+
+  IF current_key IS NULL THEN
+    RAISE EXCEPTION 'No active pseudonym key';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'key_version', current_key.version,
+    'user', public.ai_current_user_pseudonym(),
+    'contents', (
+      SELECT COALESCE(
+        jsonb_agg(
+          'p' || current_key.version || '_' || encode(extensions.hmac('content:' || c.value, current_key.secret, 'sha256'), 'hex')
+          ORDER BY c.ordinality
+        ),
+        '[]'::jsonb
+      )
+      FROM unnest(p_contents) WITH ORDINALITY AS c(value, ordinality)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.ai_rotate_pseudonym_key()
+RETURNS integer AS $$
+DECLARE
+  new_version integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.admin_profiles WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can rotate pseudonym keys';
+  END IF;
+
+  UPDATE public.ai_pseudonym_keys SET retired_at = now() WHERE retired_at IS NULL;
+
+  UPDATE public.ai_pseudonym_keys
+  SET secret = NULL, destroyed_at = now()
+  WHERE secret IS NOT NULL AND retired_at < now() - interval '90 days';
+
+  INSERT INTO public.ai_pseudonym_keys DEFAULT VALUES RETURNING version INTO new_version;
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.ai_current_user_pseudonym() FROM public;
+REVOKE ALL ON FUNCTION public.ai_pseudonymize(text[]) FROM public;
+REVOKE ALL ON FUNCTION public.ai_rotate_pseudonym_key() FROM public;
+GRANT EXECUTE ON FUNCTION public.ai_current_user_pseudonym() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_pseudonymize(text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_rotate_pseudonym_key() TO authenticated;
+
+CREATE POLICY "Users can submit own pseudonymized learning conversations"
+  ON ai_learning_conversations FOR INSERT
+  TO authenticated
+  WITH CHECK (anonymized_user_id = public.ai_current_user_pseudonym());
@@ -0,0 +1,86 @@
+/*
+  # Clustered Learning Candidates
+
+  Candidates were created one per conversation, so recurring patterns showed up
+  as many near-identical entries. Pending candidates with the same type,
+  intent, trimester and risk level and similar symptom sets are now merged
+  into one cluster-level candidate:
+  - ai_learning_candidates.cluster_key: Type, intent, trimester and risk level
+  - ai_learning_candidates.cluster: Symptoms shared by the cluster and the
+    features behind its key
+  - ai_learning_candidates.frequency: Number of conversations in the cluster
+  - ai_learning_candidates.impact_score: Priority weighted by frequency, used
+    to rank clusters for review
+  - ai_learning_candidates.last_seen_at: Most recent conversation in the cluster
+  - ai_learning_candidates.merged_into: Cluster a merged candidate was folded
+    into; merged candidates have status 'merged' and follow the review
+    decision on that cluster
+  - ai_merge_learning_candidates: Stores a cluster on its lead candidate and
+    marks its members merged in one transaction, so a failed merge leaves
+    every candidate pending and no conversation is counted twice
+
+  ## Security
+  - No policy changes; candidates remain admin-only
+  - The merge function runs with the caller's rights, so only admins can
+    merge candidates
+*/
+
+ALTER TABLE ai_learning_candidates ADD COLUMN IF NOT EXISTS cluster_key text;
+ALTER TABLE ai_learning_candidates ADD COLUMN IF NOT EXISTS cluster jsonb;
+ALTER TABLE ai_learning_candidates ADD COLUMN IF NOT EXISTS frequency integer DEFAULT 1;
+ALTER TABLE ai_learning_candidates ADD COLUMN IF NOT EXISTS impact_score numeric;
+ALTER TABLE ai_learning_candidates ADD COLUMN IF NOT EXISTS last_seen_at timestamptz;
+ALTER TABLE ai_learning_candidates
+  ADD COLUMN IF NOT EXISTS merged_into uuid REFERENCES ai_learning_candidates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ai_learning_candidates_cluster
+  ON ai_learning_candidates(status, cluster_key);
+CREATE INDEX IF NOT EXISTS idx_ai_learning_candidates_merged_into
+  ON ai_learning_candidates(merged_into);
+
+CREATE OR REPLACE FUNCTION public.ai_merge_learning_candidates(
+  p_lead_id uuid,
+  p_member_ids uuid[],
+  p_lead jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_merged integer;
+BEGIN
+  UPDATE ai_learning_candidates
+  SET status = 'merged', merged_into = p_lead_id
+  WHERE id = ANY(p_member_ids)
+    AND id <> p_lead_id
+    AND status = 'pending';
+
+  GET DIAGNOSTICS v_merged = ROW_COUNT;
+  IF v_merged <> coalesce(array_length(p_member_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Learning candidates changed since they were clustered';
+  END IF;
+
+  UPDATE ai_learning_candidates
+  SET priority = p_lead->>'priority',
+      description = p_lead->>'description',
+      source_conversations = ARRAY(SELECT jsonb_array_elements_text(p_lead->'source_conversations')),
+      estimated_impact = p_lead->>'estimated_impact',
+      cluster_key = p_lead->>'cluster_key',
+      cluster = p_lead->'cluster',
+      frequency = (p_lead->>'frequency')::integer,
+      impact_score = (p_lead->>'impact_score')::numeric,
+      last_seen_at = (p_lead->>'last_seen_at')::timestamptz
+  WHERE id = p_lead_id
+    AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Learning candidate % is not pending', p_lead_id;
+  END IF;
+
+  RETURN v_merged;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.ai_merge_learning_candidates(uuid, uuid[], jsonb) FROM public;
+GRANT EXECUTE ON FUNCTION public.ai_merge_learning_candidates(uuid, uuid[], jsonb) TO authenticated;
@@ -0,0 +1,106 @@
+/*
+  # Per-message AI Feedback
+
+  Feedback is given on individual assistant messages and linked to the
+  learning record of the exchange:
+  - ai_conversation_feedback.learning_record_id: The exact learning record the
+    rated message was stored in; null when the exchange was not stored
+  - ai_conversation_feedback.message_id / source: The rated message, and whether
+    it came from the chat or an alert explanation
+  - ai_conversation_feedback.user_id / user_role: Who gave the feedback
+  - ai_conversation_feedback.intent / model_version: What the message answered
+    and which model version produced it, for aggregation
+  - ai_conversation_feedback.issue: Why the message was wrong, when it was
+  - Negative feedback flags the learning record for review
+  - ai_owns_learning_record(): Whether a learning record was stored under the
+    calling user's pseudonym, recomputed with the key that produced it
+
+  ## Security
+  - Users can only submit feedback as themselves, and only link it to their
+    own learning records, so they cannot flag other users' conversations
+  - Admins can view feedback
+*/
+
+ALTER TABLE ai_conversation_feedback
+  ADD COLUMN IF NOT EXISTS learning_record_id uuid REFERENCES ai_learning_conversations(id) ON DELETE SET NULL;
+ALTER TABLE ai_conversation_feedback ADD COLUMN IF NOT EXISTS message_id text;
+ALTER TABLE ai_conversation_feedback ADD COLUMN IF NOT EXISTS source text DEFAULT 'chat';
+ALTER TABLE ai_conversation_feedback
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+ALTER TABLE ai_conversation_feedback ADD COLUMN IF NOT EXISTS user_role text;
+ALTER TABLE ai_conversation_feedback ADD COLUMN IF NOT EXISTS intent text;
+ALTER TABLE ai_conversation_feedback ADD COLUMN IF NOT EXISTS model_version text;
+ALTER TABLE ai_conversation_feedback ADD COLUMN IF NOT EXISTS issue text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'ai_conversation_feedback_issue_check'
+  ) THEN
+    ALTER TABLE ai_conversation_feedback ADD CONSTRAINT ai_conversation_feedback_issue_check
+      CHECK (issue IS NULL OR issue IN ('medically_incorrect', 'unsafe', 'misunderstood', 'not_relevant', 'unclear', 'other'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_ai_conversation_feedback_learning_record
+  ON ai_conversation_feedback(learning_record_id);
+CREATE INDEX IF NOT EXISTS idx_ai_conversation_feedback_model_version
+  ON ai_conversation_feedback(model_version, intent);
+
+-- Learning records are admin-only, so ownership is checked with the definer's
+-- rights; records under a destroyed key cannot be linked to anyone
+CREATE OR REPLACE FUNCTION public.ai_owns_learning_record(p_record_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ai_learning_conversations c
+    JOIN public.ai_pseudonym_keys k ON k.version = c.pseudonym_key_version
+    WHERE c.id = p_record_id
+      AND auth.uid() IS NOT NULL
+      AND k.secret IS NOT NULL
+      AND c.anonymized_user_id = 'p' || k.version || '_' || encode(extensions.hmac('user:' || auth.uid()::text, k.secret, 'sha256'), 'hex')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.ai_owns_learning_record(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION public.ai_owns_learning_record(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Users can submit feedback" ON ai_conversation_feedback;
+
+CREATE POLICY "Users can submit own feedback"
+  ON ai_conversation_feedback FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (learning_record_id IS NULL OR public.ai_owns_learning_record(learning_record_id))
+  );
+
+CREATE POLICY "Admins can view feedback"
+  ON ai_conversation_feedback FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM admin_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+-- Learning records are admin-only, so flagging runs with the definer's rights
+CREATE OR REPLACE FUNCTION public.ai_flag_negative_feedback()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.learning_record_id IS NOT NULL
+    AND (NEW.helpful = false OR NEW.accurate = false OR NEW.rating <= 2) THEN
+    UPDATE public.ai_learning_conversations
+    SET review_status = 'pending',
+        review_flag_reason = COALESCE(NEW.issue, 'negative_feedback')
+    WHERE id = NEW.learning_record_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_ai_feedback_flag_learning_record ON ai_conversation_feedback;
+CREATE TRIGGER on_ai_feedback_flag_learning_record
+  AFTER INSERT ON ai_conversation_feedback
+  FOR EACH ROW EXECUTE FUNCTION public.ai_flag_negative_feedback();
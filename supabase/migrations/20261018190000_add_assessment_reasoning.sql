@@ -0,0 +1,19 @@
+/*
+  # Stored Assessment Reasoning
+
+  Assessments keep the reasoning behind them so they can be rendered as
+  clinical reports after the fact:
+  - ai_assessments.diagnostic_input: The symptoms, pregnancy stage, vital signs
+    and risk factors the assessment was made from; the vital sign history is
+    not copied
+  - ai_assessments.diagnostic_result: The full diagnostic result, including the
+    differential, fired rules and explanation trace
+  - Assessments made before this migration keep null in both columns and are
+    reported from their summary columns
+
+  ## Security
+  - No policy changes; the columns inherit the existing ai_assessments policies
+*/
+
+ALTER TABLE ai_assessments ADD COLUMN IF NOT EXISTS diagnostic_input jsonb;
+ALTER TABLE ai_assessments ADD COLUMN IF NOT EXISTS diagnostic_result jsonb;
@@ -0,0 +1,30 @@
+/*
+  # Agent Registry Settings
+
+  This migration seeds the settings the agent orchestrator reads for each
+  registered agent, keyed by agent id:
+  - enabled: Whether the agent runs; required agents (triage, emergency,
+    safety) stay enabled regardless
+  - weight: Multiplies the agent's score when the reply is chosen (default 1)
+  - timeoutMs: Time budget for the agent; unset uses the agent's own budget
+
+  Agents without an entry run enabled with weight 1.
+
+  ## Security
+  - system_settings remains admin-managed
+  - Authenticated users can read this one setting, since the orchestrator
+    runs in every user's session
+*/
+
+INSERT INTO system_settings (key, value, description)
+VALUES (
+  'ai_agent_registry',
+  '{"obstetric_agent": {"enabled": true, "weight": 1}, "education_agent": {"enabled": true, "weight": 1}, "learning_agent": {"enabled": true, "weight": 1}}',
+  'Per-agent enablement, weights and time budgets for the agent orchestrator'
+)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE POLICY "Users can read agent registry settings"
+  ON system_settings FOR SELECT
+  TO authenticated
+  USING (key = 'ai_agent_registry');
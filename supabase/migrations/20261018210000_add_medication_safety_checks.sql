@@ -0,0 +1,18 @@
+/*
+  # Medication Safety Checks
+
+  New medication reminders are checked against the pregnancy drug-safety
+  dataset bundled with the app:
+  - medication_reminders.safety_check: Pregnancy risk at the mother's
+    gestational age when the reminder was added, with contraindications,
+    interactions with other active medications and the dataset version;
+    null for medications not in the dataset
+  - Doctors are alerted (alert_type 'medication_safety') when a medication
+    should be avoided
+
+  ## Security
+  - No policy changes; the column inherits the existing medication_reminders
+    policies
+*/
+
+ALTER TABLE medication_reminders ADD COLUMN IF NOT EXISTS safety_check jsonb;
@@ -0,0 +1,123 @@
+/*
+  # Mental Health Crisis Follow-up
+
+  Mental health crises described to the AI assistant (self-harm or thoughts
+  of harming the baby) are escalated apart from obstetric emergencies:
+  - ai_chat_sessions.needs_follow_up / follow_up_reason / flagged_at: The
+    conversation is flagged for clinical follow-up
+  - The mother's care team is alerted (alert_type 'mental_health_crisis')
+    and notified; a mother with no care team is escalated to the admins
+  - notify_alert_doctors(): Notifications for alerts a mother has just raised
+  - escalate_alert_to_admins(): Alerts and notifications for every admin
+    when a crisis or a red MEOWS trigger has no doctor to go to
+
+  ## Security
+  - Mothers cannot write other users' notifications directly; the functions
+    run with the definer's rights and only notify about the caller's own
+    pending alerts, addressed to doctors caring for her, with the alert's
+    own message, once per alert
+  - Only crises and red MEOWS triggers can be escalated to admins
+  - Mothers can view their own alerts, to pass the new alerts' ids on
+  - Session flags inherit the existing ai_chat_sessions policies
+*/
+
+ALTER TABLE ai_chat_sessions ADD COLUMN IF NOT EXISTS needs_follow_up boolean DEFAULT false;
+ALTER TABLE ai_chat_sessions ADD COLUMN IF NOT EXISTS follow_up_reason text;
+ALTER TABLE ai_chat_sessions ADD COLUMN IF NOT EXISTS flagged_at timestamptz;
+
+CREATE POLICY "Mothers can view own alerts"
+  ON alerts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM mother_profiles WHERE id = mother_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.notify_alert_doctors(p_alert_ids uuid[], p_data jsonb DEFAULT '{}')
+RETURNS integer AS $$
+DECLARE
+  notified integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  SELECT
+    a.doctor_id,
+    CASE a.alert_type
+      WHEN 'meows_red_trigger' THEN 'MEOWS Red Trigger'
+      WHEN 'medication_safety' THEN 'Medication Safety'
+      WHEN 'mental_health_crisis' THEN 'Mental Health Crisis'
+      ELSE 'Patient Alert'
+    END,
+    a.message,
+    'alert',
+    COALESCE(p_data, '{}'::jsonb) || jsonb_build_object('alert_id', a.id, 'mother_id', a.mother_id)
+  FROM public.alerts a
+  JOIN public.mother_profiles m ON m.id = a.mother_id
+  WHERE a.id = ANY(p_alert_ids)
+    AND m.user_id = auth.uid()
+    AND a.status = 'pending'
+    AND EXISTS (
+      SELECT 1 FROM public.appointments ap
+      JOIN public.doctor_profiles d ON d.id = ap.doctor_id
+      LEFT JOIN public.doctor_profiles b ON b.id = d.backup_doctor_id
+      WHERE ap.mother_id = a.mother_id AND a.doctor_id IN (d.user_id, b.user_id)
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.user_id = a.doctor_id AND n.data->>'alert_id' = a.id::text
+    );
+
+  GET DIAGNOSTICS notified = ROW_COUNT;
+  RETURN notified;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.escalate_alert_to_admins(
+  p_alert_type text,
+  p_severity text,
+  p_message text,
+  p_data jsonb DEFAULT '{}'
+)
+RETURNS integer AS $$
+DECLARE
+  mother_profile_id uuid;
+  escalated integer;
+BEGIN
+  IF p_alert_type NOT IN ('mental_health_crisis', 'meows_red_trigger') THEN
+    RAISE EXCEPTION 'Only mental health crises and red MEOWS triggers are escalated to admins';
+  END IF;
+
+  SELECT id INTO mother_profile_id FROM public.mother_profiles WHERE user_id = auth.uid();
+  IF mother_profile_id IS NULL THEN
+    RAISE EXCEPTION 'No mother profile for the caller';
+  END IF;
+
+  INSERT INTO public.alerts (doctor_id, mother_id, alert_type, severity, message, status, vitals)
+  SELECT user_id, mother_profile_id, p_alert_type, p_severity, p_message, 'pending', p_data->'vitals'
+  FROM public.admin_profiles;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  SELECT user_id,
+    CASE p_alert_type
+      WHEN 'meows_red_trigger' THEN 'MEOWS Red Trigger (no assigned doctor)'
+      ELSE 'Mental Health Crisis (no assigned doctor)'
+    END,
+    p_message, 'alert',
+    COALESCE(p_data, '{}'::jsonb) || jsonb_build_object('mother_id', mother_profile_id)
+  FROM public.admin_profiles;
+
+  GET DIAGNOSTICS escalated = ROW_COUNT;
+  RETURN escalated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.notify_alert_doctors(uuid[], jsonb) FROM public;
+REVOKE ALL ON FUNCTION public.escalate_alert_to_admins(text, text, text, jsonb) FROM public;
+GRANT EXECUTE ON FUNCTION public.notify_alert_doctors(uuid[], jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.escalate_alert_to_admins(text, text, text, jsonb) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_ai_chat_sessions_follow_up ON ai_chat_sessions(flagged_at DESC) WHERE needs_follow_up;
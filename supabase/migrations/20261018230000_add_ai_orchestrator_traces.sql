@@ -0,0 +1,79 @@
+/*
+  # Agent Orchestrator Traces
+
+  Every agent orchestrator run is stored for the admin replay debugger:
+  - ai_orchestrator_traces: The message and context, the agent configuration
+    the run used, each agent's output, timing and failure, and the selected
+    reply before and after rephrasing
+  - path: How the reply was chosen ('emergency', 'mental_health_crisis' or
+    'consensus')
+  - user_pseudonym: The user's keyed pseudonym (see ai_current_user_pseudonym),
+    never the user id
+  - has_failures / has_conflicts: Whether an agent failed, and whether agents'
+    assessments conflicted, so the debugger can filter on them
+
+  Generic identifiers are redacted from messages, agent outputs and replies
+  before they are stored. Traces are kept for 30 days; expired traces are
+  deleted whenever a new trace is stored.
+
+  ## Security
+  - Users can store traces under their own current pseudonym
+  - Only admins can view traces
+*/
+
+CREATE TABLE IF NOT EXISTS ai_orchestrator_traces (
+  id uuid PRIMARY KEY,
+  user_pseudonym text NOT NULL DEFAULT public.ai_current_user_pseudonym(),
+  message text NOT NULL,
+  user_role text NOT NULL,
+  context jsonb DEFAULT '{}',
+  configuration jsonb DEFAULT '[]',
+  agents jsonb DEFAULT '[]',
+  path text NOT NULL CHECK (path IN ('emergency', 'mental_health_crisis', 'consensus')),
+  selected_agent_id text,
+  draft_response text,
+  final_response text,
+  requires_escalation boolean DEFAULT false,
+  has_failures boolean DEFAULT false,
+  has_conflicts boolean DEFAULT false,
+  triage_urgency text,
+  reasoning jsonb DEFAULT '{}',
+  generated_by jsonb,
+  duration_ms integer,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ai_orchestrator_traces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can store own orchestrator traces"
+  ON ai_orchestrator_traces FOR INSERT
+  TO authenticated
+  WITH CHECK (user_pseudonym = public.ai_current_user_pseudonym());
+
+CREATE POLICY "Admins can manage orchestrator traces"
+  ON ai_orchestrator_traces FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM admin_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_ai_orchestrator_traces_created ON ai_orchestrator_traces(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_orchestrator_traces_selected_agent ON ai_orchestrator_traces(selected_agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_orchestrator_traces_failures ON ai_orchestrator_traces(created_at DESC) WHERE has_failures;
+CREATE INDEX IF NOT EXISTS idx_ai_orchestrator_traces_conflicts ON ai_orchestrator_traces(created_at DESC) WHERE has_conflicts;
+
+-- Users cannot delete traces, so expiry runs with the definer's rights
+CREATE OR REPLACE FUNCTION public.ai_purge_expired_orchestrator_traces()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.ai_orchestrator_traces WHERE created_at < now() - interval '30 days';
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_ai_orchestrator_trace_purge_expired ON ai_orchestrator_traces;
+CREATE TRIGGER on_ai_orchestrator_trace_purge_expired
+  AFTER INSERT ON ai_orchestrator_traces
+  FOR EACH STATEMENT EXECUTE FUNCTION public.ai_purge_expired_orchestrator_traces();
@@ -0,0 +1,52 @@
+/*
+  # Agent Conflicts
+
+  Conflicts between agents' assessments, recorded for learning:
+  - ai_agent_conflicts: One row per conflict found in an orchestrator run,
+    with the more cautious assessment (which prevailed) and the more lenient
+    one it conflicted with
+  - dimension: What the agents disagreed on ('urgency', 'risk_level' or
+    'recommendation')
+  - cautious_agent_id: 'risk_record' when the risk level on the mother's
+    record was the more cautious position
+  - trace_id: The orchestrator trace of the run
+
+  ## Security
+  - Users can store conflicts from their own runs
+  - Only admins can view conflicts
+*/
+
+CREATE TABLE IF NOT EXISTS ai_agent_conflicts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trace_id uuid NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  dimension text NOT NULL CHECK (dimension IN ('urgency', 'risk_level', 'recommendation')),
+  cautious_agent_id text NOT NULL,
+  cautious_agent text NOT NULL,
+  cautious_value text NOT NULL,
+  lenient_agent_id text NOT NULL,
+  lenient_agent text NOT NULL,
+  lenient_value text NOT NULL,
+  gap integer NOT NULL,
+  resolution text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ai_agent_conflicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can store own agent conflicts"
+  ON ai_agent_conflicts FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage agent conflicts"
+  ON ai_agent_conflicts FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM admin_profiles WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_ai_agent_conflicts_created ON ai_agent_conflicts(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_agent_conflicts_trace ON ai_agent_conflicts(trace_id);
@@ -0,0 +1,15 @@
+/*
+  # AI Conversation Logging
+
+  Lets the app record each AI reply in ai_conversations, with the model
+  version that produced it:
+  - ai_conversations had no INSERT policy, so no reply was ever recorded
+
+  ## Security
+  - Users can only record their own conversations
+*/
+
+CREATE POLICY "Users can record own AI conversations"
+  ON ai_conversations FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
@@ -67,6 +67,7 @@ export interface AIAssessment {
   recommendations: Record<string, any>;
   decision_explanation: string;
   ai_model_version?: string;
+  knowledge_base_version?: string;
   processing_time_ms?: number;
   requires_doctor_review: boolean;
   created_at: string;
@@ -78,10 +79,17 @@ export interface VitalSign {
   systolic_bp?: number;
   diastolic_bp?: number;
   heart_rate?: number;
+  respiratory_rate?: number;
   temperature?: number;
   weight?: number;
   blood_sugar?: number;
   oxygen_saturation?: number;
+  consciousness_level?: 'alert' | 'voice' | 'pain' | 'unresponsive';
+  meows_score?: number;
+  meows_level?: 'normal' | 'increased_monitoring' | 'urgent_review' | 'emergency';
+  meows_red_triggers?: number;
+  meows_yellow_triggers?: number;
+  meows_triggers?: any[];
   notes?: string;
   source: string;
   device_id?: string;
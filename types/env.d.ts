@@ -3,6 +3,10 @@ declare global {
     interface ProcessEnv {
       EXPO_PUBLIC_SUPABASE_URL: string;
       EXPO_PUBLIC_SUPABASE_ANON_KEY: string;
+      EXPO_PUBLIC_LLM_PROVIDER?: string;
+      EXPO_PUBLIC_LLM_ENDPOINT?: string;
+      EXPO_PUBLIC_LLM_MODEL?: string;
+      EXPO_PUBLIC_LLM_VERSION?: string;
     }
   }
 }
@@ -221,6 +221,46 @@ export interface Database {
           created_at?: string
         }
       }
+
+      // AI conversation analytics
+      ai_conversations: {
+        Row: {
+          id: string
+          session_id: string
+          user_id: string | null
+          intent: string | null
+          risk_level: 'level_1' | 'level_2' | 'level_3' | 'level_4' | null
+          symptoms_extracted: string[] | null
+          confidence_score: number | null
+          required_escalation: boolean
+          model_version: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          user_id?: string | null
+          intent?: string | null
+          risk_level?: 'level_1' | 'level_2' | 'level_3' | 'level_4' | null
+          symptoms_extracted?: string[] | null
+          confidence_score?: number | null
+          required_escalation?: boolean
+          model_version?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          user_id?: string | null
+          intent?: string | null
+          risk_level?: 'level_1' | 'level_2' | 'level_3' | 'level_4' | null
+          symptoms_extracted?: string[] | null
+          confidence_score?: number | null
+          required_escalation?: boolean
+          model_version?: string | null
+          created_at?: string
+        }
+      }
     }
     
     Views: {